@@ -0,0 +1,234 @@
+"use client"
+
+import { Layers } from "lucide-react"
+import { usePathname } from "next/navigation"
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+
+interface LayerDefinition {
+  layers: Array<{ name: string; paths: string[]; description?: string }>
+  allowed: Record<string, string[]>
+  edgeKinds?: Array<"imports" | "calls">
+  enforcement: string
+}
+
+interface Violation {
+  fromLayer: string
+  toLayer: string
+  edgeKind: string
+  source: { name: string; filePath: string; line: number }
+  target: { name: string; filePath: string; line: number }
+}
+
+interface Report {
+  layers: string[]
+  matrix: Record<string, Record<string, { count: number; allowed: boolean }>>
+  violations: Violation[]
+  checkedEdges: number
+  unlayeredFiles: number
+}
+
+const EXAMPLE_DEFINITION: LayerDefinition = {
+  layers: [
+    { name: "ui", paths: ["app/**", "components/**"] },
+    { name: "domain", paths: ["lib/domain/**"] },
+    { name: "db", paths: ["lib/db/**"] },
+  ],
+  allowed: { ui: ["domain"], domain: ["db"] },
+  enforcement: "warn",
+}
+
+export default function GuardrailsArchitecturePage() {
+  const pathname = usePathname()
+  const repoId = pathname.match(/\/repos\/([^/]+)/)?.[1] ?? ""
+  const [definition, setDefinition] = useState<LayerDefinition | null>(null)
+  const [report, setReport] = useState<Report | null>(null)
+  const [violationCount, setViolationCount] = useState(0)
+  const [draft, setDraft] = useState("")
+  const [editing, setEditing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchArchitecture = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/repos/${repoId}/rules/architecture`)
+      if (res.ok) {
+        const json = (await res.json()) as {
+          data: { definition: LayerDefinition | null; report: Report | null; violationCount?: number }
+        }
+        setDefinition(json.data.definition)
+        setReport(json.data.report)
+        setViolationCount(json.data.violationCount ?? 0)
+      }
+    } catch {
+      // fetch failed
+    } finally {
+      setLoading(false)
+    }
+  }, [repoId])
+
+  useEffect(() => {
+    if (repoId) void fetchArchitecture()
+  }, [repoId, fetchArchitecture])
+
+  function startEditing() {
+    const current = definition
+      ? { layers: definition.layers, allowed: definition.allowed, edgeKinds: definition.edgeKinds, enforcement: definition.enforcement }
+      : EXAMPLE_DEFINITION
+    setDraft(JSON.stringify(current, null, 2))
+    setError(null)
+    setEditing(true)
+  }
+
+  async function handleSave() {
+    let body: unknown
+    try {
+      body = JSON.parse(draft)
+    } catch {
+      setError("Definition must be valid JSON")
+      return
+    }
+    const res = await fetch(`/api/repos/${repoId}/rules/architecture`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    if (!res.ok) {
+      const json = (await res.json().catch(() => ({}))) as { error?: string }
+      setError(json.error ?? "Failed to save layer definition")
+      return
+    }
+    setEditing(false)
+    setLoading(true)
+    await fetchArchitecture()
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-[200px] w-full" />
+        <Skeleton className="h-[100px] w-full" />
+      </div>
+    )
+  }
+
+  if (editing) {
+    return (
+      <div className="glass-card p-4 space-y-3">
+        <div className="space-y-1">
+          <h3 className="font-grotesk text-sm font-medium text-foreground">Layer Definition</h3>
+          <p className="text-xs text-muted-foreground">
+            Map file globs to layers, then list which layers each layer may depend on. A layer may always depend on
+            itself; anything not listed under <code>allowed</code> is a violation.
+          </p>
+        </div>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="font-mono text-xs min-h-[320px]"
+          spellCheck={false}
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" className="bg-rail-fade hover:opacity-90" onClick={() => void handleSave()}>
+            Save
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!definition || !report) {
+    return (
+      <div className="glass-card p-8 text-center">
+        <Layers className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+        <h3 className="font-grotesk text-sm font-medium text-foreground">No Layers Defined</h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          Declare architecture layers and their allowed dependencies to check imports and calls continuously.
+        </p>
+        <Button size="sm" className="mt-4 bg-rail-fade hover:opacity-90" onClick={startEditing}>
+          Define Layers
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {report.checkedEdges} cross-file dependencies checked · {violationCount} violation(s) ·{" "}
+          {report.unlayeredFiles} file(s) outside any layer · enforcement: {definition.enforcement}
+        </p>
+        <Button size="sm" variant="outline" onClick={startEditing}>
+          Edit Layers
+        </Button>
+      </div>
+
+      <div className="glass-card p-4 overflow-x-auto">
+        <h3 className="font-grotesk text-sm font-medium text-foreground mb-3">Dependency Matrix</h3>
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 text-left text-muted-foreground font-normal">from ↓ / to →</th>
+              {report.layers.map((to) => (
+                <th key={to} className="px-2 py-1 text-center font-medium text-foreground">
+                  {to}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.layers.map((from) => (
+              <tr key={from}>
+                <td className="px-2 py-1 font-medium text-foreground">{from}</td>
+                {report.layers.map((to) => {
+                  const cell = report.matrix[from]?.[to] ?? { count: 0, allowed: false }
+                  const tone = cell.allowed
+                    ? "bg-emerald-500/10 text-emerald-400"
+                    : cell.count > 0
+                      ? "bg-red-500/15 text-red-400 font-semibold"
+                      : "bg-muted/40 text-muted-foreground"
+                  return (
+                    <td key={to} className="px-1 py-1">
+                      <div
+                        className={`rounded px-3 py-1.5 text-center tabular-nums ${tone}`}
+                        title={cell.allowed ? "allowed" : "not allowed"}
+                      >
+                        {cell.count > 0 ? cell.count : cell.allowed ? "·" : "✕"}
+                      </div>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.violations.length > 0 && (
+        <div className="glass-card p-4 space-y-2">
+          <h3 className="font-grotesk text-sm font-medium text-foreground">Violations</h3>
+          <ul className="space-y-1.5">
+            {report.violations.map((v) => (
+              <li key={`${v.edgeKind}:${v.source.filePath}:${v.source.line}:${v.target.filePath}:${v.target.name}`} className="text-xs">
+                <span className="inline-flex items-center rounded-full bg-red-500/10 text-red-400 px-2 py-0.5 mr-2">
+                  {v.fromLayer} → {v.toLayer}
+                </span>
+                <code className="text-foreground">{v.source.name}</code>
+                <span className="text-muted-foreground"> ({v.source.filePath}:{v.source.line}) {v.edgeKind} </span>
+                <code className="text-foreground">{v.target.name}</code>
+                <span className="text-muted-foreground"> ({v.target.filePath})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -20,6 +20,7 @@ export default async function GuardrailsLayout({
         basePath={basePath}
         tabs={[
           { label: "Rules", href: "" },
+          { label: "Architecture", href: "/architecture" },
           { label: "Reviews", href: "/reviews" },
           { label: "Decisions", href: "/decisions" },
         ]}
@@ -2,6 +2,7 @@
 
 import { useParams } from "next/navigation"
 import { useEffect, useState } from "react"
+import { EffectiveReviewConfig } from "@/components/repo/effective-review-config"
 import { ReviewConfigForm } from "@/components/repo/review-config-form"
 import { Skeleton } from "@/components/ui/skeleton"
 import type { ReviewConfig } from "@/lib/ports/types"
@@ -40,6 +41,14 @@ export default function ReviewSettingsPage() {
           <ReviewConfigForm config={config} repoId={repoId} />
         )}
       </div>
+
+      <div className="glass-card p-6 max-w-2xl space-y-4">
+        <div className="space-y-1">
+          <h2 className="font-grotesk text-sm font-semibold text-foreground">Effective Configuration</h2>
+          <p className="text-xs text-muted-foreground">What reviews run with after merging repo config files</p>
+        </div>
+        <EffectiveReviewConfig repoId={repoId} />
+      </div>
     </div>
   )
 }
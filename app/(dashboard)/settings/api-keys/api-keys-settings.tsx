@@ -1,10 +1,12 @@
 "use client"
 
-import { Key, Trash2 } from "lucide-react"
+import { Copy, Key, Plus, RotateCw, Trash2 } from "lucide-react"
 import Link from "next/link"
 import { useState } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { type McpScope, SCOPE_CATALOGUE } from "@/lib/mcp/scopes"
 
 interface ApiKeyItem {
   id: string
@@ -18,16 +20,83 @@ interface ApiKeyItem {
   createdAt: string
 }
 
+interface RepoOption {
+  id: string
+  fullName: string
+}
+
 interface ApiKeysSettingsProps {
   initialKeys: ApiKeyItem[]
+  repos: RepoOption[]
 }
 
-export function ApiKeysSettings({ initialKeys }: ApiKeysSettingsProps) {
+const DEFAULT_SCOPES: McpScope[] = SCOPE_CATALOGUE.filter((s) => !s.write).map((s) => s.scope)
+
+export function ApiKeysSettings({ initialKeys, repos }: ApiKeysSettingsProps) {
   const [keys, setKeys] = useState<ApiKeyItem[]>(initialKeys)
+  const [name, setName] = useState("")
+  const [repoId, setRepoId] = useState(repos[0]?.id ?? "")
+  const [scopes, setScopes] = useState<McpScope[]>(DEFAULT_SCOPES)
+  const [loading, setLoading] = useState(false)
+  const [newKeyRaw, setNewKeyRaw] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
 
   const activeKeys = keys.filter((k) => !k.revokedAt)
   const revokedKeys = keys.filter((k) => k.revokedAt)
 
+  const toggleScope = (scope: McpScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+  }
+
+  const handleGenerate = async () => {
+    if (!name.trim() || scopes.length === 0) return
+    setLoading(true)
+    try {
+      const res = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ repoId: repoId || undefined, name: name.trim(), scopes }),
+      })
+      if (!res.ok) {
+        const data = (await res.json()) as { error: string }
+        alert(data.error)
+        return
+      }
+      const data = (await res.json()) as {
+        id: string
+        key: string
+        keyPrefix: string
+        name: string
+        scopes: string[]
+        createdAt: string
+      }
+      setNewKeyRaw(data.key)
+      setKeys((prev) => [
+        {
+          id: data.id,
+          keyPrefix: data.keyPrefix,
+          name: data.name,
+          repoId: repoId || null,
+          repoName: repos.find((r) => r.id === repoId)?.fullName ?? "All repositories",
+          scopes: data.scopes,
+          lastUsedAt: null,
+          revokedAt: null,
+          createdAt: data.createdAt,
+        },
+        ...prev,
+      ])
+      setName("")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCopy = async (text: string) => {
+    await navigator.clipboard.writeText(text)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
   const handleRevoke = async (id: string) => {
     if (!confirm("Revoke this API key? Active MCP sessions using this key will be disconnected.")) return
     const res = await fetch(`/api/api-keys/${id}`, { method: "DELETE" })
@@ -38,22 +107,101 @@ export function ApiKeysSettings({ initialKeys }: ApiKeysSettingsProps) {
     }
   }
 
-  if (keys.length === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center py-16 text-center">
-        <div className="flex h-12 w-12 items-center justify-center rounded-full border border-border bg-muted/30 mb-4">
-          <Key className="h-5 w-5 text-muted-foreground" />
+  return (
+    <div className="space-y-6">
+      {/* Generate new key */}
+      <div className="glass-card rounded-lg border border-border p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Key className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Generate API Key
+          </h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Key name (e.g., Cursor IDE, CI Pipeline)"
+            className="h-9 text-sm flex-1"
+          />
+          <select
+            className="flex h-9 w-56 rounded-md border border-input bg-background px-3 py-1 text-sm"
+            value={repoId}
+            onChange={(e) => setRepoId(e.target.value)}
+          >
+            {repos.map((repo) => (
+              <option key={repo.id} value={repo.id}>
+                {repo.fullName}
+              </option>
+            ))}
+            <option value="">All repositories</option>
+          </select>
+          <Button
+            size="sm"
+            className="bg-rail-fade hover:opacity-90 gap-1.5"
+            onClick={handleGenerate}
+            disabled={loading || !name.trim() || scopes.length === 0}
+          >
+            {loading ? <RotateCw className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+            Generate
+          </Button>
+        </div>
+        <div className="grid gap-1.5 sm:grid-cols-2">
+          {SCOPE_CATALOGUE.map((def) => (
+            <label key={def.scope} className="flex items-start gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scopes.includes(def.scope)}
+                onChange={(e) => toggleScope(def.scope, e.target.checked)}
+                className="mt-0.5 rounded border-border"
+              />
+              <span>
+                <code className="font-mono text-foreground">{def.scope}</code>
+                {def.write && <span className="ml-1 text-warning">write</span>}
+                <span className="block text-muted-foreground/70">{def.description}</span>
+              </span>
+            </label>
+          ))}
         </div>
-        <h2 className="font-grotesk text-base font-semibold text-foreground">No API Keys</h2>
-        <p className="text-sm text-muted-foreground mt-1 max-w-sm">
-          API keys are created per repository. Navigate to a repository's "Connect to IDE" page to generate keys.
-        </p>
       </div>
-    )
-  }
 
-  return (
-    <div className="space-y-6">
+      {/* New key alert */}
+      {newKeyRaw && (
+        <div className="rounded-lg border border-electric-cyan/30 bg-electric-cyan/5 p-4 space-y-2">
+          <p className="text-xs font-semibold text-electric-cyan">
+            API Key Generated — Copy it now, it won't be shown again
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 rounded bg-muted/20 px-2 py-1 font-mono text-xs text-foreground break-all">
+              {newKeyRaw}
+            </code>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleCopy(newKeyRaw)}
+              className="h-7 gap-1.5 px-2 text-xs"
+            >
+              <Copy className="h-3 w-3" />
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setNewKeyRaw(null)}
+            className="h-6 px-2 text-xs text-muted-foreground"
+          >
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      {keys.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No API keys yet. Generate one above to connect an IDE or CI pipeline.
+        </p>
+      )}
+
       {activeKeys.length > 0 && (
         <div className="glass-card rounded-lg border border-border divide-y divide-border">
           <div className="px-4 py-2.5 border-b border-border">
@@ -142,8 +290,8 @@ export function ApiKeysSettings({ initialKeys }: ApiKeysSettingsProps) {
       )}
 
       <p className="text-xs text-muted-foreground">
-        To generate new API keys, go to a repository's{" "}
-        <span className="text-foreground font-medium">Connect to IDE</span> page.
+        Keys with <code className="font-mono">mcp:read</code> or <code className="font-mono">mcp:sync</code> predate
+        fine-grained scopes and grant every read or write scope respectively.
       </p>
     </div>
   )
@@ -41,7 +41,10 @@ export default async function ApiKeysPage() {
         </p>
       </div>
 
-      <ApiKeysSettings initialKeys={keys} />
+      <ApiKeysSettings
+        initialKeys={keys}
+        repos={repos.filter((r) => r.status === "ready").map((r) => ({ id: r.id, fullName: r.fullName }))}
+      />
     </div>
   )
 }
@@ -9,6 +9,7 @@ import { getActiveOrgId } from "@/lib/api/get-active-org"
 import { auth } from "@/lib/auth"
 import { getContainer } from "@/lib/di/container"
 import { generateApiKey } from "@/lib/mcp/auth"
+import { findUnknownScopes } from "@/lib/mcp/scopes"
 import { logger } from "@/lib/utils/logger"
 
 const log = logger.child({ service: "api-keys" })
@@ -36,6 +37,17 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "name is required" }, { status: 400 })
   }
 
+  if (body.scopes !== undefined) {
+    const unknownScopes = findUnknownScopes(body.scopes)
+    if (body.scopes.length === 0 || unknownScopes.length > 0) {
+      log.warn("POST /api/api-keys — invalid scopes", { ...ctx, unknownScopes })
+      return NextResponse.json(
+        { error: unknownScopes.length > 0 ? `Unknown scopes: ${unknownScopes.join(", ")}` : "At least one scope is required" },
+        { status: 400 }
+      )
+    }
+  }
+
   log.info("Creating API key", { ...ctx, repoId: body.repoId, keyName: body.name })
   const container = getContainer()
 
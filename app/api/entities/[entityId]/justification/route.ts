@@ -144,6 +144,7 @@ export async function PATCH(
         featureTag: updated.feature_tag,
         businessPurpose: updated.business_purpose,
       }])
+      await container.vectorSearch.flush?.(updated.repo_id)
     }
 
     log.info("Justification overridden", { userId, organizationId: body.orgId, entityId, newTaxonomy: updated.taxonomy })
@@ -0,0 +1,40 @@
+/**
+ * POST /api/repos/[repoId]/impact/tests — test impact selection.
+ * Body: { files?: string[], diff?: string, maxDepth?: number }
+ * Returns the tests that exercise the change and the changed entities no test covers.
+ */
+
+import { NextRequest } from "next/server"
+import { z } from "zod"
+import { getActiveOrgId } from "@/lib/api/get-active-org"
+import { getContainer } from "@/lib/di/container"
+import { withAuth } from "@/lib/middleware/api-handler"
+import { selectTests } from "@/lib/review/test-selection"
+import { errorResponse, successResponse } from "@/lib/utils/api-response"
+
+const SelectTestsSchema = z
+  .object({
+    files: z.array(z.string().min(1)).max(1000).optional(),
+    diff: z.string().max(5_000_000).optional(),
+    maxDepth: z.number().int().min(1).max(8).optional(),
+  })
+  .refine((b) => (b.files?.length ?? 0) > 0 || !!b.diff, { message: "Provide files or diff" })
+
+export const POST = withAuth(async (req: NextRequest) => {
+  const path = req.nextUrl.pathname
+  const repoId = path.replace(/^\/api\/repos\//, "").split("/")[0]
+  if (!repoId) return errorResponse("Repo ID required", 400)
+  const orgId = await getActiveOrgId()
+  if (!orgId) return errorResponse("No organization", 400)
+  const container = getContainer()
+  const repo = await container.relationalStore.getRepo(orgId, repoId)
+  if (!repo) return errorResponse("Repo not found", 404)
+
+  const parsed = SelectTestsSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return errorResponse(`Invalid request: ${parsed.error.issues.map((i) => i.message).join(", ")}`, 400)
+  }
+
+  const result = await selectTests(orgId, repoId, parsed.data, container.graphStore)
+  return successResponse(result)
+})
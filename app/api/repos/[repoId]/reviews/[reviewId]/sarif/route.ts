@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getActiveOrgId } from "@/lib/api/get-active-org"
+import { getContainer } from "@/lib/di/container"
+import { withAuth } from "@/lib/middleware/api-handler"
+import { buildSarifLog, reviewCommentsToSarif } from "@/lib/review/sarif"
+import { errorResponse } from "@/lib/utils/api-response"
+
+/**
+ * GET /api/repos/[repoId]/reviews/[reviewId]/sarif — the review's findings as a SARIF 2.1.0 log.
+ */
+export const GET = withAuth(async (req: NextRequest) => {
+  const path = req.nextUrl.pathname
+  const match = path.match(/^\/api\/repos\/([^/]+)\/reviews\/([^/]+)\/sarif/)
+  const repoId = match?.[1]
+  const reviewId = match?.[2]
+  if (!repoId || !reviewId) {
+    return errorResponse("Repo ID and review ID required", 400)
+  }
+  const orgId = await getActiveOrgId()
+  if (!orgId) {
+    return errorResponse("No organization", 400)
+  }
+  const container = getContainer()
+  const repo = await container.relationalStore.getRepo(orgId, repoId)
+  if (!repo) {
+    return errorResponse("Repo not found", 404)
+  }
+  const review = await container.relationalStore.getPrReview(reviewId)
+  if (!review || review.repoId !== repoId) {
+    return errorResponse("Review not found", 404)
+  }
+
+  const comments = await container.relationalStore.listPrReviewComments(reviewId)
+  const sarif = buildSarifLog(reviewCommentsToSarif(comments), { category: `unerr/review/${repoId}` })
+
+  return new NextResponse(JSON.stringify(sarif, null, 2), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/sarif+json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="unerr-review-${review.prNumber}.sarif"`,
+    },
+  })
+})
@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server"
+import { getActiveOrgId } from "@/lib/api/get-active-org"
+import { getContainer } from "@/lib/di/container"
+import { withAuth } from "@/lib/middleware/api-handler"
+import { checkArchitecture } from "@/lib/rules/architecture"
+import { LayerDefinitionSchema } from "@/lib/rules/schema"
+import { errorResponse, successResponse } from "@/lib/utils/api-response"
+
+/**
+ * GET /api/repos/[repoId]/rules/architecture — layer definition, dependency matrix and violations.
+ */
+export const GET = withAuth(async (req: NextRequest) => {
+  const path = req.nextUrl.pathname
+  const repoId = path.replace(/^\/api\/repos\//, "").split("/")[0]
+  if (!repoId) return errorResponse("Repo ID required", 400)
+  const orgId = await getActiveOrgId()
+  if (!orgId) return errorResponse("No organization", 400)
+  const container = getContainer()
+  const repo = await container.relationalStore.getRepo(orgId, repoId)
+  if (!repo) return errorResponse("Repo not found", 404)
+
+  const result = await checkArchitecture(orgId, repoId, container.graphStore)
+  if (!result) return successResponse({ definition: null, report: null })
+
+  return successResponse({
+    definition: result.definition,
+    report: { ...result.report, violations: result.report.violations.slice(0, 200) },
+    violationCount: result.report.violations.length,
+  })
+})
+
+/**
+ * PUT /api/repos/[repoId]/rules/architecture — replace the repo's layer definition.
+ */
+export const PUT = withAuth(async (req: NextRequest, { userId }) => {
+  const path = req.nextUrl.pathname
+  const repoId = path.replace(/^\/api\/repos\//, "").split("/")[0]
+  if (!repoId) return errorResponse("Repo ID required", 400)
+  const orgId = await getActiveOrgId()
+  if (!orgId) return errorResponse("No organization", 400)
+  const container = getContainer()
+  const repo = await container.relationalStore.getRepo(orgId, repoId)
+  if (!repo) return errorResponse("Repo not found", 404)
+
+  const body = (await req.json()) as Record<string, unknown>
+  const parsed = LayerDefinitionSchema.safeParse(body)
+  if (!parsed.success) {
+    return errorResponse(`Invalid layer definition: ${parsed.error.message}`, 400)
+  }
+
+  const existing = await container.graphStore.getLayerDefinition(orgId, repoId)
+  const now = new Date().toISOString()
+  await container.graphStore.upsertLayerDefinition(orgId, {
+    id: repoId,
+    org_id: orgId,
+    repo_id: repoId,
+    layers: parsed.data.layers,
+    allowed: parsed.data.allowed,
+    edgeKinds: parsed.data.edgeKinds,
+    enforcement: parsed.data.enforcement,
+    createdBy: existing?.createdBy ?? userId,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  })
+
+  return successResponse({ id: repoId }, "Layer definition saved")
+})
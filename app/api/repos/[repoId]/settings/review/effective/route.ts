@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server"
+import { getActiveOrgId } from "@/lib/api/get-active-org"
+import { getContainer, getGitHost } from "@/lib/di/container"
+import { withAuth } from "@/lib/middleware/api-handler"
+import { resolveReviewConfig } from "@/lib/review/repo-config"
+import { errorResponse, successResponse } from "@/lib/utils/api-response"
+
+/**
+ * GET /api/repos/[repoId]/settings/review/effective — review config as merged from
+ * `.unerr/review.yml` on the default branch over the stored settings, with per-key sources.
+ */
+export const GET = withAuth(async (req: NextRequest) => {
+  const path = req.nextUrl.pathname
+  const repoId = path.replace(/^\/api\/repos\//, "").split("/")[0]
+  if (!repoId) return errorResponse("Repo ID required", 400)
+  const orgId = await getActiveOrgId()
+  if (!orgId) return errorResponse("No organization", 400)
+  const container = getContainer()
+  const repo = await container.relationalStore.getRepo(orgId, repoId)
+  if (!repo) return errorResponse("Repo not found", 404)
+
+  // GitLab namespaces nest — the project is the last path segment
+  const split = repo.fullName.lastIndexOf("/")
+  if (split <= 0) return errorResponse(`Invalid repo fullName: ${repo.fullName}`, 400)
+
+  const resolved = await resolveReviewConfig(container, getGitHost(container, repo.provider), {
+    orgId,
+    repoId,
+    owner: repo.fullName.slice(0, split),
+    repo: repo.fullName.slice(split + 1),
+    ref: repo.defaultBranch ?? "main",
+  })
+
+  return successResponse({
+    ref: repo.defaultBranch ?? "main",
+    config: resolved.config,
+    sources: resolved.sources,
+    files: resolved.files,
+    rules: resolved.rules.map((r) => ({ name: r.name, title: r.title, enforcement: r.enforcement, file: r.createdBy })),
+    errors: resolved.errors,
+  })
+})
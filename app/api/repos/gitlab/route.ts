@@ -0,0 +1,151 @@
+/**
+ * GitLab project onboarding — GitLab has no App installations, so projects the
+ * GITLAB_TOKEN can maintain are listed and connected here. Connecting a project
+ * registers the push / merge request webhook and starts the initial index.
+ */
+
+import { revalidatePath } from "next/cache"
+import { NextRequest } from "next/server"
+import { randomUUID } from "node:crypto"
+import { getActiveOrgId } from "@/lib/api/get-active-org"
+import { getContainer } from "@/lib/di/container"
+import { withAuth } from "@/lib/middleware/api-handler"
+import { errorResponse, successResponse } from "@/lib/utils/api-response"
+import { logger } from "@/lib/utils/logger"
+
+const MAX_REPOS_PER_ORG = 50
+const MAX_CONCURRENT_INDEXING = 3
+const WEBHOOK_EVENTS = ["push", "merge_request", "note"]
+
+const log = logger.child({ service: "gitlab-onboarding" })
+
+function gitLabBaseUrl(): string {
+  return (process.env.GITLAB_URL ?? "https://gitlab.com").replace(/\/$/, "")
+}
+
+/** Split `group/subgroup/project` into the owner/repo pair the git host port expects. */
+function splitFullName(fullName: string): { owner: string; repo: string } {
+  const idx = fullName.lastIndexOf("/")
+  return { owner: fullName.slice(0, idx), repo: fullName.slice(idx + 1) }
+}
+
+export const GET = withAuth(async () => {
+  const orgId = await getActiveOrgId()
+  if (!orgId) {
+    return errorResponse("No organization", 400)
+  }
+  if (!process.env.GITLAB_TOKEN) {
+    return successResponse({ repos: [] })
+  }
+
+  const container = getContainer()
+  const existing = await container.relationalStore.getRepos(orgId)
+  const connected = new Set(existing.filter((r) => r.provider === "gitlab").map((r) => r.providerId))
+  const projects = await container.gitLabHost.getInstallationRepos(0)
+  return successResponse({ repos: projects.filter((p) => !connected.has(String(p.id))) })
+})
+
+export const POST = withAuth(async (req: NextRequest) => {
+  const orgId = await getActiveOrgId()
+  if (!orgId) {
+    return errorResponse("No organization", 400)
+  }
+  if (!process.env.GITLAB_TOKEN) {
+    return errorResponse("GITLAB_TOKEN is not configured", 400)
+  }
+
+  const body = (await req.json()) as { projects?: Array<{ projectId: number; branch?: string }> }
+  const projectInputs = Array.isArray(body.projects) ? body.projects : []
+  if (projectInputs.length === 0) {
+    return errorResponse("projects array is required", 400)
+  }
+
+  const container = getContainer()
+  const existingRepos = await container.relationalStore.getRepos(orgId)
+  if (existingRepos.length + projectInputs.length > MAX_REPOS_PER_ORG) {
+    return errorResponse(`Maximum ${MAX_REPOS_PER_ORG} repos per organization`, 400)
+  }
+
+  const indexing = await container.relationalStore.getReposByStatus(orgId, "indexing")
+  if (indexing.length >= MAX_CONCURRENT_INDEXING) {
+    return errorResponse(`Maximum ${MAX_CONCURRENT_INDEXING} concurrent indexing workflows`, 429)
+  }
+
+  const projects = new Map((await container.gitLabHost.getInstallationRepos(0)).map((p) => [p.id, p]))
+  const connected = new Set(existingRepos.filter((r) => r.provider === "gitlab").map((r) => r.providerId))
+  const toAdd = projectInputs.filter((p) => projects.has(p.projectId) && !connected.has(String(p.projectId)))
+
+  const appUrl = process.env.BETTER_AUTH_URL ?? process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000"
+  const created: { id: string; name: string; status: string }[] = []
+
+  for (const input of toAdd) {
+    const project = projects.get(input.projectId)!
+    const { owner, repo: name } = splitFullName(project.fullName)
+    const repo = await container.relationalStore.createRepo({
+      organizationId: orgId,
+      name,
+      fullName: project.fullName,
+      provider: "gitlab",
+      providerId: String(project.id),
+      status: "pending",
+      defaultBranch: input.branch ?? project.defaultBranch,
+    })
+    created.push({ id: repo.id, name: repo.name, status: repo.status })
+
+    try {
+      await container.gitLabHost.createWebhook(owner, name, WEBHOOK_EVENTS, `${appUrl}/api/webhooks/gitlab`)
+    } catch (error: unknown) {
+      // Indexing still works without the hook; reviews start once it is added by hand
+      log.warn("Failed to register GitLab webhook", { project: project.fullName, error: error instanceof Error ? error.message : String(error) })
+    }
+
+    const workflowId = `index-${orgId}-${repo.id}`
+    const runId = randomUUID()
+    try {
+      await container.relationalStore.createPipelineRun({
+        id: runId,
+        repoId: repo.id,
+        organizationId: orgId,
+        workflowId,
+        triggerType: "initial",
+        pipelineType: "full",
+      })
+
+      await container.workflowEngine.startWorkflow({
+        workflowId,
+        workflowFn: "indexRepoWorkflow",
+        args: [{
+          orgId,
+          repoId: repo.id,
+          provider: "gitlab",
+          cloneUrl: `${gitLabBaseUrl()}/${project.fullName}.git`,
+          defaultBranch: repo.defaultBranch ?? "main",
+          runId,
+          scope: "primary",
+        }],
+        taskQueue: "heavy-compute-queue",
+      })
+      await container.relationalStore.updateRepoStatus(repo.id, {
+        status: "indexing",
+        workflowId,
+      })
+      const c = created.find((x) => x.id === repo.id)
+      if (c) c.status = "indexing"
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      await container.relationalStore.updateRepoStatus(repo.id, {
+        status: "error",
+        errorMessage: message,
+      })
+      const c = created.find((x) => x.id === repo.id)
+      if (c) c.status = "error"
+    }
+  }
+
+  revalidatePath("/repos")
+  return successResponse({
+    repos: await container.relationalStore.getRepos(orgId),
+    created,
+    indexingStarted: created.some((c) => c.status === "indexing"),
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * Bitbucket webhook handler.
+ * Tests signature verification, delivery dedup, Cloud and Server pushes →
+ * incremental indexing, and pull request events → PR review / merge ledger.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createHmac } from "node:crypto"
+import { POST } from "@/app/api/webhooks/bitbucket/route"
+import { BASE_SHA, HEAD_SHA, REPO_UUID } from "@/lib/adapters/__tests__/fixtures/bitbucket-api"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+
+let testContainer: Container
+
+vi.mock("@/lib/di/container", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/di/container")>()
+  return {
+    ...original,
+    getContainer: () => testContainer,
+  }
+})
+
+const WEBHOOK_SECRET = "test-bitbucket-secret"
+const CLOUD_REPOSITORY = {
+  uuid: REPO_UUID,
+  full_name: "acme/web",
+  name: "web",
+  links: { html: { href: "https://bitbucket.org/acme/web" } },
+}
+const SERVER_REPOSITORY = {
+  id: 31,
+  slug: "billing",
+  project: { key: "PLAT" },
+  links: {
+    clone: [
+      { href: "ssh://git@bitbucket.example.com:7999/plat/billing.git", name: "ssh" },
+      { href: "https://bitbucket.example.com/scm/plat/billing.git", name: "http" },
+    ],
+  },
+}
+
+function makeRequest(body: unknown, event: string, headers: Record<string, string> = {}): Request {
+  const raw = JSON.stringify(body)
+  return new Request("http://localhost:3000/api/webhooks/bitbucket", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-event-key": event,
+      "x-hub-signature": "sha256=" + createHmac("sha256", WEBHOOK_SECRET).update(raw).digest("hex"),
+      ...headers,
+    },
+    body: raw,
+  })
+}
+
+function makeCloudPush(branch = "main"): Record<string, unknown> {
+  const ref = (hash: string) => ({ type: "branch", name: branch, target: { hash } })
+  return {
+    repository: CLOUD_REPOSITORY,
+    push: { changes: [{ old: ref(BASE_SHA), new: ref(HEAD_SHA), commits: [{ hash: HEAD_SHA, message: "fix: empty carts" }] }] },
+  }
+}
+
+function makeCloudPullRequest(state = "OPEN"): Record<string, unknown> {
+  return {
+    repository: CLOUD_REPOSITORY,
+    actor: { display_name: "Dev One", nickname: "dev1" },
+    pullrequest: {
+      id: 12,
+      title: "Handle empty carts",
+      state,
+      draft: false,
+      links: { html: { href: "https://bitbucket.org/acme/web/pull-requests/12" } },
+      source: { branch: { name: "fix/empty-cart" }, commit: { hash: HEAD_SHA } },
+      destination: { branch: { name: "main" }, commit: { hash: BASE_SHA } },
+    },
+  }
+}
+
+describe("Bitbucket webhook POST handler", () => {
+  let container: Container
+  let started: Array<{ workflowFn?: string; workflowId?: string; args?: unknown[] }>
+  const originalEnv = process.env.BITBUCKET_WEBHOOK_SECRET
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    testContainer = container
+    process.env.BITBUCKET_WEBHOOK_SECRET = WEBHOOK_SECRET
+
+    const cloudRepo = await container.relationalStore.createRepo({
+      organizationId: "org-1",
+      name: "web",
+      fullName: "acme/web",
+      provider: "bitbucket",
+      providerId: REPO_UUID,
+      status: "ready",
+      defaultBranch: "main",
+    })
+    await container.relationalStore.updateRepoReviewConfig(cloudRepo.id, { ...DEFAULT_REVIEW_CONFIG, enabled: true })
+    await container.relationalStore.createRepo({
+      organizationId: "org-2",
+      name: "billing",
+      fullName: "PLAT/billing",
+      provider: "bitbucket",
+      providerId: "31",
+      status: "ready",
+      defaultBranch: "master",
+    })
+
+    started = []
+    container.workflowEngine.startWorkflow = async (opts: { workflowFn?: string; workflowId?: string; args?: unknown[] } = {}) => {
+      started.push(opts)
+      return { workflowId: opts.workflowId ?? "test", runId: "run-1", result: async () => undefined as never }
+    }
+  })
+
+  afterEach(() => {
+    if (originalEnv !== undefined) {
+      process.env.BITBUCKET_WEBHOOK_SECRET = originalEnv
+    } else {
+      delete process.env.BITBUCKET_WEBHOOK_SECRET
+    }
+  })
+
+  it("returns 401 when the signature is missing or wrong", async () => {
+    const missing = await POST(makeRequest(makeCloudPush(), "repo:push", { "x-hub-signature": "" }) as never)
+    expect(missing.status).toBe(401)
+
+    const wrong = await POST(makeRequest(makeCloudPush(), "repo:push", { "x-hub-signature": "sha256=" + "0".repeat(64) }) as never)
+    expect(wrong.status).toBe(401)
+    expect(((await wrong.json()) as { error: string }).error).toContain("Invalid signature")
+  })
+
+  it("returns 500 when the webhook secret is not configured", async () => {
+    delete process.env.BITBUCKET_WEBHOOK_SECRET
+
+    const res = await POST(makeRequest(makeCloudPush(), "repo:push") as never)
+    expect(res.status).toBe(500)
+  })
+
+  it("starts incremental indexing for Cloud default-branch pushes and deduplicates deliveries", async () => {
+    const headers = { "x-request-uuid": "delivery-1" }
+    const res = await POST(makeRequest(makeCloudPush(), "repo:push", headers) as never)
+    await POST(makeRequest(makeCloudPush(), "repo:push", headers) as never)
+
+    expect(res.status).toBe(200)
+    expect(started).toHaveLength(1)
+    expect(started[0]!.workflowFn).toBe("incrementalIndexWorkflow")
+    expect(started[0]!.args![0]).toMatchObject({
+      provider: "bitbucket",
+      cloneUrl: "https://bitbucket.org/acme/web.git",
+      defaultBranch: "main",
+      initialPush: { afterSha: HEAD_SHA, beforeSha: BASE_SHA, ref: "refs/heads/main", commitMessage: "fix: empty carts" },
+    })
+  })
+
+  it("starts incremental indexing for Server refs_changed on the default branch only", async () => {
+    const refsChanged = (displayId: string) => ({
+      eventKey: "repo:refs_changed",
+      repository: SERVER_REPOSITORY,
+      changes: [{ ref: { id: `refs/heads/${displayId}`, displayId, type: "BRANCH" }, fromHash: BASE_SHA, toHash: HEAD_SHA, type: "UPDATE" }],
+    })
+
+    await POST(makeRequest(refsChanged("feature/x"), "repo:refs_changed") as never)
+    expect(started).toHaveLength(0)
+
+    await POST(makeRequest(refsChanged("master"), "repo:refs_changed", { "x-request-id": "server-1" }) as never)
+    expect(started).toHaveLength(1)
+    expect(started[0]!.args![0]).toMatchObject({
+      orgId: "org-2",
+      provider: "bitbucket",
+      cloneUrl: "https://bitbucket.example.com/scm/plat/billing.git",
+      initialPush: { afterSha: HEAD_SHA, beforeSha: BASE_SHA, ref: "refs/heads/master" },
+    })
+  })
+
+  it("starts a review for created pull requests", async () => {
+    const res = await POST(makeRequest(makeCloudPullRequest(), "pullrequest:created") as never)
+
+    expect(res.status).toBe(200)
+    expect(started).toHaveLength(1)
+    expect(started[0]!.workflowFn).toBe("reviewPrWorkflow")
+    expect(started[0]!.args![0]).toMatchObject({
+      orgId: "org-1",
+      prNumber: 12,
+      provider: "bitbucket",
+      owner: "acme",
+      repo: "web",
+      headSha: HEAD_SHA,
+      baseSha: BASE_SHA,
+    })
+
+    // Title edits arrive as "updated" with the same head — no second review
+    await POST(makeRequest(makeCloudPullRequest(), "pullrequest:updated") as never)
+    expect(started).toHaveLength(1)
+  })
+
+  it("starts the merge ledger when a pull request is fulfilled", async () => {
+    await POST(makeRequest(makeCloudPullRequest("DECLINED"), "pullrequest:rejected") as never)
+    expect(started).toHaveLength(0)
+
+    await POST(makeRequest(makeCloudPullRequest("MERGED"), "pullrequest:fulfilled") as never)
+    expect(started.map((w) => w.workflowFn)).toEqual(["mergeLedgerWorkflow"])
+    expect(started[0]!.args![0]).toMatchObject({ prNumber: 12, mergedBy: "dev1", targetBranch: "main" })
+  })
+})
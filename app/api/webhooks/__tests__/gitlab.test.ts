@@ -0,0 +1,183 @@
+/**
+ * GitLab webhook handler.
+ * Tests token verification, delivery dedup, push → incremental indexing and
+ * merge request → PR review (against the recorded GitLab API fixtures).
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST } from "@/app/api/webhooks/gitlab/route"
+import { BASE_SHA, createGitLabApiFake, GITLAB_BASE_URL, HEAD_SHA } from "@/lib/adapters/__tests__/fixtures/gitlab-api"
+import { GitLabHost } from "@/lib/adapters/gitlab-host"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import { InMemoryCacheStore } from "@/lib/di/fakes"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+
+let testContainer: Container
+
+vi.mock("@/lib/di/container", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/di/container")>()
+  return {
+    ...original,
+    getContainer: () => testContainer,
+  }
+})
+
+const WEBHOOK_SECRET = "test-gitlab-secret"
+const PROJECT = {
+  id: 42,
+  name: "api",
+  path_with_namespace: "acme/platform/api",
+  default_branch: "main",
+  git_http_url: `${GITLAB_BASE_URL}/acme/platform/api.git`,
+  web_url: `${GITLAB_BASE_URL}/acme/platform/api`,
+}
+
+function makeRequest(body: unknown, event: string, headers: Record<string, string> = {}): Request {
+  return new Request("http://localhost:3000/api/webhooks/gitlab", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-gitlab-token": WEBHOOK_SECRET,
+      "x-gitlab-event": event,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+function makePushPayload(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    object_kind: "push",
+    ref: "refs/heads/main",
+    before: BASE_SHA,
+    after: HEAD_SHA,
+    project: PROJECT,
+    commits: [{ id: HEAD_SHA, message: "feat: export orders" }],
+    ...overrides,
+  }
+}
+
+function makeMergeRequestPayload(attributes: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    object_kind: "merge_request",
+    user: { username: "dev" },
+    project: PROJECT,
+    object_attributes: {
+      iid: 7,
+      title: "Add order export endpoint",
+      url: `${GITLAB_BASE_URL}/acme/platform/api/-/merge_requests/7`,
+      source_branch: "feature/order-export",
+      target_branch: "main",
+      state: "opened",
+      action: "open",
+      draft: false,
+      last_commit: { id: HEAD_SHA },
+      ...attributes,
+    },
+  }
+}
+
+describe("GitLab webhook POST handler", () => {
+  let container: Container
+  let started: Array<{ workflowFn?: string; workflowId?: string; args?: unknown[] }>
+  const originalEnv = process.env.GITLAB_WEBHOOK_SECRET
+
+  beforeEach(async () => {
+    const cacheStore = new InMemoryCacheStore()
+    container = createTestContainer({
+      cacheStore,
+      gitLabHost: new GitLabHost({ baseUrl: GITLAB_BASE_URL, token: "glpat-test", fetch: createGitLabApiFake().fetch, cacheStore }),
+    })
+    testContainer = container
+    process.env.GITLAB_WEBHOOK_SECRET = WEBHOOK_SECRET
+
+    const repo = await container.relationalStore.createRepo({
+      organizationId: "org-1",
+      name: "api",
+      fullName: "acme/platform/api",
+      provider: "gitlab",
+      providerId: "42",
+      status: "ready",
+    })
+    await container.relationalStore.updateRepoReviewConfig(repo.id, { ...DEFAULT_REVIEW_CONFIG, enabled: true })
+
+    started = []
+    container.workflowEngine.startWorkflow = async (opts: { workflowFn?: string; workflowId?: string; args?: unknown[] } = {}) => {
+      started.push(opts)
+      return { workflowId: opts.workflowId ?? "test", runId: "run-1", result: async () => undefined as never }
+    }
+  })
+
+  afterEach(() => {
+    if (originalEnv !== undefined) {
+      process.env.GITLAB_WEBHOOK_SECRET = originalEnv
+    } else {
+      delete process.env.GITLAB_WEBHOOK_SECRET
+    }
+  })
+
+  it("returns 401 when the token is missing or wrong", async () => {
+    const missing = await POST(makeRequest(makePushPayload(), "Push Hook", { "x-gitlab-token": "" }) as never)
+    expect(missing.status).toBe(401)
+
+    const wrong = await POST(makeRequest(makePushPayload(), "Push Hook", { "x-gitlab-token": "not-the-secret" }) as never)
+    expect(wrong.status).toBe(401)
+    expect(((await wrong.json()) as { error: string }).error).toContain("Invalid token")
+  })
+
+  it("returns 500 when the webhook secret is not configured", async () => {
+    delete process.env.GITLAB_WEBHOOK_SECRET
+
+    const res = await POST(makeRequest(makePushPayload(), "Push Hook") as never)
+    expect(res.status).toBe(500)
+  })
+
+  it("starts incremental indexing for default-branch pushes", async () => {
+    const res = await POST(makeRequest(makePushPayload(), "Push Hook") as never)
+
+    expect(res.status).toBe(200)
+    expect(started).toHaveLength(1)
+    expect(started[0]!.workflowFn).toBe("incrementalIndexWorkflow")
+    expect(started[0]!.args![0]).toMatchObject({
+      provider: "gitlab",
+      cloneUrl: PROJECT.git_http_url,
+      defaultBranch: "main",
+      initialPush: { afterSha: HEAD_SHA, beforeSha: BASE_SHA, ref: "refs/heads/main", commitMessage: "feat: export orders" },
+    })
+  })
+
+  it("skips pushes to other branches and deduplicates deliveries", async () => {
+    await POST(makeRequest(makePushPayload({ ref: "refs/heads/feature" }), "Push Hook") as never)
+    expect(started).toHaveLength(0)
+
+    const headers = { "x-gitlab-event-uuid": "delivery-1" }
+    await POST(makeRequest(makePushPayload(), "Push Hook", headers) as never)
+    await POST(makeRequest(makePushPayload(), "Push Hook", headers) as never)
+    expect(started).toHaveLength(1)
+  })
+
+  it("starts a review for opened merge requests using the MR merge base", async () => {
+    const res = await POST(makeRequest(makeMergeRequestPayload(), "Merge Request Hook") as never)
+
+    expect(res.status).toBe(200)
+    expect(started).toHaveLength(1)
+    expect(started[0]!.workflowFn).toBe("reviewPrWorkflow")
+    expect(started[0]!.args![0]).toMatchObject({
+      orgId: "org-1",
+      prNumber: 7,
+      provider: "gitlab",
+      owner: "acme/platform",
+      repo: "api",
+      headSha: HEAD_SHA,
+      baseSha: BASE_SHA,
+    })
+  })
+
+  it("ignores merge request updates without new commits and starts the ledger on merge", async () => {
+    await POST(makeRequest(makeMergeRequestPayload({ action: "update" }), "Merge Request Hook") as never)
+    expect(started).toHaveLength(0)
+
+    await POST(makeRequest(makeMergeRequestPayload({ action: "merge", state: "merged" }), "Merge Request Hook") as never)
+    expect(started.map((w) => w.workflowFn)).toEqual(["mergeLedgerWorkflow"])
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Bitbucket webhook receiver — Cloud and Server / Data Center.
+ *
+ * Both flavors sign deliveries with HMAC-SHA256 of the raw body in
+ * X-Hub-Signature ("sha256=<hex>") when the webhook has a secret. Push events
+ * feed incrementalIndexWorkflow and pull request events feed reviewPrWorkflow,
+ * same as the GitHub webhook.
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { type BitbucketWebhookPayload, normalizePullRequestEvent, normalizePushEvent } from "@/lib/bitbucket/webhook-handlers/payloads"
+import { handlePullRequestEvent } from "@/lib/bitbucket/webhook-handlers/pull-request"
+import { handlePushEvent } from "@/lib/bitbucket/webhook-handlers/push"
+import { getContainer } from "@/lib/di/container"
+import { logger } from "@/lib/utils/logger"
+
+const WEBHOOK_DEDUPE_TTL = 86400
+
+const log = logger.child({ service: "bitbucket-webhook" })
+
+export async function POST(req: NextRequest) {
+  const signature = req.headers.get("x-hub-signature")
+  const event = req.headers.get("x-event-key")
+  // Cloud: X-Request-UUID, Server / Data Center: X-Request-Id
+  const delivery = req.headers.get("x-request-uuid") ?? req.headers.get("x-request-id")
+
+  if (!signature || !event) {
+    log.warn("Missing required headers", { delivery, event })
+    return NextResponse.json({ error: "Missing headers" }, { status: 401 })
+  }
+
+  log.info("Received Bitbucket webhook", { event, delivery })
+
+  const secret = process.env.BITBUCKET_WEBHOOK_SECRET
+  if (!secret) {
+    log.error("Webhook secret not configured")
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 500 })
+  }
+
+  const raw = await req.text()
+  const crypto = await import("node:crypto")
+  const expected = "sha256=" + crypto.createHmac("sha256", secret).update(raw).digest("hex")
+  if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+    log.warn("Invalid webhook signature", { delivery, event })
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+  }
+
+  const container = getContainer()
+  if (delivery) {
+    const set = await container.cacheStore.setIfNotExists(`webhook:bb:${delivery}`, "1", WEBHOOK_DEDUPE_TTL)
+    if (!set) {
+      log.info("Duplicate webhook delivery, skipping", { delivery, event })
+      return NextResponse.json({ ok: true })
+    }
+  }
+
+  let payload: BitbucketWebhookPayload
+  try {
+    payload = JSON.parse(raw) as BitbucketWebhookPayload
+  } catch {
+    log.warn("Invalid JSON payload", { delivery, event })
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  try {
+    const push = normalizePushEvent(event, payload)
+    const pullRequest = push ? null : normalizePullRequestEvent(event, payload)
+    if (push) {
+      const result = await handlePushEvent(push, container)
+      log.info("Push event processed", { repo: `${push.repository.owner}/${push.repository.repo}`, ...result })
+    } else if (pullRequest) {
+      const result = await handlePullRequestEvent(pullRequest, container)
+      log.info("Pull request event processed", {
+        repo: `${pullRequest.repository.owner}/${pullRequest.repository.repo}`,
+        prNumber: pullRequest.number,
+        ...result,
+      })
+    }
+  } catch (error: unknown) {
+    // Don't fail the webhook response — Bitbucket retries and eventually disables failing hooks
+    log.error("Bitbucket webhook handler error", error instanceof Error ? error : undefined, {
+      event,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  return NextResponse.json({ ok: true })
+}
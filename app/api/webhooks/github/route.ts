@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { randomUUID } from "node:crypto"
 import { getContainer } from "@/lib/di/container"
 import { handlePullRequestEvent, type PullRequestPayload } from "@/lib/github/webhook-handlers/pull-request"
+import { handleReviewCommentEvent, type ReviewCommentPayload } from "@/lib/github/webhook-handlers/review-comment"
 import { logger } from "@/lib/utils/logger"
 
 const WEBHOOK_DEDUPE_TTL = 86400
@@ -110,6 +111,19 @@ export async function POST(req: NextRequest) {
     }
   }
 
+  // Conversational reviews: replies and @unerr commands on PR comments
+  if (event === "issue_comment" || event === "pull_request_review_comment") {
+    try {
+      const result = await handleReviewCommentEvent(event, payload as unknown as ReviewCommentPayload, container)
+      log.info("Processed PR comment event", { event, action: result.action, reason: result.reason })
+    } catch (error: unknown) {
+      log.error("PR comment handler error", error instanceof Error ? error : undefined, {
+        event,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
   log.info("Webhook processed", { event, delivery })
   return NextResponse.json({ ok: true })
 }
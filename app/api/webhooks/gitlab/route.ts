@@ -0,0 +1,77 @@
+/**
+ * GitLab webhook receiver — push and merge request events.
+ *
+ * GitLab authenticates deliveries with a shared secret sent verbatim in
+ * X-Gitlab-Token (no HMAC). Push events feed incrementalIndexWorkflow and
+ * merge request events feed reviewPrWorkflow, same as the GitHub webhook.
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { getContainer } from "@/lib/di/container"
+import { handleMergeRequestEvent, type MergeRequestPayload } from "@/lib/gitlab/webhook-handlers/merge-request"
+import { handlePushEvent, type PushPayload } from "@/lib/gitlab/webhook-handlers/push"
+import { logger } from "@/lib/utils/logger"
+
+const WEBHOOK_DEDUPE_TTL = 86400
+
+const log = logger.child({ service: "gitlab-webhook" })
+
+export async function POST(req: NextRequest) {
+  const token = req.headers.get("x-gitlab-token")
+  const event = req.headers.get("x-gitlab-event")
+  const delivery = req.headers.get("x-gitlab-event-uuid")
+
+  if (!token || !event) {
+    log.warn("Missing required headers", { delivery, event })
+    return NextResponse.json({ error: "Missing headers" }, { status: 401 })
+  }
+
+  log.info("Received GitLab webhook", { event, delivery })
+
+  const secret = process.env.GITLAB_WEBHOOK_SECRET
+  if (!secret) {
+    log.error("Webhook secret not configured")
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 500 })
+  }
+
+  const crypto = await import("node:crypto")
+  if (token.length !== secret.length || !crypto.timingSafeEqual(Buffer.from(token), Buffer.from(secret))) {
+    log.warn("Invalid webhook token", { delivery, event })
+    return NextResponse.json({ error: "Invalid token" }, { status: 401 })
+  }
+
+  const container = getContainer()
+  if (delivery) {
+    const set = await container.cacheStore.setIfNotExists(`webhook:gl:${delivery}`, "1", WEBHOOK_DEDUPE_TTL)
+    if (!set) {
+      log.info("Duplicate webhook delivery, skipping", { delivery, event })
+      return NextResponse.json({ ok: true })
+    }
+  }
+
+  let payload: PushPayload | MergeRequestPayload
+  try {
+    payload = JSON.parse(await req.text()) as typeof payload
+  } catch {
+    log.warn("Invalid JSON payload", { delivery, event })
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  try {
+    if (event === "Push Hook" && payload.object_kind === "push") {
+      const result = await handlePushEvent(payload, container)
+      log.info("Push event processed", { project: payload.project.path_with_namespace, ref: payload.ref, ...result })
+    } else if (event === "Merge Request Hook" && payload.object_kind === "merge_request") {
+      const result = await handleMergeRequestEvent(payload, container)
+      log.info("Merge request event processed", { project: payload.project.path_with_namespace, iid: payload.object_attributes.iid, ...result })
+    }
+  } catch (error: unknown) {
+    // Don't fail the webhook response — GitLab disables hooks that keep failing
+    log.error("GitLab webhook handler error", error instanceof Error ? error : undefined, {
+      event,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  return NextResponse.json({ ok: true })
+}
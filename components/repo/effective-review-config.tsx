@@ -0,0 +1,114 @@
+"use client"
+
+import { FileCode } from "lucide-react"
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import type { ReviewConfig } from "@/lib/ports/types"
+
+type Source = "repo_file" | "dashboard" | "default"
+
+interface EffectiveConfig {
+  ref: string
+  config: ReviewConfig
+  sources: Record<keyof ReviewConfig, Source>
+  files: string[]
+  rules: Array<{ name: string; title: string; enforcement: string; file?: string }>
+  errors: Array<{ path: string; line?: number; message: string }>
+}
+
+const SOURCE_LABELS: Record<Source, string> = {
+  repo_file: ".unerr/review.yml",
+  dashboard: "Dashboard",
+  default: "Default",
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—"
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value as Record<string, boolean>)
+    const off = entries.filter(([, v]) => !v).map(([k]) => k)
+    return off.length > 0 ? `all except ${off.join(", ")}` : "all"
+  }
+  return String(value)
+}
+
+interface EffectiveReviewConfigProps {
+  repoId: string
+}
+
+export function EffectiveReviewConfig({ repoId }: EffectiveReviewConfigProps) {
+  const [data, setData] = useState<EffectiveConfig | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch(`/api/repos/${repoId}/settings/review/effective`)
+      .then((r) => (r.ok ? (r.json() as Promise<{ data: EffectiveConfig }>) : null))
+      .then((json) => {
+        setData(json?.data ?? null)
+        setLoading(false)
+      })
+      .catch(() => setLoading(false))
+  }, [repoId])
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-[20px] w-1/3" />
+        <Skeleton className="h-[120px] w-full" />
+      </div>
+    )
+  }
+  if (!data) {
+    return <p className="text-xs text-muted-foreground">Effective configuration unavailable.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <FileCode className="h-4 w-4 text-muted-foreground" />
+        <p className="text-xs text-muted-foreground">
+          {data.files.length > 0
+            ? <>Merged from {data.files.map((f) => <code key={f} className="mr-1">{f}</code>)} on <code>{data.ref}</code>. Repo files take precedence over dashboard settings.</>
+            : <>No <code>.unerr/review.yml</code> on <code>{data.ref}</code> — dashboard settings apply.</>}
+        </p>
+      </div>
+
+      {data.errors.length > 0 && (
+        <div className="rounded-md border border-destructive/30 bg-destructive/5 p-3 space-y-1">
+          <p className="text-xs font-medium text-destructive">Invalid settings were ignored</p>
+          {data.errors.map((e, i) => (
+            <p key={i} className="text-xs text-muted-foreground font-mono">
+              {e.path}{e.line ? `:${e.line}` : ""} — {e.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="divide-y divide-border">
+        {(Object.keys(data.config) as Array<keyof ReviewConfig>).map((key) => (
+          <div key={key} className="flex items-center justify-between gap-4 py-1.5">
+            <span className="text-xs font-mono text-foreground">{key}</span>
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="text-xs text-muted-foreground truncate">{formatValue(data.config[key])}</span>
+              <Badge variant={data.sources[key] === "repo_file" ? "default" : "outline"} className="text-[10px] shrink-0">
+                {SOURCE_LABELS[data.sources[key] ?? "default"]}
+              </Badge>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {data.rules.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-foreground">Repo rules ({data.rules.length})</p>
+          {data.rules.map((r) => (
+            <p key={r.name} className="text-xs text-muted-foreground">
+              <span className="font-mono">{r.name}</span> — {r.title} ({r.enforcement}){r.file ? ` · ${r.file}` : ""}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
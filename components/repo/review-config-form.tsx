@@ -86,6 +86,28 @@ export function ReviewConfigForm({ config, repoId }: ReviewConfigFormProps) {
         />
       </div>
 
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium text-foreground">Auto-fix PR</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">Open a follow-up PR applying all auto-fixable findings</p>
+        </div>
+        <Switch
+          checked={formState.autoFixPrEnabled ?? false}
+          onCheckedChange={(v) => setFormState((s) => ({ ...s, autoFixPrEnabled: v }))}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium text-foreground">Code Scanning Upload</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">Upload findings as SARIF to GitHub code scanning alerts</p>
+        </div>
+        <Switch
+          checked={formState.sarifUploadEnabled ?? false}
+          onCheckedChange={(v) => setFormState((s) => ({ ...s, sarifUploadEnabled: v }))}
+        />
+      </div>
+
       <div className="grid grid-cols-2 gap-4">
         <div>
           <Label className="text-xs text-muted-foreground">Impact Threshold</Label>
@@ -21,6 +21,8 @@ export const env = createEnv({
     ARANGODB_URL: z.string().refine((val) => !val || /^https?:\/\//.test(val), "Invalid ArangoDB URL").optional(),
     ARANGODB_DATABASE: z.string().optional(),
     ARANGO_ROOT_PASSWORD: z.string().optional(),
+    GRAPH_STORE_BACKEND: z.enum(["arango", "sqlite"]).optional(),
+    SQLITE_GRAPH_PATH: z.string().optional(),
 
     // ── Temporal (Workflow Orchestration) ────────────────────────────
     TEMPORAL_ADDRESS: z.string().optional(),
@@ -46,6 +48,17 @@ export const env = createEnv({
     GITHUB_APP_SLUG: z.string().optional(),
     GITHUB_WEBHOOK_SECRET: z.string().optional(),
 
+    // ── GitLab (merge request reviews, gitlab.com or self-managed) ──
+    GITLAB_URL: z.string().refine((val) => !val || /^https?:\/\//.test(val), "Invalid GitLab URL").optional(),
+    GITLAB_TOKEN: z.string().optional(),
+    GITLAB_WEBHOOK_SECRET: z.string().optional(),
+
+    // ── Bitbucket (PR reviews, Cloud or Server / Data Center) ──
+    BITBUCKET_URL: z.string().refine((val) => !val || /^https?:\/\//.test(val), "Invalid Bitbucket URL").optional(),
+    BITBUCKET_USERNAME: z.string().optional(),
+    BITBUCKET_TOKEN: z.string().optional(),
+    BITBUCKET_WEBHOOK_SECRET: z.string().optional(),
+
     // ── Email (Resend) ──────────────────────────────────────────────
     RESEND_API_KEY: z.string().optional(),
     EMAIL_FROM: z.string().optional(),
@@ -57,6 +70,14 @@ export const env = createEnv({
     // ── Sentry (Error Tracking) ─────────────────────────────────────
     SENTRY_DSN: z.string().refine((val) => !val || /^https?:\/\//.test(val), "Invalid URL").optional(),
 
+    // ── LLM provider ──────────────────────────────────────────────
+    LLM_PROVIDER: z.enum(["bedrock", "openai_compatible"]).optional(),
+    // OpenAI-compatible endpoint (vLLM, llama.cpp server, Ollama)
+    LLM_BASE_URL: z.string().refine((val) => !val || /^https?:\/\//.test(val), "Invalid LLM base URL").optional(),
+    LLM_API_KEY: z.string().optional(),
+    LLM_LOCAL_COST_INPUT_PER_1M: z.string().optional(),
+    LLM_LOCAL_COST_OUTPUT_PER_1M: z.string().optional(),
+
     // ── AWS Bedrock (LLM) ─────────────────────────────────────────
     AWS_BEARER_TOKEN_BEDROCK: z.string().optional(),
     AWS_REGION: z.string().optional(),
@@ -74,6 +95,9 @@ export const env = createEnv({
     EMBEDDING_DIMENSIONS: z.string().optional(),
     RERANKER_MODEL_ID: z.string().optional(),
     EMBEDDING_MODEL_VERSION: z.string().optional(),
+    // Vector store: pgvector (default) or embedded on-disk HNSW indexes
+    VECTOR_SEARCH_BACKEND: z.enum(["pgvector", "hnsw"]).optional(),
+    VECTOR_INDEX_DIR: z.string().optional(),
 
     // ── Phase 5: Incremental Indexing ────────────────────────────
     INCREMENTAL_BATCH_SIZE: z.string().optional().transform((val) => val ? parseInt(val, 10) : 5),
@@ -180,6 +204,8 @@ export const env = createEnv({
     ARANGODB_URL: process.env.ARANGODB_URL,
     ARANGODB_DATABASE: process.env.ARANGODB_DATABASE,
     ARANGO_ROOT_PASSWORD: process.env.ARANGO_ROOT_PASSWORD,
+    GRAPH_STORE_BACKEND: process.env.GRAPH_STORE_BACKEND,
+    SQLITE_GRAPH_PATH: process.env.SQLITE_GRAPH_PATH,
     // Temporal
     TEMPORAL_ADDRESS: process.env.TEMPORAL_ADDRESS,
     // Langfuse
@@ -199,6 +225,15 @@ export const env = createEnv({
     GITHUB_APP_PRIVATE_KEY: process.env.GITHUB_APP_PRIVATE_KEY,
     GITHUB_APP_SLUG: process.env.GITHUB_APP_SLUG,
     GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET,
+    // GitLab
+    GITLAB_URL: process.env.GITLAB_URL,
+    GITLAB_TOKEN: process.env.GITLAB_TOKEN,
+    GITLAB_WEBHOOK_SECRET: process.env.GITLAB_WEBHOOK_SECRET,
+    // Bitbucket
+    BITBUCKET_URL: process.env.BITBUCKET_URL,
+    BITBUCKET_USERNAME: process.env.BITBUCKET_USERNAME,
+    BITBUCKET_TOKEN: process.env.BITBUCKET_TOKEN,
+    BITBUCKET_WEBHOOK_SECRET: process.env.BITBUCKET_WEBHOOK_SECRET,
     // Email
     RESEND_API_KEY: process.env.RESEND_API_KEY,
     EMAIL_FROM: process.env.EMAIL_FROM,
@@ -210,6 +245,12 @@ export const env = createEnv({
     // AWS Bedrock
     AWS_BEARER_TOKEN_BEDROCK: process.env.AWS_BEARER_TOKEN_BEDROCK,
     AWS_REGION: process.env.AWS_REGION,
+    // LLM provider
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_API_KEY: process.env.LLM_API_KEY,
+    LLM_LOCAL_COST_INPUT_PER_1M: process.env.LLM_LOCAL_COST_INPUT_PER_1M,
+    LLM_LOCAL_COST_OUTPUT_PER_1M: process.env.LLM_LOCAL_COST_OUTPUT_PER_1M,
     LLM_MODEL_CODE_REASONING: process.env.LLM_MODEL_CODE_REASONING,
     LLM_MODEL_CODE_REASONING_COMPLEX: process.env.LLM_MODEL_CODE_REASONING_COMPLEX,
     LLM_MODEL_CODE_REASONING_SIMPLE: process.env.LLM_MODEL_CODE_REASONING_SIMPLE,
@@ -222,6 +263,8 @@ export const env = createEnv({
     EMBEDDING_DIMENSIONS: process.env.EMBEDDING_DIMENSIONS,
     RERANKER_MODEL_ID: process.env.RERANKER_MODEL_ID,
     EMBEDDING_MODEL_VERSION: process.env.EMBEDDING_MODEL_VERSION,
+    VECTOR_SEARCH_BACKEND: process.env.VECTOR_SEARCH_BACKEND,
+    VECTOR_INDEX_DIR: process.env.VECTOR_INDEX_DIR,
     // Phase 5: Incremental Indexing
     INCREMENTAL_BATCH_SIZE: process.env.INCREMENTAL_BATCH_SIZE,
     CASCADE_MAX_HOPS: process.env.CASCADE_MAX_HOPS,
@@ -0,0 +1,198 @@
+/**
+ * BitbucketHost (Cloud) and BitbucketServerHost against recorded-fixture fakes
+ * of the Bitbucket REST APIs. Tests PR mapping, raw diffs, pagination, PR
+ * comments as reviews, and build statuses + Code Insights in place of check runs.
+ */
+
+import { describe, expect, it } from "vitest"
+
+import {
+  BASE_SHA,
+  BITBUCKET_SERVER_URL,
+  CLOUD_REPO,
+  createBitbucketApiFake,
+  HEAD_SHA,
+  REPO_UUID,
+  SERVER_REPO,
+} from "./fixtures/bitbucket-api"
+import { BitbucketApiError, BitbucketHost } from "../bitbucket-host"
+import { BitbucketServerHost } from "../bitbucket-server-host"
+
+const ANNOTATION = {
+  path: "src/cart.ts",
+  start_line: 2,
+  end_line: 2,
+  annotation_level: "failure" as const,
+  message: "Early return skips audit logging",
+  title: "audit-log",
+  raw_details: "rule: audit-log",
+}
+
+function makeCloudHost() {
+  const api = createBitbucketApiFake()
+  const host = new BitbucketHost({ token: "bb-token", appUrl: "https://app.example.com", fetch: api.fetch })
+  return { host, calls: api.calls }
+}
+
+function makeServerHost() {
+  const api = createBitbucketApiFake()
+  const host = new BitbucketServerHost({
+    baseUrl: `${BITBUCKET_SERVER_URL}/`,
+    token: "bbdc-token",
+    username: "unerr-bot",
+    appUrl: "https://app.example.com",
+    fetch: api.fetch,
+  })
+  return { host, calls: api.calls }
+}
+
+describe("BitbucketHost (Cloud)", () => {
+  it("maps a pull request and authenticates with a bearer token", async () => {
+    const { host, calls } = makeCloudHost()
+
+    const pr = await host.getPullRequest("acme", "web", 12)
+
+    expect(pr).toMatchObject({
+      number: 12,
+      title: "Handle empty carts",
+      headSha: HEAD_SHA,
+      baseSha: BASE_SHA,
+      htmlUrl: "https://bitbucket.org/acme/web/pull-requests/12",
+      body: undefined,
+      merged: false,
+      state: "open",
+    })
+    expect(calls[0]!.authorization).toBe("Bearer bb-token")
+  })
+
+  it("fetches the raw diff and pages through the diffstat", async () => {
+    const { host } = makeCloudHost()
+
+    const diff = await host.getDiff("acme", "web", BASE_SHA, HEAD_SHA)
+    const files = await host.getPullRequestFiles("acme", "web", 12)
+
+    expect(diff).toContain("+++ b/src/cart.ts\n@@ -1,2 +1,3 @@")
+    expect(files).toEqual([
+      { filename: "src/cart.ts", status: "modified", additions: 1, deletions: 0 },
+      { filename: "src/legacy-cart.ts", status: "removed", additions: 0, deletions: 9 },
+    ])
+  })
+
+  it("posts a review as PR comments and requests changes", async () => {
+    const { host, calls } = makeCloudHost()
+
+    const result = await host.postReview("acme", "web", 12, {
+      event: "REQUEST_CHANGES",
+      body: "1 blocker",
+      comments: [{ path: "src/cart.ts", line: 2, body: "Log the empty cart." }],
+    })
+
+    expect(result).toEqual({ reviewId: 7001, commentIds: [7001] })
+    expect(calls.map((c) => [c.method, c.path.replace(CLOUD_REPO, ""), c.body])).toEqual([
+      ["POST", "/pullrequests/12/comments", { content: { raw: "1 blocker" } }],
+      ["POST", "/pullrequests/12/comments", { content: { raw: "Log the empty cart." }, inline: { path: "src/cart.ts", to: 2 } }],
+      ["POST", "/pullrequests/12/request-changes", undefined],
+    ])
+  })
+
+  it("maps check runs onto a build status and a Code Insights report", async () => {
+    const { host, calls } = makeCloudHost()
+
+    const { checkRunId } = await host.createCheckRun("acme", "web", { name: "unerr Architecture Review", headSha: HEAD_SHA, status: "in_progress" })
+    await host.updateCheckRun("acme", "web", checkRunId, {
+      status: "completed",
+      conclusion: "failure",
+      output: { title: "1 blocker found", summary: "See annotations", annotations: [ANNOTATION] },
+    })
+
+    const commit = `${CLOUD_REPO}/commit/${HEAD_SHA}`
+    expect(calls.map((c) => `${c.method} ${c.path}`)).toEqual([
+      `POST ${commit}/statuses/build`,
+      `PUT ${commit}/reports/unerr-architecture-review`,
+      `POST ${commit}/reports/unerr-architecture-review/annotations`,
+      `POST ${commit}/statuses/build`,
+    ])
+    expect(calls[0]!.body).toEqual({ key: "unerr-architecture-review", state: "INPROGRESS", name: "unerr Architecture Review", url: "https://app.example.com" })
+    expect(calls[1]!.body).toMatchObject({ result: "FAILED", report_type: "BUG", details: "1 blocker found\n\nSee annotations" })
+    expect(calls[2]!.body).toEqual([{
+      external_id: "unerr-architecture-review-1",
+      annotation_type: "BUG",
+      path: "src/cart.ts",
+      line: 2,
+      summary: "audit-log: Early return skips audit logging",
+      details: "rule: audit-log",
+      severity: "HIGH",
+    }])
+    expect(calls[3]!.body).toMatchObject({ state: "FAILED", description: "1 blocker found" })
+  })
+
+  it("lists writable repos with their UUID as the provider ID", async () => {
+    const { host } = makeCloudHost()
+
+    expect(await host.getInstallationRepos()).toEqual([
+      { id: 0, providerId: REPO_UUID, fullName: "acme/web", defaultBranch: "main", language: "typescript", private: true },
+    ])
+  })
+
+  it("surfaces API errors with the status code", async () => {
+    const { host } = makeCloudHost()
+
+    await expect(host.getPullRequest("acme", "web", 404)).rejects.toMatchObject({ name: "BitbucketApiError", statusCode: 404 })
+    await expect(
+      host.updateCheckRun("acme", "web", 99, { status: "completed", conclusion: "success", output: { title: "", summary: "", annotations: [] } })
+    ).rejects.toBeInstanceOf(BitbucketApiError)
+  })
+})
+
+describe("BitbucketServerHost", () => {
+  it("maps a pull request, raw diff and paged changes", async () => {
+    const { host, calls } = makeServerHost()
+
+    const pr = await host.getPullRequest("PLAT", "billing", 3)
+    const diff = await host.getDiff("PLAT", "billing", BASE_SHA, HEAD_SHA)
+    const files = await host.getPullRequestFiles("PLAT", "billing", 3)
+
+    expect(pr).toMatchObject({ number: 3, headSha: HEAD_SHA, baseSha: BASE_SHA, merged: true, state: "closed", targetBranch: "master" })
+    expect(diff).toContain("diff --git a/src/cart.ts b/src/cart.ts")
+    expect(files.map((f) => [f.filename, f.status])).toEqual([
+      ["src/invoices/retry.ts", "modified"],
+      ["src/invoices/backoff.ts", "renamed"],
+    ])
+    expect(calls[0]!.authorization).toBe(`Basic ${Buffer.from("unerr-bot:bbdc-token").toString("base64")}`)
+  })
+
+  it("anchors inline comments and sets the reviewer status", async () => {
+    const { host, calls } = makeServerHost()
+
+    await host.postReview("PLAT", "billing", 3, {
+      event: "APPROVE",
+      body: "No issues",
+      comments: [{ path: "src/invoices/retry.ts", line: 14, body: "Consider jitter." }],
+    })
+
+    expect(calls[1]!.body).toEqual({
+      text: "Consider jitter.",
+      anchor: { path: "src/invoices/retry.ts", line: 14, lineType: "ADDED", fileType: "TO", diffType: "EFFECTIVE" },
+    })
+    expect(calls[2]).toMatchObject({ method: "PUT", path: `${SERVER_REPO}/pull-requests/3/participants/unerr-bot`, body: { status: "APPROVED" } })
+  })
+
+  it("maps check runs onto build-status and insights endpoints", async () => {
+    const { host, calls } = makeServerHost()
+
+    const { checkRunId } = await host.createCheckRun("PLAT", "billing", { name: "unerr", headSha: HEAD_SHA, status: "in_progress" })
+    await host.updateCheckRun("PLAT", "billing", checkRunId, {
+      status: "completed",
+      conclusion: "success",
+      output: { title: "No blockers", summary: "", annotations: [] },
+    })
+
+    expect(calls.map((c) => `${c.method} ${c.path}`)).toEqual([
+      `POST /rest/build-status/1.0/commits/${HEAD_SHA}`,
+      `PUT /rest/insights/1.0/projects/PLAT/repos/billing/commits/${HEAD_SHA}/reports/unerr`,
+      `POST /rest/build-status/1.0/commits/${HEAD_SHA}`,
+    ])
+    expect(calls[1]!.body).toMatchObject({ result: "PASS", reporter: "unerr" })
+    expect(calls[2]!.body).toMatchObject({ key: "unerr", state: "SUCCESSFUL" })
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Recorded Bitbucket Cloud (REST 2.0) and Server / Data Center (REST 1.0)
+ * responses, trimmed to the fields the Bitbucket hosts read, and a fetch fake
+ * that replays them by "METHOD /path?query".
+ */
+
+export const BITBUCKET_CLOUD_API_URL = "https://api.bitbucket.org/2.0"
+export const BITBUCKET_SERVER_URL = "https://bitbucket.example.com"
+export const CLOUD_REPO = "/repositories/acme/web"
+export const SERVER_REPO = "/rest/api/1.0/projects/PLAT/repos/billing"
+export const REPO_UUID = "{7d1c6a0e-3b0b-4c55-9d56-2f1f0c0f6b11}"
+export const BASE_SHA = "4444444444444444444444444444444444444444"
+export const HEAD_SHA = "5555555555555555555555555555555555555555"
+
+interface RecordedResponse {
+  status?: number
+  body?: unknown
+  /** Plain-text body (raw diffs) */
+  text?: string
+}
+
+const RAW_DIFF = [
+  "diff --git a/src/cart.ts b/src/cart.ts",
+  "index 1a2b3c4..5d6e7f8 100644",
+  "--- a/src/cart.ts",
+  "+++ b/src/cart.ts",
+  "@@ -1,2 +1,3 @@",
+  " export function total(items: number[]) {",
+  "+  if (items.length === 0) return 0",
+  "   return items.reduce((a, b) => a + b)",
+  "",
+].join("\n")
+
+export const BITBUCKET_FIXTURES: Record<string, RecordedResponse> = {
+  // ── Cloud ──
+  [`GET ${CLOUD_REPO}/pullrequests/12`]: {
+    body: {
+      id: 12,
+      title: "Handle empty carts",
+      description: "",
+      state: "OPEN",
+      draft: false,
+      source: { branch: { name: "fix/empty-cart" }, commit: { hash: HEAD_SHA } },
+      destination: { branch: { name: "main" }, commit: { hash: BASE_SHA } },
+      links: { html: { href: "https://bitbucket.org/acme/web/pull-requests/12" } },
+    },
+  },
+  [`GET ${CLOUD_REPO}/diff/${HEAD_SHA}..${BASE_SHA}`]: { text: RAW_DIFF },
+  [`GET ${CLOUD_REPO}/pullrequests/12/diffstat?pagelen=100`]: {
+    body: {
+      values: [{ status: "modified", lines_added: 1, lines_removed: 0, old: { path: "src/cart.ts" }, new: { path: "src/cart.ts" } }],
+      next: `${BITBUCKET_CLOUD_API_URL}${CLOUD_REPO}/pullrequests/12/diffstat?pagelen=100&page=2`,
+    },
+  },
+  [`GET ${CLOUD_REPO}/pullrequests/12/diffstat?pagelen=100&page=2`]: {
+    body: {
+      values: [{ status: "removed", lines_added: 0, lines_removed: 9, old: { path: "src/legacy-cart.ts" }, new: null }],
+    },
+  },
+  [`POST ${CLOUD_REPO}/pullrequests/12/comments`]: {
+    status: 201,
+    body: { id: 7001, content: { raw: "comment" } },
+  },
+  [`POST ${CLOUD_REPO}/pullrequests/12/request-changes`]: {
+    body: { state: "changes_requested" },
+  },
+  [`POST ${CLOUD_REPO}/commit/${HEAD_SHA}/statuses/build`]: {
+    status: 201,
+    body: { key: "unerr-architecture-review", state: "INPROGRESS" },
+  },
+  [`PUT ${CLOUD_REPO}/commit/${HEAD_SHA}/reports/unerr-architecture-review`]: {
+    body: { uuid: "{report}", result: "FAILED" },
+  },
+  [`POST ${CLOUD_REPO}/commit/${HEAD_SHA}/reports/unerr-architecture-review/annotations`]: {
+    body: [{ uuid: "{annotation}" }],
+  },
+  [`GET /repositories?role=contributor&pagelen=100`]: {
+    body: {
+      values: [
+        { uuid: REPO_UUID, full_name: "acme/web", is_private: true, language: "typescript", mainbranch: { name: "main" } },
+      ],
+    },
+  },
+
+  // ── Server / Data Center ──
+  [`GET ${SERVER_REPO}/pull-requests/3`]: {
+    body: {
+      id: 3,
+      title: "Retry failed invoices",
+      description: "Adds exponential backoff.",
+      state: "MERGED",
+      fromRef: { id: "refs/heads/feature/retry", displayId: "feature/retry", latestCommit: HEAD_SHA },
+      toRef: { id: "refs/heads/master", displayId: "master", latestCommit: BASE_SHA },
+      links: { self: [{ href: `${BITBUCKET_SERVER_URL}/projects/PLAT/repos/billing/pull-requests/3` }] },
+    },
+  },
+  [`GET ${SERVER_REPO}/diff?since=${BASE_SHA}&until=${HEAD_SHA}`]: { text: RAW_DIFF },
+  [`POST ${SERVER_REPO}/pull-requests/3/comments`]: {
+    status: 201,
+    body: { id: 88, text: "comment" },
+  },
+  [`PUT ${SERVER_REPO}/pull-requests/3/participants/unerr-bot`]: {
+    body: { user: { slug: "unerr-bot" }, status: "APPROVED" },
+  },
+  [`POST /rest/build-status/1.0/commits/${HEAD_SHA}`]: { status: 204 },
+  [`PUT /rest/insights/1.0/projects/PLAT/repos/billing/commits/${HEAD_SHA}/reports/unerr`]: {
+    body: { key: "unerr", result: "PASS" },
+  },
+  [`GET ${SERVER_REPO}/pull-requests/3/changes?start=0&limit=100`]: {
+    body: {
+      values: [{ type: "MODIFY", path: { toString: "src/invoices/retry.ts" } }],
+      isLastPage: false,
+      nextPageStart: 1,
+    },
+  },
+  [`GET ${SERVER_REPO}/pull-requests/3/changes?start=1&limit=100`]: {
+    body: {
+      values: [{ type: "MOVE", path: { toString: "src/invoices/backoff.ts" } }],
+      isLastPage: true,
+    },
+  },
+}
+
+export interface RecordedCall {
+  method: string
+  path: string
+  body?: unknown
+  authorization: string | null
+}
+
+/** A fetch implementation that replays BITBUCKET_FIXTURES and records every call. */
+export function createBitbucketApiFake(fixtures: Record<string, RecordedResponse> = BITBUCKET_FIXTURES): {
+  fetch: typeof fetch
+  calls: RecordedCall[]
+} {
+  const calls: RecordedCall[] = []
+  const fakeFetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url
+    const method = init?.method ?? "GET"
+    const path = url.replace(BITBUCKET_CLOUD_API_URL, "").replace(BITBUCKET_SERVER_URL, "")
+    const headers = new Headers(init?.headers)
+    let body: unknown
+    if (typeof init?.body === "string") body = JSON.parse(init.body) as unknown
+    else if (init?.body instanceof FormData) body = Object.fromEntries(init.body.entries())
+    calls.push({ method, path, body, authorization: headers.get("authorization") })
+
+    const recorded = fixtures[`${method} ${path}`]
+    if (!recorded) {
+      return new Response(JSON.stringify({ type: "error", error: { message: "Resource not found" } }), { status: 404, statusText: "Not Found" })
+    }
+    if (recorded.text !== undefined) {
+      return new Response(recorded.text, { status: recorded.status ?? 200, headers: { "content-type": "text/plain" } })
+    }
+    return new Response(recorded.body === undefined ? null : JSON.stringify(recorded.body), {
+      status: recorded.status ?? 200,
+      headers: { "content-type": "application/json" },
+    })
+  }
+  return { fetch: fakeFetch as typeof fetch, calls }
+}
@@ -0,0 +1,172 @@
+/**
+ * Recorded GitLab REST v4 responses (trimmed to the fields GitLabHost reads)
+ * and a fetch fake that replays them by "METHOD /path?query".
+ */
+
+export const GITLAB_BASE_URL = "https://gitlab.example.com"
+export const PROJECT = "acme%2Fplatform%2Fapi"
+export const BASE_SHA = "1111111111111111111111111111111111111111"
+export const START_SHA = "2222222222222222222222222222222222222222"
+export const HEAD_SHA = "3333333333333333333333333333333333333333"
+
+interface RecordedResponse {
+  status?: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export const GITLAB_FIXTURES: Record<string, RecordedResponse> = {
+  [`GET /projects/${PROJECT}/merge_requests/7`]: {
+    body: {
+      id: 84211,
+      iid: 7,
+      project_id: 42,
+      title: "Add order export endpoint",
+      description: "Exports orders as CSV.",
+      state: "opened",
+      draft: false,
+      work_in_progress: false,
+      sha: HEAD_SHA,
+      web_url: `${GITLAB_BASE_URL}/acme/platform/api/-/merge_requests/7`,
+      source_branch: "feature/order-export",
+      target_branch: "main",
+      diff_refs: { base_sha: BASE_SHA, head_sha: HEAD_SHA, start_sha: START_SHA },
+    },
+  },
+  [`GET /projects/${PROJECT}/repository/compare?from=${BASE_SHA}&to=${HEAD_SHA}&straight=false`]: {
+    body: {
+      commit: { id: HEAD_SHA },
+      compare_same_ref: false,
+      diffs: [
+        {
+          old_path: "src/orders/export.ts",
+          new_path: "src/orders/export.ts",
+          a_mode: "100644",
+          b_mode: "100644",
+          new_file: false,
+          renamed_file: false,
+          deleted_file: false,
+          diff: "@@ -1,3 +1,4 @@\n import { db } from \"../db\"\n+import { toCsv } from \"./csv\"\n \n export async function exportOrders() {\n",
+        },
+        {
+          old_path: "src/orders/csv.ts",
+          new_path: "src/orders/csv.ts",
+          a_mode: "0",
+          b_mode: "100644",
+          new_file: true,
+          renamed_file: false,
+          deleted_file: false,
+          diff: "@@ -0,0 +1,2 @@\n+export function toCsv(rows: string[][]) {\n+}\n",
+        },
+        {
+          old_path: "src/orders/legacy.ts",
+          new_path: "src/orders/legacy.ts",
+          a_mode: "100644",
+          b_mode: "0",
+          new_file: false,
+          renamed_file: false,
+          deleted_file: true,
+          diff: "@@ -1 +0,0 @@\n-export const legacy = true\n",
+        },
+      ],
+    },
+  },
+  [`GET /projects/${PROJECT}/merge_requests/7/diffs?per_page=100&page=1`]: {
+    headers: { "x-next-page": "2", "x-total-pages": "2" },
+    body: [
+      {
+        old_path: "src/orders/export.ts",
+        new_path: "src/orders/export.ts",
+        new_file: false,
+        renamed_file: false,
+        deleted_file: false,
+        diff: "@@ -1,3 +1,4 @@\n import { db } from \"../db\"\n+import { toCsv } from \"./csv\"\n \n-export async function exportOrders() {\n+export async function exportOrders(format = \"csv\") {\n",
+      },
+    ],
+  },
+  [`GET /projects/${PROJECT}/merge_requests/7/diffs?per_page=100&page=2`]: {
+    headers: { "x-next-page": "", "x-total-pages": "2" },
+    body: [
+      {
+        old_path: "src/orders/old-name.ts",
+        new_path: "src/orders/new-name.ts",
+        new_file: false,
+        renamed_file: true,
+        deleted_file: false,
+        diff: "",
+      },
+    ],
+  },
+  [`POST /projects/${PROJECT}/merge_requests/7/notes`]: {
+    status: 201,
+    body: { id: 501, body: "summary", noteable_iid: 7, system: false },
+  },
+  [`POST /projects/${PROJECT}/merge_requests/7/discussions`]: {
+    status: 201,
+    body: { id: "6a9c1750b37d513a43987b574953fceb50b03ce7", individual_note: false, notes: [{ id: 601, type: "DiffNote" }] },
+  },
+  [`POST /projects/${PROJECT}/merge_requests/7/approve`]: {
+    status: 201,
+    body: { iid: 7, approved: true },
+  },
+  [`POST /projects/${PROJECT}/statuses/${HEAD_SHA}`]: {
+    status: 201,
+    body: { id: 9001, sha: HEAD_SHA, status: "running", name: "unerr" },
+  },
+  [`GET /projects/${PROJECT}/repository/commits/${HEAD_SHA}/merge_requests`]: {
+    body: [{ iid: 7, state: "opened" }, { iid: 3, state: "merged" }],
+  },
+  [`GET /projects/${PROJECT}/repository/branches/main`]: {
+    body: { name: "main", commit: { id: HEAD_SHA, short_id: "33333333" }, default: true },
+  },
+  ["GET /projects?membership=true&min_access_level=30&archived=false&per_page=100&page=1"]: {
+    headers: { "x-next-page": "" },
+    body: [
+      { id: 42, path_with_namespace: "acme/platform/api", default_branch: "main", visibility: "private" },
+      { id: 43, path_with_namespace: "acme/docs", default_branch: null, visibility: "public" },
+    ],
+  },
+  [`GET /projects/${PROJECT}/repository/files/.unerr%2Freview.yml?ref=${BASE_SHA}`]: {
+    body: { file_path: ".unerr/review.yml", encoding: "base64", content: Buffer.from("impactThreshold: 30\n").toString("base64") },
+  },
+  [`GET /projects/${PROJECT}/repository/tree?path=.unerr%2Frules&ref=${BASE_SHA}&per_page=100&page=1`]: {
+    headers: { "x-next-page": "" },
+    body: [{ path: ".unerr/rules/no-console.yml", type: "blob" }],
+  },
+}
+
+export interface RecordedCall {
+  method: string
+  path: string
+  body?: unknown
+  token: string | null
+}
+
+/** A fetch implementation that replays GITLAB_FIXTURES and records every call. */
+export function createGitLabApiFake(fixtures: Record<string, RecordedResponse> = GITLAB_FIXTURES): {
+  fetch: typeof fetch
+  calls: RecordedCall[]
+} {
+  const calls: RecordedCall[] = []
+  const fakeFetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url
+    const method = init?.method ?? "GET"
+    const path = url.replace(`${GITLAB_BASE_URL}/api/v4`, "")
+    const headers = new Headers(init?.headers)
+    calls.push({
+      method,
+      path,
+      body: typeof init?.body === "string" ? JSON.parse(init.body) as unknown : undefined,
+      token: headers.get("private-token"),
+    })
+    const recorded = fixtures[`${method} ${path}`]
+    if (!recorded) {
+      return new Response(JSON.stringify({ message: "404 Not Found" }), { status: 404, statusText: "Not Found" })
+    }
+    return new Response(recorded.body === undefined ? null : JSON.stringify(recorded.body), {
+      status: recorded.status ?? 200,
+      headers: { "content-type": "application/json", ...recorded.headers },
+    })
+  }
+  return { fetch: fakeFetch as typeof fetch, calls }
+}
@@ -0,0 +1,202 @@
+/**
+ * GitLabHost against a recorded-fixture fake of the GitLab REST API.
+ * Tests MR mapping, diff reconstruction, pagination, discussions as review
+ * comments, and commit statuses in place of check runs.
+ */
+
+import { describe, expect, it } from "vitest"
+
+import { InMemoryCacheStore } from "@/lib/di/fakes"
+import {
+  BASE_SHA,
+  createGitLabApiFake,
+  GITLAB_BASE_URL,
+  HEAD_SHA,
+  PROJECT,
+  START_SHA,
+} from "./fixtures/gitlab-api"
+import { GitLabApiError, GitLabHost } from "../gitlab-host"
+
+function makeHost(cacheStore = new InMemoryCacheStore()) {
+  const api = createGitLabApiFake()
+  const host = new GitLabHost({ baseUrl: `${GITLAB_BASE_URL}/`, token: "glpat-test", fetch: api.fetch, cacheStore })
+  return { host, calls: api.calls }
+}
+
+describe("GitLabHost", () => {
+  it("maps a merge request onto the pull request shape", async () => {
+    const { host, calls } = makeHost()
+
+    const pr = await host.getPullRequest("acme/platform", "api", 7)
+
+    expect(pr).toMatchObject({
+      number: 7,
+      title: "Add order export endpoint",
+      headSha: HEAD_SHA,
+      baseSha: BASE_SHA,
+      htmlUrl: `${GITLAB_BASE_URL}/acme/platform/api/-/merge_requests/7`,
+      draft: false,
+      merged: false,
+      state: "open",
+    })
+    expect(calls[0]).toMatchObject({ method: "GET", token: "glpat-test" })
+  })
+
+  it("rebuilds a unified diff from the compare API", async () => {
+    const { host } = makeHost()
+
+    const diff = await host.getDiff("acme/platform", "api", BASE_SHA, HEAD_SHA)
+
+    expect(diff).toContain("diff --git a/src/orders/export.ts b/src/orders/export.ts\n--- a/src/orders/export.ts\n+++ b/src/orders/export.ts\n@@ -1,3 +1,4 @@")
+    expect(diff).toContain("--- /dev/null\n+++ b/src/orders/csv.ts\n")
+    expect(diff).toContain("--- a/src/orders/legacy.ts\n+++ /dev/null\n")
+  })
+
+  it("pages through merge request diffs", async () => {
+    const { host, calls } = makeHost()
+
+    const files = await host.getPullRequestFiles("acme/platform", "api", 7)
+
+    expect(files.map((f) => [f.filename, f.status, f.additions, f.deletions])).toEqual([
+      ["src/orders/export.ts", "modified", 2, 1],
+      ["src/orders/new-name.ts", "renamed", 0, 0],
+    ])
+    expect(calls.map((c) => c.path)).toEqual([
+      `/projects/${PROJECT}/merge_requests/7/diffs?per_page=100&page=1`,
+      `/projects/${PROJECT}/merge_requests/7/diffs?per_page=100&page=2`,
+    ])
+  })
+
+  it("posts a review as a note plus positioned diff discussions", async () => {
+    const { host, calls } = makeHost()
+
+    const result = await host.postReview("acme/platform", "api", 7, {
+      event: "APPROVE",
+      body: "LGTM",
+      comments: [{ path: "src/orders/export.ts", line: 4, body: "Validate `format`." }],
+    })
+
+    expect(result).toEqual({ reviewId: 501, commentIds: [601] })
+    const discussion = calls.find((c) => c.path.endsWith("/discussions"))!
+    expect(discussion.body).toEqual({
+      body: "Validate `format`.",
+      position: {
+        position_type: "text",
+        base_sha: BASE_SHA,
+        start_sha: START_SHA,
+        head_sha: HEAD_SHA,
+        old_path: "src/orders/export.ts",
+        new_path: "src/orders/export.ts",
+        new_line: 4,
+      },
+    })
+    expect(calls.some((c) => c.method === "POST" && c.path.endsWith("/approve"))).toBe(true)
+  })
+
+  it("ranges a multi-line suggestion back to its first line", async () => {
+    const { host, calls } = makeHost()
+    const body = "Use the logger.\n\n```suggestion\nlog.info(\"a\")\nlog.info(\"b\")\n```"
+
+    await host.postReview("acme/platform", "api", 7, {
+      event: "COMMENT",
+      body: "1 finding",
+      comments: [
+        { path: "src/orders/export.ts", line: 5, startLine: 4, body },
+        { path: "src/orders/export.ts", line: 8, body },
+      ],
+    })
+
+    const discussions = calls.filter((c) => c.path.endsWith("/discussions")).map((c) => c.body as { body: string; position: { new_line: number } })
+    expect(discussions[0]!.body).toContain("```suggestion:-1+0\nlog.info")
+    expect(discussions[0]!.position.new_line).toBe(5)
+    expect(discussions[1]!.body).toBe(body)
+  })
+
+  it("uses commit statuses in place of check runs", async () => {
+    const { host, calls } = makeHost()
+
+    const { checkRunId } = await host.createCheckRun("acme/platform", "api", { name: "unerr", headSha: HEAD_SHA, status: "in_progress" })
+    await host.updateCheckRun("acme/platform", "api", checkRunId, {
+      status: "completed",
+      conclusion: "failure",
+      output: { title: "2 blockers found", summary: "…", annotations: [] },
+    })
+
+    expect(checkRunId).toBe(9001)
+    expect(calls.filter((c) => c.path.includes("/statuses/")).map((c) => c.body)).toEqual([
+      { state: "running", name: "unerr" },
+      { state: "failed", name: "unerr", description: "2 blockers found" },
+    ])
+    await expect(
+      host.updateCheckRun("acme/platform", "api", 1234, { status: "completed", conclusion: "success", output: { title: "", summary: "", annotations: [] } })
+    ).rejects.toBeInstanceOf(GitLabApiError)
+  })
+
+  it("completes a commit status from another host instance and never reports neutral as passed", async () => {
+    const cacheStore = new InMemoryCacheStore()
+    const { checkRunId } = await makeHost(cacheStore).host.createCheckRun("acme/platform", "api", { name: "unerr", headSha: HEAD_SHA, status: "in_progress" })
+    const { host, calls } = makeHost(cacheStore)
+
+    await host.updateCheckRun("acme/platform", "api", checkRunId, {
+      status: "completed",
+      conclusion: "neutral",
+      output: { title: "Config errors", summary: "…", annotations: [] },
+    })
+
+    expect(calls.filter((c) => c.path.includes("/statuses/")).map((c) => c.body)).toEqual([
+      { state: "canceled", name: "unerr", description: "Config errors" },
+    ])
+  })
+
+  it("posts the check summary and annotations as a note on the open MRs for the commit", async () => {
+    const { host, calls } = makeHost()
+
+    const { checkRunId } = await host.createCheckRun("acme/platform", "api", { name: "unerr Review Config", headSha: HEAD_SHA, status: "in_progress" })
+    await host.updateCheckRun("acme/platform", "api", checkRunId, {
+      status: "completed",
+      conclusion: "neutral",
+      output: {
+        title: "1 config error",
+        summary: "`.unerr/review.yml` was ignored as a whole.",
+        annotations: [{
+          path: ".unerr/review.yml", start_line: 2, end_line: 2, annotation_level: "warning",
+          message: "Expected a number", title: "impactThreshold", raw_details: "",
+        }],
+      },
+    })
+
+    const notes = calls.filter((c) => c.method === "POST" && c.path.endsWith("/notes"))
+    expect(notes.map((c) => c.path)).toEqual([`/projects/${PROJECT}/merge_requests/7/notes`])
+    expect(notes[0]!.body).toEqual({
+      body: "**1 config error**\n\n`.unerr/review.yml` was ignored as a whole.\n\n- `.unerr/review.yml:2` **impactThreshold** — Expected a number",
+    })
+  })
+
+  it("lists maintainable projects as installation repos", async () => {
+    const { host } = makeHost()
+
+    const repos = await host.getInstallationRepos()
+
+    expect(repos).toEqual([
+      { id: 42, fullName: "acme/platform/api", defaultBranch: "main", language: null, private: true },
+      { id: 43, fullName: "acme/docs", defaultBranch: "main", language: null, private: false },
+    ])
+    expect(await host.getLatestSha("acme/platform", "api", "main")).toBe(HEAD_SHA)
+  })
+
+  it("reads repo files at a ref and treats missing files as absent", async () => {
+    const { host } = makeHost()
+
+    expect(await host.getFileContent("acme/platform", "api", ".unerr/review.yml", BASE_SHA)).toBe("impactThreshold: 30\n")
+    expect(await host.getFileContent("acme/platform", "api", ".unerr/missing.yml", BASE_SHA)).toBeNull()
+    expect(await host.listDirectory("acme/platform", "api", ".unerr/rules", BASE_SHA)).toEqual([
+      { path: ".unerr/rules/no-console.yml", type: "file" },
+    ])
+  })
+
+  it("surfaces API errors with the status code", async () => {
+    const { host } = makeHost()
+
+    await expect(host.getPullRequest("acme/platform", "api", 999)).rejects.toMatchObject({ name: "GitLabApiError", statusCode: 404 })
+  })
+})
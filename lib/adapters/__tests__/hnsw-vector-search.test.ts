@@ -0,0 +1,188 @@
+/**
+ * HnswVectorSearch — embedded on-disk vector indexes.
+ * Tests HNSW recall against brute force, per-repo entity search, embedding
+ * lookup, orphan cleanup, justification search with taxonomy filter,
+ * buffered writes, and reload from disk by a fresh adapter instance.
+ *
+ * @vitest-environment node
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { HnswIndex } from "@/lib/embeddings/hnsw-index"
+import type { JustificationEmbeddingMeta } from "@/lib/ports/vector-search"
+import { HnswVectorSearch } from "../hnsw-vector-search"
+
+/** Deterministic pseudo-random vectors (LCG) so recall is reproducible. */
+function randomVectors(count: number, dims: number, seed = 7): number[][] {
+  let state = seed
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296 - 0.5
+  }
+  return Array.from({ length: count }, () => Array.from({ length: dims }, next))
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!
+    na += a[i]! * a[i]!
+    nb += b[i]! * b[i]!
+  }
+  return dot / Math.sqrt(na * nb)
+}
+
+const embedder = {
+  embed: async (texts: string[]) => texts.map((t) => [t.length, 1, 0]),
+}
+
+function entityMeta(key: string, repoId = "repo-1", orgId = "org-1"): Record<string, unknown> {
+  return { orgId, repoId, entityKey: key, entityType: "function", entityName: key, filePath: `src/${key}.ts`, textContent: key }
+}
+
+function justificationMeta(entityId: string, taxonomy: string): JustificationEmbeddingMeta {
+  return {
+    orgId: "org-1",
+    repoId: "repo-1",
+    entityId,
+    entityName: entityId,
+    taxonomy,
+    featureTag: "billing",
+    businessPurpose: `Handles ${entityId}`,
+  }
+}
+
+describe("HnswIndex", () => {
+  it("finds nearly the same top-10 as brute force", () => {
+    const vectors = randomVectors(600, 24)
+    const index = new HnswIndex<null>(24)
+    vectors.forEach((v, i) => index.upsert(`k${i}`, v, null))
+
+    let found = 0
+    const queries = randomVectors(20, 24, 99)
+    for (const q of queries) {
+      const exact = vectors
+        .map((v, i) => ({ key: `k${i}`, score: cosine(q, v) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map((h) => h.key)
+      const approx = new Set(index.search(q, 10).map((h) => h.key))
+      found += exact.filter((k) => approx.has(k)).length
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.95)
+  })
+
+  it("hides removed entries and survives compaction and serialization", () => {
+    const vectors = randomVectors(50, 8)
+    const index = new HnswIndex<{ n: number }>(8)
+    vectors.forEach((v, i) => index.upsert(`k${i}`, v, { n: i }))
+    for (let i = 0; i < 25; i++) index.remove(`k${i}`)
+
+    expect(index.search(vectors[3]!, 50).map((h) => h.key)).not.toContain("k3")
+    index.compact()
+    expect(index.tombstones).toBe(0)
+
+    const restored = HnswIndex.deserialize<{ n: number }>(index.serialize())
+    expect(restored.size).toBe(25)
+    expect(restored.search(vectors[30]!, 1)[0]).toMatchObject({ key: "k30", payload: { n: 30 } })
+    expect(restored.getVector("k30")!.map((x) => Math.round(x * 1e4))).toEqual(vectors[30]!.map((x) => Math.round(x * 1e4)))
+  })
+})
+
+describe("HnswVectorSearch", () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hnsw-vector-search-"))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("scopes entity search to the repo and returns pgvector-shaped metadata", async () => {
+    const vs = new HnswVectorSearch({ dir, embedder, modelVersion: "test-3" })
+    await vs.upsert(
+      ["a", "b", "c"],
+      [[1, 0, 0], [0.9, 0.1, 0], [0, 0, 1]],
+      [entityMeta("a"), entityMeta("b"), entityMeta("c", "repo-2")]
+    )
+
+    const results = await vs.search([1, 0, 0], 5, { orgId: "org-1", repoId: "repo-1" })
+    expect(results.map((r) => r.id)).toEqual(["a", "b"])
+    expect(results[0]!.score).toBeCloseTo(1)
+    expect(results[0]!.metadata).toEqual({ entityType: "function", entityName: "a", filePath: "src/a.ts" })
+
+    const orgWide = await vs.search([0, 0, 1], 1, { orgId: "org-1" })
+    expect(orgWide.map((r) => r.id)).toEqual(["c"])
+    await vs.flush("repo-1")
+    expect(await readdir(join(dir, "org-1", "repo-1"))).toEqual(["entities.test-3.hnsw"])
+  })
+
+  it("looks up embeddings, deletes orphans and reloads from disk", async () => {
+    const vs = new HnswVectorSearch({ dir, embedder, modelVersion: "test-3" })
+    await vs.upsert(["a", "b"], [[1, 0, 0], [0, 1, 0]], [entityMeta("a"), entityMeta("b")])
+
+    expect(await vs.getEmbedding("repo-1", "b")).toEqual([0, 1, 0])
+    expect(await vs.deleteOrphaned("repo-1", ["a"])).toBe(1)
+    await vs.flush("repo-1")
+
+    const reloaded = new HnswVectorSearch({ dir, embedder, modelVersion: "test-3" })
+    expect(await reloaded.getEmbedding("repo-1", "b")).toBeNull()
+    expect((await reloaded.search([0, 1, 0], 5, { repoId: "repo-1" })).map((r) => r.id)).toEqual(["a"])
+
+    // A different model version sees no embeddings
+    const otherModel = new HnswVectorSearch({ dir, embedder, modelVersion: "other-3" })
+    expect(await otherModel.search([1, 0, 0], 5, { repoId: "repo-1" })).toEqual([])
+
+    expect(await reloaded.deleteAllEmbeddings("repo-1")).toBe(1)
+    expect(await reloaded.search([1, 0, 0], 5, { repoId: "repo-1" })).toEqual([])
+  })
+
+  it("searches justification embeddings with a taxonomy filter", async () => {
+    const vs = new HnswVectorSearch({ dir, embedder, modelVersion: "test-3" })
+    await vs.upsertJustificationEmbeddings(
+      [[1, 0, 0], [0.8, 0.2, 0], [0, 1, 0]],
+      [justificationMeta("charge", "VERTICAL"), justificationMeta("retry", "UTILITY"), justificationMeta("invoice", "VERTICAL")]
+    )
+
+    const results = await vs.searchJustificationEmbeddings([1, 0, 0], 2, { orgId: "org-1", repoId: "repo-1", taxonomy: "VERTICAL" })
+    expect(results.map((r) => r.entityId)).toEqual(["charge", "invoice"])
+    expect(results[0]).toMatchObject({ entityName: "charge", taxonomy: "VERTICAL", featureTag: "billing", businessPurpose: "Handles charge" })
+
+    expect(await vs.deleteJustificationEmbeddings("repo-1")).toBe(3)
+    expect(await vs.searchJustificationEmbeddings([1, 0, 0], 2, { orgId: "org-1", repoId: "repo-1" })).toEqual([])
+  })
+
+  it("buffers writes until flush and picks up indexes flushed by another process", async () => {
+    const writer = new HnswVectorSearch({ dir, embedder, modelVersion: "test-3" })
+    const reader = new HnswVectorSearch({ dir, embedder, modelVersion: "test-3" })
+    expect(await reader.search([1, 0, 0], 5, { repoId: "repo-1" })).toEqual([])
+
+    await writer.upsert(["a"], [[1, 0, 0]], [entityMeta("a")])
+    await writer.upsert(["b"], [[0, 1, 0]], [entityMeta("b")])
+    expect(await readdir(join(dir, "org-1", "repo-1"))).toEqual([])
+
+    // The earlier miss was not cached
+    await writer.flush("repo-1")
+    expect((await reader.search([1, 0, 0], 5, { repoId: "repo-1" })).map((r) => r.id)).toEqual(["a", "b"])
+
+    // A newer flush replaces the reader's cached copy
+    await writer.deleteOrphaned("repo-1", ["b"])
+    await writer.flush("repo-1")
+    expect((await reader.search([1, 0, 0], 5, { repoId: "repo-1" })).map((r) => r.id)).toEqual(["b"])
+  })
+
+  it("delegates embedding to the injected embedder", async () => {
+    const vs = new HnswVectorSearch({ dir, embedder })
+
+    expect(await vs.embed(["abc"])).toEqual([[3, 1, 0]])
+    expect(await vs.embedQuery("ab")).toEqual([2, 1, 0])
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * OpenAICompatibleProvider against a fake OpenAI-compatible server.
+ * Tests JSON-schema response formats derived from the justification Zod
+ * schemas, tolerant JSON parsing, streaming, embeddings, and the per-group
+ * model / cost mapping in lib/llm/config.ts.
+ *
+ * @vitest-environment node
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { z } from "zod"
+
+import { JustificationResultSchema } from "@/lib/justification/schemas"
+import { getModelCost, getModelForGroup, MODEL_COST_FALLBACK } from "@/lib/llm/config"
+import { OpenAICompatibleProvider, parseJsonContent, toResponseFormat } from "../openai-compatible-provider"
+
+const JUSTIFICATION = {
+  taxonomy: "VERTICAL",
+  confidence: 0.9,
+  businessPurpose: "Exports orders for finance",
+  domainConcepts: ["order"],
+  featureTag: "order_export",
+  semanticTriples: [],
+  complianceTags: [],
+  architecturalPattern: "pure_domain",
+  reasoning: "Builds CSV rows from orders.",
+}
+
+interface RecordedRequest {
+  path: string
+  body: Record<string, unknown>
+  authorization: string | null
+}
+
+function createServer(reply: (path: string, body: Record<string, unknown>) => Response) {
+  const requests: RecordedRequest[] = []
+  const fakeFetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url)
+    const body = JSON.parse(String(init?.body)) as Record<string, unknown>
+    requests.push({ path: url.pathname, body, authorization: new Headers(init?.headers).get("authorization") })
+    return reply(url.pathname, body)
+  }
+  const provider = new OpenAICompatibleProvider({ baseURL: "http://vllm.internal:8000/v1", apiKey: "local", fetch: fakeFetch })
+  return { provider, requests }
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json" } })
+}
+
+function completion(content: string): Response {
+  return json({
+    id: "cmpl-1",
+    object: "chat.completion",
+    model: "openai/gpt-oss-20b",
+    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content } }],
+    usage: { prompt_tokens: 120, completion_tokens: 40, total_tokens: 160 },
+  })
+}
+
+describe("OpenAICompatibleProvider", () => {
+  it("constrains generateObject with a JSON schema derived from the Zod schema", async () => {
+    const { provider, requests } = createServer(() => completion(JSON.stringify(JUSTIFICATION)))
+
+    const result = await provider.generateObject({
+      model: "openai/gpt-oss-20b",
+      schema: JustificationResultSchema,
+      system: "Classify the entity.",
+      prompt: "function exportOrders() {}",
+    })
+
+    expect(result.object.featureTag).toBe("order_export")
+    expect(result.usage).toEqual({ inputTokens: 120, outputTokens: 40 })
+    expect(requests[0]!.path).toBe("/v1/chat/completions")
+    expect(requests[0]!.authorization).toBe("Bearer local")
+    expect(requests[0]!.body).toMatchObject({
+      model: "openai/gpt-oss-20b",
+      temperature: 0.1,
+      messages: [
+        { role: "system", content: "Classify the entity." },
+        { role: "user", content: "function exportOrders() {}" },
+      ],
+    })
+    const format = requests[0]!.body.response_format as { type: string; json_schema: { schema: { properties: Record<string, unknown>; required: string[] } } }
+    expect(format.type).toBe("json_schema")
+    expect(format.json_schema.schema.properties.taxonomy).toEqual({ type: "string", enum: ["VERTICAL", "HORIZONTAL", "UTILITY"] })
+    expect(format.json_schema.schema.required).toContain("reasoning")
+  })
+
+  it("rejects output that does not satisfy the schema", async () => {
+    const { provider } = createServer(() => completion(JSON.stringify({ ...JUSTIFICATION, confidence: 7 })))
+
+    await expect(
+      provider.generateObject({ model: "m", schema: JustificationResultSchema, prompt: "x" })
+    ).rejects.toThrow()
+  })
+
+  it("streams text deltas", async () => {
+    const chunks = ["Orders ", "are ", "exported."]
+    const { provider } = createServer(() => {
+      const sse = chunks
+        .map((c) => `data: ${JSON.stringify({ id: "c", object: "chat.completion.chunk", choices: [{ index: 0, delta: { content: c } }] })}\n\n`)
+        .join("") + "data: [DONE]\n\n"
+      return new Response(sse, { status: 200, headers: { "content-type": "text/event-stream" } })
+    })
+
+    let text = ""
+    for await (const part of provider.streamText({ model: "m", prompt: "Summarize" })) text += part
+
+    expect(text).toBe("Orders are exported.")
+  })
+
+  it("returns embeddings in input order", async () => {
+    const { provider, requests } = createServer(() => json({
+      object: "list",
+      data: [
+        { object: "embedding", index: 1, embedding: [0, 1] },
+        { object: "embedding", index: 0, embedding: [1, 0] },
+      ],
+      usage: { prompt_tokens: 4, total_tokens: 4 },
+    }))
+
+    const vectors = await provider.embed({ model: "nomic-embed-text", texts: ["a", "b"] })
+
+    expect(vectors).toEqual([[1, 0], [0, 1]])
+    expect(requests[0]!.body).toMatchObject({ model: "nomic-embed-text", input: ["a", "b"], encoding_format: "float" })
+  })
+})
+
+describe("structured output helpers", () => {
+  it("falls back to JSON mode for non-Zod schemas", () => {
+    expect(toResponseFormat({ parse: (v) => v })).toEqual({ type: "json_object" })
+    expect(toResponseFormat(z.object({ ok: z.boolean() }))).toMatchObject({ type: "json_schema", json_schema: { name: "result" } })
+  })
+
+  it("tolerates fenced and prefixed JSON", () => {
+    expect(parseJsonContent("```json\n{\"ok\": true}\n```")).toEqual({ ok: true })
+    expect(parseJsonContent("Here is the result: {\"ok\": true}")).toEqual({ ok: true })
+    expect(() => parseJsonContent("no json here")).toThrow(/no JSON/)
+  })
+})
+
+describe("LLM config for self-hosted models", () => {
+  const saved = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...saved }
+    vi.resetModules()
+  })
+
+  it("maps model groups to local model names and zero cost", () => {
+    process.env.LLM_PROVIDER = "openai_compatible"
+
+    expect(getModelForGroup("code_reasoning")).toBe("Qwen/Qwen3-Coder-30B-A3B-Instruct")
+    expect(getModelForGroup("classification")).toBe("openai/gpt-oss-20b")
+    expect(getModelCost("openai/gpt-oss-120b")).toEqual({ input: 0, output: 0 })
+
+    delete process.env.LLM_PROVIDER
+    expect(getModelForGroup("code_reasoning")).toBe("qwen.qwen3-coder-30b-a3b-v1:0")
+  })
+
+  it("prices custom group models locally and unknown models at the fallback", () => {
+    process.env.LLM_PROVIDER = "openai_compatible"
+    expect(getModelCost("my-finetune")).toBe(MODEL_COST_FALLBACK)
+
+    process.env.LLM_MODEL_ANALYSIS = "my-finetune"
+    expect(getModelCost("my-finetune")).toEqual({ input: 0, output: 0 })
+  })
+
+  it("reads per-group local costs, falling back to the shared cost", async () => {
+    process.env.LLM_PROVIDER = "openai_compatible"
+    process.env.LLM_LOCAL_COST_INPUT_PER_1M = "0.05"
+    process.env.LLM_LOCAL_COST_OUTPUT_PER_1M = "0.2"
+    process.env.LLM_LOCAL_COST_CODE_REASONING_COMPLEX_INPUT_PER_1M = "0.5"
+    vi.resetModules()
+    const config = await import("@/lib/llm/config")
+
+    expect(config.getModelCost("openai/gpt-oss-120b").input).toBeCloseTo(0.5 / 1_000_000)
+    expect(config.getModelCost("openai/gpt-oss-120b").output).toBeCloseTo(0.2 / 1_000_000)
+    expect(config.getModelCost("openai/gpt-oss-20b").input).toBeCloseTo(0.05 / 1_000_000)
+    expect(config.EMBEDDING_MODEL_ID).toBe("nomic-ai/nomic-embed-text-v1.5")
+  })
+})
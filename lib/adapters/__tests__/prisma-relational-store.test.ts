@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+
+const queryRaw = vi.fn()
+
+vi.mock("@/lib/db/prisma", () => ({
+  getPrisma: () => ({ $queryRaw: queryRaw }),
+}))
+
+describe("PrismaRelationalStore.getRepoReviewConfig", () => {
+  beforeEach(() => {
+    queryRaw.mockReset()
+  })
+
+  it("turns on checks that were added after the config was saved", async () => {
+    const { checksEnabled } = DEFAULT_REVIEW_CONFIG
+    const { architecture: _architecture, migration: _migration, ...savedChecks } = checksEnabled
+    queryRaw.mockResolvedValue([
+      { review_config: { ...DEFAULT_REVIEW_CONFIG, impactThreshold: 40, checksEnabled: { ...savedChecks, test: false } } },
+    ])
+    const { PrismaRelationalStore } = await import("../prisma-relational-store")
+
+    const config = await new PrismaRelationalStore().getRepoReviewConfig("repo-1")
+
+    expect(config.impactThreshold).toBe(40)
+    expect(config.checksEnabled).toEqual({ ...checksEnabled, test: false, architecture: true, migration: true })
+  })
+
+  it("returns the defaults when nothing is saved", async () => {
+    queryRaw.mockResolvedValue([])
+    const { PrismaRelationalStore } = await import("../prisma-relational-store")
+
+    expect(await new PrismaRelationalStore().getRepoReviewConfig("repo-1")).toEqual(DEFAULT_REVIEW_CONFIG)
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * SCIPCodeIntelligence — definitions and references from stored SCIP artifacts.
+ *
+ * Builds minimal SCIP protobuf indexes in memory for a two-package monorepo
+ * (packages/core exports `add`, packages/app imports it under an alias).
+ *
+ * @vitest-environment node
+ */
+import { describe, expect, it } from "vitest"
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { gzipSync } from "node:zlib"
+
+import { InMemoryStorageProvider } from "@/lib/di/fakes"
+import { parseSCIPOutput, type SCIPArtifact } from "@/lib/indexer/scip-decoder"
+
+import { SCIP_BUCKET, SCIPCodeIntelligence, type ScipIndexRecord, type ScipIndexRef, storeScipArtifacts } from "../scip-code-intelligence"
+
+function varint(value: number): number[] {
+  const bytes: number[] = []
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80)
+    value >>>= 7
+  }
+  bytes.push(value)
+  return bytes
+}
+
+function lengthDelimited(field: number, payload: number[]): number[] {
+  return [...varint((field << 3) | 2), ...varint(payload.length), ...payload]
+}
+
+function text(value: string): number[] {
+  return Array.from(Buffer.from(value, "utf-8"))
+}
+
+function occurrence(range: number[], symbol: string, definition = false): number[] {
+  return [
+    ...lengthDelimited(1, range.flatMap(varint)),
+    ...lengthDelimited(2, text(symbol)),
+    ...(definition ? [...varint(4 << 3), ...varint(1)] : []),
+  ]
+}
+
+function scipIndex(documents: Array<{ path: string; occurrences: number[][] }>): Buffer {
+  return Buffer.from(
+    documents.flatMap((doc) =>
+      lengthDelimited(2, [...lengthDelimited(1, text(doc.path)), ...doc.occurrences.flatMap((o) => lengthDelimited(2, o))])
+    )
+  )
+}
+
+const ADD = "scip-typescript npm @acme/core 1.0.0 src/`math.ts`/add()."
+const SCOPE = { orgId: "org-1", repoId: "repo-1" }
+
+function setup() {
+  const storage = new InMemoryStorageProvider()
+  storage.putFile(SCIP_BUCKET, "org-1/repo-1/abc/core.scip", scipIndex([
+    { path: "src/math.ts", occurrences: [occurrence([0, 16, 19], ADD, true), occurrence([1, 6, 13], "local 0", true)] },
+  ]))
+  // Stored gzipped — both encodings are accepted
+  storage.putFile(SCIP_BUCKET, "org-1/repo-1/abc/app.scip", gzipSync(scipIndex([
+    { path: "src/main.ts", occurrences: [occurrence([0, 9, 12], ADD), occurrence([4, 2, 5], ADD), occurrence([4, 8, 15], "local 0", true)] },
+  ])))
+
+  const refs: ScipIndexRef[] = [
+    { commitSha: "abc", indexerRoot: "packages/core", storagePath: "org-1/repo-1/abc/core.scip" },
+    { commitSha: "abc", indexerRoot: "packages/app", storagePath: "org-1/repo-1/abc/app.scip" },
+  ]
+  const listed: Array<string | undefined> = []
+  const intel = new SCIPCodeIntelligence({
+    storage,
+    listIndexes: async (_orgId, _repoId, commitSha) => {
+      listed.push(commitSha)
+      return refs
+    },
+  })
+  return { intel, listed }
+}
+
+describe("SCIPCodeIntelligence", () => {
+  it("resolves a reference to its definition in another package", async () => {
+    const { intel } = setup()
+
+    // `sum(...)` on line 5 of packages/app/src/main.ts — an aliased import of core's `add`
+    const definitions = await intel.getDefinitions("packages/app/src/main.ts", 5, 4, SCOPE)
+
+    expect(definitions).toEqual([
+      expect.objectContaining({ path: "packages/core/src/math.ts", line: 1, column: 17, endLine: 1, endColumn: 20, symbol: ADD }),
+    ])
+  })
+
+  it("returns every occurrence across packages, flagging the definition", async () => {
+    const { intel, listed } = setup()
+
+    const references = await intel.getReferences("packages/core/src/math.ts", 1, 17, SCOPE)
+
+    expect(references.map((r) => `${r.path}:${r.line}`)).toEqual([
+      "packages/core/src/math.ts:1",
+      "packages/app/src/main.ts:1",
+      "packages/app/src/main.ts:5",
+    ])
+    expect(references.filter((r) => r.isDefinition)).toHaveLength(1)
+
+    // The decoded index is cached per commit
+    await intel.getReferences("packages/app/src/main.ts", 1, 10, SCOPE)
+    expect(listed).toEqual([undefined])
+  })
+
+  it("keeps local symbols scoped to their document", async () => {
+    const { intel } = setup()
+
+    const references = await intel.getReferences("packages/app/src/main.ts", 5, 9, SCOPE)
+
+    expect(references.map((r) => r.path)).toEqual(["packages/app/src/main.ts"])
+  })
+
+  it("picks the occurrence by symbol name when no column is known", async () => {
+    const { intel } = setup()
+
+    const definitions = await intel.getDefinitions("packages/core/src/math.ts", 1, 0, { ...SCOPE, symbol: "add" })
+
+    expect(definitions[0]?.path).toBe("packages/core/src/math.ts")
+  })
+
+  it("returns nothing outside a symbol or without a scope", async () => {
+    const { intel } = setup()
+
+    expect(await intel.getDefinitions("packages/app/src/main.ts", 5, 1, SCOPE)).toEqual([])
+    expect(await intel.getReferences("packages/app/src/main.ts", 5, 4)).toEqual([])
+  })
+})
+
+describe("storeScipArtifacts", () => {
+  it("serves queries from the artifacts an indexing run stores", async () => {
+    const indexDir = mkdtempSync(join(tmpdir(), "scip-store-"))
+    try {
+      // What the plugins see: indexer output in each package root, decoded then handed over
+      const artifacts: SCIPArtifact[] = []
+      const outputs: Array<[string, string, Buffer]> = [
+        ["packages/core", "typescript", scipIndex([{ path: "src/math.ts", occurrences: [occurrence([0, 16, 19], ADD, true)] }])],
+        ["packages/app", "typescript", scipIndex([{ path: "src/main.ts", occurrences: [occurrence([4, 2, 5], ADD)] }])],
+        // A second language in the same root is merged into that root's artifact
+        ["packages/app", "python", scipIndex([{ path: "tools/gen.py", occurrences: [occurrence([2, 0, 3], ADD)] }])],
+      ]
+      for (const [root, language, buffer] of outputs) {
+        mkdirSync(join(indexDir, root), { recursive: true })
+        const scipFile = join(indexDir, root, `index-${language}.scip`)
+        writeFileSync(scipFile, buffer)
+        parseSCIPOutput(scipFile, "repo-1", language, undefined, (a) => artifacts.push(a))
+      }
+
+      const storage = new InMemoryStorageProvider()
+      const rows: ScipIndexRecord[] = []
+      const intel = new SCIPCodeIntelligence({
+        storage,
+        listIndexes: async (orgId, repoId, commitSha) =>
+          rows.filter((r) => r.orgId === orgId && r.repoId === repoId && (!commitSha || r.commitSha === commitSha)),
+      })
+
+      // Nothing indexed yet — and the miss is not cached
+      expect(await intel.getReferences("packages/core/src/math.ts", 1, 17, SCOPE)).toEqual([])
+
+      const refs = await storeScipArtifacts(
+        storage,
+        { ...SCOPE, commitSha: "def", indexDir, artifacts },
+        async (record) => { rows.push(record) }
+      )
+
+      expect(refs.map((r) => r.indexerRoot)).toEqual(["packages/core", "packages/app"])
+      expect(rows[1]).toMatchObject({ storagePath: "org-1/repo-1/def/packages__app.scip.gz", languageStats: { typescript: expect.any(Number), python: expect.any(Number) } })
+
+      const references = await intel.getReferences("packages/core/src/math.ts", 1, 17, SCOPE)
+      expect(references.map((r) => `${r.path}:${r.line}`)).toEqual([
+        "packages/core/src/math.ts:1",
+        "packages/app/src/main.ts:5",
+        "packages/app/tools/gen.py:3",
+      ])
+    } finally {
+      rmSync(indexDir, { recursive: true, force: true })
+    }
+  })
+})
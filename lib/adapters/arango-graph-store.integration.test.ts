@@ -1,14 +1,20 @@
 /**
- * ArangoDB Integration Tests — bulk upsert, query, tenant isolation.
+ * Graph store integration tests — bulk upsert, query, tenant isolation,
+ * traversals, bi-temporal justifications, ledger and scoped branch deltas.
  *
- * Requires a running ArangoDB instance (docker compose up arangodb).
- * Tests are skipped when ArangoDB is not reachable.
+ * Runs the same suite against ArangoGraphStore and the embedded
+ * SqliteGraphStore (in-memory). The ArangoDB run requires a running instance
+ * (docker compose up arangodb) and is skipped when it is not reachable.
+ *
+ * @vitest-environment node
  */
 import { afterAll, beforeAll, describe, expect, it } from "vitest"
 
-import type { EdgeDoc, EntityDoc } from "@/lib/ports/types"
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type { EdgeDoc, EntityDoc, JustificationDoc, LedgerEntry } from "@/lib/ports/types"
 
 import { ArangoGraphStore } from "./arango-graph-store"
+import { SqliteGraphStore } from "./sqlite-graph-store"
 
 const ARANGO_URL = process.env.ARANGODB_URL ?? "http://localhost:8529"
 
@@ -24,140 +30,338 @@ async function isArangoReachable(): Promise<boolean> {
   }
 }
 
-let reachable = false
-let store: ArangoGraphStore
+const backends: Array<{ name: string; create: () => IGraphStore }> = [
+  { name: "ArangoGraphStore", create: () => new ArangoGraphStore() },
+  { name: "SqliteGraphStore", create: () => new SqliteGraphStore({ path: ":memory:" }) },
+]
 
-beforeAll(async () => {
-  reachable = await isArangoReachable()
-  if (reachable) {
-    store = new ArangoGraphStore()
-    await store.bootstrapGraphSchema()
+function justification(entityId: string, featureTag: string, validFrom: string): JustificationDoc {
+  return {
+    id: `just-${entityId}-${validFrom}`,
+    org_id: "test-org-1",
+    repo_id: "test-repo-4",
+    entity_id: entityId,
+    taxonomy: "VERTICAL",
+    confidence: 0.9,
+    business_purpose: `Handles ${featureTag}`,
+    domain_concepts: [featureTag],
+    feature_tag: featureTag,
+    semantic_triples: [],
+    compliance_tags: [],
+    model_tier: "heuristic",
+    valid_from: validFrom,
+    valid_to: null,
+    created_at: validFrom,
   }
-})
+}
 
-afterAll(async () => {
-  if (reachable) {
-    // Clean up test data
-    await store.deleteRepoData("test-org-1", "test-repo-1")
-    await store.deleteRepoData("test-org-1", "test-repo-2")
-    await store.deleteRepoData("test-org-2", "test-repo-3")
+function ledgerEntry(id: string, createdAt: string): LedgerEntry {
+  return {
+    id,
+    org_id: "test-org-1",
+    repo_id: "test-repo-4",
+    user_id: "user-1",
+    branch: "main",
+    timeline_branch: 0,
+    prompt: `prompt ${id}`,
+    changes: [],
+    status: "pending",
+    parent_id: null,
+    rewind_target_id: null,
+    commit_sha: null,
+    snapshot_id: null,
+    validated_at: null,
+    rule_generated: null,
+    created_at: createdAt,
   }
-})
+}
 
-describe("ArangoGraphStore integration", () => {
-  describe.skipIf(!reachable)("with ArangoDB running", () => {
-    it("bootstrapGraphSchema is idempotent", async () => {
-      // Second call should not throw
-      await expect(store.bootstrapGraphSchema()).resolves.toBeUndefined()
-    })
+// Async collector: reachability must be known before skipIf is evaluated
+describe("graph store integration", async () => {
+  const reachable = await isArangoReachable()
 
-    it("healthCheck returns up", async () => {
-      const result = await store.healthCheck()
-      expect(result.status).toBe("up")
-      expect(result.latencyMs).toBeGreaterThanOrEqual(0)
+  describe.each(backends)("$name", ({ name, create }) => {
+    const available = name !== "ArangoGraphStore" || reachable
+    let store: IGraphStore
+
+    beforeAll(async () => {
+      if (available) {
+        store = create()
+        await store.bootstrapGraphSchema()
+      }
     })
 
-    it("bulkUpsertEntities writes and deduplicates", async () => {
-      const entities: EntityDoc[] = Array.from({ length: 100 }, (_, i) => ({
-        id: `entity-${i}`,
-        org_id: "test-org-1",
-        repo_id: "test-repo-1",
-        kind: i % 4 === 0 ? "files" : i % 4 === 1 ? "functions" : i % 4 === 2 ? "classes" : "interfaces",
-        name: `test_entity_${i}`,
-        file_path: `src/file_${i % 10}.ts`,
-        line: i * 10,
-      }))
-
-      // First upsert
-      await expect(store.bulkUpsertEntities("test-org-1", entities)).resolves.toBeUndefined()
-
-      // Second upsert (idempotent — no duplicates)
-      await expect(store.bulkUpsertEntities("test-org-1", entities)).resolves.toBeUndefined()
+    afterAll(async () => {
+      if (available) {
+        // Clean up test data
+        await store.deleteRepoData("test-org-1", "test-repo-1")
+        await store.deleteRepoData("test-org-1", "test-repo-2")
+        await store.deleteRepoData("test-org-2", "test-repo-3")
+        await store.deleteRepoData("test-org-1", "test-repo-4")
+      }
     })
 
-    it("bulkUpsertEdges writes edges", async () => {
-      const edges: EdgeDoc[] = Array.from({ length: 50 }, (_, i) => ({
-        _from: `functions/entity-${i * 2 + 1}`,
-        _to: `functions/entity-${i * 2 + 3}`,
-        org_id: "test-org-1",
-        repo_id: "test-repo-1",
-        kind: "calls",
-      }))
+    describe.skipIf(!available)("with the backend available", () => {
+      it("bootstrapGraphSchema is idempotent", async () => {
+        // Second call should not throw
+        await expect(store.bootstrapGraphSchema()).resolves.toBeUndefined()
+      })
 
-      await expect(store.bulkUpsertEdges("test-org-1", edges)).resolves.toBeUndefined()
+      it("healthCheck returns up", async () => {
+        const result = await store.healthCheck()
+        expect(result.status).toBe("up")
+        expect(result.latencyMs).toBeGreaterThanOrEqual(0)
+      })
 
-      // Idempotent re-upsert
-      await expect(store.bulkUpsertEdges("test-org-1", edges)).resolves.toBeUndefined()
-    })
+      it("bulkUpsertEntities writes and deduplicates", async () => {
+        const entities: EntityDoc[] = Array.from({ length: 100 }, (_, i) => ({
+          id: `entity-${i}`,
+          org_id: "test-org-1",
+          repo_id: "test-repo-1",
+          kind: i % 4 === 0 ? "files" : i % 4 === 1 ? "functions" : i % 4 === 2 ? "classes" : "interfaces",
+          name: `test_entity_${i}`,
+          file_path: `src/file_${i % 10}.ts`,
+          line: i * 10,
+        }))
 
-    it("getEntitiesByFile returns entities for a specific file", async () => {
-      const entities = await store.getEntitiesByFile("test-org-1", "test-repo-1", "src/file_0.ts")
-      expect(entities.length).toBeGreaterThan(0)
-      for (const e of entities) {
-        expect(e.file_path).toBe("src/file_0.ts")
-      }
-    })
+        // First upsert
+        await expect(store.bulkUpsertEntities("test-org-1", entities)).resolves.toBeUndefined()
 
-    it("getFilePaths returns file paths for a repo", async () => {
-      const paths = await store.getFilePaths("test-org-1", "test-repo-1")
-      expect(paths.length).toBeGreaterThan(0)
-      for (const p of paths) {
-        expect(p.path).toBeTruthy()
-      }
-    })
+        // Second upsert (idempotent — no duplicates)
+        await expect(store.bulkUpsertEntities("test-org-1", entities)).resolves.toBeUndefined()
+      })
 
-    it("tenant isolation — org-2 cannot see org-1 data", async () => {
-      // Write data for org-2
-      await store.bulkUpsertEntities("test-org-2", [
-        {
-          id: "org2-entity-1",
-          org_id: "test-org-2",
-          repo_id: "test-repo-3",
-          kind: "functions",
-          name: "org2_function",
-          file_path: "src/org2.ts",
-          line: 1,
-        },
-      ])
-
-      // Query org-1 for org-2's file — should return empty
-      const org1Results = await store.getEntitiesByFile("test-org-1", "test-repo-3", "src/org2.ts")
-      expect(org1Results).toEqual([])
-
-      // Query org-2 for its own data — should find it
-      const org2Results = await store.getEntitiesByFile("test-org-2", "test-repo-3", "src/org2.ts")
-      expect(org2Results).toHaveLength(1)
-      expect(org2Results[0]?.name).toBe("org2_function")
-    })
+      it("bulkUpsertEdges writes edges", async () => {
+        const edges: EdgeDoc[] = Array.from({ length: 50 }, (_, i) => ({
+          _from: `functions/entity-${i * 2 + 1}`,
+          _to: `functions/entity-${i * 2 + 3}`,
+          org_id: "test-org-1",
+          repo_id: "test-repo-1",
+          kind: "calls",
+        }))
+
+        await expect(store.bulkUpsertEdges("test-org-1", edges)).resolves.toBeUndefined()
+
+        // Idempotent re-upsert
+        await expect(store.bulkUpsertEdges("test-org-1", edges)).resolves.toBeUndefined()
+      })
+
+      it("getEntitiesByFile returns entities for a specific file", async () => {
+        const entities = await store.getEntitiesByFile("test-org-1", "test-repo-1", "src/file_0.ts")
+        expect(entities.length).toBeGreaterThan(0)
+        for (const e of entities) {
+          expect(e.file_path).toBe("src/file_0.ts")
+        }
+      })
+
+      it("getFilePaths returns file paths for a repo", async () => {
+        const paths = await store.getFilePaths("test-org-1", "test-repo-1")
+        expect(paths.length).toBeGreaterThan(0)
+        for (const p of paths) {
+          expect(p.path).toBeTruthy()
+        }
+      })
+
+      it("getAllEntities pages through every entity with an offset", async () => {
+        const all = await store.getAllEntities("test-org-1", "test-repo-1")
+        const paged: EntityDoc[] = []
+        for (let offset = 0; ; offset += 30) {
+          const page = await store.getAllEntities("test-org-1", "test-repo-1", 30, offset)
+          paged.push(...page)
+          if (page.length < 30) break
+        }
+
+        expect(paged).toHaveLength(all.length)
+        expect(new Set(paged.map((e) => e.id))).toEqual(new Set(all.map((e) => e.id)))
+      })
+
+      it("tenant isolation — org-2 cannot see org-1 data", async () => {
+        // Write data for org-2
+        await store.bulkUpsertEntities("test-org-2", [
+          {
+            id: "org2-entity-1",
+            org_id: "test-org-2",
+            repo_id: "test-repo-3",
+            kind: "functions",
+            name: "org2_function",
+            file_path: "src/org2.ts",
+            line: 1,
+          },
+        ])
 
-    it("deleteRepoData removes all entities and edges for a repo", async () => {
-      // Write some test data to a separate repo
-      await store.bulkUpsertEntities("test-org-1", [
-        {
-          id: "del-entity-1",
+        // Query org-1 for org-2's file — should return empty
+        const org1Results = await store.getEntitiesByFile("test-org-1", "test-repo-3", "src/org2.ts")
+        expect(org1Results).toEqual([])
+
+        // Query org-2 for its own data — should find it
+        const org2Results = await store.getEntitiesByFile("test-org-2", "test-repo-3", "src/org2.ts")
+        expect(org2Results).toHaveLength(1)
+        expect(org2Results[0]?.name).toBe("org2_function")
+      })
+
+      it("deleteRepoData removes all entities and edges for a repo", async () => {
+        // Write some test data to a separate repo
+        await store.bulkUpsertEntities("test-org-1", [
+          {
+            id: "del-entity-1",
+            org_id: "test-org-1",
+            repo_id: "test-repo-2",
+            kind: "functions",
+            name: "to_delete",
+            file_path: "src/delete_me.ts",
+            line: 1,
+          },
+        ])
+
+        // Verify it exists
+        const before = await store.getEntitiesByFile("test-org-1", "test-repo-2", "src/delete_me.ts")
+        expect(before).toHaveLength(1)
+
+        // Delete
+        await store.deleteRepoData("test-org-1", "test-repo-2")
+
+        // Verify it's gone
+        const after = await store.getEntitiesByFile("test-org-1", "test-repo-2", "src/delete_me.ts")
+        expect(after).toHaveLength(0)
+      })
+
+      describe("traversals", () => {
+        // checkout → charge → persistCharge, checkout → validateCart; refund → charge
+        beforeAll(async () => {
+          const names = ["checkout", "charge", "persistCharge", "validateCart", "refund"]
+          await store.bulkUpsertEntities("test-org-1", names.map((name, i) => ({
+            id: `trav-${name}`,
+            org_id: "test-org-1",
+            repo_id: "test-repo-4",
+            kind: "function",
+            name,
+            file_path: "src/billing.ts",
+            start_line: i * 10 + 1,
+          })))
+          const call = (from: string, to: string): EdgeDoc => ({
+            _from: `functions/trav-${from}`,
+            _to: `functions/trav-${to}`,
+            org_id: "test-org-1",
+            repo_id: "test-repo-4",
+            kind: "calls",
+          })
+          await store.bulkUpsertEdges("test-org-1", [
+            call("checkout", "charge"),
+            call("charge", "persistCharge"),
+            call("checkout", "validateCart"),
+            call("refund", "charge"),
+          ])
+        })
+
+        it("getCallersOf / getCalleesOf follow call edges", async () => {
+          const callers = await store.getCallersOf("test-org-1", "trav-charge")
+          expect(callers.map((e) => e.name).sort()).toEqual(["checkout", "refund"])
+
+          const callees = await store.getCalleesOf("test-org-1", "trav-checkout", 2)
+          expect(callees.map((e) => e.name).sort()).toEqual(["charge", "persistCharge", "validateCart"])
+        })
+
+        it("impactAnalysis returns transitive callers", async () => {
+          const result = await store.impactAnalysis("test-org-1", "trav-persistCharge", 3)
+          expect(result.entityId).toBe("trav-persistCharge")
+          expect(result.affected.map((e) => e.name).sort()).toEqual(["charge", "checkout", "refund"])
+        })
+
+        it("getSubgraph walks edges in both directions from the start entity", async () => {
+          const subgraph = await store.getSubgraph("test-org-1", "trav-charge", 1)
+          expect(subgraph.entities[0]?.id).toBe("trav-charge")
+          expect(subgraph.entities.map((e) => e.name).sort()).toEqual(["charge", "checkout", "persistCharge", "refund"])
+          expect(subgraph.edges).toHaveLength(3)
+          expect(subgraph.edges[0]).toMatchObject({ kind: "calls", org_id: "test-org-1", repo_id: "test-repo-4" })
+
+          const missing = await store.getSubgraph("test-org-1", "trav-nope", 1)
+          expect(missing).toEqual({ entities: [], edges: [] })
+        })
+
+        it("findPaths returns outbound paths shortest first, bounded by maxDepth", async () => {
+          const paths = await store.findPaths("test-org-1", "trav-refund", "trav-persistCharge")
+          expect(paths).toHaveLength(1)
+          expect(paths[0]!.entities.map((e) => e.name)).toEqual(["refund", "charge", "persistCharge"])
+          expect(paths[0]!.edges).toHaveLength(2)
+          expect(paths[0]!.edges[0]).toMatchObject({ kind: "calls", _from: "functions/trav-refund", _to: "functions/trav-charge" })
+
+          expect(await store.findPaths("test-org-1", "trav-refund", "trav-persistCharge", { maxDepth: 1 })).toEqual([])
+          expect(await store.findPaths("test-org-1", "trav-persistCharge", "trav-refund")).toEqual([])
+          expect(await store.findPaths("test-org-1", "trav-refund", "trav-persistCharge", { edgeKinds: ["imports"] })).toEqual([])
+        })
+      })
+
+      it("keeps justification history bi-temporally", async () => {
+        await store.bulkUpsertJustifications("test-org-1", [justification("trav-charge", "payments", "2026-01-01T00:00:00.000Z")])
+        await store.bulkUpsertJustifications("test-org-1", [justification("trav-charge", "billing", "2026-02-01T00:00:00.000Z")])
+
+        const current = await store.getJustification("test-org-1", "trav-charge")
+        expect(current?.feature_tag).toBe("billing")
+        expect(current?.valid_to).toBeNull()
+
+        const history = await store.getJustificationHistory("test-org-1", "trav-charge")
+        expect(history.map((j) => j.feature_tag)).toEqual(["billing", "payments"])
+        expect(history[1]?.valid_to).toBeTruthy()
+      })
+
+      it("enforces ledger transitions and paginates the timeline", async () => {
+        await store.appendLedgerEntry("test-org-1", ledgerEntry("ledger-a", "2026-03-01T00:00:00.000Z"))
+        await store.appendLedgerEntry("test-org-1", ledgerEntry("ledger-b", "2026-03-02T00:00:00.000Z"))
+        await store.appendLedgerEntry("test-org-1", ledgerEntry("ledger-c", "2026-03-03T00:00:00.000Z"))
+
+        await store.updateLedgerEntryStatus("test-org-1", "ledger-a", "working")
+        expect((await store.getLedgerEntry("test-org-1", "ledger-a"))?.validated_at).toBeTruthy()
+        await store.updateLedgerEntryStatus("test-org-1", "ledger-a", "committed")
+        await expect(store.updateLedgerEntryStatus("test-org-1", "ledger-a", "working")).rejects.toThrow("Invalid ledger transition")
+
+        const page1 = await store.queryLedgerTimeline({ orgId: "test-org-1", repoId: "test-repo-4", limit: 2 })
+        expect(page1.items.map((e) => e.id)).toEqual(["ledger-c", "ledger-b"])
+        expect(page1.hasMore).toBe(true)
+        const page2 = await store.queryLedgerTimeline({ orgId: "test-org-1", repoId: "test-repo-4", limit: 2, cursor: page1.cursor! })
+        expect(page2.items.map((e) => e.id)).toEqual(["ledger-a"])
+
+        await store.markEntriesReverted("test-org-1", ["ledger-c"])
+        const uncommitted = await store.getUncommittedEntries("test-org-1", "test-repo-4", "main")
+        expect(uncommitted.map((e) => e.id)).toEqual(["ledger-b"])
+      })
+
+      it("overlays branch deltas on primary entities", async () => {
+        const entity = (id: string, name: string, scope: string): EntityDoc => ({
+          id,
           org_id: "test-org-1",
-          repo_id: "test-repo-2",
-          kind: "functions",
-          name: "to_delete",
-          file_path: "src/delete_me.ts",
-          line: 1,
-        },
-      ])
-
-      // Verify it exists
-      const before = await store.getEntitiesByFile("test-org-1", "test-repo-2", "src/delete_me.ts")
-      expect(before).toHaveLength(1)
-
-      // Delete
-      await store.deleteRepoData("test-org-1", "test-repo-2")
-
-      // Verify it's gone
-      const after = await store.getEntitiesByFile("test-org-1", "test-repo-2", "src/delete_me.ts")
-      expect(after).toHaveLength(0)
+          repo_id: "test-repo-4",
+          kind: "function",
+          name,
+          file_path: "src/scoped.ts",
+          scope,
+        })
+        await store.bulkUpsertEntities("test-org-1", [
+          entity("scoped-keep", "keep", "primary"),
+          entity("scoped-edit", "edit", "primary"),
+          entity("scoped-drop", "drop", "primary"),
+        ])
+
+        const written = await store.applyBranchDelta("test-org-1", "test-repo-4", "branch:feature/x", {
+          added: [entity("scoped-new", "new", "branch:feature/x")],
+          modified: [{ ...entity("scoped-edit-branch", "edit_v2", "branch:feature/x") }],
+          deletedKeys: ["scoped-drop"],
+          addedEdges: [],
+          modifiedEdges: [],
+          deletedEdgeKeys: [],
+        })
+        expect(written).toMatchObject({ entitiesWritten: 2, tombstonesCreated: 1 })
+
+        const merged = await store.queryEntitiesWithScope("test-org-1", "test-repo-4", "branch:feature/x", { filePath: "src/scoped.ts" })
+        expect(merged.map((e) => e.name).sort()).toEqual(["edit", "edit_v2", "keep", "new"])
+
+        expect(await store.deleteScopedEntities("test-org-1", "test-repo-4", "branch:feature/x")).toBeGreaterThanOrEqual(3)
+        const primary = await store.queryEntitiesWithScope("test-org-1", "test-repo-4", "branch:feature/x", { filePath: "src/scoped.ts" })
+        expect(primary.map((e) => e.name).sort()).toEqual(["drop", "edit", "keep"])
+      })
     })
   })
 
-  describe("without ArangoDB", () => {
+  describe("ArangoGraphStore without ArangoDB", () => {
     it.skipIf(reachable)("healthCheck returns down when ArangoDB is unreachable", async () => {
       // Override env to point to a non-existent ArangoDB
       const original = process.env.ARANGODB_URL
@@ -11,6 +11,7 @@
  */
 
 import type { Database } from "arangojs"
+import { randomUUID } from "node:crypto"
 import type { IGraphStore } from "@/lib/ports/graph-store"
 import type {
   ADRDoc,
@@ -22,18 +23,21 @@ import type {
   EntityDoc,
   FeatureAggregation,
   FeatureDoc,
+  GraphPath,
   HealthReportDoc,
   ImpactReportDoc,
   ImpactResult,
   ImportChain,
   IndexEventDoc,
   JustificationDoc,
+  LayerDefinitionDoc,
   LedgerEntry,
   LedgerEntryStatus,
   LedgerSummary,
   LedgerTimelineQuery,
   MinedPatternDoc,
   PaginatedResult,
+  PathEdgeKind,
   PatternDoc,
   PatternFilter,
   ProjectStats,
@@ -52,82 +56,22 @@ import type {
 import { validateLedgerTransition } from "@/lib/ports/types"
 import { logger } from "@/lib/utils/logger"
 
-const arangoLog = logger.child({ service: "arango-graph-store" })
+import {
+  ALL_ENTITY_COLLECTIONS,
+  DOC_COLLECTIONS,
+  EDGE_COLLECTIONS,
+  ENTITY_COLLECTIONS_FOR_FILE,
+  KIND_TO_COLLECTION,
+  qualifyVertexHandle,
+} from "./graph-collections"
+import { clampPathOptions } from "./graph-paths"
 
-const DOC_COLLECTIONS = [
-  "repos",
-  "files",
-  "functions",
-  "classes",
-  "interfaces",
-  "variables",
-  "patterns",
-  "rules",
-  "snippets",
-  "ledger",
-  // Phase 4: Justification & Taxonomy
-  "justifications",
-  "features_agg",
-  "health_reports",
-  "domain_ontologies",
-  "drift_scores",
-  "adrs",
-  "token_usage_log",
-  // Phase 5: Incremental indexing
-  "index_events",
-  // Phase 5.5: Prompt Ledger
-  "ledger_summaries",
-  "working_snapshots",
-  // Phase 6: Pattern Enforcement & Rules Engine
-  "rule_health",
-  "mined_patterns",
-  "impact_reports",
-  // I-01: Negative Knowledge
-  "entity_warnings",
-] as const
-
-const EDGE_COLLECTIONS = ["contains", "calls", "imports", "extends", "implements", "rule_exceptions", "language_implementations", "logically_coupled"] as const
+const arangoLog = logger.child({ service: "arango-graph-store" })
 
 const TENANT_INDEX_FIELDS = ["org_id", "repo_id"]
 const FILE_PATH_INDEX_FIELDS = ["org_id", "repo_id", "file_path"]
-const ENTITY_COLLECTIONS_FOR_FILE = ["functions", "classes", "interfaces", "variables"] as const
-const ALL_ENTITY_COLLECTIONS = ["files", ...ENTITY_COLLECTIONS_FOR_FILE] as const
 const BATCH_SIZE = 5000
 
-/** Map singular entity kind (from indexer) → plural ArangoDB collection name. */
-const KIND_TO_COLLECTION: Record<string, string> = {
-  file: "files",
-  function: "functions",
-  method: "functions",
-  class: "classes",
-  interface: "interfaces",
-  variable: "variables",
-  type: "variables",
-  enum: "variables",
-  struct: "classes",
-  module: "files",
-  namespace: "files",
-  decorator: "functions",
-  directory: "files",
-  // Plural forms (in case they're used directly)
-  files: "files",
-  functions: "functions",
-  classes: "classes",
-  interfaces: "interfaces",
-  variables: "variables",
-}
-
-/**
- * Ensure a vertex handle has the `collection/key` format required by ArangoDB edges.
- * If the handle is already qualified (contains `/`), return as-is.
- * Otherwise, look up the entity's kind to determine the collection, or default to `functions/`.
- */
-function qualifyVertexHandle(handle: string): string {
-  if (handle.includes("/")) return handle
-  // Bare key — default to functions (most common entity type)
-  return `functions/${handle}`
-}
-
 function getConfig() {
   const url = process.env.ARANGODB_URL ?? "http://localhost:8529"
   const password = process.env.ARANGO_ROOT_PASSWORD ?? "changeme"
@@ -152,6 +96,37 @@ async function getDbAsync(): Promise<Database> {
   return dbInstance
 }
 
+/**
+ * Run a read query whose server-side work stops when `signal` aborts. arangojs
+ * takes no per-request signal, so the query text carries a unique tag and the
+ * abort handler kills the matching entry in the running-queries list, plus the
+ * cursor if batches are still being fetched. Callers still race the promise
+ * (see lib/mcp/progress.ts abortable) — this only frees the database.
+ */
+async function queryAll<T>(db: Database, query: string, bindVars: Record<string, unknown>, signal?: AbortSignal): Promise<T[]> {
+  if (!signal) return (await db.query(query, bindVars)).all() as Promise<T[]>
+  signal.throwIfAborted()
+
+  const tag = `cancel:${randomUUID()}`
+  let cursor: Awaited<ReturnType<Database["query"]>> | null = null
+  const kill = () => {
+    void (async () => {
+      const running = await db.listRunningQueries()
+      await Promise.all(running.filter((q) => q.query.includes(tag)).map((q) => db.killQuery(q.id)))
+      await cursor?.kill()
+    })().catch((error: unknown) => {
+      arangoLog.warn("Failed to kill cancelled query", { error: error instanceof Error ? error.message : String(error) })
+    })
+  }
+  signal.addEventListener("abort", kill, { once: true })
+  try {
+    cursor = await db.query(`/* ${tag} */ ${query}`, bindVars)
+    return (await cursor.all()) as T[]
+  } finally {
+    signal.removeEventListener("abort", kill)
+  }
+}
+
 function getDb(): Database {
   if (!dbInstance) {
     const { Database: ArangoDatabase } = require("arangojs") as typeof import("arangojs")
@@ -584,6 +559,33 @@ export class ArangoGraphStore implements IGraphStore {
     } catch { /* not found */ }
   }
 
+  async upsertLayerDefinition(orgId: string, definition: LayerDefinitionDoc): Promise<void> {
+    const db = await getDbAsync()
+    const col = db.collection("layer_definitions")
+    await col.save(
+      { _key: definition.id, ...definition, org_id: definition.org_id ?? orgId },
+      { overwriteMode: "replace" }
+    )
+  }
+
+  async getLayerDefinition(orgId: string, repoId: string): Promise<LayerDefinitionDoc | null> {
+    const db = await getDbAsync()
+    const cursor = await db.query(
+      `
+      FOR doc IN layer_definitions
+        FILTER doc.org_id == @orgId AND doc.repo_id == @repoId
+        SORT doc.updated_at DESC
+        LIMIT 1
+        RETURN doc
+      `,
+      { orgId, repoId }
+    )
+    const docs = await cursor.all()
+    if (docs.length === 0) return null
+    const { _key, _id, ...rest } = docs[0] as { _key: string; _id: string; [k: string]: unknown }
+    return { id: _key, ...rest } as LayerDefinitionDoc
+  }
+
   async upsertPattern(orgId: string, pattern: PatternDoc): Promise<void> {
     const db = await getDbAsync()
     const col = db.collection("patterns")
@@ -933,7 +935,8 @@ export class ArangoGraphStore implements IGraphStore {
     orgId: string,
     repoId: string,
     query: string,
-    limit = 20
+    limit = 20,
+    opts?: { signal?: AbortSignal }
   ): Promise<SearchResult[]> {
     const db = await getDbAsync()
     const clampedLimit = Math.min(Math.max(limit, 1), 50)
@@ -942,7 +945,8 @@ export class ArangoGraphStore implements IGraphStore {
     // Search across entity collections using LIKE for name matching
     // ArangoDB fulltext indexes use FULLTEXT() function
     for (const collName of ENTITY_COLLECTIONS_FOR_FILE) {
-      const cursor = await db.query(
+      const docs = await queryAll<SearchResult>(
+        db,
         `
         FOR doc IN @@coll
           FILTER doc.org_id == @orgId AND doc.repo_id == @repoId
@@ -958,10 +962,10 @@ export class ArangoGraphStore implements IGraphStore {
             score: LENGTH(@query) / LENGTH(doc.name)
           }
         `,
-        { "@coll": collName, orgId, repoId, query, limit: clampedLimit }
+        { "@coll": collName, orgId, repoId, query, limit: clampedLimit },
+        opts?.signal
       )
-      const docs = await cursor.all()
-      results.push(...(docs as SearchResult[]))
+      results.push(...docs)
     }
 
     // Sort by score descending, deduplicate, limit
@@ -1388,7 +1392,7 @@ export class ArangoGraphStore implements IGraphStore {
     orgId: string,
     entityId: string,
     depth = 2,
-    opts?: { crossRepo?: boolean }
+    opts?: { crossRepo?: boolean; signal?: AbortSignal }
   ): Promise<SubgraphResult> {
     const db = await getDbAsync()
     const clampedDepth = Math.min(Math.max(depth, 1), 5)
@@ -1397,7 +1401,8 @@ export class ArangoGraphStore implements IGraphStore {
     const orgFilter = opts?.crossRepo ? "" : "AND v.repo_id == startDoc.repo_id"
 
     // D-08: PRUNE on tombstones to avoid traversing dead branches in deep traversals
-    const cursor = await db.query(
+    const results = await queryAll(
+      db,
       `
       FOR startId IN @possibleIds
         LET startDoc = DOCUMENT(startId)
@@ -1418,10 +1423,9 @@ export class ArangoGraphStore implements IGraphStore {
         )
         RETURN { vertices: APPEND([startDoc], vertices), edges: edges }
       `,
-      { orgId, possibleIds, maxDepth: clampedDepth }
+      { orgId, possibleIds, maxDepth: clampedDepth },
+      opts?.signal
     )
-
-    const results = await cursor.all()
     if (results.length === 0) return { entities: [], edges: [] }
 
     const first = results[0] as { vertices: Array<{ _key: string; _id: string; [k: string]: unknown }>; edges: Array<{ _from: string; _to: string; [k: string]: unknown }> }
@@ -1525,9 +1529,69 @@ export class ArangoGraphStore implements IGraphStore {
     return result
   }
 
+  async findPaths(
+    orgId: string,
+    fromId: string,
+    toId: string,
+    opts?: { k?: number; maxDepth?: number; edgeKinds?: PathEdgeKind[] }
+  ): Promise<GraphPath[]> {
+    const db = await getDbAsync()
+    const { k, maxDepth, edgeKinds } = clampPathOptions(opts)
+
+    // Edge collection names come from the PATH_EDGE_KINDS allow-list, not user input.
+    // K_PATHS stops expanding at @maxDepth (K_SHORTEST_PATHS has no depth bound), and the
+    // calls collection also holds edges of unrecognized kinds, so match on kind too.
+    const cursor = await db.query(
+      `
+      FOR fromHandle IN @fromIds
+        LET src = DOCUMENT(fromHandle)
+        FILTER src != null AND src.org_id == @orgId
+        FOR toHandle IN @toIds
+          LET dst = DOCUMENT(toHandle)
+          FILTER dst != null AND dst.org_id == @orgId
+          FOR p IN 1..@maxDepth OUTBOUND K_PATHS src TO dst ${edgeKinds.join(", ")}
+            FILTER p.edges[*].kind ALL IN @edgeKinds
+            FILTER p.vertices[*].org_id ALL == @orgId
+            FILTER LENGTH(p.vertices[* FILTER CURRENT.kind == "tombstone"]) == 0
+            LIMIT @k
+            RETURN { vertices: p.vertices, edges: p.edges }
+      `,
+      {
+        orgId,
+        fromIds: ALL_ENTITY_COLLECTIONS.map((c) => `${c}/${fromId}`),
+        toIds: ALL_ENTITY_COLLECTIONS.map((c) => `${c}/${toId}`),
+        maxDepth,
+        edgeKinds,
+        k,
+      }
+    )
+
+    const rows = (await cursor.all()) as Array<{
+      vertices: Array<{ _key: string; _id: string; [k: string]: unknown }>
+      edges: Array<{ _from: string; _to: string; [k: string]: unknown }>
+    }>
+    return rows
+      .map((row) => ({
+        entities: row.vertices.map((d) => {
+          const { _key, _id, ...rest } = d
+          return { id: _key, ...rest } as EntityDoc
+        }),
+        edges: row.edges.map((e) => ({
+          _from: e._from,
+          _to: e._to,
+          kind: (e.kind as string) ?? String(e._id ?? "calls").split("/")[0],
+          org_id: (e.org_id as string) ?? orgId,
+          repo_id: (e.repo_id as string) ?? "",
+        })) as EdgeDoc[],
+      }))
+      .sort((a, b) => a.edges.length - b.edges.length)
+      .slice(0, k)
+  }
+
   // ── Phase 4: Bulk fetch all entities/edges ─────────────────────
 
-  async getAllEntities(orgId: string, repoId: string, limit = 10000): Promise<EntityDoc[]> {
+  async getAllEntities(orgId: string, repoId: string, limit = 10000, offset?: number): Promise<EntityDoc[]> {
+    if (offset !== undefined) return this.getEntityPage(orgId, repoId, limit, offset)
     const db = await getDbAsync()
     const results: EntityDoc[] = []
     const perCollectionLimit = Math.ceil(limit / ALL_ENTITY_COLLECTIONS.length)
@@ -1563,6 +1627,48 @@ export class ArangoGraphStore implements IGraphStore {
     return results.slice(0, limit)
   }
 
+  /**
+   * One page of a repo's entities, ordered by collection then key. Collections
+   * wholly before the offset are skipped by count, so each page reads only its own rows.
+   */
+  private async getEntityPage(orgId: string, repoId: string, limit: number, offset: number): Promise<EntityDoc[]> {
+    const db = await getDbAsync()
+    const results: EntityDoc[] = []
+    let skip = Math.max(offset, 0)
+    for (const collName of ALL_ENTITY_COLLECTIONS) {
+      if (results.length >= limit) break
+      // Same exemption as getAllEntities: file entities carry `path` instead of `name`
+      const named = collName === "files" ? "true" : "doc.name != null AND doc.name != \"\""
+      if (skip > 0) {
+        const countCursor = await db.query(
+          `RETURN LENGTH(FOR doc IN @@coll FILTER doc.org_id == @orgId AND doc.repo_id == @repoId AND ${named} RETURN 1)`,
+          { "@coll": collName, orgId, repoId }
+        )
+        const count = ((await countCursor.all())[0] as number | undefined) ?? 0
+        if (count <= skip) {
+          skip -= count
+          continue
+        }
+      }
+      const cursor = await db.query(
+        `
+        FOR doc IN @@coll
+          FILTER doc.org_id == @orgId AND doc.repo_id == @repoId AND ${named}
+          SORT doc._key
+          LIMIT @skip, @lim
+          RETURN doc
+        `,
+        { "@coll": collName, orgId, repoId, skip, lim: limit - results.length }
+      )
+      for (const d of await cursor.all()) {
+        const { _key, _id, ...rest } = d as { _key: string; _id: string; [k: string]: unknown }
+        results.push({ id: _key, ...rest } as EntityDoc)
+      }
+      skip = 0
+    }
+    return results
+  }
+
   async getAllEdges(orgId: string, repoId: string, limit = 20000): Promise<EdgeDoc[]> {
     const db = await getDbAsync()
     const results: EdgeDoc[] = []
@@ -1633,7 +1739,7 @@ export class ArangoGraphStore implements IGraphStore {
     )
     const rows = await cursor.all() as Array<{ model: string; input_tokens: number; output_tokens: number }>
 
-    const { MODEL_COSTS } = require("@/lib/llm/config") as typeof import("@/lib/llm/config")
+    const { getModelCost } = require("@/lib/llm/config") as typeof import("@/lib/llm/config")
 
     let totalInput = 0
     let totalOutput = 0
@@ -1641,8 +1747,7 @@ export class ArangoGraphStore implements IGraphStore {
     const byModel: Record<string, { input_tokens: number; output_tokens: number; cost_usd: number }> = {}
 
     for (const row of rows) {
-      const { MODEL_COST_FALLBACK } = require("@/lib/llm/config") as typeof import("@/lib/llm/config")
-      const costs = MODEL_COSTS[row.model] ?? MODEL_COST_FALLBACK
+      const costs = getModelCost(row.model)
       const cost = row.input_tokens * costs.input + row.output_tokens * costs.output
       totalInput += row.input_tokens
       totalOutput += row.output_tokens
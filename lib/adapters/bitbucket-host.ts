@@ -0,0 +1,556 @@
+/**
+ * BitbucketHost — IGitHost implementation for Bitbucket Cloud (REST API 2.0).
+ * Bitbucket Server / Data Center lives in ./bitbucket-server-host.
+ *
+ * Mapping onto the GitHub-shaped port:
+ *   - owner/repo → workspace/repo_slug
+ *   - review → PR comments (summary + inline), plus approve / request-changes
+ *   - check runs → a build status (the PR merge check) and a Code Insights
+ *     report carrying the annotations
+ *   - installations → a single access token (BITBUCKET_TOKEN, or an app
+ *     password with BITBUCKET_USERNAME); installationId is ignored
+ *
+ * Local clone operations (pull, diff, blame, history) share ./local-git with GitHubHost.
+ */
+
+import type { CreatePRParams, FileCommit, FileEntry, GitHubRepo, IGitHost, PullRequest, RepoPermission } from "@/lib/ports/git-host"
+import type { ChangedFile } from "@/lib/ports/types"
+import { NotImplementedError } from "./errors"
+import * as localGit from "./local-git"
+
+/** Timeout for Bitbucket HTTP API calls (30 seconds) */
+const BITBUCKET_API_TIMEOUT_MS = 30_000
+/** Bitbucket Cloud caps pagelen at 100 for most endpoints */
+const PAGE_LEN = 100
+/** Code Insights accepts at most 100 annotations per request and 1000 per report */
+const ANNOTATION_BATCH = 100
+const MAX_ANNOTATIONS = 1000
+/** Field limits from the Code Insights and build status APIs */
+const MAX_REPORT_DETAILS = 2000
+const MAX_ANNOTATION_SUMMARY = 450
+const MAX_STATUS_DESCRIPTION = 255
+
+// ─── Error Types ─────────────────────────────────────────────────────────────
+
+export class BitbucketApiError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(`[BitbucketHost] ${message}`)
+    this.name = "BitbucketApiError"
+  }
+}
+
+export class BitbucketAuthError extends Error {
+  constructor(url: string) {
+    super(`[BitbucketHost] Authentication failed for ${url} — check BITBUCKET_TOKEN / BITBUCKET_USERNAME`)
+    this.name = "BitbucketAuthError"
+  }
+}
+
+// ─── API shapes (subset of Bitbucket Cloud REST 2.0) ─────────────────────────
+
+interface BitbucketPullRequest {
+  id: number
+  title: string
+  description: string
+  state: "OPEN" | "MERGED" | "DECLINED" | "SUPERSEDED"
+  draft?: boolean
+  source: { branch: { name: string }; commit: { hash: string } }
+  destination: { branch: { name: string }; commit: { hash: string } }
+  links: { html: { href: string } }
+}
+
+interface BitbucketRepository {
+  uuid: string
+  full_name: string
+  is_private: boolean
+  language: string
+  mainbranch: { name: string } | null
+}
+
+interface BitbucketDiffStat {
+  status: "added" | "removed" | "modified" | "renamed"
+  lines_added: number
+  lines_removed: number
+  old: { path: string } | null
+  new: { path: string } | null
+}
+
+interface Page<T> {
+  values: T[]
+  next?: string
+}
+
+export interface BitbucketHostOptions {
+  /** API root (default: https://api.bitbucket.org/2.0) */
+  apiUrl?: string
+  /** Access token, or app password when `username` is set (default: BITBUCKET_TOKEN) */
+  token?: string
+  /** Account username for app-password auth (default: BITBUCKET_USERNAME) */
+  username?: string
+  /** Link target for build statuses (default: NEXT_PUBLIC_APP_URL) */
+  appUrl?: string
+  /** Injected for tests (recorded-fixture fake of the Bitbucket API) */
+  fetch?: typeof fetch
+}
+
+/** Authorization header for an access token (Bearer) or username + app password (Basic). */
+export function bitbucketAuthHeader(token: string, username?: string): string {
+  return username
+    ? `Basic ${Buffer.from(`${username}:${token}`).toString("base64")}`
+    : `Bearer ${token}`
+}
+
+/** Embed credentials in an HTTPS clone URL (`x-token-auth` is Bitbucket's user for access tokens). */
+export function bitbucketCloneUrl(url: string, token: string, username?: string): string {
+  const user = encodeURIComponent(username ?? "x-token-auth")
+  return url.replace(/^https:\/\//, `https://${user}:${encodeURIComponent(token)}@`)
+}
+
+/** Build status / report keys are limited to [A-Za-z0-9._-]. */
+function checkKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^-|-$/g, "") || "unerr"
+}
+
+function mapPullRequest(pr: BitbucketPullRequest): PullRequest {
+  return {
+    number: pr.id,
+    title: pr.title,
+    headSha: pr.source.commit.hash,
+    baseSha: pr.destination.commit.hash,
+    htmlUrl: pr.links.html.href,
+    body: pr.description || undefined,
+    draft: pr.draft ?? false,
+    merged: pr.state === "MERGED",
+    state: pr.state === "OPEN" ? "open" : "closed",
+    sourceBranch: pr.source.branch.name,
+    targetBranch: pr.destination.branch.name,
+  }
+}
+
+export class BitbucketHost implements IGitHost {
+  private readonly apiUrl: string
+  private readonly token: string | undefined
+  private readonly username: string | undefined
+  private readonly appUrl: string
+  private readonly fetchFn: typeof fetch
+  /**
+   * Build statuses and reports are addressed by commit + key, not ID.
+   * createCheckRun and updateCheckRun run in the same activity, so an
+   * in-process map is enough.
+   */
+  private readonly checks = new Map<number, { owner: string; repo: string; sha: string; key: string; name: string }>()
+  private nextCheckId = 1
+
+  constructor(options: BitbucketHostOptions = {}) {
+    this.apiUrl = (options.apiUrl ?? "https://api.bitbucket.org/2.0").replace(/\/$/, "")
+    this.token = options.token ?? process.env.BITBUCKET_TOKEN
+    this.username = options.username ?? process.env.BITBUCKET_USERNAME
+    this.appUrl = options.appUrl ?? process.env.NEXT_PUBLIC_APP_URL ?? "https://app.unerr.dev"
+    this.fetchFn = options.fetch ?? fetch
+  }
+
+  async cloneRepo(url: string, destination: string, options?: { ref?: string }): Promise<void> {
+    const cloneUrl = this.token ? bitbucketCloneUrl(url, this.token, this.username) : url
+    await localGit.cloneOrPull(cloneUrl, destination, options?.ref)
+  }
+
+  async getPullRequest(owner: string, repo: string, prNumber: number): Promise<PullRequest> {
+    const pr = await this.request<BitbucketPullRequest>("GET", `${this.repoPath(owner, repo)}/pullrequests/${prNumber}`)
+    return mapPullRequest(pr)
+  }
+
+  async createPullRequest(owner: string, repo: string, params: CreatePRParams): Promise<PullRequest> {
+    const pr = await this.request<BitbucketPullRequest>("POST", `${this.repoPath(owner, repo)}/pullrequests`, {
+      title: params.title,
+      description: params.body,
+      source: { branch: { name: params.head } },
+      destination: { branch: { name: params.base } },
+    })
+    return mapPullRequest(pr)
+  }
+
+  /** `head..base` is Bitbucket's three-dot diff: head's changes since its merge base with base. */
+  async getDiff(owner: string, repo: string, base: string, head: string): Promise<string> {
+    const response = await this.send("GET", `${this.repoPath(owner, repo)}/diff/${encodeURIComponent(`${head}..${base}`)}`)
+    return response.text()
+  }
+
+  async listFiles(owner: string, repo: string, ref?: string): Promise<FileEntry[]> {
+    const entries = await this.paginate<{ path: string; type: "commit_file" | "commit_directory"; size?: number }>(
+      `${this.repoPath(owner, repo)}/src/${encodeURIComponent(ref ?? "HEAD")}/?max_depth=100`
+    )
+    return entries.map((e) => ({ path: e.path, type: e.type === "commit_directory" ? "dir" : "file", size: e.size }))
+  }
+
+  async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+    try {
+      const response = await this.send("GET", `${this.repoPath(owner, repo)}/src/${encodeURIComponent(ref)}/${path.split("/").map(encodeURIComponent).join("/")}`)
+      return await response.text()
+    } catch (error: unknown) {
+      if (error instanceof BitbucketApiError && error.statusCode === 404) return null
+      throw error
+    }
+  }
+
+  async listDirectory(owner: string, repo: string, path: string, ref: string): Promise<FileEntry[]> {
+    try {
+      const entries = await this.paginate<{ path: string; type: "commit_file" | "commit_directory"; size?: number }>(
+        `${this.repoPath(owner, repo)}/src/${encodeURIComponent(ref)}/${path.split("/").map(encodeURIComponent).join("/")}/`
+      )
+      return entries.map((e) => ({ path: e.path, type: e.type === "commit_directory" ? "dir" : "file", size: e.size }))
+    } catch (error: unknown) {
+      if (error instanceof BitbucketApiError && error.statusCode === 404) return []
+      throw error
+    }
+  }
+
+  async createWebhook(owner: string, repo: string, events: string[], url: string): Promise<void> {
+    const bitbucketEvents: string[] = []
+    if (events.includes("push")) bitbucketEvents.push("repo:push")
+    if (events.includes("pull_request")) {
+      bitbucketEvents.push("pullrequest:created", "pullrequest:updated", "pullrequest:fulfilled", "pullrequest:rejected")
+    }
+    await this.request("POST", `${this.repoPath(owner, repo)}/hooks`, {
+      description: "unerr",
+      url,
+      active: true,
+      secret: process.env.BITBUCKET_WEBHOOK_SECRET,
+      events: bitbucketEvents,
+    })
+  }
+
+  /** Bitbucket has no App installations — lists repos the credentials can write to. */
+  async getInstallationRepos(): Promise<GitHubRepo[]> {
+    const repos = await this.paginate<BitbucketRepository>("/repositories?role=contributor")
+    return repos.map((r) => ({
+      // Cloud repos have no numeric ID; the UUID is the stable provider ID
+      id: 0,
+      providerId: r.uuid,
+      fullName: r.full_name,
+      defaultBranch: r.mainbranch?.name ?? "main",
+      language: r.language || null,
+      private: r.is_private,
+    }))
+  }
+
+  async getInstallationToken(): Promise<string> {
+    if (!this.token) throw new BitbucketAuthError(this.apiUrl)
+    return this.token
+  }
+
+  async listBranches(owner: string, repo: string): Promise<string[]> {
+    const branches = await this.paginate<{ name: string }>(`${this.repoPath(owner, repo)}/refs/branches`)
+    return branches.map((b) => b.name)
+  }
+
+  // ── Incremental Indexing ──────────────────────────────────────
+
+  async pullLatest(workspacePath: string, branch: string): Promise<void> {
+    await localGit.pullLatest(workspacePath, branch)
+  }
+
+  async diffFiles(workspacePath: string, fromSha: string, toSha: string): Promise<ChangedFile[]> {
+    return localGit.diffFiles(workspacePath, fromSha, toSha)
+  }
+
+  async getLatestSha(owner: string, repo: string, branch: string): Promise<string> {
+    const data = await this.request<{ target: { hash: string } }>(
+      "GET",
+      `${this.repoPath(owner, repo)}/refs/branches/${encodeURIComponent(branch)}`
+    )
+    return data.target.hash
+  }
+
+  async blame(workspacePath: string, filePath: string, line: number): Promise<string | null> {
+    return localGit.blame(workspacePath, filePath, line)
+  }
+
+  async listFileCommits(owner: string, repo: string, path: string, opts: { ref?: string; limit: number }): Promise<FileCommit[]> {
+    const query = new URLSearchParams({ path, pagelen: String(Math.min(opts.limit, PAGE_LEN)) })
+    const ref = opts.ref ? `/${encodeURIComponent(opts.ref)}` : ""
+    const page = await this.request<Page<{ hash: string; message: string; date: string; author: { raw: string; user?: { display_name?: string } } }>>(
+      "GET",
+      `${this.repoPath(owner, repo)}/commits${ref}?${query.toString()}`
+    )
+    return page.values.slice(0, opts.limit).map((c) => {
+      const [subject = "", ...body] = c.message.split("\n")
+      // `raw` is "Name <email>"
+      const author = c.author.user?.display_name ?? c.author.raw.replace(/\s*<[^>]*>$/, "")
+      return { sha: c.hash, subject, body: body.join("\n").trim(), author, date: c.date }
+    })
+  }
+
+  async getFileGitHistory(
+    workspacePath: string,
+    filePath: string,
+    maxCommits = 20,
+    range?: { startLine: number; endLine: number }
+  ): Promise<FileCommit[]> {
+    return localGit.getFileGitHistory(workspacePath, filePath, maxCommits, range)
+  }
+
+  // ── Pull Request Review Integration ───────────────────────────
+
+  /**
+   * Post the review summary as a PR comment and each inline comment on the
+   * new side of the diff. APPROVE approves the PR and REQUEST_CHANGES marks
+   * it as changes requested, when the credentials are allowed to.
+   */
+  async postReview(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    review: {
+      event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT"
+      body: string
+      comments?: Array<{ path: string; line: number; startLine?: number; body: string }>
+    }
+  ): Promise<{ reviewId: number; commentIds: Array<number | null> }> {
+    const base = `${this.repoPath(owner, repo)}/pullrequests/${prNumber}`
+    const summary = await this.request<{ id: number }>("POST", `${base}/comments`, { content: { raw: review.body } })
+
+    const commentIds: Array<number | null> = []
+    for (const comment of review.comments ?? []) {
+      const created = await this.request<{ id: number } | undefined>("POST", `${base}/comments`, {
+        content: { raw: comment.body },
+        // No suggestion support — anchor multi-line fixes at their first line, next to the code they replace
+        inline: { path: comment.path, to: comment.startLine ?? comment.line },
+      })
+      commentIds.push(created?.id ?? null)
+    }
+
+    const stateChange = review.event === "APPROVE" ? "approve" : review.event === "REQUEST_CHANGES" ? "request-changes" : null
+    if (stateChange) {
+      await this.request("POST", `${base}/${stateChange}`).catch(() => {
+        // PR authors may not approve their own PR — the comments are posted either way
+      })
+    }
+
+    return { reviewId: summary.id, commentIds }
+  }
+
+  async postReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    comment: { path: string; line: number; body: string; commitId: string }
+  ): Promise<{ commentId: number }> {
+    const created = await this.request<{ id: number }>("POST", `${this.repoPath(owner, repo)}/pullrequests/${prNumber}/comments`, {
+      content: { raw: comment.body },
+      inline: { path: comment.path, to: comment.line },
+    })
+    return { commentId: created.id }
+  }
+
+  async getPullRequestFiles(
+    owner: string,
+    repo: string,
+    prNumber: number
+  ): Promise<Array<{ filename: string; status: string; additions: number; deletions: number; patch?: string }>> {
+    const stats = await this.paginate<BitbucketDiffStat>(`${this.repoPath(owner, repo)}/pullrequests/${prNumber}/diffstat`)
+    return stats.map((s) => ({
+      filename: s.new?.path ?? s.old?.path ?? "",
+      status: s.status,
+      additions: s.lines_added,
+      deletions: s.lines_removed,
+    }))
+  }
+
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    opts: { name: string; headSha: string; status: "in_progress" }
+  ): Promise<{ checkRunId: number }> {
+    const key = checkKey(opts.name)
+    await this.request("POST", `${this.repoPath(owner, repo)}/commit/${opts.headSha}/statuses/build`, {
+      key,
+      state: "INPROGRESS",
+      name: opts.name,
+      url: this.appUrl,
+    })
+    const checkRunId = this.nextCheckId++
+    this.checks.set(checkRunId, { owner, repo, sha: opts.headSha, key, name: opts.name })
+    return { checkRunId }
+  }
+
+  /**
+   * Publish the findings as a Code Insights report (shown on the PR's diff)
+   * and complete the build status.
+   */
+  async updateCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    opts: {
+      status: "completed"
+      conclusion: "success" | "failure" | "neutral"
+      output: {
+        title: string
+        summary: string
+        annotations: Array<{
+          path: string; start_line: number; end_line: number
+          annotation_level: "notice" | "warning" | "failure"
+          message: string; title: string; raw_details: string
+        }>
+      }
+    }
+  ): Promise<void> {
+    const check = this.checks.get(checkRunId)
+    if (!check) {
+      throw new BitbucketApiError(`Unknown check ${checkRunId} for ${owner}/${repo} — createCheckRun must run in the same process`, 404)
+    }
+    const commitPath = `${this.repoPath(check.owner, check.repo)}/commit/${check.sha}`
+    const failed = opts.conclusion === "failure"
+
+    await this.request("PUT", `${commitPath}/reports/${check.key}`, {
+      title: check.name,
+      details: `${opts.output.title}\n\n${opts.output.summary}`.slice(0, MAX_REPORT_DETAILS),
+      report_type: "BUG",
+      reporter: "unerr",
+      link: this.appUrl,
+      result: failed ? "FAILED" : "PASSED",
+    })
+
+    const annotations = opts.output.annotations.slice(0, MAX_ANNOTATIONS).map((a, i) => ({
+      external_id: `${check.key}-${i + 1}`,
+      annotation_type: "BUG",
+      path: a.path,
+      line: a.start_line,
+      summary: `${a.title}: ${a.message}`.slice(0, MAX_ANNOTATION_SUMMARY),
+      details: a.raw_details,
+      severity: a.annotation_level === "failure" ? "HIGH" : a.annotation_level === "warning" ? "MEDIUM" : "LOW",
+    }))
+    for (let i = 0; i < annotations.length; i += ANNOTATION_BATCH) {
+      await this.request("POST", `${commitPath}/reports/${check.key}/annotations`, annotations.slice(i, i + ANNOTATION_BATCH))
+    }
+
+    await this.request("POST", `${commitPath}/statuses/build`, {
+      key: check.key,
+      state: failed ? "FAILED" : "SUCCESSFUL",
+      name: check.name,
+      url: this.appUrl,
+      description: opts.output.title.slice(0, MAX_STATUS_DESCRIPTION),
+    })
+    this.checks.delete(checkRunId)
+  }
+
+  async postIssueComment(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    // Callers comment on pull requests, so issueNumber is a PR ID
+    const created = await this.request<{ id: number }>(
+      "POST",
+      `${this.repoPath(owner, repo)}/pullrequests/${issueNumber}/comments`,
+      { content: { raw: body } }
+    )
+    return { commentId: created.id }
+  }
+
+  /** Workspace permission listing for the repo, matched on the user's nickname. */
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<RepoPermission> {
+    const query = new URLSearchParams({ q: `user.nickname="${username.replace(/"/g, "")}"` })
+    const grants = await this.paginate<{ permission: string; user: { nickname?: string } }>(
+      `/workspaces/${encodeURIComponent(owner)}/permissions/repositories/${encodeURIComponent(repo)}?${query.toString()}`
+    )
+    const permission = grants.find((g) => g.user.nickname?.toLowerCase() === username.toLowerCase())?.permission
+    return permission === "admin" || permission === "write" || permission === "read" ? permission : "none"
+  }
+
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    const created = await this.request<{ id: number }>(
+      "POST",
+      `${this.repoPath(owner, repo)}/pullrequests/${prNumber}/comments`,
+      { content: { raw: body }, parent: { id: commentId } }
+    )
+    return { commentId: created.id }
+  }
+
+  async createBranch(owner: string, repo: string, branchName: string, fromSha: string): Promise<void> {
+    await this.request("POST", `${this.repoPath(owner, repo)}/refs/branches`, {
+      name: branchName,
+      target: { hash: fromSha },
+    })
+  }
+
+  /** The src endpoint takes a multipart commit; returns the new commit SHA. */
+  async createOrUpdateFile(
+    owner: string,
+    repo: string,
+    branch: string,
+    path: string,
+    content: string,
+    opts: { message: string }
+  ): Promise<{ sha: string }> {
+    const form = new FormData()
+    form.set(path, content)
+    form.set("message", opts.message)
+    form.set("branch", branch)
+    await this.send("POST", `${this.repoPath(owner, repo)}/src`, form)
+    return { sha: await this.getLatestSha(owner, repo, branch) }
+  }
+  async uploadSarif(): Promise<{ id: string }> {
+    throw new NotImplementedError("IGitHost.uploadSarif: Bitbucket has no code scanning upload API — download SARIF from the review instead")
+  }
+
+
+  // ── HTTP ──────────────────────────────────────────────────────
+
+  private repoPath(owner: string, repo: string): string {
+    return `/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+  }
+
+  /**
+   * Make a request to the Bitbucket REST API with proper auth and error handling.
+   */
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body)
+    if (response.status === 204) return undefined as T
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+
+  /** Follow the `next` link until exhausted. */
+  private async paginate<T>(path: string): Promise<T[]> {
+    const results: T[] = []
+    const sep = path.includes("?") ? "&" : "?"
+    let next: string | undefined = `${path}${sep}pagelen=${PAGE_LEN}`
+    while (next) {
+      const page: Page<T> = await this.request<Page<T>>("GET", next)
+      results.push(...page.values)
+      next = page.next?.replace(this.apiUrl, "")
+    }
+    return results
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<Response> {
+    const url = `${this.apiUrl}${path}`
+    const headers: Record<string, string> = {}
+    if (this.token) headers.Authorization = bitbucketAuthHeader(this.token, this.username)
+    if (body !== undefined && !(body instanceof FormData)) headers["Content-Type"] = "application/json"
+
+    const response = await this.fetchFn(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : body instanceof FormData ? body : JSON.stringify(body),
+      signal: AbortSignal.timeout(BITBUCKET_API_TIMEOUT_MS),
+    })
+
+    if (response.status === 401 || response.status === 403) {
+      throw new BitbucketAuthError(url)
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "")
+      throw new BitbucketApiError(`${method} ${path} failed: ${response.status} ${response.statusText} ${text}`.trim(), response.status)
+    }
+    return response
+  }
+}
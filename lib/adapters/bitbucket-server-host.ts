@@ -0,0 +1,557 @@
+/**
+ * BitbucketServerHost — IGitHost implementation for Bitbucket Server / Data
+ * Center (REST API 1.0). Bitbucket Cloud lives in ./bitbucket-host.
+ *
+ * Mapping onto the GitHub-shaped port:
+ *   - owner/repo → project key/repo slug
+ *   - review → PR comments (summary + anchored inline), plus the reviewer
+ *     status (APPROVED / NEEDS_WORK) when BITBUCKET_USERNAME is set
+ *   - check runs → a build status and a Code Insights report carrying the annotations
+ *   - installations → a single HTTP access token; installationId is ignored
+ *
+ * Local clone operations (pull, diff, blame, history) share ./local-git with GitHubHost.
+ */
+
+import type { CreatePRParams, FileCommit, FileEntry, GitHubRepo, IGitHost, PullRequest, RepoPermission } from "@/lib/ports/git-host"
+import type { ChangedFile } from "@/lib/ports/types"
+import { BitbucketApiError, BitbucketAuthError, bitbucketAuthHeader, bitbucketCloneUrl } from "./bitbucket-host"
+import { NotImplementedError } from "./errors"
+import * as localGit from "./local-git"
+
+/** Timeout for Bitbucket HTTP API calls (30 seconds) */
+const BITBUCKET_API_TIMEOUT_MS = 30_000
+/** Page size for paged REST resources */
+const PAGE_LIMIT = 100
+/** Code Insights limits: 1000 annotations per report, 2000 chars of details */
+const ANNOTATION_BATCH = 100
+const MAX_ANNOTATIONS = 1000
+const MAX_REPORT_DETAILS = 2000
+const MAX_STATUS_DESCRIPTION = 255
+
+// ─── API shapes (subset of Bitbucket Server REST 1.0) ────────────────────────
+
+interface ServerRef {
+  id: string
+  displayId: string
+  latestCommit: string
+}
+
+interface ServerPullRequest {
+  id: number
+  title: string
+  description?: string
+  state: "OPEN" | "MERGED" | "DECLINED"
+  draft?: boolean
+  fromRef: ServerRef
+  toRef: ServerRef
+  links: { self: Array<{ href: string }> }
+}
+
+interface ServerChange {
+  type: "ADD" | "MODIFY" | "DELETE" | "MOVE" | "COPY"
+  path: { toString: string }
+}
+
+interface ServerRepository {
+  id: number
+  slug: string
+  public?: boolean
+  project: { key: string }
+}
+
+interface PagedResponse<T> {
+  values: T[]
+  isLastPage: boolean
+  nextPageStart?: number
+}
+
+export interface BitbucketServerHostOptions {
+  /** Instance URL, e.g. https://bitbucket.example.com (default: BITBUCKET_URL) */
+  baseUrl?: string
+  /** HTTP access token or password (default: BITBUCKET_TOKEN) */
+  token?: string
+  /** User slug for Basic auth and reviewer status (default: BITBUCKET_USERNAME) */
+  username?: string
+  /** Link target for build statuses (default: NEXT_PUBLIC_APP_URL) */
+  appUrl?: string
+  /** Injected for tests (recorded-fixture fake of the Bitbucket API) */
+  fetch?: typeof fetch
+}
+
+const CHANGE_STATUS: Record<ServerChange["type"], string> = {
+  ADD: "added",
+  MODIFY: "modified",
+  DELETE: "removed",
+  MOVE: "renamed",
+  COPY: "added",
+}
+
+/** Build status / report keys are limited to [A-Za-z0-9._-]. */
+function checkKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^-|-$/g, "") || "unerr"
+}
+
+function mapPullRequest(pr: ServerPullRequest): PullRequest {
+  return {
+    number: pr.id,
+    title: pr.title,
+    headSha: pr.fromRef.latestCommit,
+    baseSha: pr.toRef.latestCommit,
+    htmlUrl: pr.links.self[0]?.href,
+    body: pr.description,
+    draft: pr.draft ?? false,
+    merged: pr.state === "MERGED",
+    state: pr.state === "OPEN" ? "open" : "closed",
+    sourceBranch: pr.fromRef.displayId,
+    targetBranch: pr.toRef.displayId,
+  }
+}
+
+export class BitbucketServerHost implements IGitHost {
+  private readonly baseUrl: string
+  private readonly token: string | undefined
+  private readonly username: string | undefined
+  private readonly appUrl: string
+  private readonly fetchFn: typeof fetch
+  /** Build statuses and reports are addressed by commit + key, not ID (see BitbucketHost). */
+  private readonly checks = new Map<number, { owner: string; repo: string; sha: string; key: string; name: string }>()
+  private nextCheckId = 1
+
+  constructor(options: BitbucketServerHostOptions = {}) {
+    const baseUrl = options.baseUrl ?? process.env.BITBUCKET_URL
+    if (!baseUrl) throw new BitbucketApiError("BITBUCKET_URL is required for Bitbucket Server", 0)
+    this.baseUrl = baseUrl.replace(/\/$/, "")
+    this.token = options.token ?? process.env.BITBUCKET_TOKEN
+    this.username = options.username ?? process.env.BITBUCKET_USERNAME
+    this.appUrl = options.appUrl ?? process.env.NEXT_PUBLIC_APP_URL ?? "https://app.unerr.dev"
+    this.fetchFn = options.fetch ?? fetch
+  }
+
+  async cloneRepo(url: string, destination: string, options?: { ref?: string }): Promise<void> {
+    const cloneUrl = this.token ? bitbucketCloneUrl(url, this.token, this.username) : url
+    await localGit.cloneOrPull(cloneUrl, destination, options?.ref)
+  }
+
+  async getPullRequest(owner: string, repo: string, prNumber: number): Promise<PullRequest> {
+    const pr = await this.request<ServerPullRequest>("GET", `${this.repoPath(owner, repo)}/pull-requests/${prNumber}`)
+    return mapPullRequest(pr)
+  }
+
+  async createPullRequest(owner: string, repo: string, params: CreatePRParams): Promise<PullRequest> {
+    const pr = await this.request<ServerPullRequest>("POST", `${this.repoPath(owner, repo)}/pull-requests`, {
+      title: params.title,
+      description: params.body,
+      fromRef: { id: `refs/heads/${params.head}` },
+      toRef: { id: `refs/heads/${params.base}` },
+    })
+    return mapPullRequest(pr)
+  }
+
+  async getDiff(owner: string, repo: string, base: string, head: string): Promise<string> {
+    const query = new URLSearchParams({ since: base, until: head })
+    const response = await this.send("GET", `${this.repoPath(owner, repo)}/diff?${query.toString()}`, undefined, "text/plain")
+    return response.text()
+  }
+
+  async listFiles(owner: string, repo: string, ref?: string): Promise<FileEntry[]> {
+    const query = ref ? `?at=${encodeURIComponent(ref)}` : ""
+    const paths = await this.paginate<string>(`${this.repoPath(owner, repo)}/files${query}`)
+    return paths.map((path) => ({ path, type: "file" }))
+  }
+
+  async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+    const query = new URLSearchParams({ at: ref })
+    try {
+      const response = await this.send("GET", `${this.repoPath(owner, repo)}/raw/${path.split("/").map(encodeURIComponent).join("/")}?${query.toString()}`, undefined, "text/plain")
+      return await response.text()
+    } catch (error: unknown) {
+      if (error instanceof BitbucketApiError && error.statusCode === 404) return null
+      throw error
+    }
+  }
+
+  /** The files API lists names relative to the directory — prefixed back to repo-root paths. */
+  async listDirectory(owner: string, repo: string, path: string, ref: string): Promise<FileEntry[]> {
+    const query = new URLSearchParams({ at: ref })
+    try {
+      const names = await this.paginate<string>(`${this.repoPath(owner, repo)}/files/${path.split("/").map(encodeURIComponent).join("/")}?${query.toString()}`)
+      return names.filter((name) => !name.includes("/")).map((name) => ({ path: `${path}/${name}`, type: "file" }))
+    } catch (error: unknown) {
+      if (error instanceof BitbucketApiError && error.statusCode === 404) return []
+      throw error
+    }
+  }
+
+  async createWebhook(owner: string, repo: string, events: string[], url: string): Promise<void> {
+    const serverEvents: string[] = []
+    if (events.includes("push")) serverEvents.push("repo:refs_changed")
+    if (events.includes("pull_request")) {
+      serverEvents.push("pr:opened", "pr:from_ref_updated", "pr:merged", "pr:declined")
+    }
+    await this.request("POST", `${this.repoPath(owner, repo)}/webhooks`, {
+      name: "unerr",
+      url,
+      active: true,
+      events: serverEvents,
+      configuration: { secret: process.env.BITBUCKET_WEBHOOK_SECRET },
+    })
+  }
+
+  /** No App installations — lists repos the token can write to. */
+  async getInstallationRepos(): Promise<GitHubRepo[]> {
+    const repos = await this.paginate<ServerRepository>("/rest/api/1.0/repos?permission=REPO_WRITE")
+    const result: GitHubRepo[] = []
+    for (const r of repos) {
+      const defaultBranch = await this.request<{ displayId: string }>("GET", `${this.repoPath(r.project.key, r.slug)}/branches/default`)
+        .then((b) => b.displayId, () => "main")
+      result.push({
+        id: r.id,
+        fullName: `${r.project.key}/${r.slug}`,
+        defaultBranch,
+        language: null,
+        private: !r.public,
+      })
+    }
+    return result
+  }
+
+  async getInstallationToken(): Promise<string> {
+    if (!this.token) throw new BitbucketAuthError(this.baseUrl)
+    return this.token
+  }
+
+  async listBranches(owner: string, repo: string): Promise<string[]> {
+    const branches = await this.paginate<{ displayId: string }>(`${this.repoPath(owner, repo)}/branches`)
+    return branches.map((b) => b.displayId)
+  }
+
+  // ── Incremental Indexing ──────────────────────────────────────
+
+  async pullLatest(workspacePath: string, branch: string): Promise<void> {
+    await localGit.pullLatest(workspacePath, branch)
+  }
+
+  async diffFiles(workspacePath: string, fromSha: string, toSha: string): Promise<ChangedFile[]> {
+    return localGit.diffFiles(workspacePath, fromSha, toSha)
+  }
+
+  async getLatestSha(owner: string, repo: string, branch: string): Promise<string> {
+    const commit = await this.request<{ id: string }>(
+      "GET",
+      `${this.repoPath(owner, repo)}/commits/${encodeURIComponent(`refs/heads/${branch}`)}`
+    )
+    return commit.id
+  }
+
+  async blame(workspacePath: string, filePath: string, line: number): Promise<string | null> {
+    return localGit.blame(workspacePath, filePath, line)
+  }
+
+  async listFileCommits(owner: string, repo: string, path: string, opts: { ref?: string; limit: number }): Promise<FileCommit[]> {
+    const query = new URLSearchParams({ path, limit: String(Math.min(opts.limit, PAGE_LIMIT)) })
+    if (opts.ref) query.set("until", opts.ref)
+    const page = await this.request<PagedResponse<{ id: string; message: string; authorTimestamp: number; author: { name: string; displayName?: string } }>>(
+      "GET",
+      `${this.repoPath(owner, repo)}/commits?${query.toString()}`
+    )
+    return page.values.slice(0, opts.limit).map((c) => {
+      const [subject = "", ...body] = c.message.split("\n")
+      return {
+        sha: c.id,
+        subject,
+        body: body.join("\n").trim(),
+        author: c.author.displayName ?? c.author.name,
+        date: new Date(c.authorTimestamp).toISOString(),
+      }
+    })
+  }
+
+  async getFileGitHistory(
+    workspacePath: string,
+    filePath: string,
+    maxCommits = 20,
+    range?: { startLine: number; endLine: number }
+  ): Promise<FileCommit[]> {
+    return localGit.getFileGitHistory(workspacePath, filePath, maxCommits, range)
+  }
+
+  // ── Pull Request Review Integration ───────────────────────────
+
+  /**
+   * Post the review summary as a PR comment and each inline comment anchored
+   * to an added line. The reviewer status needs the user slug, so APPROVE /
+   * REQUEST_CHANGES only change it when BITBUCKET_USERNAME is configured.
+   */
+  async postReview(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    review: {
+      event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT"
+      body: string
+      comments?: Array<{ path: string; line: number; startLine?: number; body: string }>
+    }
+  ): Promise<{ reviewId: number; commentIds: Array<number | null> }> {
+    const base = `${this.repoPath(owner, repo)}/pull-requests/${prNumber}`
+    const summary = await this.request<{ id: number }>("POST", `${base}/comments`, { text: review.body })
+
+    const commentIds: Array<number | null> = []
+    for (const comment of review.comments ?? []) {
+      // No suggestion support — anchor multi-line fixes at their first line, next to the code they replace
+      const created = await this.postAnchoredComment(base, { ...comment, line: comment.startLine ?? comment.line })
+      commentIds.push(created?.id ?? null)
+    }
+
+    if (review.event !== "COMMENT" && this.username) {
+      const status = review.event === "APPROVE" ? "APPROVED" : "NEEDS_WORK"
+      await this.request("PUT", `${base}/participants/${encodeURIComponent(this.username)}`, { status }).catch(() => {
+        // PR authors cannot review their own PR — the comments are posted either way
+      })
+    }
+
+    return { reviewId: summary.id, commentIds }
+  }
+
+  async postReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    comment: { path: string; line: number; body: string; commitId: string }
+  ): Promise<{ commentId: number }> {
+    const created = await this.postAnchoredComment(`${this.repoPath(owner, repo)}/pull-requests/${prNumber}`, comment)
+    return { commentId: created.id }
+  }
+
+  async getPullRequestFiles(
+    owner: string,
+    repo: string,
+    prNumber: number
+  ): Promise<Array<{ filename: string; status: string; additions: number; deletions: number; patch?: string }>> {
+    // The changes resource carries no line counts
+    const changes = await this.paginate<ServerChange>(`${this.repoPath(owner, repo)}/pull-requests/${prNumber}/changes`)
+    return changes.map((c) => ({
+      filename: c.path.toString,
+      status: CHANGE_STATUS[c.type],
+      additions: 0,
+      deletions: 0,
+    }))
+  }
+
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    opts: { name: string; headSha: string; status: "in_progress" }
+  ): Promise<{ checkRunId: number }> {
+    const key = checkKey(opts.name)
+    await this.request("POST", `/rest/build-status/1.0/commits/${opts.headSha}`, {
+      key,
+      state: "INPROGRESS",
+      name: opts.name,
+      url: this.appUrl,
+    })
+    const checkRunId = this.nextCheckId++
+    this.checks.set(checkRunId, { owner, repo, sha: opts.headSha, key, name: opts.name })
+    return { checkRunId }
+  }
+
+  /**
+   * Publish the findings as a Code Insights report and complete the build status.
+   */
+  async updateCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    opts: {
+      status: "completed"
+      conclusion: "success" | "failure" | "neutral"
+      output: {
+        title: string
+        summary: string
+        annotations: Array<{
+          path: string; start_line: number; end_line: number
+          annotation_level: "notice" | "warning" | "failure"
+          message: string; title: string; raw_details: string
+        }>
+      }
+    }
+  ): Promise<void> {
+    const check = this.checks.get(checkRunId)
+    if (!check) {
+      throw new BitbucketApiError(`Unknown check ${checkRunId} for ${owner}/${repo} — createCheckRun must run in the same process`, 404)
+    }
+    const reportPath = `/rest/insights/1.0/projects/${encodeURIComponent(check.owner)}/repos/${encodeURIComponent(check.repo)}/commits/${check.sha}/reports/${check.key}`
+    const failed = opts.conclusion === "failure"
+
+    await this.request("PUT", reportPath, {
+      title: check.name,
+      details: `${opts.output.title}\n\n${opts.output.summary}`.slice(0, MAX_REPORT_DETAILS),
+      reporter: "unerr",
+      link: this.appUrl,
+      result: failed ? "FAIL" : "PASS",
+    })
+
+    const annotations = opts.output.annotations.slice(0, MAX_ANNOTATIONS).map((a, i) => ({
+      externalId: `${check.key}-${i + 1}`,
+      type: "BUG",
+      path: a.path,
+      line: a.start_line,
+      message: `${a.title}: ${a.message}`,
+      severity: a.annotation_level === "failure" ? "HIGH" : a.annotation_level === "warning" ? "MEDIUM" : "LOW",
+    }))
+    for (let i = 0; i < annotations.length; i += ANNOTATION_BATCH) {
+      await this.request("POST", `${reportPath}/annotations`, { annotations: annotations.slice(i, i + ANNOTATION_BATCH) })
+    }
+
+    await this.request("POST", `/rest/build-status/1.0/commits/${check.sha}`, {
+      key: check.key,
+      state: failed ? "FAILED" : "SUCCESSFUL",
+      name: check.name,
+      url: this.appUrl,
+      description: opts.output.title.slice(0, MAX_STATUS_DESCRIPTION),
+    })
+    this.checks.delete(checkRunId)
+  }
+
+  async postIssueComment(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    // Callers comment on pull requests, so issueNumber is a PR ID
+    const created = await this.request<{ id: number }>(
+      "POST",
+      `${this.repoPath(owner, repo)}/pull-requests/${issueNumber}/comments`,
+      { text: body }
+    )
+    return { commentId: created.id }
+  }
+
+  /** Repository grants first, then the project's — whichever is higher. */
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<RepoPermission> {
+    const filter = `?filter=${encodeURIComponent(username)}`
+    const grants = [
+      ...await this.paginate<{ permission: string; user: { name: string } }>(`${this.repoPath(owner, repo)}/permissions/users${filter}`),
+      ...await this.paginate<{ permission: string; user: { name: string } }>(`/rest/api/1.0/projects/${encodeURIComponent(owner)}/permissions/users${filter}`),
+    ].filter((g) => g.user.name.toLowerCase() === username.toLowerCase())
+    if (grants.some((g) => g.permission.endsWith("_ADMIN"))) return "admin"
+    if (grants.some((g) => g.permission.endsWith("_WRITE"))) return "write"
+    return grants.length > 0 ? "read" : "none"
+  }
+
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    const created = await this.request<{ id: number }>(
+      "POST",
+      `${this.repoPath(owner, repo)}/pull-requests/${prNumber}/comments`,
+      { text: body, parent: { id: commentId } }
+    )
+    return { commentId: created.id }
+  }
+
+  async createBranch(owner: string, repo: string, branchName: string, fromSha: string): Promise<void> {
+    await this.request("POST", `${this.repoPath(owner, repo)}/branches`, {
+      name: branchName,
+      startPoint: fromSha,
+    })
+  }
+
+  /** Edits need the last commit that touched the file as `sourceCommitId`; returns the new commit SHA. */
+  async createOrUpdateFile(
+    owner: string,
+    repo: string,
+    branch: string,
+    path: string,
+    content: string,
+    opts: { message: string }
+  ): Promise<{ sha: string }> {
+    const query = new URLSearchParams({ path, until: `refs/heads/${branch}`, limit: "1" })
+    const history = await this.request<PagedResponse<{ id: string }>>("GET", `${this.repoPath(owner, repo)}/commits?${query.toString()}`)
+      .catch(() => null)
+
+    const form = new FormData()
+    form.set("content", content)
+    form.set("message", opts.message)
+    form.set("branch", branch)
+    const sourceCommitId = history?.values[0]?.id
+    if (sourceCommitId) form.set("sourceCommitId", sourceCommitId)
+
+    const encodedPath = path.split("/").map(encodeURIComponent).join("/")
+    const commit = await this.request<{ id: string }>("PUT", `${this.repoPath(owner, repo)}/browse/${encodedPath}`, form)
+    return { sha: commit.id }
+  }
+  async uploadSarif(): Promise<{ id: string }> {
+    throw new NotImplementedError("IGitHost.uploadSarif: Bitbucket Server has no code scanning upload API — download SARIF from the review instead")
+  }
+
+
+  // ── HTTP ──────────────────────────────────────────────────────
+
+  private repoPath(owner: string, repo: string): string {
+    return `/rest/api/1.0/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`
+  }
+
+  private async postAnchoredComment(
+    prPath: string,
+    comment: { path: string; line: number; body: string }
+  ): Promise<{ id: number }> {
+    return this.request("POST", `${prPath}/comments`, {
+      text: comment.body,
+      anchor: { path: comment.path, line: comment.line, lineType: "ADDED", fileType: "TO", diffType: "EFFECTIVE" },
+    })
+  }
+
+  /**
+   * Make a request to the Bitbucket REST API with proper auth and error handling.
+   */
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body)
+    if (response.status === 204) return undefined as T
+    const text = await response.text()
+    return (text ? JSON.parse(text) : undefined) as T
+  }
+
+  /** Follow `nextPageStart` until `isLastPage`. */
+  private async paginate<T>(path: string): Promise<T[]> {
+    const results: T[] = []
+    const sep = path.includes("?") ? "&" : "?"
+    let start = 0
+    for (;;) {
+      const page = await this.request<PagedResponse<T>>("GET", `${path}${sep}start=${start}&limit=${PAGE_LIMIT}`)
+      results.push(...page.values)
+      if (page.isLastPage || page.nextPageStart === undefined) break
+      start = page.nextPageStart
+    }
+    return results
+  }
+
+  private async send(method: string, path: string, body?: unknown, accept = "application/json"): Promise<Response> {
+    const url = `${this.baseUrl}${path}`
+    const headers: Record<string, string> = { Accept: accept }
+    if (this.token) headers.Authorization = bitbucketAuthHeader(this.token, this.username)
+    if (body !== undefined && !(body instanceof FormData)) headers["Content-Type"] = "application/json"
+    // File edits are rejected by the XSRF check without this header
+    if (body instanceof FormData) headers["X-Atlassian-Token"] = "no-check"
+
+    const response = await this.fetchFn(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : body instanceof FormData ? body : JSON.stringify(body),
+      signal: AbortSignal.timeout(BITBUCKET_API_TIMEOUT_MS),
+    })
+
+    if (response.status === 401 || response.status === 403) {
+      throw new BitbucketAuthError(url)
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "")
+      throw new BitbucketApiError(`${method} ${path} failed: ${response.status} ${response.statusText} ${text}`.trim(), response.status)
+    }
+    return response
+  }
+}
@@ -3,15 +3,12 @@
  * Phase 1: cloneRepo, listFiles, getInstallationRepos, getInstallationToken; createWebhook no-op for App-level.
  */
 
+import { gzipSync } from "node:zlib"
 import { getInstallationOctokit, getInstallationToken as getToken } from "@/lib/github/client"
-import type { FileEntry, GitHubRepo, IGitHost } from "@/lib/ports/git-host"
+import type { CreatePRParams, FileCommit, FileEntry, GitHubRepo, IGitHost, PullRequest, RepoPermission } from "@/lib/ports/git-host"
 import type { ChangedFile } from "@/lib/ports/types"
 import { NotImplementedError } from "./errors"
-
-function getSimpleGit(): typeof import("simple-git").default {
-  const sg = require("simple-git") as typeof import("simple-git")
-  return sg.default ?? sg
-}
+import * as localGit from "./local-git"
 
 export class GitHubHost implements IGitHost {
   async cloneRepo(url: string, destination: string, options?: { ref?: string; installationId?: number }): Promise<void> {
@@ -21,35 +18,28 @@ export class GitHubHost implements IGitHost {
       const token = await getToken(installationId)
       cloneUrl = url.replace(/^https:\/\//, `https://x-access-token:${token}@`)
     }
-    const fs = require("node:fs") as typeof import("node:fs")
-    const path = require("node:path") as typeof import("node:path")
-    const parent = path.dirname(destination)
-    if (!fs.existsSync(parent)) fs.mkdirSync(parent, { recursive: true })
-    const simpleGit = getSimpleGit()
-    const git = simpleGit()
-    if (fs.existsSync(destination)) {
-      const repoGit = git.cwd(destination)
-      // Update remote URL with a fresh token (the original token has expired)
-      await repoGit.remote(["set-url", "origin", cloneUrl])
-      await repoGit.pull()
-      if (options?.ref) await repoGit.checkout(options.ref)
-      return
-    }
-    // K-02: Shallow clone — only the latest commit on the target branch.
-    // Pipeline never reads git history during indexing (TBI-I-02 is a separate feature).
-    const cloneOpts = ["--depth", "1", "--single-branch"]
-    if (options?.ref) {
-      cloneOpts.push("--branch", options.ref)
-    }
-    await git.clone(cloneUrl, destination, cloneOpts)
+    await localGit.cloneOrPull(cloneUrl, destination, options?.ref)
   }
 
-  async getPullRequest(): Promise<never> {
-    throw new NotImplementedError("IGitHost.getPullRequest not implemented in Phase 1")
+  async getPullRequest(owner: string, repo: string, prNumber: number): Promise<PullRequest> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: prNumber })
+    return mapPullRequest(data)
   }
 
-  async createPullRequest(): Promise<never> {
-    throw new NotImplementedError("IGitHost.createPullRequest not implemented in Phase 1")
+  async createPullRequest(owner: string, repo: string, params: CreatePRParams): Promise<PullRequest> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    const { data } = await octokit.rest.pulls.create({
+      owner,
+      repo,
+      title: params.title,
+      body: params.body,
+      head: params.head,
+      base: params.base,
+    })
+    return mapPullRequest(data)
   }
 
   async getDiff(): Promise<string> {
@@ -78,6 +68,32 @@ export class GitHubHost implements IGitHost {
     return []
   }
 
+  async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    try {
+      const { data } = await octokit.rest.repos.getContent({ owner, repo, path, ref })
+      if (Array.isArray(data) || data.type !== "file" || !("content" in data)) return null
+      return Buffer.from(data.content, "base64").toString("utf-8")
+    } catch (error: unknown) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  async listDirectory(owner: string, repo: string, path: string, ref: string): Promise<FileEntry[]> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    try {
+      const { data } = await octokit.rest.repos.getContent({ owner, repo, path, ref })
+      if (!Array.isArray(data)) return []
+      return data.map((f) => ({ path: f.path, type: f.type === "dir" ? "dir" : "file", size: f.size }))
+    } catch (error: unknown) {
+      if (isNotFound(error)) return []
+      throw error
+    }
+  }
+
   async createWebhook(): Promise<void> {
     // GitHub App webhooks are configured at App level; per-repo webhooks not needed for Phase 1
     return
@@ -129,53 +145,11 @@ export class GitHubHost implements IGitHost {
   // ── Phase 5: Incremental Indexing ──────────────────────────────
 
   async pullLatest(workspacePath: string, branch: string): Promise<void> {
-    const simpleGit = getSimpleGit()
-    const git = simpleGit(workspacePath)
-    // K-02: If the repo is a shallow clone, deepen enough for git diff to work
-    const isShallow = await git.raw(["rev-parse", "--is-shallow-repository"]).then((r) => r.trim() === "true").catch(() => false)
-    if (isShallow) {
-      await git.fetch(["--deepen", "1", "origin", branch])
-    } else {
-      await git.fetch("origin", branch)
-    }
-    await git.checkout(branch)
-    await git.pull("origin", branch)
+    await localGit.pullLatest(workspacePath, branch)
   }
 
   async diffFiles(workspacePath: string, fromSha: string, toSha: string): Promise<ChangedFile[]> {
-    const { execFile } = require("node:child_process") as typeof import("node:child_process")
-    const { promisify } = require("node:util") as typeof import("node:util")
-    const execFileAsync = promisify(execFile)
-
-    const { stdout } = await execFileAsync(
-      "git",
-      ["diff", "--name-status", fromSha, toSha],
-      { cwd: workspacePath, maxBuffer: 10 * 1024 * 1024 }
-    )
-
-    const changes: ChangedFile[] = []
-    for (const line of stdout.trim().split("\n")) {
-      if (!line) continue
-      const parts = line.split("\t")
-      const status = parts[0]
-      const filePath = parts[1]
-      if (!status || !filePath) continue
-
-      let changeType: ChangedFile["changeType"]
-      if (status.startsWith("A")) changeType = "added"
-      else if (status.startsWith("D")) changeType = "removed"
-      else changeType = "modified" // M, R, C, T, etc.
-
-      // For renames (R###), the new path is parts[2]
-      const path = status.startsWith("R") && parts[2] ? parts[2] : filePath
-      changes.push({ path, changeType })
-
-      // Also track the old path of renames as "removed"
-      if (status.startsWith("R") && parts[2]) {
-        changes.push({ path: filePath, changeType: "removed" })
-      }
-    }
-    return changes
+    return localGit.diffFiles(workspacePath, fromSha, toSha)
   }
 
   async getLatestSha(owner: string, repo: string, branch: string, installationId: number): Promise<string> {
@@ -185,65 +159,28 @@ export class GitHubHost implements IGitHost {
   }
 
   async blame(workspacePath: string, filePath: string, line: number): Promise<string | null> {
-    const { execFile } = require("node:child_process") as typeof import("node:child_process")
-    const { promisify } = require("node:util") as typeof import("node:util")
-    const execFileAsync = promisify(execFile)
-
-    try {
-      const { stdout } = await execFileAsync(
-        "git",
-        ["blame", "-L", `${line},${line}`, "--porcelain", filePath],
-        { cwd: workspacePath }
-      )
-      // Parse porcelain blame for author
-      const authorMatch = stdout.match(/^author (.+)$/m)
-      return authorMatch?.[1] ?? null
-    } catch {
-      return null
-    }
+    return localGit.blame(workspacePath, filePath, line)
   }
 
   // ── I-02: Historical context for justification ───────────────────
 
+  async listFileCommits(owner: string, repo: string, path: string, opts: { ref?: string; limit: number }): Promise<FileCommit[]> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    const { data } = await octokit.rest.repos.listCommits({ owner, repo, path, sha: opts.ref, per_page: Math.min(opts.limit, 100) })
+    return data.map((c) => {
+      const [subject = "", ...body] = c.commit.message.split("\n")
+      return { sha: c.sha, subject, body: body.join("\n").trim(), author: c.commit.author?.name, date: c.commit.author?.date }
+    })
+  }
+
   async getFileGitHistory(
     workspacePath: string,
     filePath: string,
-    maxCommits = 20
-  ): Promise<Array<{ sha: string; subject: string; body: string }>> {
-    const { execFile } = require("node:child_process") as typeof import("node:child_process")
-    const { promisify } = require("node:util") as typeof import("node:util")
-    const execFileAsync = promisify(execFile)
-
-    try {
-      const SEPARATOR = "---GIT-LOG-SEP---"
-      const FIELD_SEP = "---FIELD---"
-      const { stdout } = await execFileAsync(
-        "git",
-        [
-          "log",
-          "--follow",
-          `--format=${SEPARATOR}%H${FIELD_SEP}%s${FIELD_SEP}%b`,
-          `-n`, String(maxCommits),
-          "--",
-          filePath,
-        ],
-        { cwd: workspacePath, maxBuffer: 512 * 1024 }
-      )
-
-      const entries: Array<{ sha: string; subject: string; body: string }> = []
-      for (const block of stdout.split(SEPARATOR)) {
-        const trimmed = block.trim()
-        if (!trimmed) continue
-        const parts = trimmed.split(FIELD_SEP)
-        const sha = parts[0]?.trim() ?? ""
-        const subject = parts[1]?.trim() ?? ""
-        const body = parts[2]?.trim() ?? ""
-        if (sha) entries.push({ sha, subject, body })
-      }
-      return entries
-    } catch {
-      return []
-    }
+    maxCommits = 20,
+    range?: { startLine: number; endLine: number }
+  ): Promise<FileCommit[]> {
+    return localGit.getFileGitHistory(workspacePath, filePath, maxCommits, range)
   }
 
   // ── Phase 7: PR Review Integration ──────────────────────────────
@@ -255,9 +192,9 @@ export class GitHubHost implements IGitHost {
     review: {
       event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT"
       body: string
-      comments?: Array<{ path: string; line: number; body: string }>
+      comments?: Array<{ path: string; line: number; startLine?: number; body: string }>
     }
-  ): Promise<{ reviewId: number }> {
+  ): Promise<{ reviewId: number; commentIds: Array<number | null> }> {
     // Resolve installation for this owner/repo
     const inst = await this.resolveInstallation(owner, repo)
     const octokit = getInstallationOctokit(inst)
@@ -270,10 +207,20 @@ export class GitHubHost implements IGitHost {
       comments: review.comments?.map((c) => ({
         path: c.path,
         line: c.line,
+        ...(c.startLine != null && c.startLine < c.line ? { start_line: c.startLine, start_side: "RIGHT" as const } : {}),
         body: c.body,
       })),
     })
-    return { reviewId: data.id }
+
+    // The created review carries no comment IDs — read them back, matched on path and body
+    const posted = review.comments && review.comments.length > 0
+      ? await octokit.paginate(octokit.rest.pulls.listCommentsForReview, { owner, repo, pull_number: prNumber, review_id: data.id, per_page: 100 })
+      : []
+    const commentIds = (review.comments ?? []).map((c) => {
+      const index = posted.findIndex((p) => p.path === c.path && p.body === c.body)
+      return index >= 0 ? posted.splice(index, 1)[0]!.id : null
+    })
+    return { reviewId: data.id, commentIds }
   }
 
   async postReviewComment(
@@ -414,6 +361,38 @@ export class GitHubHost implements IGitHost {
     return { commentId: data.id }
   }
 
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<RepoPermission> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    try {
+      // `permission` is the legacy level: maintain reads as write, triage as read
+      const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username })
+      return data.permission === "admin" || data.permission === "write" || data.permission === "read" ? data.permission : "none"
+    } catch (error: unknown) {
+      if (isNotFound(error)) return "none"
+      throw error
+    }
+  }
+
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    const { data } = await octokit.rest.pulls.createReplyForReviewComment({
+      owner,
+      repo,
+      pull_number: prNumber,
+      comment_id: commentId,
+      body,
+    })
+    return { commentId: data.id }
+  }
+
   async createBranch(
     owner: string,
     repo: string,
@@ -462,6 +441,21 @@ export class GitHubHost implements IGitHost {
     return { sha: data.content?.sha ?? "" }
   }
 
+  async uploadSarif(owner: string, repo: string, opts: { commitSha: string; ref: string; sarif: string }): Promise<{ id: string }> {
+    const inst = await this.resolveInstallation(owner, repo)
+    const octokit = getInstallationOctokit(inst)
+    const { data } = await octokit.rest.codeScanning.uploadSarif({
+      owner,
+      repo,
+      commit_sha: opts.commitSha,
+      ref: opts.ref,
+      // Code scanning accepts SARIF gzip-compressed, then base64-encoded
+      sarif: gzipSync(opts.sarif).toString("base64"),
+      tool_name: "unerr",
+    })
+    return { id: data.id ?? "" }
+  }
+
   /** Resolve the installation ID for an owner/repo pair */
   private async resolveInstallation(owner: string, _repo: string): Promise<number> {
     // Look up installation from relational store by owner login
@@ -475,3 +469,33 @@ export class GitHubHost implements IGitHost {
     return data.id
   }
 }
+
+function mapPullRequest(pr: {
+  number: number
+  title: string
+  body?: string | null
+  html_url: string
+  draft?: boolean
+  merged?: boolean
+  state: string
+  head: { sha: string; ref: string }
+  base: { sha: string; ref: string }
+}): PullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    headSha: pr.head.sha,
+    baseSha: pr.base.sha,
+    htmlUrl: pr.html_url,
+    body: pr.body ?? undefined,
+    draft: pr.draft ?? false,
+    merged: pr.merged ?? false,
+    state: pr.state === "open" ? "open" : "closed",
+    sourceBranch: pr.head.ref,
+    targetBranch: pr.base.ref,
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { status?: number }).status === 404
+}
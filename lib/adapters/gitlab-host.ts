@@ -0,0 +1,614 @@
+/**
+ * GitLabHost — IGitHost implementation for gitlab.com and self-managed GitLab (REST API v4).
+ *
+ * Mapping onto the GitHub-shaped port:
+ *   - owner/repo → project path (`group/subgroup` + `project`), URL-encoded as the project ID
+ *   - pull requests → merge requests (prNumber is the MR `iid`)
+ *   - review comments → MR discussions positioned on the diff
+ *   - check runs → commit statuses, which only hold a short description. The summary and
+ *     annotations go to a note on each open MR for the commit instead.
+ *     `neutral` has no GitLab equivalent and is reported as `canceled`, so it never shows as passed
+ *   - installations → a single access token (GITLAB_TOKEN); installationId is ignored
+ *
+ * Local clone operations (pull, diff, blame, history) share ./local-git with GitHubHost.
+ */
+
+import type { ICacheStore } from "@/lib/ports/cache-store"
+import type { CreatePRParams, FileCommit, FileEntry, GitHubRepo, IGitHost, PullRequest, RepoPermission } from "@/lib/ports/git-host"
+import type { ChangedFile } from "@/lib/ports/types"
+import { NotImplementedError } from "./errors"
+import * as localGit from "./local-git"
+
+/** Timeout for GitLab HTTP API calls (30 seconds) */
+const GITLAB_API_TIMEOUT_MS = 30_000
+/** GitLab caps per_page at 100 */
+const PER_PAGE = 100
+/** Commit status descriptions are truncated by GitLab at 255 chars */
+const MAX_STATUS_DESCRIPTION = 255
+/** Annotations listed in a check output note before the rest are counted */
+const MAX_NOTE_ANNOTATIONS = 50
+/** How long a commit status ID stays resolvable to its SHA + name (24 hours) */
+const STATUS_TTL_SECONDS = 86400
+/** Member access levels — developers can push, maintainers administer the project */
+const ACCESS_LEVEL_DEVELOPER = 30
+const ACCESS_LEVEL_MAINTAINER = 40
+
+// ─── Error Types ─────────────────────────────────────────────────────────────
+
+export class GitLabApiError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(`[GitLabHost] ${message}`)
+    this.name = "GitLabApiError"
+  }
+}
+
+export class GitLabAuthError extends Error {
+  constructor(url: string) {
+    super(`[GitLabHost] Authentication failed for ${url} — check GITLAB_TOKEN`)
+    this.name = "GitLabAuthError"
+  }
+}
+
+// ─── API shapes (subset of GitLab REST v4) ───────────────────────────────────
+
+interface GitLabMergeRequest {
+  iid: number
+  title: string
+  description: string | null
+  state: "opened" | "closed" | "merged" | "locked"
+  draft?: boolean
+  work_in_progress?: boolean
+  sha: string
+  web_url: string
+  source_branch: string
+  target_branch: string
+  diff_refs: { base_sha: string; head_sha: string; start_sha: string } | null
+}
+
+interface GitLabDiff {
+  old_path: string
+  new_path: string
+  diff: string
+  new_file: boolean
+  renamed_file: boolean
+  deleted_file: boolean
+}
+
+interface GitLabProject {
+  id: number
+  path_with_namespace: string
+  default_branch: string | null
+  visibility: "public" | "internal" | "private"
+}
+
+export interface GitLabHostOptions {
+  /** Instance URL, e.g. https://gitlab.example.com (default: GITLAB_URL or https://gitlab.com) */
+  baseUrl?: string
+  /** Personal/group/project access token with `api` scope (default: GITLAB_TOKEN) */
+  token?: string
+  /** Injected for tests (recorded-fixture fake of the GitLab API) */
+  fetch?: typeof fetch
+  /** Remembers the SHA + name behind each commit status ID between createCheckRun and updateCheckRun */
+  cacheStore: ICacheStore
+}
+
+interface StoredStatus {
+  owner: string
+  repo: string
+  sha: string
+  name: string
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Check run conclusion → commit status state. A status carries no summary or
+ * annotations, so updateCheckRun posts those as an MR note (see formatCheckOutput).
+ */
+const STATUS_STATE = {
+  success: "success",
+  failure: "failed",
+  neutral: "canceled",
+} as const
+
+/**
+ * GitLab reads a bare ```suggestion fence as "replace the anchor line only";
+ * a multi-line fix anchored at its last line needs the `-N+0` range.
+ */
+function multiLineSuggestion(body: string, startLine: number | undefined, line: number): string {
+  if (startLine === undefined || startLine >= line) return body
+  return body.replace(/^```suggestion$/m, `\`\`\`suggestion:-${line - startLine}+0`)
+}
+
+/** Check run output as a markdown note: title, summary, then one bullet per annotation */
+function formatCheckOutput(output: {
+  title: string
+  summary: string
+  annotations: Array<{ path: string; start_line: number; title: string; message: string }>
+}): string {
+  const lines = [`**${output.title}**`]
+  if (output.summary) lines.push("", output.summary)
+  if (output.annotations.length > 0) {
+    lines.push("")
+    for (const a of output.annotations.slice(0, MAX_NOTE_ANNOTATIONS)) {
+      lines.push(`- \`${a.path}:${a.start_line}\` **${a.title}** — ${a.message}`)
+    }
+    const rest = output.annotations.length - MAX_NOTE_ANNOTATIONS
+    if (rest > 0) lines.push(`- …and ${rest} more`)
+  }
+  return lines.join("\n")
+}
+
+function statusKey(statusId: number): string {
+  return `gitlab:status:${statusId}`
+}
+
+/** Numeric project IDs are used as-is; paths are URL-encoded. */
+function projectId(owner: string, repo: string): string {
+  return encodeURIComponent(`${owner}/${repo}`)
+}
+
+/** Rebuild a git-style unified diff from GitLab's per-file diff bodies. */
+export function toUnifiedDiff(diffs: GitLabDiff[]): string {
+  const parts: string[] = []
+  for (const d of diffs) {
+    parts.push(`diff --git a/${d.old_path} b/${d.new_path}`)
+    parts.push(d.new_file ? "--- /dev/null" : `--- a/${d.old_path}`)
+    parts.push(d.deleted_file ? "+++ /dev/null" : `+++ b/${d.new_path}`)
+    parts.push(d.diff.replace(/\n$/, ""))
+  }
+  return parts.length > 0 ? `${parts.join("\n")}\n` : ""
+}
+
+function countChanges(diff: string): { additions: number; deletions: number } {
+  let additions = 0
+  let deletions = 0
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+") && !line.startsWith("+++")) additions++
+    else if (line.startsWith("-") && !line.startsWith("---")) deletions++
+  }
+  return { additions, deletions }
+}
+
+function mapMergeRequest(mr: GitLabMergeRequest): PullRequest {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    headSha: mr.diff_refs?.head_sha ?? mr.sha,
+    baseSha: mr.diff_refs?.base_sha,
+    htmlUrl: mr.web_url,
+    body: mr.description ?? undefined,
+    draft: mr.draft ?? mr.work_in_progress ?? false,
+    merged: mr.state === "merged",
+    state: mr.state === "opened" ? "open" : "closed",
+    sourceBranch: mr.source_branch,
+    targetBranch: mr.target_branch,
+  }
+}
+
+export class GitLabHost implements IGitHost {
+  private readonly baseUrl: string
+  private readonly token: string | undefined
+  private readonly fetchFn: typeof fetch
+  /**
+   * Commit statuses are addressed by SHA + name, not ID. The mapping lives in
+   * the shared cache so a retried activity on another worker can still finish
+   * the status it started.
+   */
+  private readonly cacheStore: ICacheStore
+
+  constructor(options: GitLabHostOptions) {
+    this.baseUrl = (options.baseUrl ?? process.env.GITLAB_URL ?? "https://gitlab.com").replace(/\/$/, "")
+    this.token = options.token ?? process.env.GITLAB_TOKEN
+    this.fetchFn = options.fetch ?? fetch
+    this.cacheStore = options.cacheStore
+  }
+
+  async cloneRepo(url: string, destination: string, options?: { ref?: string }): Promise<void> {
+    const cloneUrl = this.token ? url.replace(/^https:\/\//, `https://oauth2:${this.token}@`) : url
+    await localGit.cloneOrPull(cloneUrl, destination, options?.ref)
+  }
+
+  async getPullRequest(owner: string, repo: string, prNumber: number): Promise<PullRequest> {
+    const mr = await this.request<GitLabMergeRequest>("GET", `/projects/${projectId(owner, repo)}/merge_requests/${prNumber}`)
+    return mapMergeRequest(mr)
+  }
+
+  async createPullRequest(owner: string, repo: string, params: CreatePRParams): Promise<PullRequest> {
+    const mr = await this.request<GitLabMergeRequest>("POST", `/projects/${projectId(owner, repo)}/merge_requests`, {
+      source_branch: params.head,
+      target_branch: params.base,
+      title: params.title,
+      description: params.body,
+    })
+    return mapMergeRequest(mr)
+  }
+
+  async getDiff(owner: string, repo: string, base: string, head: string): Promise<string> {
+    const query = new URLSearchParams({ from: base, to: head, straight: "false" })
+    const data = await this.request<{ diffs: GitLabDiff[] }>(
+      "GET",
+      `/projects/${projectId(owner, repo)}/repository/compare?${query.toString()}`
+    )
+    return toUnifiedDiff(data.diffs)
+  }
+
+  async listFiles(owner: string, repo: string, ref?: string): Promise<FileEntry[]> {
+    const query = new URLSearchParams({ ref: ref ?? "HEAD" })
+    const entries = await this.paginate<{ path: string; type: "tree" | "blob" }>(
+      `/projects/${projectId(owner, repo)}/repository/tree?${query.toString()}`
+    )
+    return entries.map((e) => ({ path: e.path, type: e.type === "tree" ? "dir" : "file" }))
+  }
+
+  async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+    const query = new URLSearchParams({ ref })
+    try {
+      const file = await this.request<{ content: string; encoding: string }>(
+        "GET",
+        `/projects/${projectId(owner, repo)}/repository/files/${encodeURIComponent(path)}?${query.toString()}`
+      )
+      return file.encoding === "base64" ? Buffer.from(file.content, "base64").toString("utf-8") : file.content
+    } catch (error: unknown) {
+      if (error instanceof GitLabApiError && error.statusCode === 404) return null
+      throw error
+    }
+  }
+
+  async listDirectory(owner: string, repo: string, path: string, ref: string): Promise<FileEntry[]> {
+    const query = new URLSearchParams({ path, ref })
+    try {
+      const entries = await this.paginate<{ path: string; type: "tree" | "blob" }>(
+        `/projects/${projectId(owner, repo)}/repository/tree?${query.toString()}`
+      )
+      return entries.map((e) => ({ path: e.path, type: e.type === "tree" ? "dir" : "file" }))
+    } catch (error: unknown) {
+      if (error instanceof GitLabApiError && error.statusCode === 404) return []
+      throw error
+    }
+  }
+
+  async createWebhook(owner: string, repo: string, events: string[], url: string): Promise<void> {
+    await this.request("POST", `/projects/${projectId(owner, repo)}/hooks`, {
+      url,
+      token: process.env.GITLAB_WEBHOOK_SECRET,
+      push_events: events.includes("push"),
+      merge_requests_events: events.includes("merge_request") || events.includes("pull_request"),
+      note_events: events.includes("note"),
+      enable_ssl_verification: true,
+    })
+  }
+
+  /** GitLab has no App installations — lists projects the token can maintain. */
+  async getInstallationRepos(): Promise<GitHubRepo[]> {
+    const projects = await this.paginate<GitLabProject>("/projects?membership=true&min_access_level=30&archived=false")
+    return projects.map((p) => ({
+      id: p.id,
+      fullName: p.path_with_namespace,
+      defaultBranch: p.default_branch ?? "main",
+      language: null,
+      private: p.visibility !== "public",
+    }))
+  }
+
+  async getInstallationToken(): Promise<string> {
+    if (!this.token) throw new GitLabAuthError(this.baseUrl)
+    return this.token
+  }
+
+  async listBranches(owner: string, repo: string): Promise<string[]> {
+    const branches = await this.paginate<{ name: string }>(`/projects/${projectId(owner, repo)}/repository/branches`)
+    return branches.map((b) => b.name)
+  }
+
+  // ── Incremental Indexing ──────────────────────────────────────
+
+  async pullLatest(workspacePath: string, branch: string): Promise<void> {
+    await localGit.pullLatest(workspacePath, branch)
+  }
+
+  async diffFiles(workspacePath: string, fromSha: string, toSha: string): Promise<ChangedFile[]> {
+    return localGit.diffFiles(workspacePath, fromSha, toSha)
+  }
+
+  async getLatestSha(owner: string, repo: string, branch: string): Promise<string> {
+    const data = await this.request<{ commit: { id: string } }>(
+      "GET",
+      `/projects/${projectId(owner, repo)}/repository/branches/${encodeURIComponent(branch)}`
+    )
+    return data.commit.id
+  }
+
+  async blame(workspacePath: string, filePath: string, line: number): Promise<string | null> {
+    return localGit.blame(workspacePath, filePath, line)
+  }
+
+  async listFileCommits(owner: string, repo: string, path: string, opts: { ref?: string; limit: number }): Promise<FileCommit[]> {
+    const query = new URLSearchParams({ path, per_page: String(Math.min(opts.limit, PER_PAGE)) })
+    if (opts.ref) query.set("ref_name", opts.ref)
+    const commits = await this.request<Array<{ id: string; title: string; message: string; author_name: string; authored_date: string }>>(
+      "GET",
+      `/projects/${projectId(owner, repo)}/repository/commits?${query.toString()}`
+    )
+    return commits.map((c) => ({
+      sha: c.id,
+      subject: c.title,
+      body: c.message.split("\n").slice(1).join("\n").trim(),
+      author: c.author_name,
+      date: c.authored_date,
+    }))
+  }
+
+  async getFileGitHistory(
+    workspacePath: string,
+    filePath: string,
+    maxCommits = 20,
+    range?: { startLine: number; endLine: number }
+  ): Promise<FileCommit[]> {
+    return localGit.getFileGitHistory(workspacePath, filePath, maxCommits, range)
+  }
+
+  // ── Merge Request Review Integration ──────────────────────────
+
+  /**
+   * Post the review summary as an MR note and each inline comment as a diff
+   * discussion. APPROVE also approves the MR; GitLab has no "request changes"
+   * state, so REQUEST_CHANGES is a plain note.
+   */
+  async postReview(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    review: {
+      event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT"
+      body: string
+      comments?: Array<{ path: string; line: number; startLine?: number; body: string }>
+    }
+  ): Promise<{ reviewId: number; commentIds: Array<number | null> }> {
+    const base = `/projects/${projectId(owner, repo)}/merge_requests/${prNumber}`
+    const note = await this.request<{ id: number }>("POST", `${base}/notes`, { body: review.body })
+
+    const commentIds: Array<number | null> = []
+    if (review.comments && review.comments.length > 0) {
+      const mr = await this.request<GitLabMergeRequest>("GET", base)
+      for (const comment of review.comments) {
+        const discussion = await this.createDiffDiscussion(base, mr, comment)
+        commentIds.push(discussion.notes[0]?.id ?? null)
+      }
+    }
+
+    if (review.event === "APPROVE") {
+      await this.request("POST", `${base}/approve`).catch(() => {
+        // Already approved, or the token's user may not approve — the note is posted either way
+      })
+    }
+
+    return { reviewId: note.id, commentIds }
+  }
+
+  async postReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    comment: { path: string; line: number; body: string; commitId: string }
+  ): Promise<{ commentId: number }> {
+    const base = `/projects/${projectId(owner, repo)}/merge_requests/${prNumber}`
+    const mr = await this.request<GitLabMergeRequest>("GET", base)
+    const refs = mr.diff_refs ? { ...mr.diff_refs, head_sha: comment.commitId } : null
+    const discussion = await this.createDiffDiscussion(base, { ...mr, diff_refs: refs }, comment)
+    return { commentId: discussion.notes[0]?.id ?? 0 }
+  }
+
+  async getPullRequestFiles(
+    owner: string,
+    repo: string,
+    prNumber: number
+  ): Promise<Array<{ filename: string; status: string; additions: number; deletions: number; patch?: string }>> {
+    const diffs = await this.paginate<GitLabDiff>(`/projects/${projectId(owner, repo)}/merge_requests/${prNumber}/diffs`)
+    return diffs.map((d) => ({
+      filename: d.new_path,
+      status: d.new_file ? "added" : d.deleted_file ? "removed" : d.renamed_file ? "renamed" : "modified",
+      ...countChanges(d.diff),
+      patch: d.diff,
+    }))
+  }
+
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    opts: { name: string; headSha: string; status: "in_progress" }
+  ): Promise<{ checkRunId: number }> {
+    const status = await this.request<{ id: number }>("POST", `/projects/${projectId(owner, repo)}/statuses/${opts.headSha}`, {
+      state: "running",
+      name: opts.name,
+    })
+    const stored: StoredStatus = { owner, repo, sha: opts.headSha, name: opts.name }
+    await this.cacheStore.set(statusKey(status.id), stored, STATUS_TTL_SECONDS)
+    return { checkRunId: status.id }
+  }
+
+  async updateCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    opts: {
+      status: "completed"
+      conclusion: "success" | "failure" | "neutral"
+      output: {
+        title: string
+        summary: string
+        annotations: Array<{
+          path: string; start_line: number; end_line: number
+          annotation_level: "notice" | "warning" | "failure"
+          message: string; title: string; raw_details: string
+        }>
+      }
+    }
+  ): Promise<void> {
+    const status = await this.cacheStore.get<StoredStatus>(statusKey(checkRunId))
+    if (!status) {
+      throw new GitLabApiError(`Unknown commit status ${checkRunId} for ${owner}/${repo} — it was never created or has expired`, 404)
+    }
+    await this.request("POST", `/projects/${projectId(status.owner, status.repo)}/statuses/${status.sha}`, {
+      state: STATUS_STATE[opts.conclusion],
+      name: status.name,
+      description: opts.output.title.slice(0, MAX_STATUS_DESCRIPTION),
+    })
+    await this.cacheStore.invalidate(statusKey(checkRunId))
+
+    // The status description is cut to its title — the details go to the open MRs for the commit
+    if (!opts.output.summary && opts.output.annotations.length === 0) return
+    const project = projectId(status.owner, status.repo)
+    const mrs = await this.request<Array<{ iid: number; state: string }>>("GET", `/projects/${project}/repository/commits/${status.sha}/merge_requests`)
+    const body = formatCheckOutput(opts.output)
+    for (const mr of mrs.filter((m) => m.state === "opened")) {
+      await this.request("POST", `/projects/${project}/merge_requests/${mr.iid}/notes`, { body })
+    }
+  }
+
+  async postIssueComment(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    // Callers comment on pull requests, so issueNumber is an MR iid
+    const note = await this.request<{ id: number }>(
+      "POST",
+      `/projects/${projectId(owner, repo)}/merge_requests/${issueNumber}/notes`,
+      { body }
+    )
+    return { commentId: note.id }
+  }
+
+  /** Includes inherited group membership; maintainers and owners map to admin, developers to write. */
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<RepoPermission> {
+    const members = await this.request<Array<{ username: string; access_level: number }>>(
+      "GET",
+      `/projects/${projectId(owner, repo)}/members/all?query=${encodeURIComponent(username)}`
+    )
+    const level = members.find((m) => m.username.toLowerCase() === username.toLowerCase())?.access_level ?? 0
+    if (level >= ACCESS_LEVEL_MAINTAINER) return "admin"
+    if (level >= ACCESS_LEVEL_DEVELOPER) return "write"
+    return level > 0 ? "read" : "none"
+  }
+
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<{ commentId: number }> {
+    // Replies attach to a discussion, so find the one holding the note
+    const base = `/projects/${projectId(owner, repo)}/merge_requests/${prNumber}`
+    const discussions = await this.paginate<{ id: string; notes: Array<{ id: number }> }>(`${base}/discussions`)
+    const discussion = discussions.find((d) => d.notes.some((n) => n.id === commentId))
+    if (!discussion) return this.postIssueComment(owner, repo, prNumber, body)
+    const note = await this.request<{ id: number }>("POST", `${base}/discussions/${discussion.id}/notes`, { body })
+    return { commentId: note.id }
+  }
+
+  async createBranch(owner: string, repo: string, branchName: string, fromSha: string): Promise<void> {
+    await this.request("POST", `/projects/${projectId(owner, repo)}/repository/branches`, {
+      branch: branchName,
+      ref: fromSha,
+    })
+  }
+
+  async createOrUpdateFile(
+    owner: string,
+    repo: string,
+    branch: string,
+    path: string,
+    content: string,
+    opts: { message: string }
+  ): Promise<{ sha: string }> {
+    const filePath = `/projects/${projectId(owner, repo)}/repository/files/${encodeURIComponent(path)}`
+    const ref = `ref=${encodeURIComponent(branch)}`
+    // Check if file already exists — GitLab uses POST to create and PUT to update
+    const exists = await this.request("GET", `${filePath}?${ref}`).then(() => true, () => false)
+    await this.request(exists ? "PUT" : "POST", filePath, {
+      branch,
+      content,
+      commit_message: opts.message,
+    })
+    const file = await this.request<{ blob_id: string }>("GET", `${filePath}?${ref}`)
+    return { sha: file.blob_id }
+  }
+  async uploadSarif(): Promise<{ id: string }> {
+    throw new NotImplementedError("IGitHost.uploadSarif: GitLab has no code scanning upload API — download SARIF from the review instead")
+  }
+
+
+  // ── HTTP ──────────────────────────────────────────────────────
+
+  private async createDiffDiscussion(
+    mrPath: string,
+    mr: GitLabMergeRequest,
+    comment: { path: string; line: number; startLine?: number; body: string }
+  ): Promise<{ id: string; notes: Array<{ id: number }> }> {
+    const body = multiLineSuggestion(comment.body, comment.startLine, comment.line)
+    if (!mr.diff_refs) {
+      // MR diff not computed yet — fall back to a general discussion
+      return this.request("POST", `${mrPath}/discussions`, { body: `\`${comment.path}:${comment.line}\`\n\n${body}` })
+    }
+    return this.request("POST", `${mrPath}/discussions`, {
+      body,
+      position: {
+        position_type: "text",
+        base_sha: mr.diff_refs.base_sha,
+        start_sha: mr.diff_refs.start_sha,
+        head_sha: mr.diff_refs.head_sha,
+        old_path: comment.path,
+        new_path: comment.path,
+        new_line: comment.line,
+      },
+    })
+  }
+
+  /**
+   * Make a request to the GitLab REST API with proper auth and error handling.
+   */
+  private async request<T = unknown>(method: string, path: string, body?: Record<string, unknown>): Promise<T> {
+    const response = await this.send(method, path, body)
+    if (response.status === 204) return undefined as T
+    return (await response.json()) as T
+  }
+
+  /** Follow `x-next-page` until exhausted. */
+  private async paginate<T>(path: string): Promise<T[]> {
+    const results: T[] = []
+    const sep = path.includes("?") ? "&" : "?"
+    let page = "1"
+    while (page) {
+      const response = await this.send("GET", `${path}${sep}per_page=${PER_PAGE}&page=${page}`)
+      const data = (await response.json()) as T[]
+      results.push(...data)
+      page = response.headers.get("x-next-page") ?? ""
+    }
+    return results
+  }
+
+  private async send(method: string, path: string, body?: Record<string, unknown>): Promise<Response> {
+    const url = `${this.baseUrl}/api/v4${path}`
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (this.token) headers["PRIVATE-TOKEN"] = this.token
+
+    const response = await this.fetchFn(url, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(GITLAB_API_TIMEOUT_MS),
+    })
+
+    if (response.status === 401 || response.status === 403) {
+      throw new GitLabAuthError(url)
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "")
+      throw new GitLabApiError(`${method} ${path} failed: ${response.status} ${response.statusText} ${text}`.trim(), response.status)
+    }
+    return response
+  }
+}
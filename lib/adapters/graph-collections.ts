@@ -0,0 +1,84 @@
+/**
+ * Graph collection layout shared by the IGraphStore adapters — ArangoDB
+ * collections and the embedded SQLite store use the same names, entity kind
+ * mapping and `collection/key` vertex handles.
+ */
+
+export const DOC_COLLECTIONS = [
+  "repos",
+  "files",
+  "functions",
+  "classes",
+  "interfaces",
+  "variables",
+  "patterns",
+  "rules",
+  "snippets",
+  "ledger",
+  // Phase 4: Justification & Taxonomy
+  "justifications",
+  "features_agg",
+  "health_reports",
+  "domain_ontologies",
+  "drift_scores",
+  "adrs",
+  "token_usage_log",
+  // Phase 5: Incremental indexing
+  "index_events",
+  // Phase 5.5: Prompt Ledger
+  "ledger_summaries",
+  "working_snapshots",
+  // Phase 6: Pattern Enforcement & Rules Engine
+  "rule_health",
+  "mined_patterns",
+  "impact_reports",
+  "layer_definitions",
+  // I-01: Negative Knowledge
+  "entity_warnings",
+] as const
+
+export const EDGE_COLLECTIONS = ["contains", "calls", "imports", "extends", "implements", "rule_exceptions", "language_implementations", "logically_coupled"] as const
+
+export const ENTITY_COLLECTIONS_FOR_FILE = ["functions", "classes", "interfaces", "variables"] as const
+export const ALL_ENTITY_COLLECTIONS = ["files", ...ENTITY_COLLECTIONS_FOR_FILE] as const
+
+/** Map singular entity kind (from indexer) → plural collection name. */
+export const KIND_TO_COLLECTION: Record<string, string> = {
+  file: "files",
+  function: "functions",
+  method: "functions",
+  class: "classes",
+  interface: "interfaces",
+  variable: "variables",
+  type: "variables",
+  enum: "variables",
+  struct: "classes",
+  module: "files",
+  namespace: "files",
+  decorator: "functions",
+  directory: "files",
+  table: "classes",
+  view: "classes",
+  column: "variables",
+  resource: "classes",
+  api_operation: "functions",
+  message: "classes",
+  field: "variables",
+  // Plural forms (in case they're used directly)
+  files: "files",
+  functions: "functions",
+  classes: "classes",
+  interfaces: "interfaces",
+  variables: "variables",
+}
+
+/**
+ * Ensure a vertex handle has the `collection/key` format required by ArangoDB edges.
+ * If the handle is already qualified (contains `/`), return as-is.
+ * Otherwise, look up the entity's kind to determine the collection, or default to `functions/`.
+ */
+export function qualifyVertexHandle(handle: string): string {
+  if (handle.includes("/")) return handle
+  // Bare key — default to functions (most common entity type)
+  return `functions/${handle}`
+}
@@ -0,0 +1,74 @@
+/**
+ * K-shortest simple paths by hop count — the non-Arango counterpart of
+ * AQL `1..maxDepth OUTBOUND K_PATHS`, shortest first.
+ *
+ * Breadth-first over partial paths: every path found at depth d is shorter
+ * than any found at d + 1, so the first k complete paths are the k shortest.
+ * Used by the embedded SQLite store and the in-memory test fake; adjacency is
+ * fetched one frontier at a time so the store controls the query shape.
+ */
+
+import type { PathEdgeKind } from "@/lib/ports/types"
+
+export const PATH_EDGE_KINDS: readonly PathEdgeKind[] = ["calls", "imports"]
+
+/** Bounds for findPaths options, shared by every adapter. */
+export function clampPathOptions(opts: { k?: number; maxDepth?: number; edgeKinds?: PathEdgeKind[] } = {}): {
+  k: number
+  maxDepth: number
+  edgeKinds: PathEdgeKind[]
+} {
+  const edgeKinds = (opts.edgeKinds ?? PATH_EDGE_KINDS).filter((kind) => PATH_EDGE_KINDS.includes(kind))
+  return {
+    k: Math.min(Math.max(opts.k ?? 3, 1), 10),
+    maxDepth: Math.min(Math.max(opts.maxDepth ?? 6, 1), 10),
+    edgeKinds: edgeKinds.length > 0 ? [...edgeKinds] : [...PATH_EDGE_KINDS],
+  }
+}
+
+export interface AdjacentEdge<E> {
+  from: string
+  to: string
+  edge: E
+}
+
+/** Partial paths kept per BFS level — bounds fan-out on dense call graphs. */
+const MAX_FRONTIER = 5000
+
+export function kShortestPaths<E>(
+  sources: string[],
+  targets: Set<string>,
+  k: number,
+  maxDepth: number,
+  outboundEdges: (vertices: string[]) => Array<AdjacentEdge<E>>
+): Array<{ vertices: string[]; edges: E[] }> {
+  const found: Array<{ vertices: string[]; edges: E[] }> = []
+  let frontier = sources.map((id) => ({ vertices: [id], edges: [] as E[] }))
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0 && found.length < k; depth++) {
+    const byVertex = new Map<string, Array<AdjacentEdge<E>>>()
+    for (const adjacent of outboundEdges(Array.from(new Set(frontier.map((p) => p.vertices[p.vertices.length - 1]!))))) {
+      const list = byVertex.get(adjacent.from) ?? []
+      list.push(adjacent)
+      byVertex.set(adjacent.from, list)
+    }
+
+    const next: typeof frontier = []
+    for (const path of frontier) {
+      const tail = path.vertices[path.vertices.length - 1]!
+      for (const adjacent of byVertex.get(tail) ?? []) {
+        if (path.vertices.includes(adjacent.to)) continue // simple paths only
+        const extended = { vertices: [...path.vertices, adjacent.to], edges: [...path.edges, adjacent.edge] }
+        if (targets.has(adjacent.to)) {
+          found.push(extended)
+          if (found.length >= k) return found
+        } else if (next.length < MAX_FRONTIER) {
+          next.push(extended)
+        }
+      }
+    }
+    frontier = next
+  }
+
+  return found
+}
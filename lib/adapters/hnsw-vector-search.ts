@@ -0,0 +1,378 @@
+/**
+ * IVectorSearch implementation backed by embedded, on-disk HNSW indexes —
+ * semantic search without pgvector (self-hosted / air-gapped deployments).
+ *
+ *   - One index file per org/repo and kind (entity vs justification) under
+ *     VECTOR_INDEX_DIR: {dir}/{orgId}/{repoId}/{kind}.{modelVersion}.hnsw
+ *   - Indexes are loaded lazily and cached in-process; a cached index is
+ *     re-read when its file changes (another process flushed a run)
+ *   - Mutations are buffered in memory and written atomically (temp file +
+ *     rename) by flush(), which indexing calls once per run — a worker
+ *     restart mid-run drops the buffered rows until the next run
+ *   - Embedding is delegated to an injected embedder (Vertex AI or the
+ *     OpenAI-compatible LLM server — wired in lib/di/container.ts)
+ *
+ * Model version is part of the file name, so switching embedding models
+ * starts from empty indexes exactly like the model_version filter in pgvector.
+ * Single-writer: run one indexing worker per VECTOR_INDEX_DIR.
+ */
+
+import { randomUUID } from "node:crypto"
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
+import { basename, dirname, join } from "node:path"
+
+import { HnswIndex } from "@/lib/embeddings/hnsw-index"
+import { EMBEDDING_DIMENSIONS, EMBEDDING_MODEL_ID } from "@/lib/llm/config"
+import type {
+  IVectorSearch,
+  JustificationEmbeddingMeta,
+  JustificationSearchResult,
+  VectorSearchResult,
+} from "@/lib/ports/vector-search"
+
+/** Rebuild an index once tombstones exceed this fraction of live entries. */
+const COMPACT_TOMBSTONE_RATIO = 0.25
+
+type IndexKind = "entities" | "justifications"
+
+interface EntityPayload {
+  entityType: string
+  entityName: string
+  filePath: string
+}
+
+type JustificationPayload = Omit<JustificationEmbeddingMeta, "orgId" | "repoId" | "entityId">
+
+interface CachedIndex {
+  index: HnswIndex<unknown>
+  /** Inode and mtime of the file the index was read from or written to — each flush renames a new file in */
+  version: string | null
+  /** Holds mutations not yet flushed to disk */
+  dirty: boolean
+}
+
+/** Embedding half of IVectorSearch — the part this adapter does not implement itself. */
+export type Embedder = Pick<IVectorSearch, "embed" | "embedQuery">
+
+export interface HnswVectorSearchOptions {
+  /** Root directory for index files (default: VECTOR_INDEX_DIR or .unerr/vector-index) */
+  dir?: string
+  /** Produces document / query embeddings */
+  embedder: Embedder
+  /** Embedding provenance (default: EMBEDDING_MODEL_VERSION or {model}-{dims}) */
+  modelVersion?: string
+}
+
+export class HnswVectorSearch implements IVectorSearch {
+  private readonly dir: string
+  private readonly embedder: Embedder
+  private readonly modelVersion: string
+  private readonly indexes = new Map<string, CachedIndex>()
+  private readonly locks = new Map<string, Promise<unknown>>()
+
+  constructor(options: HnswVectorSearchOptions) {
+    this.dir = options.dir ?? process.env.VECTOR_INDEX_DIR ?? join(process.cwd(), ".unerr", "vector-index")
+    this.embedder = options.embedder
+    this.modelVersion =
+      options.modelVersion ?? process.env.EMBEDDING_MODEL_VERSION ?? `${EMBEDDING_MODEL_ID}-${EMBEDDING_DIMENSIONS}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+    return this.embedder.embed(texts)
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    if (this.embedder.embedQuery) return this.embedder.embedQuery(text)
+    const [vector] = await this.embedder.embed([text])
+    return vector!
+  }
+
+  // ── Entity embeddings ──────────────────────────────────────────────────────
+
+  /**
+   * Upsert entity embeddings. Rows are grouped by their orgId/repoId metadata
+   * so one batch may span repos; within a batch the last row per key wins.
+   */
+  async upsert(ids: string[], embeddings: number[][], metadata: Record<string, unknown>[]): Promise<void> {
+    if (ids.length === 0) return
+
+    const byRepo = new Map<string, { orgId: string; repoId: string; rows: number[] }>()
+    for (let i = 0; i < ids.length; i++) {
+      const meta = metadata[i]!
+      const orgId = meta.orgId as string
+      const repoId = meta.repoId as string
+      const group = byRepo.get(`${orgId}/${repoId}`) ?? { orgId, repoId, rows: [] }
+      group.rows.push(i)
+      byRepo.set(`${orgId}/${repoId}`, group)
+    }
+
+    for (const { orgId, repoId, rows } of byRepo.values()) {
+      await this.mutate<EntityPayload>(orgId, repoId, "entities", embeddings[rows[0]!]!.length, (index) => {
+        for (const i of rows) {
+          const meta = metadata[i]!
+          index.upsert(meta.entityKey as string, embeddings[i]!, {
+            entityType: meta.entityType as string,
+            entityName: meta.entityName as string,
+            filePath: meta.filePath as string,
+          })
+        }
+      })
+    }
+  }
+
+  /**
+   * Nearest entity embeddings. Scoped to one repo when `repoId` is given,
+   * otherwise merged across every repo under the org (or the whole directory).
+   */
+  async search(
+    embedding: number[],
+    topK: number,
+    filter?: { orgId?: string; repoId?: string }
+  ): Promise<VectorSearchResult[]> {
+    const locations = await this.findLocations(filter?.orgId, filter?.repoId)
+    const results: VectorSearchResult[] = []
+    for (const { orgId, repoId } of locations) {
+      const index = await this.load<EntityPayload>(orgId, repoId, "entities")
+      if (!index) continue
+      for (const hit of index.search(embedding, topK)) {
+        results.push({ id: hit.key, score: hit.score, metadata: { ...hit.payload } })
+      }
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, topK)
+  }
+
+  async getEmbedding(repoId: string, entityKey: string): Promise<number[] | null> {
+    for (const { orgId } of await this.findLocations(undefined, repoId)) {
+      const index = await this.load<EntityPayload>(orgId, repoId, "entities")
+      const vector = index?.getVector(entityKey)
+      if (vector) return vector
+    }
+    return null
+  }
+
+  async deleteOrphaned(repoId: string, currentEntityKeys: string[]): Promise<number> {
+    const current = new Set(currentEntityKeys)
+    let deleted = 0
+    for (const { orgId } of await this.findLocations(undefined, repoId)) {
+      deleted += await this.mutateExisting(orgId, repoId, "entities", (index) => {
+        let count = 0
+        for (const key of index.liveKeys()) {
+          if (!current.has(key) && index.remove(key)) count++
+        }
+        return count
+      })
+    }
+    return deleted
+  }
+
+  /** Delete the repo's entity indexes for every model version. */
+  async deleteAllEmbeddings(repoId: string): Promise<number> {
+    return this.dropIndexes(repoId, "entities")
+  }
+
+  // ── Justification embeddings ───────────────────────────────────────────────
+
+  async upsertJustificationEmbeddings(embeddings: number[][], metadata: JustificationEmbeddingMeta[]): Promise<void> {
+    if (embeddings.length === 0) return
+
+    const byRepo = new Map<string, number[]>()
+    for (let i = 0; i < metadata.length; i++) {
+      const key = `${metadata[i]!.orgId}/${metadata[i]!.repoId}`
+      byRepo.set(key, [...(byRepo.get(key) ?? []), i])
+    }
+
+    for (const rows of byRepo.values()) {
+      const { orgId, repoId } = metadata[rows[0]!]!
+      await this.mutate<JustificationPayload>(orgId, repoId, "justifications", embeddings[rows[0]!]!.length, (index) => {
+        for (const i of rows) {
+          const meta = metadata[i]!
+          index.upsert(meta.entityId, embeddings[i]!, {
+            entityName: meta.entityName,
+            taxonomy: meta.taxonomy,
+            featureTag: meta.featureTag,
+            businessPurpose: meta.businessPurpose,
+          })
+        }
+      })
+    }
+  }
+
+  async searchJustificationEmbeddings(
+    embedding: number[],
+    topK: number,
+    filter: { orgId: string; repoId: string; taxonomy?: string }
+  ): Promise<JustificationSearchResult[]> {
+    const index = await this.load<JustificationPayload>(filter.orgId, filter.repoId, "justifications")
+    if (!index) return []
+    const taxonomy = filter.taxonomy
+    const hits = index.search(embedding, topK, taxonomy ? (p) => p.taxonomy === taxonomy : undefined)
+    return hits.map((hit) => ({ entityId: hit.key, ...hit.payload, score: hit.score }))
+  }
+
+  /** Delete the repo's justification index for the current model version. */
+  async deleteJustificationEmbeddings(repoId: string): Promise<number> {
+    let deleted = 0
+    for (const { orgId } of await this.findLocations(undefined, repoId)) {
+      deleted += await this.mutateExisting(orgId, repoId, "justifications", (index) => {
+        const count = index.size
+        for (const key of index.liveKeys()) index.remove(key)
+        return count
+      })
+    }
+    return deleted
+  }
+
+  // ── Persistence ────────────────────────────────────────────────────────────
+
+  /** Write the repo's indexes that have buffered mutations. */
+  async flush(repoId: string): Promise<void> {
+    for (const path of Array.from(this.indexes.keys())) {
+      if (basename(dirname(path)) !== repoId) continue
+      await this.withLock(path, async () => {
+        const cached = this.indexes.get(path)
+        if (cached?.dirty) await this.persist(path, cached.index)
+      })
+    }
+  }
+
+  // ── Index files ────────────────────────────────────────────────────────────
+
+  private indexPath(orgId: string, repoId: string, kind: IndexKind): string {
+    const version = this.modelVersion.replace(/[^\w.-]/g, "_")
+    return join(this.dir, orgId, repoId, `${kind}.${version}.hnsw`)
+  }
+
+  /**
+   * Load an index, re-reading the file when it changed since it was cached.
+   * Null when it has never been written — misses are not cached, so a file
+   * flushed later by another process is picked up.
+   */
+  private async load<P>(orgId: string, repoId: string, kind: IndexKind): Promise<HnswIndex<P> | null> {
+    const path = this.indexPath(orgId, repoId, kind)
+    const cached = this.indexes.get(path)
+    if (cached?.dirty) return cached.index as HnswIndex<P>
+
+    let version: string
+    try {
+      version = fileVersion(await stat(path))
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+      this.indexes.delete(path)
+      return null
+    }
+    if (cached?.version === version) return cached.index as HnswIndex<P>
+
+    const index = HnswIndex.deserialize<P>(await readFile(path))
+    this.indexes.set(path, { index: index as HnswIndex<unknown>, version, dirty: false })
+    return index
+  }
+
+  /** Apply a mutation to an index (creating it if needed), buffered until flush. */
+  private async mutate<P>(
+    orgId: string,
+    repoId: string,
+    kind: IndexKind,
+    dimensions: number,
+    fn: (index: HnswIndex<P>) => void
+  ): Promise<void> {
+    const path = this.indexPath(orgId, repoId, kind)
+    await this.withLock(path, async () => {
+      const index = (await this.load<P>(orgId, repoId, kind)) ?? new HnswIndex<P>(dimensions)
+      fn(index)
+      // The repo directory marks the location for findLocations before the first flush
+      await mkdir(dirname(path), { recursive: true })
+      this.indexes.set(path, { index: index as HnswIndex<unknown>, version: null, dirty: true })
+    })
+  }
+
+  /** Apply a mutation only if the index exists. Returns fn's result (0 when absent). */
+  private async mutateExisting<P>(
+    orgId: string,
+    repoId: string,
+    kind: IndexKind,
+    fn: (index: HnswIndex<P>) => number
+  ): Promise<number> {
+    const path = this.indexPath(orgId, repoId, kind)
+    return this.withLock(path, async () => {
+      const index = await this.load<P>(orgId, repoId, kind)
+      if (!index) return 0
+      const result = fn(index)
+      if (result > 0) this.indexes.set(path, { index: index as HnswIndex<unknown>, version: null, dirty: true })
+      return result
+    })
+  }
+
+  private async persist(path: string, index: HnswIndex<unknown>): Promise<void> {
+    if (index.tombstones > index.size * COMPACT_TOMBSTONE_RATIO) index.compact()
+
+    await mkdir(dirname(path), { recursive: true })
+    const tmp = `${path}.${randomUUID()}.tmp`
+    await writeFile(tmp, index.serialize())
+    await rename(tmp, path)
+    this.indexes.set(path, { index, version: fileVersion(await stat(path)), dirty: false })
+  }
+
+  /** Remove every index file of one kind for a repo. Returns entries dropped. */
+  private async dropIndexes(repoId: string, kind: IndexKind): Promise<number> {
+    let deleted = 0
+    for (const { orgId } of await this.findLocations(undefined, repoId)) {
+      const repoDir = join(this.dir, orgId, repoId)
+      // Written files plus indexes created since the last flush
+      const paths = new Set([
+        ...(await readdir(repoDir)).map((file) => join(repoDir, file)),
+        ...Array.from(this.indexes.keys()).filter((path) => dirname(path) === repoDir),
+      ])
+      for (const path of paths) {
+        const file = basename(path)
+        if (!file.startsWith(`${kind}.`) || !file.endsWith(".hnsw")) continue
+        await this.withLock(path, async () => {
+          const cached = this.indexes.get(path)
+          deleted += cached ? cached.index.size : HnswIndex.deserialize(await readFile(path)).size
+          this.indexes.delete(path)
+          await rm(path, { force: true })
+        })
+      }
+    }
+    return deleted
+  }
+
+  /** Resolve org/repo directories matching the given scope. */
+  private async findLocations(orgId?: string, repoId?: string): Promise<Array<{ orgId: string; repoId: string }>> {
+    const orgIds = orgId ? [orgId] : await listDirs(this.dir)
+    const locations: Array<{ orgId: string; repoId: string }> = []
+    for (const org of orgIds) {
+      const repoIds = await listDirs(join(this.dir, org))
+      for (const repo of repoIds) {
+        if (!repoId || repo === repoId) locations.push({ orgId: org, repoId: repo })
+      }
+    }
+    return locations
+  }
+
+  /** Serialize read-modify-write cycles per index file. */
+  private async withLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(path) ?? Promise.resolve()
+    const next = previous.catch(() => undefined).then(fn)
+    this.locks.set(path, next)
+    try {
+      return await next
+    } finally {
+      if (this.locks.get(path) === next) this.locks.delete(path)
+    }
+  }
+}
+
+function fileVersion(stats: { ino: number; mtimeMs: number }): string {
+  return `${stats.ino}:${stats.mtimeMs}`
+}
+
+async function listDirs(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true })
+    return entries.filter((e) => e.isDirectory()).map((e) => e.name)
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+}
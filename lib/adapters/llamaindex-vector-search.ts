@@ -165,6 +165,38 @@ function getPgPool(): import("pg").Pool {
   return pgPool
 }
 
+/**
+ * Run a read query that Postgres cancels when `signal` aborts. pg takes no
+ * per-query signal, so the query runs on a dedicated client whose backend
+ * pid is cancelled with pg_cancel_backend from another pool connection.
+ */
+async function queryWithSignal(
+  pool: import("pg").Pool,
+  text: string,
+  params: unknown[],
+  signal?: AbortSignal
+): Promise<import("pg").QueryResult<Record<string, unknown>>> {
+  if (!signal) return pool.query(text, params)
+  signal.throwIfAborted()
+
+  const client = await pool.connect()
+  let onAbort: (() => void) | null = null
+  try {
+    const pid = (await client.query<{ pid: number }>("SELECT pg_backend_pid() AS pid")).rows[0]!.pid
+    onAbort = () => {
+      pool.query("SELECT pg_cancel_backend($1)", [pid]).catch(() => {
+        // Best-effort: the statement may already have finished
+      })
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+    signal.throwIfAborted()
+    return await client.query(text, params)
+  } finally {
+    if (onAbort) signal.removeEventListener("abort", onAbort)
+    client.release()
+  }
+}
+
 export class LlamaIndexVectorSearch implements IVectorSearch {
   /**
    * Embed texts using Vertex AI Gemini Embedding 001 (document encoding).
@@ -309,7 +341,8 @@ export class LlamaIndexVectorSearch implements IVectorSearch {
   async search(
     embedding: number[],
     topK: number,
-    filter?: { orgId?: string; repoId?: string }
+    filter?: { orgId?: string; repoId?: string },
+    opts?: { signal?: AbortSignal }
   ): Promise<{ id: string; score: number; metadata?: Record<string, unknown> }[]> {
     const pool = getPgPool()
     const vectorStr = `[${embedding.join(",")}]`
@@ -333,14 +366,16 @@ export class LlamaIndexVectorSearch implements IVectorSearch {
 
     const whereClause = `WHERE ${conditions.join(" AND ")}`
 
-    const result = await pool.query(
+    const result = await queryWithSignal(
+      pool,
       `SELECT entity_key, entity_type, entity_name, file_path,
               1 - (embedding <=> $1::vector) as score
        FROM unerr.entity_embeddings
        ${whereClause}
        ORDER BY embedding <=> $1::vector
        LIMIT $2`,
-      params
+      params,
+      opts?.signal
     )
 
     return result.rows.map((row: Record<string, unknown>) => ({
@@ -538,7 +573,8 @@ export class LlamaIndexVectorSearch implements IVectorSearch {
   async searchJustificationEmbeddings(
     embedding: number[],
     topK: number,
-    filter: { orgId: string; repoId: string; taxonomy?: string }
+    filter: { orgId: string; repoId: string; taxonomy?: string },
+    opts?: { signal?: AbortSignal }
   ): Promise<import("@/lib/ports/vector-search").JustificationSearchResult[]> {
     const pool = getPgPool()
     const vectorStr = `[${embedding.join(",")}]`
@@ -558,14 +594,16 @@ export class LlamaIndexVectorSearch implements IVectorSearch {
 
     const whereClause = `WHERE ${conditions.join(" AND ")}`
 
-    const result = await pool.query(
+    const result = await queryWithSignal(
+      pool,
       `SELECT entity_id, entity_name, taxonomy, feature_tag, business_purpose,
               1 - (embedding <=> $1::vector) as score
        FROM unerr.justification_embeddings
        ${whereClause}
        ORDER BY embedding <=> $1::vector
        LIMIT $2`,
-      params
+      params,
+      opts?.signal
     )
 
     return result.rows.map((row: Record<string, unknown>) => ({
@@ -0,0 +1,165 @@
+/**
+ * Local git operations shared by the IGitHost adapters (GitHub, GitLab).
+ * Everything here runs against a clone on the worker's filesystem — the host
+ * only matters for how the clone URL is authenticated.
+ */
+
+import type { FileCommit } from "@/lib/ports/git-host"
+import type { ChangedFile } from "@/lib/ports/types"
+
+function getSimpleGit(): typeof import("simple-git").default {
+  const sg = require("simple-git") as typeof import("simple-git")
+  return sg.default ?? sg
+}
+
+function getExecFileAsync() {
+  const { execFile } = require("node:child_process") as typeof import("node:child_process")
+  const { promisify } = require("node:util") as typeof import("node:util")
+  return promisify(execFile)
+}
+
+/**
+ * Shallow-clone `cloneUrl` into `destination`, or — if the clone already
+ * exists — refresh its remote URL (tokens expire) and pull.
+ */
+export async function cloneOrPull(cloneUrl: string, destination: string, ref?: string): Promise<void> {
+  const fs = require("node:fs") as typeof import("node:fs")
+  const path = require("node:path") as typeof import("node:path")
+  const parent = path.dirname(destination)
+  if (!fs.existsSync(parent)) fs.mkdirSync(parent, { recursive: true })
+  const simpleGit = getSimpleGit()
+  const git = simpleGit()
+  if (fs.existsSync(destination)) {
+    const repoGit = git.cwd(destination)
+    // Update remote URL with a fresh token (the original token has expired)
+    await repoGit.remote(["set-url", "origin", cloneUrl])
+    await repoGit.pull()
+    if (ref) await repoGit.checkout(ref)
+    return
+  }
+  // K-02: Shallow clone — only the latest commit on the target branch.
+  // Pipeline never reads git history during indexing (TBI-I-02 is a separate feature).
+  const cloneOpts = ["--depth", "1", "--single-branch"]
+  if (ref) {
+    cloneOpts.push("--branch", ref)
+  }
+  await git.clone(cloneUrl, destination, cloneOpts)
+}
+
+/** Pull latest changes for an existing clone */
+export async function pullLatest(workspacePath: string, branch: string): Promise<void> {
+  const simpleGit = getSimpleGit()
+  const git = simpleGit(workspacePath)
+  // K-02: If the repo is a shallow clone, deepen enough for git diff to work
+  const isShallow = await git.raw(["rev-parse", "--is-shallow-repository"]).then((r) => r.trim() === "true").catch(() => false)
+  if (isShallow) {
+    await git.fetch(["--deepen", "1", "origin", branch])
+  } else {
+    await git.fetch("origin", branch)
+  }
+  await git.checkout(branch)
+  await git.pull("origin", branch)
+}
+
+/** List changed files between two SHAs (renames become modified + removed) */
+export async function diffFiles(workspacePath: string, fromSha: string, toSha: string): Promise<ChangedFile[]> {
+  const execFileAsync = getExecFileAsync()
+
+  const { stdout } = await execFileAsync(
+    "git",
+    ["diff", "--name-status", fromSha, toSha],
+    { cwd: workspacePath, maxBuffer: 10 * 1024 * 1024 }
+  )
+
+  const changes: ChangedFile[] = []
+  for (const line of stdout.trim().split("\n")) {
+    if (!line) continue
+    const parts = line.split("\t")
+    const status = parts[0]
+    const filePath = parts[1]
+    if (!status || !filePath) continue
+
+    let changeType: ChangedFile["changeType"]
+    if (status.startsWith("A")) changeType = "added"
+    else if (status.startsWith("D")) changeType = "removed"
+    else changeType = "modified" // M, R, C, T, etc.
+
+    // For renames (R###), the new path is parts[2]
+    const path = status.startsWith("R") && parts[2] ? parts[2] : filePath
+    changes.push({ path, changeType })
+
+    // Also track the old path of renames as "removed"
+    if (status.startsWith("R") && parts[2]) {
+      changes.push({ path: filePath, changeType: "removed" })
+    }
+  }
+  return changes
+}
+
+/** Author of a single line via `git blame --porcelain`, or null */
+export async function blame(workspacePath: string, filePath: string, line: number): Promise<string | null> {
+  const execFileAsync = getExecFileAsync()
+
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["blame", "-L", `${line},${line}`, "--porcelain", filePath],
+      { cwd: workspacePath }
+    )
+    // Parse porcelain blame for author
+    const authorMatch = stdout.match(/^author (.+)$/m)
+    return authorMatch?.[1] ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Commit history for a file via `git log --follow`, or — with a line range —
+ * only the commits that touched those lines via `git log -L` (which follows
+ * the range through edits and renames on its own).
+ */
+export async function getFileGitHistory(
+  workspacePath: string,
+  filePath: string,
+  maxCommits = 20,
+  range?: { startLine: number; endLine: number }
+): Promise<FileCommit[]> {
+  const execFileAsync = getExecFileAsync()
+
+  try {
+    const SEPARATOR = "---GIT-LOG-SEP---"
+    const FIELD_SEP = "---FIELD---"
+    const END = "---GIT-LOG-END---"
+    const scope = range
+      ? [`-L${range.startLine},${Math.max(range.endLine, range.startLine)}:${filePath}`]
+      : ["--follow", "--", filePath]
+    const { stdout } = await execFileAsync(
+      "git",
+      [
+        "log",
+        `--format=${SEPARATOR}%H${FIELD_SEP}%an${FIELD_SEP}%aI${FIELD_SEP}%s${FIELD_SEP}%b${END}`,
+        `-n`, String(maxCommits),
+        ...scope,
+      ],
+      { cwd: workspacePath, maxBuffer: range ? 4 * 1024 * 1024 : 512 * 1024 }
+    )
+
+    const entries: FileCommit[] = []
+    for (const block of stdout.split(SEPARATOR)) {
+      // -L appends the patch after each commit's format block
+      const trimmed = block.split(END)[0]?.trim()
+      if (!trimmed) continue
+      const parts = trimmed.split(FIELD_SEP)
+      const sha = parts[0]?.trim() ?? ""
+      const author = parts[1]?.trim() || undefined
+      const date = parts[2]?.trim() || undefined
+      const subject = parts[3]?.trim() ?? ""
+      const body = parts[4]?.trim() ?? ""
+      if (sha) entries.push({ sha, subject, body, author, date })
+    }
+    return entries
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * OpenAICompatibleProvider — ILLMProvider implementation for any server that
+ * speaks the OpenAI Chat Completions / Embeddings API: vLLM, llama.cpp
+ * server, Ollama, LM Studio. Lets the pipeline run fully air-gapped.
+ *
+ * Uses the `openai` SDK pointed at LLM_BASE_URL.
+ * Structured output: Zod schemas (lib/justification/schemas.ts and friends)
+ * are converted to JSON Schema and sent as `response_format: json_schema`,
+ * which these servers enforce with grammar-constrained decoding. Non-Zod
+ * schemas fall back to `json_object` mode.
+ *
+ * Includes:
+ *  - Proactive sliding-window rate limiting (RPM/TPM), shared with BedrockProvider
+ *  - SDK-level retries with backoff for 429 / 5xx
+ */
+
+import type { Fetch } from "openai/core"
+import { z } from "zod"
+
+import { LLM_BASE_URL } from "@/lib/llm/config"
+import { RateLimiter } from "@/lib/llm/rate-limiter"
+import type { BatchProcessingOptions, BatchProcessingResult, ILLMProvider } from "@/lib/ports/llm-provider"
+import type { OrgContext, TokenUsage } from "@/lib/ports/types"
+
+// ── Retry configuration ──────────────────────────────────────────────────────
+
+const RETRY_MAX_ATTEMPTS = parseInt(process.env.LLM_RETRY_MAX_ATTEMPTS ?? "5", 10)
+/** Local models can take minutes on long prompts — be generous. */
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LLM_REQUEST_TIMEOUT_MS ?? "600000", 10)
+
+type ResponseFormat =
+  | { type: "json_schema"; json_schema: { name: string; schema: Record<string, unknown> } }
+  | { type: "json_object" }
+
+export interface OpenAICompatibleProviderOptions {
+  /** API root including /v1 (default: LLM_BASE_URL) */
+  baseURL?: string
+  /** Bearer key; most local servers accept anything (default: LLM_API_KEY) */
+  apiKey?: string
+  /** Injected for tests (fake OpenAI-compatible server) */
+  fetch?: Fetch
+}
+
+/**
+ * Derive the `response_format` for a schema. Zod schemas become JSON Schema
+ * (input shape, so fields with defaults stay optional); anything else only
+ * gets JSON mode and is validated by `schema.parse` afterwards.
+ */
+export function toResponseFormat(schema: { parse: (v: unknown) => unknown }): ResponseFormat {
+  if (!(schema instanceof z.ZodType)) {
+    return { type: "json_object" }
+  }
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" })
+  return { type: "json_schema", json_schema: { name: "result", schema: jsonSchema } }
+}
+
+/**
+ * Parse model output as JSON. Constrained decoding normally yields bare JSON,
+ * but some servers ignore response_format for certain models — tolerate
+ * markdown fences and leading reasoning text.
+ */
+export function parseJsonContent(content: string): unknown {
+  const trimmed = content.trim()
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(trimmed)
+  const candidate = fenced ? fenced[1]!.trim() : trimmed
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    const start = candidate.search(/[[{]/)
+    const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"))
+    if (start === -1 || end <= start) {
+      throw new Error(`[OpenAICompatibleProvider] Model returned no JSON: ${trimmed.slice(0, 200)}`)
+    }
+    return JSON.parse(candidate.slice(start, end + 1))
+  }
+}
+
+export class OpenAICompatibleProvider implements ILLMProvider {
+  private readonly rateLimiter = new RateLimiter()
+  private readonly options: OpenAICompatibleProviderOptions
+  private client: import("openai").default | null = null
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    this.options = options
+  }
+
+  /** Lazily construct the SDK client so importing the adapter never loads `openai`. */
+  private getClient(): import("openai").default {
+    if (!this.client) {
+      const mod = require("openai") as typeof import("openai")
+      this.client = new mod.default({
+        baseURL: this.options.baseURL ?? LLM_BASE_URL,
+        apiKey: this.options.apiKey ?? process.env.LLM_API_KEY ?? "not-needed",
+        maxRetries: RETRY_MAX_ATTEMPTS - 1,
+        timeout: REQUEST_TIMEOUT_MS,
+        fetch: this.options.fetch,
+      })
+    }
+    return this.client
+  }
+
+  /** Rough token estimate: ~4 chars per token for English text. */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4)
+  }
+
+  async generateObject<T>(params: {
+    model: string
+    schema: { parse: (v: unknown) => T }
+    prompt: string
+    system?: string
+    context?: OrgContext
+    temperature?: number
+  }): Promise<{ object: T; usage: TokenUsage }> {
+    // Pre-check: wait until estimated tokens fit within TPM budget
+    const estimatedTokens = this.estimateTokens(params.prompt + (params.system ?? ""))
+    await this.rateLimiter.waitForTokenBudget(estimatedTokens)
+    await this.rateLimiter.waitForSlot()
+
+    const messages: Array<{ role: "system" | "user"; content: string }> = []
+    if (params.system) messages.push({ role: "system", content: params.system })
+    messages.push({ role: "user", content: params.prompt })
+
+    const completion = await this.getClient().chat.completions.create({
+      model: params.model,
+      messages,
+      temperature: params.temperature ?? 0.1,
+      response_format: toResponseFormat(params.schema),
+    })
+
+    const usage: TokenUsage = {
+      inputTokens: completion.usage?.prompt_tokens ?? 0,
+      outputTokens: completion.usage?.completion_tokens ?? 0,
+    }
+
+    // Record actual token usage for TPM tracking
+    await this.rateLimiter.recordUsage(usage.inputTokens + usage.outputTokens)
+
+    const content = completion.choices[0]?.message.content ?? ""
+    const parsed = params.schema.parse(parseJsonContent(content))
+    return { object: parsed, usage }
+  }
+
+  async *streamText(params: {
+    model: string
+    prompt: string
+    context?: OrgContext
+  }): AsyncIterable<string> {
+    // Wait for rate limiter before initiating the stream
+    await this.rateLimiter.waitForSlot()
+
+    const stream = await this.getClient().chat.completions.create({
+      model: params.model,
+      messages: [{ role: "user", content: params.prompt }],
+      stream: true,
+    })
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content
+      if (text) yield text
+    }
+  }
+
+  async embed(params: { model: string; texts: string[] }): Promise<number[][]> {
+    if (params.texts.length === 0) return []
+    await this.rateLimiter.waitForSlot()
+
+    const response = await this.getClient().embeddings.create({
+      model: params.model,
+      input: params.texts,
+      encoding_format: "float",
+    })
+    // Servers may return out of order under batching — restore input order
+    return [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding)
+  }
+
+  async generateBatchObjects<TItem, TResult>(
+    params: BatchProcessingOptions<TItem, TResult>
+  ): Promise<BatchProcessingResult<TItem, TResult>> {
+    const { processBatch, getDefaultBatchConfig } = require("@/lib/llm/batch-processor") as typeof import("@/lib/llm/batch-processor")
+    const config = getDefaultBatchConfig()
+    if (params.maxConcurrency) config.maxConcurrency = params.maxConcurrency
+    if (params.maxItemsPerBatch) config.maxItemsPerBatch = params.maxItemsPerBatch
+
+    return processBatch(
+      config,
+      params,
+      async (prompt) => {
+        const result = await this.generateObject({
+          model: params.model,
+          schema: params.schema,
+          prompt,
+          system: params.system,
+          context: params.context,
+          temperature: params.temperature,
+        })
+        return result.object
+      },
+      async (prompt) => {
+        const result = await this.generateObject({
+          model: params.model,
+          schema: params.batchSchema,
+          prompt,
+          system: params.system,
+          context: params.context,
+          temperature: params.temperature,
+        })
+        return result.object
+      },
+    )
+  }
+}
@@ -261,6 +261,13 @@ export class PrismaRelationalStore implements IRelationalStore {
     return row ? this.mapRepo(row) : null
   }
 
+  async getRepoByProviderId(provider: string, providerId: string): Promise<RepoRecord | null> {
+    const row = await this.prisma.repo.findFirst({
+      where: { provider: provider as "github" | "gitlab" | "bitbucket" | "local_cli", providerId },
+    })
+    return row ? this.mapRepo(row) : null
+  }
+
   async getReposByStatus(orgId: string, status: string): Promise<RepoRecord[]> {
     const rows = await this.prisma.repo.findMany({
       where: { organizationId: orgId, status: status as "pending" | "indexing" | "ready" | "error" | "deleting" },
@@ -804,8 +811,8 @@ export class PrismaRelationalStore implements IRelationalStore {
     const id = crypto.randomUUID()
     const now = new Date().toISOString()
     await this.prisma.$executeRaw`
-      INSERT INTO unerr.pr_review_comments (id, review_id, check_type, severity, file_path, line_number, message, rule_title, semgrep_rule_id, suggestion, auto_fix, created_at)
-      VALUES (${id}, ${data.reviewId}, ${data.checkType}, ${data.severity}, ${data.filePath ?? null}, ${data.lineNumber ?? null}, ${data.message}, ${data.ruleTitle ?? null}, ${data.semgrepRuleId ?? null}, ${data.suggestion ?? null}, ${data.autoFix ?? null}, ${now})
+      INSERT INTO unerr.pr_review_comments (id, review_id, check_type, severity, file_path, line_number, message, rule_title, semgrep_rule_id, suggestion, github_comment_id, auto_fix, created_at)
+      VALUES (${id}, ${data.reviewId}, ${data.checkType}, ${data.severity}, ${data.filePath ?? null}, ${data.lineNumber ?? null}, ${data.message}, ${data.ruleTitle ?? null}, ${data.semgrepRuleId ?? null}, ${data.suggestion ?? null}, ${data.githubCommentId ?? null}, ${data.autoFix ?? null}, ${now})
     `
     return { ...data, id, createdAt: now }
   }
@@ -814,21 +821,17 @@ export class PrismaRelationalStore implements IRelationalStore {
     const rows = await this.prisma.$queryRaw<Array<Record<string, unknown>>>`
       SELECT * FROM unerr.pr_review_comments WHERE review_id = ${reviewId} ORDER BY created_at ASC LIMIT 500
     `
-    return rows.map((r) => ({
-      id: String(r.id),
-      reviewId: String(r.review_id),
-      checkType: String(r.check_type) as PrReviewCommentRecord["checkType"],
-      severity: String(r.severity) as PrReviewCommentRecord["severity"],
-      filePath: String(r.file_path ?? ""),
-      lineNumber: Number(r.line_number ?? 0),
-      message: String(r.message),
-      ruleTitle: r.rule_title ? String(r.rule_title) : null,
-      semgrepRuleId: r.semgrep_rule_id ? String(r.semgrep_rule_id) : null,
-      suggestion: r.suggestion ? String(r.suggestion) : null,
-      githubCommentId: r.github_comment_id != null ? Number(r.github_comment_id) : null,
-      autoFix: r.auto_fix ? String(r.auto_fix) : null,
-      createdAt: String(r.created_at),
-    }))
+    return rows.map((r) => this.mapPrReviewCommentRow(r))
+  }
+
+  async getPrReviewCommentByGithubId(repoId: string, githubCommentId: number): Promise<PrReviewCommentRecord | null> {
+    const rows = await this.prisma.$queryRaw<Array<Record<string, unknown>>>`
+      SELECT c.* FROM unerr.pr_review_comments c
+      JOIN unerr.pr_reviews r ON r.id = c.review_id
+      WHERE r.repo_id = ${repoId} AND c.github_comment_id = ${githubCommentId}
+      ORDER BY c.created_at DESC LIMIT 1
+    `
+    return rows[0] ? this.mapPrReviewCommentRow(rows[0]) : null
   }
 
   async updateRepoReviewConfig(repoId: string, config: ReviewConfig): Promise<void> {
@@ -842,7 +845,13 @@ export class PrismaRelationalStore implements IRelationalStore {
       SELECT review_config FROM unerr.repos WHERE id = ${repoId} LIMIT 1
     `
     if (rows.length === 0 || !rows[0]!.review_config) return { ...DEFAULT_REVIEW_CONFIG }
-    return { ...DEFAULT_REVIEW_CONFIG, ...(rows[0]!.review_config as ReviewConfig) }
+    const stored = rows[0]!.review_config as ReviewConfig
+    // Checks added after the config was saved default to on
+    return {
+      ...DEFAULT_REVIEW_CONFIG,
+      ...stored,
+      checksEnabled: { ...DEFAULT_REVIEW_CONFIG.checksEnabled, ...stored.checksEnabled },
+    }
   }
 
   async updateRepoManifest(repoId: string, manifestData: string | null): Promise<void> {
@@ -873,6 +882,24 @@ export class PrismaRelationalStore implements IRelationalStore {
       createdAt: String(r.created_at),
     }
   }
+
+  private mapPrReviewCommentRow(r: Record<string, unknown>): PrReviewCommentRecord {
+    return {
+      id: String(r.id),
+      reviewId: String(r.review_id),
+      checkType: String(r.check_type) as PrReviewCommentRecord["checkType"],
+      severity: String(r.severity) as PrReviewCommentRecord["severity"],
+      filePath: String(r.file_path ?? ""),
+      lineNumber: Number(r.line_number ?? 0),
+      message: String(r.message),
+      ruleTitle: r.rule_title ? String(r.rule_title) : null,
+      semgrepRuleId: r.semgrep_rule_id ? String(r.semgrep_rule_id) : null,
+      suggestion: r.suggestion ? String(r.suggestion) : null,
+      githubCommentId: r.github_comment_id != null ? Number(r.github_comment_id) : null,
+      autoFix: r.auto_fix ? String(r.auto_fix) : null,
+      createdAt: String(r.created_at),
+    }
+  }
 }
 
 export default PrismaRelationalStore
@@ -5,16 +5,163 @@
  * per language, parse the SCIP protobuf output, and extract entities + edges.
  *
  * The `indexRepo()` method is the primary entry point used by Temporal
- * activities. IDE-style methods (getDefinitions, getReferences) are planned
- * for Phase 2 (Shadow Workspace overlay).
+ * activities. IDE-style methods (getDefinitions, getReferences) answer from
+ * the stored SCIP artifacts recorded in `ScipIndex` — one per indexer root, so
+ * a monorepo commit loads every package and symbols resolve across them.
+ * `storeScipArtifacts()` writes those artifacts during indexing.
  */
 
+import { dirname, relative, sep } from "node:path"
+import { gunzipSync, gzipSync } from "node:zlib"
+
 import { loadIgnoreFilter } from "@/lib/indexer/ignore"
 import { getPluginsForExtensions, initializeRegistry } from "@/lib/indexer/languages/registry"
 import { detectPackageRoots } from "@/lib/indexer/monorepo"
 import { detectLanguages, scanIndexDir } from "@/lib/indexer/scanner"
+import { decodeSCIPDocuments, parseSCIPSymbol, type SCIPArtifact } from "@/lib/indexer/scip-decoder"
 import type { ParsedEdge, ParsedEntity } from "@/lib/indexer/types"
-import type { Definition, ICodeIntelligence, Reference } from "@/lib/ports/code-intelligence"
+import type { CodeIntelligenceScope, Definition, ICodeIntelligence, Reference } from "@/lib/ports/code-intelligence"
+import type { IStorageProvider } from "@/lib/ports/storage-provider"
+import { logger } from "@/lib/utils/logger"
+
+const log = logger.child({ service: "scip-code-intelligence" })
+
+export const SCIP_BUCKET = "scip-indexes"
+
+/** Decoded indexes kept in memory (one per repo commit) */
+const MAX_CACHED_INDEXES = 4
+
+/** How long a "latest commit" index is reused before the newest ScipIndex is looked up again */
+const LATEST_INDEX_TTL_MS = 60_000
+
+/** A stored SCIP artifact — mirrors the `ScipIndex` Prisma model */
+export interface ScipIndexRef {
+  commitSha: string
+  indexerRoot: string
+  storagePath: string
+}
+
+/** A ScipIndex row as written after indexing */
+export interface ScipIndexRecord extends ScipIndexRef {
+  orgId: string
+  repoId: string
+  sizeBytes: number
+  /** Uncompressed SCIP bytes per language */
+  languageStats: Record<string, number>
+}
+
+export interface SCIPCodeIntelligenceOptions {
+  storage?: IStorageProvider
+  /** Artifacts for one commit (latest when commitSha is omitted), one per indexer root */
+  listIndexes?: (orgId: string, repoId: string, commitSha?: string) => Promise<ScipIndexRef[]>
+}
+
+/** One symbol occurrence with repo-relative path and 1-based positions */
+interface SymbolOccurrence {
+  path: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  symbol: string
+  isDefinition: boolean
+}
+
+interface OccurrenceIndex {
+  byFile: Map<string, SymbolOccurrence[]>
+  bySymbol: Map<string, SymbolOccurrence[]>
+}
+
+async function listIndexesFromPrisma(orgId: string, repoId: string, commitSha?: string): Promise<ScipIndexRef[]> {
+  const { getPrisma } = require("@/lib/db/prisma") as typeof import("@/lib/db/prisma")
+  const prisma = getPrisma()
+  const sha = commitSha ?? (await prisma.scipIndex.findFirst({
+    where: { orgId, repoId },
+    orderBy: { createdAt: "desc" },
+    select: { commitSha: true },
+  }))?.commitSha
+  if (!sha) return []
+  return prisma.scipIndex.findMany({
+    where: { orgId, repoId, commitSha: sha },
+    select: { commitSha: true, indexerRoot: true, storagePath: true },
+  })
+}
+
+async function recordIndexInPrisma(record: ScipIndexRecord): Promise<void> {
+  const { getPrisma } = require("@/lib/db/prisma") as typeof import("@/lib/db/prisma")
+  const { orgId, repoId, commitSha, indexerRoot, storagePath, sizeBytes, languageStats } = record
+  await getPrisma().scipIndex.upsert({
+    where: { repoId_commitSha_indexerRoot: { repoId, commitSha, indexerRoot } },
+    create: { orgId, repoId, commitSha, indexerRoot, storagePath, sizeBytes, languageStats },
+    update: { storagePath, sizeBytes, languageStats },
+  })
+}
+
+/**
+ * Upload the raw SCIP outputs of one indexing run and record them as ScipIndex
+ * rows — one gzipped artifact per indexer root. Outputs of several languages in
+ * the same root are concatenated, which protobuf decodes as one merged Index.
+ */
+export async function storeScipArtifacts(
+  storage: IStorageProvider,
+  input: { orgId: string; repoId: string; commitSha: string; indexDir: string; artifacts: SCIPArtifact[] },
+  recordIndex: (record: ScipIndexRecord) => Promise<void> = recordIndexInPrisma
+): Promise<ScipIndexRef[]> {
+  const byRoot = new Map<string, SCIPArtifact[]>()
+  for (const artifact of input.artifacts) {
+    const root = relative(input.indexDir, dirname(artifact.scipFilePath)).split(sep).join("/") || "."
+    byRoot.set(root, [...(byRoot.get(root) ?? []), artifact])
+  }
+
+  const refs: ScipIndexRef[] = []
+  for (const [indexerRoot, artifacts] of Array.from(byRoot.entries())) {
+    const raw = Buffer.concat(artifacts.map((a) => a.buffer))
+    const storagePath = `${input.orgId}/${input.repoId}/${input.commitSha}/${indexerRoot === "." ? "root" : indexerRoot.replace(/\//g, "__")}.scip.gz`
+    await storage.uploadFile(SCIP_BUCKET, storagePath, gzipSync(raw), "application/gzip")
+
+    const languageStats: Record<string, number> = {}
+    for (const a of artifacts) languageStats[a.language] = (languageStats[a.language] ?? 0) + a.buffer.length
+    await recordIndex({
+      orgId: input.orgId,
+      repoId: input.repoId,
+      commitSha: input.commitSha,
+      indexerRoot,
+      storagePath,
+      sizeBytes: raw.length,
+      languageStats,
+    })
+    refs.push({ commitSha: input.commitSha, indexerRoot, storagePath })
+  }
+  return refs
+}
+
+function joinRoot(indexerRoot: string, relativePath: string): string {
+  const root = indexerRoot.replace(/^\.(\/|$)/, "").replace(/\/+$/, "")
+  return root ? `${root}/${relativePath}` : relativePath
+}
+
+/** Short name of a SCIP symbol: its last descriptor, e.g. "src/`math.ts`/add()." → "add" */
+function symbolName(symbol: string): string | undefined {
+  const name = parseSCIPSymbol(symbol)?.name
+  return name?.split(/[/#]/).pop()?.replace(/`/g, "")
+}
+
+/** Same-document scope for `local N` symbols, global otherwise */
+function symbolKey(occ: { path: string; symbol: string }): string {
+  return occ.symbol.startsWith("local ") ? `${occ.path}#${occ.symbol}` : occ.symbol
+}
+
+function toLocation(occ: SymbolOccurrence): Definition {
+  return {
+    path: occ.path,
+    line: occ.line,
+    column: occ.column,
+    endLine: occ.endLine,
+    endColumn: occ.endColumn,
+    symbol: occ.symbol,
+    isDefinition: occ.isDefinition,
+  }
+}
 
 export interface IndexWorkspaceResult {
   filesProcessed: number
@@ -25,6 +172,10 @@ export interface IndexWorkspaceResult {
 }
 
 export class SCIPCodeIntelligence implements ICodeIntelligence {
+  private readonly indexes = new Map<string, { pending: Promise<OccurrenceIndex | null>; loadedAt: number }>()
+
+  constructor(private readonly options: SCIPCodeIntelligenceOptions = {}) {}
+
   /**
    * Index a workspace by running SCIP indexers for each detected language.
    *
@@ -121,20 +272,112 @@ export class SCIPCodeIntelligence implements ICodeIntelligence {
   }
 
   /**
-   * Get definitions at a position (Phase 2 — Shadow Workspace).
-   * Requires SCIP index to be loaded and queried in-memory.
+   * Definitions of the symbol at a position, from the stored SCIP index.
+   * Returns [] without a scope, when nothing is indexed or no symbol is there.
    */
-  async getDefinitions(_filePath: string, _line: number, _column: number): Promise<Definition[]> {
-    // Phase 2: Will query cached SCIP index for definitions
-    return []
+  async getDefinitions(filePath: string, line: number, column: number, scope?: CodeIntelligenceScope): Promise<Definition[]> {
+    const found = await this.lookup(filePath, line, column, scope)
+    if (!found) return []
+    return (found.index.bySymbol.get(symbolKey(found.occurrence)) ?? [])
+      .filter((o) => o.isDefinition)
+      .map(toLocation)
   }
 
   /**
-   * Get references at a position (Phase 2 — Shadow Workspace).
-   * Requires SCIP index to be loaded and queried in-memory.
+   * Every occurrence (definitions included, flagged) of the symbol at a
+   * position, across all packages indexed for the commit.
    */
-  async getReferences(_filePath: string, _line: number, _column: number): Promise<Reference[]> {
-    // Phase 2: Will query cached SCIP index for references
-    return []
+  async getReferences(filePath: string, line: number, column: number, scope?: CodeIntelligenceScope): Promise<Reference[]> {
+    const found = await this.lookup(filePath, line, column, scope)
+    if (!found) return []
+    return (found.index.bySymbol.get(symbolKey(found.occurrence)) ?? []).map(toLocation)
+  }
+
+  private async lookup(
+    filePath: string,
+    line: number,
+    column: number,
+    scope?: CodeIntelligenceScope
+  ): Promise<{ index: OccurrenceIndex; occurrence: SymbolOccurrence } | null> {
+    if (!scope) return null
+    const index = await this.loadIndex(scope.orgId, scope.repoId, scope.commitSha)
+    if (!index) return null
+
+    const onLine = (index.byFile.get(filePath.replace(/^\.\//, "")) ?? []).filter((o) => o.line === line)
+    const occurrence = scope.symbol
+      ? onLine
+          .filter((o) => symbolName(o.symbol) === scope.symbol)
+          .sort((a, b) => Number(b.isDefinition) - Number(a.isDefinition))[0]
+      : onLine.find((o) => column >= o.column && (o.endLine > line || column < o.endColumn))
+    return occurrence ? { index, occurrence } : null
+  }
+
+  private loadIndex(orgId: string, repoId: string, commitSha?: string): Promise<OccurrenceIndex | null> {
+    const key = `${orgId}/${repoId}@${commitSha ?? "latest"}`
+    const cached = this.indexes.get(key)
+    if (cached && (commitSha || Date.now() - cached.loadedAt < LATEST_INDEX_TTL_MS)) return cached.pending
+
+    // Misses are not cached, so a query before the first indexing run doesn't stick
+    const pending = this.buildIndex(orgId, repoId, commitSha).then(
+      (index) => {
+        if (!index) this.indexes.delete(key)
+        return index
+      },
+      (error: unknown) => {
+        this.indexes.delete(key)
+        throw error
+      }
+    )
+    this.indexes.delete(key)
+    this.indexes.set(key, { pending, loadedAt: Date.now() })
+    if (this.indexes.size > MAX_CACHED_INDEXES) {
+      this.indexes.delete(this.indexes.keys().next().value!)
+    }
+    return pending
+  }
+
+  private async buildIndex(orgId: string, repoId: string, commitSha?: string): Promise<OccurrenceIndex | null> {
+    const storage = this.options.storage
+    if (!storage) {
+      log.warn("No storage provider configured; SCIP queries disabled", { orgId, repoId })
+      return null
+    }
+    const listIndexes = this.options.listIndexes ?? listIndexesFromPrisma
+    const refs = await listIndexes(orgId, repoId, commitSha)
+    if (refs.length === 0) return null
+
+    const index: OccurrenceIndex = { byFile: new Map(), bySymbol: new Map() }
+
+    for (const ref of refs) {
+      let buffer = await storage.downloadFile(SCIP_BUCKET, ref.storagePath)
+      // Artifacts may be stored gzipped
+      if (buffer[0] === 0x1f && buffer[1] === 0x8b) buffer = gunzipSync(buffer)
+
+      for (const doc of decodeSCIPDocuments(buffer)) {
+        const path = joinRoot(ref.indexerRoot, doc.relativePath)
+        const fileOccurrences: SymbolOccurrence[] = []
+        for (const occ of doc.occurrences) {
+          const [startLine = 0, startChar = 0] = occ.range
+          const sameLine = occ.range.length === 3
+          const occurrence: SymbolOccurrence = {
+            path,
+            line: startLine + 1,
+            column: startChar + 1,
+            endLine: (sameLine ? startLine : occ.range[2] ?? startLine) + 1,
+            endColumn: (sameLine ? occ.range[2]! : occ.range[3] ?? startChar) + 1,
+            symbol: occ.symbol,
+            isDefinition: occ.isDefinition,
+          }
+          fileOccurrences.push(occurrence)
+          const bucket = index.bySymbol.get(symbolKey(occurrence)) ?? []
+          bucket.push(occurrence)
+          index.bySymbol.set(symbolKey(occurrence), bucket)
+        }
+        index.byFile.set(path, [...(index.byFile.get(path) ?? []), ...fileOccurrences])
+      }
+    }
+
+    log.info("Loaded SCIP index", { orgId, repoId, commitSha: refs[0]!.commitSha.slice(0, 8), roots: refs.length, files: index.byFile.size })
+    return index
   }
 }
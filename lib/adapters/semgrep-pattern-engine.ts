@@ -30,6 +30,7 @@ export class SemgrepPatternEngine implements IPatternEngine {
           check_id: string
           path: string
           start: { line: number; col: number }
+          end?: { line: number; col: number }
           extra?: { message?: string; severity?: string; fix?: string; lines?: string }
         }>
       }
@@ -46,6 +47,8 @@ export class SemgrepPatternEngine implements IPatternEngine {
           file: r.path,
           line: r.start.line,
           column: r.start.col,
+          endLine: r.end?.line,
+          endColumn: r.end?.col,
           message: r.extra?.message,
           severity: mapSeverity(r.extra?.severity),
           fix: r.extra?.fix,
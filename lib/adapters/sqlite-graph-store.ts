@@ -0,0 +1,1501 @@
+/**
+ * SqliteGraphStore — IGraphStore implementation on an embedded SQLite database
+ * (better-sqlite3) for single-node deployments and integration tests.
+ *
+ * Mirrors the ArangoDB data model instead of normalising it: every document
+ * lives in one `documents` table keyed by its `collection/key` handle with the
+ * body as JSON, and every edge in an `edges` table with `from_id` / `to_id`
+ * handles. Collection names, kind mapping and bare-key qualification come from
+ * graph-collections.ts, so documents written by the indexer look identical on
+ * both backends. Traversals (callers/callees, impactAnalysis, getSubgraph,
+ * getImports) are recursive CTEs that prune at tombstones like the AQL PRUNE.
+ *
+ * The database file defaults to SQLITE_GRAPH_PATH (./.unerr/graph.db) in WAL
+ * mode so the web app and workers on the same host can read concurrently.
+ * better-sqlite3 is required() lazily so the Arango-backed build never loads it.
+ */
+
+import type { Database } from "better-sqlite3"
+import { createHash, randomUUID } from "node:crypto"
+import { mkdirSync } from "node:fs"
+import { dirname } from "node:path"
+
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type {
+  ADRDoc,
+  BlueprintData,
+  BoundedContextFinding,
+  DomainOntologyDoc,
+  DriftScoreDoc,
+  EdgeDoc,
+  EntityDelta,
+  EntityDoc,
+  EntityWarningDoc,
+  FeatureAggregation,
+  FeatureDoc,
+  GraphPath,
+  HealthReportDoc,
+  ImpactReportDoc,
+  ImpactResult,
+  ImportChain,
+  IndexEventDoc,
+  JustificationDoc,
+  LayerDefinitionDoc,
+  LedgerEntry,
+  LedgerEntryStatus,
+  LedgerSummary,
+  LedgerTimelineQuery,
+  MinedPatternDoc,
+  PaginatedResult,
+  PathEdgeKind,
+  PatternDoc,
+  PatternFilter,
+  ProjectStats,
+  RuleDoc,
+  RuleExceptionDoc,
+  RuleFilter,
+  RuleHealthDoc,
+  SearchResult,
+  SnippetDoc,
+  SnippetFilter,
+  SubgraphResult,
+  TokenUsageEntry,
+  TokenUsageSummary,
+  WorkingSnapshot,
+} from "@/lib/ports/types"
+import { validateLedgerTransition } from "@/lib/ports/types"
+import type { DocumentationProposal } from "@/lib/temporal/activities/drift-documentation"
+import { logger } from "@/lib/utils/logger"
+
+import {
+  ALL_ENTITY_COLLECTIONS,
+  DOC_COLLECTIONS,
+  EDGE_COLLECTIONS,
+  ENTITY_COLLECTIONS_FOR_FILE,
+  KIND_TO_COLLECTION,
+  qualifyVertexHandle,
+} from "./graph-collections"
+import { clampPathOptions, kShortestPaths } from "./graph-paths"
+
+const sqliteLog = logger.child({ service: "sqlite-graph-store" })
+
+/** Edge collections walked by getSubgraph / getBatchSubgraphs. */
+const SUBGRAPH_EDGE_COLLECTIONS = ["calls", "imports", "extends", "implements"] as const
+
+/** rule_exceptions is declared as an edge collection but stored as plain documents. */
+const GRAPH_EDGE_COLLECTIONS: readonly string[] = EDGE_COLLECTIONS.filter((c) => c !== "rule_exceptions")
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY,
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    org_id TEXT,
+    repo_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_documents_tenant ON documents (collection, org_id, repo_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_file ON documents (collection, org_id, repo_id, json_extract(data, '$.file_path'));
+  CREATE INDEX IF NOT EXISTS idx_documents_entity ON documents (collection, org_id, json_extract(data, '$.entity_id'));
+  CREATE INDEX IF NOT EXISTS idx_documents_scope ON documents (repo_id, json_extract(data, '$.scope'));
+
+  CREATE TABLE IF NOT EXISTS edges (
+    id TEXT PRIMARY KEY,
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    from_id TEXT NOT NULL,
+    to_id TEXT NOT NULL,
+    org_id TEXT,
+    repo_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_edges_from ON edges (from_id, collection);
+  CREATE INDEX IF NOT EXISTS idx_edges_to ON edges (to_id, collection);
+  CREATE INDEX IF NOT EXISTS idx_edges_tenant ON edges (collection, org_id, repo_id);
+`
+
+interface DocRow {
+  id: string
+  collection: string
+  key: string
+  data: string
+}
+
+interface EdgeRow {
+  collection: string
+  key: string
+  from_id: string
+  to_id: string
+  data: string
+}
+
+/** JSON array parameter for `IN (SELECT value FROM json_each(?))`. */
+function list(values: readonly string[]): string {
+  return JSON.stringify(values)
+}
+
+/** Strip storage-level identity fields before persisting a document body. */
+function toBody(doc: Record<string, unknown>): Record<string, unknown> {
+  const { id: _id, _key, _id: _handle, _rev, _from, _to, ...rest } = doc
+  return rest
+}
+
+function toDoc<T>(row: { key: string; data: string }): T {
+  return { id: row.key, ...(JSON.parse(row.data) as Record<string, unknown>) } as T
+}
+
+/** Edges come back in Arango shape: _key/_id/_from/_to plus the stored body. */
+function toEdge(row: EdgeRow): EdgeDoc {
+  return {
+    ...(JSON.parse(row.data) as EdgeDoc),
+    _key: row.key,
+    _id: `${row.collection}/${row.key}`,
+    _from: row.from_id,
+    _to: row.to_id,
+  }
+}
+
+/** Stable edge key so re-upserting the same edge is idempotent. */
+function edgeKey(from: string, to: string, scope?: string, indexVersion?: string): string {
+  return createHash("sha1").update(`${from}|${to}|${scope ?? ""}|${indexVersion ?? ""}`).digest("hex").slice(0, 24)
+}
+
+function entityCollection(kind: string | undefined): string {
+  return KIND_TO_COLLECTION[kind ?? "function"] ?? "functions"
+}
+
+export interface SqliteGraphStoreOptions {
+  /** Database file, or ":memory:" (default: SQLITE_GRAPH_PATH or .unerr/graph.db) */
+  path?: string
+}
+
+export class SqliteGraphStore implements IGraphStore {
+  private readonly path: string
+  private db: Database | null = null
+
+  constructor(options: SqliteGraphStoreOptions = {}) {
+    this.path = options.path ?? process.env.SQLITE_GRAPH_PATH ?? ".unerr/graph.db"
+  }
+
+  private getDb(): Database {
+    if (!this.db) {
+      const BetterSqlite3 = require("better-sqlite3") as typeof import("better-sqlite3")
+      if (this.path !== ":memory:") mkdirSync(dirname(this.path), { recursive: true })
+      const db = new BetterSqlite3(this.path)
+      db.pragma("journal_mode = WAL")
+      db.pragma("busy_timeout = 5000")
+      db.exec(SCHEMA)
+      this.db = db
+    }
+    return this.db
+  }
+
+  /** Close the database handle (tests, graceful shutdown). */
+  close(): void {
+    this.db?.close()
+    this.db = null
+  }
+
+  // ── Storage primitives ─────────────────────────────────────────
+
+  /**
+   * Write documents into a collection. "update" merges top-level fields into an
+   * existing document (Arango onDuplicate: "update"); "replace" overwrites it.
+   */
+  private putDocs(
+    collection: string,
+    docs: Array<{ key: string; doc: Record<string, unknown> }>,
+    mode: "update" | "replace" = "update"
+  ): { created: number; updated: number } {
+    const db = this.getDb()
+    const select = db.prepare<[string], { data: string }>("SELECT data FROM documents WHERE id = ?")
+    const upsert = db.prepare(
+      `INSERT INTO documents (id, collection, key, org_id, repo_id, data) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET org_id = excluded.org_id, repo_id = excluded.repo_id, data = excluded.data`
+    )
+    let created = 0
+    let updated = 0
+    db.transaction(() => {
+      for (const { key, doc } of docs) {
+        const id = `${collection}/${key}`
+        const existing = select.get(id)
+        const body = existing && mode === "update"
+          ? { ...(JSON.parse(existing.data) as Record<string, unknown>), ...toBody(doc) }
+          : toBody(doc)
+        upsert.run(id, collection, key, (body.org_id as string) ?? null, (body.repo_id as string) ?? null, JSON.stringify(body))
+        if (existing) updated++
+        else created++
+      }
+    })()
+    return { created, updated }
+  }
+
+  private getDoc<T>(collection: string, key: string, orgId?: string): T | null {
+    const row = this.getDb()
+      .prepare<[string], DocRow & { org_id: string | null }>("SELECT id, collection, key, org_id, data FROM documents WHERE id = ?")
+      .get(`${collection}/${key}`)
+    if (!row || (orgId !== undefined && row.org_id !== orgId)) return null
+    return toDoc<T>(row)
+  }
+
+  /** Merge fields into an existing document. Returns false when it does not exist for the org. */
+  private patchDoc(collection: string, key: string, orgId: string | undefined, patch: Record<string, unknown>): boolean {
+    const existing = this.getDoc<Record<string, unknown>>(collection, key, orgId)
+    if (!existing) return false
+    this.putDocs(collection, [{ key, doc: patch }])
+    return true
+  }
+
+  private putEdges(collection: string, edges: EdgeDoc[]): number {
+    const db = this.getDb()
+    const upsert = db.prepare(
+      `INSERT INTO edges (id, collection, key, from_id, to_id, org_id, repo_id, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET from_id = excluded.from_id, to_id = excluded.to_id,
+         org_id = excluded.org_id, repo_id = excluded.repo_id, data = excluded.data`
+    )
+    db.transaction(() => {
+      for (const e of edges) {
+        const from = qualifyVertexHandle(e._from)
+        const to = qualifyVertexHandle(e._to)
+        const key = (e._key as string | undefined) ?? edgeKey(from, to, e.scope, e.index_version)
+        const body = toBody(e as Record<string, unknown>)
+        upsert.run(`${collection}/${key}`, collection, key, from, to, e.org_id ?? null, e.repo_id ?? null, JSON.stringify(body))
+      }
+    })()
+    return edges.length
+  }
+
+  /** Group edges by kind → edge collection (unknown kinds land in `calls`, as in Arango). */
+  private writeEdges(orgId: string, edges: EdgeDoc[], extra: Record<string, unknown> = {}): number {
+    const byKind = new Map<string, EdgeDoc[]>()
+    for (const e of edges) {
+      const kind = (e.kind as string) ?? "calls"
+      const coll = GRAPH_EDGE_COLLECTIONS.includes(kind) ? kind : "calls"
+      if (!byKind.has(coll)) byKind.set(coll, [])
+      byKind.get(coll)!.push({ ...e, ...extra, org_id: e.org_id ?? orgId })
+    }
+    let written = 0
+    for (const [collName, group] of Array.from(byKind.entries())) {
+      written += this.putEdges(collName, group)
+    }
+    return written
+  }
+
+  private queryDocs<T>(sql: string, ...params: unknown[]): T[] {
+    return this.getDb().prepare<unknown[], DocRow>(sql).all(...params).map((row) => toDoc<T>(row))
+  }
+
+  private queryEdges(sql: string, ...params: unknown[]): EdgeDoc[] {
+    return this.getDb().prepare<unknown[], EdgeRow>(sql).all(...params).map(toEdge)
+  }
+
+  /** Handles of the documents `key` resolves to within the org (one per matching collection). */
+  private resolveHandles(orgId: string, key: string, collections: readonly string[]): DocRow[] {
+    return this.getDb()
+      .prepare<[string, string, string], DocRow>(
+        `SELECT id, collection, key, data FROM documents
+         WHERE id IN (SELECT value FROM json_each(?)) AND org_id = ? AND key = ?`
+      )
+      .all(list(collections.map((c) => `${c}/${key}`)), orgId, key)
+  }
+
+  /**
+   * Breadth-first walk over edge collections from a set of start handles.
+   * Tombstones and other orgs' vertices are pruned. Returns each reached
+   * vertex with its shortest distance, plus the edges walked within maxDepth.
+   */
+  private traverse(
+    orgId: string,
+    startIds: string[],
+    collections: readonly string[],
+    direction: "inbound" | "outbound" | "any",
+    maxDepth: number
+  ): { vertices: Array<{ id: string; depth: number }>; edgeIds: string[] } {
+    if (startIds.length === 0) return { vertices: [], edgeIds: [] }
+    const join = direction === "outbound"
+      ? "e.from_id = w.vertex"
+      : direction === "inbound"
+        ? "e.to_id = w.vertex"
+        : "(e.from_id = w.vertex OR e.to_id = w.vertex)"
+    const next = direction === "outbound"
+      ? "e.to_id"
+      : direction === "inbound"
+        ? "e.from_id"
+        : "CASE WHEN e.from_id = w.vertex THEN e.to_id ELSE e.from_id END"
+
+    const rows = this.getDb()
+      .prepare<[string, number, string, string], { vertex: string; depth: number; edge: string | null }>(
+        `WITH RECURSIVE walk (vertex, depth, edge) AS (
+           SELECT value, 0, NULL FROM json_each(?)
+           UNION
+           SELECT ${next}, w.depth + 1, e.id
+           FROM walk w
+           JOIN edges e ON ${join}
+           JOIN documents v ON v.id = ${next}
+           WHERE w.depth < ?
+             AND e.collection IN (SELECT value FROM json_each(?))
+             AND v.org_id = ?
+             AND coalesce(json_extract(v.data, '$.kind'), '') != 'tombstone'
+         )
+         SELECT vertex, depth, edge FROM walk WHERE depth > 0`
+      )
+      .all(list(startIds), maxDepth, list(collections), orgId)
+
+    const depths = new Map<string, number>()
+    const edgeIds = new Set<string>()
+    for (const row of rows) {
+      if (startIds.includes(row.vertex)) continue
+      const known = depths.get(row.vertex)
+      if (known === undefined || row.depth < known) depths.set(row.vertex, row.depth)
+      if (row.edge) edgeIds.add(row.edge)
+    }
+    const vertices = Array.from(depths.entries())
+      .map(([id, depth]) => ({ id, depth }))
+      .sort((a, b) => a.depth - b.depth)
+    return { vertices, edgeIds: Array.from(edgeIds) }
+  }
+
+  private loadDocsByIds<T>(ids: string[]): T[] {
+    if (ids.length === 0) return []
+    const rows = this.getDb()
+      .prepare<[string], DocRow>("SELECT id, collection, key, data FROM documents WHERE id IN (SELECT value FROM json_each(?))")
+      .all(list(ids))
+    const byId = new Map(rows.map((r) => [r.id, r]))
+    return ids.flatMap((id) => (byId.has(id) ? [toDoc<T>(byId.get(id)!)] : []))
+  }
+
+  private loadEdgesByIds(ids: string[]): EdgeDoc[] {
+    if (ids.length === 0) return []
+    return this.queryEdges(
+      "SELECT collection, key, from_id, to_id, data FROM edges WHERE id IN (SELECT value FROM json_each(?))",
+      list(ids)
+    )
+  }
+
+  // ── Schema & health ────────────────────────────────────────────
+
+  async bootstrapGraphSchema(): Promise<void> {
+    // Schema is applied on open; CREATE ... IF NOT EXISTS makes this idempotent
+    this.getDb().exec(SCHEMA)
+  }
+
+  async healthCheck(): Promise<{ status: "up" | "down"; latencyMs?: number }> {
+    const start = Date.now()
+    try {
+      this.getDb().prepare("SELECT 1").get()
+      return { status: "up", latencyMs: Date.now() - start }
+    } catch {
+      return { status: "down", latencyMs: Date.now() - start }
+    }
+  }
+
+  // ── Entities & edges ───────────────────────────────────────────
+
+  async upsertEntity(orgId: string, entity: EntityDoc): Promise<void> {
+    await this.bulkUpsertEntities(orgId, [entity])
+  }
+
+  async getEntity(orgId: string, entityId: string): Promise<EntityDoc | null> {
+    for (const collName of ALL_ENTITY_COLLECTIONS) {
+      const doc = this.getDoc<EntityDoc>(collName, entityId, orgId)
+      if (doc) return doc
+    }
+    return null
+  }
+
+  async deleteEntity(orgId: string, entityId: string): Promise<void> {
+    await this.batchDeleteEntities(orgId, [entityId])
+  }
+
+  async upsertEdge(orgId: string, edge: EdgeDoc): Promise<void> {
+    await this.bulkUpsertEdges(orgId, [edge])
+  }
+
+  private getConnectedEntities(orgId: string, entityId: string, direction: "inbound" | "outbound", depth = 1): EntityDoc[] {
+    const startIds = this.resolveHandles(orgId, entityId, ENTITY_COLLECTIONS_FOR_FILE).map((r) => r.id)
+    const maxDepth = Math.min(Math.max(depth, 1), 5)
+    const { vertices } = this.traverse(orgId, startIds, ["calls"], direction, maxDepth)
+    return this.loadDocsByIds<EntityDoc>(vertices.slice(0, 500).map((v) => v.id))
+  }
+
+  async getCallersOf(orgId: string, entityId: string, depth?: number): Promise<EntityDoc[]> {
+    return this.getConnectedEntities(orgId, entityId, "inbound", depth)
+  }
+
+  async getCalleesOf(orgId: string, entityId: string, depth?: number): Promise<EntityDoc[]> {
+    return this.getConnectedEntities(orgId, entityId, "outbound", depth)
+  }
+
+  async impactAnalysis(orgId: string, entityId: string, maxDepth: number): Promise<ImpactResult> {
+    const startIds = this.resolveHandles(orgId, entityId, ENTITY_COLLECTIONS_FOR_FILE).map((r) => r.id)
+    const clampedDepth = Math.min(Math.max(maxDepth, 1), 10)
+    const { vertices } = this.traverse(orgId, startIds, ["calls"], "inbound", clampedDepth)
+    const affected = this.loadDocsByIds<EntityDoc>(vertices.slice(0, 500).map((v) => v.id))
+    return { entityId, affected }
+  }
+
+  async getEntitiesByFile(orgId: string, repoId: string, filePath: string): Promise<EntityDoc[]> {
+    const docs = this.queryDocs<EntityDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+         AND json_extract(data, '$.file_path') = ?
+       ORDER BY coalesce(json_extract(data, '$.start_line'), 0) ASC`,
+      list(ENTITY_COLLECTIONS_FOR_FILE), orgId, repoId, filePath
+    )
+    // Deduplicate by id (same entity may appear in multiple collections due to kind mapping)
+    const seen = new Set<string>()
+    return docs.filter((e) => {
+      if (seen.has(e.id)) return false
+      seen.add(e.id)
+      return true
+    })
+  }
+
+  async bulkUpsertEntities(orgId: string, entities: EntityDoc[]): Promise<void> {
+    if (entities.length === 0) return
+    const start = Date.now()
+    const byKind = new Map<string, Array<{ key: string; doc: Record<string, unknown> }>>()
+    for (const e of entities) {
+      const coll = entityCollection(e.kind)
+      if (!byKind.has(coll)) byKind.set(coll, [])
+      const key = (e.id ?? (e as { _key?: string })._key) as string
+      byKind.get(coll)!.push({ key, doc: { ...e, org_id: e.org_id ?? orgId } })
+    }
+    for (const [collName, docs] of Array.from(byKind.entries())) {
+      this.putDocs(collName, docs)
+    }
+    sqliteLog.info("Bulk upsert entities complete", { orgId, total: entities.length, durationMs: Date.now() - start })
+  }
+
+  async bulkUpsertEdges(orgId: string, edges: EdgeDoc[]): Promise<void> {
+    if (edges.length === 0) return
+    const start = Date.now()
+    this.writeEdges(orgId, edges)
+    sqliteLog.info("Bulk upsert edges complete", { orgId, total: edges.length, durationMs: Date.now() - start })
+  }
+
+  async bulkImportRaw(
+    orgId: string,
+    collection: string,
+    docs: Record<string, unknown>[]
+  ): Promise<{ created: number; errors: number; updated: number }> {
+    if (docs.length === 0) return { created: 0, errors: 0, updated: 0 }
+    const enriched: Record<string, unknown>[] = docs.map((d) => ({ ...d, org_id: d.org_id ?? orgId }))
+
+    if (GRAPH_EDGE_COLLECTIONS.includes(collection)) {
+      const valid = enriched.filter((d) => typeof d._from === "string" && typeof d._to === "string") as EdgeDoc[]
+      this.putEdges(collection, valid)
+      return { created: valid.length, errors: enriched.length - valid.length, updated: 0 }
+    }
+
+    let errors = 0
+    const rows: Array<{ key: string; doc: Record<string, unknown> }> = []
+    for (const d of enriched) {
+      const key = (d._key ?? d.id) as string | undefined
+      if (!key) {
+        errors++
+        continue
+      }
+      rows.push({ key, doc: d })
+    }
+    const { created, updated } = this.putDocs(collection, rows)
+    return { created, errors, updated }
+  }
+
+  async getFilePaths(orgId: string, repoId: string): Promise<{ path: string }[]> {
+    return this.getDb()
+      .prepare<[string, string], { path: string }>(
+        `SELECT DISTINCT json_extract(data, '$.file_path') AS path FROM documents
+         WHERE collection = 'files' AND org_id = ? AND repo_id = ?
+         ORDER BY path ASC`
+      )
+      .all(orgId, repoId)
+  }
+
+  async deleteRepoData(orgId: string, repoId: string): Promise<void> {
+    const db = this.getDb()
+    const docs = db
+      .prepare("DELETE FROM documents WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?")
+      .run(list([...DOC_COLLECTIONS, "rule_exceptions"]), orgId, repoId)
+    const edges = db.prepare("DELETE FROM edges WHERE org_id = ? AND repo_id = ?").run(orgId, repoId)
+    sqliteLog.info("Repo graph data deleted", { orgId, repoId, totalRemoved: docs.changes + edges.changes })
+  }
+
+  // ── Rules & patterns ───────────────────────────────────────────
+
+  async upsertRule(orgId: string, rule: RuleDoc): Promise<void> {
+    this.putDocs("rules", [{ key: rule.id, doc: { ...rule, org_id: rule.org_id ?? orgId, updated_at: new Date().toISOString() } }])
+  }
+
+  async queryRules(orgId: string, filter: RuleFilter): Promise<RuleDoc[]> {
+    const where = ["collection = 'rules'", "org_id = ?"]
+    const params: unknown[] = [orgId]
+    if (filter.repoId) { where.push("(repo_id = ? OR repo_id IS NULL)"); params.push(filter.repoId) }
+    if (filter.scope) { where.push("json_extract(data, '$.scope') = ?"); params.push(filter.scope) }
+    if (filter.type) { where.push("json_extract(data, '$.type') = ?"); params.push(filter.type) }
+    if (filter.status) { where.push("json_extract(data, '$.status') = ?"); params.push(filter.status) }
+    if (filter.enforcement) { where.push("json_extract(data, '$.enforcement') = ?"); params.push(filter.enforcement) }
+    if (filter.language) {
+      where.push("EXISTS (SELECT 1 FROM json_each(data, '$.languages') WHERE value = ?)")
+      params.push(filter.language)
+    }
+    params.push(Math.min(filter.limit ?? 50, 100))
+    return this.queryDocs<RuleDoc>(
+      `SELECT id, collection, key, data FROM documents WHERE ${where.join(" AND ")}
+       ORDER BY json_extract(data, '$.priority') DESC LIMIT ?`,
+      ...params
+    )
+  }
+
+  async deleteRule(orgId: string, ruleId: string): Promise<void> {
+    this.getDb().prepare("DELETE FROM documents WHERE id = ? AND org_id = ?").run(`rules/${ruleId}`, orgId)
+  }
+
+  async archiveRule(orgId: string, ruleId: string): Promise<void> {
+    this.patchDoc("rules", ruleId, orgId, { status: "archived", updated_at: new Date().toISOString() })
+  }
+
+  async upsertLayerDefinition(orgId: string, definition: LayerDefinitionDoc): Promise<void> {
+    this.putWithOrg("layer_definitions", orgId, [definition])
+  }
+
+  async getLayerDefinition(orgId: string, repoId: string): Promise<LayerDefinitionDoc | null> {
+    return this.listByRepo<LayerDefinitionDoc>("layer_definitions", orgId, repoId, 1, "updated_at")[0] ?? null
+  }
+
+  async upsertPattern(orgId: string, pattern: PatternDoc): Promise<void> {
+    this.putDocs("patterns", [{ key: pattern.id, doc: { ...pattern, org_id: pattern.org_id ?? orgId, updated_at: new Date().toISOString() } }])
+  }
+
+  async queryPatterns(orgId: string, filter: PatternFilter): Promise<PatternDoc[]> {
+    const where = ["collection = 'patterns'", "org_id = ?"]
+    const params: unknown[] = [orgId]
+    if (filter.repoId) { where.push("repo_id = ?"); params.push(filter.repoId) }
+    if (filter.type) { where.push("json_extract(data, '$.type') = ?"); params.push(filter.type) }
+    if (filter.status) { where.push("json_extract(data, '$.status') = ?"); params.push(filter.status) }
+    if (filter.source) { where.push("json_extract(data, '$.source') = ?"); params.push(filter.source) }
+    if (filter.language) { where.push("json_extract(data, '$.language') = ?"); params.push(filter.language) }
+    if (filter.minConfidence !== undefined) { where.push("json_extract(data, '$.confidence') >= ?"); params.push(filter.minConfidence) }
+    params.push(Math.min(filter.limit ?? 50, 100))
+    return this.queryDocs<PatternDoc>(
+      `SELECT id, collection, key, data FROM documents WHERE ${where.join(" AND ")}
+       ORDER BY json_extract(data, '$.confidence') DESC LIMIT ?`,
+      ...params
+    )
+  }
+
+  async updatePatternStatus(orgId: string, patternId: string, status: string): Promise<void> {
+    this.patchDoc("patterns", patternId, orgId, { status, updated_at: new Date().toISOString() })
+  }
+
+  async getPatternByHash(orgId: string, repoId: string, hash: string): Promise<PatternDoc | null> {
+    const doc = this.getDoc<PatternDoc>("patterns", hash, orgId)
+    return doc && doc.repo_id === repoId ? doc : null
+  }
+
+  async getRuleHealth(orgId: string, ruleId: string): Promise<RuleHealthDoc | null> {
+    return this.queryDocs<RuleHealthDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'rule_health' AND org_id = ? AND json_extract(data, '$.rule_id') = ? LIMIT 1`,
+      orgId, ruleId
+    )[0] ?? null
+  }
+
+  async upsertRuleHealth(orgId: string, health: RuleHealthDoc): Promise<void> {
+    this.putDocs("rule_health", [{ key: health.id, doc: { ...health, org_id: health.org_id ?? orgId, updated_at: new Date().toISOString() } }])
+  }
+
+  async upsertMinedPattern(orgId: string, pattern: MinedPatternDoc): Promise<void> {
+    this.putDocs("mined_patterns", [{ key: pattern.id, doc: { ...pattern, org_id: pattern.org_id ?? orgId } }])
+  }
+
+  async queryMinedPatterns(orgId: string, repoId: string): Promise<MinedPatternDoc[]> {
+    return this.queryDocs<MinedPatternDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'mined_patterns' AND org_id = ? AND repo_id = ?
+       ORDER BY json_extract(data, '$.confidence') DESC LIMIT 100`,
+      orgId, repoId
+    )
+  }
+
+  async upsertImpactReport(orgId: string, report: ImpactReportDoc): Promise<void> {
+    this.putDocs("impact_reports", [{ key: report.id, doc: { ...report, org_id: report.org_id ?? orgId } }])
+  }
+
+  async getImpactReport(orgId: string, ruleId: string): Promise<ImpactReportDoc | null> {
+    return this.queryDocs<ImpactReportDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'impact_reports' AND org_id = ? AND json_extract(data, '$.rule_id') = ?
+       ORDER BY json_extract(data, '$.generated_at') DESC LIMIT 1`,
+      orgId, ruleId
+    )[0] ?? null
+  }
+
+  async queryRuleExceptions(orgId: string, ruleId: string): Promise<RuleExceptionDoc[]> {
+    return this.queryDocs<RuleExceptionDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'rule_exceptions' AND org_id = ? AND json_extract(data, '$.rule_id') = ?
+         AND json_extract(data, '$.status') = 'active'
+       LIMIT 500`,
+      orgId, ruleId
+    )
+  }
+
+  async upsertRuleException(orgId: string, exception: RuleExceptionDoc): Promise<void> {
+    this.putDocs("rule_exceptions", [{ key: exception.id, doc: { ...exception, org_id: exception.org_id ?? orgId } }])
+  }
+
+  async updateRuleException(orgId: string, exceptionId: string, status: string): Promise<void> {
+    this.patchDoc("rule_exceptions", exceptionId, orgId, { status })
+  }
+
+  async upsertSnippet(_orgId: string, _snippet: SnippetDoc): Promise<void> {
+    return Promise.resolve()
+  }
+
+  async querySnippets(_orgId: string, _filter: SnippetFilter): Promise<SnippetDoc[]> {
+    return Promise.resolve([])
+  }
+
+  async getFeatures(_orgId: string, _repoId: string): Promise<FeatureDoc[]> {
+    return Promise.resolve([])
+  }
+
+  async getBlueprint(_orgId: string, _repoId: string): Promise<BlueprintData> {
+    return Promise.resolve({ features: [] })
+  }
+
+  // ── Phase 2: Search, imports, stats ────────────────────────────
+
+  async searchEntities(orgId: string, repoId: string, query: string, limit = 20): Promise<SearchResult[]> {
+    const clampedLimit = Math.min(Math.max(limit, 1), 50)
+    const rows = this.getDb()
+      .prepare<[string, string, string, string, string, number], { key: string; data: string }>(
+        `SELECT key, data FROM documents
+         WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+           AND (instr(lower(json_extract(data, '$.name')), lower(?)) > 0
+             OR instr(lower(coalesce(json_extract(data, '$.signature'), '')), lower(?)) > 0)
+         LIMIT ?`
+      )
+      .all(list(ENTITY_COLLECTIONS_FOR_FILE), orgId, repoId, query, query, clampedLimit * ENTITY_COLLECTIONS_FOR_FILE.length)
+
+    const results = rows.map((row) => {
+      const doc = JSON.parse(row.data) as Record<string, unknown>
+      const name = String(doc.name ?? "")
+      return {
+        id: row.key,
+        name,
+        kind: doc.kind as string,
+        file_path: doc.file_path as string,
+        line: (doc.start_line as number) || 0,
+        signature: doc.signature as string | undefined,
+        score: name.length > 0 ? query.length / name.length : 0,
+      }
+    })
+    results.sort((a, b) => (b.score || 0) - (a.score || 0))
+    return results.slice(0, clampedLimit)
+  }
+
+  async getImports(orgId: string, repoId: string, filePath: string, depth = 1): Promise<ImportChain[]> {
+    const clampedDepth = Math.min(Math.max(depth, 1), 5)
+    const file = this.getDb()
+      .prepare<[string, string, string], { id: string }>(
+        `SELECT id FROM documents
+         WHERE collection = 'files' AND org_id = ? AND repo_id = ? AND json_extract(data, '$.file_path') = ? LIMIT 1`
+      )
+      .get(orgId, repoId, filePath)
+    if (!file) return []
+
+    const { vertices } = this.traverse(orgId, [file.id], ["imports"], "outbound", clampedDepth)
+    const chains: ImportChain[] = []
+    const seenPaths = new Set<string>()
+    for (const { id, depth: distance } of vertices) {
+      const target = this.loadDocsByIds<EntityDoc>([id])[0]
+      if (!target || target.repo_id !== repoId || seenPaths.has(target.file_path)) continue
+      seenPaths.add(target.file_path)
+      const entities = (await this.getEntitiesByFile(orgId, repoId, target.file_path)).map((ent) => ({
+        id: ent.id,
+        name: ent.name,
+        kind: ent.kind,
+        file_path: ent.file_path,
+      })) as EntityDoc[]
+      chains.push({ path: target.file_path, entities, distance })
+    }
+    return chains
+  }
+
+  async getProjectStats(orgId: string, repoId: string): Promise<ProjectStats> {
+    const counts = await this.verifyEntityCounts(orgId, repoId)
+    const langs = this.getDb()
+      .prepare<[string, string], { language: string; count: number }>(
+        `SELECT json_extract(data, '$.language') AS language, COUNT(*) AS count FROM documents
+         WHERE collection = 'files' AND org_id = ? AND repo_id = ? AND json_extract(data, '$.language') IS NOT NULL
+         GROUP BY language`
+      )
+      .all(orgId, repoId)
+    const languages: Record<string, number> = {}
+    for (const ld of langs) languages[ld.language] = ld.count
+    return { ...counts, languages }
+  }
+
+  // ── Phase 2: Workspace overlay ─────────────────────────────────
+
+  async upsertWorkspaceEntity(orgId: string, workspaceId: string, entity: EntityDoc): Promise<void> {
+    const overlayKey = `ws:${workspaceId}:${entity.id}`
+    this.putDocs(entityCollection(entity.kind), [{
+      key: overlayKey,
+      doc: { ...entity, org_id: entity.org_id ?? orgId, _workspace_id: workspaceId },
+    }])
+  }
+
+  async getEntityWithOverlay(orgId: string, entityId: string, workspaceId?: string): Promise<EntityDoc | null> {
+    if (workspaceId) {
+      const overlayKey = `ws:${workspaceId}:${entityId}`
+      for (const collName of ALL_ENTITY_COLLECTIONS) {
+        const doc = this.getDoc<EntityDoc & { _workspace_id?: string }>(collName, overlayKey, orgId)
+        if (doc) {
+          const { _workspace_id, ...rest } = doc
+          return { ...rest, id: entityId }
+        }
+      }
+    }
+    return this.getEntity(orgId, entityId)
+  }
+
+  async cleanupExpiredWorkspaces(workspaceId: string): Promise<void> {
+    this.getDb()
+      .prepare("DELETE FROM documents WHERE collection IN (SELECT value FROM json_each(?)) AND substr(key, 1, ?) = ?")
+      .run(list(ALL_ENTITY_COLLECTIONS), `ws:${workspaceId}:`.length, `ws:${workspaceId}:`)
+  }
+
+  // ── Phase 4: Justifications (bi-temporal) ──────────────────────
+
+  async bulkUpsertJustifications(orgId: string, justifications: JustificationDoc[]): Promise<void> {
+    if (justifications.length === 0) return
+    const db = this.getDb()
+    const now = new Date().toISOString()
+    db.transaction(() => {
+      // Bi-temporal: close the current version before inserting new ones
+      const current = db
+        .prepare<[string, string], { key: string }>(
+          `SELECT key FROM documents
+           WHERE collection = 'justifications' AND org_id = ?
+             AND json_extract(data, '$.entity_id') IN (SELECT value FROM json_each(?))
+             AND json_extract(data, '$.valid_to') IS NULL`
+        )
+        .all(orgId, list(justifications.map((j) => j.entity_id)))
+      this.putDocs("justifications", current.map((row) => ({ key: row.key, doc: { valid_to: now } })))
+      this.putDocs("justifications", justifications.map((j) => ({ key: j.id, doc: { ...j, org_id: j.org_id ?? orgId } })))
+    })()
+  }
+
+  async getJustification(orgId: string, entityId: string): Promise<JustificationDoc | null> {
+    return this.queryDocs<JustificationDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'justifications' AND org_id = ? AND json_extract(data, '$.entity_id') = ?
+         AND json_extract(data, '$.valid_to') IS NULL
+       LIMIT 1`,
+      orgId, entityId
+    )[0] ?? null
+  }
+
+  async getJustifications(orgId: string, repoId: string): Promise<JustificationDoc[]> {
+    return this.queryDocs<JustificationDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'justifications' AND org_id = ? AND repo_id = ? AND json_extract(data, '$.valid_to') IS NULL
+       LIMIT 10000`,
+      orgId, repoId
+    )
+  }
+
+  async getJustificationHistory(orgId: string, entityId: string): Promise<JustificationDoc[]> {
+    return this.queryDocs<JustificationDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'justifications' AND org_id = ? AND json_extract(data, '$.entity_id') = ?
+       ORDER BY json_extract(data, '$.valid_from') DESC
+       LIMIT 100`,
+      orgId, entityId
+    )
+  }
+
+  // ── Phase 4: Aggregates, reports, ontology, drift, ADRs ────────
+
+  private listByRepo<T>(collection: string, orgId: string, repoId: string, limit: number, orderBy?: string): T[] {
+    const order = orderBy ? `ORDER BY json_extract(data, '$.${orderBy}') DESC` : ""
+    return this.queryDocs<T>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = ? AND org_id = ? AND repo_id = ? ${order} LIMIT ?`,
+      collection, orgId, repoId, limit
+    )
+  }
+
+  private putWithOrg<T extends { id: string; org_id?: string }>(collection: string, orgId: string, docs: T[]): void {
+    this.putDocs(collection, docs.map((d) => ({ key: d.id, doc: { ...d, org_id: d.org_id ?? orgId } })))
+  }
+
+  async bulkUpsertFeatureAggregations(orgId: string, features: FeatureAggregation[]): Promise<void> {
+    this.putWithOrg("features_agg", orgId, features)
+  }
+
+  async getFeatureAggregations(orgId: string, repoId: string): Promise<FeatureAggregation[]> {
+    return this.listByRepo<FeatureAggregation>("features_agg", orgId, repoId, 500)
+  }
+
+  async upsertHealthReport(orgId: string, report: HealthReportDoc): Promise<void> {
+    this.putWithOrg("health_reports", orgId, [report])
+  }
+
+  async getHealthReport(orgId: string, repoId: string): Promise<HealthReportDoc | null> {
+    return this.listByRepo<HealthReportDoc>("health_reports", orgId, repoId, 1, "generated_at")[0] ?? null
+  }
+
+  async upsertDomainOntology(orgId: string, ontology: DomainOntologyDoc): Promise<void> {
+    this.putWithOrg("domain_ontologies", orgId, [ontology])
+  }
+
+  async getDomainOntology(orgId: string, repoId: string): Promise<DomainOntologyDoc | null> {
+    return this.listByRepo<DomainOntologyDoc>("domain_ontologies", orgId, repoId, 1, "generated_at")[0] ?? null
+  }
+
+  async bulkUpsertDriftScores(orgId: string, scores: DriftScoreDoc[]): Promise<void> {
+    this.putWithOrg("drift_scores", orgId, scores)
+  }
+
+  async getDriftScores(orgId: string, repoId: string): Promise<DriftScoreDoc[]> {
+    return this.listByRepo<DriftScoreDoc>("drift_scores", orgId, repoId, 5000)
+  }
+
+  async bulkUpsertADRs(orgId: string, adrs: ADRDoc[]): Promise<void> {
+    this.putWithOrg("adrs", orgId, adrs)
+  }
+
+  async getADRs(orgId: string, repoId: string): Promise<ADRDoc[]> {
+    return this.listByRepo<ADRDoc>("adrs", orgId, repoId, 200)
+  }
+
+  // ── Phase 4: GraphRAG sub-graphs ───────────────────────────────
+
+  private subgraphFrom(orgId: string, start: DocRow, depth: number, crossRepo: boolean): SubgraphResult {
+    const startDoc = toDoc<EntityDoc>(start)
+    const { vertices, edgeIds } = this.traverse(orgId, [start.id], SUBGRAPH_EDGE_COLLECTIONS, "any", depth)
+    const reached = this.loadDocsByIds<EntityDoc>(vertices.map((v) => v.id))
+      .filter((v) => crossRepo || v.repo_id === startDoc.repo_id)
+      .slice(0, 200)
+    const edges = this.loadEdgesByIds(edgeIds.slice(0, 500)).map((e) => ({
+      _from: e._from,
+      _to: e._to,
+      kind: (e.kind as string) ?? "calls",
+      org_id: (e.org_id as string) ?? orgId,
+      repo_id: (e.repo_id as string) ?? "",
+    })) as EdgeDoc[]
+    return { entities: [startDoc, ...reached], edges }
+  }
+
+  async getSubgraph(orgId: string, entityId: string, depth = 2, opts?: { crossRepo?: boolean }): Promise<SubgraphResult> {
+    const clampedDepth = Math.min(Math.max(depth, 1), 5)
+    const start = this.resolveHandles(orgId, entityId, ALL_ENTITY_COLLECTIONS)[0]
+    if (!start) return { entities: [], edges: [] }
+    return this.subgraphFrom(orgId, start, clampedDepth, opts?.crossRepo ?? false)
+  }
+
+  async getBatchSubgraphs(orgId: string, entityIds: string[], depth = 2): Promise<Map<string, SubgraphResult>> {
+    const clampedDepth = Math.min(Math.max(depth, 1), 5)
+    const result = new Map<string, SubgraphResult>()
+    for (const entityId of entityIds) {
+      const start = this.resolveHandles(orgId, entityId, ALL_ENTITY_COLLECTIONS)[0]
+      result.set(entityId, start ? this.subgraphFrom(orgId, start, clampedDepth, false) : { entities: [], edges: [] })
+    }
+    return result
+  }
+
+  async findPaths(
+    orgId: string,
+    fromId: string,
+    toId: string,
+    opts?: { k?: number; maxDepth?: number; edgeKinds?: PathEdgeKind[] }
+  ): Promise<GraphPath[]> {
+    const { k, maxDepth, edgeKinds } = clampPathOptions(opts)
+    const sources = this.resolveHandles(orgId, fromId, ALL_ENTITY_COLLECTIONS).map((r) => r.id)
+    const targets = new Set(this.resolveHandles(orgId, toId, ALL_ENTITY_COLLECTIONS).map((r) => r.id))
+    if (sources.length === 0 || targets.size === 0) return []
+
+    const outbound = this.getDb().prepare<[string, string, string], EdgeRow>(
+      `SELECT e.collection, e.key, e.from_id, e.to_id, e.data FROM edges e
+       JOIN documents v ON v.id = e.to_id
+       WHERE e.from_id IN (SELECT value FROM json_each(?))
+         AND e.collection IN (SELECT value FROM json_each(?))
+         AND v.org_id = ?
+         AND coalesce(json_extract(v.data, '$.kind'), '') != 'tombstone'`
+    )
+    const paths = kShortestPaths(sources, targets, k, maxDepth, (vertices) =>
+      outbound.all(list(vertices), list(edgeKinds), orgId).map((row) => ({ from: row.from_id, to: row.to_id, edge: row }))
+    )
+
+    return paths.map((path) => ({
+      entities: this.loadDocsByIds<EntityDoc>(path.vertices),
+      edges: path.edges.map((row) => {
+        const e = toEdge(row)
+        return {
+          _from: e._from,
+          _to: e._to,
+          kind: (e.kind as string) ?? row.collection,
+          org_id: (e.org_id as string) ?? orgId,
+          repo_id: (e.repo_id as string) ?? "",
+        }
+      }) as EdgeDoc[],
+    }))
+  }
+
+  async getAllEntities(orgId: string, repoId: string, limit = 10000, offset = 0): Promise<EntityDoc[]> {
+    const docs = this.queryDocs<EntityDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+         AND (collection = 'files' OR json_extract(data, '$.name') IS NOT NULL)
+       ORDER BY collection, key
+       LIMIT ? OFFSET ?`,
+      list(ALL_ENTITY_COLLECTIONS), orgId, repoId, limit, offset
+    )
+    return docs
+  }
+
+  async getAllEdges(orgId: string, repoId: string, limit = 20000): Promise<EdgeDoc[]> {
+    return this.queryEdges(
+      `SELECT collection, key, from_id, to_id, data FROM edges
+       WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ? LIMIT ?`,
+      list(GRAPH_EDGE_COLLECTIONS), orgId, repoId, limit
+    )
+  }
+
+  // ── Phase 4: Token usage ───────────────────────────────────────
+
+  async logTokenUsage(orgId: string, entry: TokenUsageEntry): Promise<void> {
+    this.putWithOrg("token_usage_log", orgId, [entry])
+  }
+
+  async getTokenUsage(orgId: string, repoId: string): Promise<TokenUsageEntry[]> {
+    return this.listByRepo<TokenUsageEntry>("token_usage_log", orgId, repoId, 1000, "created_at")
+  }
+
+  async getTokenUsageSummary(orgId: string, repoId: string): Promise<TokenUsageSummary> {
+    const rows = this.getDb()
+      .prepare<[string, string], { model: string; input_tokens: number; output_tokens: number }>(
+        `SELECT json_extract(data, '$.model') AS model,
+                SUM(json_extract(data, '$.input_tokens')) AS input_tokens,
+                SUM(json_extract(data, '$.output_tokens')) AS output_tokens
+         FROM documents WHERE collection = 'token_usage_log' AND org_id = ? AND repo_id = ?
+         GROUP BY model`
+      )
+      .all(orgId, repoId)
+
+    const { getModelCost } = require("@/lib/llm/config") as typeof import("@/lib/llm/config")
+
+    let totalInput = 0
+    let totalOutput = 0
+    let totalCost = 0
+    const byModel: Record<string, { input_tokens: number; output_tokens: number; cost_usd: number }> = {}
+    for (const row of rows) {
+      const costs = getModelCost(row.model)
+      const cost = row.input_tokens * costs.input + row.output_tokens * costs.output
+      totalInput += row.input_tokens
+      totalOutput += row.output_tokens
+      totalCost += cost
+      byModel[row.model] = { input_tokens: row.input_tokens, output_tokens: row.output_tokens, cost_usd: Math.round(cost * 10000) / 10000 }
+    }
+    return {
+      total_input_tokens: totalInput,
+      total_output_tokens: totalOutput,
+      estimated_cost_usd: Math.round(totalCost * 10000) / 10000,
+      by_model: byModel,
+    }
+  }
+
+  // ── Phase 5: Incremental indexing ──────────────────────────────
+
+  private possibleHandles(keys: string[]): string {
+    return list(keys.flatMap((key) => ALL_ENTITY_COLLECTIONS.map((c) => `${c}/${key}`)))
+  }
+
+  async createEdgesForEntity(orgId: string, entityKey: string, edges: EdgeDoc[]): Promise<void> {
+    if (edges.length === 0) return
+    const db = this.getDb()
+    db.transaction(() => {
+      const handles = this.possibleHandles([entityKey])
+      db.prepare(
+        `DELETE FROM edges WHERE org_id = ?
+           AND (from_id IN (SELECT value FROM json_each(?)) OR to_id IN (SELECT value FROM json_each(?)))`
+      ).run(orgId, handles, handles)
+      this.writeEdges(orgId, edges)
+    })()
+  }
+
+  async getEdgesForEntities(orgId: string, entityKeys: string[]): Promise<EdgeDoc[]> {
+    if (entityKeys.length === 0) return []
+    const handles = this.possibleHandles(entityKeys)
+    return this.queryEdges(
+      `SELECT collection, key, from_id, to_id, data FROM edges WHERE org_id = ?
+         AND (from_id IN (SELECT value FROM json_each(?)) OR to_id IN (SELECT value FROM json_each(?)))`,
+      orgId, handles, handles
+    )
+  }
+
+  async batchDeleteEntities(orgId: string, entityKeys: string[]): Promise<void> {
+    if (entityKeys.length === 0) return
+    this.getDb()
+      .prepare("DELETE FROM documents WHERE id IN (SELECT value FROM json_each(?)) AND org_id = ?")
+      .run(this.possibleHandles(entityKeys), orgId)
+  }
+
+  async batchDeleteEdgesByEntity(orgId: string, entityKeys: string[]): Promise<void> {
+    if (entityKeys.length === 0) return
+    const handles = this.possibleHandles(entityKeys)
+    this.getDb()
+      .prepare(
+        `DELETE FROM edges WHERE org_id = ?
+           AND (from_id IN (SELECT value FROM json_each(?)) OR to_id IN (SELECT value FROM json_each(?)))`
+      )
+      .run(orgId, handles, handles)
+  }
+
+  async findBrokenEdges(orgId: string, repoId: string, deletedKeys: string[]): Promise<EdgeDoc[]> {
+    if (deletedKeys.length === 0) return []
+    const handles = this.possibleHandles(deletedKeys)
+    return this.queryEdges(
+      `SELECT collection, key, from_id, to_id, data FROM edges WHERE org_id = ? AND repo_id = ?
+         AND (from_id IN (SELECT value FROM json_each(?)) OR to_id IN (SELECT value FROM json_each(?)))`,
+      orgId, repoId, handles, handles
+    )
+  }
+
+  async insertIndexEvent(orgId: string, event: IndexEventDoc): Promise<void> {
+    this.putDocs("index_events", [{
+      key: randomUUID(),
+      doc: { ...event, org_id: event.org_id ?? orgId, created_at: event.created_at || new Date().toISOString() },
+    }])
+  }
+
+  async getIndexEvents(orgId: string, repoId: string, limit = 50): Promise<IndexEventDoc[]> {
+    return this.getDb()
+      .prepare<[string, string, number], { data: string }>(
+        `SELECT data FROM documents WHERE collection = 'index_events' AND org_id = ? AND repo_id = ?
+         ORDER BY json_extract(data, '$.created_at') DESC LIMIT ?`
+      )
+      .all(orgId, repoId, limit)
+      .map((row) => JSON.parse(row.data) as IndexEventDoc)
+  }
+
+  async getLatestIndexEvent(orgId: string, repoId: string): Promise<IndexEventDoc | null> {
+    const events = await this.getIndexEvents(orgId, repoId, 1)
+    return events[0] ?? null
+  }
+
+  // ── Phase 5.5: Prompt ledger ───────────────────────────────────
+
+  async appendLedgerEntry(orgId: string, entry: LedgerEntry): Promise<void> {
+    this.putDocs("ledger", [{
+      key: entry.id,
+      doc: { ...entry, org_id: entry.org_id ?? orgId, created_at: entry.created_at || new Date().toISOString() },
+    }], "replace")
+  }
+
+  async updateLedgerEntryStatus(orgId: string, entryId: string, status: LedgerEntryStatus): Promise<void> {
+    const doc = this.getDoc<LedgerEntry>("ledger", entryId, orgId)
+    if (!doc) throw new Error(`Ledger entry ${entryId} not found for org ${orgId}`)
+    if (!validateLedgerTransition(doc.status, status)) {
+      throw new Error(`Invalid ledger transition: ${doc.status} → ${status}`)
+    }
+    const updates: Record<string, unknown> = { status }
+    if (status === "working") updates.validated_at = new Date().toISOString()
+    this.putDocs("ledger", [{ key: entryId, doc: updates }])
+  }
+
+  async queryLedgerTimeline(query: LedgerTimelineQuery): Promise<PaginatedResult<LedgerEntry>> {
+    const limit = Math.min(Math.max(query.limit ?? 50, 1), 200)
+    const where = ["collection = 'ledger'", "org_id = ?", "repo_id = ?"]
+    const params: unknown[] = [query.orgId, query.repoId]
+    if (query.branch) { where.push("json_extract(data, '$.branch') = ?"); params.push(query.branch) }
+    if (query.timelineBranch !== undefined) { where.push("json_extract(data, '$.timeline_branch') = ?"); params.push(query.timelineBranch) }
+    if (query.status) { where.push("json_extract(data, '$.status') = ?"); params.push(query.status) }
+    if (query.userId) { where.push("json_extract(data, '$.user_id') = ?"); params.push(query.userId) }
+    if (query.cursor) {
+      // Cursor-based pagination: entries created before the cursor entry
+      where.push("json_extract(data, '$.created_at') < (SELECT json_extract(c.data, '$.created_at') FROM documents c WHERE c.id = ?)")
+      params.push(`ledger/${query.cursor}`)
+    }
+    params.push(limit + 1)
+    const docs = this.queryDocs<LedgerEntry>(
+      `SELECT id, collection, key, data FROM documents WHERE ${where.join(" AND ")}
+       ORDER BY json_extract(data, '$.created_at') DESC LIMIT ?`,
+      ...params
+    )
+    const hasMore = docs.length > limit
+    const items = hasMore ? docs.slice(0, limit) : docs
+    const lastItem = items[items.length - 1]
+    return { items, cursor: lastItem ? lastItem.id : null, hasMore }
+  }
+
+  async getUncommittedEntries(orgId: string, repoId: string, branch: string): Promise<LedgerEntry[]> {
+    return this.queryDocs<LedgerEntry>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'ledger' AND org_id = ? AND repo_id = ? AND json_extract(data, '$.branch') = ?
+         AND json_extract(data, '$.status') NOT IN ('committed', 'reverted')
+       ORDER BY json_extract(data, '$.created_at') ASC LIMIT 500`,
+      orgId, repoId, branch
+    )
+  }
+
+  async getMaxTimelineBranch(orgId: string, repoId: string, branch: string): Promise<number> {
+    const row = this.getDb()
+      .prepare<[string, string, string], { max: number | null }>(
+        `SELECT MAX(json_extract(data, '$.timeline_branch')) AS max FROM documents
+         WHERE collection = 'ledger' AND org_id = ? AND repo_id = ? AND json_extract(data, '$.branch') = ?`
+      )
+      .get(orgId, repoId, branch)
+    return row?.max ?? 0
+  }
+
+  async markEntriesReverted(orgId: string, entryIds: string[]): Promise<void> {
+    if (entryIds.length === 0) return
+    this.getDb()
+      .prepare(
+        `UPDATE documents SET data = json_set(data, '$.status', 'reverted')
+         WHERE collection = 'ledger' AND org_id = ? AND key IN (SELECT value FROM json_each(?))
+           AND json_extract(data, '$.status') NOT IN ('committed', 'reverted')`
+      )
+      .run(orgId, list(entryIds))
+  }
+
+  async appendLedgerSummary(orgId: string, summary: LedgerSummary): Promise<void> {
+    this.putDocs("ledger_summaries", [{
+      key: summary.id,
+      doc: { ...summary, org_id: summary.org_id ?? orgId, created_at: summary.created_at || new Date().toISOString() },
+    }], "replace")
+  }
+
+  async queryLedgerSummaries(orgId: string, repoId: string, branch?: string, limit = 50): Promise<LedgerSummary[]> {
+    const branchFilter = branch ? "AND json_extract(data, '$.branch') = ?" : ""
+    const params: unknown[] = branch ? [orgId, repoId, branch, limit] : [orgId, repoId, limit]
+    return this.queryDocs<LedgerSummary>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'ledger_summaries' AND org_id = ? AND repo_id = ? ${branchFilter}
+       ORDER BY json_extract(data, '$.created_at') DESC LIMIT ?`,
+      ...params
+    )
+  }
+
+  async getLedgerEntry(orgId: string, entryId: string): Promise<LedgerEntry | null> {
+    return this.getDoc<LedgerEntry>("ledger", entryId, orgId)
+  }
+
+  async appendWorkingSnapshot(orgId: string, snapshot: WorkingSnapshot): Promise<void> {
+    this.putDocs("working_snapshots", [{
+      key: snapshot.id,
+      doc: { ...snapshot, org_id: snapshot.org_id ?? orgId, created_at: snapshot.created_at || new Date().toISOString() },
+    }], "replace")
+  }
+
+  async getLatestWorkingSnapshot(orgId: string, repoId: string, branch: string): Promise<WorkingSnapshot | null> {
+    return this.queryDocs<WorkingSnapshot>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'working_snapshots' AND org_id = ? AND repo_id = ? AND json_extract(data, '$.branch') = ?
+       ORDER BY json_extract(data, '$.created_at') DESC LIMIT 1`,
+      orgId, repoId, branch
+    )[0] ?? null
+  }
+
+  async markLedgerEntryRuleGenerated(orgId: string, ledgerEntryId: string, ruleId: string): Promise<void> {
+    const marked = this.patchDoc("ledger", ledgerEntryId, orgId, {
+      rule_generated: true,
+      rule_id: ruleId,
+      rule_generated_at: new Date().toISOString(),
+    })
+    if (!marked) sqliteLog.warn("Failed to mark ledger entry rule_generated", { orgId, ledgerEntryId, ruleId })
+  }
+
+  // ── Scale: Bounded context analysis ────────────────────────────
+
+  async findCrossFeatureMutations(orgId: string, repoId: string): Promise<BoundedContextFinding[]> {
+    const featureMap = new Map<string, string>()
+    for (const j of await this.getJustifications(orgId, repoId)) featureMap.set(j.entity_id, j.feature_tag)
+
+    const mutation = /insert|update|delete|upsert|save|create|remove|destroy|write/i
+    const findings: BoundedContextFinding[] = []
+    const calls = this.queryEdges(
+      "SELECT collection, key, from_id, to_id, data FROM edges WHERE collection = 'calls' AND org_id = ? AND repo_id = ?",
+      orgId, repoId
+    )
+    for (const e of calls) {
+      if (findings.length >= 50) break
+      const fromKey = e._from.split("/")[1]!
+      const toKey = e._to.split("/")[1]!
+      const sourceFeature = featureMap.get(fromKey)
+      const targetFeature = featureMap.get(toKey)
+      if (!sourceFeature || !targetFeature || sourceFeature === targetFeature || !mutation.test(toKey)) continue
+
+      const sourceEntity = await this.getEntity(orgId, fromKey)
+      const targetEntity = await this.getEntity(orgId, toKey)
+      if (!sourceEntity || !targetEntity) continue
+      findings.push({
+        sourceFeature,
+        targetFeature,
+        sourceEntity: { id: sourceEntity.id, name: sourceEntity.name, filePath: sourceEntity.file_path },
+        targetEntity: { id: targetEntity.id, name: targetEntity.name, filePath: targetEntity.file_path },
+        message: `\`${sourceEntity.name}\` (feature: ${sourceFeature}) calls mutation \`${targetEntity.name}\` (feature: ${targetFeature}). This cross-feature mutation may indicate bounded context bleed.`,
+      })
+    }
+    return findings
+  }
+
+  // ── Entity browsing with justifications ────────────────────────
+
+  async getEntitiesWithJustifications(
+    orgId: string,
+    repoId: string,
+    opts?: { kind?: string; taxonomy?: string; featureTag?: string; search?: string; offset?: number; limit?: number }
+  ): Promise<{ entities: Array<EntityDoc & { justification?: JustificationDoc }>; total: number }> {
+    const offset = opts?.offset ?? 0
+    const limit = Math.min(opts?.limit ?? 50, 200)
+    const collections = opts?.kind ? [entityCollection(opts.kind)] : [...ALL_ENTITY_COLLECTIONS]
+
+    // LEFT JOIN the current justification; taxonomy / feature filters require a match
+    const where = ["d.collection IN (SELECT value FROM json_each(?))", "d.org_id = ?", "d.repo_id = ?"]
+    const params: unknown[] = [list(collections), orgId, repoId]
+    if (opts?.search) { where.push("instr(lower(json_extract(d.data, '$.name')), lower(?)) > 0"); params.push(opts.search) }
+    if (opts?.taxonomy) { where.push("json_extract(j.data, '$.taxonomy') = ?"); params.push(opts.taxonomy) }
+    if (opts?.featureTag) { where.push("json_extract(j.data, '$.feature_tag') = ?"); params.push(opts.featureTag) }
+
+    const joined = `
+      SELECT d.key AS key, d.data AS data, j.key AS j_key, j.data AS j_data
+      FROM documents d
+      LEFT JOIN documents j ON j.collection = 'justifications' AND j.org_id = d.org_id
+        AND json_extract(j.data, '$.entity_id') = d.key AND json_extract(j.data, '$.valid_to') IS NULL
+      WHERE ${where.join(" AND ")}
+      GROUP BY d.id`
+
+    const db = this.getDb()
+    const total = db
+      .prepare<unknown[], { total: number }>(`SELECT COUNT(*) AS total FROM (${joined})`)
+      .get(...params)?.total ?? 0
+    const rows = db
+      .prepare<unknown[], { key: string; data: string; j_key: string | null; j_data: string | null }>(
+        `SELECT * FROM (${joined}) ORDER BY json_extract(data, '$.name') ASC LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset)
+
+    const entities = rows.map((row) => {
+      const entity = toDoc<EntityDoc & { justification?: JustificationDoc }>(row)
+      if (row.j_key && row.j_data) entity.justification = toDoc<JustificationDoc>({ key: row.j_key, data: row.j_data })
+      return entity
+    })
+    return { entities, total }
+  }
+
+  // ── Shadow reindexing ──────────────────────────────────────────
+
+  private deleteWhereIndexVersion(orgId: string, repoId: string, op: "=" | "!=", indexVersion: string): void {
+    const db = this.getDb()
+    db.transaction(() => {
+      db.prepare(
+        `DELETE FROM documents WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+           AND json_extract(data, '$.index_version') IS NOT NULL AND json_extract(data, '$.index_version') ${op} ?`
+      ).run(list(ALL_ENTITY_COLLECTIONS), orgId, repoId, indexVersion)
+      db.prepare(
+        `DELETE FROM edges WHERE org_id = ? AND repo_id = ?
+           AND json_extract(data, '$.index_version') IS NOT NULL AND json_extract(data, '$.index_version') ${op} ?`
+      ).run(orgId, repoId, indexVersion)
+    })()
+  }
+
+  async deleteByIndexVersion(orgId: string, repoId: string, indexVersion: string): Promise<void> {
+    this.deleteWhereIndexVersion(orgId, repoId, "=", indexVersion)
+  }
+
+  async deleteStaleByIndexVersion(orgId: string, repoId: string, currentIndexVersion: string): Promise<void> {
+    this.deleteWhereIndexVersion(orgId, repoId, "!=", currentIndexVersion)
+  }
+
+  async verifyEntityCounts(orgId: string, repoId: string): Promise<{
+    files: number
+    functions: number
+    classes: number
+    interfaces: number
+    variables: number
+  }> {
+    const counts = { files: 0, functions: 0, classes: 0, interfaces: 0, variables: 0 }
+    const rows = this.getDb()
+      .prepare<[string, string, string], { collection: keyof typeof counts; count: number }>(
+        `SELECT collection, COUNT(*) AS count FROM documents
+         WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+         GROUP BY collection`
+      )
+      .all(list(ALL_ENTITY_COLLECTIONS), orgId, repoId)
+    for (const row of rows) counts[row.collection] = row.count
+    return counts
+  }
+
+  // ── I-01: Entity warnings ──────────────────────────────────────
+
+  async bulkUpsertEntityWarnings(orgId: string, warnings: EntityWarningDoc[]): Promise<void> {
+    if (warnings.length === 0) return
+    this.putDocs("entity_warnings", warnings.map((w) => ({ key: w.id, doc: { ...w, org_id: orgId } })))
+  }
+
+  async getEntityWarnings(orgId: string, entityId: string): Promise<EntityWarningDoc[]> {
+    return this.queryDocs<EntityWarningDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'entity_warnings' AND org_id = ? AND json_extract(data, '$.entity_id') = ?
+       ORDER BY json_extract(data, '$.created_at') DESC`,
+      orgId, entityId
+    )
+  }
+
+  async getEntityWarningsByRepo(orgId: string, repoId: string): Promise<EntityWarningDoc[]> {
+    return this.queryDocs<EntityWarningDoc>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'entity_warnings' AND org_id = ? AND repo_id = ?
+       ORDER BY json_extract(data, '$.severity') DESC, json_extract(data, '$.created_at') DESC LIMIT 500`,
+      orgId, repoId
+    )
+  }
+
+  // ── I-04: Documentation proposals ──────────────────────────────
+
+  async upsertDocumentationProposal(_orgId: string, proposal: DocumentationProposal): Promise<void> {
+    this.putDocs("documentation_proposals", [{ key: proposal.id, doc: { ...proposal } }], "replace")
+  }
+
+  async getDocumentationProposals(orgId: string, repoId: string, status?: string): Promise<DocumentationProposal[]> {
+    const statusFilter = status ? "AND json_extract(data, '$.status') = ?" : ""
+    const params: unknown[] = status ? [orgId, repoId, status] : [orgId, repoId]
+    return this.queryDocs<DocumentationProposal>(
+      `SELECT id, collection, key, data FROM documents
+       WHERE collection = 'documentation_proposals' AND org_id = ? AND repo_id = ? ${statusFilter}
+       ORDER BY json_extract(data, '$.created_at') DESC LIMIT 100`,
+      ...params
+    )
+  }
+
+  async updateDocumentationProposalStatus(orgId: string, proposalId: string, status: "accepted" | "rejected"): Promise<void> {
+    const updated = this.patchDoc("documentation_proposals", proposalId, undefined, { status, updated_at: new Date().toISOString() })
+    if (!updated) sqliteLog.warn("Failed to update documentation proposal status", { orgId, proposalId, status })
+  }
+
+  // ── Phase 13: Scoped branch deltas ─────────────────────────────
+
+  /**
+   * Scope-first entity query with primary fallback: scoped entities override
+   * primary ones by key, and keys tombstoned on the scope are excluded.
+   */
+  async queryEntitiesWithScope(
+    orgId: string,
+    repoId: string,
+    scope: string,
+    opts?: { kind?: string; filePath?: string; limit?: number }
+  ): Promise<EntityDoc[]> {
+    const limit = Math.min(opts?.limit ?? 10000, 50000)
+    const collections = opts?.kind ? [entityCollection(opts.kind)] : [...ALL_ENTITY_COLLECTIONS]
+
+    const fetchScope = (scopeValue: string): EntityDoc[] => {
+      const where = [
+        "collection IN (SELECT value FROM json_each(?))",
+        "org_id = ?",
+        "repo_id = ?",
+        "json_extract(data, '$.scope') = ?",
+        "json_extract(data, '$.kind') != 'tombstone'",
+      ]
+      const params: unknown[] = [list(collections), orgId, repoId, scopeValue]
+      if (opts?.filePath) { where.push("json_extract(data, '$.file_path') = ?"); params.push(opts.filePath) }
+      if (opts?.kind) { where.push("json_extract(data, '$.kind') = ?"); params.push(opts.kind) }
+      params.push(limit)
+      return this.queryDocs<EntityDoc>(`SELECT id, collection, key, data FROM documents WHERE ${where.join(" AND ")} LIMIT ?`, ...params)
+    }
+
+    const scopedEntities = fetchScope(scope)
+    if (scope === "primary") return scopedEntities.slice(0, limit)
+
+    const primaryEntities = fetchScope("primary")
+    const tombstonedKeys = new Set(
+      this.getDb()
+        .prepare<[string, string, string, string], { original_key: string }>(
+          `SELECT json_extract(data, '$.original_key') AS original_key FROM documents
+           WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+             AND json_extract(data, '$.scope') = ? AND json_extract(data, '$.kind') = 'tombstone'`
+        )
+        .all(list(ALL_ENTITY_COLLECTIONS), orgId, repoId, scope)
+        .map((row) => row.original_key)
+    )
+
+    const scopedIds = new Set(scopedEntities.map((e) => e.id))
+    const merged: EntityDoc[] = [...scopedEntities]
+    for (const pe of primaryEntities) {
+      if (scopedIds.has(pe.id) || tombstonedKeys.has(pe.id)) continue
+      merged.push(pe)
+    }
+    return merged.slice(0, limit)
+  }
+
+  /**
+   * Apply a branch delta in one SQLite transaction: clear the scope, write
+   * added + modified entities, tombstone deleted keys, write scoped edges.
+   */
+  async applyBranchDelta(
+    orgId: string,
+    repoId: string,
+    scope: string,
+    delta: EntityDelta
+  ): Promise<{ entitiesWritten: number; tombstonesCreated: number; edgesWritten: number }> {
+    const db = this.getDb()
+    let entitiesWritten = 0
+    let tombstonesCreated = 0
+    let edgesWritten = 0
+
+    db.transaction(() => {
+      // Entities and tombstones from previous runs of this scope
+      db.prepare(
+        `DELETE FROM documents WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+           AND json_extract(data, '$.scope') = ?`
+      ).run(list(ALL_ENTITY_COLLECTIONS), orgId, repoId, scope)
+
+      const byKind = new Map<string, Array<{ key: string; doc: Record<string, unknown> }>>()
+      for (const e of [...delta.added, ...delta.modified]) {
+        const coll = entityCollection(e.kind)
+        if (!byKind.has(coll)) byKind.set(coll, [])
+        byKind.get(coll)!.push({ key: e.id, doc: { ...e, scope, org_id: e.org_id ?? orgId, repo_id: e.repo_id ?? repoId } })
+      }
+      for (const [collName, docs] of Array.from(byKind.entries())) {
+        this.putDocs(collName, docs)
+        entitiesWritten += docs.length
+      }
+
+      // Tombstones live in "files", matching ArangoGraphStore
+      if (delta.deletedKeys.length > 0) {
+        this.putDocs("files", delta.deletedKeys.map((key) => ({
+          key: `tombstone-${scope.replace(/[^a-zA-Z0-9]/g, "_")}-${key}`,
+          doc: { kind: "tombstone", original_key: key, org_id: orgId, repo_id: repoId, scope, name: `tombstone:${key}`, file_path: "" },
+        })))
+        tombstonesCreated = delta.deletedKeys.length
+      }
+
+      const edgesToWrite = [...delta.addedEdges, ...delta.modifiedEdges].map((e) => ({ ...e, repo_id: e.repo_id ?? repoId }))
+      edgesWritten = this.writeEdges(orgId, edgesToWrite, { scope })
+    })()
+
+    sqliteLog.info("Branch delta applied", { orgId, repoId, scope, entitiesWritten, tombstonesCreated, edgesWritten })
+    return { entitiesWritten, tombstonesCreated, edgesWritten }
+  }
+
+  async deleteScopedEntities(orgId: string, repoId: string, scope: string): Promise<number> {
+    const db = this.getDb()
+    const docs = db
+      .prepare(
+        `DELETE FROM documents WHERE collection IN (SELECT value FROM json_each(?)) AND org_id = ? AND repo_id = ?
+           AND json_extract(data, '$.scope') = ?`
+      )
+      .run(list(ALL_ENTITY_COLLECTIONS), orgId, repoId, scope)
+    const edges = db
+      .prepare("DELETE FROM edges WHERE org_id = ? AND repo_id = ? AND json_extract(data, '$.scope') = ?")
+      .run(orgId, repoId, scope)
+    const totalRemoved = docs.changes + edges.changes
+    sqliteLog.info("Scoped entities deleted", { orgId, repoId, scope, totalRemoved })
+    return totalRemoved
+  }
+}
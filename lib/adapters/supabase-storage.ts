@@ -39,6 +39,15 @@ export class SupabaseStorageAdapter implements IStorageProvider {
     }
   }
 
+  async uploadFile(bucket: string, path: string, data: Buffer, contentType = "application/octet-stream"): Promise<void> {
+    const client = getClient()
+    const { error } = await client.storage
+      .from(bucket)
+      .upload(path, data, { contentType, upsert: true })
+
+    if (error) throw new Error(`Storage upload error: ${error.message}`)
+  }
+
   async downloadFile(bucket: string, path: string): Promise<Buffer> {
     const client = getClient()
     const { data, error } = await client.storage
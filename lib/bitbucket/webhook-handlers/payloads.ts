@@ -0,0 +1,237 @@
+/**
+ * Bitbucket webhook payloads — Cloud (`repo:push`, `pullrequest:*`) and
+ * Server / Data Center (`repo:refs_changed`, `pr:*`) — normalized into one
+ * shape so the push and pull request handlers don't care which flavor sent them.
+ */
+
+const ZERO_SHA = "0000000000000000000000000000000000000000"
+
+// ─── Bitbucket Cloud ─────────────────────────────────────────────────────────
+
+export interface CloudRepositoryPayload {
+  uuid: string
+  full_name: string
+  name: string
+  links: { html: { href: string } }
+}
+
+interface CloudRefPayload {
+  type: "branch" | "tag" | "named_branch" | "bookmark"
+  name: string
+  target: { hash: string }
+}
+
+export interface CloudPushPayload {
+  repository: CloudRepositoryPayload
+  push: {
+    changes: Array<{
+      old: CloudRefPayload | null
+      new: CloudRefPayload | null
+      /** Newest first */
+      commits?: Array<{ hash: string; message: string }>
+    }>
+  }
+}
+
+export interface CloudPullRequestPayload {
+  repository: CloudRepositoryPayload
+  actor: { display_name: string; nickname?: string }
+  pullrequest: {
+    id: number
+    title: string
+    state: "OPEN" | "MERGED" | "DECLINED" | "SUPERSEDED"
+    draft?: boolean
+    links: { html: { href: string } }
+    source: { branch: { name: string }; commit: { hash: string } }
+    destination: { branch: { name: string }; commit: { hash: string } }
+  }
+}
+
+// ─── Bitbucket Server / Data Center ──────────────────────────────────────────
+
+export interface ServerRepositoryPayload {
+  id: number
+  slug: string
+  project: { key: string }
+  links?: { clone?: Array<{ href: string; name: string }> }
+}
+
+export interface ServerRefsChangedPayload {
+  eventKey: "repo:refs_changed"
+  repository: ServerRepositoryPayload
+  changes: Array<{
+    ref: { id: string; displayId: string; type: "BRANCH" | "TAG" }
+    fromHash: string
+    toHash: string
+    type: "ADD" | "UPDATE" | "DELETE"
+  }>
+}
+
+interface ServerPullRequestRef {
+  displayId: string
+  latestCommit: string
+  repository: ServerRepositoryPayload
+}
+
+export interface ServerPullRequestPayload {
+  eventKey: string
+  actor: { name: string }
+  pullRequest: {
+    id: number
+    title: string
+    state: "OPEN" | "MERGED" | "DECLINED"
+    draft?: boolean
+    fromRef: ServerPullRequestRef
+    toRef: ServerPullRequestRef
+    links: { self: Array<{ href: string }> }
+  }
+}
+
+export type BitbucketWebhookPayload =
+  | CloudPushPayload
+  | CloudPullRequestPayload
+  | ServerRefsChangedPayload
+  | ServerPullRequestPayload
+
+// ─── Normalized events ───────────────────────────────────────────────────────
+
+export interface BitbucketRepoRef {
+  /** Cloud repository UUID or Server numeric repository ID — matches Repo.providerId */
+  providerId: string
+  /** Cloud workspace or Server project key */
+  owner: string
+  /** Repo slug */
+  repo: string
+  cloneUrl: string | null
+}
+
+export interface BitbucketPushEvent {
+  repository: BitbucketRepoRef
+  changes: Array<{
+    ref: string
+    /** null when the branch was created */
+    beforeSha: string | null
+    /** null when the branch was deleted */
+    afterSha: string | null
+    commitMessage: string
+  }>
+}
+
+export interface BitbucketPullRequestEvent {
+  repository: BitbucketRepoRef
+  action: "opened" | "updated" | "merged" | "declined"
+  number: number
+  title: string
+  url: string
+  sourceBranch: string
+  targetBranch: string
+  headSha: string
+  /** Tip of the target branch when the event fired */
+  baseSha: string
+  draft: boolean
+  actor: string
+}
+
+const CLOUD_PR_ACTIONS: Record<string, BitbucketPullRequestEvent["action"]> = {
+  "pullrequest:created": "opened",
+  "pullrequest:updated": "updated",
+  "pullrequest:fulfilled": "merged",
+  "pullrequest:rejected": "declined",
+}
+
+const SERVER_PR_ACTIONS: Record<string, BitbucketPullRequestEvent["action"]> = {
+  "pr:opened": "opened",
+  "pr:from_ref_updated": "updated",
+  "pr:merged": "merged",
+  "pr:declined": "declined",
+}
+
+function cloudRepo(repository: CloudRepositoryPayload): BitbucketRepoRef {
+  const idx = repository.full_name.indexOf("/")
+  return {
+    providerId: repository.uuid,
+    owner: repository.full_name.slice(0, idx),
+    repo: repository.full_name.slice(idx + 1),
+    cloneUrl: `${repository.links.html.href}.git`,
+  }
+}
+
+function serverRepo(repository: ServerRepositoryPayload): BitbucketRepoRef {
+  return {
+    providerId: String(repository.id),
+    owner: repository.project.key,
+    repo: repository.slug,
+    cloneUrl: repository.links?.clone?.find((c) => c.name === "http")?.href ?? null,
+  }
+}
+
+/** Normalize `repo:push` (Cloud) or `repo:refs_changed` (Server); null for other events. */
+export function normalizePushEvent(eventKey: string, payload: BitbucketWebhookPayload): BitbucketPushEvent | null {
+  if (eventKey === "repo:push" && "push" in payload) {
+    return {
+      repository: cloudRepo(payload.repository),
+      changes: payload.push.changes
+        .filter((c) => (c.new ?? c.old)?.type === "branch")
+        .map((c) => ({
+          ref: `refs/heads/${(c.new ?? c.old)!.name}`,
+          beforeSha: c.old?.target.hash ?? null,
+          afterSha: c.new?.target.hash ?? null,
+          commitMessage: c.commits?.[0]?.message ?? "",
+        })),
+    }
+  }
+  if (eventKey === "repo:refs_changed" && "changes" in payload) {
+    return {
+      repository: serverRepo(payload.repository),
+      changes: payload.changes
+        .filter((c) => c.ref.type === "BRANCH")
+        .map((c) => ({
+          ref: c.ref.id,
+          beforeSha: c.type === "ADD" || c.fromHash === ZERO_SHA ? null : c.fromHash,
+          afterSha: c.type === "DELETE" || c.toHash === ZERO_SHA ? null : c.toHash,
+          // refs_changed carries no commit messages
+          commitMessage: "",
+        })),
+    }
+  }
+  return null
+}
+
+/** Normalize Cloud `pullrequest:*` or Server `pr:*` events; null for actions we don't handle. */
+export function normalizePullRequestEvent(eventKey: string, payload: BitbucketWebhookPayload): BitbucketPullRequestEvent | null {
+  const cloudAction = CLOUD_PR_ACTIONS[eventKey]
+  if (cloudAction && "pullrequest" in payload) {
+    const pr = payload.pullrequest
+    return {
+      repository: cloudRepo(payload.repository),
+      action: cloudAction,
+      number: pr.id,
+      title: pr.title,
+      url: pr.links.html.href,
+      sourceBranch: pr.source.branch.name,
+      targetBranch: pr.destination.branch.name,
+      headSha: pr.source.commit.hash,
+      baseSha: pr.destination.commit.hash,
+      draft: pr.draft ?? false,
+      actor: payload.actor.nickname ?? payload.actor.display_name,
+    }
+  }
+  const serverAction = SERVER_PR_ACTIONS[eventKey]
+  if (serverAction && "pullRequest" in payload) {
+    const pr = payload.pullRequest
+    return {
+      repository: serverRepo(pr.toRef.repository),
+      action: serverAction,
+      number: pr.id,
+      title: pr.title,
+      url: pr.links.self[0]?.href ?? "",
+      sourceBranch: pr.fromRef.displayId,
+      targetBranch: pr.toRef.displayId,
+      headSha: pr.fromRef.latestCommit,
+      baseSha: pr.toRef.latestCommit,
+      draft: pr.draft ?? false,
+      actor: payload.actor.name,
+    }
+  }
+  return null
+}
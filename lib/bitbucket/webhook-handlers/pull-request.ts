@@ -0,0 +1,107 @@
+/**
+ * Pull request webhook handler — handles opened, updated, merged and declined.
+ * Bitbucket counterpart of lib/github/webhook-handlers/pull-request.ts.
+ */
+
+import type { Container } from "@/lib/di/container"
+import type { BitbucketPullRequestEvent } from "./payloads"
+
+export async function handlePullRequestEvent(
+  event: BitbucketPullRequestEvent,
+  container: Container
+): Promise<{ action: string; workflowId?: string; reason?: string }> {
+  const repo = await container.relationalStore.getRepoByProviderId("bitbucket", event.repository.providerId)
+  if (!repo) {
+    return { action: "skipped", reason: "Repo not registered" }
+  }
+
+  const orgId = repo.organizationId
+  const repoId = repo.id
+
+  // Handle merge event
+  if (event.action === "merged") {
+    const workflowId = `merge-ledger-${orgId}-${repoId}-pr-${event.number}`
+    try {
+      await container.workflowEngine.startWorkflow({
+        workflowFn: "mergeLedgerWorkflow",
+        workflowId,
+        args: [{
+          orgId,
+          repoId,
+          sourceBranch: event.sourceBranch,
+          targetBranch: event.targetBranch,
+          prNumber: event.number,
+          mergedBy: event.actor,
+        }],
+        taskQueue: "light-llm-queue",
+      })
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error)
+      if (!msg.includes("already started")) throw error
+    }
+    return { action: "merge", workflowId }
+  }
+
+  // Handle declined without merge
+  if (event.action === "declined") {
+    return { action: "skipped", reason: "PR declined" }
+  }
+
+  // Guard: repo must be ready
+  if (repo.status !== "ready") {
+    return { action: "skipped", reason: `Repo not ready: ${repo.status}` }
+  }
+
+  const config = await container.relationalStore.getRepoReviewConfig(repoId)
+
+  // Guard: reviews enabled
+  if (!config.enabled) {
+    return { action: "skipped", reason: "Reviews disabled" }
+  }
+
+  // Guard: skip draft PRs
+  if (config.skipDraftPrs && event.draft) {
+    return { action: "skipped", reason: "Draft PR skipped" }
+  }
+
+  // Guard: target branch matches
+  if (config.targetBranches.length > 0 && !config.targetBranches.includes(event.targetBranch)) {
+    return { action: "skipped", reason: `Target branch ${event.targetBranch} not in configured branches` }
+  }
+
+  // Idempotency check — Cloud also sends "updated" for title/description edits
+  const existing = await container.relationalStore.getPrReviewByPrAndSha(repoId, event.number, event.headSha)
+  if (existing) {
+    return { action: "skipped", reason: "Review already exists for this SHA" }
+  }
+
+  const review = await container.relationalStore.createPrReview({
+    repoId,
+    prNumber: event.number,
+    prTitle: event.title,
+    prUrl: event.url,
+    headSha: event.headSha,
+    baseSha: event.baseSha,
+  })
+
+  const workflowId = `review-${orgId}-${repoId}-${event.number}-${event.headSha}`
+  await container.workflowEngine.startWorkflow({
+    workflowFn: "reviewPrWorkflow",
+    workflowId,
+    args: [{
+      orgId,
+      repoId,
+      prNumber: event.number,
+      installationId: 0,
+      provider: "bitbucket",
+      headSha: event.headSha,
+      baseSha: event.baseSha,
+      owner: event.repository.owner,
+      repo: event.repository.repo,
+      reviewId: review.id,
+    }],
+    taskQueue: "light-llm-queue",
+  })
+
+  return { action: "review", workflowId }
+}
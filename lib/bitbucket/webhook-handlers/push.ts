@@ -0,0 +1,114 @@
+/**
+ * Push webhook handler — feeds default-branch pushes into incremental indexing.
+ * Bitbucket counterpart of handlePushEvent in app/api/webhooks/github/route.ts.
+ */
+
+import { randomUUID } from "node:crypto"
+
+import type { Container } from "@/lib/di/container"
+import type { BitbucketPushEvent } from "./payloads"
+
+export async function handlePushEvent(
+  event: BitbucketPushEvent,
+  container: Container
+): Promise<{ action: string; workflowId?: string; reason?: string }> {
+  const repo = await container.relationalStore.getRepoByProviderId("bitbucket", event.repository.providerId)
+  if (!repo) {
+    return { action: "skipped", reason: "Repo not registered" }
+  }
+
+  const orgId = repo.organizationId
+  const repoId = repo.id
+
+  // Guard: repo must be in "ready" status
+  if (repo.status !== "ready") {
+    return { action: "skipped", reason: `Repo not ready: ${repo.status}` }
+  }
+
+  // Only the default branch is indexed incrementally (Bitbucket payloads don't carry it)
+  const defaultBranch = repo.defaultBranch
+  const change = event.changes.find((c) => c.ref === `refs/heads/${defaultBranch}`)
+  if (!change) {
+    return { action: "skipped", reason: "No default branch change" }
+  }
+
+  // Check incrementalEnabled (defaults to true if not set)
+  if ((repo as { incrementalEnabled?: boolean }).incrementalEnabled === false) {
+    return { action: "skipped", reason: "Incremental indexing disabled" }
+  }
+
+  // Guard: branch creation or deletion
+  if (!change.beforeSha || !change.afterSha) {
+    return { action: "skipped", reason: "Branch created or deleted" }
+  }
+
+  const cloneUrl = event.repository.cloneUrl
+  if (!cloneUrl) {
+    return { action: "skipped", reason: "No HTTP clone URL in payload" }
+  }
+
+  // Guard: SHA gap detection — if lastIndexedSha doesn't match before, trigger full re-index
+  if (repo.lastIndexedSha && repo.lastIndexedSha !== change.beforeSha) {
+    const gapRunId = randomUUID()
+    const gapWorkflowId = `reindex-${orgId}-${repoId}-${Date.now()}`
+    await container.relationalStore.createPipelineRun({
+      id: gapRunId,
+      repoId,
+      organizationId: orgId,
+      workflowId: gapWorkflowId,
+      triggerType: "webhook",
+      pipelineType: "full",
+    })
+    await container.workflowEngine.startWorkflow({
+      workflowFn: "indexRepoWorkflow",
+      workflowId: gapWorkflowId,
+      args: [{ orgId, repoId, provider: "bitbucket", cloneUrl, defaultBranch, runId: gapRunId, scope: "primary" }],
+      taskQueue: "heavy-compute-queue",
+    })
+    return { action: "reindex", workflowId: gapWorkflowId }
+  }
+
+  const os = await import("node:os")
+  const path = await import("node:path")
+  const workspacePath = path.join(os.tmpdir(), "unerr-workspaces", orgId, repoId)
+
+  const push = { afterSha: change.afterSha, beforeSha: change.beforeSha, ref: change.ref, commitMessage: change.commitMessage }
+
+  // Use signalWithStart pattern: fixed workflow ID per repo
+  const workflowId = `incremental-${orgId}-${repoId}`
+  const runId = randomUUID()
+  try {
+    await container.relationalStore.createPipelineRun({
+      id: runId,
+      repoId,
+      organizationId: orgId,
+      workflowId,
+      triggerType: "webhook",
+      pipelineType: "incremental",
+    })
+    await container.workflowEngine.startWorkflow({
+      workflowFn: "incrementalIndexWorkflow",
+      workflowId,
+      args: [{
+        orgId,
+        repoId,
+        installationId: 0,
+        provider: "bitbucket",
+        cloneUrl,
+        defaultBranch,
+        workspacePath,
+        runId,
+        initialPush: push,
+      }],
+      taskQueue: "heavy-compute-queue",
+    })
+  } catch (error: unknown) {
+    // If workflow already running, send signal instead
+    const message = error instanceof Error ? error.message : String(error)
+    if (!message.includes("already started") && !message.includes("already running")) throw error
+    await container.workflowEngine.signalWorkflow(workflowId, "push", push)
+    return { action: "signalled", workflowId }
+  }
+
+  return { action: "incremental", workflowId }
+}
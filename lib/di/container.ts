@@ -46,6 +46,10 @@ export interface Container {
   llmProvider: ILLMProvider
   workflowEngine: IWorkflowEngine
   gitHost: IGitHost
+  /** GitLab (gitlab.com or self-managed) — used for repos with provider "gitlab" */
+  gitLabHost: IGitHost
+  /** Bitbucket Cloud, or Server / Data Center when BITBUCKET_URL points at one — repos with provider "bitbucket" */
+  bitbucketHost: IGitHost
   vectorSearch: IVectorSearch
   billingProvider: IBillingProvider
   observability: IObservability
@@ -69,8 +73,13 @@ function createLazyProductionContainer(): Container {
   return {
     get graphStore(): IGraphStore {
       if (!cache.graphStore) {
-        const { ArangoGraphStore } = require("../adapters/arango-graph-store") as typeof import("../adapters/arango-graph-store")
-        cache.graphStore = new ArangoGraphStore()
+        if (process.env.GRAPH_STORE_BACKEND === "sqlite") {
+          const { SqliteGraphStore } = require("../adapters/sqlite-graph-store") as typeof import("../adapters/sqlite-graph-store")
+          cache.graphStore = new SqliteGraphStore()
+        } else {
+          const { ArangoGraphStore } = require("../adapters/arango-graph-store") as typeof import("../adapters/arango-graph-store")
+          cache.graphStore = new ArangoGraphStore()
+        }
       }
       return cache.graphStore
     },
@@ -82,8 +91,14 @@ function createLazyProductionContainer(): Container {
     },
     get llmProvider(): ILLMProvider {
       if (!cache.llmProvider) {
-        const { BedrockProvider } = require("../adapters/bedrock-provider") as typeof import("../adapters/bedrock-provider")
-        cache.llmProvider = new BedrockProvider()
+        const { getLLMProviderName } = require("../llm/config") as typeof import("../llm/config")
+        if (getLLMProviderName() === "openai_compatible") {
+          const { OpenAICompatibleProvider } = require("../adapters/openai-compatible-provider") as typeof import("../adapters/openai-compatible-provider")
+          cache.llmProvider = new OpenAICompatibleProvider()
+        } else {
+          const { BedrockProvider } = require("../adapters/bedrock-provider") as typeof import("../adapters/bedrock-provider")
+          cache.llmProvider = new BedrockProvider()
+        }
       }
       return cache.llmProvider
     },
@@ -101,10 +116,40 @@ function createLazyProductionContainer(): Container {
       }
       return cache.gitHost
     },
+    get gitLabHost(): IGitHost {
+      if (!cache.gitLabHost) {
+        const { GitLabHost } = require("../adapters/gitlab-host") as typeof import("../adapters/gitlab-host")
+        cache.gitLabHost = new GitLabHost({ cacheStore: this.cacheStore })
+      }
+      return cache.gitLabHost
+    },
+    get bitbucketHost(): IGitHost {
+      if (!cache.bitbucketHost) {
+        const serverUrl = process.env.BITBUCKET_URL
+        if (serverUrl && !/^https?:\/\/(api\.)?bitbucket\.org/.test(serverUrl)) {
+          const { BitbucketServerHost } = require("../adapters/bitbucket-server-host") as typeof import("../adapters/bitbucket-server-host")
+          cache.bitbucketHost = new BitbucketServerHost({ baseUrl: serverUrl })
+        } else {
+          const { BitbucketHost } = require("../adapters/bitbucket-host") as typeof import("../adapters/bitbucket-host")
+          cache.bitbucketHost = new BitbucketHost()
+        }
+      }
+      return cache.bitbucketHost
+    },
     get vectorSearch(): IVectorSearch {
       if (!cache.vectorSearch) {
         const { LlamaIndexVectorSearch } = require("../adapters/llamaindex-vector-search") as typeof import("../adapters/llamaindex-vector-search")
-        cache.vectorSearch = new LlamaIndexVectorSearch()
+        if (process.env.VECTOR_SEARCH_BACKEND === "hnsw") {
+          const { HnswVectorSearch } = require("../adapters/hnsw-vector-search") as typeof import("../adapters/hnsw-vector-search")
+          const { EMBEDDING_MODEL_ID, getLLMProviderName } = require("../llm/config") as typeof import("../llm/config")
+          // Air-gapped: embed through the OpenAI-compatible server; otherwise Vertex AI
+          const embedder = getLLMProviderName() === "openai_compatible"
+            ? { embed: (texts: string[]) => this.llmProvider.embed({ model: EMBEDDING_MODEL_ID, texts }) }
+            : new LlamaIndexVectorSearch()
+          cache.vectorSearch = new HnswVectorSearch({ embedder })
+        } else {
+          cache.vectorSearch = new LlamaIndexVectorSearch()
+        }
       }
       return cache.vectorSearch
     },
@@ -132,7 +177,7 @@ function createLazyProductionContainer(): Container {
     get codeIntelligence(): ICodeIntelligence {
       if (!cache.codeIntelligence) {
         const { SCIPCodeIntelligence } = require("../adapters/scip-code-intelligence") as typeof import("../adapters/scip-code-intelligence")
-        cache.codeIntelligence = new SCIPCodeIntelligence()
+        cache.codeIntelligence = new SCIPCodeIntelligence({ storage: this.storageProvider })
       }
       return cache.codeIntelligence
     },
@@ -167,6 +212,13 @@ export function getContainer(): Container {
   return productionContainer
 }
 
+/** Git host adapter for a repo's provider (GitHub unless the repo lives on GitLab or Bitbucket). */
+export function getGitHost(container: Container, provider?: string): IGitHost {
+  if (provider === "gitlab") return container.gitLabHost
+  if (provider === "bitbucket") return container.bitbucketHost
+  return container.gitHost
+}
+
 export function createTestContainer(overrides?: Partial<Container>): Container {
   return {
     graphStore: new InMemoryGraphStore(),
@@ -174,6 +226,8 @@ export function createTestContainer(overrides?: Partial<Container>): Container {
     llmProvider: new MockLLMProvider(),
     workflowEngine: new InlineWorkflowEngine(),
     gitHost: new FakeGitHost(),
+    gitLabHost: new FakeGitHost(),
+    bitbucketHost: new FakeGitHost(),
     vectorSearch: new InMemoryVectorSearch(),
     billingProvider: new NoOpBillingProvider(),
     observability: new InMemoryObservability(),
@@ -4,10 +4,11 @@
  *           workspace overlay, API key CRUD, workspace CRUD.
  */
 
+import { clampPathOptions, kShortestPaths } from "@/lib/adapters/graph-paths"
 import type { IBillingProvider } from "@/lib/ports/billing-provider"
 import type { ICacheStore } from "@/lib/ports/cache-store"
 import type { Definition, ICodeIntelligence, Reference } from "@/lib/ports/code-intelligence"
-import type { FileEntry, GitHubRepo, IGitHost, PullRequest } from "@/lib/ports/git-host"
+import type { FileCommit, FileEntry, GitHubRepo, IGitHost, PullRequest, RepoPermission } from "@/lib/ports/git-host"
 import type { IGraphStore } from "@/lib/ports/graph-store"
 import type { BatchProcessingOptions, BatchProcessingResult, ILLMProvider } from "@/lib/ports/llm-provider"
 import type { CostBreakdown, IObservability, ModelUsageEntry } from "@/lib/ports/observability"
@@ -15,7 +16,7 @@ import type { IPatternEngine, PatternMatch } from "@/lib/ports/pattern-engine"
 import type { ApiKeyRecord, DeletionLogRecord, GitHubInstallationRecord, IRelationalStore, PipelineRunRecord, RepoRecord, WorkspaceRecord } from "@/lib/ports/relational-store"
 import type { IInternalGitServer, GitChangedFile, WorktreeHandle } from "@/lib/ports/internal-git-server"
 import type { IStorageProvider } from "@/lib/ports/storage-provider"
-import type { ADRDoc, BlueprintData, DomainOntologyDoc, DriftScoreDoc, EdgeDoc, EntityDoc, FeatureAggregation, FeatureDoc, HealthReportDoc, ImpactReportDoc, ImpactResult, ImportChain, IndexEventDoc, JustificationDoc, LedgerEntry, LedgerEntryStatus, LedgerSummary, LedgerTimelineQuery, MinedPatternDoc, PaginatedResult, PatternDoc, PipelineStepRecord, ProjectStats, PrReviewCommentRecord, PrReviewRecord, ReviewConfig, RuleDoc, RuleExceptionDoc, RuleHealthDoc, SearchResult, SnippetDoc, SubgraphResult, TokenUsageEntry, TokenUsageSummary, WorkingSnapshot } from "@/lib/ports/types"
+import type { ADRDoc, BlueprintData, DomainOntologyDoc, DriftScoreDoc, EdgeDoc, EntityDoc, FeatureAggregation, FeatureDoc, GraphPath, HealthReportDoc, ImpactReportDoc, ImpactResult, ImportChain, IndexEventDoc, JustificationDoc, LayerDefinitionDoc, LedgerEntry, LedgerEntryStatus, LedgerSummary, LedgerTimelineQuery, MinedPatternDoc, PaginatedResult, PathEdgeKind, PatternDoc, PipelineStepRecord, ProjectStats, PrReviewCommentRecord, PrReviewRecord, ReviewConfig, RuleDoc, RuleExceptionDoc, RuleHealthDoc, SearchResult, SnippetDoc, SubgraphResult, TokenUsageEntry, TokenUsageSummary, WorkingSnapshot } from "@/lib/ports/types"
 import { DEFAULT_REVIEW_CONFIG, validateLedgerTransition } from "@/lib/ports/types"
 import type { IVectorSearch } from "@/lib/ports/vector-search"
 import type { IWorkflowEngine } from "@/lib/ports/workflow-engine"
@@ -27,6 +28,7 @@ export class InMemoryGraphStore implements IGraphStore {
   private justifications = new Map<string, JustificationDoc>()
   private featureAggregations = new Map<string, FeatureAggregation>()
   private healthReports = new Map<string, HealthReportDoc>()
+  private layerDefinitions = new Map<string, LayerDefinitionDoc>()
   private domainOntologies = new Map<string, DomainOntologyDoc>()
   private driftScores = new Map<string, DriftScoreDoc>()
   private adrs = new Map<string, ADRDoc>()
@@ -102,6 +104,12 @@ export class InMemoryGraphStore implements IGraphStore {
     const rule = this.rules.get(ruleId)
     if (rule && rule.org_id === orgId) rule.status = "archived"
   }
+  async upsertLayerDefinition(orgId: string, definition: LayerDefinitionDoc): Promise<void> {
+    this.layerDefinitions.set(`${orgId}:${definition.repo_id}`, definition)
+  }
+  async getLayerDefinition(orgId: string, repoId: string): Promise<LayerDefinitionDoc | null> {
+    return this.layerDefinitions.get(`${orgId}:${repoId}`) ?? null
+  }
   async upsertPattern(_orgId: string, pattern: PatternDoc): Promise<void> {
     this.patterns.set(pattern.id, pattern)
   }
@@ -398,10 +406,33 @@ export class InMemoryGraphStore implements IGraphStore {
     }
     return result
   }
-  async getAllEntities(orgId: string, repoId: string, limit = 10000): Promise<EntityDoc[]> {
+  async findPaths(
+    orgId: string,
+    fromId: string,
+    toId: string,
+    opts?: { k?: number; maxDepth?: number; edgeKinds?: PathEdgeKind[] }
+  ): Promise<GraphPath[]> {
+    const { k, maxDepth, edgeKinds } = clampPathOptions(opts)
+    const live = (id: string) => {
+      const e = this.entities.get(id)
+      return e != null && e.org_id === orgId && e.kind !== "tombstone"
+    }
+    if (!live(fromId) || !live(toId)) return []
+    const paths = kShortestPaths([fromId], new Set([toId]), k, maxDepth, (vertices) =>
+      this.edges
+        .filter((e) => e.org_id === orgId && (edgeKinds as string[]).includes(e.kind))
+        .map((e) => ({ from: e._from.split("/").pop()!, to: e._to.split("/").pop()!, edge: e }))
+        .filter((a) => vertices.includes(a.from) && live(a.to))
+    )
+    return paths.map((p) => ({
+      entities: p.vertices.map((id) => this.entities.get(id)!),
+      edges: p.edges as unknown as EdgeDoc[],
+    }))
+  }
+  async getAllEntities(orgId: string, repoId: string, limit = 10000, offset = 0): Promise<EntityDoc[]> {
     return Array.from(this.entities.values())
       .filter((e) => e.org_id === orgId && e.repo_id === repoId)
-      .slice(0, limit)
+      .slice(offset, offset + limit)
   }
   async getAllEdges(orgId: string, repoId: string, limit = 20000): Promise<import("@/lib/ports/types").EdgeDoc[]> {
     return (this.edges
@@ -870,6 +901,9 @@ export class InMemoryRelationalStore implements IRelationalStore {
   async getRepoByGithubId(orgId: string, githubRepoId: number): Promise<RepoRecord | null> {
     return this.repos.find((r) => r.organizationId === orgId && r.githubRepoId === githubRepoId) ?? null
   }
+  async getRepoByProviderId(provider: string, providerId: string): Promise<RepoRecord | null> {
+    return this.repos.find((r) => r.provider === provider && r.providerId === providerId) ?? null
+  }
   async getReposByStatus(orgId: string, status: string): Promise<RepoRecord[]> {
     return this.repos.filter((r) => r.organizationId === orgId && r.status === status)
   }
@@ -1144,6 +1178,10 @@ export class InMemoryRelationalStore implements IRelationalStore {
   async listPrReviewComments(reviewId: string): Promise<PrReviewCommentRecord[]> {
     return this.prReviewComments.filter((c) => c.reviewId === reviewId)
   }
+  async getPrReviewCommentByGithubId(repoId: string, githubCommentId: number): Promise<PrReviewCommentRecord | null> {
+    const reviewIds = new Set(this.prReviews.filter((r) => r.repoId === repoId).map((r) => r.id))
+    return [...this.prReviewComments].reverse().find((c) => c.githubCommentId === githubCommentId && reviewIds.has(c.reviewId)) ?? null
+  }
   async updateRepoReviewConfig(repoId: string, config: ReviewConfig): Promise<void> {
     this.reviewConfigs.set(repoId, config)
   }
@@ -1207,8 +1245,10 @@ export class InlineWorkflowEngine implements IWorkflowEngine {
 
 export class FakeGitHost implements IGitHost {
   async cloneRepo(): Promise<void> {}
+  pullRequestResult: PullRequest = { number: 0, title: "" }
+
   async getPullRequest(): Promise<PullRequest> {
-    return { number: 0, title: "" }
+    return this.pullRequestResult
   }
   async createPullRequest(): Promise<PullRequest> {
     return { number: 42, title: "Enable unerr Code Intelligence" }
@@ -1219,6 +1259,17 @@ export class FakeGitHost implements IGitHost {
   async listFiles(): Promise<FileEntry[]> {
     return []
   }
+  /** Repo file contents served by getFileContent/listDirectory, keyed by path (any ref) */
+  repoFiles = new Map<string, string>()
+  async getFileContent(_owner: string, _repo: string, path: string): Promise<string | null> {
+    return this.repoFiles.get(path) ?? null
+  }
+  async listDirectory(_owner: string, _repo: string, path: string): Promise<FileEntry[]> {
+    const prefix = `${path}/`
+    return Array.from(this.repoFiles.keys())
+      .filter((p) => p.startsWith(prefix) && !p.slice(prefix.length).includes("/"))
+      .map((p) => ({ path: p, type: "file" as const }))
+  }
   async createWebhook(): Promise<void> {}
   async getInstallationRepos(): Promise<GitHubRepo[]> {
     return []
@@ -1235,6 +1286,7 @@ export class FakeGitHost implements IGitHost {
   diffFilesResult: import("@/lib/ports/types").ChangedFile[] = []
   latestShaResult = "abc123"
   blameResult: string | null = "test-author"
+  fileGitHistoryResult: FileCommit[] = []
 
   async pullLatest(): Promise<void> {
     if (this.pullLatestResult) return this.pullLatestResult()
@@ -1250,8 +1302,11 @@ export class FakeGitHost implements IGitHost {
   }
 
   // I-02: Historical context
-  async getFileGitHistory(): Promise<Array<{ sha: string; subject: string; body: string }>> {
-    return []
+  async getFileGitHistory(): Promise<FileCommit[]> {
+    return this.fileGitHistoryResult
+  }
+  async listFileCommits(owner: string, repo: string, path: string, opts: { limit: number }): Promise<FileCommit[]> {
+    return this.fileGitHistoryResult.slice(0, opts.limit)
   }
 
   // Phase 7: PR Review
@@ -1259,13 +1314,15 @@ export class FakeGitHost implements IGitHost {
   postedComments: Array<{ owner: string; repo: string; prNumber: number; comment: unknown }> = []
   checkRuns: Array<{ id: number; owner: string; repo: string; status: string; conclusion?: string; output?: unknown }> = []
   issueComments: Array<{ owner: string; repo: string; issueNumber: number; body: string }> = []
+  reviewReplies: Array<{ owner: string; repo: string; prNumber: number; inReplyTo: number; body: string }> = []
   branches: Array<{ owner: string; repo: string; name: string; fromSha: string }> = []
   files: Array<{ owner: string; repo: string; branch: string; path: string; content: string }> = []
   private nextCheckRunId = 1
 
-  async postReview(owner: string, repo: string, prNumber: number, review: { event: string; body: string; comments?: unknown[] }): Promise<{ reviewId: number }> {
+  async postReview(owner: string, repo: string, prNumber: number, review: { event: string; body: string; comments?: unknown[] }): Promise<{ reviewId: number; commentIds: Array<number | null> }> {
     this.postedReviews.push({ owner, repo, prNumber, review })
-    return { reviewId: this.postedReviews.length }
+    const reviewId = this.postedReviews.length
+    return { reviewId, commentIds: (review.comments ?? []).map((_, i) => reviewId * 1000 + i + 1) }
   }
   async postReviewComment(owner: string, repo: string, prNumber: number, comment: { path: string; line: number; body: string; commitId: string }): Promise<{ commentId: number }> {
     this.postedComments.push({ owner, repo, prNumber, comment })
@@ -1291,6 +1348,15 @@ export class FakeGitHost implements IGitHost {
     this.issueComments.push({ owner, repo, issueNumber, body })
     return { commentId: this.issueComments.length }
   }
+  /** Per-username repo permission — users not listed have write access */
+  collaboratorPermissions = new Map<string, RepoPermission>()
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<RepoPermission> {
+    return this.collaboratorPermissions.get(username) ?? "write"
+  }
+  async replyToReviewComment(owner: string, repo: string, prNumber: number, commentId: number, body: string): Promise<{ commentId: number }> {
+    this.reviewReplies.push({ owner, repo, prNumber, inReplyTo: commentId, body })
+    return { commentId: this.reviewReplies.length }
+  }
   async createBranch(owner: string, repo: string, branchName: string, fromSha: string): Promise<void> {
     this.branches.push({ owner, repo, name: branchName, fromSha })
   }
@@ -1298,6 +1364,13 @@ export class FakeGitHost implements IGitHost {
     this.files.push({ owner, repo, branch, path, content })
     return { sha: `fake-sha-${Date.now()}` }
   }
+
+  /** SARIF logs passed to uploadSarif — for test assertions */
+  sarifUploads: Array<{ owner: string; repo: string; commitSha: string; ref: string; sarif: string }> = []
+  async uploadSarif(owner: string, repo: string, opts: { commitSha: string; ref: string; sarif: string }): Promise<{ id: string }> {
+    this.sarifUploads.push({ owner, repo, ...opts })
+    return { id: `fake-sarif-${this.sarifUploads.length}` }
+  }
 }
 
 export class InMemoryVectorSearch implements IVectorSearch {
@@ -1597,6 +1670,10 @@ export class InMemoryStorageProvider implements IStorageProvider {
     }
   }
 
+  async uploadFile(bucket: string, path: string, data: Buffer): Promise<void> {
+    this.store.set(`${bucket}/${path}`, data)
+  }
+
   async downloadFile(bucket: string, path: string): Promise<Buffer> {
     const key = `${bucket}/${path}`
     const data = this.store.get(key)
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest"
 import { createTestContainer } from "@/lib/di/container"
+import { ToolCallCancelledError } from "@/lib/mcp/progress"
 import { computeAdaptiveK, hybridSearch, reciprocalRankFusion, tokenizeQuery } from "../hybrid-search"
 
 describe("tokenizeQuery", () => {
@@ -218,4 +219,41 @@ describe("hybridSearch", () => {
 
     expect(result.results).toHaveLength(0)
   })
+
+  it("reports progress per stage in keyword mode", async () => {
+    const container = createTestContainer()
+    await container.graphStore.bulkUpsertEntities("org1", [
+      { id: "e1", org_id: "org1", repo_id: "repo1", kind: "function", name: "processPayment", file_path: "pay.ts" },
+    ])
+    const updates: Array<{ progress: number; total?: number; message?: string }> = []
+
+    await hybridSearch(
+      { query: "processPayment", orgId: "org1", repoId: "repo1", mode: "keyword", limit: 10 },
+      container,
+      { onProgress: (u) => updates.push(u) }
+    )
+
+    expect(updates.map((u) => u.progress)).toEqual([1, 2, 3])
+    expect(updates[0]).toMatchObject({ total: 3, message: "keyword search complete (1 results)" })
+  })
+
+  it("rejects instead of degrading when the signal aborts, and hands the signal to the store", async () => {
+    const container = createTestContainer()
+    let storeSignal: AbortSignal | undefined
+    container.graphStore.searchEntities = (_orgId, _repoId, _query, _limit, opts) => {
+      storeSignal = opts?.signal
+      return new Promise(() => {})
+    }
+    const controller = new AbortController()
+
+    const pending = hybridSearch(
+      { query: "processPayment", orgId: "org1", repoId: "repo1", mode: "keyword", limit: 10 },
+      container,
+      { signal: controller.signal }
+    )
+    controller.abort()
+
+    await expect(pending).rejects.toBeInstanceOf(ToolCallCancelledError)
+    expect(storeSignal?.aborted).toBe(true)
+  })
 })
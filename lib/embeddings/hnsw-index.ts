@@ -0,0 +1,380 @@
+/**
+ * Hierarchical Navigable Small World (HNSW) index — approximate nearest
+ * neighbour search over cosine similarity, in pure TypeScript.
+ *
+ * Backs the embedded vector search adapter (lib/adapters/hnsw-vector-search.ts)
+ * so semantic search works without pgvector. Follows Malkov & Yashunin (2016):
+ * a layered proximity graph, greedy descent through the upper layers, and a
+ * beam search (ef) on layer 0.
+ *
+ * Deletes are tombstones: removed nodes stay in the graph as routing hops but
+ * never appear in results. `compact()` rebuilds from live nodes once the
+ * tombstone ratio makes traversal wasteful.
+ *
+ * Serialized as one buffer: [u32 header length][JSON header][float32 vectors].
+ */
+
+export interface HnswOptions {
+  /** Max neighbours per node on upper layers (layer 0 keeps 2M). Default 16. */
+  m?: number
+  /** Beam width while inserting. Default 200. */
+  efConstruction?: number
+  /** Beam width while searching (raised to topK when smaller). Default 64. */
+  efSearch?: number
+  /** Seed for level assignment — fixed so rebuilds are reproducible. */
+  seed?: number
+}
+
+export interface HnswSearchHit<P> {
+  key: string
+  /** Cosine similarity (1 = identical direction) */
+  score: number
+  payload: P
+}
+
+interface HnswHeader<P> {
+  version: 1
+  dimensions: number
+  m: number
+  efConstruction: number
+  efSearch: number
+  seed: number
+  entryPoint: number
+  maxLevel: number
+  keys: string[]
+  payloads: P[]
+  deleted: number[]
+  neighbors: number[][][]
+}
+
+interface Candidate {
+  id: number
+  distance: number
+}
+
+/** Insert into an ascending-by-distance array, keeping it sorted. */
+function insertSorted(list: Candidate[], item: Candidate): void {
+  let lo = 0
+  let hi = list.length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    if (list[mid]!.distance <= item.distance) lo = mid + 1
+    else hi = mid
+  }
+  list.splice(lo, 0, item)
+}
+
+function vectorNorm(vec: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < vec.length; i++) sum += vec[i]! * vec[i]!
+  return Math.sqrt(sum) || 1
+}
+
+/** mulberry32 — small deterministic PRNG for level assignment. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export class HnswIndex<P = Record<string, unknown>> {
+  readonly dimensions: number
+  private readonly m: number
+  private readonly efConstruction: number
+  private readonly efSearch: number
+  private readonly seed: number
+  private readonly levelMultiplier: number
+  private random: () => number
+
+  private vectors: Float32Array[] = []
+  private norms: number[] = []
+  private keys: string[] = []
+  private payloads: P[] = []
+  private deleted = new Set<number>()
+  /** neighbors[node][level] → node ids */
+  private neighbors: number[][][] = []
+  private keyToNode = new Map<string, number>()
+  private entryPoint = -1
+  private maxLevel = -1
+
+  constructor(dimensions: number, options: HnswOptions = {}) {
+    this.dimensions = dimensions
+    this.m = options.m ?? 16
+    this.efConstruction = options.efConstruction ?? 200
+    this.efSearch = options.efSearch ?? 64
+    this.seed = options.seed ?? 42
+    this.levelMultiplier = 1 / Math.log(this.m)
+    this.random = createRandom(this.seed)
+  }
+
+  /** Number of live (non-deleted) entries. */
+  get size(): number {
+    return this.keyToNode.size
+  }
+
+  /** Number of tombstoned nodes still in the graph. */
+  get tombstones(): number {
+    return this.deleted.size
+  }
+
+  has(key: string): boolean {
+    return this.keyToNode.has(key)
+  }
+
+  liveKeys(): string[] {
+    return [...this.keyToNode.keys()]
+  }
+
+  getVector(key: string): number[] | null {
+    const id = this.keyToNode.get(key)
+    return id === undefined ? null : Array.from(this.vectors[id]!)
+  }
+
+  getPayload(key: string): P | undefined {
+    const id = this.keyToNode.get(key)
+    return id === undefined ? undefined : this.payloads[id]
+  }
+
+  /** Live entries as [key, payload] pairs. */
+  *entries(): IterableIterator<[string, P]> {
+    for (const [key, id] of this.keyToNode) yield [key, this.payloads[id]!]
+  }
+
+  /** Insert or replace an entry. Replacing tombstones the old node. */
+  upsert(key: string, vector: number[], payload: P): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`[HnswIndex] Expected ${this.dimensions}-dimensional vector for "${key}", got ${vector.length}`)
+    }
+    this.remove(key)
+
+    const id = this.vectors.length
+    const vec = Float32Array.from(vector)
+    this.vectors.push(vec)
+    this.norms.push(vectorNorm(vec))
+    this.keys.push(key)
+    this.payloads.push(payload)
+    this.keyToNode.set(key, id)
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier)
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []))
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = id
+      this.maxLevel = level
+      return
+    }
+
+    let entry = this.entryPoint
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.greedyClosest(vec, this.norms[id]!, entry, l)
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vec, this.norms[id]!, [entry], this.efConstruction, l)
+      const maxConn = this.maxConnections(l)
+      const selected = candidates.slice(0, maxConn).map((c) => c.id)
+      this.neighbors[id]![l] = selected
+      for (const n of selected) {
+        const links = this.neighbors[n]![l]!
+        links.push(id)
+        if (links.length > maxConn) this.prune(n, l, maxConn)
+      }
+      entry = candidates[0]!.id
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level
+      this.entryPoint = id
+    }
+  }
+
+  /** Tombstone an entry. Returns false when the key is not present. */
+  remove(key: string): boolean {
+    const id = this.keyToNode.get(key)
+    if (id === undefined) return false
+    this.keyToNode.delete(key)
+    this.deleted.add(id)
+    return true
+  }
+
+  /** k nearest live entries by cosine similarity, highest first. */
+  search(query: number[], topK: number, filter?: (payload: P) => boolean): HnswSearchHit<P>[] {
+    if (this.size === 0 || topK <= 0) return []
+    if (query.length !== this.dimensions) {
+      throw new Error(`[HnswIndex] Expected ${this.dimensions}-dimensional query, got ${query.length}`)
+    }
+    const vec = Float32Array.from(query)
+    const norm = vectorNorm(vec)
+
+    let entry = this.entryPoint
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = this.greedyClosest(vec, norm, entry, l)
+    }
+
+    // Tombstones and filtered-out nodes occupy beam slots — widen accordingly
+    const ef = Math.max(this.efSearch, topK) + this.deleted.size + (filter ? topK * 4 : 0)
+    const hits: HnswSearchHit<P>[] = []
+    for (const c of this.searchLayer(vec, norm, [entry], ef, 0)) {
+      if (this.deleted.has(c.id)) continue
+      const payload = this.payloads[c.id]!
+      if (filter && !filter(payload)) continue
+      hits.push({ key: this.keys[c.id]!, score: 1 - c.distance, payload })
+      if (hits.length === topK) break
+    }
+    return hits
+  }
+
+  /** Rebuild the graph from live entries, dropping tombstones. */
+  compact(): void {
+    const live = [...this.keyToNode.entries()].map(([key, id]) => ({
+      key,
+      vector: Array.from(this.vectors[id]!),
+      payload: this.payloads[id]!,
+    }))
+    this.vectors = []
+    this.norms = []
+    this.keys = []
+    this.payloads = []
+    this.deleted = new Set()
+    this.neighbors = []
+    this.keyToNode = new Map()
+    this.entryPoint = -1
+    this.maxLevel = -1
+    this.random = createRandom(this.seed)
+    for (const entry of live) this.upsert(entry.key, entry.vector, entry.payload)
+  }
+
+  serialize(): Buffer {
+    const header: HnswHeader<P> = {
+      version: 1,
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      seed: this.seed,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      keys: this.keys,
+      payloads: this.payloads,
+      deleted: [...this.deleted],
+      neighbors: this.neighbors,
+    }
+    const json = Buffer.from(JSON.stringify(header), "utf8")
+    const vectors = new Float32Array(this.vectors.length * this.dimensions)
+    this.vectors.forEach((v, i) => vectors.set(v, i * this.dimensions))
+
+    const length = Buffer.alloc(4)
+    length.writeUInt32LE(json.length, 0)
+    return Buffer.concat([length, json, Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength)])
+  }
+
+  static deserialize<P>(buffer: Buffer): HnswIndex<P> {
+    const headerLength = buffer.readUInt32LE(0)
+    const header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString("utf8")) as HnswHeader<P>
+    if (header.version !== 1) {
+      throw new Error(`[HnswIndex] Unsupported index format version ${String(header.version)}`)
+    }
+
+    const index = new HnswIndex<P>(header.dimensions, {
+      m: header.m,
+      efConstruction: header.efConstruction,
+      efSearch: header.efSearch,
+      seed: header.seed,
+    })
+    // Copy out of the file buffer — it is not guaranteed to be 4-byte aligned
+    const raw = buffer.subarray(4 + headerLength)
+    const floats = new Float32Array(raw.byteLength / 4)
+    new Uint8Array(floats.buffer).set(raw)
+
+    index.keys = header.keys
+    index.payloads = header.payloads
+    index.neighbors = header.neighbors
+    index.deleted = new Set(header.deleted)
+    index.entryPoint = header.entryPoint
+    index.maxLevel = header.maxLevel
+    for (let i = 0; i < header.keys.length; i++) {
+      const vec = floats.slice(i * header.dimensions, (i + 1) * header.dimensions)
+      index.vectors.push(vec)
+      index.norms.push(vectorNorm(vec))
+      if (!index.deleted.has(i)) index.keyToNode.set(header.keys[i]!, i)
+    }
+    // Advance the PRNG past the levels already drawn so new inserts continue the sequence
+    for (let i = 0; i < header.keys.length; i++) index.random()
+    return index
+  }
+
+  // ── Graph internals ──────────────────────────────────────────────────────
+
+  private maxConnections(level: number): number {
+    return level === 0 ? this.m * 2 : this.m
+  }
+
+  private distance(a: Float32Array, aNorm: number, id: number): number {
+    const b = this.vectors[id]!
+    let dot = 0
+    for (let i = 0; i < a.length; i++) dot += a[i]! * b[i]!
+    return 1 - dot / (aNorm * this.norms[id]!)
+  }
+
+  private greedyClosest(vec: Float32Array, norm: number, start: number, level: number): number {
+    let current = start
+    let currentDist = this.distance(vec, norm, current)
+    let improved = true
+    while (improved) {
+      improved = false
+      for (const n of this.neighbors[current]![level] ?? []) {
+        const d = this.distance(vec, norm, n)
+        if (d < currentDist) {
+          current = n
+          currentDist = d
+          improved = true
+        }
+      }
+    }
+    return current
+  }
+
+  /** Beam search on one layer. Returns up to `ef` candidates, closest first. */
+  private searchLayer(vec: Float32Array, norm: number, entries: number[], ef: number, level: number): Candidate[] {
+    const visited = new Set<number>(entries)
+    const candidates: Candidate[] = []
+    const results: Candidate[] = []
+    for (const id of entries) {
+      const c = { id, distance: this.distance(vec, norm, id) }
+      insertSorted(candidates, c)
+      insertSorted(results, c)
+    }
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!
+      if (results.length >= ef && closest.distance > results[results.length - 1]!.distance) break
+
+      for (const n of this.neighbors[closest.id]![level] ?? []) {
+        if (visited.has(n)) continue
+        visited.add(n)
+        const d = this.distance(vec, norm, n)
+        if (results.length < ef || d < results[results.length - 1]!.distance) {
+          const c = { id: n, distance: d }
+          insertSorted(candidates, c)
+          insertSorted(results, c)
+          if (results.length > ef) results.pop()
+        }
+      }
+    }
+    return results
+  }
+
+  /** Keep only the `maxConn` closest links of a node on one layer. */
+  private prune(id: number, level: number, maxConn: number): void {
+    const vec = this.vectors[id]!
+    const norm = this.norms[id]!
+    const ranked: Candidate[] = []
+    for (const n of this.neighbors[id]![level]!) insertSorted(ranked, { id: n, distance: this.distance(vec, norm, n) })
+    this.neighbors[id]![level] = ranked.slice(0, maxConn).map((c) => c.id)
+  }
+}
@@ -13,6 +13,7 @@
  */
 
 import type { Container } from "@/lib/di/container"
+import { abortable, stageReporter, throwIfCancelled, ToolCallCancelledError, type ToolCallOptions } from "@/lib/mcp/progress"
 import type { EntityDoc } from "@/lib/ports/types"
 import { CODE_VARIANT_SUFFIX } from "@/lib/temporal/activities/embedding"
 
@@ -224,40 +225,51 @@ export function tokenizeQuery(query: string): string[] {
 /**
  * Execute the hybrid search pipeline.
  * Runs semantic and keyword legs in parallel, merges with RRF, enriches with graph data.
+ *
+ * `options.onProgress` fires as each leg, the merge and the enrichment complete;
+ * `options.signal` cancels the search (rejects with ToolCallCancelledError).
  */
 export async function hybridSearch(
   input: HybridSearchInput,
-  container: Container
+  container: Container,
+  options: ToolCallOptions = {}
 ): Promise<HybridSearchResult> {
   const startTime = Date.now()
   const degraded: Record<string, string> = {}
+  const { signal } = options
 
   // Determine which legs to run
   const runSemantic = input.mode === "hybrid" || input.mode === "semantic"
   const runKeyword = input.mode === "hybrid" || input.mode === "keyword"
+  const legCount = (runSemantic ? 2 : 0) + (runKeyword ? 1 : 0)
+  const stageDone = stageReporter(legCount + 2, options.onProgress)
+
+  // A failed leg degrades the search; a cancelled one aborts it
+  const runLeg = (leg: Promise<RankedItem[]>, name: string, label: string): Promise<RankedItem[]> =>
+    abortable(leg, signal).then(
+      (items) => {
+        stageDone(`${name} search complete (${items.length} results)`)
+        return items
+      },
+      (err: unknown) => {
+        if (err instanceof ToolCallCancelledError) throw err
+        const msg = err instanceof Error ? err.message : String(err)
+        degraded[name] = `${label} failed: ${msg}`
+        stageDone(`${name} search failed`)
+        return [] as RankedItem[]
+      }
+    )
 
   // Run legs in parallel with independent timeouts
   const [semanticResults, keywordResults, justificationResults] = await Promise.all([
     runSemantic
-      ? runSemanticLeg(input, container).catch((err: unknown) => {
-          const msg = err instanceof Error ? err.message : String(err)
-          degraded.semantic = `pgvector search failed: ${msg}`
-          return [] as RankedItem[]
-        })
+      ? runLeg(runSemanticLeg(input, container, signal), "semantic", "pgvector search")
       : Promise.resolve([] as RankedItem[]),
     runKeyword
-      ? runKeywordLeg(input, container).catch((err: unknown) => {
-          const msg = err instanceof Error ? err.message : String(err)
-          degraded.keyword = `ArangoDB fulltext failed: ${msg}`
-          return [] as RankedItem[]
-        })
+      ? runLeg(runKeywordLeg(input, container, signal), "keyword", "ArangoDB fulltext")
       : Promise.resolve([] as RankedItem[]),
     runSemantic
-      ? runJustificationLeg(input, container).catch((err: unknown) => {
-          const msg = err instanceof Error ? err.message : String(err)
-          degraded.justification = `justification search failed: ${msg}`
-          return [] as RankedItem[]
-        })
+      ? runLeg(runJustificationLeg(input, container, signal), "justification", "justification search")
       : Promise.resolve([] as RankedItem[]),
   ])
 
@@ -312,7 +324,7 @@ export async function hybridSearch(
         [c.entityName, c.entityType, c.filePath, c.signature].filter(Boolean).join(" | ")
       )
       const reranked = await withTimeout(
-        container.vectorSearch.rerank!(input.query, docs, input.limit),
+        abortable(container.vectorSearch.rerank!(input.query, docs, input.limit), signal),
         3000
       )
       candidates = reranked.map((r) => ({
@@ -320,6 +332,7 @@ export async function hybridSearch(
         score: r.relevanceScore,
       }))
     } catch (err: unknown) {
+      if (err instanceof ToolCallCancelledError) throw err
       const msg = err instanceof Error ? err.message : String(err)
       degraded.reranker = `Cohere Rerank failed: ${msg}`
       // Fall back to RRF-only results, trimmed to limit
@@ -327,14 +340,18 @@ export async function hybridSearch(
     }
   }
 
+  stageDone(`Merged ${candidates.length} candidates`)
+  throwIfCancelled(signal)
+
   // Graph enrichment with timeout
   let enrichedResults: SearchResultItem[]
   try {
     enrichedResults = await withTimeout(
-      enrichWithGraph(candidates, input.orgId, container),
+      abortable(enrichWithGraph(candidates, input.orgId, container), signal),
       2000
     )
-  } catch {
+  } catch (err: unknown) {
+    if (err instanceof ToolCallCancelledError) throw err
     degraded.graphEnrichment = "ArangoDB graph enrichment timeout"
     enrichedResults = candidates.map((item) => ({
       ...item,
@@ -342,6 +359,7 @@ export async function hybridSearch(
       callees: undefined,
     }))
   }
+  stageDone("Graph enrichment complete")
 
   return {
     results: enrichedResults,
@@ -358,7 +376,8 @@ export async function hybridSearch(
 
 async function runSemanticLeg(
   input: HybridSearchInput,
-  container: Container
+  container: Container,
+  signal?: AbortSignal
 ): Promise<RankedItem[]> {
   // Embed the query
   let queryEmbedding: number[]
@@ -374,7 +393,8 @@ async function runSemanticLeg(
   const results = await container.vectorSearch.search(
     queryEmbedding,
     legLimit,
-    { orgId: input.orgId, repoId: input.repoId }
+    { orgId: input.orgId, repoId: input.repoId },
+    { signal }
   )
 
   return results.map((r) => ({
@@ -398,7 +418,8 @@ async function runSemanticLeg(
  */
 async function runJustificationLeg(
   input: HybridSearchInput,
-  container: Container
+  container: Container,
+  signal?: AbortSignal
 ): Promise<RankedItem[]> {
   if (!container.vectorSearch.searchJustificationEmbeddings) {
     return []
@@ -417,7 +438,8 @@ async function runJustificationLeg(
   const results = await container.vectorSearch.searchJustificationEmbeddings(
     queryEmbedding,
     15, // top 15 candidates for RRF merge
-    { orgId: input.orgId, repoId: input.repoId }
+    { orgId: input.orgId, repoId: input.repoId },
+    { signal }
   )
 
   return results.map((r) => ({
@@ -433,14 +455,16 @@ async function runJustificationLeg(
 
 async function runKeywordLeg(
   input: HybridSearchInput,
-  container: Container
+  container: Container,
+  signal?: AbortSignal
 ): Promise<RankedItem[]> {
   const legLimit = 20
   const results = await container.graphStore.searchEntities(
     input.orgId,
     input.repoId,
     input.query,
-    legLimit
+    legLimit,
+    { signal }
   )
 
   return results.map((r) => ({
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import { handleReviewCommentEvent, type ReviewCommentPayload } from "../review-comment"
+
+const ORG = "org-comment-webhook"
+const GITHUB_REPO_ID = 999002
+const INSTALLATION_ID = 23456
+
+function makePayload(overrides: Partial<ReviewCommentPayload> = {}): ReviewCommentPayload {
+  return {
+    action: "created",
+    comment: { id: 77, body: "@unerr explain", user: { login: "developer", type: "User" } },
+    issue: { number: 42, pull_request: { url: "https://api.github.com/repos/acme/app/pulls/42" } },
+    repository: { id: GITHUB_REPO_ID, full_name: "acme/app", owner: { login: "acme" }, name: "app" },
+    installation: { id: INSTALLATION_ID },
+    ...overrides,
+  }
+}
+
+describe("handleReviewCommentEvent", () => {
+  let container: Container
+  let repoId: string
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    await container.relationalStore.createInstallation({
+      organizationId: ORG,
+      installationId: INSTALLATION_ID,
+      accountLogin: "acme",
+      accountType: "Organization",
+    })
+    const repo = await container.relationalStore.createRepo({
+      organizationId: ORG,
+      name: "app",
+      fullName: "acme/app",
+      provider: "github",
+      providerId: String(GITHUB_REPO_ID),
+      githubRepoId: GITHUB_REPO_ID,
+      status: "ready",
+    })
+    repoId = repo.id
+  })
+
+  it("starts a conversation workflow for @unerr mentions on a PR", async () => {
+    const result = await handleReviewCommentEvent("issue_comment", makePayload(), container)
+
+    expect(result.action).toBe("conversation")
+    expect(result.workflowId).toBe(`review-conversation-${ORG}-${repoId}-77`)
+  })
+
+  it("handles replies without a mention only in threads unerr started", async () => {
+    const review = await container.relationalStore.createPrReview({
+      repoId,
+      prNumber: 42,
+      prTitle: "Orders",
+      prUrl: "https://github.com/acme/app/pull/42",
+      headSha: "head1",
+      baseSha: "base1",
+    })
+    await container.relationalStore.createPrReviewComment({
+      reviewId: review.id,
+      filePath: "lib/a.ts",
+      lineNumber: 3,
+      checkType: "pattern",
+      severity: "warning",
+      message: "Avoid direct DB access",
+      suggestion: null,
+      semgrepRuleId: null,
+      ruleTitle: null,
+      githubCommentId: 70,
+      autoFix: null,
+    })
+    const reply = (inReplyTo: number) => makePayload({
+      comment: { id: 78, body: "this is intentional", user: { login: "developer" }, path: "lib/a.ts", line: 3, in_reply_to_id: inReplyTo },
+      issue: undefined,
+      pull_request: { number: 42 },
+    })
+
+    expect((await handleReviewCommentEvent("pull_request_review_comment", reply(70), container)).action).toBe("conversation")
+    expect((await handleReviewCommentEvent("pull_request_review_comment", reply(71), container)).reason).toBe("Not an unerr thread")
+  })
+
+  it("skips bots, plain issues and comments not addressed to unerr", async () => {
+    const bot = makePayload({ comment: { id: 79, body: "@unerr explain", user: { login: "unerr[bot]", type: "Bot" } } })
+    expect((await handleReviewCommentEvent("issue_comment", bot, container)).reason).toBe("Comment by a bot")
+
+    const issue = makePayload({ issue: { number: 5 } })
+    expect((await handleReviewCommentEvent("issue_comment", issue, container)).reason).toBe("Not a pull request comment")
+
+    const chatter = makePayload({ comment: { id: 80, body: "LGTM", user: { login: "developer" } } })
+    expect((await handleReviewCommentEvent("issue_comment", chatter, container)).reason).toBe("unerr not mentioned")
+  })
+})
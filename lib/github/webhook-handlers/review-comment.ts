@@ -0,0 +1,119 @@
+/**
+ * Review comment webhook handler — issue_comment and pull_request_review_comment events.
+ * Starts reviewConversationWorkflow for `@unerr` commands and replies in review threads.
+ */
+
+import type { Container } from "@/lib/di/container"
+import { parseReviewCommand } from "@/lib/review/conversation"
+
+interface CommentUser {
+  login: string
+  type?: string
+}
+
+export interface ReviewCommentPayload {
+  action: string
+  comment: {
+    id: number
+    body: string
+    user: CommentUser
+    /** pull_request_review_comment only */
+    path?: string
+    line?: number | null
+    original_line?: number | null
+    in_reply_to_id?: number
+  }
+  /** issue_comment — present with `pull_request` set when the issue is a PR */
+  issue?: { number: number; pull_request?: unknown }
+  /** pull_request_review_comment */
+  pull_request?: { number: number }
+  repository: {
+    id: number
+    full_name: string
+    owner: { login: string }
+    name: string
+  }
+  installation?: { id: number }
+  sender?: CommentUser
+}
+
+export async function handleReviewCommentEvent(
+  event: "issue_comment" | "pull_request_review_comment",
+  payload: ReviewCommentPayload,
+  container: Container
+): Promise<{ action: string; workflowId?: string; reason?: string }> {
+  if (payload.action !== "created") {
+    return { action: "skipped", reason: `Unhandled action: ${payload.action}` }
+  }
+
+  const author = payload.comment.user
+  if (author.type === "Bot" || author.login.endsWith("[bot]")) {
+    return { action: "skipped", reason: "Comment by a bot" }
+  }
+
+  const prNumber = event === "issue_comment"
+    ? (payload.issue?.pull_request ? payload.issue.number : undefined)
+    : payload.pull_request?.number
+  if (!prNumber) {
+    return { action: "skipped", reason: "Not a pull request comment" }
+  }
+
+  // Top-level comments need a mention; thread replies may be addressed to an unerr finding
+  const mentioned = parseReviewCommand(payload.comment.body) != null
+  const replyTo = event === "pull_request_review_comment" ? payload.comment.in_reply_to_id : undefined
+  if (!mentioned && replyTo == null) {
+    return { action: "skipped", reason: "unerr not mentioned" }
+  }
+
+  const installationId = payload.installation?.id
+  if (!installationId) {
+    return { action: "skipped", reason: "No installation ID" }
+  }
+
+  const installation = await container.relationalStore.getInstallationByInstallationId(installationId)
+  if (!installation) {
+    return { action: "skipped", reason: "Installation not found" }
+  }
+
+  const repo = await container.relationalStore.getRepoByGithubId(installation.organizationId, payload.repository.id)
+  if (!repo) {
+    return { action: "skipped", reason: "Repo not registered" }
+  }
+
+  const finding = replyTo != null ? await container.relationalStore.getPrReviewCommentByGithubId(repo.id, replyTo) : null
+  if (!mentioned && !finding) {
+    return { action: "skipped", reason: "Not an unerr thread" }
+  }
+
+  const orgId = installation.organizationId
+  const comment = payload.comment
+  const thread = event === "pull_request_review_comment" && comment.path
+    ? {
+        path: comment.path,
+        line: comment.line ?? comment.original_line ?? null,
+        // GitHub only accepts replies to the thread's top-level comment
+        rootCommentId: comment.in_reply_to_id ?? comment.id,
+      }
+    : undefined
+
+  const workflowId = `review-conversation-${orgId}-${repo.id}-${comment.id}`
+  await container.workflowEngine.startWorkflow({
+    workflowFn: "reviewConversationWorkflow",
+    workflowId,
+    args: [{
+      orgId,
+      repoId: repo.id,
+      owner: payload.repository.owner.login,
+      repo: payload.repository.name,
+      prNumber,
+      installationId,
+      commentId: comment.id,
+      body: comment.body,
+      author: author.login,
+      thread,
+    }],
+    taskQueue: "light-llm-queue",
+  })
+
+  return { action: "conversation", workflowId }
+}
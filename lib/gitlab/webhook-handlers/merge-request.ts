@@ -0,0 +1,158 @@
+/**
+ * Merge request webhook handler — handles open, update, reopen, close and merge actions.
+ * GitLab counterpart of lib/github/webhook-handlers/pull-request.ts.
+ */
+
+import type { Container } from "@/lib/di/container"
+
+export interface GitLabProjectPayload {
+  id: number
+  name: string
+  path_with_namespace: string
+  default_branch: string
+  git_http_url: string
+  web_url: string
+}
+
+export interface MergeRequestPayload {
+  object_kind: "merge_request"
+  user: { username: string }
+  project: GitLabProjectPayload
+  object_attributes: {
+    iid: number
+    title: string
+    url: string
+    source_branch: string
+    target_branch: string
+    state: "opened" | "closed" | "merged" | "locked"
+    action?: "open" | "update" | "reopen" | "close" | "merge" | "approved" | "unapproved" | "approval" | "unapproval"
+    draft?: boolean
+    work_in_progress?: boolean
+    last_commit: { id: string }
+    /** Set on "update" only when new commits were pushed */
+    oldrev?: string
+  }
+}
+
+/** Split `group/subgroup/project` into the owner/repo pair IGitHost expects. */
+export function splitProjectPath(pathWithNamespace: string): { owner: string; repo: string } {
+  const idx = pathWithNamespace.lastIndexOf("/")
+  return { owner: pathWithNamespace.slice(0, idx), repo: pathWithNamespace.slice(idx + 1) }
+}
+
+export async function handleMergeRequestEvent(
+  payload: MergeRequestPayload,
+  container: Container
+): Promise<{ action: string; workflowId?: string; reason?: string }> {
+  const repo = await container.relationalStore.getRepoByProviderId("gitlab", String(payload.project.id))
+  if (!repo) {
+    return { action: "skipped", reason: "Repo not registered" }
+  }
+
+  const orgId = repo.organizationId
+  const repoId = repo.id
+  const mr = payload.object_attributes
+  const { owner, repo: repoName } = splitProjectPath(payload.project.path_with_namespace)
+
+  // Handle merge event
+  if (mr.action === "merge") {
+    const workflowId = `merge-ledger-${orgId}-${repoId}-pr-${mr.iid}`
+    try {
+      await container.workflowEngine.startWorkflow({
+        workflowFn: "mergeLedgerWorkflow",
+        workflowId,
+        args: [{
+          orgId,
+          repoId,
+          sourceBranch: mr.source_branch,
+          targetBranch: mr.target_branch,
+          prNumber: mr.iid,
+          mergedBy: payload.user.username,
+        }],
+        taskQueue: "light-llm-queue",
+      })
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error)
+      if (!msg.includes("already started")) throw error
+    }
+    return { action: "merge", workflowId }
+  }
+
+  // Handle closed without merge
+  if (mr.action === "close") {
+    return { action: "skipped", reason: "MR closed without merge" }
+  }
+
+  // Handle review trigger: open, reopen, and updates that push new commits
+  const reviewActions = ["open", "reopen", "update"]
+  if (!mr.action || !reviewActions.includes(mr.action)) {
+    return { action: "skipped", reason: `Unknown action: ${mr.action}` }
+  }
+  if (mr.action === "update" && !mr.oldrev) {
+    return { action: "skipped", reason: "MR updated without new commits" }
+  }
+
+  // Guard: repo must be ready
+  if (repo.status !== "ready") {
+    return { action: "skipped", reason: `Repo not ready: ${repo.status}` }
+  }
+
+  const config = await container.relationalStore.getRepoReviewConfig(repoId)
+
+  // Guard: reviews enabled
+  if (!config.enabled) {
+    return { action: "skipped", reason: "Reviews disabled" }
+  }
+
+  // Guard: skip draft MRs
+  if (config.skipDraftPrs && (mr.draft ?? mr.work_in_progress)) {
+    return { action: "skipped", reason: "Draft MR skipped" }
+  }
+
+  // Guard: target branch matches
+  if (config.targetBranches.length > 0 && !config.targetBranches.includes(mr.target_branch)) {
+    return { action: "skipped", reason: `Target branch ${mr.target_branch} not in configured branches` }
+  }
+
+  const headSha = mr.last_commit.id
+
+  // Idempotency check
+  const existing = await container.relationalStore.getPrReviewByPrAndSha(repoId, mr.iid, headSha)
+  if (existing) {
+    return { action: "skipped", reason: "Review already exists for this SHA" }
+  }
+
+  // The webhook carries no merge base — ask GitLab, falling back to the target branch
+  const details = await container.gitLabHost.getPullRequest(owner, repoName, mr.iid).catch(() => null)
+  const baseSha = details?.baseSha ?? mr.target_branch
+
+  const review = await container.relationalStore.createPrReview({
+    repoId,
+    prNumber: mr.iid,
+    prTitle: mr.title,
+    prUrl: mr.url,
+    headSha,
+    baseSha,
+  })
+
+  const workflowId = `review-${orgId}-${repoId}-${mr.iid}-${headSha}`
+  await container.workflowEngine.startWorkflow({
+    workflowFn: "reviewPrWorkflow",
+    workflowId,
+    args: [{
+      orgId,
+      repoId,
+      prNumber: mr.iid,
+      installationId: 0,
+      provider: "gitlab",
+      headSha,
+      baseSha,
+      owner,
+      repo: repoName,
+      reviewId: review.id,
+    }],
+    taskQueue: "light-llm-queue",
+  })
+
+  return { action: "review", workflowId }
+}
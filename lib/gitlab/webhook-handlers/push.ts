@@ -0,0 +1,123 @@
+/**
+ * Push webhook handler — feeds default-branch pushes into incremental indexing.
+ * GitLab counterpart of handlePushEvent in app/api/webhooks/github/route.ts.
+ */
+
+import { randomUUID } from "node:crypto"
+
+import type { Container } from "@/lib/di/container"
+import type { GitLabProjectPayload } from "./merge-request"
+
+const ZERO_SHA = "0000000000000000000000000000000000000000"
+
+export interface PushPayload {
+  object_kind: "push"
+  ref: string
+  before: string
+  after: string
+  project: GitLabProjectPayload
+  commits?: Array<{ id: string; message: string }>
+}
+
+export async function handlePushEvent(
+  payload: PushPayload,
+  container: Container
+): Promise<{ action: string; workflowId?: string; reason?: string }> {
+  const repo = await container.relationalStore.getRepoByProviderId("gitlab", String(payload.project.id))
+  if (!repo) {
+    return { action: "skipped", reason: "Repo not registered" }
+  }
+
+  const orgId = repo.organizationId
+  const repoId = repo.id
+
+  // Guard: repo must be in "ready" status
+  if (repo.status !== "ready") {
+    return { action: "skipped", reason: `Repo not ready: ${repo.status}` }
+  }
+
+  // Only the default branch is indexed incrementally
+  if (payload.ref !== `refs/heads/${payload.project.default_branch}`) {
+    return { action: "skipped", reason: `Non-default branch: ${payload.ref}` }
+  }
+
+  // Check incrementalEnabled (defaults to true if not set)
+  if ((repo as { incrementalEnabled?: boolean }).incrementalEnabled === false) {
+    return { action: "skipped", reason: "Incremental indexing disabled" }
+  }
+
+  // Guard: branch creation or deletion
+  if (payload.before === ZERO_SHA || payload.after === ZERO_SHA) {
+    return { action: "skipped", reason: "Branch created or deleted" }
+  }
+
+  const cloneUrl = payload.project.git_http_url
+  const defaultBranch = payload.project.default_branch
+
+  // Guard: SHA gap detection — if lastIndexedSha doesn't match before, trigger full re-index
+  if (repo.lastIndexedSha && repo.lastIndexedSha !== payload.before) {
+    const gapRunId = randomUUID()
+    const gapWorkflowId = `reindex-${orgId}-${repoId}-${Date.now()}`
+    await container.relationalStore.createPipelineRun({
+      id: gapRunId,
+      repoId,
+      organizationId: orgId,
+      workflowId: gapWorkflowId,
+      triggerType: "webhook",
+      pipelineType: "full",
+    })
+    await container.workflowEngine.startWorkflow({
+      workflowFn: "indexRepoWorkflow",
+      workflowId: gapWorkflowId,
+      args: [{ orgId, repoId, provider: "gitlab", cloneUrl, defaultBranch, runId: gapRunId, scope: "primary" }],
+      taskQueue: "heavy-compute-queue",
+    })
+    return { action: "reindex", workflowId: gapWorkflowId }
+  }
+
+  const os = await import("node:os")
+  const path = await import("node:path")
+  const workspacePath = path.join(os.tmpdir(), "unerr-workspaces", orgId, repoId)
+
+  // GitLab lists commits oldest first
+  const commitMessage = payload.commits?.[payload.commits.length - 1]?.message ?? ""
+  const push = { afterSha: payload.after, beforeSha: payload.before, ref: payload.ref, commitMessage }
+
+  // Use signalWithStart pattern: fixed workflow ID per repo
+  const workflowId = `incremental-${orgId}-${repoId}`
+  const runId = randomUUID()
+  try {
+    await container.relationalStore.createPipelineRun({
+      id: runId,
+      repoId,
+      organizationId: orgId,
+      workflowId,
+      triggerType: "webhook",
+      pipelineType: "incremental",
+    })
+    await container.workflowEngine.startWorkflow({
+      workflowFn: "incrementalIndexWorkflow",
+      workflowId,
+      args: [{
+        orgId,
+        repoId,
+        installationId: 0,
+        provider: "gitlab",
+        cloneUrl,
+        defaultBranch,
+        workspacePath,
+        runId,
+        initialPush: push,
+      }],
+      taskQueue: "heavy-compute-queue",
+    })
+  } catch (error: unknown) {
+    // If workflow already running, send signal instead
+    const message = error instanceof Error ? error.message : String(error)
+    if (!message.includes("already started") && !message.includes("already running")) throw error
+    await container.workflowEngine.signalWorkflow(workflowId, "push", push)
+    return { action: "signalled", workflowId }
+  }
+
+  return { action: "incremental", workflowId }
+}
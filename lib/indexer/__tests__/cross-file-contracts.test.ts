@@ -0,0 +1,117 @@
+/**
+ * Tests for cross-file API contract resolution (schema type references and
+ * handler → operation "implements" edges).
+ */
+import { describe, expect, it } from "vitest"
+
+import { resolveCrossFileContracts } from "../cross-file-contracts"
+import { entityHash } from "../entity-hash"
+import { parseGraphqlSchema } from "../languages/contracts/graphql"
+import { parseOpenApiDocument } from "../languages/contracts/openapi"
+import { parseProtobufFile } from "../languages/contracts/protobuf"
+import type { ParsedEntity } from "../types"
+
+const REPO_ID = "test-repo"
+const OPTS = { orgId: "org-1", repoId: REPO_ID }
+
+function makeCode(filePath: string, name: string, opts: Partial<ParsedEntity> = {}): ParsedEntity {
+  const kind = opts.kind ?? (opts.parent ? "method" : "function")
+  return {
+    id: entityHash(REPO_ID, filePath, kind, name),
+    kind,
+    name,
+    file_path: filePath,
+    language: "typescript",
+    ...opts,
+  }
+}
+
+const byName = (entities: ParsedEntity[], name: string) => entities.find((e) => e.name === name)!
+
+const OPENAPI = `openapi: 3.0.0
+paths:
+  /users/{id}:
+    get:
+      operationId: getUser
+    patch:
+      summary: Update a user
+  /orders:
+    post:
+      summary: Create an order
+`
+
+describe("resolveCrossFileContracts", () => {
+  it("links GraphQL operations and fields to types declared in other files", () => {
+    const query = parseGraphqlSchema({ filePath: "schema/query.graphql", content: "type Query {\n  user(filter: UserFilter): User\n}\n", ...OPTS }).entities
+    const types = parseGraphqlSchema({
+      filePath: "schema/user.graphql",
+      content: "type User {\n  id: ID!\n  posts: [Post!]!\n}\n\ntype Post {\n  title: String\n}\n\ninput UserFilter {\n  name: String\n}\n",
+      ...OPTS,
+    }).entities
+    const entities = [...query, ...types]
+
+    const edges = resolveCrossFileContracts(entities, REPO_ID)
+
+    const op = byName(query, "Query.user")
+    expect(edges).toEqual([
+      { from_id: op.id, to_id: byName(types, "UserFilter").id, kind: "references" },
+      { from_id: op.id, to_id: byName(types, "User").id, kind: "references" },
+      { from_id: byName(types, "User").id, to_id: byName(types, "Post").id, kind: "references" },
+    ])
+  })
+
+  it("links OpenAPI operations to handlers by operationId, decorators and Next.js routes", () => {
+    const spec = parseOpenApiDocument({ filePath: "openapi.yaml", content: OPENAPI, ...OPTS }).entities
+    const getUser = makeCode("src/users/service.ts", "getUser")
+    const controller = makeCode("src/users/users.controller.ts", "UsersController", { kind: "class", decorators: ["@Controller('api/users')"] })
+    const update = makeCode("src/users/users.controller.ts", "update", { parent: "UsersController", decorators: ["@Patch(':id')"] })
+    const createOrder = makeCode("app/api/orders/route.ts", "POST")
+    const unrelated = makeCode("app/api/orders/route.ts", "GET")
+
+    const edges = resolveCrossFileContracts([...spec, getUser, controller, update, createOrder, unrelated], REPO_ID)
+
+    expect(edges).toEqual([
+      { from_id: getUser.id, to_id: byName(spec, "getUser").id, kind: "implements" },
+      { from_id: update.id, to_id: byName(spec, "PATCH /users/{id}").id, kind: "implements" },
+      { from_id: createOrder.id, to_id: byName(spec, "POST /orders").id, kind: "implements" },
+    ])
+  })
+
+  it("links Python route decorators in function bodies", () => {
+    const spec = parseOpenApiDocument({ filePath: "openapi.yaml", content: OPENAPI, ...OPTS }).entities
+    const handler = makeCode("app/routes.py", "create_order", {
+      language: "python",
+      body: "@router.post(\"/orders/\")\ndef create_order(payload: OrderIn):\n    ...",
+    })
+
+    const edges = resolveCrossFileContracts([...spec, handler], REPO_ID)
+
+    expect(edges).toEqual([{ from_id: handler.id, to_id: byName(spec, "POST /orders").id, kind: "implements" }])
+  })
+
+  it("links GraphQL resolvers and gRPC service implementations", () => {
+    const schema = parseGraphqlSchema({ filePath: "schema.graphql", content: "type Query {\n  user(id: ID!): String\n}\n", ...OPTS }).entities
+    const proto = parseProtobufFile({
+      filePath: "users.proto",
+      content: "service UserService {\n  rpc GetUser(GetUserRequest) returns (User);\n}\nmessage GetUserRequest {\n  string id = 1;\n}\nmessage User {\n  string id = 1;\n}\n",
+      ...OPTS,
+    }).entities
+    const resolver = makeCode("src/user.resolver.ts", "user", { parent: "UserResolver" })
+    const grpcImpl = makeCode("src/UserServiceImpl.java", "getUser", { parent: "UserServiceImpl", language: "java" })
+    const goImpl = makeCode("server/users.go", "GetUser", { parent: "server", language: "go", signature: "func (s *server) GetUser(ctx context.Context, req *pb.GetUserRequest) (*pb.User, error)" })
+    const unrelatedUser = makeCode("src/session.ts", "user", { parent: "Session" })
+
+    const edges = resolveCrossFileContracts([...schema, ...proto, resolver, grpcImpl, goImpl, unrelatedUser], REPO_ID)
+
+    const implementsEdges = edges.filter((e) => e.kind === "implements")
+    expect(implementsEdges).toEqual([
+      { from_id: resolver.id, to_id: byName(schema, "Query.user").id, kind: "implements" },
+      { from_id: grpcImpl.id, to_id: byName(proto, "UserService.GetUser").id, kind: "implements" },
+      { from_id: goImpl.id, to_id: byName(proto, "UserService.GetUser").id, kind: "implements" },
+    ])
+  })
+
+  it("returns nothing when the repo has no schema entities", () => {
+    expect(resolveCrossFileContracts([makeCode("src/a.ts", "getUser")], REPO_ID)).toEqual([])
+  })
+})
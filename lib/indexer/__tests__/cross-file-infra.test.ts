@@ -0,0 +1,183 @@
+/**
+ * Tests for cross-file infrastructure resolution (Terraform references,
+ * Kubernetes selectors/config references, code → manifest env vars).
+ */
+import { describe, expect, it } from "vitest"
+
+import { resolveCrossFileInfra } from "../cross-file-infra"
+import { entityHash } from "../entity-hash"
+import { parseKubernetesManifest } from "../languages/iac/kubernetes"
+import { parseTerraformFile } from "../languages/iac/terraform"
+import type { ParsedEntity } from "../types"
+
+const REPO_ID = "test-repo"
+const OPTS = { orgId: "org-1", repoId: REPO_ID }
+
+function makeFunc(filePath: string, name: string, body: string, language = "typescript"): ParsedEntity {
+  return {
+    id: entityHash(REPO_ID, filePath, "function", name),
+    kind: "function",
+    name,
+    file_path: filePath,
+    language,
+    body,
+  }
+}
+
+const byName = (entities: ParsedEntity[], name: string) => entities.find((e) => e.name === name)!
+
+describe("resolveCrossFileInfra", () => {
+  it("resolves Terraform references within the same module directory", () => {
+    const main = parseTerraformFile({
+      filePath: "infra/main.tf",
+      content: `resource "aws_lambda_function" "worker" {
+  role   = aws_iam_role.worker.arn
+  region = var.region
+}
+`,
+      ...OPTS,
+    }).entities
+    const iam = parseTerraformFile({
+      filePath: "infra/iam.tf",
+      content: `resource "aws_iam_role" "worker" {
+  name = "worker"
+}
+
+variable "region" {}
+`,
+      ...OPTS,
+    }).entities
+    const otherDir = parseTerraformFile({
+      filePath: "modules/other/iam.tf",
+      content: `resource "aws_iam_role" "worker" {}\n`,
+      ...OPTS,
+    }).entities
+    const entities = [...main, ...iam, ...otherDir]
+
+    const edges = resolveCrossFileInfra(entities, REPO_ID)
+
+    const lambda = byName(main, "aws_lambda_function.worker")
+    expect(edges).toEqual([
+      { from_id: lambda.id, to_id: byName(iam, "aws_iam_role.worker").id, kind: "references" },
+      { from_id: lambda.id, to_id: byName(iam, "var.region").id, kind: "references" },
+    ])
+  })
+
+  it("links Services to matching workloads and workloads to their config", () => {
+    const content = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    metadata:
+      labels:
+        app: api
+    spec:
+      containers:
+        - name: api
+          envFrom:
+            - configMapRef:
+                name: api-config
+---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: api-config
+data:
+  LOG_LEVEL: info
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+spec:
+  selector:
+    app: api
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: worker
+spec:
+  selector:
+    app: worker
+---
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: public
+spec:
+  defaultBackend:
+    service:
+      name: api
+`
+    const entities = parseKubernetesManifest({ filePath: "k8s/app.yaml", content, ...OPTS }).entities
+
+    const edges = resolveCrossFileInfra(entities, REPO_ID)
+
+    const deployment = byName(entities, "Deployment/api")
+    const service = byName(entities, "Service/api")
+    expect(edges).toContainEqual({ from_id: deployment.id, to_id: byName(entities, "ConfigMap/api-config").id, kind: "references" })
+    expect(edges).toContainEqual({ from_id: service.id, to_id: deployment.id, kind: "references" })
+    expect(edges).toContainEqual({ from_id: byName(entities, "Ingress/public").id, to_id: service.id, kind: "references" })
+    expect(edges.some((e) => e.from_id === byName(entities, "Service/worker").id)).toBe(false)
+  })
+
+  it("does not match selectors across namespaces", () => {
+    const content = `kind: Deployment
+apiVersion: apps/v1
+metadata:
+  name: api
+  namespace: staging
+spec:
+  template:
+    metadata:
+      labels:
+        app: api
+---
+kind: Service
+apiVersion: v1
+metadata:
+  name: api
+  namespace: production
+spec:
+  selector:
+    app: api
+`
+    const entities = parseKubernetesManifest({ filePath: "k8s/app.yaml", content, ...OPTS }).entities
+
+    expect(resolveCrossFileInfra(entities, REPO_ID)).toEqual([])
+  })
+
+  it("links code reading env vars to the manifest entries that set them", () => {
+    const manifests = parseTerraformFile({
+      filePath: "infra/lambda.tf",
+      content: `resource "aws_lambda_function" "worker" {
+  environment {
+    variables = {
+      QUEUE_URL = "https://sqs"
+    }
+  }
+}
+`,
+      ...OPTS,
+    }).entities
+    const tsFn = makeFunc("src/queue.ts", "connect", "function connect() { return new Queue(process.env.QUEUE_URL) }")
+    const pyFn = makeFunc("worker/main.py", "main", "def main():\n    url = os.environ.get(\"QUEUE_URL\")", "python")
+    const unrelated = makeFunc("src/other.ts", "other", "function other() { return process.env.NODE_ENV }")
+
+    const edges = resolveCrossFileInfra([...manifests, tsFn, pyFn, unrelated], REPO_ID)
+
+    const envVar = byName(manifests, "QUEUE_URL")
+    expect(edges).toEqual([
+      { from_id: tsFn.id, to_id: envVar.id, kind: "references" },
+      { from_id: pyFn.id, to_id: envVar.id, kind: "references" },
+    ])
+  })
+
+  it("returns nothing when the repo has no infra entities", () => {
+    const fn = makeFunc("src/app.ts", "start", "function start() { return process.env.PORT }")
+    expect(resolveCrossFileInfra([fn], REPO_ID)).toEqual([])
+  })
+})
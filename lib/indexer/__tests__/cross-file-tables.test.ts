@@ -0,0 +1,139 @@
+/**
+ * Tests for cross-file table access resolution (reads_table / writes_table).
+ */
+import { describe, expect, it } from "vitest"
+
+import { resolveCrossFileTableAccess } from "../cross-file-tables"
+import { entityHash } from "../entity-hash"
+import type { ParsedEntity } from "../types"
+
+const REPO_ID = "test-repo"
+
+function makeTable(filePath: string, name: string, opts: Partial<ParsedEntity> = {}): ParsedEntity {
+  return {
+    id: entityHash(REPO_ID, filePath, "table", name),
+    kind: "table",
+    name,
+    file_path: filePath,
+    language: "sql",
+    ...opts,
+  }
+}
+
+function makeFunc(filePath: string, name: string, body: string, language = "typescript"): ParsedEntity {
+  return {
+    id: entityHash(REPO_ID, filePath, "function", name),
+    kind: "function",
+    name,
+    file_path: filePath,
+    language,
+    body,
+  }
+}
+
+describe("resolveCrossFileTableAccess", () => {
+  it("links raw SQL strings to read and written tables", () => {
+    const users = makeTable("db/001.sql", "users")
+    const orders = makeTable("db/001.sql", "orders")
+    const audit = makeTable("db/002.sql", "audit_log")
+    const fn = makeFunc("src/orders.ts", "placeOrder", `
+      async function placeOrder(db, userId) {
+        const user = await db.query("SELECT * FROM users WHERE id = $1", [userId])
+        await db.query(\`
+          INSERT INTO public.orders (user_id) VALUES ($1)
+        \`, [userId])
+        await db.query('DELETE FROM audit_log WHERE user_id = $1', [userId])
+      }
+    `)
+
+    const edges = resolveCrossFileTableAccess([users, orders, audit, fn], REPO_ID)
+
+    expect(edges).toContainEqual({ from_id: fn.id, to_id: users.id, kind: "reads_table" })
+    expect(edges).toContainEqual({ from_id: fn.id, to_id: orders.id, kind: "writes_table" })
+    expect(edges).toContainEqual({ from_id: fn.id, to_id: audit.id, kind: "writes_table" })
+    // DELETE FROM is a write, not a read
+    expect(edges).not.toContainEqual({ from_id: fn.id, to_id: audit.id, kind: "reads_table" })
+  })
+
+  it("links Prisma client calls to models, including @@map names in raw queries", () => {
+    const user = makeTable("prisma/schema.prisma", "User", { language: "prisma", decorators: ["@@map(\"users\")"] })
+    const post = makeTable("prisma/schema.prisma", "BlogPost", { language: "prisma" })
+    const fn = makeFunc("src/posts.ts", "publish", `
+      async publish(id: string) {
+        const author = await this.prisma.user.findUnique({ where: { id } })
+        await prisma.blogPost.update({ where: { id }, data: { published: true } })
+        return prisma.$queryRaw\`SELECT count(*) FROM "users"\`
+      }
+    `)
+
+    const edges = resolveCrossFileTableAccess([user, post, fn], REPO_ID)
+
+    expect(edges).toEqual([
+      { from_id: fn.id, to_id: user.id, kind: "reads_table" },
+      { from_id: fn.id, to_id: post.id, kind: "writes_table" },
+    ])
+  })
+
+  it("links query-builder calls with a table name argument", () => {
+    const invoices = makeTable("db/schema.sql", "invoices")
+    const fn = makeFunc("src/billing.py", "sync", `
+def sync(db):
+    rows = db.selectFrom("invoices").selectAll().execute()
+    db.insertInto('invoices').values(rows).execute()
+`, "python")
+
+    const edges = resolveCrossFileTableAccess([invoices, fn], REPO_ID)
+
+    expect(edges.map((e) => e.kind).sort()).toEqual(["reads_table", "writes_table"])
+  })
+
+  it("ignores strings and calls that don't resolve to a known table", () => {
+    const users = makeTable("db/001.sql", "users")
+    const fn = makeFunc("src/ui.ts", "render", `
+      function render() {
+        const label = "Select from the list below"
+        const items = Array.from(list)
+        return store.cart.count()
+      }
+    `)
+
+    expect(resolveCrossFileTableAccess([users, fn], REPO_ID)).toEqual([])
+  })
+
+  it("links ALTER TABLE columns and foreign keys across migration files", () => {
+    const users = makeTable("db/001.sql", "users")
+    const orders = makeTable("db/002.sql", "orders", {
+      body: "CREATE TABLE orders (id bigint, user_id uuid REFERENCES users(id))",
+    })
+    const column: ParsedEntity = {
+      id: entityHash(REPO_ID, "db/003.sql", "column", "users.avatar_url"),
+      kind: "column",
+      name: "avatar_url",
+      file_path: "db/003.sql",
+      parent: "users",
+    }
+
+    const edges = resolveCrossFileTableAccess([users, orders, column], REPO_ID)
+
+    expect(edges).toContainEqual({ from_id: column.id, to_id: users.id, kind: "member_of" })
+    expect(edges).toContainEqual({ from_id: orders.id, to_id: users.id, kind: "references" })
+  })
+
+  it("treats views as readers and scans SQL function bodies directly", () => {
+    const users = makeTable("db/001.sql", "users")
+    const view: ParsedEntity = {
+      id: entityHash(REPO_ID, "db/views.sql", "view", "active_users"),
+      kind: "view",
+      name: "active_users",
+      file_path: "db/views.sql",
+      language: "sql",
+      body: "CREATE VIEW active_users AS SELECT * FROM users WHERE active",
+    }
+    const fn = makeFunc("db/functions.sql", "touch_user", "CREATE FUNCTION touch_user(uid uuid) AS $$ UPDATE users SET seen = now() WHERE id = uid $$", "sql")
+
+    const edges = resolveCrossFileTableAccess([users, view, fn], REPO_ID)
+
+    expect(edges).toContainEqual({ from_id: view.id, to_id: users.id, kind: "reads_table" })
+    expect(edges).toContainEqual({ from_id: fn.id, to_id: users.id, kind: "writes_table" })
+  })
+})
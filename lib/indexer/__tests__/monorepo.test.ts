@@ -1,5 +1,7 @@
 /**
- * P1-TEST-05: Monorepo detection — pnpm, yarn, npm, nx, lerna workspaces.
+ * P1-TEST-05: Monorepo detection — pnpm, yarn, npm, nx, lerna workspaces,
+ * plus Gradle (Groovy and Kotlin DSL) multi-module builds, Swift Package Manager
+ * packages and Xcode workspaces.
  */
 import { afterEach, beforeEach, describe, expect, it } from "vitest"
 import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
@@ -115,4 +117,99 @@ describe("detectWorkspaceRoots", () => {
     expect(result.type).toBe("pnpm")
     expect(result.roots).toContain("apps/web")
   })
+
+  it("detects Gradle Kotlin DSL multi-module builds with several modules per include", () => {
+    writeFileSync(
+      join(tempDir, "settings.gradle.kts"),
+      [
+        'rootProject.name = "android-app"',
+        'include(":app", ":core:data")',
+        "include(",
+        '    ":feature:login",',
+        '    ":feature:profile",',
+        ")",
+        '// include(":legacy")',
+      ].join("\n"),
+    )
+    for (const dir of ["app", "core/data", "feature/login", "feature/profile", "legacy"]) {
+      mkdirSync(join(tempDir, dir), { recursive: true })
+    }
+
+    const result = detectWorkspaceRoots(tempDir)
+    expect(result.type).toBe("gradle")
+    expect(result.roots).toEqual(["app", "core/data", "feature/login", "feature/profile"])
+  })
+
+  it("honours projectDir overrides in Gradle Kotlin DSL settings", () => {
+    writeFileSync(
+      join(tempDir, "settings.gradle.kts"),
+      [
+        'include(":server", ":shared")',
+        'project(":shared").projectDir = file("libs/shared")',
+      ].join("\n"),
+    )
+    mkdirSync(join(tempDir, "server"), { recursive: true })
+    mkdirSync(join(tempDir, "libs", "shared"), { recursive: true })
+
+    const result = detectWorkspaceRoots(tempDir)
+    expect(result.type).toBe("gradle")
+    expect(result.roots).toEqual(["server", "libs/shared"])
+  })
+
+  it("detects Groovy Gradle settings with comma-separated includes", () => {
+    writeFileSync(join(tempDir, "settings.gradle"), "include ':api', ':worker'\n")
+    mkdirSync(join(tempDir, "api"), { recursive: true })
+    mkdirSync(join(tempDir, "worker"), { recursive: true })
+
+    const result = detectWorkspaceRoots(tempDir)
+    expect(result.type).toBe("gradle")
+    expect(result.roots).toEqual(["api", "worker"])
+  })
+
+  it("detects Swift Package Manager packages with local package dependencies", () => {
+    writeFileSync(
+      join(tempDir, "Package.swift"),
+      [
+        "// swift-tools-version:5.9",
+        "let package = Package(",
+        '  name: "App",',
+        "  dependencies: [",
+        '    .package(path: "Packages/Networking"),',
+        '    .package(name: "Shared", path: "../Shared"),',
+        '    .package(url: "https://github.com/Alamofire/Alamofire.git", from: "5.0.0"),',
+        "  ]",
+        ")",
+      ].join("\n"),
+    )
+    mkdirSync(join(tempDir, "Packages", "Networking"), { recursive: true })
+    writeFileSync(join(tempDir, "Packages", "Networking", "Package.swift"), "")
+
+    const result = detectWorkspaceRoots(tempDir)
+    expect(result.type).toBe("swiftpm")
+    expect(result.roots).toEqual([".", "Packages/Networking"])
+  })
+
+  it("detects Xcode workspaces referencing projects and local packages", () => {
+    const workspace = join(tempDir, "App.xcworkspace")
+    mkdirSync(workspace, { recursive: true })
+    writeFileSync(
+      join(workspace, "contents.xcworkspacedata"),
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Workspace version = "1.0">',
+        '   <FileRef location = "group:App/App.xcodeproj"></FileRef>',
+        '   <FileRef location = "group:Widgets.xcodeproj"></FileRef>',
+        '   <FileRef location = "group:Modules/Core"></FileRef>',
+        '   <FileRef location = "group:Pods/Pods.xcodeproj"></FileRef>',
+        "</Workspace>",
+      ].join("\n"),
+    )
+    mkdirSync(join(tempDir, "App", "App.xcodeproj"), { recursive: true })
+    mkdirSync(join(tempDir, "Modules", "Core"), { recursive: true })
+    writeFileSync(join(tempDir, "Modules", "Core", "Package.swift"), "")
+
+    const result = detectWorkspaceRoots(tempDir)
+    expect(result.type).toBe("xcode")
+    expect(result.roots).toEqual(["App", ".", "Modules/Core"])
+  })
 })
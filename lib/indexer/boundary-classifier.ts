@@ -204,6 +204,35 @@ function classifyFromList(
   return "third-party"
 }
 
+const SWIFT_CATEGORIES: Array<{ pattern: string; category: BoundaryCategory }> = [
+  { pattern: "Stripe", category: "payment" },
+  { pattern: "StripePaymentSheet", category: "payment" },
+  { pattern: "RealmSwift", category: "database" },
+  { pattern: "GRDB", category: "database" },
+  { pattern: "FirebaseFirestore", category: "database" },
+  { pattern: "FirebaseAuth", category: "auth" },
+  { pattern: "Auth0", category: "auth" },
+  { pattern: "AppAuth", category: "auth" },
+  { pattern: "FirebaseCore", category: "cloud" },
+  { pattern: "AWSCore", category: "cloud" },
+  { pattern: "Sentry", category: "monitoring" },
+  { pattern: "FirebaseCrashlytics", category: "monitoring" },
+  { pattern: "Alamofire", category: "http-client" },
+  { pattern: "Moya", category: "http-client" },
+  { pattern: "Quick", category: "testing" },
+  { pattern: "Nimble", category: "testing" },
+  { pattern: "SnapshotTesting", category: "testing" },
+]
+
+/** Apple platform frameworks — the Swift equivalent of a standard library. */
+const SWIFT_SYSTEM_MODULES = new Set([
+  "Swift", "Foundation", "UIKit", "AppKit", "SwiftUI", "Combine", "CoreData",
+  "CoreGraphics", "CoreLocation", "MapKit", "AVFoundation", "Dispatch", "os",
+  "XCTest", "Darwin", "ObjectiveC", "WebKit", "StoreKit", "UserNotifications",
+  "Security", "CryptoKit", "Network", "Photos", "PhotosUI", "CoreImage",
+  "QuartzCore", "CoreText", "Observation", "SwiftData", "Testing",
+])
+
 /**
  * Classify a third-party import by its package name and language.
  */
@@ -220,7 +249,10 @@ export function classifyBoundary(
     case "go":
       return classifyFromList(packageName, GO_CATEGORIES)
     case "java":
+    case "kotlin":
       return classifyFromList(packageName, JAVA_CATEGORIES)
+    case "swift":
+      return classifyFromList(packageName, SWIFT_CATEGORIES)
     default:
       return "third-party"
   }
@@ -259,14 +291,21 @@ export function extractExternalPackageName(
       if (!source.includes("/")) return null // stdlib
       return source
     }
-    case "java": {
-      // java.*, javax.*, sun.*, jdk.* are stdlib
+    case "java":
+    case "kotlin": {
+      // java.*, javax.*, sun.*, jdk.* (and kotlin.* for Kotlin) are stdlib
       if (source.startsWith("java.") || source.startsWith("javax.") ||
           source.startsWith("sun.") || source.startsWith("jdk.")) return null
+      if (language === "kotlin" && source.startsWith("kotlin.")) return null
       // Top 2-3 segments as package identifier
       const parts = source.split(".")
       return parts.slice(0, Math.min(3, parts.length)).join(".")
     }
+    case "swift": {
+      // Swift imports whole modules; Apple frameworks are the stdlib
+      const moduleName = source.split(".")[0] ?? source
+      return SWIFT_SYSTEM_MODULES.has(moduleName) ? null : moduleName
+    }
     default:
       return null
   }
@@ -73,6 +73,15 @@ const LANG_CONFIG: Record<string, LanguageKeywords> = {
     blockCommentStart: "/*",
     blockCommentEnd: "*/",
   },
+  kotlin: {
+    branchKeywords: ["if", "else\\s+if", "for", "while", "do", "when", "catch"],
+    logicalOps: ["&&", "\\|\\|", "\\?:"],
+    nestingKeywords: ["if", "for", "while", "do", "when", "try"],
+    flatKeywords: ["else\\s+if", "else", "catch"],
+    lineComment: "//",
+    blockCommentStart: "/*",
+    blockCommentEnd: "*/",
+  },
   csharp: {
     branchKeywords: ["if", "else\\s+if", "for", "foreach", "while", "do", "case", "catch", "switch"],
     logicalOps: ["&&", "\\|\\|", "\\?\\?", "\\?"],
@@ -100,6 +109,15 @@ const LANG_CONFIG: Record<string, LanguageKeywords> = {
     blockCommentStart: "/*",
     blockCommentEnd: "*/",
   },
+  swift: {
+    branchKeywords: ["if", "else\\s+if", "guard", "for", "while", "repeat", "case", "catch"],
+    logicalOps: ["&&", "\\|\\|", "\\?\\?"],
+    nestingKeywords: ["if", "for", "while", "repeat", "switch", "do"],
+    flatKeywords: ["else\\s+if", "else", "guard", "case", "catch"],
+    lineComment: "//",
+    blockCommentStart: "/*",
+    blockCommentEnd: "*/",
+  },
   ruby: {
     branchKeywords: ["if", "elsif", "unless", "for", "while", "until", "when", "rescue"],
     logicalOps: ["&&", "\\|\\|"],
@@ -0,0 +1,234 @@
+/**
+ * Cross-file API contract resolution.
+ *
+ * Post-processing step that runs after all parsing is complete, alongside
+ * cross-file call resolution. Links the schema entities emitted by the
+ * contracts plugin to each other and to the code that serves them:
+ * - Type references: GraphQL/protobuf operations → request/response messages,
+ *   messages → messages their fields use (schemas are often split across
+ *   files) → "references"
+ * - Handlers: functions/methods implementing an operation → "implements"
+ *   - OpenAPI: name equals the operationId, route decorators
+ *     (`@Get(":id")`, `@app.get("/users/{id}")`, `@GetMapping`), or a
+ *     Next.js route handler (`app/api/users/[id]/route.ts` → `GET`)
+ *   - GraphQL: resolver methods named after the root field
+ *   - Protobuf: methods named after the rpc on a class named after the
+ *     service, or that take the rpc's request message
+ */
+import { logger } from "@/lib/utils/logger"
+import type { ParsedEdge, ParsedEntity } from "./types"
+
+const CONTRACT_LANGUAGES = new Set(["openapi", "graphql", "protobuf"])
+const HTTP_METHOD_NAMES = new Set(["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"])
+const GRAPHQL_SCALARS = new Set(["String", "Int", "Float", "Boolean", "ID"])
+
+/** Route decorators: `@Get(":id")`, `@app.get("/x")`, `@router.post('/x')`, `@GetMapping("/x")` */
+const ROUTE_DECORATOR_RE = /^@(?:[\w.]+\.)?(get|post|put|patch|delete|head|options)(?:Mapping)?\(\s*(?:(?:path|value)\s*=\s*)?["'`]([^"'`]*)["'`]/i
+/** Controller prefixes: `@Controller("users")`, `@RequestMapping("/users")`, `@Route("users")` */
+const PREFIX_DECORATOR_RE = /^@(?:Controller|RequestMapping|Route|Path)\(\s*(?:(?:path|value)\s*=\s*)?["'`]([^"'`]*)["'`]/
+const NEXT_ROUTE_RE = /(?:^|\/)app\/(.*?)\/?route\.[jt]sx?$/
+const NEXT_PAGES_API_RE = /(?:^|\/)pages\/(api\/.*?)(?:\/index)?\.[jt]sx?$/
+
+interface RouteOperation {
+  method: string
+  path: string
+  id: string
+}
+
+/**
+ * Resolve schema type references and handler → operation edges.
+ *
+ * @returns Array of new "references" / "implements" edges to append
+ */
+export function resolveCrossFileContracts(
+  entities: ParsedEntity[],
+  repoId: string,
+): ParsedEdge[] {
+  const log = logger.child({ service: "cross-file-contracts", repoId })
+  const newEdges: ParsedEdge[] = []
+  const edgeDedup = new Set<string>()
+  const addEdge = (fromId: string, toId: string, kind: "references" | "implements") => {
+    if (fromId === toId) return
+    const edgeKey = `${fromId}\0${toId}\0${kind}`
+    if (edgeDedup.has(edgeKey)) return
+    edgeDedup.add(edgeKey)
+    newEdges.push({ from_id: fromId, to_id: toId, kind })
+  }
+
+  const operations = entities.filter((e) => e.kind === "api_operation")
+  if (operations.length === 0 && !entities.some((e) => e.kind === "message")) return newEdges
+
+  // Step 1: GraphQL/protobuf type references, resolved by name per schema language
+  const messagesByName = new Map<string, ParsedEntity[]>()
+  for (const entity of entities) {
+    if (entity.kind !== "message" || entity.language === "openapi") continue
+    const key = `${entity.language}\0${entity.name}`
+    messagesByName.set(key, [...(messagesByName.get(key) ?? []), entity])
+  }
+  const findMessages = (language: string, typeRef: string): ParsedEntity[] => {
+    // Protobuf refs may be package-qualified (`acme.users.v1.User`)
+    const segments = typeRef.split(".")
+    for (let i = 0; i < segments.length; i++) {
+      const found = messagesByName.get(`${language}\0${segments.slice(i).join(".")}`)
+      if (found) return found
+    }
+    return []
+  }
+
+  for (const entity of entities) {
+    if (!entity.language || !CONTRACT_LANGUAGES.has(entity.language) || entity.language === "openapi") continue
+    if (entity.kind === "api_operation") {
+      for (const typeRef of operationTypeRefs(entity)) {
+        for (const target of findMessages(entity.language, typeRef)) addEdge(entity.id, target.id, "references")
+      }
+    } else if (entity.kind === "field" && entity.parent && entity.return_type) {
+      const owners = (messagesByName.get(`${entity.language}\0${entity.parent}`) ?? [])
+        .filter((m) => m.file_path === entity.file_path)
+      for (const typeRef of fieldTypeRefs(entity.return_type)) {
+        for (const target of findMessages(entity.language, typeRef)) {
+          for (const owner of owners) addEdge(owner.id, target.id, "references")
+        }
+      }
+    }
+  }
+  const referenceEdges = newEdges.length
+
+  // Step 2: Handlers implementing operations
+  const byOperationName = new Map<string, ParsedEntity[]>()
+  const routes: RouteOperation[] = []
+  for (const op of operations) {
+    if (op.language === "openapi") {
+      const [method, path] = (op.signature ?? "").split(" ")
+      if (method && path) routes.push({ method: method.toUpperCase(), path: normalizeRoute(path), id: op.id })
+      if (op.name !== op.signature) addToIndex(byOperationName, normalizeName(op.name), op)
+    } else {
+      // `Query.user` → "user", `UserService.GetUser` → "getuser"
+      addToIndex(byOperationName, normalizeName(op.name.slice(op.name.lastIndexOf(".") + 1)), op)
+    }
+  }
+
+  const classesByKey = new Map<string, ParsedEntity>()
+  for (const entity of entities) {
+    if (entity.kind === "class" || entity.kind === "struct") classesByKey.set(`${entity.file_path}\0${entity.name}`, entity)
+  }
+
+  for (const entity of entities) {
+    if (entity.kind !== "function" && entity.kind !== "method") continue
+    if (entity.language && CONTRACT_LANGUAGES.has(entity.language)) continue
+
+    // By name: operationId, GraphQL root field, protobuf rpc
+    for (const op of byOperationName.get(normalizeName(entity.name)) ?? []) {
+      if (implementsByName(entity, op)) addEdge(entity.id, op.id, "implements")
+    }
+
+    // By route
+    if (routes.length === 0) continue
+    const parentClass = entity.parent ? classesByKey.get(`${entity.file_path}\0${entity.parent}`) : undefined
+    for (const route of codeRoutes(entity, parentClass)) {
+      for (const op of routes) {
+        if (op.method === route.method && routeMatches(op.path, route.path)) addEdge(entity.id, op.id, "implements")
+      }
+    }
+  }
+
+  log.info("Cross-file contract edges resolved", {
+    referenceEdges,
+    implementsEdges: newEdges.length - referenceEdges,
+  })
+
+  return newEdges
+}
+
+// ── Helpers ──
+
+function addToIndex(index: Map<string, ParsedEntity[]>, key: string, entity: ParsedEntity): void {
+  index.set(key, [...(index.get(key) ?? []), entity])
+}
+
+/** Case- and separator-insensitive name: `GetUser`, `getUser`, `get_user` → `getuser`. */
+function normalizeName(name: string): string {
+  return name.replace(/_/g, "").toLowerCase()
+}
+
+function implementsByName(handler: ParsedEntity, op: ParsedEntity): boolean {
+  if (op.language === "openapi") return true
+  const parent = handler.parent ?? ""
+  if (op.language === "graphql") {
+    const root = op.parent ?? ""
+    return /resolver/i.test(parent)
+      || parent === root
+      || /resolver/i.test(handler.file_path)
+      || (handler.decorators ?? []).some((d) => /^@(?:Query|Mutation|Subscription|ResolveField)\b/.test(d))
+  }
+  // protobuf: class named after the service (UserServiceImpl, UserServiceServicer, userServiceServer)
+  const service = (op.parent ?? "").toLowerCase()
+  if (service && parent.toLowerCase().includes(service)) return true
+  const request = /\(\s*(?:stream\s+)?([\w.]+)\s*\)/.exec(op.signature ?? "")?.[1]
+  const requestName = request?.slice(request.lastIndexOf(".") + 1)
+  return !!requestName && new RegExp(`\\b${requestName}\\b`).test(handler.signature ?? "")
+}
+
+/** Type names an operation's signature mentions (arguments and result). */
+function operationTypeRefs(op: ParsedEntity): string[] {
+  const signature = op.signature ?? ""
+  if (op.language === "protobuf") {
+    return Array.from(signature.matchAll(/\(\s*(?:stream\s+)?([\w.]+)\s*\)/g)).map((m) => m[1]!)
+  }
+  return Array.from(signature.matchAll(/:\s*\[*\s*([A-Za-z_]\w*)/g))
+    .map((m) => m[1]!)
+    .filter((t) => !GRAPHQL_SCALARS.has(t))
+}
+
+/** Named types in a field type: `[User!]!` → User, `map<string,Address>` → Address. */
+function fieldTypeRefs(type: string): string[] {
+  const map = /^map<[^,]+,([\w.]+)>/.exec(type)
+  const base = map ? map[1]! : type.replace(/[[\]!]/g, "")
+  return GRAPHQL_SCALARS.has(base) ? [] : [base]
+}
+
+/** HTTP routes a code entity serves, from decorators or Next.js file conventions. */
+function codeRoutes(entity: ParsedEntity, parentClass?: ParsedEntity): Array<{ method: string; path: string }> {
+  const routes: Array<{ method: string; path: string }> = []
+  const prefix = (parentClass?.decorators ?? [])
+    .map((d) => PREFIX_DECORATOR_RE.exec(d)?.[1])
+    .find((p): p is string => p !== undefined) ?? ""
+
+  // Python/TS bodies may start with the decorator lines
+  const decorators = [
+    ...(entity.decorators ?? []),
+    ...(entity.body ?? "").split("\n").slice(0, 5).map((l) => l.trim()).filter((l) => l.startsWith("@")),
+  ]
+  for (const decorator of decorators) {
+    const m = ROUTE_DECORATOR_RE.exec(decorator)
+    if (m) routes.push({ method: m[1]!.toUpperCase(), path: normalizeRoute(`${prefix}/${m[2]}`) })
+  }
+
+  if (HTTP_METHOD_NAMES.has(entity.name)) {
+    const appRoute = NEXT_ROUTE_RE.exec(entity.file_path)
+    if (appRoute) {
+      // Drop route groups `(admin)` from the URL
+      const path = appRoute[1]!.split("/").filter((s) => !/^\(.*\)$/.test(s)).join("/")
+      routes.push({ method: entity.name, path: normalizeRoute(`/${path}`) })
+    }
+  } else if (entity.name === "handler" || entity.name === "default") {
+    const pagesRoute = NEXT_PAGES_API_RE.exec(entity.file_path)
+    if (pagesRoute) {
+      for (const method of HTTP_METHOD_NAMES) routes.push({ method, path: normalizeRoute(`/${pagesRoute[1]}`) })
+    }
+  }
+  return routes
+}
+
+/** `/users/:id/`, `/users/{id}`, `/users/[id]`, `/users/<int:id>` → `/users/{}` */
+function normalizeRoute(path: string): string {
+  const normalized = path
+    .replace(/\/+/g, "/")
+    .replace(/\{[^}]*\}|:[A-Za-z_]\w*|\[{1,2}\.{0,3}[^\]]*\]{1,2}|<[^>]*>/g, "{}")
+    .replace(/\/$/, "")
+  return normalized.startsWith("/") ? normalized || "/" : `/${normalized}`
+}
+
+/** Spec paths may omit a server base path (`/users` in the spec, `/api/v1/users` in code). */
+function routeMatches(specPath: string, codePath: string): boolean {
+  return specPath === codePath || (specPath !== "/" && codePath.endsWith(specPath))
+}
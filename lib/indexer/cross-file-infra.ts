@@ -0,0 +1,157 @@
+/**
+ * Cross-file infrastructure resolution.
+ *
+ * Post-processing step that runs after all parsing is complete, alongside
+ * cross-file call resolution. Links the entities emitted by the IaC plugin
+ * to each other and to application code:
+ * - Terraform: references between blocks of the same module directory
+ *   (`aws_iam_role.worker.arn`, `module.vpc`, `var.region`) → "references"
+ * - Kubernetes: Service → workloads its selector matches, Ingress → Service,
+ *   workload → ConfigMaps/Secrets it consumes (same namespace) → "references"
+ * - Env vars: functions reading `process.env.X` (or os.environ, os.Getenv,
+ *   System.getenv, ENV[...], env::var) → env var declared in a manifest
+ *   → "references"
+ */
+import { logger } from "@/lib/utils/logger"
+import { isEnvVarEntity } from "./languages/iac/env-vars"
+import { readKubernetesRefs, WORKLOAD_KINDS } from "./languages/iac/kubernetes"
+import type { KubernetesRefs } from "./languages/iac/kubernetes"
+import type { ParsedEdge, ParsedEntity } from "./types"
+
+/** Env var reads across the languages we index */
+const ENV_READ_PATTERNS = [
+  /process\.env\.([A-Z][A-Z0-9_]*)/g,
+  /process\.env\[\s*["'`]([A-Z][A-Z0-9_]*)["'`]\s*\]/g,
+  /import\.meta\.env\.([A-Z][A-Z0-9_]*)/g,
+  /os\.environ(?:\.get)?[[(]\s*["']([A-Z][A-Z0-9_]*)["']/g,
+  /os\.getenv\(\s*["']([A-Z][A-Z0-9_]*)["']/g,
+  /os\.(?:Getenv|LookupEnv)\(\s*"([A-Z][A-Z0-9_]*)"/g,
+  /System\.getenv\(\s*"([A-Z][A-Z0-9_]*)"/g,
+  /\bENV(?:\.fetch\(|\[)\s*["']([A-Z][A-Z0-9_]*)["']/g,
+  /env::var\(\s*"([A-Z][A-Z0-9_]*)"/g,
+]
+
+const TERRAFORM_REF_RE = /\b((?:data\.)?[a-z][\w-]*\.[\w-]+|module\.[\w-]+|var\.[\w-]+)/g
+
+/**
+ * Resolve infra-to-infra and code-to-infra edges.
+ *
+ * @returns Array of new "references" edges to append
+ */
+export function resolveCrossFileInfra(
+  entities: ParsedEntity[],
+  repoId: string,
+): ParsedEdge[] {
+  const log = logger.child({ service: "cross-file-infra", repoId })
+  const newEdges: ParsedEdge[] = []
+  const edgeDedup = new Set<string>()
+  const addEdge = (fromId: string, toId: string) => {
+    if (fromId === toId) return
+    const edgeKey = `${fromId}\0${toId}`
+    if (edgeDedup.has(edgeKey)) return
+    edgeDedup.add(edgeKey)
+    newEdges.push({ from_id: fromId, to_id: toId, kind: "references" })
+  }
+
+  const terraform = entities.filter((e) => e.language === "terraform" && !isEnvVarEntity(e))
+  const kubernetes = entities.filter((e) => e.language === "kubernetes" && e.kind === "resource")
+  const envVars = entities.filter(isEnvVarEntity)
+  if (terraform.length === 0 && kubernetes.length === 0) return newEdges
+
+  // Step 1: Terraform references, resolved within each module directory
+  const tfByDir = new Map<string, Map<string, string>>()
+  for (const entity of terraform) {
+    const dir = dirnameOf(entity.file_path)
+    let names = tfByDir.get(dir)
+    if (!names) {
+      names = new Map()
+      tfByDir.set(dir, names)
+    }
+    names.set(entity.name, entity.id)
+  }
+  for (const entity of terraform) {
+    if (!entity.body) continue
+    const names = tfByDir.get(dirnameOf(entity.file_path))!
+    for (const m of Array.from(entity.body.matchAll(TERRAFORM_REF_RE))) {
+      const targetId = names.get(m[1]!)
+      if (targetId) addEdge(entity.id, targetId)
+    }
+  }
+  const terraformEdges = newEdges.length
+
+  // Step 2: Kubernetes selectors, backends and config references
+  const k8sRefs = new Map<string, KubernetesRefs>()
+  const k8sByName = new Map<string, ParsedEntity[]>()
+  for (const entity of kubernetes) {
+    const refs = entity.body ? readKubernetesRefs(entity.body) : undefined
+    if (refs) k8sRefs.set(entity.id, refs)
+    const namespace = refs?.namespace ?? namespaceFromSignature(entity.signature)
+    const key = `${namespace}\0${entity.name}`
+    k8sByName.set(key, [...(k8sByName.get(key) ?? []), entity])
+  }
+  for (const entity of kubernetes) {
+    const refs = k8sRefs.get(entity.id)
+    if (!refs) continue
+
+    if (refs.selector && Object.keys(refs.selector).length > 0) {
+      for (const workload of kubernetes) {
+        const workloadRefs = k8sRefs.get(workload.id)
+        if (!workloadRefs?.kind || !WORKLOAD_KINDS.has(workloadRefs.kind)) continue
+        if (workloadRefs.namespace !== refs.namespace || !workloadRefs.podLabels) continue
+        const labels = workloadRefs.podLabels
+        if (Object.entries(refs.selector).every(([k, v]) => labels[k] === v)) {
+          addEdge(entity.id, workload.id)
+        }
+      }
+    }
+    for (const ref of refs.configRefs) {
+      for (const target of k8sByName.get(`${refs.namespace}\0${ref.kind}/${ref.name}`) ?? []) {
+        addEdge(entity.id, target.id)
+      }
+    }
+    for (const serviceName of refs.serviceRefs) {
+      for (const target of k8sByName.get(`${refs.namespace}\0Service/${serviceName}`) ?? []) {
+        addEdge(entity.id, target.id)
+      }
+    }
+  }
+  const kubernetesEdges = newEdges.length - terraformEdges
+
+  // Step 3: Code reading env vars declared by infra resources
+  const envByName = new Map<string, string[]>()
+  for (const envVar of envVars) {
+    envByName.set(envVar.name, [...(envByName.get(envVar.name) ?? []), envVar.id])
+  }
+  if (envByName.size > 0) {
+    for (const entity of entities) {
+      if (entity.kind !== "function" && entity.kind !== "method") continue
+      if (!entity.body) continue
+      for (const pattern of ENV_READ_PATTERNS) {
+        for (const m of Array.from(entity.body.matchAll(pattern))) {
+          for (const envVarId of envByName.get(m[1]!) ?? []) {
+            addEdge(entity.id, envVarId)
+          }
+        }
+      }
+    }
+  }
+
+  log.info("Cross-file infra edges resolved", {
+    terraformEdges,
+    kubernetesEdges,
+    envVarEdges: newEdges.length - terraformEdges - kubernetesEdges,
+  })
+
+  return newEdges
+}
+
+function dirnameOf(filePath: string): string {
+  const idx = filePath.lastIndexOf("/")
+  return idx === -1 ? "." : filePath.slice(0, idx)
+}
+
+/** Namespace from a `<apiVersion> <Kind> [ns/]name` signature (Secrets have no stored body). */
+function namespaceFromSignature(signature?: string): string {
+  const target = signature?.split(" ")[2] ?? ""
+  return target.includes("/") ? target.slice(0, target.indexOf("/")) : "default"
+}
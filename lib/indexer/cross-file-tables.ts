@@ -0,0 +1,224 @@
+/**
+ * Cross-file table access resolution.
+ *
+ * Post-processing step that runs after all parsing is complete, alongside
+ * cross-file call resolution. Links code to the `table` / `view` entities
+ * emitted by the SQL plugin (SQL migrations and Prisma schemas):
+ * - Raw SQL in string literals: SELECT/JOIN → "reads_table",
+ *   INSERT/UPDATE/DELETE/MERGE/TRUNCATE → "writes_table"
+ * - Prisma client calls: `prisma.user.findMany()` → "reads_table",
+ *   `prisma.user.create()` → "writes_table"
+ * - Query-builder calls with a table name: `.from("users")`,
+ *   `.insertInto("users")`, `.deleteFrom("users")`, ...
+ *
+ * It also finishes schema links that span migration files: columns added by
+ * ALTER TABLE ("member_of"), REFERENCES foreign keys ("references") and the
+ * tables a view or stored function reads/writes.
+ */
+import { logger } from "@/lib/utils/logger"
+import type { EdgeKind, ParsedEdge, ParsedEntity } from "./types"
+
+type TableAccess = "reads_table" | "writes_table"
+
+const IDENT = "(?:\"[^\"]+\"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)"
+const QNAME = `(${IDENT}(?:\\s*\\.\\s*${IDENT})*)`
+
+const SQL_WRITE_PATTERNS = [
+  new RegExp(`\\bINSERT\\s+(?:IGNORE\\s+)?INTO\\s+${QNAME}`, "gi"),
+  new RegExp(`\\bREPLACE\\s+INTO\\s+${QNAME}`, "gi"),
+  new RegExp(`\\bUPDATE\\s+(?:ONLY\\s+)?${QNAME}\\s+(?:(?:AS\\s+)?${IDENT}\\s+)?SET\\b`, "gi"),
+  new RegExp(`\\bDELETE\\s+FROM\\s+(?:ONLY\\s+)?${QNAME}`, "gi"),
+  new RegExp(`\\bMERGE\\s+INTO\\s+${QNAME}`, "gi"),
+  new RegExp(`\\bTRUNCATE\\s+(?:TABLE\\s+)?${QNAME}`, "gi"),
+]
+
+const SQL_READ_PATTERNS = [
+  new RegExp(`(?<!\\bDELETE\\s+)\\bFROM\\s+(?:ONLY\\s+)?${QNAME}`, "gi"),
+  new RegExp(`\\bJOIN\\s+(?:LATERAL\\s+)?${QNAME}`, "gi"),
+]
+
+/** Strings that look like SQL statements (checked before running the table patterns) */
+const SQL_KEYWORD_RE = /\b(?:SELECT|INSERT|UPDATE|DELETE|MERGE|TRUNCATE|REPLACE)\b/i
+
+const STRING_LITERAL_RE = /(["'`])((?:\\[\s\S]|(?!\1)[^\\])*)\1/g
+
+const PRISMA_READ_METHODS = [
+  "findUnique", "findUniqueOrThrow", "findFirst", "findFirstOrThrow", "findMany",
+  "count", "aggregate", "groupBy",
+]
+const PRISMA_WRITE_METHODS = [
+  "create", "createMany", "createManyAndReturn", "update", "updateMany",
+  "upsert", "delete", "deleteMany",
+]
+const PRISMA_CALL_RE = new RegExp(
+  `\\b\\w+\\s*\\.\\s*(\\w+)\\s*\\.\\s*(${[...PRISMA_READ_METHODS, ...PRISMA_WRITE_METHODS].join("|")})\\s*\\(`,
+  "g"
+)
+
+const QUERY_BUILDER_ACCESS: Record<string, TableAccess> = {
+  from: "reads_table",
+  selectFrom: "reads_table",
+  into: "writes_table",
+  insertInto: "writes_table",
+  updateTable: "writes_table",
+  deleteFrom: "writes_table",
+}
+const QUERY_BUILDER_RE = new RegExp(
+  `\\.\\s*(${Object.keys(QUERY_BUILDER_ACCESS).join("|")})\\s*\\(\\s*["'\`]([\\w.]+)["'\`]`,
+  "g"
+)
+
+const REFERENCES_RE = new RegExp(`\\bREFERENCES\\s+${QNAME}`, "gi")
+
+/**
+ * Resolve table access and cross-file schema edges.
+ *
+ * Algorithm:
+ * 1. Index table/view entities by lowercase name (plus Prisma `@@map` names)
+ * 2. Link columns to tables created in other files (ALTER TABLE migrations)
+ * 3. Link SQL tables to the tables their REFERENCES clauses point at
+ * 4. Scan views, SQL functions and code bodies for table reads/writes
+ *
+ * @returns Array of new edges to append
+ */
+export function resolveCrossFileTableAccess(
+  entities: ParsedEntity[],
+  repoId: string,
+): ParsedEdge[] {
+  const log = logger.child({ service: "cross-file-tables", repoId })
+  const newEdges: ParsedEdge[] = []
+
+  // Step 1: Build table lookup — lowercase name → table/view entities
+  const tablesByName = new Map<string, ParsedEntity[]>()
+  const addTableName = (name: string, table: ParsedEntity) => {
+    const key = name.toLowerCase()
+    const existing = tablesByName.get(key)
+    if (existing) {
+      if (!existing.includes(table)) existing.push(table)
+    } else {
+      tablesByName.set(key, [table])
+    }
+  }
+
+  for (const entity of entities) {
+    if (entity.kind !== "table" && entity.kind !== "view") continue
+    addTableName(entity.name, entity)
+    const mapped = entity.decorators?.map((d) => /^@@map\(\s*"([^"]+)"/.exec(d)?.[1]).find(Boolean)
+    if (mapped) addTableName(mapped, entity)
+  }
+
+  if (tablesByName.size === 0) return newEdges
+
+  const edgeDedup = new Set<string>()
+  const addEdge = (fromId: string, toId: string, kind: EdgeKind) => {
+    if (fromId === toId) return
+    const edgeKey = `${fromId}\0${toId}\0${kind}`
+    if (edgeDedup.has(edgeKey)) return
+    edgeDedup.add(edgeKey)
+    newEdges.push({ from_id: fromId, to_id: toId, kind })
+  }
+  const resolveTables = (rawName: string): ParsedEntity[] =>
+    tablesByName.get(lastIdentifier(rawName).toLowerCase()) ?? []
+
+  // Step 2: Columns whose table is created in a different file
+  for (const entity of entities) {
+    if (entity.kind !== "column" || !entity.parent) continue
+    const tables = tablesByName.get(entity.parent.toLowerCase()) ?? []
+    if (tables.some((t) => t.file_path === entity.file_path)) continue
+    for (const table of tables) {
+      addEdge(entity.id, table.id, "member_of")
+    }
+  }
+
+  // Step 3: Foreign keys declared in SQL CREATE TABLE statements
+  for (const entity of entities) {
+    if (entity.kind !== "table" || entity.language !== "sql" || !entity.body) continue
+    for (const match of Array.from(entity.body.matchAll(REFERENCES_RE))) {
+      for (const target of resolveTables(match[1]!)) {
+        addEdge(entity.id, target.id, "references")
+      }
+    }
+  }
+
+  // Step 4: Table access from views, SQL functions and code
+  let readEdges = 0
+  let writeEdges = 0
+  for (const entity of entities) {
+    if (entity.kind !== "function" && entity.kind !== "method" && entity.kind !== "view") continue
+    if (!entity.body) continue
+
+    const accesses = entity.language === "sql"
+      ? scanSql(entity.body)
+      : scanCode(entity.body)
+
+    for (const access of accesses) {
+      const kind = entity.kind === "view" ? "reads_table" : access.kind
+      for (const table of resolveTables(access.table)) {
+        const before = newEdges.length
+        addEdge(entity.id, table.id, kind)
+        if (newEdges.length > before) {
+          if (kind === "reads_table") readEdges++
+          else writeEdges++
+        }
+      }
+    }
+  }
+
+  log.info("Cross-file table edges resolved", {
+    tables: tablesByName.size,
+    readEdges,
+    writeEdges,
+    schemaEdges: newEdges.length - readEdges - writeEdges,
+  })
+
+  return newEdges
+}
+
+interface TableAccessMatch {
+  table: string
+  kind: TableAccess
+}
+
+/** Find tables read/written by a SQL statement or script. */
+function scanSql(sql: string): TableAccessMatch[] {
+  const matches: TableAccessMatch[] = []
+  for (const pattern of SQL_WRITE_PATTERNS) {
+    for (const m of Array.from(sql.matchAll(pattern))) {
+      matches.push({ table: m[1]!, kind: "writes_table" })
+    }
+  }
+  for (const pattern of SQL_READ_PATTERNS) {
+    for (const m of Array.from(sql.matchAll(pattern))) {
+      matches.push({ table: m[1]!, kind: "reads_table" })
+    }
+  }
+  return matches
+}
+
+/** Find tables accessed from application code via SQL strings, Prisma or query builders. */
+function scanCode(body: string): TableAccessMatch[] {
+  const matches: TableAccessMatch[] = []
+
+  for (const m of Array.from(body.matchAll(STRING_LITERAL_RE))) {
+    const text = m[2]!.replace(/\\(["'`])/g, "$1")
+    if (SQL_KEYWORD_RE.test(text)) matches.push(...scanSql(text))
+  }
+
+  for (const m of Array.from(body.matchAll(PRISMA_CALL_RE))) {
+    const kind = PRISMA_WRITE_METHODS.includes(m[2]!) ? "writes_table" : "reads_table"
+    matches.push({ table: m[1]!, kind })
+  }
+
+  for (const m of Array.from(body.matchAll(QUERY_BUILDER_RE))) {
+    matches.push({ table: m[2]!, kind: QUERY_BUILDER_ACCESS[m[1]!]! })
+  }
+
+  return matches
+}
+
+/** Last segment of a possibly schema-qualified, quoted name (`public."User"` → `User`). */
+function lastIdentifier(qualified: string): string {
+  const parts = qualified.match(new RegExp(IDENT, "g")) ?? [qualified]
+  const last = parts[parts.length - 1]!
+  return /^["`[]/.test(last) ? last.slice(1, -1) : last
+}
@@ -1,7 +1,8 @@
 /**
  * Shared doc comment extraction utilities for all language parsers.
  *
- * Extracts JSDoc, Python docstrings, and Go doc comments from source lines.
+ * Extracts JSDoc, Python docstrings, Go doc comments, Swift `///` / KDoc-style
+ * doc comments, and SQL `--` comments from source lines.
  * Returns undefined if the extracted comment is too short (<10 chars) to filter noise.
  */
 
@@ -132,6 +133,72 @@ export function extractGoDocComment(lines: string[], entityLineIdx: number): str
   return cleanLineComments(lines.slice(i, endIdx + 1))
 }
 
+/**
+ * Extract a Swift doc comment preceding a declaration.
+ * Swift convention: consecutive `///` lines (preferred) or a `/** ... *​/` block.
+ * Markup fields (`- Parameter x:`, `- Returns:`) are dropped, like JSDoc @tags.
+ */
+export function extractSwiftDocComment(lines: string[], entityLineIdx: number): string | undefined {
+  if (entityLineIdx <= 0) return undefined
+
+  let i = entityLineIdx - 1
+
+  // Skip blank lines
+  while (i >= 0 && !lines[i]!.trim()) i--
+  if (i < 0) return undefined
+
+  if (!lines[i]!.trim().startsWith("///")) {
+    return extractJSDocComment(lines, entityLineIdx)
+  }
+
+  // Collect consecutive /// lines
+  const endIdx = i
+  while (i > 0 && lines[i - 1]!.trim().startsWith("///")) {
+    i--
+  }
+
+  const descLines: string[] = []
+  for (const line of lines.slice(i, endIdx + 1)) {
+    const text = line.trim().replace(/^\/\/\/\s?/, "").trim()
+    if (/^-\s*(?:Parameters?|Returns|Throws|Note|Precondition|Complexity)\b/i.test(text)) break
+    if (text) descLines.push(text)
+  }
+
+  const cleaned = descLines.join(" ").trim()
+  return cleaned.length >= MIN_DOC_LENGTH ? cleaned : undefined
+}
+
+/**
+ * Extract a SQL comment preceding a CREATE statement.
+ * Convention: consecutive `--` lines immediately before the statement.
+ */
+export function extractSqlDocComment(lines: string[], entityLineIdx: number): string | undefined {
+  if (entityLineIdx <= 0) return undefined
+
+  let i = entityLineIdx - 1
+
+  // Skip blank lines
+  while (i >= 0 && !lines[i]!.trim()) i--
+  if (i < 0) return undefined
+
+  if (!lines[i]!.trim().startsWith("--")) return undefined
+
+  // Collect consecutive -- lines
+  const endIdx = i
+  while (i > 0 && lines[i - 1]!.trim().startsWith("--")) {
+    i--
+  }
+
+  const cleaned = lines
+    .slice(i, endIdx + 1)
+    .map((l) => l.trim().replace(/^--\s?/, "").trim())
+    .filter(Boolean)
+    .join(" ")
+    .trim()
+
+  return cleaned.length >= MIN_DOC_LENGTH ? cleaned : undefined
+}
+
 /**
  * Dispatch to the correct doc extractor based on language.
  * Convenience for the SCIP post-pass where language is known at runtime.
@@ -147,6 +214,12 @@ export function extractDocComment(
   if (language === "go") {
     return extractGoDocComment(lines, entityLineIdx)
   }
+  if (language === "swift" || language === "prisma") {
+    return extractSwiftDocComment(lines, entityLineIdx)
+  }
+  if (language === "sql") {
+    return extractSqlDocComment(lines, entityLineIdx)
+  }
   // Default: JSDoc/TSDoc/JavaDoc style (works for TS, JS, Java, and most C-family languages)
   return extractJSDocComment(lines, entityLineIdx)
 }
@@ -59,6 +59,13 @@ export const ALWAYS_IGNORE = new Set([
   "obj",
   ".nuget",
 
+  // ── Swift / iOS (CocoaPods, Carthage, SwiftPM, Xcode) ─────────────
+  "Pods",
+  "Carthage",
+  ".build",
+  ".swiftpm",
+  "DerivedData",
+
   // ── Ruby ──────────────────────────────────────────────────────────
   ".bundle",
 
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the GraphQL SDL parser.
+ *
+ * Tests root-type operations, object/input types and fields, enums,
+ * descriptions, multi-line arguments and custom schema roots.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseGraphqlSchema } from "../graphql"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+describe("parseGraphqlSchema", () => {
+  it("turns root type fields into operations", () => {
+    const content = `type Query {
+  "Fetch a user by id"
+  user(id: ID!): User
+  users(
+    first: Int = 10,
+    after: String
+  ): [User!]!
+}
+
+extend type Mutation {
+  deleteUser(id: ID!): Boolean! # soft delete
+}
+`
+    const result = parseGraphqlSchema({ filePath: "schema/query.graphql", content, ...OPTS })
+
+    const ops = result.entities.filter((e) => e.kind === "api_operation")
+    expect(ops.map((o) => [o.name, o.signature, o.return_type, o.start_line, o.end_line])).toEqual([
+      ["Query.user", "user(id: ID!): User", "User", 3, 3],
+      ["Query.users", "users(first: Int = 10, after: String): [User!]!", "[User!]!", 4, 7],
+      ["Mutation.deleteUser", "deleteUser(id: ID!): Boolean!", "Boolean!", 11, 11],
+    ])
+    expect(ops[0]!.doc).toBe("Fetch a user by id")
+    expect(ops[0]!.parent).toBe("Query")
+    expect(result.entities.some((e) => e.kind === "message")).toBe(false)
+  })
+
+  it("turns object and input types into messages with typed fields", () => {
+    const content = `"""
+A registered account.
+"""
+type User implements Node @key(fields: "id") {
+  id: ID!
+  "Primary email"
+  email: String
+  posts(first: Int): [Post!]!
+}
+
+input CreateUserInput {
+  email: String!
+}
+
+enum Role {
+  ADMIN
+  MEMBER
+}
+`
+    const result = parseGraphqlSchema({ filePath: "schema/user.graphql", content, ...OPTS })
+
+    const user = result.entities.find((e) => e.name === "User")!
+    expect(user.kind).toBe("message")
+    expect(user.doc).toBe("A registered account.")
+    expect(user.signature).toBe("type User")
+    expect(user.members).toEqual(["id", "email", "posts"])
+    expect([user.start_line, user.end_line]).toEqual([4, 9])
+
+    const fields = result.entities.filter((e) => e.kind === "field")
+    expect(fields.map((f) => [f.parent, f.name, f.return_type])).toEqual([
+      ["User", "id", "ID!"],
+      ["User", "email", "String"],
+      ["User", "posts", "[Post!]!"],
+      ["CreateUserInput", "email", "String!"],
+    ])
+    expect(fields[1]!.doc).toBe("Primary email")
+    expect(result.edges).toContainEqual({ from_id: fields[0]!.id, to_id: user.id, kind: "member_of" })
+
+    const role = result.entities.find((e) => e.name === "Role")!
+    expect(role.kind).toBe("enum")
+    expect(role.members).toEqual(["ADMIN", "MEMBER"])
+  })
+
+  it("honours custom root types from a schema block", () => {
+    const content = `schema {
+  query: RootQuery
+}
+
+type RootQuery {
+  me: User
+}
+
+type Query {
+  notARoot: String
+}
+`
+    const result = parseGraphqlSchema({ filePath: "schema.gql", content, ...OPTS })
+
+    expect(result.entities.filter((e) => e.kind === "api_operation").map((e) => e.name)).toEqual(["RootQuery.me"])
+    expect(result.entities.find((e) => e.name === "Query")!.kind).toBe("message")
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the OpenAPI parser.
+ *
+ * Tests operation, schema and property extraction from YAML and JSON
+ * documents, $ref edges, and that non-OpenAPI files are ignored.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseOpenApiDocument } from "../openapi"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+const SPEC = `openapi: 3.0.3
+info:
+  title: Users
+  version: 1.0.0
+paths:
+  /users/{id}:
+    get:
+      operationId: getUser
+      summary: Fetch a single user
+      responses:
+        "200":
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/User"
+    delete:
+      responses:
+        "204":
+          description: Deleted
+components:
+  schemas:
+    User:
+      type: object
+      required: [id]
+      properties:
+        id:
+          type: string
+          format: uuid
+        email:
+          type: string
+        roles:
+          type: array
+          items:
+            $ref: "#/components/schemas/Role"
+    Role:
+      type: string
+`
+
+describe("parseOpenApiDocument", () => {
+  it("extracts operations named by operationId or method and path", () => {
+    const result = parseOpenApiDocument({ filePath: "api/openapi.yaml", content: SPEC, ...OPTS })
+
+    const ops = result.entities.filter((e) => e.kind === "api_operation")
+    expect(ops.map((o) => [o.name, o.signature, o.start_line, o.end_line])).toEqual([
+      ["getUser", "GET /users/{id}", 7, 15],
+      ["DELETE /users/{id}", "DELETE /users/{id}", 16, 19],
+    ])
+    expect(ops[0]!.doc).toBe("Fetch a single user")
+    expect(ops[0]!.language).toBe("openapi")
+  })
+
+  it("extracts schemas as messages and properties as typed fields", () => {
+    const result = parseOpenApiDocument({ filePath: "api/openapi.yaml", content: SPEC, ...OPTS })
+
+    const user = result.entities.find((e) => e.kind === "message" && e.name === "User")!
+    expect(user.members).toEqual(["id", "email", "roles"])
+    const fields = result.entities.filter((e) => e.kind === "field")
+    expect(fields.map((f) => [f.parent, f.name, f.return_type, f.signature, f.start_line])).toEqual([
+      ["User", "id", "string(uuid)", "id: string(uuid)", 26],
+      ["User", "email", "string", "email?: string", 29],
+      ["User", "roles", "Role[]", "roles?: Role[]", 31],
+    ])
+    expect(result.edges).toContainEqual({ from_id: fields[0]!.id, to_id: user.id, kind: "member_of" })
+  })
+
+  it("links operations and schemas to the schemas they $ref", () => {
+    const result = parseOpenApiDocument({ filePath: "api/openapi.yaml", content: SPEC, ...OPTS })
+    const byName = (name: string) => result.entities.find((e) => e.name === name)!
+
+    const refs = result.edges.filter((e) => e.kind === "references")
+    expect(refs).toEqual([
+      { from_id: byName("User").id, to_id: byName("Role").id, kind: "references" },
+      { from_id: byName("getUser").id, to_id: byName("User").id, kind: "references" },
+    ])
+  })
+
+  it("parses Swagger 2 JSON definitions", () => {
+    const content = JSON.stringify({
+      swagger: "2.0",
+      paths: { "/pets": { post: { operationId: "addPet", parameters: [{ in: "body", schema: { $ref: "#/definitions/Pet" } }] } } },
+      definitions: { Pet: { properties: { name: { type: "string" } } } },
+    }, null, 2)
+    const result = parseOpenApiDocument({ filePath: "swagger.json", content, ...OPTS })
+
+    expect(result.entities.map((e) => [e.kind, e.name])).toEqual([
+      ["message", "Pet"],
+      ["field", "name"],
+      ["api_operation", "addPet"],
+    ])
+    expect(result.edges.filter((e) => e.kind === "references")).toHaveLength(1)
+  })
+
+  it("ignores JSON and YAML that isn't OpenAPI", () => {
+    const content = JSON.stringify({ name: "my-app", version: "1.0.0" })
+    expect(parseOpenApiDocument({ filePath: "package.json", content, ...OPTS }).entities).toEqual([])
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the protobuf parser.
+ *
+ * Tests messages (including nested messages, oneofs and maps), enums,
+ * services with rpcs and option blocks, and comment handling.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseProtobufFile } from "../protobuf"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+const PROTO = `syntax = "proto3";
+
+package acme.users.v1;
+
+// A registered account.
+message User {
+  string id = 1;
+  optional string email = 2; // may be unset
+  repeated Role roles = 3;
+  map<string, string> labels = 4;
+  oneof contact {
+    string phone = 5;
+    Address address = 6;
+  }
+  reserved 7;
+
+  message Address {
+    string city = 1;
+  }
+}
+
+enum Role {
+  ROLE_UNSPECIFIED = 0;
+  ROLE_ADMIN = 1;
+}
+
+message Empty {}
+
+service UserService {
+  // Fetch a single user.
+  rpc GetUser(GetUserRequest) returns (User);
+  rpc WatchUsers(Empty) returns (stream User) {
+    option (google.api.http) = {
+      get: "/v1/users:watch"
+    };
+  }
+}
+
+message GetUserRequest {
+  string id = 1;
+}
+`
+
+describe("parseProtobufFile", () => {
+  it("extracts messages, nested messages and fields", () => {
+    const result = parseProtobufFile({ filePath: "proto/users.proto", content: PROTO, ...OPTS })
+
+    const messages = result.entities.filter((e) => e.kind === "message")
+    expect(messages.map((m) => [m.name, m.start_line, m.end_line])).toEqual([
+      ["User", 6, 20],
+      ["User.Address", 17, 19],
+      ["Empty", 27, 27],
+      ["GetUserRequest", 39, 41],
+    ])
+    expect(messages[0]!.doc).toBe("A registered account.")
+    expect(messages[0]!.members).toEqual(["id", "email", "roles", "labels", "phone", "address"])
+
+    const fields = result.entities.filter((e) => e.kind === "field" && e.parent === "User")
+    expect(fields.map((f) => [f.name, f.return_type, f.signature])).toEqual([
+      ["id", "string", "string id = 1"],
+      ["email", "string", "optional string email = 2"],
+      ["roles", "Role[]", "repeated Role roles = 3"],
+      ["labels", "map<string,string>", "map<string,string> labels = 4"],
+      ["phone", "string", "string phone = 5"],
+      ["address", "Address", "Address address = 6"],
+    ])
+    const user = messages[0]!
+    expect(result.edges).toContainEqual({ from_id: fields[0]!.id, to_id: user.id, kind: "member_of" })
+  })
+
+  it("extracts rpcs as operations and enums with their values", () => {
+    const result = parseProtobufFile({ filePath: "proto/users.proto", content: PROTO, ...OPTS })
+
+    const ops = result.entities.filter((e) => e.kind === "api_operation")
+    expect(ops.map((o) => [o.name, o.signature, o.return_type, o.start_line, o.end_line])).toEqual([
+      ["UserService.GetUser", "rpc GetUser(GetUserRequest) returns (User)", "User", 31, 31],
+      ["UserService.WatchUsers", "rpc WatchUsers(Empty) returns (stream User)", "User", 32, 36],
+    ])
+    expect(ops[0]!.doc).toBe("Fetch a single user.")
+
+    const role = result.entities.find((e) => e.kind === "enum")!
+    expect(role.name).toBe("Role")
+    expect(role.members).toEqual(["ROLE_UNSPECIFIED", "ROLE_ADMIN"])
+  })
+})
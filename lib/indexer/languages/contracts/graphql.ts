@@ -0,0 +1,218 @@
+/**
+ * Parser for GraphQL SDL (.graphql / .gql).
+ *
+ * - Fields of the root types (Query, Mutation, Subscription, or the names a
+ *   `schema { ... }` block assigns) become `api_operation` entities named
+ *   `<Root>.<field>`, e.g. `Query.user`
+ * - `type`, `input` and `interface` definitions become `message` entities,
+ *   and their fields become `field` entities with the field type in
+ *   `return_type`
+ * - `enum` definitions become `enum` entities
+ *
+ * Block strings and `"..."` descriptions become docs. Type references
+ * (operation → message, message → message) are resolved across files by the
+ * cross-file contracts pass, since schemas are commonly split.
+ */
+import { entityHash } from "../../entity-hash"
+import type { EntityKind, ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface GraphqlParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+const DEFINITION_RE = /^(?:extend\s+)?(type|input|interface|enum)\s+([A-Za-z_]\w*)[^{]*\{/
+const FIELD_RE = /^([A-Za-z_]\w*)\s*(\([^)]*\))?\s*:\s*([[\]\w!]+)/
+const DEFAULT_ROOTS = ["Query", "Mutation", "Subscription"]
+
+export function parseGraphqlSchema(opts: TreeSitterOptions): GraphqlParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const lines = opts.content.split("\n")
+  const { cleaned, descriptions } = cleanGraphqlLines(lines)
+  const roots = new Set(readRootTypes(cleaned.join("\n")))
+
+  for (let i = 0; i < lines.length; i++) {
+    const m = DEFINITION_RE.exec(cleaned[i]!.trim())
+    if (!m) continue
+    const [, keyword, typeName] = m
+    const endIdx = findBlockEnd(cleaned, i)
+
+    if (keyword === "enum") {
+      const values = cleaned.slice(i + 1, endIdx)
+        .map((l) => l.trim().split(/\s/)[0]!)
+        .filter((v) => /^[A-Za-z_]\w*$/.test(v))
+      entities.push({
+        ...baseEntity(opts, "enum", typeName!, i, endIdx, lines),
+        signature: `enum ${typeName}`,
+        doc: descriptions.get(i),
+        members: values,
+      })
+      i = endIdx
+      continue
+    }
+
+    const isRoot = keyword === "type" && roots.has(typeName!)
+    const message: ParsedEntity | undefined = isRoot
+      ? undefined
+      : {
+          ...baseEntity(opts, "message", typeName!, i, endIdx, lines),
+          signature: `${keyword} ${typeName}`,
+          doc: descriptions.get(i),
+        }
+    if (message) entities.push(message)
+
+    const members: string[] = []
+    for (let j = i + 1; j < endIdx; j++) {
+      // Arguments may span several lines: join until parentheses balance
+      let text = cleaned[j]!.trim()
+      let lastIdx = j
+      while (text.includes("(") && !text.includes(")") && lastIdx + 1 < endIdx) {
+        lastIdx++
+        text += ` ${cleaned[lastIdx]!.trim()}`
+      }
+      const field = FIELD_RE.exec(text)
+      if (!field) continue
+      const [, fieldName, rawArgs, fieldType] = field
+      const args = rawArgs ? rawArgs.replace(/\s+/g, " ").replace(/^\(\s*/, "(").replace(/[\s,]*\)$/, ")") : ""
+      const signature = `${fieldName}${args}: ${fieldType}`
+
+      if (isRoot) {
+        const name = `${typeName}.${fieldName}`
+        entities.push({
+          ...baseEntity(opts, "api_operation", name, j, lastIdx, lines),
+          parent: typeName,
+          signature,
+          return_type: fieldType,
+          parameter_count: args ? args.split(":").length - 1 : 0,
+          doc: descriptions.get(j),
+        })
+      } else {
+        const entity: ParsedEntity = {
+          id: entityHash(opts.repoId, opts.filePath, "field", `${typeName}.${fieldName}`),
+          kind: "field",
+          name: fieldName!,
+          file_path: opts.filePath,
+          start_line: j + 1,
+          end_line: lastIdx + 1,
+          language: "graphql",
+          parent: typeName,
+          signature,
+          return_type: fieldType,
+          doc: descriptions.get(j),
+        }
+        entities.push(entity)
+        edges.push({ from_id: entity.id, to_id: message!.id, kind: "member_of" })
+        members.push(fieldName!)
+      }
+      j = lastIdx
+    }
+    if (message && members.length > 0) message.members = members
+    i = endIdx
+  }
+
+  return { entities, edges }
+}
+
+// ── Helpers ──
+
+function baseEntity(
+  opts: TreeSitterOptions,
+  kind: EntityKind,
+  name: string,
+  startIdx: number,
+  endIdx: number,
+  lines: string[],
+): ParsedEntity {
+  return {
+    id: entityHash(opts.repoId, opts.filePath, kind, name),
+    kind,
+    name,
+    file_path: opts.filePath,
+    start_line: startIdx + 1,
+    end_line: endIdx + 1,
+    language: "graphql",
+    body: lines.slice(startIdx, Math.min(endIdx + 1, startIdx + MAX_BODY_LINES)).join("\n"),
+  }
+}
+
+/** Root operation type names, honouring a `schema { query: RootQuery }` block. */
+function readRootTypes(cleanedContent: string): string[] {
+  const schemaBlock = /\bschema\s*\{([^}]*)\}/.exec(cleanedContent)
+  if (!schemaBlock) return DEFAULT_ROOTS
+  const roots = Array.from(schemaBlock[1]!.matchAll(/\b(?:query|mutation|subscription)\s*:\s*([A-Za-z_]\w*)/g)).map((m) => m[1]!)
+  return roots.length > 0 ? roots : DEFAULT_ROOTS
+}
+
+function findBlockEnd(cleaned: string[], startIdx: number): number {
+  let depth = 0
+  for (let i = startIdx; i < cleaned.length; i++) {
+    for (const ch of cleaned[i]!) {
+      if (ch === "{") depth++
+      else if (ch === "}" && --depth === 0) return i
+    }
+  }
+  return cleaned.length - 1
+}
+
+/**
+ * Blank `#` comments and descriptions so only SDL structure remains, and
+ * record each description against the line of the definition it documents.
+ */
+function cleanGraphqlLines(lines: string[]): { cleaned: string[]; descriptions: Map<number, string> } {
+  const cleaned: string[] = []
+  const descriptions = new Map<number, string>()
+  let blockLines: string[] | undefined
+  let pending: string | undefined
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+    if (blockLines) {
+      const close = line.indexOf("\"\"\"")
+      if (close === -1) {
+        blockLines.push(line.trim())
+        cleaned.push("")
+        continue
+      }
+      blockLines.push(line.slice(0, close).trim())
+      pending = blockLines.filter(Boolean).join(" ")
+      blockLines = undefined
+      cleaned.push(line.slice(close + 3))
+      continue
+    }
+
+    const trimmed = line.trim()
+    const blockStart = trimmed.indexOf("\"\"\"")
+    if (blockStart === 0) {
+      const rest = trimmed.slice(3)
+      const close = rest.indexOf("\"\"\"")
+      if (close === -1) {
+        blockLines = [rest.trim()]
+        cleaned.push("")
+        continue
+      }
+      pending = rest.slice(0, close).trim()
+      cleaned.push("")
+      continue
+    }
+    const inline = /^"((?:[^"\\]|\\.)*)"\s*(.*)$/.exec(trimmed)
+    if (inline) {
+      pending = inline[1]
+      if (!inline[2]) {
+        cleaned.push("")
+        continue
+      }
+    }
+
+    const code = (inline ? inline[2]! : line).replace(/"(?:[^"\\]|\\.)*"/g, "\"\"").replace(/#.*$/, "")
+    if (code.trim() && pending) {
+      descriptions.set(i, pending)
+      pending = undefined
+    }
+    cleaned.push(code)
+  }
+
+  return { cleaned, descriptions }
+}
@@ -0,0 +1,33 @@
+/**
+ * API contract plugin.
+ *
+ * Indexes schema files — GraphQL SDL (.graphql / .gql), Protocol Buffers
+ * (.proto) and OpenAPI documents in JSON — into `api_operation`, `message`
+ * and `field` entities. OpenAPI YAML is routed here by the IaC plugin, which
+ * owns the .yaml/.yml extensions. There is no SCIP indexer for schemas, so
+ * every file goes through the parsers; JSON that isn't OpenAPI yields no
+ * entities.
+ */
+import { parseGraphqlSchema } from "./graphql"
+import { parseOpenApiDocument } from "./openapi"
+import { parseProtobufFile } from "./protobuf"
+import type { LanguagePlugin, SCIPOptions, TreeSitterOptions } from "../types"
+
+export const contractsPlugin: LanguagePlugin = {
+  id: "contracts",
+  extensions: [".graphql", ".gql", ".proto", ".json"],
+
+  async runSCIP(_opts: SCIPOptions) {
+    return { entities: [], edges: [], coveredFiles: [] }
+  },
+
+  async parseWithTreeSitter(opts: TreeSitterOptions) {
+    if (opts.filePath.endsWith(".proto")) {
+      return parseProtobufFile(opts)
+    }
+    if (opts.filePath.endsWith(".json")) {
+      return parseOpenApiDocument(opts)
+    }
+    return parseGraphqlSchema(opts)
+  },
+}
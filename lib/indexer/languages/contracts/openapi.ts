@@ -0,0 +1,204 @@
+/**
+ * Parser for OpenAPI 3 / Swagger 2 documents (YAML or JSON).
+ *
+ * - Each path + HTTP method becomes an `api_operation` named by its
+ *   operationId, or `<METHOD> <path>` when there is none
+ * - Each component schema (`components.schemas`, or `definitions` in
+ *   Swagger 2) becomes a `message`, and its properties become `field`
+ *   entities with the property type in `return_type`
+ * - `$ref`s between schemas, and from operations to the schemas they accept
+ *   or return, become `references` edges
+ *
+ * Non-OpenAPI YAML/JSON yields no entities.
+ */
+import { isMap, isScalar, LineCounter, parseDocument } from "yaml"
+import type { Node, Pair, YAMLMap } from "yaml"
+
+import { entityHash } from "../../entity-hash"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface OpenApiParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+const HTTP_METHODS = new Set(["get", "put", "post", "delete", "options", "head", "patch", "trace"])
+
+/** Cheap pre-check before parsing a YAML/JSON file as OpenAPI. */
+export function isOpenApiDocument(content: string): boolean {
+  return /^\s*["']?(?:openapi|swagger)["']?\s*:/m.test(content)
+}
+
+export function parseOpenApiDocument(opts: TreeSitterOptions): OpenApiParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  if (!isOpenApiDocument(opts.content)) return { entities, edges }
+
+  const lineCounter = new LineCounter()
+  let root: YAMLMap
+  try {
+    const doc = parseDocument(opts.content, { lineCounter })
+    if (doc.errors.length > 0 || !isMap(doc.contents)) return { entities, edges }
+    root = doc.contents
+  } catch {
+    return { entities, edges }
+  }
+
+  const spanOf = (pair: Pair): { start: number; end: number; startLine: number; endLine: number } => {
+    const start = (pair.key as Node | null)?.range?.[0] ?? 0
+    const end = (pair.value as Node | null)?.range?.[1] ?? start
+    return {
+      start,
+      end,
+      startLine: lineCounter.linePos(start).line,
+      endLine: lineCounter.linePos(Math.max(start, end - 1)).line,
+    }
+  }
+  const bodyOf = (start: number, end: number) =>
+    opts.content.slice(start, end).split("\n").slice(0, MAX_BODY_LINES).join("\n")
+
+  // Step 1: Schemas and their properties
+  const schemaIds = new Map<string, string>()
+  const schemaRefs: Array<{ fromId: string; refs: string[] }> = []
+  const schemas = mapAt(mapAt(root, "components"), "schemas") ?? mapAt(root, "definitions")
+  for (const pair of schemas?.items ?? []) {
+    const name = keyOf(pair)
+    if (!name || !isMap(pair.value)) continue
+    const schema = pair.value.toJSON() as Record<string, unknown>
+    const span = spanOf(pair)
+    const message: ParsedEntity = {
+      id: entityHash(opts.repoId, opts.filePath, "message", name),
+      kind: "message",
+      name,
+      file_path: opts.filePath,
+      start_line: span.startLine,
+      end_line: span.endLine,
+      language: "openapi",
+      signature: `schema ${name}`,
+      body: bodyOf(span.start, span.end),
+      doc: typeof schema.description === "string" ? schema.description : undefined,
+    }
+    entities.push(message)
+    schemaIds.set(name, message.id)
+    schemaRefs.push({ fromId: message.id, refs: collectRefs(schema) })
+
+    const required = new Set(Array.isArray(schema.required) ? schema.required.map(String) : [])
+    const properties = mapAt(pair.value, "properties")
+    const members: string[] = []
+    for (const propPair of properties?.items ?? []) {
+      const propName = keyOf(propPair)
+      if (!propName || !isMap(propPair.value)) continue
+      const prop = propPair.value.toJSON() as Record<string, unknown>
+      const propSpan = spanOf(propPair)
+      const type = schemaTypeLabel(prop)
+      const field: ParsedEntity = {
+        id: entityHash(opts.repoId, opts.filePath, "field", `${name}.${propName}`),
+        kind: "field",
+        name: propName,
+        file_path: opts.filePath,
+        start_line: propSpan.startLine,
+        end_line: propSpan.endLine,
+        language: "openapi",
+        parent: name,
+        signature: `${propName}${required.has(propName) ? "" : "?"}: ${type}`,
+        return_type: type,
+        doc: typeof prop.description === "string" ? prop.description : undefined,
+      }
+      entities.push(field)
+      edges.push({ from_id: field.id, to_id: message.id, kind: "member_of" })
+      members.push(propName)
+    }
+    if (members.length > 0) message.members = members
+  }
+
+  // Step 2: Operations
+  for (const pathPair of mapAt(root, "paths")?.items ?? []) {
+    const path = keyOf(pathPair)
+    if (!path || !isMap(pathPair.value)) continue
+    for (const methodPair of pathPair.value.items) {
+      const method = keyOf(methodPair)?.toLowerCase()
+      if (!method || !HTTP_METHODS.has(method) || !isMap(methodPair.value)) continue
+      const operation = methodPair.value.toJSON() as Record<string, unknown>
+      const route = `${method.toUpperCase()} ${path}`
+      const name = typeof operation.operationId === "string" ? operation.operationId : route
+      const span = spanOf(methodPair)
+      const summary = operation.summary ?? operation.description
+      const entity: ParsedEntity = {
+        id: entityHash(opts.repoId, opts.filePath, "api_operation", name, route),
+        kind: "api_operation",
+        name,
+        file_path: opts.filePath,
+        start_line: span.startLine,
+        end_line: span.endLine,
+        language: "openapi",
+        signature: route,
+        body: bodyOf(span.start, span.end),
+        doc: typeof summary === "string" ? summary : undefined,
+      }
+      entities.push(entity)
+      schemaRefs.push({ fromId: entity.id, refs: collectRefs(operation) })
+    }
+  }
+
+  // Step 3: $ref edges to schemas in this document
+  for (const { fromId, refs } of schemaRefs) {
+    for (const ref of new Set(refs)) {
+      const toId = schemaIds.get(ref)
+      if (toId && toId !== fromId) edges.push({ from_id: fromId, to_id: toId, kind: "references" })
+    }
+  }
+
+  return { entities, edges }
+}
+
+// ── Helpers ──
+
+function mapAt(map: YAMLMap | undefined, key: string): YAMLMap | undefined {
+  const value = map?.get(key, true)
+  return isMap(value) ? value : undefined
+}
+
+function keyOf(pair: Pair): string | undefined {
+  return isScalar(pair.key) ? String(pair.key.value) : undefined
+}
+
+/** Schema names referenced via `$ref` anywhere inside a value. */
+function collectRefs(value: unknown, out: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    for (const item of value) collectRefs(item, out)
+  } else if (value && typeof value === "object") {
+    for (const [k, v] of Object.entries(value)) {
+      if (k === "$ref" && typeof v === "string") out.push(refName(v))
+      else collectRefs(v, out)
+    }
+  }
+  return out
+}
+
+function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf("/") + 1)
+}
+
+/** Compact type label for a schema object: `string`, `integer`, `User`, `User[]`, `A | B`. */
+export function schemaTypeLabel(schema: Record<string, unknown>): string {
+  if (typeof schema.$ref === "string") return refName(schema.$ref)
+  for (const combinator of ["oneOf", "anyOf", "allOf"]) {
+    const options = schema[combinator]
+    if (Array.isArray(options)) {
+      return options
+        .filter((o): o is Record<string, unknown> => !!o && typeof o === "object")
+        .map(schemaTypeLabel)
+        .join(combinator === "allOf" ? " & " : " | ")
+    }
+  }
+  if (schema.type === "array" && schema.items && typeof schema.items === "object") {
+    return `${schemaTypeLabel(schema.items as Record<string, unknown>)}[]`
+  }
+  if (typeof schema.type === "string") {
+    return typeof schema.format === "string" ? `${schema.type}(${schema.format})` : schema.type
+  }
+  if (Array.isArray(schema.type)) return schema.type.join(" | ")
+  return "object"
+}
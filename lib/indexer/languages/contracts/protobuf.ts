@@ -0,0 +1,203 @@
+/**
+ * Parser for Protocol Buffers (.proto).
+ *
+ * - `message` definitions become `message` entities; nested messages are
+ *   named `Outer.Inner`
+ * - Message fields (including `oneof` members and `map<K, V>` fields) become
+ *   `field` entities with the field type in `return_type`
+ * - `rpc` declarations become `api_operation` entities named
+ *   `<Service>.<Rpc>`, with the response type in `return_type`
+ * - `enum` definitions become `enum` entities
+ *
+ * Leading `//` and block comments become docs. Request/response and field
+ * type references are resolved by the cross-file contracts pass, since they
+ * frequently point at imported files.
+ */
+import { extractJSDocComment } from "../../doc-extractor"
+import { entityHash } from "../../entity-hash"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface ProtobufParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+const BLOCK_RE = /^(message|enum|service|oneof)\s+([A-Za-z_]\w*)\s*\{/
+const FIELD_RE = /^(?:(repeated|optional|required)\s+)?(map\s*<[^>]+>|[A-Za-z_.][\w.]*)\s+([A-Za-z_]\w*)\s*=\s*(\d+)/
+const RPC_RE = /^rpc\s+([A-Za-z_]\w*)\s*\(\s*(stream\s+)?([\w.]+)\s*\)\s*returns\s*\(\s*(stream\s+)?([\w.]+)\s*\)/
+
+interface Scope {
+  keyword: string
+  name: string
+  entity?: ParsedEntity
+  members?: string[]
+}
+
+export function parseProtobufFile(opts: TreeSitterOptions): ProtobufParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const lines = opts.content.split("\n")
+  const cleaned = cleanProtoLines(lines)
+  const stack: Scope[] = []
+
+  const bodyOf = (startIdx: number) => lines.slice(startIdx, startIdx + MAX_BODY_LINES).join("\n")
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = cleaned[i]!.trim()
+    if (!line) continue
+
+    const block = BLOCK_RE.exec(line)
+    if (block) {
+      const [, keyword, blockName] = block
+      const enclosing = enclosingMessage(stack)
+      const scope: Scope = { keyword: keyword!, name: blockName! }
+
+      if (keyword === "message" || keyword === "enum") {
+        const name = enclosing ? `${enclosing.name}.${blockName}` : blockName!
+        scope.name = name
+        scope.entity = {
+          id: entityHash(opts.repoId, opts.filePath, keyword === "message" ? "message" : "enum", name),
+          kind: keyword === "message" ? "message" : "enum",
+          name,
+          file_path: opts.filePath,
+          start_line: i + 1,
+          end_line: i + 1,
+          language: "protobuf",
+          signature: `${keyword} ${name}`,
+          body: bodyOf(i),
+          doc: extractJSDocComment(lines, i),
+        }
+        scope.members = []
+        entities.push(scope.entity)
+      }
+      stack.push(scope)
+      if (!line.endsWith("}")) continue
+      // Single-line block, e.g. `message Empty {}`
+    }
+
+    const current = stack[stack.length - 1]
+
+    if (current?.keyword === "service") {
+      const rpc = RPC_RE.exec(line)
+      if (rpc) {
+        const [, rpcName, reqStream, reqType, resStream, resType] = rpc
+        const name = `${current.name}.${rpcName}`
+        entities.push({
+          id: entityHash(opts.repoId, opts.filePath, "api_operation", name),
+          kind: "api_operation",
+          name,
+          file_path: opts.filePath,
+          start_line: i + 1,
+          end_line: rpcEnd(cleaned, i) + 1,
+          language: "protobuf",
+          parent: current.name,
+          signature: `rpc ${rpcName}(${reqStream ? "stream " : ""}${reqType}) returns (${resStream ? "stream " : ""}${resType})`,
+          return_type: resType,
+          parameter_count: 1,
+          doc: extractJSDocComment(lines, i),
+        })
+      }
+    }
+
+    const message = enclosingMessage(stack)
+    if (message && (current?.keyword === "message" || current?.keyword === "oneof") && !block) {
+      const field = FIELD_RE.exec(line)
+      if (field && !/^(?:option|reserved|extensions)\b/.test(line)) {
+        const [, label, rawType, fieldName, fieldNumber] = field
+        const type = rawType!.replace(/\s+/g, "")
+        const entity: ParsedEntity = {
+          id: entityHash(opts.repoId, opts.filePath, "field", `${message.name}.${fieldName}`),
+          kind: "field",
+          name: fieldName!,
+          file_path: opts.filePath,
+          start_line: i + 1,
+          end_line: i + 1,
+          language: "protobuf",
+          parent: message.name,
+          signature: `${label ? `${label} ` : ""}${type} ${fieldName} = ${fieldNumber}`,
+          return_type: label === "repeated" ? `${type}[]` : type,
+          doc: extractJSDocComment(lines, i),
+        }
+        entities.push(entity)
+        edges.push({ from_id: entity.id, to_id: message.entity!.id, kind: "member_of" })
+        message.members!.push(fieldName!)
+      }
+    } else if (current?.keyword === "enum" && !block) {
+      const value = /^([A-Z_][A-Z0-9_]*)\s*=/.exec(line)
+      if (value) current.members!.push(value[1]!)
+    }
+
+    // Track braces; option blocks (`rpc X(...) returns (...) { option ... }`) get anonymous scopes
+    const net = (line.match(/\{/g) ?? []).length - (block ? 1 : 0) - (line.match(/\}/g) ?? []).length
+    for (let o = 0; o < net; o++) stack.push({ keyword: "option", name: "" })
+    for (let c = 0; c < -net && stack.length > 0; c++) {
+      const scope = stack.pop()!
+      if (scope.entity) {
+        scope.entity.end_line = i + 1
+        scope.entity.body = lines.slice(scope.entity.start_line! - 1, Math.min(i + 1, scope.entity.start_line! - 1 + MAX_BODY_LINES)).join("\n")
+        if (scope.members && scope.members.length > 0) scope.entity.members = scope.members
+      }
+    }
+  }
+
+  return { entities, edges }
+}
+
+// ── Helpers ──
+
+function enclosingMessage(stack: Scope[]): Scope | undefined {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i]!.keyword === "message") return stack[i]
+  }
+  return undefined
+}
+
+/** Last line of an rpc: the `;` line, or the closing brace of its options block. */
+function rpcEnd(cleaned: string[], startIdx: number): number {
+  let depth = 0
+  for (let i = startIdx; i < cleaned.length; i++) {
+    for (const ch of cleaned[i]!) {
+      if (ch === "{") depth++
+      else if (ch === "}") depth--
+    }
+    if (depth <= 0 && /[;}]\s*$/.test(cleaned[i]!.trim())) return i
+  }
+  return startIdx
+}
+
+/** Blank comments and string contents. Line count is preserved. */
+function cleanProtoLines(lines: string[]): string[] {
+  const out: string[] = []
+  let inBlockComment = false
+  for (const line of lines) {
+    let result = ""
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i]!
+      const next = line[i + 1]
+      if (inBlockComment) {
+        if (ch === "*" && next === "/") {
+          inBlockComment = false
+          i++
+        }
+        continue
+      }
+      if (ch === "/" && next === "/") break
+      if (ch === "/" && next === "*") {
+        inBlockComment = true
+        i++
+        continue
+      }
+      if (ch === "\"" || ch === "'") {
+        const close = line.indexOf(ch, i + 1)
+        result += `${ch}${ch}`
+        i = close === -1 ? line.length : close
+        continue
+      }
+      result += ch
+    }
+    out.push(result)
+  }
+  return out
+}
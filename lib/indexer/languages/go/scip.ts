@@ -51,7 +51,7 @@ export async function runSCIPGo(
       return { entities: [], edges: [], coveredFiles: [] }
     }
 
-    const result = parseSCIPOutput(outputFile, opts.repoId, "go", opts.isIncluded)
+    const result = parseSCIPOutput(outputFile, opts.repoId, "go", opts.isIncluded, opts.onArtifact)
 
     // Clean up
     try {
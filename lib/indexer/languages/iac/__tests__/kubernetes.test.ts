@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the Kubernetes manifest parser.
+ *
+ * Tests resource extraction from multi-document YAML, env var entities from
+ * workloads and ConfigMaps, Secret body redaction, and reading selectors and
+ * config references back from stored bodies.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseKubernetesManifest, readKubernetesRefs } from "../kubernetes"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+const MANIFEST = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: shop
+  annotations:
+    description: Public orders API
+spec:
+  selector:
+    matchLabels:
+      app: api
+  template:
+    metadata:
+      labels:
+        app: api
+        tier: backend
+    spec:
+      containers:
+        - name: api
+          image: ghcr.io/acme/orders-api:1.4.0
+          envFrom:
+            - configMapRef:
+                name: api-config
+          env:
+            - name: DATABASE_URL
+              valueFrom:
+                secretKeyRef:
+                  name: api-secrets
+                  key: url
+            - name: LOG_LEVEL
+              value: info
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+  namespace: shop
+spec:
+  selector:
+    app: api
+  ports:
+    - port: 80
+`
+
+describe("parseKubernetesManifest", () => {
+  it("extracts one resource per document with namespaced signatures", () => {
+    const result = parseKubernetesManifest({ filePath: "k8s/api.yaml", content: MANIFEST, ...OPTS })
+
+    const resources = result.entities.filter((e) => e.kind === "resource")
+    expect(resources.map((r) => r.name)).toEqual(["Deployment/api", "Service/api"])
+    expect(resources[0]!.signature).toBe("apps/v1 Deployment shop/api")
+    expect(resources[0]!.doc).toBe("Public orders API")
+    expect(resources[0]!.start_line).toBe(1)
+    expect(resources[1]!.start_line).toBe(33)
+    expect(resources.every((r) => r.language === "kubernetes")).toBe(true)
+  })
+
+  it("creates env var entities for container env entries", () => {
+    const result = parseKubernetesManifest({ filePath: "k8s/api.yaml", content: MANIFEST, ...OPTS })
+
+    const envVars = result.entities.filter((e) => e.kind === "variable")
+    expect(envVars.map((v) => [v.name, v.parent, v.start_line])).toEqual([
+      ["DATABASE_URL", "Deployment/api", 25],
+      ["LOG_LEVEL", "Deployment/api", 30],
+    ])
+    expect(envVars[0]!.signature).toBe("env DATABASE_URL")
+
+    const deployment = result.entities.find((e) => e.name === "Deployment/api")!
+    expect(result.edges).toContainEqual({ from_id: envVars[0]!.id, to_id: deployment.id, kind: "member_of" })
+  })
+
+  it("treats ConfigMap and Secret keys as env vars but never stores Secret bodies", () => {
+    const content = `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: api-config
+data:
+  FEATURE_FLAGS: "checkout,search"
+  nginx.conf: |
+    server {}
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: api-secrets
+stringData:
+  STRIPE_KEY: sk_live_123
+`
+    const result = parseKubernetesManifest({ filePath: "k8s/config.yaml", content, ...OPTS })
+
+    expect(result.entities.filter((e) => e.kind === "variable").map((e) => e.name)).toEqual(["FEATURE_FLAGS", "STRIPE_KEY"])
+    const secret = result.entities.find((e) => e.name === "Secret/api-secrets")!
+    expect(secret.body).toBeUndefined()
+  })
+
+  it("ignores YAML that isn't a Kubernetes manifest", () => {
+    const content = `name: CI
+on: [push]
+jobs:
+  test:
+    runs-on: ubuntu-latest
+`
+    expect(parseKubernetesManifest({ filePath: ".github/workflows/ci.yml", content, ...OPTS }).entities).toEqual([])
+  })
+})
+
+describe("readKubernetesRefs", () => {
+  it("reads pod labels and config references from a workload body", () => {
+    const result = parseKubernetesManifest({ filePath: "k8s/api.yaml", content: MANIFEST, ...OPTS })
+    const deployment = result.entities.find((e) => e.name === "Deployment/api")!
+
+    const refs = readKubernetesRefs(deployment.body!)!
+    expect(refs.namespace).toBe("shop")
+    expect(refs.podLabels).toEqual({ app: "api", tier: "backend" })
+    expect(refs.configRefs).toEqual([
+      { kind: "ConfigMap", name: "api-config" },
+      { kind: "Secret", name: "api-secrets" },
+    ])
+  })
+
+  it("reads Service selectors and Ingress backends", () => {
+    const service = readKubernetesRefs("kind: Service\nspec:\n  selector:\n    app: api\n")!
+    expect(service.selector).toEqual({ app: "api" })
+
+    const ingress = readKubernetesRefs(`kind: Ingress
+spec:
+  rules:
+    - http:
+        paths:
+          - path: /
+            backend:
+              service:
+                name: api
+          - path: /legacy
+            backend:
+              serviceName: legacy
+`)!
+    expect(ingress.serviceRefs).toEqual(["api", "legacy"])
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the Terraform parser.
+ *
+ * Tests extraction of resources, data sources, modules and variables,
+ * env vars set by resources, and comment/heredoc handling.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseTerraformFile } from "../terraform"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+describe("parseTerraformFile", () => {
+  it("names top-level blocks by their Terraform address", () => {
+    const content = `variable "region" {
+  description = "AWS region to deploy into"
+  type        = string
+}
+
+data "aws_ami" "ubuntu" {
+  most_recent = true
+}
+
+module "vpc" {
+  source = "terraform-aws-modules/vpc/aws"
+}
+
+resource "aws_instance" "web" {
+  ami = data.aws_ami.ubuntu.id
+  tags = {
+    Name = "web"
+  }
+}
+`
+    const result = parseTerraformFile({ filePath: "infra/main.tf", content, ...OPTS })
+
+    expect(result.entities.map((e) => [e.kind, e.name, e.start_line, e.end_line])).toEqual([
+      ["variable", "var.region", 1, 4],
+      ["resource", "data.aws_ami.ubuntu", 6, 8],
+      ["module", "module.vpc", 10, 12],
+      ["resource", "aws_instance.web", 14, 19],
+    ])
+    const variable = result.entities[0]!
+    expect(variable.doc).toBe("AWS region to deploy into")
+    expect(variable.return_type).toBe("string")
+    expect(result.entities[3]!.signature).toBe("resource \"aws_instance\" \"web\"")
+    expect(result.entities.every((e) => e.language === "terraform")).toBe(true)
+  })
+
+  it("creates env var entities for Lambda variables and Kubernetes env blocks", () => {
+    const content = `resource "aws_lambda_function" "worker" {
+  function_name = "worker"
+  environment {
+    variables = {
+      QUEUE_URL = aws_sqs_queue.jobs.url
+      "LOG_LEVEL" = "info"
+    }
+  }
+}
+
+resource "kubernetes_deployment" "api" {
+  spec {
+    template {
+      spec {
+        container {
+          env {
+            name  = "DATABASE_URL"
+            value = var.database_url
+          }
+        }
+      }
+    }
+  }
+}
+`
+    const result = parseTerraformFile({ filePath: "infra/app.tf", content, ...OPTS })
+
+    const envVars = result.entities.filter((e) => e.signature?.startsWith("env "))
+    expect(envVars.map((v) => [v.name, v.parent, v.start_line])).toEqual([
+      ["QUEUE_URL", "aws_lambda_function.worker", 5],
+      ["LOG_LEVEL", "aws_lambda_function.worker", 6],
+      ["DATABASE_URL", "kubernetes_deployment.api", 17],
+    ])
+    const lambda = result.entities.find((e) => e.name === "aws_lambda_function.worker")!
+    expect(result.edges).toContainEqual({ from_id: envVars[0]!.id, to_id: lambda.id, kind: "member_of" })
+  })
+
+  it("reads ECS container environment lists inside heredocs", () => {
+    const content = `resource "aws_ecs_task_definition" "api" {
+  family = "api"
+  container_definitions = <<EOF
+[{
+  "name": "api",
+  "image": "ghcr.io/acme/api:1.0",
+  "environment": [
+    { "name": "PORT", "value": "8080" }
+  ]
+}]
+EOF
+}
+`
+    const result = parseTerraformFile({ filePath: "infra/ecs.tf", content, ...OPTS })
+
+    const task = result.entities.find((e) => e.kind === "resource")!
+    expect(task.end_line).toBe(12)
+    expect(result.entities.filter((e) => e.kind === "variable").map((e) => e.name)).toEqual(["PORT"])
+  })
+
+  it("ignores braces and block keywords inside comments and strings", () => {
+    const content = `# resource "aws_s3_bucket" "old" {
+/* module "legacy" { */
+resource "aws_s3_bucket" "assets" {
+  bucket = "assets-{env}"
+}
+`
+    const result = parseTerraformFile({ filePath: "infra/s3.tf", content, ...OPTS })
+
+    expect(result.entities.map((e) => [e.name, e.start_line, e.end_line])).toEqual([
+      ["aws_s3_bucket.assets", 3, 5],
+    ])
+  })
+})
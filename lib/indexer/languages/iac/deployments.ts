@@ -0,0 +1,67 @@
+/**
+ * Which infra resources deploy a service, and which service they deploy.
+ *
+ * Used by get_blueprint to map services onto the Terraform/Kubernetes
+ * resources that run them. Works on stored entity fields (name, language,
+ * body) so it can run against graph documents as well as parser output.
+ */
+import { WORKLOAD_KINDS } from "./kubernetes"
+
+/** Terraform resource types that run application code. */
+const DEPLOYABLE_TERRAFORM_TYPES = new Set([
+  "aws_ecs_service",
+  "aws_ecs_task_definition",
+  "aws_lambda_function",
+  "aws_apprunner_service",
+  "aws_elastic_beanstalk_environment",
+  "google_cloud_run_service",
+  "google_cloud_run_v2_service",
+  "google_cloudfunctions_function",
+  "google_cloudfunctions2_function",
+  "azurerm_linux_web_app",
+  "azurerm_windows_web_app",
+  "azurerm_linux_function_app",
+  "azurerm_windows_function_app",
+  "azurerm_container_app",
+  "azurerm_container_group",
+  "kubernetes_deployment",
+  "kubernetes_deployment_v1",
+  "kubernetes_stateful_set",
+  "kubernetes_stateful_set_v1",
+  "kubernetes_cron_job",
+  "kubernetes_cron_job_v1",
+  "helm_release",
+])
+
+const IMAGE_RE = /["']?\b(?:image|image_uri|container_image)["']?\s*[:=]\s*["']?([^\s"',}]+)/g
+
+/** Whether a resource entity (`Deployment/api`, `aws_lambda_function.worker`) runs a service. */
+export function isDeployableResource(name: string, language?: string): boolean {
+  if (language === "kubernetes") return WORKLOAD_KINDS.has(name.slice(0, name.indexOf("/")))
+  if (language === "terraform") return DEPLOYABLE_TERRAFORM_TYPES.has(name.slice(0, name.indexOf(".")))
+  return false
+}
+
+/**
+ * Service names a resource deploys, derived from container images
+ * (`ghcr.io/acme/api:1.4` → `api`). Falls back to the resource's own name
+ * when no literal image is set (e.g. Lambda zips, interpolated images).
+ */
+export function extractDeployedServices(name: string, body?: string): string[] {
+  const services: string[] = []
+  for (const m of Array.from((body ?? "").matchAll(IMAGE_RE))) {
+    const image = m[1]!
+    if (image.includes("${") || image.startsWith("var.") || image.includes("{{")) continue
+    const service = serviceNameOf(image)
+    if (service && !services.includes(service)) services.push(service)
+  }
+  if (services.length > 0) return services
+  const fallback = name.includes("/") ? name.slice(name.indexOf("/") + 1) : name.slice(name.lastIndexOf(".") + 1)
+  return fallback ? [fallback] : []
+}
+
+function serviceNameOf(image: string): string | undefined {
+  const withoutDigest = image.split("@")[0]!
+  const lastSegment = withoutDigest.slice(withoutDigest.lastIndexOf("/") + 1)
+  return lastSegment.split(":")[0] || undefined
+}
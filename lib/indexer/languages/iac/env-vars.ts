@@ -0,0 +1,58 @@
+/**
+ * Environment variable helpers shared by the Terraform and Kubernetes parsers.
+ *
+ * Env vars declared in manifests become `variable` entities whose signature
+ * starts with `env ` and whose parent is the declaring resource. The
+ * cross-file infra pass links code that reads the variable to these entities,
+ * and the review env check uses the same declarations to spot reads that no
+ * manifest provides.
+ */
+import { entityHash } from "../../entity-hash"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+/** Same shape the review env check matches in `process.env.X` reads. */
+export const ENV_VAR_NAME_RE = /^[A-Z][A-Z0-9_]*$/
+
+/** An env var declared by an infra resource. */
+export interface EnvVarDeclaration {
+  name: string
+  /** Declaring resource (e.g. "Deployment/api", "aws_lambda_function.worker") */
+  resource: string
+  /** 1-based line of the declaration */
+  line: number
+}
+
+/** Create the env var entity (plus member_of edge) for a declaration. */
+export function buildEnvVarEntity(
+  opts: TreeSitterOptions,
+  language: string,
+  resource: ParsedEntity,
+  decl: EnvVarDeclaration,
+): { entity: ParsedEntity; edge: ParsedEdge } {
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, "variable", `${resource.name}.${decl.name}`),
+    kind: "variable",
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.line,
+    end_line: decl.line,
+    language,
+    parent: resource.name,
+    signature: `env ${decl.name}`,
+  }
+  return { entity, edge: { from_id: entity.id, to_id: resource.id, kind: "member_of" } }
+}
+
+/** Whether an entity is an env var declared in an infra manifest. */
+export function isEnvVarEntity(entity: Pick<ParsedEntity, "kind" | "signature">): boolean {
+  return entity.kind === "variable" && typeof entity.signature === "string" && entity.signature.startsWith("env ")
+}
+
+/** 1-based line of the first `pattern` match at or after `fromOffset`, or the fallback line. */
+export function findLineOf(content: string, pattern: RegExp, fromOffset: number, fallbackLine: number): number {
+  const slice = content.slice(fromOffset)
+  const m = pattern.exec(slice)
+  if (!m) return fallbackLine
+  return content.slice(0, fromOffset + m.index).split("\n").length
+}
@@ -0,0 +1,32 @@
+/**
+ * Infrastructure-as-code plugin.
+ *
+ * Covers Terraform (.tf) and Kubernetes manifests (.yaml / .yml). There is no
+ * SCIP indexer for either, so runSCIP covers no files and every file goes
+ * through the parsers, which emit `resource` entities plus the env vars those
+ * resources set. OpenAPI documents are handed to the contracts parser; other
+ * YAML files that aren't Kubernetes objects yield no entities.
+ */
+import { parseKubernetesManifest } from "./kubernetes"
+import { parseTerraformFile } from "./terraform"
+import { isOpenApiDocument, parseOpenApiDocument } from "../contracts/openapi"
+import type { LanguagePlugin, SCIPOptions, TreeSitterOptions } from "../types"
+
+export const iacPlugin: LanguagePlugin = {
+  id: "iac",
+  extensions: [".tf", ".yaml", ".yml"],
+
+  async runSCIP(_opts: SCIPOptions) {
+    return { entities: [], edges: [], coveredFiles: [] }
+  },
+
+  async parseWithTreeSitter(opts: TreeSitterOptions) {
+    if (opts.filePath.endsWith(".tf")) {
+      return parseTerraformFile(opts)
+    }
+    if (isOpenApiDocument(opts.content)) {
+      return parseOpenApiDocument(opts)
+    }
+    return parseKubernetesManifest(opts)
+  },
+}
@@ -0,0 +1,248 @@
+/**
+ * Parser for Kubernetes manifests (.yaml / .yml).
+ *
+ * Every YAML document with an `apiVersion`, `kind` and `metadata.name` becomes
+ * a `resource` entity named `<Kind>/<name>` (e.g. `Deployment/api`). Env vars
+ * set on workload containers, and env-style keys of ConfigMaps and Secrets,
+ * become `variable` entities (see env-vars.ts). Other YAML — CI configs,
+ * Compose files, Helm templates that don't parse as plain YAML — is ignored.
+ * Secret bodies are never stored.
+ *
+ * Service selectors, pod labels and ConfigMap/Secret references are read back
+ * from the stored body by the cross-file infra pass via readKubernetesRefs().
+ */
+import { LineCounter, parse, parseAllDocuments } from "yaml"
+import type { Document } from "yaml"
+
+import { buildEnvVarEntity, ENV_VAR_NAME_RE, findLineOf } from "./env-vars"
+import type { EnvVarDeclaration } from "./env-vars"
+import { entityHash } from "../../entity-hash"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface KubernetesParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+/** References a manifest makes to other Kubernetes objects. */
+export interface KubernetesRefs {
+  kind?: string
+  namespace: string
+  /** Service `spec.selector` */
+  selector?: Record<string, string>
+  /** Workload pod template labels */
+  podLabels?: Record<string, string>
+  /** ConfigMaps/Secrets consumed via envFrom, valueFrom or volumes */
+  configRefs: Array<{ kind: "ConfigMap" | "Secret"; name: string }>
+  /** Services an Ingress routes to */
+  serviceRefs: string[]
+}
+
+/** Kinds that run containers (and therefore deploy a service). */
+export const WORKLOAD_KINDS = new Set(["Deployment", "StatefulSet", "DaemonSet", "ReplicaSet", "Job", "CronJob", "Pod"])
+
+type YamlRecord = Record<string, unknown>
+
+export function parseKubernetesManifest(opts: TreeSitterOptions): KubernetesParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  if (!/^\s*apiVersion\s*:/m.test(opts.content) || !/^\s*kind\s*:/m.test(opts.content)) {
+    return { entities, edges }
+  }
+
+  const lineCounter = new LineCounter()
+  let docs: Document.Parsed[]
+  try {
+    const parsed = parseAllDocuments(opts.content, { lineCounter })
+    docs = Array.isArray(parsed) ? parsed : []
+  } catch {
+    return { entities, edges }
+  }
+
+  for (const doc of docs) {
+    if (doc.errors.length > 0 || !doc.contents) continue
+    const obj = doc.toJS() as unknown
+    if (!isRecord(obj) || !isRecord(obj.metadata)) continue
+    const { apiVersion, kind, metadata } = obj
+    if (typeof apiVersion !== "string" || typeof kind !== "string" || typeof metadata.name !== "string") continue
+
+    const [start, end] = doc.contents.range
+    const startLine = lineCounter.linePos(start).line
+    const endLine = lineCounter.linePos(Math.max(start, end - 1)).line
+    const namespace = typeof metadata.namespace === "string" ? metadata.namespace : undefined
+    const name = `${kind}/${metadata.name}`
+    const signature = `${apiVersion} ${kind} ${namespace ? `${namespace}/` : ""}${metadata.name}`
+    const annotations = isRecord(metadata.annotations) ? metadata.annotations : {}
+    const description = annotations.description ?? annotations["kubernetes.io/description"]
+
+    const resource: ParsedEntity = {
+      id: entityHash(opts.repoId, opts.filePath, "resource", name, signature),
+      kind: "resource",
+      name,
+      file_path: opts.filePath,
+      start_line: startLine,
+      end_line: endLine,
+      language: "kubernetes",
+      signature,
+      body: kind === "Secret"
+        ? undefined
+        : opts.content.slice(start, end).split("\n").slice(0, MAX_BODY_LINES).join("\n"),
+      doc: typeof description === "string" ? description : undefined,
+    }
+    entities.push(resource)
+
+    for (const decl of collectEnvVars(obj, kind, name, opts.content, start, startLine)) {
+      const { entity, edge } = buildEnvVarEntity(opts, "kubernetes", resource, decl)
+      entities.push(entity)
+      edges.push(edge)
+    }
+  }
+
+  return { entities, edges }
+}
+
+/** Read selectors, labels and config references back from a manifest body. */
+export function readKubernetesRefs(body: string): KubernetesRefs | undefined {
+  let obj: unknown
+  try {
+    obj = parse(body)
+  } catch {
+    return undefined
+  }
+  if (!isRecord(obj)) return undefined
+
+  const kind = typeof obj.kind === "string" ? obj.kind : undefined
+  const metadata = isRecord(obj.metadata) ? obj.metadata : {}
+  const spec = isRecord(obj.spec) ? obj.spec : {}
+  const refs: KubernetesRefs = {
+    kind,
+    namespace: typeof metadata.namespace === "string" ? metadata.namespace : "default",
+    configRefs: [],
+    serviceRefs: [],
+  }
+
+  if (kind === "Service" && isRecord(spec.selector)) {
+    refs.selector = toStringMap(spec.selector)
+  }
+
+  if (kind && WORKLOAD_KINDS.has(kind)) {
+    const template = kind === "Pod" ? obj : podTemplate(kind, spec)
+    const templateMeta = isRecord(template?.metadata) ? template.metadata : {}
+    if (isRecord(templateMeta.labels)) refs.podLabels = toStringMap(templateMeta.labels)
+
+    const podSpec = isRecord(template?.spec) ? template.spec : {}
+    for (const container of containersOf(podSpec)) {
+      for (const source of asArray(container.envFrom)) {
+        if (isRecord(source.configMapRef)) addConfigRef(refs, "ConfigMap", source.configMapRef.name)
+        if (isRecord(source.secretRef)) addConfigRef(refs, "Secret", source.secretRef.name)
+      }
+      for (const env of asArray(container.env)) {
+        const valueFrom = isRecord(env.valueFrom) ? env.valueFrom : {}
+        if (isRecord(valueFrom.configMapKeyRef)) addConfigRef(refs, "ConfigMap", valueFrom.configMapKeyRef.name)
+        if (isRecord(valueFrom.secretKeyRef)) addConfigRef(refs, "Secret", valueFrom.secretKeyRef.name)
+      }
+    }
+    for (const volume of asArray(podSpec.volumes)) {
+      if (isRecord(volume.configMap)) addConfigRef(refs, "ConfigMap", volume.configMap.name)
+      if (isRecord(volume.secret)) addConfigRef(refs, "Secret", volume.secret.secretName)
+    }
+  }
+
+  if (kind === "Ingress") {
+    const backends: unknown[] = [spec.defaultBackend, spec.backend]
+    for (const rule of asArray(spec.rules)) {
+      const http = isRecord(rule.http) ? rule.http : {}
+      for (const path of asArray(http.paths)) backends.push(path.backend)
+    }
+    for (const backend of backends) {
+      if (!isRecord(backend)) continue
+      // networking.k8s.io/v1 uses backend.service.name; v1beta1 uses backend.serviceName
+      const serviceName = isRecord(backend.service) ? backend.service.name : backend.serviceName
+      if (typeof serviceName === "string" && !refs.serviceRefs.includes(serviceName)) {
+        refs.serviceRefs.push(serviceName)
+      }
+    }
+  }
+
+  return refs
+}
+
+// ── Helpers ──
+
+function collectEnvVars(
+  obj: YamlRecord,
+  kind: string,
+  resourceName: string,
+  content: string,
+  docStart: number,
+  fallbackLine: number,
+): EnvVarDeclaration[] {
+  const names: string[] = []
+  let keyStyle = false
+
+  if (WORKLOAD_KINDS.has(kind)) {
+    const spec = isRecord(obj.spec) ? obj.spec : {}
+    const template = kind === "Pod" ? obj : podTemplate(kind, spec)
+    const podSpec = isRecord(template?.spec) ? template.spec : {}
+    for (const container of containersOf(podSpec)) {
+      for (const env of asArray(container.env)) {
+        if (typeof env.name === "string") names.push(env.name)
+      }
+    }
+  } else if (kind === "ConfigMap" || kind === "Secret") {
+    keyStyle = true
+    for (const field of ["data", "binaryData", "stringData"]) {
+      const data = obj[field]
+      if (isRecord(data)) names.push(...Object.keys(data))
+    }
+  }
+
+  const seen = new Set<string>()
+  const decls: EnvVarDeclaration[] = []
+  for (const name of names) {
+    if (!ENV_VAR_NAME_RE.test(name) || seen.has(name)) continue
+    seen.add(name)
+    const pattern = keyStyle
+      ? new RegExp(`^\\s*["']?${name}["']?\\s*:`, "m")
+      : new RegExp(`name:\\s*["']?${name}["']?\\s*$`, "m")
+    decls.push({ name, resource: resourceName, line: findLineOf(content, pattern, docStart, fallbackLine) })
+  }
+  return decls
+}
+
+function podTemplate(kind: string, spec: YamlRecord): YamlRecord | undefined {
+  if (kind === "CronJob") {
+    const jobTemplate = isRecord(spec.jobTemplate) ? spec.jobTemplate : {}
+    const jobSpec = isRecord(jobTemplate.spec) ? jobTemplate.spec : {}
+    return isRecord(jobSpec.template) ? jobSpec.template : undefined
+  }
+  return isRecord(spec.template) ? spec.template : undefined
+}
+
+function containersOf(podSpec: YamlRecord): YamlRecord[] {
+  return [...asArray(podSpec.initContainers), ...asArray(podSpec.containers)]
+}
+
+function addConfigRef(refs: KubernetesRefs, kind: "ConfigMap" | "Secret", name: unknown): void {
+  if (typeof name !== "string") return
+  if (refs.configRefs.some((r) => r.kind === kind && r.name === name)) return
+  refs.configRefs.push({ kind, name })
+}
+
+function toStringMap(value: YamlRecord): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [k, v] of Object.entries(value)) {
+    if (v !== null && v !== undefined) result[k] = String(v)
+  }
+  return result
+}
+
+function asArray(value: unknown): YamlRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : []
+}
+
+function isRecord(value: unknown): value is YamlRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
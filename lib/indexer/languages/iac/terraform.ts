@@ -0,0 +1,226 @@
+/**
+ * Regex-based parser for Terraform configuration (.tf).
+ *
+ * Top-level blocks become entities named by their Terraform address, so that
+ * references inside other blocks can be resolved by name:
+ * - `resource "aws_lambda_function" "worker"` → resource `aws_lambda_function.worker`
+ * - `data "aws_ami" "ubuntu"` → resource `data.aws_ami.ubuntu`
+ * - `module "vpc"` → module `module.vpc`
+ * - `variable "region"` → variable `var.region` (doc from `description`)
+ *
+ * Env vars set by resources (Lambda `environment { variables = {...} }`,
+ * `env { name = "..." }` blocks, ECS container `environment` lists, app
+ * settings maps) become `variable` entities (see env-vars.ts). References
+ * between blocks are resolved per module directory by the cross-file infra
+ * pass.
+ */
+import { buildEnvVarEntity, ENV_VAR_NAME_RE } from "./env-vars"
+import type { EnvVarDeclaration } from "./env-vars"
+import { entityHash } from "../../entity-hash"
+import type { EntityKind, ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface TerraformParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+const BLOCK_RE = /^(resource|data|module|variable)\s+"([^"]+)"(?:\s+"([^"]+)")?\s*\{/
+
+/** Attributes holding a map of env var name → value */
+const ENV_MAP_RE = /\b(?:variables|app_settings|environment_variables|env_vars|env_variables)\s*=\s*\{/g
+/** Blocks/lists whose entries carry `name = "VAR"` */
+const ENV_NAMED_RE = /(?:\benv\s*\{|\benvironment\s*=\s*\[|"environment"\s*:\s*\[)/g
+
+export function parseTerraformFile(opts: TreeSitterOptions): TerraformParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const lines = opts.content.split("\n")
+  const cleaned = cleanHclLines(lines)
+
+  let depth = 0
+  for (let i = 0; i < lines.length; i++) {
+    const lineDepth = depth
+    depth += braceDelta(cleaned[i]!)
+    if (lineDepth !== 0) continue
+
+    const m = BLOCK_RE.exec(lines[i]!.trim())
+    if (!m || !/^\s*(?:resource|data|module|variable)\b/.test(cleaned[i]!)) continue
+
+    const endIdx = findBlockEnd(cleaned, i)
+    const [, blockType, first, second] = m
+    const { kind, name } = addressOf(blockType!, first!, second)
+    const bodyLines = lines.slice(i, Math.min(endIdx + 1, i + MAX_BODY_LINES))
+    const body = bodyLines.join("\n")
+
+    const entity: ParsedEntity = {
+      id: entityHash(opts.repoId, opts.filePath, kind, name),
+      kind,
+      name,
+      file_path: opts.filePath,
+      start_line: i + 1,
+      end_line: endIdx + 1,
+      language: "terraform",
+      signature: second ? `${blockType} "${first}" "${second}"` : `${blockType} "${first}"`,
+      body,
+    }
+
+    if (blockType === "variable") {
+      entity.doc = readStringAttribute(body, "description")
+      entity.return_type = /^\s*type\s*=\s*(.+)$/m.exec(body)?.[1]?.trim()
+    } else if (blockType === "module") {
+      entity.doc = readStringAttribute(body, "description")
+    }
+    entities.push(entity)
+
+    if (blockType === "resource") {
+      for (const decl of collectEnvVars(body, name, i + 1)) {
+        const envVar = buildEnvVarEntity(opts, "terraform", entity, decl)
+        entities.push(envVar.entity)
+        edges.push(envVar.edge)
+      }
+    }
+
+    // Skip to block end; depth is back to zero afterwards
+    depth = 0
+    i = endIdx
+  }
+
+  return { entities, edges }
+}
+
+// ── Helpers ──
+
+function addressOf(blockType: string, first: string, second?: string): { kind: EntityKind; name: string } {
+  switch (blockType) {
+    case "resource": return { kind: "resource", name: `${first}.${second ?? ""}` }
+    case "data": return { kind: "resource", name: `data.${first}.${second ?? ""}` }
+    case "module": return { kind: "module", name: `module.${first}` }
+    default: return { kind: "variable", name: `var.${first}` }
+  }
+}
+
+/** Env vars a resource body sets, with 1-based line numbers. */
+function collectEnvVars(body: string, resourceName: string, startLine: number): EnvVarDeclaration[] {
+  const decls: EnvVarDeclaration[] = []
+  const seen = new Set<string>()
+  const add = (name: string, offset: number) => {
+    if (!ENV_VAR_NAME_RE.test(name) || seen.has(name)) return
+    seen.add(name)
+    decls.push({ name, resource: resourceName, line: startLine + body.slice(0, offset).split("\n").length - 1 })
+  }
+
+  for (const m of Array.from(body.matchAll(ENV_MAP_RE))) {
+    const open = m.index! + m[0].length - 1
+    const inner = body.slice(open + 1, findClose(body, open))
+    for (const key of Array.from(inner.matchAll(/^[ \t]*"?([A-Za-z_][\w]*)"?\s*[=:]/gm))) {
+      add(key[1]!, open + 1 + key.index!)
+    }
+  }
+
+  for (const m of Array.from(body.matchAll(ENV_NAMED_RE))) {
+    const open = m.index! + m[0].length - 1
+    const inner = body.slice(open + 1, findClose(body, open))
+    for (const entry of Array.from(inner.matchAll(/"?name"?\s*[=:]\s*"([^"]+)"/g))) {
+      add(entry[1]!, open + 1 + entry.index!)
+    }
+  }
+
+  return decls.sort((a, b) => a.line - b.line)
+}
+
+/** Index of the bracket closing the one at `open` (`{` or `[`). */
+function findClose(text: string, open: number): number {
+  const openCh = text[open]
+  const closeCh = openCh === "[" ? "]" : "}"
+  let depth = 0
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === openCh) depth++
+    else if (text[i] === closeCh && --depth === 0) return i
+  }
+  return text.length
+}
+
+function findBlockEnd(cleaned: string[], startIdx: number): number {
+  let depth = 0
+  for (let i = startIdx; i < cleaned.length; i++) {
+    depth += braceDelta(cleaned[i]!)
+    if (depth <= 0 && cleaned[i]!.includes("}")) return i
+  }
+  return cleaned.length - 1
+}
+
+function braceDelta(line: string): number {
+  let delta = 0
+  for (const ch of line) {
+    if (ch === "{") delta++
+    else if (ch === "}") delta--
+  }
+  return delta
+}
+
+function readStringAttribute(body: string, attr: string): string | undefined {
+  const m = new RegExp(`^\\s*${attr}\\s*=\\s*"((?:[^"\\\\]|\\\\.)*)"`, "m").exec(body)
+  return m?.[1] || undefined
+}
+
+/**
+ * Blank comments, string contents and heredoc bodies so brace counting only
+ * sees HCL structure. Line count is preserved.
+ */
+function cleanHclLines(lines: string[]): string[] {
+  const out: string[] = []
+  let inBlockComment = false
+  let heredocEnd: string | undefined
+
+  for (const line of lines) {
+    if (heredocEnd) {
+      if (line.trim() === heredocEnd) heredocEnd = undefined
+      out.push("")
+      continue
+    }
+
+    let result = ""
+    let inString = false
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i]!
+      const next = line[i + 1]
+      if (inBlockComment) {
+        if (ch === "*" && next === "/") {
+          inBlockComment = false
+          i++
+        }
+        continue
+      }
+      if (inString) {
+        if (ch === "\\") i++
+        else if (ch === "\"") {
+          inString = false
+          result += "\""
+        }
+        continue
+      }
+      if (ch === "#" || (ch === "/" && next === "/")) break
+      if (ch === "/" && next === "*") {
+        inBlockComment = true
+        i++
+        continue
+      }
+      if (ch === "\"") {
+        inString = true
+        result += "\""
+        continue
+      }
+      const heredoc = /^<<-?\s*([A-Za-z_]\w*)\s*$/.exec(line.slice(i))
+      if (heredoc) {
+        heredocEnd = heredoc[1]
+        break
+      }
+      result += ch
+    }
+    out.push(result)
+  }
+
+  return out
+}
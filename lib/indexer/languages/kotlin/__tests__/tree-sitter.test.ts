@@ -0,0 +1,265 @@
+/**
+ * Unit tests for Kotlin regex-based parser.
+ *
+ * Tests extraction of classes, data classes, objects, interfaces,
+ * extension functions, members, supertype edges, imports and calls.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseKotlinFile } from "../tree-sitter"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+describe("parseKotlinFile", () => {
+  it("extracts top-level functions with signatures", () => {
+    const content = `package com.example
+
+fun greet(name: String): String {
+    return "Hello, $name"
+}
+
+private suspend fun load(id: Long, force: Boolean = false): User? =
+    repository.find(id)
+`
+    const result = parseKotlinFile({ filePath: "Greeting.kt", content, ...OPTS })
+
+    const funcs = result.entities.filter((e) => e.kind === "function")
+    expect(funcs).toHaveLength(2)
+    expect(funcs[0]!.name).toBe("greet")
+    expect(funcs[0]!.language).toBe("kotlin")
+    expect(funcs[0]!.start_line).toBe(3)
+    expect(funcs[0]!.end_line).toBe(5)
+    expect(funcs[0]!.signature).toBe("fun greet(name: String): String")
+    expect(funcs[0]!.exported).toBe(true)
+    expect(funcs[1]!.name).toBe("load")
+    expect(funcs[1]!.exported).toBe(false)
+    expect(funcs[1]!.is_async).toBe(true)
+    expect(funcs[1]!.parameter_count).toBe(2)
+    expect(funcs[1]!.return_type).toBe("User?")
+    expect(funcs[1]!.end_line).toBe(8)
+  })
+
+  it("extracts data classes with constructor properties as members", () => {
+    const content = `data class User(
+    val id: String,
+    val name: String,
+    var email: String? = null,
+)
+
+class Plain
+`
+    const result = parseKotlinFile({ filePath: "User.kt", content, ...OPTS })
+
+    const classes = result.entities.filter((e) => e.kind === "class")
+    expect(classes).toHaveLength(2)
+    expect(classes[0]!.name).toBe("User")
+    expect(classes[0]!.end_line).toBe(5)
+    expect(classes[0]!.members).toEqual(["id", "name", "email"])
+    expect(classes[0]!.parameter_count).toBe(3)
+    expect(classes[0]!.signature).toContain("data class User(")
+    expect(classes[1]!.name).toBe("Plain")
+    expect(classes[1]!.start_line).toBe(7)
+  })
+
+  it("maps objects, interfaces, enums and type aliases to entity kinds", () => {
+    const content = `interface Repository<T> {
+    fun find(id: String): T?
+}
+
+object Registry {
+    fun register() {}
+}
+
+enum class Color { RED, GREEN }
+
+typealias UserId = String
+`
+    const result = parseKotlinFile({ filePath: "Kinds.kt", content, ...OPTS })
+
+    const byName = new Map(result.entities.map((e) => [e.name, e]))
+    expect(byName.get("Repository")!.kind).toBe("interface")
+    expect(byName.get("Registry")!.kind).toBe("class")
+    expect(byName.get("Color")!.kind).toBe("enum")
+    expect(byName.get("UserId")!.kind).toBe("type")
+    expect(byName.get("find")!.kind).toBe("method")
+    expect(byName.get("find")!.parent).toBe("Repository")
+    expect(byName.get("register")!.parent).toBe("Registry")
+  })
+
+  it("attributes methods to their class and skips local declarations", () => {
+    const content = `class UserService(private val repo: UserRepository) {
+    private val cache = mutableMapOf<String, User>()
+
+    fun get(id: String): User {
+        val cached = cache[id]
+        fun local() = 1
+        return cached ?: fetch(id)
+    }
+
+    private fun fetch(id: String): User = repo.load(id)
+
+    companion object {
+        fun create(): UserService = UserService(DefaultRepo())
+    }
+}
+`
+    const result = parseKotlinFile({ filePath: "UserService.kt", content, ...OPTS })
+
+    const cls = result.entities.find((e) => e.kind === "class")!
+    expect(cls.end_line).toBe(15)
+    expect(cls.members).toEqual(["repo", "cache"])
+
+    const methods = result.entities.filter((e) => e.kind === "method")
+    expect(methods.map((m) => m.name)).toEqual(["get", "fetch", "create"])
+    expect(methods.every((m) => m.parent === "UserService")).toBe(true)
+    expect(result.entities.some((e) => e.name === "local" || e.name === "cached")).toBe(false)
+
+    const memberOf = result.edges.filter((e) => e.kind === "member_of")
+    expect(memberOf).toHaveLength(3)
+    expect(memberOf.every((e) => e.to_id === cls.id)).toBe(true)
+  })
+
+  it("extracts extension functions with their receiver as parent", () => {
+    const content = `class Money(val cents: Long)
+
+fun Money.format(): String = "$" + cents / 100
+
+fun <T> List<T>.second(): T = this[1]
+`
+    const result = parseKotlinFile({ filePath: "Ext.kt", content, ...OPTS })
+
+    const format = result.entities.find((e) => e.name === "format")!
+    expect(format.kind).toBe("function")
+    expect(format.parent).toBe("Money")
+    expect(format.signature).toBe("fun Money.format(): String")
+
+    const second = result.entities.find((e) => e.name === "second")!
+    expect(second.parent).toBe("List")
+
+    const money = result.entities.find((e) => e.name === "Money")!
+    expect(result.edges).toContainEqual(
+      expect.objectContaining({ from_id: format.id, to_id: money.id, kind: "member_of" })
+    )
+  })
+
+  it("creates extends edges for superclasses and implements edges for interfaces", () => {
+    const content = `interface Named
+interface Auditable : Named
+
+sealed class Shape : Named
+
+class Circle(val r: Double) : Shape(), Auditable, Comparable<Circle> {
+    override fun compareTo(other: Circle): Int = r.compareTo(other.r)
+}
+`
+    const result = parseKotlinFile({ filePath: "Shapes.kt", content, ...OPTS })
+
+    const circle = result.entities.find((e) => e.name === "Circle")!
+    const circleEdges = result.edges.filter((e) => e.from_id === circle.id)
+    expect(circleEdges.filter((e) => e.kind === "extends")).toHaveLength(1)
+    expect(circleEdges.filter((e) => e.kind === "implements")).toHaveLength(2)
+
+    const auditable = result.entities.find((e) => e.name === "Auditable")!
+    expect(result.edges.filter((e) => e.from_id === auditable.id && e.kind === "extends")).toHaveLength(1)
+
+    const shape = result.entities.find((e) => e.name === "Shape")!
+    expect(result.edges.filter((e) => e.from_id === shape.id && e.kind === "implements")).toHaveLength(1)
+  })
+
+  it("detects within-file call edges", () => {
+    const content = `fun validate(input: String): Boolean {
+    return input.isNotBlank()
+}
+
+fun process(input: String) {
+    if (validate(input)) {
+        save(input)
+    }
+}
+
+fun save(input: String) {}
+`
+    const result = parseKotlinFile({ filePath: "Flow.kt", content, ...OPTS })
+
+    const calls = result.edges.filter((e) => e.kind === "calls")
+    expect(calls).toHaveLength(2)
+    const process = result.entities.find((e) => e.name === "process")!
+    expect(calls.every((e) => e.from_id === process.id)).toBe(true)
+  })
+
+  it("creates import edges and skips the Kotlin/Java standard library", () => {
+    const content = `import com.example.data.UserRepository
+import kotlinx.coroutines.flow.Flow
+import kotlin.collections.List
+import java.util.UUID
+import com.example.util.*
+`
+    const result = parseKotlinFile({ filePath: "Imports.kt", content, ...OPTS })
+
+    const internal = result.edges.filter((e) => e.kind === "imports" && !e.is_external)
+    expect(internal).toHaveLength(3)
+    expect(internal[0]!.imported_symbols).toEqual(["UserRepository"])
+    expect(internal[2]!.import_type).toBe("namespace")
+
+    const external = result.edges.filter((e) => e.is_external)
+    expect(external.map((e) => e.package_name)).toContain("kotlinx.coroutines.flow")
+  })
+
+  it("extracts KDoc past annotations and records decorators", () => {
+    const content = `/**
+ * Persisted user profile shown on the account screen.
+ */
+@Serializable
+@Entity(tableName = "users")
+data class Profile(val id: String)
+
+@JvmStatic fun helper() {}
+`
+    const result = parseKotlinFile({ filePath: "Profile.kt", content, ...OPTS })
+
+    const profile = result.entities.find((e) => e.name === "Profile")!
+    expect(profile.doc).toBe("Persisted user profile shown on the account screen.")
+    expect(profile.decorators).toEqual(["@Serializable", "@Entity(tableName = \"users\")"])
+
+    const helper = result.entities.find((e) => e.name === "helper")!
+    expect(helper.kind).toBe("function")
+    expect(helper.decorators).toEqual(["@JvmStatic"])
+  })
+
+  it("ignores declarations inside strings and comments", () => {
+    const content = `// fun commented() {}
+val template = """
+    fun notReal() {}
+"""
+/* class Hidden */
+fun real() {}
+`
+    const result = parseKotlinFile({ filePath: "Strings.kt", content, ...OPTS })
+
+    const names = result.entities.map((e) => e.name)
+    expect(names).toContain("real")
+    expect(names).toContain("template")
+    expect(names).not.toContain("commented")
+    expect(names).not.toContain("notReal")
+    expect(names).not.toContain("Hidden")
+  })
+
+  it("computes complexity for functions", () => {
+    const content = `fun classify(n: Int): String {
+    return when {
+        n < 0 -> "negative"
+        n == 0 -> "zero"
+        else -> if (n > 100 && n % 2 == 0) "big-even" else "positive"
+    }
+}
+`
+    const result = parseKotlinFile({ filePath: "Classify.kt", content, ...OPTS })
+
+    const fn = result.entities.find((e) => e.name === "classify")!
+    expect(fn.complexity).toBeGreaterThan(2)
+    expect(fn.cognitive_complexity).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,30 @@
+/**
+ * Kotlin language plugin.
+ */
+import { runSCIPKotlin } from "./scip"
+import { parseKotlinFile } from "./tree-sitter"
+import type { LanguagePlugin, SCIPOptions, TreeSitterOptions } from "../types"
+
+export const kotlinPlugin: LanguagePlugin = {
+  id: "kotlin",
+  extensions: [".kt", ".kts"],
+
+  async runSCIP(opts: SCIPOptions) {
+    const allEntities: import("../../types").ParsedEntity[] = []
+    const allEdges: import("../../types").ParsedEdge[] = []
+    const allCoveredFiles: string[] = []
+
+    for (const root of opts.packageRoots) {
+      const result = await runSCIPKotlin(opts, root)
+      allEntities.push(...result.entities)
+      allEdges.push(...result.edges)
+      allCoveredFiles.push(...result.coveredFiles)
+    }
+
+    return { entities: allEntities, edges: allEdges, coveredFiles: allCoveredFiles }
+  },
+
+  async parseWithTreeSitter(opts: TreeSitterOptions) {
+    return parseKotlinFile(opts)
+  },
+}
@@ -0,0 +1,88 @@
+/**
+ * SCIP indexer for Kotlin.
+ *
+ * Prefers a standalone scip-kotlin binary when present, otherwise runs
+ * scip-java (which indexes Kotlin Gradle/Maven builds via semanticdb-kotlinc).
+ * Only .kt/.kts documents are kept so the Java plugin owns .java sources.
+ * Falls back gracefully if neither indexer is installed.
+ */
+import { execFile } from "node:child_process"
+import { existsSync, unlinkSync } from "node:fs"
+import { extname, join } from "node:path"
+import { promisify } from "node:util"
+
+import { parseSCIPOutput } from "../../scip-decoder"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import type { SCIPOptions } from "../types"
+
+const execFileAsync = promisify(execFile)
+
+const SCIP_TIMEOUT_MS = 10 * 60 * 1000
+
+/** Indexer binaries tried in order — first one that runs wins. */
+const KOTLIN_SCIP_BINARIES = ["scip-kotlin", "scip-java"]
+
+const KOTLIN_EXTENSIONS = new Set([".kt", ".kts"])
+
+export interface SCIPKotlinResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+  coveredFiles: string[]
+}
+
+/**
+ * Run scip-kotlin / scip-java on a workspace root and parse the output.
+ *
+ * Requires a Gradle (build.gradle.kts / build.gradle) or Maven (pom.xml)
+ * project marker — both indexers drive the build to collect semanticdb.
+ */
+export async function runSCIPKotlin(
+  opts: SCIPOptions,
+  workspaceRoot: string,
+): Promise<SCIPKotlinResult> {
+  const absRoot = join(opts.indexDir, workspaceRoot === "." ? "" : workspaceRoot)
+  const outputFile = join(absRoot, "index.scip")
+
+  const hasKotlinProject =
+    existsSync(join(absRoot, "build.gradle.kts")) ||
+    existsSync(join(absRoot, "build.gradle")) ||
+    existsSync(join(absRoot, "pom.xml"))
+
+  if (!hasKotlinProject) {
+    return { entities: [], edges: [], coveredFiles: [] }
+  }
+
+  const isIncluded = (relativePath: string): boolean =>
+    KOTLIN_EXTENSIONS.has(extname(relativePath).toLowerCase()) &&
+    (opts.isIncluded ? opts.isIncluded(relativePath) : true)
+
+  for (const binary of KOTLIN_SCIP_BINARIES) {
+    try {
+      await execFileAsync(binary, ["index", "--output", outputFile], {
+        cwd: absRoot,
+        timeout: SCIP_TIMEOUT_MS,
+        maxBuffer: 100 * 1024 * 1024,
+      })
+
+      if (!existsSync(outputFile)) continue
+
+      const result = parseSCIPOutput(outputFile, opts.repoId, "kotlin", isIncluded, opts.onArtifact)
+
+      // Clean up
+      try {
+        unlinkSync(outputFile)
+      } catch {
+        // ignore cleanup errors
+      }
+
+      return result
+    } catch (error: unknown) {
+      // Binary not installed or build failed — try the next indexer
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`[${binary}] Failed for ${absRoot}: ${message}`)
+    }
+  }
+
+  // No indexer succeeded — fall through to tree-sitter
+  return { entities: [], edges: [], coveredFiles: [] }
+}
@@ -0,0 +1,721 @@
+/**
+ * Regex-based parser for Kotlin source files (.kt / .kts).
+ *
+ * Extracts classes (incl. data/sealed/enum/annotation classes), objects,
+ * interfaces, top-level and member functions, extension functions,
+ * type aliases, and top-level properties. Detects extends/implements edges
+ * from supertype lists, import edges, and within-file call edges.
+ *
+ * Unlike the Java parser, declaration ranges are computed up front so that
+ * members are attributed to their innermost enclosing class/object and
+ * local declarations inside function bodies are ignored.
+ */
+import { classifyBoundary, extractExternalPackageName } from "../../boundary-classifier"
+import { computeComplexity } from "../../complexity"
+import { extractJSDocComment } from "../../doc-extractor"
+import { entityHash } from "../../entity-hash"
+import type { EntityKind, ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface KotlinParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+type KotlinDeclKind = "class" | "interface" | "object" | "enum" | "fun" | "typealias" | "property"
+
+interface KotlinDecl {
+  declKind: KotlinDeclKind
+  name: string
+  startIdx: number
+  endIdx: number
+  /** Index of the first annotation line above the declaration (for KDoc lookup) */
+  docAnchorIdx: number
+  modifiers: string[]
+  decorators: string[]
+  /** Declaration header (cleaned, joined) up to the body */
+  header: string
+}
+
+const MODIFIER_WORDS = [
+  "public", "private", "protected", "internal",
+  "open", "abstract", "sealed", "final", "override",
+  "data", "enum", "annotation", "inner", "value", "inline",
+  "suspend", "operator", "infix", "tailrec", "external",
+  "expect", "actual", "const", "lateinit", "companion", "fun",
+]
+const MODIFIERS = `(?:(?:${MODIFIER_WORDS.join("|")})\\s+)*`
+
+const LEADING_ANNOTATIONS = /^((?:@[\w.:]+(?:\([^)]*\))?\s+)+)/
+
+const CLASS_RE = new RegExp(`^(${MODIFIERS})(class|interface|object)\\s+(\\w+|\`[^\`]+\`)`)
+const FUN_RE = new RegExp(
+  `^(${MODIFIERS.replace("|fun", "")})fun\\s+(?:<[^>]*>\\s*)?(?:([\\w.]+(?:<.*?>)?\\??)\\.)?(\\w+|\`[^\`]+\`)\\s*\\(`
+)
+const TYPEALIAS_RE = new RegExp(`^(${MODIFIERS})typealias\\s+(\\w+)`)
+const PROPERTY_RE = new RegExp(`^(${MODIFIERS})(val|var)\\s+(?:<[^>]*>\\s*)?(?:([\\w.]+(?:<.*?>)?\\??)\\.)?(\\w+)`)
+
+/** Kotlin standard library / platform packages — not emitted as import edges. */
+const STDLIB_PREFIXES = ["kotlin.", "java.", "javax.", "jdk.", "sun."]
+
+export function parseKotlinFile(opts: TreeSitterOptions): KotlinParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const lines = opts.content.split("\n")
+  const cleaned = cleanKotlinLines(lines)
+
+  const fileId = entityHash(opts.repoId, opts.filePath, "file", opts.filePath)
+  detectKotlinImportEdges(cleaned, fileId, opts.repoId, edges)
+
+  // First pass: locate every declaration and its line range
+  const decls = collectDeclarations(lines, cleaned)
+
+  // Second pass: attribute declarations to their innermost enclosing declaration
+  const containers = decls.filter((d) => isContainer(d.declKind))
+  const declEntity = new Map<KotlinDecl, ParsedEntity>()
+
+  for (const decl of decls) {
+    const enclosing = findEnclosing(decls, decl)
+
+    // Local declarations inside function bodies are not graph entities
+    if (enclosing && enclosing.declKind === "fun") continue
+
+    const container = enclosing && isContainer(enclosing.declKind) ? enclosing : undefined
+
+    if (decl.declKind === "property") {
+      if (container) {
+        const containerEntity = declEntity.get(container)
+        // Constructor `val`/`var` lines are already recorded from the class header
+        if (containerEntity && !containerEntity.members?.includes(decl.name)) {
+          containerEntity.members = [...(containerEntity.members ?? []), decl.name]
+        }
+        continue
+      }
+      entities.push(buildPropertyEntity(opts, decl, lines))
+      continue
+    }
+
+    const entity = decl.declKind === "fun"
+      ? buildFunctionEntity(opts, decl, container)
+      : buildTypeEntity(opts, decl)
+
+    if (container) {
+      const containerEntity = declEntity.get(container)
+      entity.parent = container.name
+      if (containerEntity && entity.kind === "method") {
+        edges.push({ from_id: entity.id, to_id: containerEntity.id, kind: "member_of" })
+      }
+    }
+
+    fillBodyAndDoc(entity, decl, lines)
+    entities.push(entity)
+    declEntity.set(decl, entity)
+
+    if (isContainer(decl.declKind)) {
+      addSupertypeEdges(opts, decl, entity, edges)
+      const ctorMembers = extractConstructorProperties(decl.header)
+      if (ctorMembers.length > 0) entity.members = [...ctorMembers, ...(entity.members ?? [])]
+    }
+  }
+
+  // Extension functions: link to a receiver type declared in the same file
+  const typesByName = new Map<string, ParsedEntity>()
+  for (const decl of containers) {
+    const entity = declEntity.get(decl)
+    if (entity) typesByName.set(decl.name, entity)
+  }
+  for (const entity of entities) {
+    if (entity.kind !== "function" || !entity.parent) continue
+    const receiver = typesByName.get(entity.parent)
+    if (receiver) {
+      edges.push({ from_id: entity.id, to_id: receiver.id, kind: "member_of", extension: true })
+    }
+  }
+
+  detectKotlinCallEdges(entities, edges)
+
+  return { entities, edges }
+}
+
+// ── Declaration discovery ────────────────────────────────────────────────────
+
+function collectDeclarations(lines: string[], cleaned: string[]): KotlinDecl[] {
+  const decls: KotlinDecl[] = []
+
+  for (let i = 0; i < cleaned.length; i++) {
+    let trimmed = cleaned[i]!.trim()
+    if (!trimmed || trimmed.startsWith("*")) continue
+    if (trimmed.startsWith("import ") || trimmed.startsWith("package ")) continue
+
+    // Annotations above and on the same line as the declaration (original text, not cleaned)
+    const decorators = collectAnnotationsAbove(lines, cleaned, i)
+    const inline = trimmed.match(LEADING_ANNOTATIONS)
+    if (inline) {
+      const original = lines[i]!.trim().match(LEADING_ANNOTATIONS)
+      decorators.push(...(original ?? inline)[1]!.trim().split(/\s+(?=@)/))
+      trimmed = trimmed.slice(inline[0].length)
+    }
+    if (trimmed.startsWith("@")) continue
+
+    const docAnchorIdx = i - countAnnotationLinesAbove(cleaned, i)
+
+    const classMatch = trimmed.match(CLASS_RE)
+    if (classMatch) {
+      const modifiers = splitModifiers(classMatch[1]!)
+      // `companion object` bodies belong to the enclosing class
+      if (modifiers.includes("companion")) continue
+      const keyword = classMatch[2]!
+      const declKind: KotlinDeclKind = modifiers.includes("enum")
+        ? "enum"
+        : keyword === "interface" || modifiers.includes("annotation")
+          ? "interface"
+          : keyword === "object" ? "object" : "class"
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        declKind,
+        name: stripBackticks(classMatch[3]!),
+        startIdx: i,
+        endIdx,
+        docAnchorIdx,
+        modifiers,
+        decorators,
+        header: buildHeader(cleaned, i, endIdx),
+      })
+      continue
+    }
+
+    const funMatch = trimmed.match(FUN_RE)
+    if (funMatch) {
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        declKind: "fun",
+        name: stripBackticks(funMatch[3]!),
+        startIdx: i,
+        endIdx,
+        docAnchorIdx,
+        modifiers: splitModifiers(funMatch[1]!),
+        decorators,
+        header: buildHeader(cleaned, i, endIdx),
+      })
+      continue
+    }
+
+    const aliasMatch = trimmed.match(TYPEALIAS_RE)
+    if (aliasMatch) {
+      decls.push({
+        declKind: "typealias",
+        name: aliasMatch[2]!,
+        startIdx: i,
+        endIdx: i,
+        docAnchorIdx,
+        modifiers: splitModifiers(aliasMatch[1]!),
+        decorators,
+        header: trimmed,
+      })
+      continue
+    }
+
+    const propMatch = trimmed.match(PROPERTY_RE)
+    if (propMatch) {
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        declKind: "property",
+        name: propMatch[4]!,
+        startIdx: i,
+        endIdx,
+        docAnchorIdx,
+        modifiers: [...splitModifiers(propMatch[1]!), propMatch[2]!],
+        decorators,
+        header: trimmed,
+      })
+    }
+  }
+
+  return decls
+}
+
+/**
+ * Find the last line of a declaration starting at `startIdx`.
+ *
+ * Block-bodied declarations end at their matching `}`. Declarations without
+ * a body (abstract funs, `data class X(val a: Int)`, expression-bodied funs)
+ * end on the first line where parentheses are balanced and the statement does
+ * not continue onto the next line.
+ */
+function findDeclarationEnd(cleaned: string[], startIdx: number): number {
+  let parenDepth = 0
+  let braceDepth = 0
+  let foundOpen = false
+
+  for (let i = startIdx; i < cleaned.length; i++) {
+    const line = cleaned[i]!
+    for (const ch of line) {
+      if (ch === "(") parenDepth++
+      else if (ch === ")") parenDepth--
+      else if (ch === "{") {
+        braceDepth++
+        foundOpen = true
+      } else if (ch === "}") {
+        braceDepth--
+        if (foundOpen && braceDepth === 0) return i
+      }
+    }
+
+    if (!foundOpen && parenDepth <= 0 && !continuesOnNextLine(cleaned, i)) {
+      return i
+    }
+  }
+
+  return cleaned.length - 1
+}
+
+/** Whether the statement on line `idx` continues onto the following line. */
+function continuesOnNextLine(cleaned: string[], idx: number): boolean {
+  const trimmed = cleaned[idx]!.trim()
+  if (/(?:[,:=(.+\-*/]|->|&&|\|\||\?:)$/.test(trimmed)) return true
+
+  let next = idx + 1
+  while (next < cleaned.length && !cleaned[next]!.trim()) next++
+  if (next >= cleaned.length) return false
+
+  const nextTrimmed = cleaned[next]!.trim()
+  return /^(?:\{|:|=|\.|\?\.|\?:|where\b|->)/.test(nextTrimmed)
+}
+
+/** Join the declaration's header lines up to (not including) its body, minus annotations. */
+function buildHeader(cleaned: string[], startIdx: number, endIdx: number): string {
+  const text = cleaned.slice(startIdx, endIdx + 1).map((l) => l.trim()).join(" ").replace(LEADING_ANNOTATIONS, "")
+  let parenDepth = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === "(") parenDepth++
+    else if (ch === ")") parenDepth--
+    else if (parenDepth === 0 && (ch === "{" || (ch === "=" && text[i + 1] !== "=" && text[i - 1] !== "!"))) {
+      return text.slice(0, i).trim()
+    }
+  }
+  return text.trim()
+}
+
+// ── Entity construction ──────────────────────────────────────────────────────
+
+function buildTypeEntity(opts: TreeSitterOptions, decl: KotlinDecl): ParsedEntity {
+  const kind: EntityKind = decl.declKind === "enum"
+    ? "enum"
+    : decl.declKind === "interface"
+      ? "interface"
+      : decl.declKind === "typealias" ? "type" : "class"
+
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, kind, decl.name),
+    kind,
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.startIdx + 1,
+    language: "kotlin",
+    exported: isExported(decl.modifiers),
+    signature: normalizeWhitespace(decl.header),
+  }
+
+  const ctor = decl.declKind === "class" ? findParamList(decl.header, decl.name) : undefined
+  if (ctor) entity.parameter_count = countKotlinParams(ctor.params)
+  if (decl.decorators.length > 0) entity.decorators = decl.decorators
+
+  return entity
+}
+
+function buildFunctionEntity(
+  opts: TreeSitterOptions,
+  decl: KotlinDecl,
+  container: KotlinDecl | undefined,
+): ParsedEntity {
+  const headerMatch = decl.header.match(FUN_RE)
+  const receiver = headerMatch?.[2]?.replace(/<.*>/, "").replace(/\?$/, "")
+  const paramList = findParamList(decl.header, decl.name)
+  const params = paramList?.params ?? ""
+  const returnType = paramList ? extractReturnType(decl.header, paramList.closeIdx) : undefined
+  const sig = normalizeWhitespace(
+    `fun ${receiver ? `${headerMatch![2]}.` : ""}${decl.name}(${params})${returnType ? `: ${returnType}` : ""}`
+  )
+  const kind: EntityKind = container ? "method" : "function"
+
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, kind, decl.name, sig),
+    kind,
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.startIdx + 1,
+    language: "kotlin",
+    signature: sig,
+    exported: isExported(decl.modifiers),
+    is_async: decl.modifiers.includes("suspend") || undefined,
+    parameter_count: countKotlinParams(params),
+    return_type: returnType,
+  }
+  // Extension functions record their receiver type as the parent
+  if (receiver && !container) entity.parent = receiver
+  if (decl.decorators.length > 0) entity.decorators = decl.decorators
+
+  return entity
+}
+
+function buildPropertyEntity(opts: TreeSitterOptions, decl: KotlinDecl, lines: string[]): ParsedEntity {
+  const typeMatch = decl.header.match(new RegExp(`\\b${decl.name}\\s*:\\s*([^=]+?)\\s*(?:=|by\\b|$)`))
+  const propType = typeMatch?.[1]?.trim()
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, "variable", decl.name),
+    kind: "variable",
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.startIdx + 1,
+    end_line: decl.endIdx + 1,
+    language: "kotlin",
+    signature: normalizeWhitespace(decl.header),
+    exported: isExported(decl.modifiers),
+    return_type: propType,
+    body: lines.slice(decl.startIdx, decl.endIdx + 1).join("\n"),
+  }
+  if (decl.decorators.length > 0) entity.decorators = decl.decorators
+  return entity
+}
+
+function fillBodyAndDoc(entity: ParsedEntity, decl: KotlinDecl, lines: string[]): void {
+  entity.end_line = decl.endIdx + 1
+
+  // KDoc uses the same /** ... */ format as JSDoc; skip past annotation lines
+  entity.doc = extractJSDocComment(lines, decl.docAnchorIdx)
+
+  const bodyLines = lines.slice(decl.startIdx, Math.min(decl.endIdx + 1, decl.startIdx + MAX_BODY_LINES))
+  if (bodyLines.length === 0) return
+  entity.body = bodyLines.join("\n")
+
+  if (entity.kind === "function" || entity.kind === "method") {
+    const cx = computeComplexity(entity.body, "kotlin")
+    entity.complexity = cx.cyclomatic
+    entity.cognitive_complexity = cx.cognitive
+  }
+}
+
+// ── Edges ────────────────────────────────────────────────────────────────────
+
+/**
+ * Emit extends/implements edges from a supertype list.
+ *
+ * Kotlin does not distinguish the two syntactically; a supertype invoked with
+ * a constructor call (`Base()`) is a superclass, anything else is an interface.
+ * Interfaces always `extend` their super-interfaces.
+ */
+function addSupertypeEdges(
+  opts: TreeSitterOptions,
+  decl: KotlinDecl,
+  entity: ParsedEntity,
+  edges: ParsedEdge[],
+): void {
+  for (const supertype of extractSupertypes(decl.header, decl.name)) {
+    if (decl.declKind === "interface") {
+      const parentId = entityHash(opts.repoId, opts.filePath, "interface", supertype.name)
+      edges.push({ from_id: entity.id, to_id: parentId, kind: "extends" })
+    } else if (supertype.isClass) {
+      const parentId = entityHash(opts.repoId, opts.filePath, "class", supertype.name)
+      edges.push({ from_id: entity.id, to_id: parentId, kind: "extends" })
+    } else {
+      const ifaceId = entityHash(opts.repoId, opts.filePath, "interface", supertype.name)
+      edges.push({ from_id: entity.id, to_id: ifaceId, kind: "implements" })
+    }
+  }
+}
+
+/**
+ * Detect call edges by scanning function bodies for `name(` patterns
+ * matching known functions in the same file.
+ */
+function detectKotlinCallEdges(entities: ParsedEntity[], edges: ParsedEdge[]): void {
+  const callableMap = new Map<string, string>()
+  for (const e of entities) {
+    if (e.kind === "function" || e.kind === "method") callableMap.set(e.name, e.id)
+  }
+  if (callableMap.size === 0) return
+
+  const names = Array.from(callableMap.keys()).filter((n) => n.length > 1)
+  if (names.length === 0) return
+
+  const escapedNames = names.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  const callPattern = new RegExp(`\\b(${escapedNames.join("|")})\\s*\\(`, "g")
+
+  const edgeSet = new Set<string>()
+  for (const entity of entities) {
+    if (entity.kind !== "function" && entity.kind !== "method") continue
+    if (!entity.body) continue
+
+    const regex = new RegExp(callPattern.source, "g")
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(entity.body)) !== null) {
+      const calleeId = callableMap.get(match[1]!)
+      if (calleeId && calleeId !== entity.id) {
+        const edgeKey = `${entity.id}→${calleeId}`
+        if (!edgeSet.has(edgeKey)) {
+          edgeSet.add(edgeKey)
+          edges.push({ from_id: entity.id, to_id: calleeId, kind: "calls" })
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Detect Kotlin import statements and create import edges.
+ */
+function detectKotlinImportEdges(
+  cleaned: string[],
+  fileId: string,
+  repoId: string,
+  edges: ParsedEdge[],
+): void {
+  for (const line of cleaned) {
+    // import com.example.Foo [as Bar] | import com.example.*
+    const importMatch = line.trim().match(/^import\s+([\w.]+?)(\.\*)?(?:\s+as\s+(\w+))?\s*;?$/)
+    if (!importMatch) continue
+
+    const importPath = importMatch[1]!
+    if (STDLIB_PREFIXES.some((p) => importPath.startsWith(p))) continue
+
+    const isWildcard = !!importMatch[2]
+    const symbol = isWildcard ? "*" : importPath.split(".").pop() ?? importPath
+
+    // com.example.service.UserService → com/example/service/UserService.kt
+    const fileLikePath = isWildcard
+      ? importPath.replace(/\./g, "/")
+      : importPath.replace(/\./g, "/") + ".kt"
+
+    edges.push({
+      from_id: fileId,
+      to_id: entityHash(repoId, fileLikePath, "file", fileLikePath),
+      kind: "imports",
+      imported_symbols: [symbol],
+      import_type: isWildcard ? "namespace" : "value",
+      is_type_only: false,
+    })
+
+    // I-03: Capture external boundary metadata
+    const pkgName = extractExternalPackageName(importPath, "kotlin")
+    if (pkgName) {
+      edges.push({
+        from_id: fileId,
+        to_id: `external:${pkgName}`,
+        kind: "imports",
+        imported_symbols: [symbol],
+        import_type: isWildcard ? "namespace" : "value",
+        is_type_only: false,
+        is_external: true,
+        package_name: pkgName,
+        boundary_category: classifyBoundary(pkgName, "kotlin"),
+      })
+    }
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function isContainer(kind: KotlinDeclKind): boolean {
+  return kind === "class" || kind === "interface" || kind === "object" || kind === "enum"
+}
+
+/** Innermost declaration (other than `decl`) whose range contains decl's start line. */
+function findEnclosing(decls: KotlinDecl[], decl: KotlinDecl): KotlinDecl | undefined {
+  let best: KotlinDecl | undefined
+  for (const d of decls) {
+    if (d === decl) continue
+    if (d.startIdx < decl.startIdx && d.endIdx >= decl.startIdx) {
+      if (!best || d.startIdx > best.startIdx) best = d
+    }
+  }
+  return best
+}
+
+/** Kotlin declarations are public unless marked otherwise. */
+function isExported(modifiers: string[]): boolean {
+  return !modifiers.includes("private") && !modifiers.includes("internal") && !modifiers.includes("protected")
+}
+
+function splitModifiers(raw: string): string[] {
+  return raw.trim().split(/\s+/).filter(Boolean)
+}
+
+function stripBackticks(name: string): string {
+  return name.replace(/^`|`$/g, "")
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\(\s+/g, "(").replace(/\s+\)/g, ")").replace(/,\s*\)/g, ")").trim()
+}
+
+/** Collect `@Annotation` lines directly above line `idx`. */
+function collectAnnotationsAbove(lines: string[], cleaned: string[], idx: number): string[] {
+  const annotations: string[] = []
+  for (let i = idx - 1; i >= 0; i--) {
+    if (!cleaned[i]!.trim().startsWith("@")) break
+    annotations.unshift(lines[i]!.trim())
+  }
+  return annotations
+}
+
+function countAnnotationLinesAbove(cleaned: string[], idx: number): number {
+  let count = 0
+  for (let i = idx - 1; i >= 0 && cleaned[i]!.trim().startsWith("@"); i--) count++
+  return count
+}
+
+/** Locate the balanced (...) parameter list directly following `name`. */
+function findParamList(header: string, name: string): { params: string; closeIdx: number } | undefined {
+  const nameIdx = header.search(new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`))
+  if (nameIdx === -1) return undefined
+  const open = header.indexOf("(", nameIdx)
+  if (open === -1) return undefined
+  // Only a primary constructor / parameter list if nothing but type params sits between name and "("
+  const between = header.slice(nameIdx + name.length, open)
+  if (!/^\s*(?:<.*>)?\s*(?:(?:private|protected|internal|public)?\s*(?:@\w+\s*)*constructor)?\s*$/.test(between)) {
+    return undefined
+  }
+  const close = findMatchingParen(header, open)
+  return close === -1 ? undefined : { params: header.slice(open + 1, close).trim(), closeIdx: close }
+}
+
+function findMatchingParen(text: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "(") depth++
+    else if (text[i] === ")") {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return -1
+}
+
+function extractReturnType(header: string, closeIdx: number): string | undefined {
+  const rest = header.slice(closeIdx + 1).trim()
+  const match = rest.match(/^:\s*(.+?)\s*(?:where\b.*)?$/)
+  return match?.[1]?.trim() || undefined
+}
+
+/** Supertypes after the class header's `:` — e.g. `: Base(), Repo<T>, Closeable by delegate`. */
+function extractSupertypes(header: string, name: string): Array<{ name: string; isClass: boolean }> {
+  const nameIdx = header.indexOf(name)
+  if (nameIdx === -1) return []
+
+  // Skip type params and the primary constructor
+  let i = nameIdx + name.length
+  let angle = 0
+  let paren = 0
+  for (; i < header.length; i++) {
+    const ch = header[i]
+    if (ch === "<") angle++
+    else if (ch === ">") angle--
+    else if (ch === "(") paren++
+    else if (ch === ")") paren--
+    else if (ch === ":" && angle === 0 && paren === 0) break
+  }
+  if (i >= header.length) return []
+
+  const list = header.slice(i + 1).replace(/\bwhere\b.*$/, "")
+  return splitTopLevel(list)
+    .map((part) => part.replace(/\s+by\s+.*$/, "").trim())
+    .filter(Boolean)
+    .map((part) => ({
+      name: part.replace(/<.*$/, "").replace(/\(.*$/, "").split(".").pop()!.trim(),
+      isClass: /\)\s*$/.test(part),
+    }))
+    .filter((s) => s.name.length > 0 && s.name !== "Any")
+}
+
+/** `val`/`var` parameters of a primary constructor become class members. */
+function extractConstructorProperties(header: string): string[] {
+  const members: string[] = []
+  const re = /\b(?:val|var)\s+(\w+)\s*:/g
+  const open = header.indexOf("(")
+  if (open === -1) return members
+  const close = findMatchingParen(header, open)
+  const params = header.slice(open + 1, close === -1 ? undefined : close)
+  let match: RegExpExecArray | null
+  while ((match = re.exec(params)) !== null) members.push(match[1]!)
+  return members
+}
+
+/** Split on commas outside of <>, (), [] and {}. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ""
+  for (const ch of text) {
+    if (ch === "<" || ch === "(" || ch === "[" || ch === "{") depth++
+    else if (ch === ">" || ch === ")" || ch === "]" || ch === "}") depth--
+    if (ch === "," && depth === 0) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += ch
+    }
+  }
+  if (current.trim()) parts.push(current)
+  return parts
+}
+
+/** Count Kotlin function/constructor parameters. */
+function countKotlinParams(params: string): number {
+  if (!params.trim()) return 0
+  return splitTopLevel(params).filter((p) => p.trim().length > 0).length
+}
+
+/**
+ * Blank out string literals and comments while preserving line count,
+ * so structural regexes and brace matching do not trip over them.
+ */
+function cleanKotlinLines(lines: string[]): string[] {
+  const result: string[] = []
+  let inBlockComment = false
+  let inRawString = false
+
+  for (const line of lines) {
+    let out = ""
+    let i = 0
+    while (i < line.length) {
+      if (inBlockComment) {
+        const end = line.indexOf("*/", i)
+        if (end === -1) { i = line.length; break }
+        i = end + 2
+        inBlockComment = false
+        continue
+      }
+      if (inRawString) {
+        const end = line.indexOf('"""', i)
+        if (end === -1) { i = line.length; break }
+        i = end + 3
+        inRawString = false
+        out += '""'
+        continue
+      }
+      const rest = line.slice(i)
+      if (rest.startsWith("//")) break
+      if (rest.startsWith("/*")) { inBlockComment = true; i += 2; continue }
+      if (rest.startsWith('"""')) { inRawString = true; i += 3; continue }
+      const ch = line[i]!
+      if (ch === '"' || ch === "'") {
+        // Skip a regular string/char literal
+        let j = i + 1
+        while (j < line.length && line[j] !== ch) {
+          if (line[j] === "\\") j++
+          j++
+        }
+        out += ch + ch
+        i = j + 1
+        continue
+      }
+      out += ch
+      i++
+    }
+    result.push(out)
+  }
+
+  return result
+}
@@ -49,7 +49,7 @@ export async function runSCIPPhp(
       return { entities: [], edges: [], coveredFiles: [] }
     }
 
-    const result = parseSCIPOutput(outputFile, opts.repoId, "php", opts.isIncluded)
+    const result = parseSCIPOutput(outputFile, opts.repoId, "php", opts.isIncluded, opts.onArtifact)
 
     try {
       unlinkSync(outputFile)
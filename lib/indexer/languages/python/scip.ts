@@ -61,7 +61,7 @@ export async function runSCIPPython(
       return { entities: [], edges: [], coveredFiles: [] }
     }
 
-    const result = parseSCIPOutput(outputFile, opts.repoId, "python", opts.isIncluded)
+    const result = parseSCIPOutput(outputFile, opts.repoId, "python", opts.isIncluded, opts.onArtifact)
 
     // Clean up
     try {
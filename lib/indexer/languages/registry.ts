@@ -58,29 +58,39 @@ export async function initializeRegistry(): Promise<void> {
   if (initialized) return
   initialized = true
 
-  const [ts, py, go, java, c, cpp, csharp, php, ruby, rust] = await Promise.all([
+  const [ts, py, go, java, kotlin, swift, c, cpp, csharp, php, ruby, rust, sql, iac, contracts] = await Promise.all([
     import("./typescript/index"),
     import("./python/index"),
     import("./go/index"),
     import("./java/index"),
+    import("./kotlin/index"),
+    import("./swift/index"),
     import("./c/index"),
     import("./cpp/index"),
     import("./csharp/index"),
     import("./php/index"),
     import("./ruby/index"),
     import("./rust/index"),
+    import("./sql/index"),
+    import("./iac/index"),
+    import("./contracts/index"),
   ])
 
   registerPlugin(ts.typescriptPlugin)
   registerPlugin(py.pythonPlugin)
   registerPlugin(go.goPlugin)
   registerPlugin(java.javaPlugin)
+  registerPlugin(kotlin.kotlinPlugin)
+  registerPlugin(swift.swiftPlugin)
   registerPlugin(c.cPlugin)
   registerPlugin(cpp.cppPlugin)
   registerPlugin(csharp.csharpPlugin)
   registerPlugin(php.phpPlugin)
   registerPlugin(ruby.rubyPlugin)
   registerPlugin(rust.rustPlugin)
+  registerPlugin(sql.sqlPlugin)
+  registerPlugin(iac.iacPlugin)
+  registerPlugin(contracts.contractsPlugin)
 }
 
 /** Reset registry state (for testing). */
@@ -46,7 +46,7 @@ export async function runSCIPRuby(
       return { entities: [], edges: [], coveredFiles: [] }
     }
 
-    const result = parseSCIPOutput(outputFile, opts.repoId, "ruby", opts.isIncluded)
+    const result = parseSCIPOutput(outputFile, opts.repoId, "ruby", opts.isIncluded, opts.onArtifact)
 
     try {
       unlinkSync(outputFile)
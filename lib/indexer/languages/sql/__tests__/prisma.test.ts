@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the Prisma schema parser.
+ *
+ * Tests extraction of models as tables, scalar fields as columns,
+ * relation fields as references edges, enums, attributes and doc comments.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parsePrismaSchema } from "../prisma"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+const SCHEMA = `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+/// A registered account.
+model User {
+  id        String   @id @default(uuid())
+  /// Login email, unique per account.
+  email     String   @unique
+  role      Role     @default(USER)
+  posts     Post[]
+  createdAt DateTime @default(now()) @map("created_at")
+
+  @@map("users")
+}
+
+model Post {
+  id       Int     @id @default(autoincrement())
+  title    String  // shown in listings
+  tags     String[]
+  author   User    @relation(fields: [authorId], references: [id])
+  authorId String
+}
+
+enum Role {
+  USER
+  ADMIN
+}
+`
+
+describe("parsePrismaSchema", () => {
+  it("maps models to tables and scalar fields to columns", () => {
+    const result = parsePrismaSchema({ filePath: "prisma/schema.prisma", content: SCHEMA, ...OPTS })
+
+    const tables = result.entities.filter((e) => e.kind === "table")
+    expect(tables.map((t) => t.name)).toEqual(["User", "Post"])
+    expect(tables[0]!.language).toBe("prisma")
+    expect(tables[0]!.start_line).toBe(7)
+    expect(tables[0]!.end_line).toBe(16)
+    expect(tables[0]!.members).toEqual(["id", "email", "role", "createdAt"])
+    expect(tables[0]!.decorators).toEqual(["@@map(\"users\")"])
+    expect(tables[0]!.doc).toBe("A registered account.")
+
+    const postColumns = result.entities.filter((e) => e.kind === "column" && e.parent === "Post")
+    expect(postColumns.map((c) => c.name)).toEqual(["id", "title", "tags", "authorId"])
+    expect(postColumns[2]!.return_type).toBe("String[]")
+  })
+
+  it("records field attributes and docs on columns", () => {
+    const result = parsePrismaSchema({ filePath: "prisma/schema.prisma", content: SCHEMA, ...OPTS })
+
+    const byName = new Map(
+      result.entities.filter((e) => e.parent === "User").map((e) => [e.name, e])
+    )
+    expect(byName.get("createdAt")!.decorators).toEqual(["@default(now())", "@map(\"created_at\")"])
+    expect(byName.get("email")!.doc).toBe("Login email, unique per account.")
+    expect(byName.get("email")!.start_line).toBe(10)
+    expect(byName.get("role")!.return_type).toBe("Role")
+  })
+
+  it("turns relation fields into references edges instead of columns", () => {
+    const result = parsePrismaSchema({ filePath: "prisma/schema.prisma", content: SCHEMA, ...OPTS })
+
+    const user = result.entities.find((e) => e.name === "User")!
+    const post = result.entities.find((e) => e.name === "Post")!
+    expect(result.entities.some((e) => e.kind === "column" && (e.name === "posts" || e.name === "author"))).toBe(false)
+
+    const refs = result.edges.filter((e) => e.kind === "references")
+    expect(refs).toContainEqual(expect.objectContaining({ from_id: user.id, to_id: post.id }))
+    expect(refs).toContainEqual(expect.objectContaining({ from_id: post.id, to_id: user.id, relation_field: "author" }))
+
+    const memberOf = result.edges.filter((e) => e.kind === "member_of" && e.to_id === post.id)
+    expect(memberOf).toHaveLength(4)
+  })
+
+  it("extracts enums and skips datasource/generator blocks", () => {
+    const result = parsePrismaSchema({ filePath: "prisma/schema.prisma", content: SCHEMA, ...OPTS })
+
+    const role = result.entities.find((e) => e.kind === "enum")!
+    expect(role.name).toBe("Role")
+    expect(role.members).toEqual(["USER", "ADMIN"])
+    expect(result.entities.some((e) => e.name === "db")).toBe(false)
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the SQL migration parser.
+ *
+ * Tests extraction of tables, columns, views, stored functions and
+ * ALTER TABLE columns, plus comment/string handling and doc comments.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseSqlFile } from "../tree-sitter"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+describe("parseSqlFile", () => {
+  it("extracts tables with their columns and skips table constraints", () => {
+    const content = `CREATE TABLE IF NOT EXISTS public.users (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    email varchar(255) NOT NULL UNIQUE,
+    "displayName" text,
+    created_at timestamp with time zone DEFAULT now(),
+    CONSTRAINT users_email_check CHECK (email <> ''),
+    UNIQUE (email, "displayName")
+);
+`
+    const result = parseSqlFile({ filePath: "migrations/001_init.sql", content, ...OPTS })
+
+    const table = result.entities.find((e) => e.kind === "table")!
+    expect(table.name).toBe("users")
+    expect(table.language).toBe("sql")
+    expect(table.start_line).toBe(1)
+    expect(table.end_line).toBe(8)
+    expect(table.signature).toBe("CREATE TABLE public.users")
+    expect(table.members).toEqual(["id", "email", "displayName", "created_at"])
+
+    const columns = result.entities.filter((e) => e.kind === "column")
+    expect(columns.map((c) => c.return_type)).toEqual([
+      "uuid",
+      "varchar(255)",
+      "text",
+      "timestamp with time zone",
+    ])
+    expect(columns[1]!.start_line).toBe(3)
+    expect(columns.every((c) => c.parent === "users")).toBe(true)
+
+    const memberOf = result.edges.filter((e) => e.kind === "member_of")
+    expect(memberOf).toHaveLength(4)
+    expect(memberOf.every((e) => e.to_id === table.id)).toBe(true)
+  })
+
+  it("gives same-named columns in different tables distinct IDs", () => {
+    const content = `CREATE TABLE orgs (id bigint PRIMARY KEY);
+CREATE TABLE teams (id bigint PRIMARY KEY, org_id bigint REFERENCES orgs(id));
+`
+    const result = parseSqlFile({ filePath: "schema.sql", content, ...OPTS })
+
+    const ids = result.entities.filter((e) => e.kind === "column" && e.name === "id")
+    expect(ids).toHaveLength(2)
+    expect(ids[0]!.id).not.toBe(ids[1]!.id)
+    expect(ids.map((c) => c.parent)).toEqual(["orgs", "teams"])
+  })
+
+  it("extracts columns added by ALTER TABLE", () => {
+    const content = `ALTER TABLE "User" ADD COLUMN "avatarUrl" TEXT,
+    ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP(3) NOT NULL,
+    ADD CONSTRAINT user_email_key UNIQUE (email);
+
+ALTER TABLE "User" DROP COLUMN legacy;
+`
+    const result = parseSqlFile({ filePath: "migrations/002/migration.sql", content, ...OPTS })
+
+    const columns = result.entities.filter((e) => e.kind === "column")
+    expect(columns.map((c) => c.name)).toEqual(["avatarUrl", "last_seen_at"])
+    expect(columns[1]!.start_line).toBe(2)
+    expect(columns[1]!.return_type).toBe("TIMESTAMP(3)")
+    expect(columns.every((c) => c.parent === "User")).toBe(true)
+    // The table lives in an earlier migration — linked by the cross-file pass
+    expect(result.edges).toHaveLength(0)
+  })
+
+  it("extracts views and stored functions", () => {
+    const content = `-- Active users with their latest order.
+CREATE OR REPLACE MATERIALIZED VIEW active_users AS
+  SELECT u.id, o.total
+  FROM users u
+  JOIN orders o ON o.user_id = u.id;
+
+CREATE FUNCTION archive_user(uid uuid, reason text) RETURNS void AS $$
+BEGIN
+  UPDATE users SET archived = true WHERE id = uid;
+  INSERT INTO audit_log (user_id, note) VALUES (uid, reason);
+END;
+$$ LANGUAGE plpgsql;
+`
+    const result = parseSqlFile({ filePath: "views.sql", content, ...OPTS })
+
+    const view = result.entities.find((e) => e.kind === "view")!
+    expect(view.name).toBe("active_users")
+    expect(view.signature).toBe("CREATE MATERIALIZED VIEW active_users")
+    expect(view.doc).toBe("Active users with their latest order.")
+    expect(view.body).toContain("JOIN orders")
+
+    const fn = result.entities.find((e) => e.kind === "function")!
+    expect(fn.name).toBe("archive_user")
+    expect(fn.start_line).toBe(7)
+    expect(fn.end_line).toBe(12)
+    expect(fn.parameter_count).toBe(2)
+    expect(fn.return_type).toBe("void")
+    expect(fn.body).toContain("INSERT INTO audit_log")
+  })
+
+  it("ignores statements inside comments and string literals", () => {
+    const content = `/* CREATE TABLE hidden (id int); */
+-- CREATE TABLE commented (id int);
+INSERT INTO notes (body) VALUES ('CREATE TABLE fake (id int); drop it');
+CREATE TABLE real_table (note text DEFAULT 'a;b');
+`
+    const result = parseSqlFile({ filePath: "seed.sql", content, ...OPTS })
+
+    const tables = result.entities.filter((e) => e.kind === "table")
+    expect(tables.map((t) => t.name)).toEqual(["real_table"])
+    const column = result.entities.find((e) => e.kind === "column")!
+    expect(column.signature).toBe("note text DEFAULT 'a;b'")
+    expect(column.return_type).toBe("text")
+  })
+
+  it("handles MySQL-style quoting and table options", () => {
+    const content = "CREATE TABLE `order_items` (\n  `id` INT UNSIGNED AUTO_INCREMENT,\n  `sku` VARCHAR(64),\n  PRIMARY KEY (`id`)\n) ENGINE=InnoDB;\n"
+    const result = parseSqlFile({ filePath: "mysql.sql", content, ...OPTS })
+
+    const table = result.entities.find((e) => e.kind === "table")!
+    expect(table.name).toBe("order_items")
+    expect(table.members).toEqual(["id", "sku"])
+    const id = result.entities.find((e) => e.kind === "column" && e.name === "id")!
+    expect(id.return_type).toBe("INT UNSIGNED")
+  })
+})
@@ -0,0 +1,27 @@
+/**
+ * SQL schema plugin.
+ *
+ * Covers raw SQL migrations (.sql) and Prisma schemas (.prisma). Neither has
+ * a SCIP indexer, so runSCIP covers no files and every file goes through the
+ * regex-based parsers, which emit table/view/column entities for the
+ * cross-file table pass to link code against.
+ */
+import { parsePrismaSchema } from "./prisma"
+import { parseSqlFile } from "./tree-sitter"
+import type { LanguagePlugin, SCIPOptions, TreeSitterOptions } from "../types"
+
+export const sqlPlugin: LanguagePlugin = {
+  id: "sql",
+  extensions: [".sql", ".prisma"],
+
+  async runSCIP(_opts: SCIPOptions) {
+    return { entities: [], edges: [], coveredFiles: [] }
+  },
+
+  async parseWithTreeSitter(opts: TreeSitterOptions) {
+    if (opts.filePath.endsWith(".prisma")) {
+      return parsePrismaSchema(opts)
+    }
+    return parseSqlFile(opts)
+  },
+}
@@ -0,0 +1,194 @@
+/**
+ * Regex-based parser for Prisma schema files (schema.prisma).
+ *
+ * Models become `table` entities (and `view` blocks become `view` entities);
+ * their scalar fields become `column` entities linked with member_of edges.
+ * Relation fields are not columns in the database, so a field whose type is
+ * another model produces a `references` edge between the two tables instead.
+ * Enums become `enum` entities. Model and field attributes (`@@map`, `@id`,
+ * `@map`, `@default(...)`) are recorded as decorators — the cross-file table
+ * pass reads `@@map` to match raw SQL against the physical table name.
+ */
+import { extractDocComment } from "../../doc-extractor"
+import { entityHash } from "../../entity-hash"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface PrismaParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+interface PrismaBlock {
+  keyword: string
+  name: string
+  startIdx: number
+  endIdx: number
+}
+
+const BLOCK_RE = /^\s*(model|view|enum|type|datasource|generator)\s+(\w+)\s*\{/
+const FIELD_RE = /^(\w+)\s+(\w+(?:\.\w+)?)(\[\])?(\?)?(?:\s+(.*))?$/
+
+export function parsePrismaSchema(opts: TreeSitterOptions): PrismaParseResult {
+  const lines = opts.content.split("\n")
+  const cleaned = lines.map(stripLineComment)
+  const blocks = collectBlocks(cleaned)
+
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const language = "prisma"
+
+  // Relation targets must be known before fields are classified
+  const tableIds = new Map<string, string>()
+  for (const block of blocks) {
+    if (block.keyword === "model" || block.keyword === "view") {
+      tableIds.set(block.name, entityHash(opts.repoId, opts.filePath, block.keyword === "model" ? "table" : "view", block.name))
+    }
+  }
+
+  for (const block of blocks) {
+    if (block.keyword === "datasource" || block.keyword === "generator") continue
+
+    const bodyLines = cleaned.slice(block.startIdx + 1, block.endIdx)
+    const body = lines.slice(block.startIdx, Math.min(block.endIdx + 1, block.startIdx + MAX_BODY_LINES)).join("\n")
+    const doc = extractDocComment(lines, block.startIdx, language)
+
+    if (block.keyword === "enum") {
+      entities.push({
+        id: entityHash(opts.repoId, opts.filePath, "enum", block.name),
+        kind: "enum",
+        name: block.name,
+        file_path: opts.filePath,
+        start_line: block.startIdx + 1,
+        end_line: block.endIdx + 1,
+        language,
+        signature: `enum ${block.name}`,
+        members: bodyLines.map((l) => /^\s*(\w+)/.exec(l)?.[1]).filter((v): v is string => !!v),
+        body,
+        doc,
+      })
+      continue
+    }
+
+    const isTable = block.keyword !== "type"
+    const tableId = tableIds.get(block.name)
+    const members: string[] = []
+    const decorators: string[] = []
+    const referenced = new Set<string>()
+
+    for (let offset = 0; offset < bodyLines.length; offset++) {
+      const text = bodyLines[offset]!.trim()
+      if (!text) continue
+      if (text.startsWith("@@")) {
+        decorators.push(...extractAttributes(text))
+        continue
+      }
+
+      const m = FIELD_RE.exec(text)
+      if (!m) continue
+      const [, fieldName, fieldType, list, optional, rest] = m
+      const targetId = tableIds.get(fieldType!)
+
+      if (targetId) {
+        if (tableId && targetId !== tableId && !referenced.has(targetId)) {
+          referenced.add(targetId)
+          edges.push({ from_id: tableId, to_id: targetId, kind: "references", relation_field: fieldName })
+        }
+        continue
+      }
+
+      members.push(fieldName!)
+      if (!isTable) continue
+
+      const lineIdx = block.startIdx + 1 + offset
+      const fieldDecorators = extractAttributes(rest ?? "")
+      const column: ParsedEntity = {
+        id: entityHash(opts.repoId, opts.filePath, "column", `${block.name}.${fieldName}`),
+        kind: "column",
+        name: fieldName!,
+        file_path: opts.filePath,
+        start_line: lineIdx + 1,
+        end_line: lineIdx + 1,
+        language,
+        parent: block.name,
+        signature: text.replace(/\s+/g, " "),
+        return_type: `${fieldType}${list ?? ""}${optional ?? ""}`,
+        doc: extractDocComment(lines, lineIdx, language),
+        ...(fieldDecorators.length > 0 && { decorators: fieldDecorators }),
+      }
+      entities.push(column)
+      if (tableId) edges.push({ from_id: column.id, to_id: tableId, kind: "member_of" })
+    }
+
+    entities.push({
+      id: tableId ?? entityHash(opts.repoId, opts.filePath, "type", block.name),
+      kind: block.keyword === "model" ? "table" : block.keyword === "view" ? "view" : "type",
+      name: block.name,
+      file_path: opts.filePath,
+      start_line: block.startIdx + 1,
+      end_line: block.endIdx + 1,
+      language,
+      signature: `${block.keyword} ${block.name}`,
+      members,
+      body,
+      doc,
+      ...(decorators.length > 0 && { decorators }),
+    })
+  }
+
+  return { entities, edges }
+}
+
+/** Find top-level blocks; Prisma blocks don't nest, so the first closing brace ends a block. */
+function collectBlocks(cleaned: string[]): PrismaBlock[] {
+  const blocks: PrismaBlock[] = []
+  for (let i = 0; i < cleaned.length; i++) {
+    const m = BLOCK_RE.exec(cleaned[i]!)
+    if (!m) continue
+    let end = i
+    if (!/\}\s*$/.test(cleaned[i]!)) {
+      end = i + 1
+      while (end < cleaned.length - 1 && !cleaned[end]!.trim().startsWith("}")) end++
+    }
+    blocks.push({ keyword: m[1]!, name: m[2]!, startIdx: i, endIdx: end })
+    i = end
+  }
+  return blocks
+}
+
+/** Split `@id @default(now()) @map("created_at")` into individual attributes. */
+function extractAttributes(text: string): string[] {
+  const attrs: string[] = []
+  let i = text.indexOf("@")
+  while (i !== -1 && i < text.length) {
+    let j = i
+    while (j < text.length && text[j] === "@") j++
+    while (j < text.length && /[\w.]/.test(text[j]!)) j++
+    if (text[j] === "(") {
+      let depth = 0
+      for (; j < text.length; j++) {
+        if (text[j] === "(") depth++
+        else if (text[j] === ")" && --depth === 0) {
+          j++
+          break
+        }
+      }
+    }
+    attrs.push(text.slice(i, j))
+    i = text.indexOf("@", j)
+  }
+  return attrs
+}
+
+/** Remove `//` comments (including `///` docs) outside of string literals. */
+function stripLineComment(line: string): string {
+  let inString = false
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (ch === "\\" && inString) i++
+    else if (ch === "\"") inString = !inString
+    else if (!inString && ch === "/" && line[i + 1] === "/") return line.slice(0, i)
+  }
+  return line
+}
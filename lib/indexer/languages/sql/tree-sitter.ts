@@ -0,0 +1,358 @@
+/**
+ * Regex-based parser for SQL schema and migration files (.sql).
+ *
+ * Extracts tables (CREATE TABLE), views (CREATE [MATERIALIZED] VIEW),
+ * columns (from CREATE TABLE bodies and ALTER TABLE ... ADD COLUMN) and
+ * stored functions/procedures. Columns are linked to their table with
+ * member_of edges when the table is created in the same file.
+ *
+ * Links that span files — columns added to a table created by an earlier
+ * migration, REFERENCES foreign keys, the tables a view selects from — are
+ * resolved later by the cross-file table pass (cross-file-tables.ts).
+ */
+import { extractSqlDocComment } from "../../doc-extractor"
+import { entityHash } from "../../entity-hash"
+import type { ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface SqlParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+interface SqlStatement {
+  /** Statement text with comments and string contents blanked */
+  text: string
+  /** Offset of the statement's first character in the file */
+  offset: number
+}
+
+const IDENT = "(?:\"[^\"]+\"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)"
+const QNAME = `${IDENT}(?:\\s*\\.\\s*${IDENT})*`
+
+const CREATE_TABLE_RE = new RegExp(
+  `^CREATE\\s+(?:OR\\s+REPLACE\\s+)?(?:(?:GLOBAL|LOCAL)\\s+)?(?:(?:TEMP|TEMPORARY|UNLOGGED)\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QNAME})\\s*(\\(|AS\\b)`,
+  "i"
+)
+const CREATE_VIEW_RE = new RegExp(
+  `^CREATE\\s+(?:OR\\s+REPLACE\\s+)?(?:(?:TEMP|TEMPORARY)\\s+)?(?:RECURSIVE\\s+)?(MATERIALIZED\\s+)?VIEW\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QNAME})`,
+  "i"
+)
+const CREATE_FUNCTION_RE = new RegExp(
+  `^CREATE\\s+(?:OR\\s+REPLACE\\s+)?(FUNCTION|PROCEDURE)\\s+(${QNAME})\\s*\\(`,
+  "i"
+)
+const ALTER_TABLE_RE = new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${QNAME})\\s+`, "i")
+const ADD_COLUMN_RE = /^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?/i
+const COLUMN_DEF_RE = new RegExp(`^(${IDENT})\\s+(\\S[\\s\\S]*)$`)
+
+/** Table-level constraint clauses that look like column definitions */
+const TABLE_CONSTRAINT_RE = /^(?:CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|CHECK|EXCLUDE|INDEX|KEY|FULLTEXT|SPATIAL|LIKE|PERIOD)\b/i
+
+/** Keywords that end the type portion of a column definition */
+const COLUMN_CONSTRAINT_RE =
+  /\s+(?:NOT\s+NULL|NULL|DEFAULT|PRIMARY|REFERENCES|UNIQUE|CHECK|CONSTRAINT|GENERATED|COLLATE|AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|ON\s+UPDATE|COMMENT)\b/i
+
+export function parseSqlFile(opts: TreeSitterOptions): SqlParseResult {
+  const lines = opts.content.split("\n")
+  const cleaned = cleanSql(opts.content)
+  const lineStarts = computeLineStarts(opts.content)
+  const lineAt = (offset: number) => findLineIdx(lineStarts, offset)
+
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const seenIds = new Set<string>()
+  const tablesByName = new Map<string, ParsedEntity>()
+
+  const addEntity = (entity: ParsedEntity): boolean => {
+    if (seenIds.has(entity.id)) return false
+    seenIds.add(entity.id)
+    entities.push(entity)
+    return true
+  }
+
+  const addColumn = (table: string, def: string, offset: number, endOffset: number): void => {
+    const m = COLUMN_DEF_RE.exec(def)
+    if (!m) return
+    const name = unquoteIdentifier(m[1]!)
+    const original = normalizeWhitespace(opts.content.slice(offset, endOffset))
+    const column: ParsedEntity = {
+      id: entityHash(opts.repoId, opts.filePath, "column", `${table}.${name}`),
+      kind: "column",
+      name,
+      file_path: opts.filePath,
+      start_line: lineAt(offset) + 1,
+      end_line: lineAt(endOffset) + 1,
+      language: "sql",
+      parent: table,
+      signature: original,
+      return_type: extractColumnType(original.slice(m[1]!.length).trim()),
+    }
+    if (!addEntity(column)) return
+
+    const tableEntity = tablesByName.get(table.toLowerCase())
+    if (tableEntity) {
+      tableEntity.members = [...(tableEntity.members ?? []), name]
+      edges.push({ from_id: column.id, to_id: tableEntity.id, kind: "member_of" })
+    }
+  }
+
+  for (const stmt of splitStatements(cleaned)) {
+    const startIdx = lineAt(stmt.offset)
+    const endIdx = lineAt(stmt.offset + stmt.text.length - 1)
+    const original = opts.content.slice(stmt.offset, stmt.offset + stmt.text.length)
+
+    const tableMatch = CREATE_TABLE_RE.exec(stmt.text)
+    if (tableMatch) {
+      const name = lastIdentifier(tableMatch[1]!)
+      const table: ParsedEntity = {
+        id: entityHash(opts.repoId, opts.filePath, "table", name),
+        kind: "table",
+        name,
+        file_path: opts.filePath,
+        start_line: startIdx + 1,
+        end_line: endIdx + 1,
+        language: "sql",
+        signature: `CREATE TABLE ${normalizeWhitespace(tableMatch[1]!)}`,
+        body: truncateBody(original),
+        doc: extractSqlDocComment(lines, startIdx),
+      }
+      if (!addEntity(table)) continue
+      tablesByName.set(name.toLowerCase(), table)
+
+      if (tableMatch[2] === "(") {
+        const open = tableMatch[0].length - 1
+        const close = findMatchingParen(stmt.text, open)
+        for (const part of splitTopLevel(stmt.text.slice(open + 1, close), stmt.offset + open + 1)) {
+          if (TABLE_CONSTRAINT_RE.test(part.text)) continue
+          addColumn(name, part.text, part.offset, part.offset + part.text.length)
+        }
+      }
+      continue
+    }
+
+    const viewMatch = CREATE_VIEW_RE.exec(stmt.text)
+    if (viewMatch) {
+      const name = lastIdentifier(viewMatch[2]!)
+      addEntity({
+        id: entityHash(opts.repoId, opts.filePath, "view", name),
+        kind: "view",
+        name,
+        file_path: opts.filePath,
+        start_line: startIdx + 1,
+        end_line: endIdx + 1,
+        language: "sql",
+        signature: `CREATE ${viewMatch[1] ? "MATERIALIZED " : ""}VIEW ${normalizeWhitespace(viewMatch[2]!)}`,
+        body: truncateBody(original),
+        doc: extractSqlDocComment(lines, startIdx),
+      })
+      continue
+    }
+
+    const fnMatch = CREATE_FUNCTION_RE.exec(stmt.text)
+    if (fnMatch) {
+      const name = lastIdentifier(fnMatch[2]!)
+      const open = fnMatch[0].length - 1
+      const close = findMatchingParen(stmt.text, open)
+      const params = stmt.text.slice(open + 1, close).trim()
+      const signature = normalizeWhitespace(original.slice(0, close + 1))
+      const returns = /\bRETURNS\s+((?:SETOF\s+)?[\w."]+)/i.exec(stmt.text.slice(close + 1))
+      addEntity({
+        id: entityHash(opts.repoId, opts.filePath, "function", name, signature),
+        kind: "function",
+        name,
+        file_path: opts.filePath,
+        start_line: startIdx + 1,
+        end_line: endIdx + 1,
+        language: "sql",
+        signature,
+        parameter_count: params ? splitTopLevel(params, 0).length : 0,
+        return_type: returns ? returns[1] : undefined,
+        body: truncateBody(original),
+        doc: extractSqlDocComment(lines, startIdx),
+      })
+      continue
+    }
+
+    const alterMatch = ALTER_TABLE_RE.exec(stmt.text)
+    if (alterMatch) {
+      const table = lastIdentifier(alterMatch[1]!)
+      const actionsStart = alterMatch[0].length
+      for (const part of splitTopLevel(stmt.text.slice(actionsStart), stmt.offset + actionsStart)) {
+        const addMatch = ADD_COLUMN_RE.exec(part.text)
+        if (!addMatch) continue
+        const def = part.text.slice(addMatch[0].length)
+        if (TABLE_CONSTRAINT_RE.test(def)) continue
+        addColumn(table, def, part.offset + addMatch[0].length, part.offset + part.text.length)
+      }
+    }
+  }
+
+  return { entities, edges }
+}
+
+// ── Statement splitting ──
+
+/** Split cleaned SQL into `;`-terminated statements, trimming leading whitespace. */
+function splitStatements(cleaned: string): SqlStatement[] {
+  const statements: SqlStatement[] = []
+  let start = 0
+  for (let i = 0; i <= cleaned.length; i++) {
+    if (i < cleaned.length && cleaned[i] !== ";") continue
+    const raw = cleaned.slice(start, i)
+    const lead = raw.length - raw.trimStart().length
+    const text = raw.trim()
+    if (text) statements.push({ text, offset: start + lead })
+    start = i + 1
+  }
+  return statements
+}
+
+/** Split on top-level commas, returning each trimmed part with its absolute offset. */
+function splitTopLevel(text: string, baseOffset: number): SqlStatement[] {
+  const parts: SqlStatement[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i]
+    if (ch === "(") depth++
+    else if (ch === ")") depth--
+    else if ((ch === "," && depth === 0) || i === text.length) {
+      const raw = text.slice(start, i)
+      const lead = raw.length - raw.trimStart().length
+      const trimmed = raw.trim()
+      if (trimmed) parts.push({ text: trimmed, offset: baseOffset + start + lead })
+      start = i + 1
+    }
+  }
+  return parts
+}
+
+function findMatchingParen(text: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "(") depth++
+    else if (text[i] === ")") {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return text.length
+}
+
+// ── Helpers ──
+
+function extractColumnType(rest: string): string | undefined {
+  const constraint = COLUMN_CONSTRAINT_RE.exec(` ${rest}`)
+  const type = (constraint ? ` ${rest}`.slice(0, constraint.index) : rest).trim()
+  return type || undefined
+}
+
+function unquoteIdentifier(ident: string): string {
+  const trimmed = ident.trim()
+  if (/^(?:"[^"]*"|`[^`]*`|\[[^\]]*\])$/.test(trimmed)) return trimmed.slice(1, -1)
+  return trimmed
+}
+
+/** Last segment of a possibly schema-qualified name (`public."User"` → `User`). */
+function lastIdentifier(qualified: string): string {
+  const parts = qualified.match(new RegExp(IDENT, "g")) ?? [qualified]
+  return unquoteIdentifier(parts[parts.length - 1]!)
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+function truncateBody(text: string): string {
+  return text.split("\n").slice(0, MAX_BODY_LINES).join("\n")
+}
+
+function computeLineStarts(content: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") starts.push(i + 1)
+  }
+  return starts
+}
+
+function findLineIdx(lineStarts: number[], offset: number): number {
+  let lo = 0
+  let hi = lineStarts.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (lineStarts[mid]! <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+/**
+ * Blank out comments and the contents of string literals / dollar-quoted
+ * bodies, preserving offsets and newlines so positions map back to the source.
+ * Quoted identifiers ("name", `name`) are kept intact.
+ */
+function cleanSql(content: string): string {
+  const out = content.split("")
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) {
+      if (out[k] !== "\n") out[k] = " "
+    }
+  }
+
+  let i = 0
+  while (i < content.length) {
+    const ch = content[i]!
+    const next = content[i + 1]
+
+    if (ch === "-" && next === "-") {
+      const end = content.indexOf("\n", i)
+      const stop = end === -1 ? content.length : end
+      blank(i, stop)
+      i = stop
+    } else if (ch === "/" && next === "*") {
+      let depth = 1
+      let j = i + 2
+      while (j < content.length && depth > 0) {
+        if (content[j] === "/" && content[j + 1] === "*") {
+          depth++
+          j += 2
+        } else if (content[j] === "*" && content[j + 1] === "/") {
+          depth--
+          j += 2
+        } else {
+          j++
+        }
+      }
+      blank(i, j)
+      i = j
+    } else if (ch === "'") {
+      let j = i + 1
+      while (j < content.length) {
+        if (content[j] === "'" && content[j + 1] === "'") j += 2
+        else if (content[j] === "'") break
+        else j++
+      }
+      blank(i + 1, j)
+      i = j + 1
+    } else if (ch === "$") {
+      const tag = /^\$(?:[A-Za-z_]\w*)?\$/.exec(content.slice(i, i + 64))
+      if (!tag) {
+        i++
+        continue
+      }
+      const close = content.indexOf(tag[0], i + tag[0].length)
+      const stop = close === -1 ? content.length : close
+      blank(i + tag[0].length, stop)
+      i = close === -1 ? stop : stop + tag[0].length
+    } else if (ch === "\"" || ch === "`") {
+      const close = content.indexOf(ch, i + 1)
+      i = close === -1 ? content.length : close + 1
+    } else {
+      i++
+    }
+  }
+
+  return out.join("")
+}
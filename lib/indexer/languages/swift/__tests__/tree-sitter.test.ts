@@ -0,0 +1,261 @@
+/**
+ * Unit tests for Swift regex-based parser.
+ *
+ * Tests extraction of structs, classes, protocols, enums, extensions,
+ * methods and initializers, conformance/inheritance edges, doc comments,
+ * complexity, imports and calls.
+ */
+import { describe, expect, it } from "vitest"
+
+import { parseSwiftFile } from "../tree-sitter"
+
+const OPTS = {
+  orgId: "org-1",
+  repoId: "repo-1",
+}
+
+describe("parseSwiftFile", () => {
+  it("extracts structs with stored properties as members", () => {
+    const content = `import Foundation
+
+public struct User: Codable, Identifiable {
+    public let id: UUID
+    var name: String
+    private(set) var email: String?
+}
+`
+    const result = parseSwiftFile({ filePath: "User.swift", content, ...OPTS })
+
+    const structs = result.entities.filter((e) => e.kind === "struct")
+    expect(structs).toHaveLength(1)
+    expect(structs[0]!.name).toBe("User")
+    expect(structs[0]!.language).toBe("swift")
+    expect(structs[0]!.start_line).toBe(3)
+    expect(structs[0]!.end_line).toBe(7)
+    expect(structs[0]!.exported).toBe(true)
+    expect(structs[0]!.members).toEqual(["id", "name", "email"])
+
+    const implementsEdges = result.edges.filter((e) => e.kind === "implements")
+    expect(implementsEdges).toHaveLength(2)
+    expect(implementsEdges.every((e) => e.from_id === structs[0]!.id)).toBe(true)
+  })
+
+  it("maps protocols to interfaces and protocol inheritance to extends", () => {
+    const content = `protocol Identified {
+    var id: String { get }
+}
+
+protocol Repository: Identified {
+    associatedtype Item
+    func find(id: String) async throws -> Item?
+}
+`
+    const result = parseSwiftFile({ filePath: "Repository.swift", content, ...OPTS })
+
+    const ifaces = result.entities.filter((e) => e.kind === "interface")
+    expect(ifaces.map((e) => e.name)).toEqual(["Identified", "Repository"])
+
+    const extendsEdges = result.edges.filter((e) => e.kind === "extends")
+    expect(extendsEdges).toHaveLength(1)
+    expect(extendsEdges[0]!.from_id).toBe(ifaces[1]!.id)
+    expect(extendsEdges[0]!.to_id).toBe(ifaces[0]!.id)
+
+    const find = result.entities.find((e) => e.name === "find")!
+    expect(find.kind).toBe("method")
+    expect(find.parent).toBe("Repository")
+    expect(find.is_async).toBe(true)
+    expect(find.return_type).toBe("Item?")
+    expect(find.signature).toBe("func find(id: String) async throws -> Item?")
+  })
+
+  it("distinguishes superclass from protocol conformance on classes", () => {
+    const content = `protocol Cancellable {}
+
+class BaseViewController: UIViewController {}
+
+final class ProfileViewController: BaseViewController, Cancellable, Equatable {
+    override func viewDidLoad() {
+        super.viewDidLoad()
+    }
+}
+`
+    const result = parseSwiftFile({ filePath: "Profile.swift", content, ...OPTS })
+
+    const base = result.entities.find((e) => e.name === "BaseViewController")!
+    const profile = result.entities.find((e) => e.name === "ProfileViewController")!
+    const cancellable = result.entities.find((e) => e.name === "Cancellable")!
+
+    const baseEdges = result.edges.filter((e) => e.from_id === base.id)
+    expect(baseEdges).toEqual([expect.objectContaining({ kind: "extends" })])
+
+    const profileEdges = result.edges.filter((e) => e.from_id === profile.id)
+    expect(profileEdges).toContainEqual(expect.objectContaining({ kind: "extends", to_id: base.id }))
+    expect(profileEdges).toContainEqual(expect.objectContaining({ kind: "implements", to_id: cancellable.id }))
+    expect(profileEdges.filter((e) => e.kind === "implements")).toHaveLength(2)
+  })
+
+  it("attributes extension members and conformance to the extended type", () => {
+    const content = `struct Money {
+    let cents: Int
+}
+
+extension Money: CustomStringConvertible {
+    var description: String { "\\(cents)" }
+
+    func formatted() -> String {
+        return description
+    }
+}
+`
+    const result = parseSwiftFile({ filePath: "Money.swift", content, ...OPTS })
+
+    const money = result.entities.find((e) => e.name === "Money")!
+    expect(money.members).toEqual(["cents", "description"])
+
+    const formatted = result.entities.find((e) => e.name === "formatted")!
+    expect(formatted.kind).toBe("method")
+    expect(formatted.parent).toBe("Money")
+    expect(result.edges).toContainEqual(
+      expect.objectContaining({ from_id: formatted.id, to_id: money.id, kind: "member_of" })
+    )
+    expect(result.edges).toContainEqual(
+      expect.objectContaining({ from_id: money.id, kind: "implements" })
+    )
+  })
+
+  it("extracts enums, skipping the raw-value type in conformance", () => {
+    const content = `enum Status: String, CaseIterable {
+    case active
+    case archived
+
+    var label: String {
+        switch self {
+        case .active: return "Active"
+        case .archived: return "Archived"
+        }
+    }
+}
+`
+    const result = parseSwiftFile({ filePath: "Status.swift", content, ...OPTS })
+
+    const status = result.entities.find((e) => e.kind === "enum")!
+    expect(status.name).toBe("Status")
+    expect(status.end_line).toBe(11)
+    const conformances = result.edges.filter((e) => e.from_id === status.id)
+    expect(conformances).toHaveLength(1)
+  })
+
+  it("extracts initializers, class methods and skips local declarations", () => {
+    const content = `class Cache {
+    private var store: [String: Data] = [:]
+
+    init(capacity: Int) {
+        let limit = capacity * 2
+        func helper() {}
+        store.reserveCapacity(limit)
+    }
+
+    class func shared() -> Cache { Cache(capacity: 10) }
+
+    static func purge() {}
+}
+`
+    const result = parseSwiftFile({ filePath: "Cache.swift", content, ...OPTS })
+
+    const methods = result.entities.filter((e) => e.kind === "method")
+    expect(methods.map((m) => m.name)).toEqual(["init", "shared", "purge"])
+    expect(methods[0]!.parameter_count).toBe(1)
+    expect(result.entities.some((e) => e.name === "helper" || e.name === "limit")).toBe(false)
+    expect(result.entities.filter((e) => e.kind === "class")).toHaveLength(1)
+  })
+
+  it("extracts top-level functions, type aliases and properties", () => {
+    const content = `typealias Completion = (Result<Data, Error>) -> Void
+
+let defaultTimeout: TimeInterval = 30
+
+public func fetch(url: URL, completion: @escaping Completion) {
+    validate(url)
+}
+
+func validate(_ url: URL) {}
+`
+    const result = parseSwiftFile({ filePath: "Network.swift", content, ...OPTS })
+
+    const byName = new Map(result.entities.map((e) => [e.name, e]))
+    expect(byName.get("Completion")!.kind).toBe("type")
+    expect(byName.get("defaultTimeout")!.kind).toBe("variable")
+    expect(byName.get("defaultTimeout")!.return_type).toBe("TimeInterval")
+    expect(byName.get("fetch")!.kind).toBe("function")
+    expect(byName.get("fetch")!.exported).toBe(true)
+    expect(byName.get("fetch")!.parameter_count).toBe(2)
+    expect(byName.get("validate")!.exported).toBe(false)
+
+    const calls = result.edges.filter((e) => e.kind === "calls")
+    expect(calls).toEqual([
+      expect.objectContaining({ from_id: byName.get("fetch")!.id, to_id: byName.get("validate")!.id }),
+    ])
+  })
+
+  it("extracts /// doc comments past attributes and records them as decorators", () => {
+    const content = `/// Loads the signed-in user's profile from the API.
+/// - Parameter id: The user identifier.
+/// - Returns: The decoded profile.
+@MainActor
+@discardableResult
+func loadProfile(id: String) async -> Profile? {
+    nil
+}
+`
+    const result = parseSwiftFile({ filePath: "Profile.swift", content, ...OPTS })
+
+    const fn = result.entities.find((e) => e.name === "loadProfile")!
+    expect(fn.doc).toBe("Loads the signed-in user's profile from the API.")
+    expect(fn.decorators).toEqual(["@MainActor", "@discardableResult"])
+  })
+
+  it("computes complexity for functions", () => {
+    const content = `func classify(_ n: Int) -> String {
+    guard n >= 0 else { return "negative" }
+    if n == 0 {
+        return "zero"
+    } else if n > 100 && n % 2 == 0 {
+        return "big-even"
+    }
+    return "positive"
+}
+`
+    const result = parseSwiftFile({ filePath: "Classify.swift", content, ...OPTS })
+
+    const fn = result.entities.find((e) => e.name === "classify")!
+    expect(fn.complexity).toBeGreaterThanOrEqual(4)
+    expect(fn.cognitive_complexity).toBeGreaterThan(0)
+  })
+
+  it("creates external import edges for non-system modules only", () => {
+    const content = `import Foundation
+import SwiftUI
+import Alamofire
+@testable import MyAppCore
+`
+    const result = parseSwiftFile({ filePath: "App.swift", content, ...OPTS })
+
+    const imports = result.edges.filter((e) => e.kind === "imports")
+    expect(imports.map((e) => e.package_name)).toEqual(["Alamofire", "MyAppCore"])
+    expect(imports[0]!.boundary_category).toBe("http-client")
+  })
+
+  it("ignores declarations inside strings and comments", () => {
+    const content = `// func commented() {}
+let template = """
+    func notReal() {}
+"""
+/* class Hidden { /* nested */ } */
+func real() {}
+`
+    const result = parseSwiftFile({ filePath: "Strings.swift", content, ...OPTS })
+
+    const names = result.entities.map((e) => e.name)
+    expect(names).toEqual(["template", "real"])
+  })
+})
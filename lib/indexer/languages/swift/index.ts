@@ -0,0 +1,21 @@
+/**
+ * Swift language plugin.
+ *
+ * There is no production-ready SCIP indexer for Swift, so runSCIP covers no
+ * files and every .swift file goes through the tree-sitter fallback.
+ */
+import { parseSwiftFile } from "./tree-sitter"
+import type { LanguagePlugin, SCIPOptions, TreeSitterOptions } from "../types"
+
+export const swiftPlugin: LanguagePlugin = {
+  id: "swift",
+  extensions: [".swift"],
+
+  async runSCIP(_opts: SCIPOptions) {
+    return { entities: [], edges: [], coveredFiles: [] }
+  },
+
+  async parseWithTreeSitter(opts: TreeSitterOptions) {
+    return parseSwiftFile(opts)
+  },
+}
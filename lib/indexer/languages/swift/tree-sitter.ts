@@ -0,0 +1,722 @@
+/**
+ * Regex-based parser for Swift source files.
+ *
+ * Extracts classes, actors, structs, enums, protocols, extensions, methods,
+ * initializers, free functions, type aliases and top-level properties.
+ * Protocols map to `interface` entities; protocol conformance (in the type
+ * declaration or an extension) becomes an `implements` edge and class
+ * inheritance an `extends` edge. Extensions are not entities themselves —
+ * their members are attributed to the extended type.
+ */
+import { classifyBoundary, extractExternalPackageName } from "../../boundary-classifier"
+import { computeComplexity } from "../../complexity"
+import { extractSwiftDocComment } from "../../doc-extractor"
+import { entityHash } from "../../entity-hash"
+import type { EntityKind, ParsedEdge, ParsedEntity } from "../../types"
+import { MAX_BODY_LINES } from "../../types"
+import type { TreeSitterOptions } from "../types"
+
+export interface SwiftParseResult {
+  entities: ParsedEntity[]
+  edges: ParsedEdge[]
+}
+
+type SwiftDeclKind =
+  | "class" | "struct" | "enum" | "protocol" | "extension"
+  | "func" | "init" | "typealias" | "property"
+
+interface SwiftDecl {
+  declKind: SwiftDeclKind
+  name: string
+  startIdx: number
+  endIdx: number
+  /** First attribute line above the declaration (doc comments sit above it) */
+  docAnchorIdx: number
+  modifiers: string[]
+  decorators: string[]
+  /** Declaration header (cleaned, joined) up to the body */
+  header: string
+}
+
+const MODIFIER_WORDS = [
+  "public", "private", "fileprivate", "internal", "open", "package",
+  "static", "class", "final", "override", "mutating", "nonmutating",
+  "convenience", "required", "lazy", "weak", "unowned", "dynamic",
+  "indirect", "nonisolated", "isolated", "optional", "prefix", "postfix", "infix",
+]
+// `private(set)` / `public(set)` setter access is treated as a modifier too
+const MODIFIERS = `(?:(?:${MODIFIER_WORDS.join("|")})(?:\\((?:set|get)\\))?\\s+)*`
+
+const LEADING_ATTRIBUTES = /^((?:@[\w.]+(?:\([^)]*\))?\s+)+)/
+
+// `class func` / `class var` are type members, not class declarations
+const TYPE_RE = new RegExp(
+  `^(${MODIFIERS})(class|actor|struct|enum|protocol)\\s+(?!(?:func|var|let|subscript|init|deinit|typealias)\\b)(\\w+|\`[^\`]+\`)`
+)
+const EXTENSION_RE = new RegExp(`^(${MODIFIERS})extension\\s+([\\w.]+)`)
+const FUNC_RE = new RegExp(`^(${MODIFIERS})func\\s+(\\w+|\`[^\`]+\`|[^\\s(<]+)\\s*(?:<[^>]*>)?\\s*\\(`)
+const INIT_RE = new RegExp(`^(${MODIFIERS})(init|deinit)[?!]?\\s*(?:<[^>]*>)?\\s*(\\(|\\{)`)
+const TYPEALIAS_RE = new RegExp(`^(${MODIFIERS})typealias\\s+(\\w+)`)
+const PROPERTY_RE = new RegExp(`^(${MODIFIERS})(let|var)\\s+(\\w+|\`[^\`]+\`)`)
+
+/** Raw-value types that may lead an enum's inheritance clause. */
+const ENUM_RAW_TYPES = new Set([
+  "String", "Int", "Int8", "Int16", "Int32", "Int64",
+  "UInt", "UInt8", "UInt16", "UInt32", "UInt64",
+  "Double", "Float", "Character",
+])
+
+/** Well-known protocols that can appear first in a class inheritance clause. */
+const KNOWN_PROTOCOLS = new Set([
+  "Codable", "Encodable", "Decodable", "Equatable", "Hashable", "Comparable",
+  "Identifiable", "Sendable", "Error", "ObservableObject", "View",
+  "CustomStringConvertible", "CustomDebugStringConvertible", "CaseIterable",
+  "AnyObject", "NSObjectProtocol",
+])
+
+export function parseSwiftFile(opts: TreeSitterOptions): SwiftParseResult {
+  const entities: ParsedEntity[] = []
+  const edges: ParsedEdge[] = []
+  const lines = opts.content.split("\n")
+  const cleaned = cleanSwiftLines(lines)
+
+  const fileId = entityHash(opts.repoId, opts.filePath, "file", opts.filePath)
+  detectSwiftImportEdges(cleaned, fileId, edges)
+
+  // First pass: locate every declaration and its line range
+  const decls = collectDeclarations(lines, cleaned)
+
+  // Local type kinds, so conformance edges can point at the right entity kind
+  const localKinds = new Map<string, SwiftDeclKind>()
+  for (const d of decls) {
+    if (isTypeDecl(d.declKind)) localKinds.set(d.name, d.declKind)
+  }
+
+  // Second pass: attribute declarations to their innermost enclosing declaration
+  const declEntity = new Map<SwiftDecl, ParsedEntity>()
+
+  for (const decl of decls) {
+    const enclosing = findEnclosing(decls, decl)
+
+    // Local declarations inside function bodies are not graph entities
+    if (enclosing && (enclosing.declKind === "func" || enclosing.declKind === "init")) continue
+    // Property accessors / nested types inside property bodies are skipped too
+    if (enclosing && enclosing.declKind === "property") continue
+
+    const container = enclosing && isContainer(enclosing.declKind) ? enclosing : undefined
+    // Members of an extension belong to the extended type
+    const ownerName = container?.name
+
+    if (decl.declKind === "extension") {
+      const typeId = typeEntityId(opts, decl.name, localKinds)
+      for (const conformance of extractInheritance(decl.header, decl.name)) {
+        edges.push({
+          from_id: typeId,
+          to_id: typeEntityId(opts, conformance, localKinds, "protocol"),
+          kind: "implements",
+        })
+      }
+      continue
+    }
+
+    if (decl.declKind === "property") {
+      if (ownerName) {
+        const ownerEntity = findOwnerEntity(container!, ownerName, declEntity, entities)
+        if (ownerEntity && !ownerEntity.members?.includes(decl.name)) {
+          ownerEntity.members = [...(ownerEntity.members ?? []), decl.name]
+        }
+        continue
+      }
+      entities.push(buildPropertyEntity(opts, decl, lines))
+      continue
+    }
+
+    const entity = decl.declKind === "func" || decl.declKind === "init"
+      ? buildFunctionEntity(opts, decl, ownerName)
+      : buildTypeEntity(opts, decl)
+
+    if (ownerName) {
+      entity.parent = ownerName
+      if (entity.kind === "method") {
+        const ownerId = container!.declKind === "extension"
+          ? typeEntityId(opts, ownerName, localKinds)
+          : declEntity.get(container!)?.id
+        if (ownerId) edges.push({ from_id: entity.id, to_id: ownerId, kind: "member_of" })
+      }
+    }
+
+    fillBodyAndDoc(entity, decl, lines)
+    entities.push(entity)
+    declEntity.set(decl, entity)
+
+    if (isTypeDecl(decl.declKind)) {
+      addInheritanceEdges(opts, decl, entity, localKinds, edges)
+    }
+  }
+
+  detectSwiftCallEdges(entities, edges)
+
+  return { entities, edges }
+}
+
+// ── Declaration discovery ────────────────────────────────────────────────────
+
+function collectDeclarations(lines: string[], cleaned: string[]): SwiftDecl[] {
+  const decls: SwiftDecl[] = []
+
+  for (let i = 0; i < cleaned.length; i++) {
+    let trimmed = cleaned[i]!.trim()
+    if (!trimmed || trimmed.startsWith("import ") || trimmed.startsWith("#")) continue
+
+    // Attributes above and on the same line as the declaration (original text)
+    const decorators = collectAttributesAbove(lines, cleaned, i)
+    const inline = trimmed.match(LEADING_ATTRIBUTES)
+    if (inline) {
+      const original = lines[i]!.trim().match(LEADING_ATTRIBUTES)
+      decorators.push(...(original ?? inline)[1]!.trim().split(/\s+(?=@)/))
+      trimmed = trimmed.slice(inline[0].length)
+    }
+    if (trimmed.startsWith("@")) continue
+
+    const docAnchorIdx = i - countAttributeLinesAbove(cleaned, i)
+    const base = { startIdx: i, docAnchorIdx, decorators }
+
+    const typeMatch = trimmed.match(TYPE_RE)
+    if (typeMatch) {
+      const keyword = typeMatch[2]!
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        ...base,
+        declKind: keyword === "actor" ? "class" : keyword as SwiftDeclKind,
+        name: stripBackticks(typeMatch[3]!),
+        endIdx,
+        modifiers: splitModifiers(typeMatch[1]!),
+        header: buildHeader(cleaned, i, endIdx),
+      })
+      continue
+    }
+
+    const extMatch = trimmed.match(EXTENSION_RE)
+    if (extMatch) {
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        ...base,
+        declKind: "extension",
+        name: extMatch[2]!.split(".").pop()!,
+        endIdx,
+        modifiers: splitModifiers(extMatch[1]!),
+        header: buildHeader(cleaned, i, endIdx),
+      })
+      continue
+    }
+
+    const funcMatch = trimmed.match(FUNC_RE)
+    if (funcMatch) {
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        ...base,
+        declKind: "func",
+        name: stripBackticks(funcMatch[2]!),
+        endIdx,
+        modifiers: splitModifiers(funcMatch[1]!),
+        header: buildHeader(cleaned, i, endIdx),
+      })
+      continue
+    }
+
+    const initMatch = trimmed.match(INIT_RE)
+    if (initMatch) {
+      const endIdx = findDeclarationEnd(cleaned, i)
+      decls.push({
+        ...base,
+        declKind: "init",
+        name: initMatch[2]!,
+        endIdx,
+        modifiers: splitModifiers(initMatch[1]!),
+        header: buildHeader(cleaned, i, endIdx),
+      })
+      continue
+    }
+
+    const aliasMatch = trimmed.match(TYPEALIAS_RE)
+    if (aliasMatch) {
+      decls.push({
+        ...base,
+        declKind: "typealias",
+        name: aliasMatch[2]!,
+        endIdx: i,
+        modifiers: splitModifiers(aliasMatch[1]!),
+        header: trimmed,
+      })
+      continue
+    }
+
+    const propMatch = trimmed.match(PROPERTY_RE)
+    if (propMatch) {
+      decls.push({
+        ...base,
+        declKind: "property",
+        name: stripBackticks(propMatch[3]!),
+        endIdx: findDeclarationEnd(cleaned, i),
+        modifiers: [...splitModifiers(propMatch[1]!), propMatch[2]!],
+        header: trimmed,
+      })
+    }
+  }
+
+  return decls
+}
+
+/**
+ * Find the last line of a declaration starting at `startIdx`.
+ *
+ * Block-bodied declarations end at their matching `}`. Declarations without
+ * a body (protocol requirements, stored properties) end on the first line
+ * where parentheses are balanced and the statement does not continue.
+ */
+function findDeclarationEnd(cleaned: string[], startIdx: number): number {
+  let parenDepth = 0
+  let braceDepth = 0
+  let foundOpen = false
+
+  for (let i = startIdx; i < cleaned.length; i++) {
+    for (const ch of cleaned[i]!) {
+      if (ch === "(") parenDepth++
+      else if (ch === ")") parenDepth--
+      else if (ch === "{") {
+        braceDepth++
+        foundOpen = true
+      } else if (ch === "}") {
+        braceDepth--
+        if (foundOpen && braceDepth === 0) return i
+      }
+    }
+
+    if (!foundOpen && parenDepth <= 0 && !continuesOnNextLine(cleaned, i)) {
+      return i
+    }
+  }
+
+  return cleaned.length - 1
+}
+
+/** Whether the statement on line `idx` continues onto the following line. */
+function continuesOnNextLine(cleaned: string[], idx: number): boolean {
+  const trimmed = cleaned[idx]!.trim()
+  if (/(?:[,:=(.+\-*/]|->|&&|\|\||\?\?)$/.test(trimmed)) return true
+
+  let next = idx + 1
+  while (next < cleaned.length && !cleaned[next]!.trim()) next++
+  if (next >= cleaned.length) return false
+
+  const nextTrimmed = cleaned[next]!.trim()
+  return /^(?:\{|:|=|\.|->|where\b|throws\b|rethrows\b|async\b)/.test(nextTrimmed)
+}
+
+/** Join the declaration's header lines up to (not including) its body, minus attributes. */
+function buildHeader(cleaned: string[], startIdx: number, endIdx: number): string {
+  const text = cleaned.slice(startIdx, endIdx + 1).map((l) => l.trim()).join(" ").replace(LEADING_ATTRIBUTES, "")
+  let parenDepth = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === "(") parenDepth++
+    else if (ch === ")") parenDepth--
+    else if (ch === "{" && parenDepth === 0) return text.slice(0, i).trim()
+  }
+  return text.trim()
+}
+
+// ── Entity construction ──────────────────────────────────────────────────────
+
+function swiftEntityKind(declKind: SwiftDeclKind): EntityKind {
+  switch (declKind) {
+    case "struct": return "struct"
+    case "enum": return "enum"
+    case "protocol": return "interface"
+    case "typealias": return "type"
+    default: return "class"
+  }
+}
+
+function buildTypeEntity(opts: TreeSitterOptions, decl: SwiftDecl): ParsedEntity {
+  const kind = swiftEntityKind(decl.declKind)
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, kind, decl.name),
+    kind,
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.startIdx + 1,
+    language: "swift",
+    signature: normalizeWhitespace(decl.header),
+    exported: isExported(decl.modifiers),
+  }
+  if (decl.decorators.length > 0) entity.decorators = decl.decorators
+  return entity
+}
+
+function buildFunctionEntity(
+  opts: TreeSitterOptions,
+  decl: SwiftDecl,
+  ownerName: string | undefined,
+): ParsedEntity {
+  const paramList = findParamList(decl.header, decl.declKind === "init" ? decl.name : `func ${decl.name}`)
+  const params = paramList?.params ?? ""
+  const tail = paramList ? decl.header.slice(paramList.closeIdx + 1) : ""
+  const returnType = tail.match(/->\s*(.+?)\s*(?:where\b.*)?$/)?.[1]?.trim()
+  const effects = tail.match(/^\s*((?:async\s*|throws\s*|rethrows\s*)*)/)?.[1]?.trim()
+
+  const prefix = decl.declKind === "init" ? decl.name : `func ${decl.name}`
+  const sig = normalizeWhitespace(
+    `${prefix}(${params})${effects ? ` ${effects}` : ""}${returnType ? ` -> ${returnType}` : ""}`
+  )
+  const kind: EntityKind = ownerName ? "method" : "function"
+
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, kind, decl.name, sig),
+    kind,
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.startIdx + 1,
+    language: "swift",
+    signature: sig,
+    exported: isExported(decl.modifiers),
+    is_async: /\basync\b/.test(effects ?? "") || undefined,
+    parameter_count: countSwiftParams(params),
+    return_type: returnType,
+  }
+  if (decl.decorators.length > 0) entity.decorators = decl.decorators
+  return entity
+}
+
+function buildPropertyEntity(opts: TreeSitterOptions, decl: SwiftDecl, lines: string[]): ParsedEntity {
+  const propType = decl.header.match(new RegExp(`\\b${decl.name}\\s*:\\s*([^={]+?)\\s*(?:=|\\{|$)`))?.[1]?.trim()
+  const entity: ParsedEntity = {
+    id: entityHash(opts.repoId, opts.filePath, "variable", decl.name),
+    kind: "variable",
+    name: decl.name,
+    file_path: opts.filePath,
+    start_line: decl.startIdx + 1,
+    end_line: decl.endIdx + 1,
+    language: "swift",
+    signature: normalizeWhitespace(decl.header),
+    exported: isExported(decl.modifiers),
+    return_type: propType,
+    body: lines.slice(decl.startIdx, decl.endIdx + 1).join("\n"),
+  }
+  if (decl.decorators.length > 0) entity.decorators = decl.decorators
+  return entity
+}
+
+function fillBodyAndDoc(entity: ParsedEntity, decl: SwiftDecl, lines: string[]): void {
+  entity.end_line = decl.endIdx + 1
+  entity.doc = extractSwiftDocComment(lines, decl.docAnchorIdx)
+
+  const bodyLines = lines.slice(decl.startIdx, Math.min(decl.endIdx + 1, decl.startIdx + MAX_BODY_LINES))
+  if (bodyLines.length === 0) return
+  entity.body = bodyLines.join("\n")
+
+  if (entity.kind === "function" || entity.kind === "method") {
+    const cx = computeComplexity(entity.body, "swift")
+    entity.complexity = cx.cyclomatic
+    entity.cognitive_complexity = cx.cognitive
+  }
+}
+
+// ── Edges ────────────────────────────────────────────────────────────────────
+
+/**
+ * Emit extends/implements edges from a type's inheritance clause.
+ *
+ * Only classes can inherit, and the superclass must come first. When the first
+ * entry is not declared in this file we treat it as a superclass unless it is a
+ * well-known protocol. Enum raw-value types are skipped.
+ */
+function addInheritanceEdges(
+  opts: TreeSitterOptions,
+  decl: SwiftDecl,
+  entity: ParsedEntity,
+  localKinds: Map<string, SwiftDeclKind>,
+  edges: ParsedEdge[],
+): void {
+  const inherited = extractInheritance(decl.header, decl.name)
+
+  inherited.forEach((name, idx) => {
+    if (decl.declKind === "enum" && idx === 0 && ENUM_RAW_TYPES.has(name)) return
+
+    if (decl.declKind === "protocol") {
+      edges.push({ from_id: entity.id, to_id: typeEntityId(opts, name, localKinds, "protocol"), kind: "extends" })
+      return
+    }
+
+    const localKind = localKinds.get(name)
+    const isSuperclass = decl.declKind === "class" && idx === 0 &&
+      (localKind === "class" || (!localKind && !KNOWN_PROTOCOLS.has(name)))
+
+    if (isSuperclass) {
+      edges.push({ from_id: entity.id, to_id: entityHash(opts.repoId, opts.filePath, "class", name), kind: "extends" })
+    } else {
+      edges.push({ from_id: entity.id, to_id: typeEntityId(opts, name, localKinds, "protocol"), kind: "implements" })
+    }
+  })
+}
+
+/**
+ * Detect call edges by scanning function bodies for `name(` patterns
+ * matching known functions in the same file.
+ */
+function detectSwiftCallEdges(entities: ParsedEntity[], edges: ParsedEdge[]): void {
+  const callableMap = new Map<string, string>()
+  for (const e of entities) {
+    if ((e.kind === "function" || e.kind === "method") && e.name !== "init" && e.name !== "deinit") {
+      callableMap.set(e.name, e.id)
+    }
+  }
+  if (callableMap.size === 0) return
+
+  const names = Array.from(callableMap.keys()).filter((n) => n.length > 1)
+  if (names.length === 0) return
+
+  const escapedNames = names.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  const callPattern = new RegExp(`\\b(${escapedNames.join("|")})\\s*\\(`, "g")
+
+  const edgeSet = new Set<string>()
+  for (const entity of entities) {
+    if (entity.kind !== "function" && entity.kind !== "method") continue
+    if (!entity.body) continue
+
+    const regex = new RegExp(callPattern.source, "g")
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(entity.body)) !== null) {
+      const calleeId = callableMap.get(match[1]!)
+      if (calleeId && calleeId !== entity.id) {
+        const edgeKey = `${entity.id}→${calleeId}`
+        if (!edgeSet.has(edgeKey)) {
+          edgeSet.add(edgeKey)
+          edges.push({ from_id: entity.id, to_id: calleeId, kind: "calls" })
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Detect Swift module imports. Swift imports whole modules, so every
+ * non-system import becomes an external boundary edge.
+ */
+function detectSwiftImportEdges(cleaned: string[], fileId: string, edges: ParsedEdge[]): void {
+  for (const line of cleaned) {
+    // [@testable] import [struct|class|func ...] Module[.Symbol]
+    const importMatch = line.trim().match(
+      /^(?:@\w+\s+)*import\s+(?:(?:typealias|struct|class|enum|protocol|let|var|func)\s+)?([\w.]+)/
+    )
+    if (!importMatch) continue
+
+    const importPath = importMatch[1]!
+    // Apple platform frameworks resolve to null (stdlib)
+    const pkgName = extractExternalPackageName(importPath, "swift")
+    if (!pkgName) continue
+
+    edges.push({
+      from_id: fileId,
+      to_id: `external:${pkgName}`,
+      kind: "imports",
+      imported_symbols: importPath.includes(".") ? [importPath.split(".").pop()!] : [],
+      import_type: "namespace",
+      is_type_only: false,
+      is_external: true,
+      package_name: pkgName,
+      boundary_category: classifyBoundary(pkgName, "swift"),
+    })
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function isTypeDecl(kind: SwiftDeclKind): boolean {
+  return kind === "class" || kind === "struct" || kind === "enum" || kind === "protocol"
+}
+
+function isContainer(kind: SwiftDeclKind): boolean {
+  return isTypeDecl(kind) || kind === "extension"
+}
+
+/**
+ * Entity ID for a type referenced by name. Uses the local declaration's kind
+ * when the type is declared in this file, otherwise `fallback`.
+ */
+function typeEntityId(
+  opts: TreeSitterOptions,
+  name: string,
+  localKinds: Map<string, SwiftDeclKind>,
+  fallback: SwiftDeclKind = "class",
+): string {
+  const kind = swiftEntityKind(localKinds.get(name) ?? fallback)
+  return entityHash(opts.repoId, opts.filePath, kind, name)
+}
+
+/** Resolve the entity that owns members declared inside `container`. */
+function findOwnerEntity(
+  container: SwiftDecl,
+  ownerName: string,
+  declEntity: Map<SwiftDecl, ParsedEntity>,
+  entities: ParsedEntity[],
+): ParsedEntity | undefined {
+  if (container.declKind !== "extension") return declEntity.get(container)
+  // Extensions may only add computed properties; record them on a local type
+  return entities.find((e) => e.name === ownerName && e.kind !== "function" && e.kind !== "method")
+}
+
+/** Innermost declaration (other than `decl`) whose range contains decl's start line. */
+function findEnclosing(decls: SwiftDecl[], decl: SwiftDecl): SwiftDecl | undefined {
+  let best: SwiftDecl | undefined
+  for (const d of decls) {
+    if (d === decl) continue
+    if (d.startIdx < decl.startIdx && d.endIdx >= decl.startIdx) {
+      if (!best || d.startIdx > best.startIdx) best = d
+    }
+  }
+  return best
+}
+
+/** Swift declarations default to `internal`; only public/open cross module boundaries. */
+function isExported(modifiers: string[]): boolean {
+  return modifiers.some((m) => m === "public" || m === "open")
+}
+
+function splitModifiers(raw: string): string[] {
+  return raw.trim().split(/\s+/).filter(Boolean).map((m) => m.replace(/\(.*\)$/, ""))
+}
+
+function stripBackticks(name: string): string {
+  return name.replace(/^`|`$/g, "")
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\(\s+/g, "(").replace(/\s+\)/g, ")").replace(/,\s*\)/g, ")").trim()
+}
+
+function collectAttributesAbove(lines: string[], cleaned: string[], idx: number): string[] {
+  const attributes: string[] = []
+  for (let i = idx - 1; i >= 0; i--) {
+    if (!cleaned[i]!.trim().startsWith("@")) break
+    attributes.unshift(lines[i]!.trim())
+  }
+  return attributes
+}
+
+function countAttributeLinesAbove(cleaned: string[], idx: number): number {
+  let count = 0
+  for (let i = idx - 1; i >= 0 && cleaned[i]!.trim().startsWith("@"); i--) count++
+  return count
+}
+
+/** Locate the balanced (...) parameter list following `prefix` (e.g. "func load"). */
+function findParamList(header: string, prefix: string): { params: string; closeIdx: number } | undefined {
+  const start = header.indexOf(prefix)
+  if (start === -1) return undefined
+  const open = header.indexOf("(", start + prefix.length)
+  if (open === -1) return undefined
+  let depth = 0
+  for (let i = open; i < header.length; i++) {
+    if (header[i] === "(") depth++
+    else if (header[i] === ")") {
+      depth--
+      if (depth === 0) return { params: header.slice(open + 1, i).trim(), closeIdx: i }
+    }
+  }
+  return undefined
+}
+
+/** Types listed after `Name:` (or `Name<T>:`) up to a `where` clause. */
+function extractInheritance(header: string, name: string): string[] {
+  const nameIdx = header.search(new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`))
+  if (nameIdx === -1) return []
+
+  let i = nameIdx + name.length
+  let angle = 0
+  for (; i < header.length; i++) {
+    const ch = header[i]
+    if (ch === "<") angle++
+    else if (ch === ">") angle--
+    else if (angle === 0 && ch === ":") break
+    else if (angle === 0 && !/\s/.test(ch!)) return []
+  }
+  if (i >= header.length) return []
+
+  return splitTopLevel(header.slice(i + 1).replace(/\bwhere\b.*$/, ""))
+    .map((part) => part.trim().replace(/<.*$/, "").split(".").pop()!.trim())
+    .filter((n) => n.length > 0)
+}
+
+/** Split on commas outside of <>, (), [] and {}. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ""
+  for (const ch of text) {
+    if (ch === "<" || ch === "(" || ch === "[" || ch === "{") depth++
+    else if (ch === ">" || ch === ")" || ch === "]" || ch === "}") depth--
+    if (ch === "," && depth === 0) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += ch
+    }
+  }
+  if (current.trim()) parts.push(current)
+  return parts
+}
+
+/** Count Swift parameters (closure parameter types are nested and not counted). */
+function countSwiftParams(params: string): number {
+  if (!params.trim()) return 0
+  return splitTopLevel(params).filter((p) => p.trim().length > 0).length
+}
+
+/**
+ * Blank out string literals and comments while preserving line count,
+ * so structural regexes and brace matching do not trip over them.
+ */
+function cleanSwiftLines(lines: string[]): string[] {
+  const result: string[] = []
+  let blockDepth = 0
+  let inMultilineString = false
+
+  for (const line of lines) {
+    let out = ""
+    let i = 0
+    while (i < line.length) {
+      const rest = line.slice(i)
+      if (blockDepth > 0) {
+        // Swift block comments nest
+        if (rest.startsWith("/*")) { blockDepth++; i += 2; continue }
+        if (rest.startsWith("*/")) { blockDepth--; i += 2; continue }
+        i++
+        continue
+      }
+      if (inMultilineString) {
+        if (rest.startsWith('"""')) { inMultilineString = false; out += '""'; i += 3; continue }
+        i++
+        continue
+      }
+      if (rest.startsWith("//")) break
+      if (rest.startsWith("/*")) { blockDepth = 1; i += 2; continue }
+      if (rest.startsWith('"""')) { inMultilineString = true; i += 3; continue }
+      if (line[i] === '"') {
+        let j = i + 1
+        while (j < line.length && line[j] !== '"') {
+          if (line[j] === "\\") j++
+          j++
+        }
+        out += '""'
+        i = j + 1
+        continue
+      }
+      out += line[i]
+      i++
+    }
+    result.push(out)
+  }
+
+  return result
+}
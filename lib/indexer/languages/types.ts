@@ -6,6 +6,7 @@
  * New languages are added by creating a new folder under languages/
  * and registering the plugin in the registry.
  */
+import type { SCIPArtifact } from "../scip-decoder"
 import type { ParsedEdge, ParsedEntity } from "../types"
 
 export interface SCIPOptions {
@@ -15,6 +16,8 @@ export interface SCIPOptions {
   repoId: string
   /** Optional filter: returns true if a relative path should be included in indexing. */
   isIncluded?: (relativePath: string) => boolean
+  /** Optional: receives each raw .scip output before it is deleted */
+  onArtifact?: (artifact: SCIPArtifact) => void
 }
 
 export interface TreeSitterOptions {
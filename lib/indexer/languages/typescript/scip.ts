@@ -77,7 +77,7 @@ export async function runSCIPTypeScript(
     const fileSize = statSync(outputFile).size
     log.info("Parsing SCIP output", { workspaceRoot, outputFile, fileSizeBytes: fileSize })
 
-    const result = parseSCIPOutput(outputFile, opts.repoId, "typescript", opts.isIncluded)
+    const result = parseSCIPOutput(outputFile, opts.repoId, "typescript", opts.isIncluded, opts.onArtifact)
 
     log.info("SCIP parsing complete", {
       workspaceRoot,
@@ -1,12 +1,13 @@
 /**
  * Monorepo / package root detection.
  *
- * Detects pnpm, yarn, npm, nx, and lerna workspaces.
+ * Detects pnpm, yarn, npm, nx, and lerna workspaces, Maven/Gradle multi-module
+ * builds, Swift Package Manager packages and Xcode workspaces.
  * Returns package root paths for SCIP indexers that need per-package runs.
  * A-05: Also detects dominant language per package root for polyglot support.
  */
 import { existsSync, readdirSync, readFileSync } from "node:fs"
-import { extname, join, resolve } from "node:path"
+import { extname, join, relative, resolve } from "node:path"
 
 import { ALWAYS_IGNORE } from "./ignore"
 import type { WorkspaceInfo } from "./types"
@@ -76,6 +77,20 @@ export function detectPackageRoots(indexDir: string): WorkspaceInfo {
     if (roots.length === 1) return { roots, type: "gradle" }
   }
 
+  // Check Swift Package Manager (Package.swift with local package dependencies)
+  const packageSwiftPath = join(absRoot, "Package.swift")
+  if (existsSync(packageSwiftPath)) {
+    const roots = parseSwiftPackage(absRoot, packageSwiftPath)
+    return { roots, type: "swiftpm" }
+  }
+
+  // Check Xcode workspace (*.xcworkspace referencing projects and local packages)
+  const xcworkspace = findXcodeWorkspace(absRoot)
+  if (xcworkspace) {
+    const roots = parseXcodeWorkspace(absRoot, xcworkspace)
+    if (roots.length > 0) return { roots, type: "xcode" }
+  }
+
   // Single-package repo
   return { roots: ["."], type: "single" }
 }
@@ -122,7 +137,7 @@ const ROOT_EXTENSION_LANGUAGE: Record<string, string> = {
   ".py": "python", ".pyi": "python",
   ".go": "go",
   ".rs": "rust",
-  ".java": "java", ".kt": "kotlin",
+  ".java": "java", ".kt": "kotlin", ".kts": "kotlin",
   ".rb": "ruby",
   ".php": "php",
   ".c": "c", ".h": "c",
@@ -286,20 +301,43 @@ function parseMavenModules(absRoot: string, pomPath: string): string[] {
   }
 }
 
-/** Parse Gradle settings.gradle(.kts) to extract include() entries. */
+/**
+ * Parse Gradle settings.gradle(.kts) to extract include() entries.
+ *
+ * Handles both the Groovy DSL (`include ':app', ':lib'`) and the Kotlin DSL,
+ * where a single call commonly lists many modules across lines
+ * (`include(":app", ":core:data")`) and modules may be relocated with
+ * `project(":core:data").projectDir = file("libs/data")`.
+ */
 function parseGradleSettings(absRoot: string, settingsPath: string): string[] {
   try {
     const content = readFileSync(settingsPath, "utf-8")
-    const modules: string[] = []
+      // Strip comments so commented-out modules are not picked up
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .replace(/^\s*\/\/.*$/gm, "")
 
-    // Match include("module") or include(":module") or include ':module'
-    const includeRegex = /include\s*\(?['"][:.]?([^'"]+)['"]/g
+    // Kotlin DSL / Groovy projectDir overrides: project(":name").projectDir = file("path")
+    const projectDirs = new Map<string, string>()
+    const projectDirRegex = /project\s*\(\s*['"]([^'"]+)['"]\s*\)\s*\.projectDir\s*=\s*(?:file\s*\(\s*|new\s+File\s*\([^,]*,\s*)?['"]([^'"]+)['"]/g
     let match: RegExpExecArray | null
+    while ((match = projectDirRegex.exec(content)) !== null) {
+      projectDirs.set(normalizeGradlePath(match[1]!), match[2]!.replace(/^\.\//, "").replace(/\/$/, ""))
+    }
+
+    // include("a", "b") — possibly spanning lines — or include 'a', 'b'
+    const modules: string[] = []
+    const includeRegex = /\binclude\s*(?:\(([^)]*)\)|((?:['"][^'"]+['"]\s*,?\s*)+))/g
     while ((match = includeRegex.exec(content)) !== null) {
-      // Gradle uses ":" as path separator, convert to filesystem path
-      const modulePath = match[1]!.replace(/:/g, "/").trim()
-      if (modulePath && existsSync(join(absRoot, modulePath))) {
-        modules.push(modulePath)
+      const args = match[1] ?? match[2] ?? ""
+      const argRegex = /['"]([^'"]+)['"]/g
+      let arg: RegExpExecArray | null
+      while ((arg = argRegex.exec(args)) !== null) {
+        const gradlePath = normalizeGradlePath(arg[1]!)
+        // Gradle uses ":" as path separator, convert to filesystem path
+        const modulePath = projectDirs.get(gradlePath) ?? gradlePath.replace(/:/g, "/")
+        if (modulePath && !modules.includes(modulePath) && existsSync(join(absRoot, modulePath))) {
+          modules.push(modulePath)
+        }
       }
     }
 
@@ -308,3 +346,86 @@ function parseGradleSettings(absRoot: string, settingsPath: string): string[] {
     return ["."]
   }
 }
+
+/** Normalize a Gradle project path (":core:data") to "core:data". */
+function normalizeGradlePath(path: string): string {
+  return path.trim().replace(/^[:.]/, "")
+}
+
+/**
+ * Parse Package.swift for local package dependencies (`.package(path: "Packages/Core")`).
+ * The root package is always included; paths outside the repository are ignored.
+ */
+function parseSwiftPackage(absRoot: string, manifestPath: string): string[] {
+  const roots = ["."]
+  try {
+    const content = readFileSync(manifestPath, "utf-8")
+    const pathRegex = /\.package\s*\(\s*(?:name\s*:\s*"[^"]*"\s*,\s*)?path\s*:\s*"([^"]+)"/g
+    let match: RegExpExecArray | null
+    while ((match = pathRegex.exec(content)) !== null) {
+      const rel = toRepoRelative(absRoot, join(absRoot, match[1]!))
+      if (rel && !roots.includes(rel) && existsSync(join(absRoot, rel, "Package.swift"))) {
+        roots.push(rel)
+      }
+    }
+  } catch {
+    // fall through with the root package only
+  }
+  return roots
+}
+
+/** Find a top-level *.xcworkspace directory (not the one embedded in an .xcodeproj). */
+function findXcodeWorkspace(absRoot: string): string | null {
+  try {
+    const entry = readdirSync(absRoot, { withFileTypes: true })
+      .find((e) => e.isDirectory() && e.name.endsWith(".xcworkspace"))
+    return entry ? join(absRoot, entry.name) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse an Xcode workspace's contents.xcworkspacedata. Each
+ * `<FileRef location="group:App/App.xcodeproj">` contributes the directory
+ * containing the project; references to folders with a Package.swift
+ * contribute the package directory. CocoaPods' Pods project is skipped.
+ */
+function parseXcodeWorkspace(absRoot: string, workspacePath: string): string[] {
+  const dataPath = join(workspacePath, "contents.xcworkspacedata")
+  if (!existsSync(dataPath)) return []
+
+  const roots: string[] = []
+  try {
+    const content = readFileSync(dataPath, "utf-8")
+    const workspaceDir = resolve(workspacePath, "..")
+    const refRegex = /<FileRef\s+location\s*=\s*"(?:group|container|self):([^"]+)"/g
+    let match: RegExpExecArray | null
+    while ((match = refRegex.exec(content)) !== null) {
+      const refPath = match[1]!
+      if (refPath.startsWith("Pods/") || refPath === "Pods") continue
+
+      const target = join(workspaceDir, refPath)
+      let rootDir: string | null = null
+      if (refPath.endsWith(".xcodeproj")) {
+        rootDir = resolve(target, "..")
+      } else if (existsSync(join(target, "Package.swift"))) {
+        rootDir = target
+      }
+      if (!rootDir) continue
+
+      const rel = toRepoRelative(absRoot, rootDir)
+      if (rel && !roots.includes(rel)) roots.push(rel)
+    }
+  } catch {
+    return []
+  }
+  return roots
+}
+
+/** Convert an absolute path to a repo-relative root ("." for the repo itself), or null if outside. */
+function toRepoRelative(absRoot: string, target: string): string | null {
+  const rel = relative(absRoot, resolve(target))
+  if (rel.startsWith("..")) return null
+  return rel === "" ? "." : rel
+}
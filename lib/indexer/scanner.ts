@@ -27,6 +27,7 @@ const EXTENSION_LANGUAGE: Record<string, string> = {
   ".rs": "rust",
   ".java": "java",
   ".kt": "kotlin",
+  ".kts": "kotlin",
   ".rb": "ruby",
   ".php": "php",
   ".c": "c",
@@ -40,11 +41,16 @@ const EXTENSION_LANGUAGE: Record<string, string> = {
   ".yaml": "yaml",
   ".yml": "yaml",
   ".toml": "toml",
+  ".tf": "terraform",
   ".md": "markdown",
   ".css": "css",
   ".scss": "scss",
   ".html": "html",
   ".sql": "sql",
+  ".prisma": "prisma",
+  ".graphql": "graphql",
+  ".gql": "graphql",
+  ".proto": "protobuf",
   ".sh": "shell",
   ".bash": "shell",
   ".zsh": "shell",
@@ -16,6 +16,13 @@ import { entityHash } from "./entity-hash"
 import { ALWAYS_IGNORE } from "./ignore"
 import type { ParsedEdge, ParsedEntity } from "./types"
 
+/** Raw indexer output, handed to SCIPOptions.onArtifact before the plugin deletes the file */
+export interface SCIPArtifact {
+  scipFilePath: string
+  language: string
+  buffer: Buffer
+}
+
 export interface SCIPDecodeResult {
   entities: ParsedEntity[]
   edges: ParsedEdge[]
@@ -29,12 +36,14 @@ export interface SCIPDecodeResult {
  * @param repoId - Repository ID for deterministic entity hashing
  * @param language - Language identifier (e.g., "typescript", "python", "go")
  * @param isIncluded - Optional filter: returns true if a relative path should be included
+ * @param onArtifact - Optional sink for the raw .scip bytes (stored for position queries)
  */
 export function parseSCIPOutput(
   scipFilePath: string,
   repoId: string,
   language: string,
   isIncluded?: (relativePath: string) => boolean,
+  onArtifact?: (artifact: SCIPArtifact) => void,
 ): SCIPDecodeResult {
   const entities: ParsedEntity[] = []
   const edges: ParsedEdge[] = []
@@ -43,6 +52,7 @@ export function parseSCIPOutput(
 
   try {
     const buffer = readFileSync(scipFilePath)
+    onArtifact?.({ scipFilePath, language, buffer })
     const documents = decodeSCIPDocuments(buffer)
 
     // Resolve project package names from the language-appropriate manifest file.
@@ -211,12 +221,13 @@ export function parseSCIPOutput(
 // ---------------------------------------------------------------------------
 
 /** Minimal SCIP protobuf document representation */
-interface SCIPDocument {
+export interface SCIPDocument {
   relativePath: string
   occurrences: SCIPOccurrence[]
 }
 
-interface SCIPOccurrence {
+/** `range` is zero-based: [startLine, startChar, endLine, endChar], or [line, startChar, endChar] */
+export interface SCIPOccurrence {
   range: number[]
   symbol: string
   isDefinition: boolean
@@ -230,7 +241,7 @@ interface SCIPOccurrence {
  * - Document: { relative_path: string (field 1), occurrences: repeated Occurrence (field 2) }
  * - Occurrence: { range: repeated int32 (field 1), symbol: string (field 2), symbol_roles: int32 (field 4) }
  */
-function decodeSCIPDocuments(buffer: Buffer): SCIPDocument[] {
+export function decodeSCIPDocuments(buffer: Buffer): SCIPDocument[] {
   const documents: SCIPDocument[] = []
   let offset = 0
 
@@ -417,7 +428,7 @@ function readVarint(buffer: Buffer, offset: number): { value: number; offset: nu
  *   Python        → pyproject.toml [project].name or setup.cfg [metadata].name
  *   Go            → go.mod module line
  *   Rust          → Cargo.toml [package].name
- *   Java          → pom.xml <artifactId> or build.gradle rootProject.name
+ *   Java/Kotlin   → pom.xml <artifactId> or build.gradle rootProject.name
  *   PHP           → composer.json "name"
  *   Ruby          → *.gemspec name or Gemfile
  *   C#            → *.csproj <AssemblyName>/<RootNamespace>
@@ -516,7 +527,8 @@ function resolveNamesFromDir(dir: string, language: string, names: Set<string>):
       return false
     }
 
-    case "java": {
+    case "java":
+    case "kotlin": {
       // Maven: pom.xml <artifactId>
       const pomXml = join(dir, "pom.xml")
       if (existsSync(pomXml)) {
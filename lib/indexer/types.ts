@@ -59,6 +59,13 @@ export type EntityKind =
   | "namespace"
   | "decorator"
   | "struct"
+  | "table"
+  | "view"
+  | "column"
+  | "resource"
+  | "api_operation"
+  | "message"
+  | "field"
 
 /** Edge (relationship) between two entities */
 export interface ParsedEdge {
@@ -81,6 +88,8 @@ export type EdgeKind =
   | "parameter_of"
   | "member_of"
   | "logically_coupled"  // L-24: git co-change coupling
+  | "reads_table"        // code/view → table it queries
+  | "writes_table"       // code → table it inserts/updates/deletes
 
 /** Result from a language plugin's SCIP indexing */
 export interface SCIPResult {
@@ -117,5 +126,5 @@ export interface WorkspaceInfo {
   /** Root paths for monorepo packages (or ["."] for single-package repos) */
   roots: string[]
   /** Type of monorepo tooling detected */
-  type: "pnpm" | "yarn" | "npm" | "nx" | "lerna" | "maven" | "gradle" | "single"
+  type: "pnpm" | "yarn" | "npm" | "nx" | "lerna" | "maven" | "gradle" | "swiftpm" | "xcode" | "single"
 }
@@ -12,6 +12,8 @@ export const EDGE_WEIGHTS: Record<string, number> = {
   calls: 0.5,
   references: 0.3,
   mutates_state: 0.9,
+  writes_table: 0.8,
+  reads_table: 0.4,
   implements: 0.7,
   emits: 0.6,
   listens_to: 0.6,
@@ -133,6 +133,6 @@ export function buildTestContext(
   return { testFiles, assertions }
 }
 
-function isTestFile(filePath: string): boolean {
+export function isTestFile(filePath: string): boolean {
   return TEST_FILE_PATTERNS.some((p) => p.test(filePath))
 }
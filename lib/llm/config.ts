@@ -1,10 +1,15 @@
 /**
- * Centralized LLM configuration — AWS Bedrock only.
+ * Centralized LLM configuration — AWS Bedrock, or any OpenAI-compatible
+ * endpoint (vLLM, llama.cpp server, Ollama) for air-gapped deployments.
  *
  * Task-based model groups replace the old tier system.
- * Default models: GPT-OSS (20B/120B) + Qwen3 Coder 30B on Bedrock.
+ * Default models: GPT-OSS (20B/120B) + Qwen3 Coder 30B on Bedrock, or the
+ * same open-weight models under their Hugging Face names when self-hosted.
  *
  * Environment overrides (all optional):
+ *   LLM_PROVIDER                     — "bedrock" (default) or "openai_compatible"
+ *   LLM_BASE_URL                     — OpenAI-compatible API root (default: "http://localhost:8000/v1")
+ *   LLM_API_KEY                      — Bearer key for the endpoint, if it requires one
  *   AWS_REGION                       — AWS region (default: "us-east-1")
  *   LLM_MODEL_CODE_REASONING         — Bulk code classification (Qwen3 Coder 30B)
  *   LLM_MODEL_CODE_REASONING_COMPLEX — Safety/high-centrality entities (GPT-OSS 120B)
@@ -12,8 +17,24 @@
  *   LLM_MODEL_ANALYSIS               — Ontology, anti-patterns, rules (GPT-OSS 120B)
  *   LLM_MODEL_WRITING                — ADR generation, drift docs (GPT-OSS 120B)
  *   LLM_MODEL_CLASSIFICATION         — Drift detection, pattern synthesis (GPT-OSS 20B)
+ *   LLM_LOCAL_COST_INPUT_PER_1M      — USD per 1M input tokens for self-hosted models (default: 0)
+ *   LLM_LOCAL_COST_OUTPUT_PER_1M     — USD per 1M output tokens for self-hosted models (default: 0)
+ *   LLM_LOCAL_COST_<GROUP>_INPUT_PER_1M / _OUTPUT_PER_1M
+ *                                    — Per-group override, e.g. LLM_LOCAL_COST_ANALYSIS_INPUT_PER_1M
  */
 
+// ── Provider ──────────────────────────────────────────────────────────────────
+
+export type LLMProviderName = "bedrock" | "openai_compatible"
+
+/** Which ILLMProvider adapter the container wires up. */
+export function getLLMProviderName(): LLMProviderName {
+  return process.env.LLM_PROVIDER === "openai_compatible" ? "openai_compatible" : "bedrock"
+}
+
+/** API root of the OpenAI-compatible server (vLLM and llama.cpp default to port 8000/8080; Ollama serves /v1 on 11434). */
+export const LLM_BASE_URL: string = process.env.LLM_BASE_URL ?? "http://localhost:8000/v1"
+
 // ── Models ────────────────────────────────────────────────────────────────────
 
 export const AWS_REGION: string = process.env.AWS_REGION ?? "us-east-1"
@@ -37,30 +58,60 @@ const MODEL_GROUP_DEFAULTS: Record<ModelGroup, string> = {
   classification: "openai.gpt-oss-20b-1:0",
 }
 
-/** Env var name for each group. */
-const MODEL_GROUP_ENV_KEYS: Record<ModelGroup, string> = {
-  code_reasoning: "LLM_MODEL_CODE_REASONING",
-  code_reasoning_complex: "LLM_MODEL_CODE_REASONING_COMPLEX",
-  code_reasoning_simple: "LLM_MODEL_CODE_REASONING_SIMPLE",
-  analysis: "LLM_MODEL_ANALYSIS",
-  writing: "LLM_MODEL_WRITING",
-  classification: "LLM_MODEL_CLASSIFICATION",
+/** Env var suffix for each group (LLM_MODEL_<suffix>, LLM_LOCAL_COST_<suffix>_*). */
+const MODEL_GROUP_ENV_SUFFIXES: Record<ModelGroup, string> = {
+  code_reasoning: "CODE_REASONING",
+  code_reasoning_complex: "CODE_REASONING_COMPLEX",
+  code_reasoning_simple: "CODE_REASONING_SIMPLE",
+  analysis: "ANALYSIS",
+  writing: "WRITING",
+  classification: "CLASSIFICATION",
+}
+
+/** Per-token cost from a USD-per-1M env var; unset per-group vars fall back to LLM_LOCAL_COST_*. */
+function localCostPerToken(group: ModelGroup, direction: "INPUT" | "OUTPUT"): number {
+  const perGroup = process.env[`LLM_LOCAL_COST_${MODEL_GROUP_ENV_SUFFIXES[group]}_${direction}_PER_1M`]
+  return parseFloat(perGroup ?? process.env[`LLM_LOCAL_COST_${direction}_PER_1M`] ?? "0") / 1_000_000
+}
+
+function localModelEntry(group: ModelGroup, model: string): { model: string; cost: { input: number; output: number } } {
+  return { model, cost: { input: localCostPerToken(group, "INPUT"), output: localCostPerToken(group, "OUTPUT") } }
 }
 
 /**
- * Get the Bedrock model ID for a given task group.
- * Reads the corresponding env var, falling back to the default.
+ * Default model name and cost for each group on an OpenAI-compatible server.
+ * The name is the one the server was started with (`vllm serve <name>`,
+ * `ollama pull <name>`) — the same open-weight models as the Bedrock defaults.
+ * Self-hosted models have no per-token price; the LLM_LOCAL_COST_* env vars
+ * amortize GPU spend into usage reports, per group since model sizes differ.
+ */
+const LOCAL_MODEL_GROUPS: Record<ModelGroup, { model: string; cost: { input: number; output: number } }> = {
+  code_reasoning: localModelEntry("code_reasoning", "Qwen/Qwen3-Coder-30B-A3B-Instruct"),
+  code_reasoning_complex: localModelEntry("code_reasoning_complex", "openai/gpt-oss-120b"),
+  code_reasoning_simple: localModelEntry("code_reasoning_simple", "openai/gpt-oss-20b"),
+  analysis: localModelEntry("analysis", "openai/gpt-oss-120b"),
+  writing: localModelEntry("writing", "openai/gpt-oss-120b"),
+  classification: localModelEntry("classification", "openai/gpt-oss-20b"),
+}
+
+/**
+ * Get the model ID for a given task group.
+ * Reads the corresponding env var, falling back to the active provider's default.
  */
 export function getModelForGroup(group: ModelGroup): string {
-  const envKey = MODEL_GROUP_ENV_KEYS[group]
-  return process.env[envKey] ?? MODEL_GROUP_DEFAULTS[group]
+  const fallback = getLLMProviderName() === "openai_compatible" ? LOCAL_MODEL_GROUPS[group].model : MODEL_GROUP_DEFAULTS[group]
+  return process.env[`LLM_MODEL_${MODEL_GROUP_ENV_SUFFIXES[group]}`] ?? fallback
 }
 
 // ── Embedding & Reranking Models ──────────────────────────────────────────────
 
-/** Vertex AI model for embedding (Gemini Embedding 001, 768 dims via outputDimensionality). */
+/**
+ * Embedding model: Vertex AI Gemini Embedding 001 (768 dims via outputDimensionality),
+ * or nomic-embed-text v1.5 (native 768 dims) on an OpenAI-compatible server.
+ */
 export const EMBEDDING_MODEL_ID: string =
-  process.env.EMBEDDING_MODEL_ID ?? "gemini-embedding-001"
+  process.env.EMBEDDING_MODEL_ID
+  ?? (getLLMProviderName() === "openai_compatible" ? "nomic-ai/nomic-embed-text-v1.5" : "gemini-embedding-001")
 
 /** Embedding output dimensions. Gemini Embedding 001 supports up to 3072; we use 768 for pgvector efficiency. */
 export const EMBEDDING_DIMENSIONS: number =
@@ -86,6 +137,21 @@ export const MODEL_COSTS: Record<string, { input: number; output: number }> = {
 
 export const MODEL_COST_FALLBACK = { input: 0.15 / 1_000_000, output: 0.60 / 1_000_000 }
 
+/**
+ * Per-token cost for a model. With the OpenAI-compatible provider active, a
+ * model serving one of the groups (custom LLM_MODEL_* names included) takes
+ * that group's local cost. Anything else is priced at the fallback.
+ */
+export function getModelCost(model: string): { input: number; output: number } {
+  const known = MODEL_COSTS[model]
+  if (known) return known
+  if (getLLMProviderName() === "openai_compatible") {
+    const group = (Object.keys(LOCAL_MODEL_GROUPS) as ModelGroup[]).find((g) => getModelForGroup(g) === model)
+    if (group) return LOCAL_MODEL_GROUPS[group].cost
+  }
+  return MODEL_COST_FALLBACK
+}
+
 // ── Model Limits ──────────────────────────────────────────────────────────────
 
 /** Per-model context window and max output token limits. */
@@ -94,6 +160,9 @@ export const MODEL_LIMITS: Record<string, { contextWindow: number; maxOutput: nu
   "openai.gpt-oss-120b-1:0": { contextWindow: 128_000, maxOutput: 8192 },
   "qwen.qwen3-coder-30b-a3b-v1:0": { contextWindow: 128_000, maxOutput: 8192 },
   "qwen.qwen3-32b-v1:0": { contextWindow: 128_000, maxOutput: 8192 },
+  "Qwen/Qwen3-Coder-30B-A3B-Instruct": { contextWindow: 128_000, maxOutput: 8192 },
+  "openai/gpt-oss-20b": { contextWindow: 128_000, maxOutput: 8192 },
+  "openai/gpt-oss-120b": { contextWindow: 128_000, maxOutput: 8192 },
 }
 
 export const MODEL_LIMITS_FALLBACK = { contextWindow: 128_000, maxOutput: 4096 }
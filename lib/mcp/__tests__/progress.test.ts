@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { McpAuthContext } from "../auth"
+import { abortable, ToolCallCancelledError } from "../progress"
+import { handleMcpRequest } from "../server"
+
+const ORG = "org-test"
+const REPO = "repo-test"
+
+let container: Container
+let ctx: McpAuthContext
+
+beforeEach(async () => {
+  container = createTestContainer()
+  ctx = { authMode: "api_key", userId: "user-1", orgId: ORG, repoId: REPO, scopes: ["mcp:read"], sessionId: "session-1" }
+
+  await container.graphStore.bulkUpsertEntities(ORG, [
+    { id: "e1", org_id: ORG, repo_id: REPO, kind: "function", name: "processOrder", file_path: "src/orders.ts", start_line: 1 },
+    { id: "e2", org_id: ORG, repo_id: REPO, kind: "function", name: "saveOrder", file_path: "src/orders.ts", start_line: 20 },
+  ])
+  await container.graphStore.bulkUpsertEdges(ORG, [
+    { _from: "functions/e1", _to: "functions/e2", org_id: ORG, repo_id: REPO, kind: "calls" },
+  ])
+})
+
+describe("abortable", () => {
+  it("rejects as soon as the signal aborts", async () => {
+    const controller = new AbortController()
+    const pending = abortable(new Promise<never>(() => {}), controller.signal)
+    controller.abort("stop")
+
+    await expect(pending).rejects.toBeInstanceOf(ToolCallCancelledError)
+    await expect(pending).rejects.toThrow("stop")
+  })
+})
+
+describe("tools/call progress", () => {
+  it("emits notifications/progress for each stage when a progressToken is sent", async () => {
+    const notifications: Array<Record<string, unknown>> = []
+    const response = await handleMcpRequest(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "analyze_impact", arguments: { entity_name: "saveOrder" }, _meta: { progressToken: "tok-1" } },
+      },
+      ctx,
+      container,
+      undefined,
+      (n) => notifications.push(n)
+    )
+
+    expect((response.result as { isError?: boolean }).isError).toBeUndefined()
+    expect(notifications).toHaveLength(3)
+    expect(notifications.every((n) => n.method === "notifications/progress")).toBe(true)
+    expect(notifications.map((n) => (n.params as { progress: number }).progress)).toEqual([1, 2, 3])
+    expect(notifications[0]!.params).toMatchObject({ progressToken: "tok-1", total: 3, message: "Resolved saveOrder" })
+  })
+
+  it("stays silent without a progressToken", async () => {
+    const notifications: Array<Record<string, unknown>> = []
+    await handleMcpRequest(
+      { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "analyze_impact", arguments: { entity_name: "saveOrder" } } },
+      ctx,
+      container,
+      undefined,
+      (n) => notifications.push(n)
+    )
+
+    expect(notifications).toEqual([])
+  })
+})
+
+describe("notifications/cancelled", () => {
+  it("aborts the in-flight call of the same session", async () => {
+    container.graphStore.searchEntities = () => new Promise(() => {})
+
+    const call = handleMcpRequest(
+      { jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "analyze_impact", arguments: { entity_name: "saveOrder" } } },
+      ctx,
+      container
+    )
+
+    // Another session cannot cancel it
+    await handleMcpRequest(
+      { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 7 } },
+      { ...ctx, sessionId: "session-2" },
+      container
+    )
+    await handleMcpRequest(
+      { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 7, reason: "User pressed stop" } },
+      ctx,
+      container
+    )
+
+    const response = await call
+    expect(response.result).toEqual({ isError: true, content: [{ type: "text", text: "User pressed stop" }] })
+  })
+
+  it("ignores cancels from another identity or without a session", async () => {
+    let release: () => void = () => {}
+    container.graphStore.searchEntities = () => new Promise((resolve) => { release = () => resolve([]) })
+    const sessionless = { ...ctx, sessionId: undefined }
+
+    const call = handleMcpRequest(
+      { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "analyze_impact", arguments: { entity_name: "saveOrder" } } },
+      sessionless,
+      container
+    )
+
+    await handleMcpRequest(
+      { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 1 } },
+      { ...sessionless, userId: "user-2" },
+      container
+    )
+    await handleMcpRequest({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 1 } }, sessionless, container)
+    release()
+
+    const response = await call
+    expect(response.result).not.toMatchObject({ content: [{ text: "Request cancelled" }] })
+  })
+})
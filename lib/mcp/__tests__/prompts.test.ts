@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { EntityDoc, JustificationDoc, RuleDoc } from "@/lib/ports/types"
+import type { McpAuthContext } from "../auth"
+import { getPrompt, PROMPT_DEFINITIONS } from "../prompts"
+import { handleMcpRequest } from "../server"
+
+let container: Container
+let ctx: McpAuthContext
+
+const ORG = "org-test"
+const REPO = "repo-test"
+
+function makeEntity(id: string, name: string): EntityDoc {
+  return { id, org_id: ORG, repo_id: REPO, kind: "function", name, file_path: "src/orders.ts", start_line: 10 }
+}
+
+function makeJustification(entityId: string): JustificationDoc {
+  return {
+    id: `j-${entityId}`, org_id: ORG, repo_id: REPO, entity_id: entityId,
+    taxonomy: "VERTICAL", confidence: 0.9, business_purpose: `Handles ${entityId}`,
+    domain_concepts: ["order"], feature_tag: "order_management",
+    semantic_triples: [], compliance_tags: [], model_tier: "standard",
+    valid_from: "2026-01-01", valid_to: null, created_at: "2026-01-01",
+  }
+}
+
+const RULE: RuleDoc = {
+  id: "rule-1", org_id: ORG, repo_id: REPO, name: "no-raw-sql", title: "No raw SQL in handlers",
+  description: "Use the repository layer instead of raw SQL.", type: "architecture", scope: "repo",
+  enforcement: "block", priority: 80, status: "active", created_at: "2026-01-01", updated_at: "2026-01-01",
+}
+
+beforeEach(async () => {
+  container = createTestContainer()
+  ctx = { authMode: "api_key", userId: "user-1", orgId: ORG, repoId: REPO, scopes: ["mcp:read"] }
+
+  await container.graphStore.bulkUpsertEntities(ORG, [makeEntity("e1", "processOrder"), makeEntity("e2", "saveOrder")])
+  await container.graphStore.bulkUpsertEdges(ORG, [
+    { _from: "functions/e1", _to: "functions/e2", org_id: ORG, repo_id: REPO, kind: "calls" },
+  ])
+  await container.graphStore.bulkUpsertJustifications(ORG, [makeJustification("e1"), makeJustification("e2")])
+  await container.graphStore.upsertRule(ORG, RULE)
+})
+
+describe("MCP prompts", () => {
+  it("lists prompts with their arguments over JSON-RPC", async () => {
+    const response = await handleMcpRequest({ jsonrpc: "2.0", id: 1, method: "prompts/list" }, ctx, container)
+    const prompts = (response.result as { prompts: typeof PROMPT_DEFINITIONS }).prompts
+
+    expect(prompts.map((p) => p.name)).toEqual(["review-diff", "explain-feature", "refactor-plan", "fix-health-issue"])
+    expect(prompts.find((p) => p.name === "refactor-plan")!.arguments[0]).toMatchObject({ name: "entity_name", required: true })
+  })
+
+  it("refactor-plan embeds impact analysis and relevant rules", async () => {
+    const result = await getPrompt("refactor-plan", { entity_name: "saveOrder", goal: "split persistence" }, ctx, container)
+    const text = result.messages[0]!.content.text
+
+    expect(result.description).toBe("Refactor plan for saveOrder")
+    expect(text).toContain("Goal: split persistence")
+    expect(text).toContain("\"processOrder\"")
+    expect(text).toContain("**No raw SQL in handlers** (block)")
+  })
+
+  it("review-diff lists changed files and applicable rules", async () => {
+    const diff = "--- a/src/orders.ts\n+++ b/src/orders.ts\n@@ -1,2 +1,3 @@\n+db.query('select 1')\n"
+    const result = await getPrompt("review-diff", { diff }, ctx, container)
+
+    expect(result.messages[0]!.content.text).toContain("- src/orders.ts")
+    expect(result.messages[0]!.content.text).toContain("No raw SQL in handlers")
+  })
+
+  it("explain-feature summarises the feature's entities", async () => {
+    const result = await getPrompt("explain-feature", { feature_tag: "order_management" }, ctx, container)
+
+    expect(result.messages[0]!.content.text).toContain("`processOrder` (src/orders.ts) [VERTICAL]: Handles e1")
+  })
+
+  it("fix-health-issue reuses the agent prompt builder", async () => {
+    await container.graphStore.upsertHealthReport(ORG, {
+      id: "health-1", org_id: ORG, repo_id: REPO, total_entities: 2, justified_entities: 2,
+      average_confidence: 0.9, taxonomy_breakdown: {}, generated_at: "2026-01-01",
+      risks: [{
+        riskType: "dead_code", description: "Unused code", severity: "medium", affectedCount: 1,
+        entities: [{ id: "e2", name: "saveOrder", filePath: "src/orders.ts" }],
+      }],
+    })
+
+    const result = await getPrompt("fix-health-issue", { risk_type: "dead_code" }, ctx, container)
+
+    expect(result.messages[0]!.content.text).toContain("## Task: Remove Dead Code")
+    expect(result.messages[0]!.content.text).toContain("- `saveOrder` in src/orders.ts")
+  })
+
+  it("returns invalid-params errors for unknown prompts and missing arguments", async () => {
+    const unknown = await handleMcpRequest({ jsonrpc: "2.0", id: 2, method: "prompts/get", params: { name: "nope" } }, ctx, container)
+    expect(unknown.error).toMatchObject({ code: -32602 })
+
+    const missing = await handleMcpRequest(
+      { jsonrpc: "2.0", id: 3, method: "prompts/get", params: { name: "refactor-plan", arguments: {} } },
+      ctx,
+      container
+    )
+    expect(missing.error).toMatchObject({ code: -32602, message: "Missing required argument: entity_name" })
+  })
+})
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { ADRDoc, HealthReportDoc } from "@/lib/ports/types"
+import type { McpAuthContext } from "../auth"
+import {
+  adrUri,
+  contextUri,
+  entityUri,
+  healthUri,
+  listResources,
+  markResourcesUpdated,
+  parseResourceUri,
+  pollResourceUpdates,
+  readResource,
+  subscribeResource,
+} from "../resources"
+import { handleMcpRequest } from "../server"
+
+const ORG = "org-test"
+
+let container: Container
+let ctx: McpAuthContext
+let repoId: string
+
+const ADR: ADRDoc = {
+  id: "adr-billing",
+  org_id: ORG,
+  repo_id: "",
+  feature_area: "billing",
+  title: "Charges go through the payment gateway",
+  context: "Several features create charges.",
+  decision: "All charges are created by BillingService.",
+  consequences: "Retries live in one place.",
+  generated_at: "2026-10-01T00:00:00.000Z",
+}
+
+function healthReport(repo: string): HealthReportDoc {
+  return {
+    id: `health-${repo}`,
+    org_id: ORG,
+    repo_id: repo,
+    total_entities: 1,
+    justified_entities: 1,
+    average_confidence: 0.9,
+    taxonomy_breakdown: { VERTICAL: 1 },
+    risks: [],
+    generated_at: "2026-10-01T00:00:00.000Z",
+  }
+}
+
+beforeEach(async () => {
+  container = createTestContainer()
+  const repo = await container.relationalStore.createRepo({
+    organizationId: ORG,
+    name: "shop",
+    fullName: "acme/shop",
+    provider: "github",
+    providerId: "1",
+    status: "ready",
+  })
+  repoId = repo.id
+  ctx = { authMode: "api_key", userId: "user-1", orgId: ORG, repoId, scopes: ["mcp:read"], sessionId: "session-1" }
+
+  await container.graphStore.bulkUpsertEntities(ORG, [
+    { id: "e1", org_id: ORG, repo_id: repoId, kind: "function", name: "chargeCard", file_path: "src/billing.ts", start_line: 3 },
+  ])
+  await container.graphStore.upsertHealthReport(ORG, healthReport(repoId))
+  await container.graphStore.bulkUpsertADRs(ORG, [{ ...ADR, repo_id: repoId }])
+})
+
+describe("resource URIs", () => {
+  it("round-trips repo and entity URIs", () => {
+    expect(parseResourceUri(adrUri("r1", "adr/1"))).toEqual({ type: "adr", repoId: "r1", id: "adr/1" })
+    expect(parseResourceUri(contextUri("r1"))).toEqual({ type: "context", repoId: "r1" })
+    expect(parseResourceUri(entityUri("fn:1"))).toEqual({ type: "entity", id: "fn:1" })
+    expect(parseResourceUri("unerr://repo/r1/unknown")).toBeNull()
+  })
+})
+
+describe("listResources / readResource", () => {
+  it("lists context, health report and ADRs for the scoped repo", async () => {
+    const resources = await listResources(ctx, container)
+
+    expect(resources.map((r) => r.uri)).toEqual([contextUri(repoId), healthUri(repoId), adrUri(repoId, "adr-billing")])
+    expect(resources[2]).toMatchObject({ name: "acme/shop — ADR: Charges go through the payment gateway", mimeType: "text/markdown" })
+  })
+
+  it("reads ADRs as markdown, the health report and entity profiles as JSON", async () => {
+    const adr = await readResource(adrUri(repoId, "adr-billing"), ctx, container)
+    expect(adr.mimeType).toBe("text/markdown")
+    expect(adr.text).toContain("# Charges go through the payment gateway")
+    expect(adr.text).toContain("All charges are created by BillingService.")
+
+    const health = await readResource(healthUri(repoId), ctx, container)
+    expect(JSON.parse(health.text)).toMatchObject({ average_confidence: 0.9 })
+
+    const entity = await readResource(entityUri("e1"), ctx, container)
+    expect(JSON.parse(entity.text)).toMatchObject({ id: "e1", name: "chargeCard", file_path: "src/billing.ts" })
+
+    const context = await readResource(contextUri(repoId), ctx, container)
+    expect(context.mimeType).toBe("text/markdown")
+    expect(context.text.length).toBeGreaterThan(0)
+  })
+
+  it("hides resources of other repos from repo-scoped keys", async () => {
+    await expect(readResource(healthUri("repo-other"), ctx, container)).rejects.toMatchObject({ code: -32002 })
+  })
+})
+
+describe("handleMcpRequest resources methods", () => {
+  it("advertises resource subscriptions and templates", async () => {
+    const init = await handleMcpRequest({ jsonrpc: "2.0", id: 1, method: "initialize" }, ctx, container)
+    expect(init.result).toMatchObject({ capabilities: { resources: { subscribe: true } } })
+
+    const templates = await handleMcpRequest({ jsonrpc: "2.0", id: 2, method: "resources/templates/list" }, ctx, container)
+    const uriTemplates = (templates.result as { resourceTemplates: Array<{ uriTemplate: string }> }).resourceTemplates.map((t) => t.uriTemplate)
+    expect(uriTemplates).toContain("unerr://entity/{id}")
+  })
+
+  it("returns JSON-RPC errors for unknown URIs and missing scope", async () => {
+    const unknown = await handleMcpRequest({ jsonrpc: "2.0", id: 3, method: "resources/read", params: { uri: "file:///etc/passwd" } }, ctx, container)
+    expect(unknown.error).toMatchObject({ code: -32602 })
+
+    const noScope = await handleMcpRequest(
+      { jsonrpc: "2.0", id: 4, method: "resources/read", params: { uri: healthUri(repoId) } },
+      { ...ctx, scopes: [] },
+      container
+    )
+    expect(noScope.error).toMatchObject({ code: -32602 })
+  })
+})
+
+describe("resource subscriptions", () => {
+  it("reports updates after the baseline poll", async () => {
+    await subscribeResource(healthUri(repoId), "session-1", ctx, container)
+    await subscribeResource(entityUri("e1"), "session-1", ctx, container)
+    const seen = new Map<string, number>()
+
+    expect(await pollResourceUpdates("session-1", ORG, container.cacheStore, seen)).toEqual([])
+
+    await new Promise((r) => setTimeout(r, 5))
+    await markResourcesUpdated(container.cacheStore, ORG, repoId, { uris: [healthUri(repoId)], entities: true })
+
+    const updated = await pollResourceUpdates("session-1", ORG, container.cacheStore, seen)
+    expect(updated.sort()).toEqual([entityUri("e1"), healthUri(repoId)].sort())
+    expect(await pollResourceUpdates("session-1", ORG, container.cacheStore, seen)).toEqual([])
+  })
+
+  it("keeps markers written by concurrent activities", async () => {
+    await subscribeResource(healthUri(repoId), "session-2", ctx, container)
+    await subscribeResource(entityUri("e1"), "session-2", ctx, container)
+    const seen = new Map<string, number>()
+    await pollResourceUpdates("session-2", ORG, container.cacheStore, seen)
+
+    await new Promise((r) => setTimeout(r, 5))
+    await Promise.all([
+      markResourcesUpdated(container.cacheStore, ORG, repoId, { uris: [healthUri(repoId)] }),
+      markResourcesUpdated(container.cacheStore, ORG, repoId, { entities: true }),
+    ])
+
+    const updated = await pollResourceUpdates("session-2", ORG, container.cacheStore, seen)
+    expect(updated.sort()).toEqual([entityUri("e1"), healthUri(repoId)].sort())
+  })
+
+  it("requires a session to subscribe", async () => {
+    const response = await handleMcpRequest(
+      { jsonrpc: "2.0", id: 5, method: "resources/subscribe", params: { uri: healthUri(repoId) } },
+      { ...ctx, sessionId: undefined },
+      container
+    )
+    expect(response.error).toMatchObject({ code: -32602 })
+  })
+})
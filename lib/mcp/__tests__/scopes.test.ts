@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { createTestContainer } from "@/lib/di/container"
+import { hasScope, type McpAuthContext } from "../auth"
+import { validateAuthorizeRequest } from "../oauth/authorize"
+import { registerClient } from "../oauth/dcr"
+import { getProtectedResourceMetadata } from "../oauth/discovery"
+import { expandScopes, findUnknownScopes } from "../scopes"
+import { dispatchToolCall, getToolSchemas, TOOL_DEFINITIONS } from "../tools"
+
+function ctxWith(scopes: string[]): McpAuthContext {
+  return { authMode: "api_key", userId: "", orgId: "org-1", repoId: "repo-1", scopes }
+}
+
+describe("scope catalogue", () => {
+  it("expands legacy umbrella scopes", () => {
+    expect(Array.from(expandScopes(["mcp:read"]))).toEqual(
+      expect.arrayContaining(["mcp:read", "graph:read", "rules:read", "ledger:read", "reviews:read"])
+    )
+    expect(expandScopes(["mcp:read"]).has("ledger:write")).toBe(false)
+    expect(hasScope(ctxWith(["mcp:sync"]), "workspace:sync")).toBe(true)
+  })
+
+  it("assigns every tool a catalogued scope", () => {
+    for (const def of TOOL_DEFINITIONS) {
+      expect(findUnknownScopes([def.requiredScope])).toEqual([])
+    }
+  })
+
+  it("rejects unknown scopes", () => {
+    expect(findUnknownScopes(["graph:read", "admin:all"])).toEqual(["admin:all"])
+  })
+})
+
+describe("per-tool scope enforcement", () => {
+  it("lists only the tools the caller may invoke", () => {
+    const names = getToolSchemas(ctxWith(["graph:read"])).map((t) => t.name)
+
+    expect(names).toContain("analyze_impact")
+    expect(names).not.toContain("get_rules")
+    expect(names).not.toContain("mark_working")
+    expect(getToolSchemas(ctxWith(["mcp:read", "mcp:sync"]))).toHaveLength(TOOL_DEFINITIONS.length)
+  })
+
+  it("rejects mutating ledger tools without ledger:write", async () => {
+    const result = await dispatchToolCall(
+      "mark_working",
+      { entry_id: "e1" },
+      ctxWith(["graph:read", "ledger:read", "workspace:sync"]),
+      createTestContainer()
+    )
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0]!.text).toContain("'ledger:write'")
+    expect(result.content[0]!.text).toContain("(or mcp:sync)")
+  })
+})
+
+describe("OAuth scopes", () => {
+  const redirect = "http://localhost:3000/callback"
+
+  it("advertises the catalogue in discovery metadata", () => {
+    expect(getProtectedResourceMetadata().scopes_supported).toEqual(
+      expect.arrayContaining(["mcp:read", "mcp:sync", "graph:read", "ledger:write"])
+    )
+  })
+
+  it("rejects unknown scopes at registration", async () => {
+    const result = await registerClient(
+      { client_name: "ide", redirect_uris: [redirect], scope: "graph:read admin:all" },
+      createTestContainer().cacheStore
+    )
+
+    expect(result).toMatchObject({ error: "invalid_client_metadata" })
+  })
+
+  it("limits authorize requests to the registered scopes", async () => {
+    const { cacheStore } = createTestContainer()
+    const client = await registerClient({ client_name: "ide", redirect_uris: [redirect], scope: "graph:read rules:read" }, cacheStore)
+    if ("error" in client) throw new Error(client.error_description)
+    const base = { client_id: client.client_id, redirect_uri: redirect, code_challenge: "abc", code_challenge_method: "S256" }
+
+    expect(client.scope).toBe("graph:read rules:read")
+    expect(await validateAuthorizeRequest({ ...base, scope: "graph:read" }, cacheStore)).toBeNull()
+    expect(await validateAuthorizeRequest({ ...base, scope: "graph:read ledger:write" }, cacheStore)).toMatchObject({
+      error: "invalid_scope",
+      error_description: "Scope not registered for this client: ledger:write",
+    })
+  })
+})
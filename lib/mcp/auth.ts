@@ -14,6 +14,7 @@ import { createHmac, timingSafeEqual } from "crypto"
 import type { ICacheStore } from "@/lib/ports/cache-store"
 import type { IRelationalStore } from "@/lib/ports/relational-store"
 import { logger } from "@/lib/utils/logger"
+import { expandScopes } from "./scopes"
 
 export interface McpAuthContext {
   authMode: "oauth" | "api_key"
@@ -23,6 +24,8 @@ export interface McpAuthContext {
   scopes: string[]
   apiKeyId?: string
   workspaceId?: string
+  /** Mcp-Session-Id of the transport session (set by the transport, not by auth) */
+  sessionId?: string
 }
 
 export interface AuthError {
@@ -267,9 +270,10 @@ function authenticateJwt(token: string): McpAuthContext | AuthError {
 
 /**
  * Check if the auth context has the required scope for a tool.
+ * Legacy umbrella scopes (mcp:read, mcp:sync) grant their fine-grained scopes.
  */
 export function hasScope(ctx: McpAuthContext, requiredScope: string): boolean {
-  return ctx.scopes.includes(requiredScope)
+  return expandScopes(ctx.scopes).has(requiredScope)
 }
 
 /**
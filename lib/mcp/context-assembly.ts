@@ -5,7 +5,8 @@
  */
 
 import type { Container } from "@/lib/di/container"
-import { getEntityProfile, getEntityProfiles, type EntityProfile } from "./entity-profile"
+import { type EntityProfile, getEntityProfile, getEntityProfiles } from "./entity-profile"
+import { abortable, stageReporter, throwIfCancelled, type ToolCallOptions } from "./progress"
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
@@ -24,21 +25,25 @@ export interface AssembledContext {
  * Assemble rich, structured context for a natural language query.
  *
  * Chain: vector search → graph traversal → profile lookup → snippet assembly.
+ * Reports progress after each stage and stops at the next await once
+ * `options.signal` is aborted.
  */
 export async function assembleContext(
   query: string,
   orgId: string,
   repoId: string,
   container: Container,
-  options?: { limit?: number; includeSnippets?: boolean },
+  options?: { limit?: number; includeSnippets?: boolean } & ToolCallOptions,
 ): Promise<AssembledContext> {
   const limit = Math.min(Math.max(options?.limit ?? 10, 1), 25)
   const includeSnippets = options?.includeSnippets !== false
+  const signal = options?.signal
+  const stageDone = stageReporter(includeSnippets ? 5 : 4, options?.onProgress)
 
   // Step 1: Find entry point via vector search
   const embedResult = container.vectorSearch.embedQuery
-    ? await container.vectorSearch.embedQuery(query)
-    : (await container.vectorSearch.embed([query]))[0]
+    ? await abortable(container.vectorSearch.embedQuery(query), signal)
+    : (await abortable(container.vectorSearch.embed([query]), signal))[0]
   if (!embedResult) {
     return {
       entry_point: null,
@@ -51,7 +56,7 @@ export async function assembleContext(
   }
   const embedQuery = embedResult
 
-  const vectorResults = await container.vectorSearch.search(embedQuery, 1, { orgId, repoId })
+  const vectorResults = await abortable(container.vectorSearch.search(embedQuery, 1, { orgId, repoId }, { signal }), signal)
 
   if (vectorResults.length === 0) {
     return {
@@ -72,11 +77,15 @@ export async function assembleContext(
     : rawId
   const entryScore = vectorResults[0]!.score
 
+  stageDone("Found entry point")
+
   // Step 2: Get entry point profile
-  const entryProfile = await getEntityProfile(orgId, repoId, entryEntityId, container)
+  const entryProfile = await abortable(getEntityProfile(orgId, repoId, entryEntityId, container), signal)
+  stageDone("Loaded entry point profile")
 
   // Step 3: Traverse 1-hop neighborhood via graph
-  const subgraph = await container.graphStore.getSubgraph(orgId, entryEntityId, 1)
+  const subgraph = await abortable(container.graphStore.getSubgraph(orgId, entryEntityId, 1, { signal }), signal)
+  stageDone(`Traversed neighborhood (${subgraph.entities.length} entities)`)
 
   // Step 4: Get profiles for neighborhood entities
   const neighborIds = subgraph.entities
@@ -84,7 +93,8 @@ export async function assembleContext(
     .filter((id) => id !== entryEntityId)
     .slice(0, limit)
 
-  const neighborProfiles = await getEntityProfiles(orgId, repoId, neighborIds, container)
+  const neighborProfiles = await abortable(getEntityProfiles(orgId, repoId, neighborIds, container), signal)
+  stageDone("Loaded neighborhood profiles")
 
   // Step 5: Build neighborhood with relationship info, sorted by centrality
   const edgeMap = new Map<string, string>()
@@ -115,6 +125,7 @@ export async function assembleContext(
   if (includeSnippets) {
     const topEntities = [entryEntityId, ...neighborhood.slice(0, 4).map((n) => n.id)]
     for (const entityId of topEntities) {
+      throwIfCancelled(signal)
       try {
         const entity = await container.graphStore.getEntity(orgId, entityId)
         if (entity) {
@@ -132,6 +143,7 @@ export async function assembleContext(
         // Non-fatal — skip entity
       }
     }
+    stageDone(`Fetched ${codeSnippets.length} code snippets`)
   }
 
   // Step 7: Build community context
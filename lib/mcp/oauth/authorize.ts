@@ -6,6 +6,7 @@
 import { createHash, randomBytes } from "crypto"
 import type { ICacheStore } from "@/lib/ports/cache-store"
 import { getClient } from "./dcr"
+import { expandScopes, findUnknownScopes, parseScopeParam } from "../scopes"
 
 export interface AuthorizeParams {
   client_id: string
@@ -70,6 +71,21 @@ export async function validateAuthorizeRequest(
     return { error: "invalid_request", error_description: "Only S256 code_challenge_method is supported" }
   }
 
+  // Requested scopes must be known and within what the client registered
+  if (params.scope !== undefined) {
+    const requested = parseScopeParam(params.scope)
+    const unknownScopes = findUnknownScopes(requested)
+    if (requested.length === 0 || unknownScopes.length > 0) {
+      return { error: "invalid_scope", error_description: `Unknown scope: ${unknownScopes.join(" ") || "(empty)"}` }
+    }
+    // Clients registered before the scope catalogue have no stored scope
+    const registered = expandScopes(parseScopeParam(client.scope ?? "mcp:read mcp:sync"))
+    const notAllowed = requested.filter((s) => !registered.has(s))
+    if (notAllowed.length > 0) {
+      return { error: "invalid_scope", error_description: `Scope not registered for this client: ${notAllowed.join(" ")}` }
+    }
+  }
+
   return null
 }
 
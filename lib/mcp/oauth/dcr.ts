@@ -5,6 +5,7 @@
 
 import { randomBytes } from "crypto"
 import type { ICacheStore } from "@/lib/ports/cache-store"
+import { findUnknownScopes, parseScopeParam } from "../scopes"
 
 export interface DcrRequest {
   client_name: string
@@ -12,6 +13,8 @@ export interface DcrRequest {
   grant_types?: string[]
   response_types?: string[]
   token_endpoint_auth_method?: string
+  /** Space-delimited scopes the client may request (RFC 7591 §2) */
+  scope?: string
 }
 
 export interface DcrResponse {
@@ -22,6 +25,7 @@ export interface DcrResponse {
   grant_types: string[]
   response_types: string[]
   token_endpoint_auth_method: string
+  scope: string
   client_id_issued_at: number
   client_secret_expires_at: number
 }
@@ -39,8 +43,11 @@ interface StoredClient {
   grant_types: string[]
   response_types: string[]
   token_endpoint_auth_method: string
+  scope: string
 }
 
+const DEFAULT_CLIENT_SCOPE = "mcp:read mcp:sync"
+
 const ALLOWED_REDIRECT_PATTERNS = [
   /^http:\/\/localhost(:\d+)?/, // localhost with any port
   /^http:\/\/127\.0\.0\.1(:\d+)?/, // 127.0.0.1 with any port
@@ -76,6 +83,16 @@ export async function registerClient(
     }
   }
 
+  // Validate requested scopes against the catalogue
+  const scopes = parseScopeParam(request.scope ?? DEFAULT_CLIENT_SCOPE)
+  const unknownScopes = findUnknownScopes(scopes)
+  if (scopes.length === 0 || unknownScopes.length > 0) {
+    return {
+      error: "invalid_client_metadata",
+      error_description: `Unknown scope: ${unknownScopes.join(" ") || "(empty)"}. See scopes_supported in the authorization server metadata.`,
+    }
+  }
+
   // Generate client credentials
   const clientId = `dyn_${randomBytes(16).toString("hex")}`
   const authMethod = request.token_endpoint_auth_method ?? "none"
@@ -89,6 +106,7 @@ export async function registerClient(
     grant_types: request.grant_types ?? ["authorization_code"],
     response_types: request.response_types ?? ["code"],
     token_endpoint_auth_method: authMethod,
+    scope: scopes.join(" "),
   }
 
   // Store in Redis with TTL
@@ -106,6 +124,7 @@ export async function registerClient(
     grant_types: storedClient.grant_types,
     response_types: storedClient.response_types,
     token_endpoint_auth_method: storedClient.token_endpoint_auth_method,
+    scope: storedClient.scope,
     client_id_issued_at: now,
     client_secret_expires_at: now + ttlSeconds,
   }
@@ -4,6 +4,8 @@
  * RFC 8414 — Authorization Server Metadata
  */
 
+import { SUPPORTED_SCOPES } from "../scopes"
+
 function getServerUrl(): string {
   return process.env.MCP_SERVER_URL ?? "https://mcp.unerr.dev"
 }
@@ -17,7 +19,7 @@ export function getProtectedResourceMetadata(): Record<string, unknown> {
   return {
     resource: `${serverUrl}/mcp`,
     authorization_servers: [serverUrl],
-    scopes_supported: ["mcp:read", "mcp:sync"],
+    scopes_supported: SUPPORTED_SCOPES,
     bearer_methods_supported: ["header"],
   }
 }
@@ -36,7 +38,7 @@ export function getAuthorizationServerMetadata(): Record<string, unknown> {
     response_types_supported: ["code"],
     grant_types_supported: ["authorization_code", "refresh_token"],
     code_challenge_methods_supported: ["S256"],
-    scopes_supported: ["mcp:read", "mcp:sync"],
+    scopes_supported: SUPPORTED_SCOPES,
     token_endpoint_auth_methods_supported: ["client_secret_post", "none"],
   }
 }
@@ -0,0 +1,113 @@
+/**
+ * MCP progress notifications and cancellation for long-running tool calls.
+ *
+ * A client opts into progress by sending `_meta.progressToken` on `tools/call`;
+ * the transport then streams `notifications/progress` over the POST's SSE
+ * response while the tool runs. `notifications/cancelled` aborts the
+ * in-flight call's AbortSignal, which stops the pipeline at the next stage
+ * and kills outstanding search and traversal queries in the stores.
+ *
+ * In-flight calls are tracked per process: the cancel notification must reach
+ * the same MCP server instance as the call (sticky sessions behind a load balancer).
+ * Calls are keyed by the caller's identity (API key or user) and session, so a
+ * client can only cancel its own calls.
+ */
+
+import type { McpAuthContext } from "./auth"
+
+export interface ProgressUpdate {
+  progress: number
+  total?: number
+  message?: string
+}
+
+/** Extra per-call context for tools that support progress and cancellation. */
+export interface ToolCallOptions {
+  signal?: AbortSignal
+  onProgress?: (update: ProgressUpdate) => void
+}
+
+export class ToolCallCancelledError extends Error {
+  constructor(message = "Request cancelled") {
+    super(message)
+    this.name = "ToolCallCancelledError"
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new ToolCallCancelledError(reasonOf(signal))
+}
+
+/**
+ * Race a query against the call's AbortSignal so the caller is released
+ * immediately and no further stages are started. To stop the database work
+ * too, also pass the signal to the store call: the Arango graph store kills
+ * the running query and the pgvector search cancels its backend.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(new ToolCallCancelledError(reasonOf(signal)))
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new ToolCallCancelledError(reasonOf(signal)))
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        resolve(value)
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Report one progress step per completed stage. Stages that run in parallel
+ * may complete in any order, so the counter — not the stage — sets `progress`.
+ */
+export function stageReporter(total: number, onProgress?: (update: ProgressUpdate) => void): (message: string) => void {
+  let completed = 0
+  return (message: string) => {
+    completed = Math.min(completed + 1, total)
+    onProgress?.({ progress: completed, total, message })
+  }
+}
+
+function reasonOf(signal: AbortSignal): string {
+  return typeof signal.reason === "string" ? signal.reason : "Request cancelled"
+}
+
+// ── In-flight registry ───────────────────────────────────────────────────────
+
+const inFlight = new Map<string, AbortController>()
+
+/** Who made a call — the authenticated identity plus the transport session */
+type CallOwner = Pick<McpAuthContext, "userId" | "apiKeyId" | "sessionId">
+
+function callKey(owner: CallOwner, requestId: string | number): string {
+  return `${owner.apiKeyId ?? owner.userId}:${owner.sessionId ?? "-"}:${String(requestId)}`
+}
+
+/** Register a tool call so `notifications/cancelled` can abort it. */
+export function beginToolCall(owner: CallOwner, requestId: string | number | undefined): AbortController {
+  const controller = new AbortController()
+  if (requestId !== undefined) inFlight.set(callKey(owner, requestId), controller)
+  return controller
+}
+
+export function endToolCall(owner: CallOwner, requestId: string | number | undefined): void {
+  if (requestId !== undefined) inFlight.delete(callKey(owner, requestId))
+}
+
+/** Abort an in-flight tool call. Returns false when the call already finished. */
+export function cancelToolCall(owner: CallOwner, requestId: string | number, reason?: string): boolean {
+  const key = callKey(owner, requestId)
+  const controller = inFlight.get(key)
+  if (!controller) return false
+  controller.abort(reason ?? "Request cancelled")
+  inFlight.delete(key)
+  return true
+}
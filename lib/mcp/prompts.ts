@@ -0,0 +1,258 @@
+/**
+ * MCP Prompts — parameterized prompt templates for common engineering
+ * workflows, surfaced by IDEs as slash commands.
+ *
+ * Each prompt pre-assembles graph context (impact analysis, JIT rules,
+ * health risks, feature justifications) so the agent starts with the same
+ * facts the dashboard shows instead of re-discovering them via tool calls.
+ */
+
+import type { Container } from "@/lib/di/container"
+import { buildAgentPrompt } from "@/lib/health/agent-prompt-builder"
+import { FIX_GUIDANCE } from "@/lib/health/fix-guidance"
+import type { RuleDoc } from "@/lib/ports/types"
+import { getRelevantRules } from "@/lib/rules/jit-injection"
+import { hasScope, type McpAuthContext } from "./auth"
+import { handleAnalyzeImpact } from "./tools/business"
+import { parseDiffHunks } from "./tools/diff-filter"
+
+export interface PromptDefinition {
+  name: string
+  description: string
+  arguments: Array<{ name: string; description: string; required?: boolean }>
+}
+
+export interface PromptResult {
+  description: string
+  messages: Array<{ role: "user"; content: { type: "text"; text: string } }>
+}
+
+/** Error surfaced as a JSON-RPC invalid-params error. */
+export class PromptError extends Error {
+  readonly code = -32602
+
+  constructor(message: string) {
+    super(message)
+    this.name = "PromptError"
+  }
+}
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: "review-diff",
+    description: "Review a diff against the repository's rules and conventions.",
+    arguments: [{ name: "diff", description: "Unified diff to review (git diff output)", required: true }],
+  },
+  {
+    name: "explain-feature",
+    description: "Explain how a feature works: entry points, hot paths and the business purpose of its entities.",
+    arguments: [{ name: "feature_tag", description: "Feature tag as shown in the blueprint (e.g. order_management)", required: true }],
+  },
+  {
+    name: "refactor-plan",
+    description: "Plan a refactor of an entity with its blast radius and the rules that apply to it.",
+    arguments: [
+      { name: "entity_name", description: "Function, class or method to refactor", required: true },
+      { name: "goal", description: "What the refactor should achieve" },
+      { name: "depth", description: "Impact traversal depth (default 2, max 5)" },
+    ],
+  },
+  {
+    name: "fix-health-issue",
+    description: "Fix a health issue from the latest health report (dead code, circular dependencies, ...).",
+    arguments: [{ name: "risk_type", description: "Risk type from the health report (e.g. dead_code, high_fan_out)", required: true }],
+  },
+]
+
+const MAX_RULES = 10
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function userPrompt(description: string, text: string): PromptResult {
+  return { description, messages: [{ role: "user", content: { type: "text", text } }] }
+}
+
+function requireArg(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim()
+  if (!value) throw new PromptError(`Missing required argument: ${name}`)
+  return value
+}
+
+function requireRepo(ctx: McpAuthContext): string {
+  if (!ctx.repoId) throw new PromptError("No repository context. This API key is not scoped to a repository.")
+  return ctx.repoId
+}
+
+function formatRules(rules: RuleDoc[]): string {
+  if (rules.length === 0) return "_No active rules apply._"
+  return rules
+    .map((r) => `- **${r.title}** (${r.enforcement}${r.pathGlob ? `, ${r.pathGlob}` : ""}): ${r.description}`)
+    .join("\n")
+}
+
+// ── Prompt builders ──────────────────────────────────────────────────────────
+
+async function buildReviewDiff(args: Record<string, string>, ctx: McpAuthContext, container: Container): Promise<PromptResult> {
+  const repoId = requireRepo(ctx)
+  const diff = requireArg(args, "diff")
+  const files = parseDiffHunks(diff).map((f) => f.filePath)
+
+  // Deduplicate rules across the changed files
+  const rules = new Map<string, RuleDoc>()
+  for (const filePath of files) {
+    const { rules: fileRules } = await getRelevantRules(container, ctx.orgId, repoId, undefined, filePath)
+    for (const rule of fileRules) rules.set(rule.id, rule)
+  }
+
+  const text = `Review the following diff against this repository's rules and conventions.
+
+### Changed files
+${files.length > 0 ? files.map((f) => `- ${f}`).join("\n") : "_No file headers found in the diff._"}
+
+### Rules that apply
+${formatRules(Array.from(rules.values()).slice(0, MAX_RULES * 2))}
+
+### Diff
+\`\`\`diff
+${diff}
+\`\`\`
+
+For each problem, cite the rule (if any), the file and line, and a concrete fix. Call \`check_rules\` or \`check_patterns\` on changed files if you need more detail.`
+
+  return userPrompt(`Review a diff touching ${files.length} file(s)`, text)
+}
+
+async function buildExplainFeature(args: Record<string, string>, ctx: McpAuthContext, container: Container): Promise<PromptResult> {
+  const repoId = requireRepo(ctx)
+  const featureTag = requireArg(args, "feature_tag")
+
+  const [features, justifications] = await Promise.all([
+    container.graphStore.getFeatureAggregations(ctx.orgId, repoId),
+    container.graphStore.getJustifications(ctx.orgId, repoId),
+  ])
+  const feature = features.find((f) => f.feature_tag === featureTag)
+  const members = justifications.filter((j) => j.feature_tag === featureTag)
+  if (!feature && members.length === 0) {
+    throw new PromptError(`Feature "${featureTag}" not found. Use get_blueprint to list features.`)
+  }
+
+  const names = new Map<string, string>()
+  for (const j of members.slice(0, 25)) {
+    const entity = await container.graphStore.getEntity(ctx.orgId, j.entity_id)
+    if (entity) names.set(j.entity_id, `\`${entity.name}\` (${entity.file_path})`)
+  }
+  const label = (id: string) => names.get(id) ?? `\`${id}\``
+
+  const entryPoints = feature?.entry_points.slice(0, 10).map((id) => `- ${label(id)}`).join("\n") || "_None recorded._"
+  const hotPaths = feature?.hot_paths.slice(0, 5).map((path) => `- ${path.map(label).join(" → ")}`).join("\n") || "_None recorded._"
+  const purposes = members
+    .slice(0, 25)
+    .map((j) => `- ${label(j.entity_id)} [${j.taxonomy}]: ${j.business_purpose}`)
+    .join("\n")
+
+  const text = `Explain how the **${featureTag}** feature works to a developer new to this codebase.
+
+### Feature summary
+- Entities: ${feature?.entity_count ?? members.length}
+- Average confidence: ${feature ? Math.round(feature.average_confidence * 100) + "%" : "unknown"}
+
+### Entry points
+${entryPoints}
+
+### Hot paths
+${hotPaths}
+
+### Entities and their business purpose
+${purposes || "_No justifications yet._"}
+
+Describe the main flow end to end, the key data it touches, and where to start reading. Use \`get_function\` or \`get_callees\` to verify details before stating them.`
+
+  return userPrompt(`Explain the ${featureTag} feature`, text)
+}
+
+async function buildRefactorPlan(args: Record<string, string>, ctx: McpAuthContext, container: Container): Promise<PromptResult> {
+  const repoId = requireRepo(ctx)
+  const entityName = requireArg(args, "entity_name")
+  const depth = args.depth ? parseInt(args.depth, 10) : undefined
+
+  const impact = await handleAnalyzeImpact({ entity_name: entityName, depth }, ctx, container)
+  if ("isError" in impact && impact.isError) throw new PromptError(impact.content[0]?.text ?? `Entity "${entityName}" not found`)
+
+  // Resolve the entity again for JIT rules (rules are scored on its sub-graph)
+  const matches = await container.graphStore.searchEntities(ctx.orgId, repoId, entityName, 5)
+  const match = matches.find((m) => m.name === entityName) ?? matches[0]
+  const { rules } = await getRelevantRules(container, ctx.orgId, repoId, match?.id, match?.file_path, 2, MAX_RULES)
+
+  const goal = args.goal?.trim()
+  const text = `Plan a refactor of \`${entityName}\`${match ? ` (${match.file_path})` : ""}.${goal ? `\n\nGoal: ${goal}` : ""}
+
+### Impact analysis
+\`\`\`json
+${impact.content[0]?.text ?? "{}"}
+\`\`\`
+
+### Rules that apply
+${formatRules(rules)}
+
+Produce a step-by-step plan that keeps every affected caller working: order the steps so each one can ship on its own, call out VERTICAL (business-critical) entities that need extra tests, and note which rules each step must respect. Do not write code yet.`
+
+  return userPrompt(`Refactor plan for ${entityName}`, text)
+}
+
+async function buildFixHealthIssue(args: Record<string, string>, ctx: McpAuthContext, container: Container): Promise<PromptResult> {
+  const repoId = requireRepo(ctx)
+  const riskType = requireArg(args, "risk_type")
+
+  const report = await container.graphStore.getHealthReport(ctx.orgId, repoId)
+  if (!report) throw new PromptError("No health report yet. Wait for indexing to finish.")
+
+  const risks = report.risks.filter((r) => r.riskType === riskType)
+  if (risks.length === 0) {
+    const available = Array.from(new Set(report.risks.map((r) => r.riskType))).join(", ")
+    throw new PromptError(`No "${riskType}" issues in the latest health report. Available: ${available || "none"}`)
+  }
+
+  // Same mapping as the Issues view (app/api/repos/[repoId]/issues)
+  const guidance = FIX_GUIDANCE[riskType]
+  const entities = risks.flatMap((r) => r.entities ?? [])
+  const affectedCount = risks.reduce((sum, r) => sum + (r.affectedCount ?? r.entities?.length ?? 1), 0)
+  const text = buildAgentPrompt({
+    riskType,
+    title: guidance?.title ?? riskType.replace(/_/g, " "),
+    entities,
+    howToFix: guidance?.howToFix ?? "",
+    affectedCount,
+  })
+
+  return userPrompt(guidance?.title ?? `Fix ${riskType}`, text)
+}
+
+const PROMPT_BUILDERS: Record<
+  string,
+  (args: Record<string, string>, ctx: McpAuthContext, container: Container) => Promise<PromptResult>
+> = {
+  "review-diff": buildReviewDiff,
+  "explain-feature": buildExplainFeature,
+  "refactor-plan": buildRefactorPlan,
+  "fix-health-issue": buildFixHealthIssue,
+}
+
+// ── prompts/list, prompts/get ────────────────────────────────────────────────
+
+export function getPromptDefinitions(): PromptDefinition[] {
+  return PROMPT_DEFINITIONS
+}
+
+export async function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  ctx: McpAuthContext,
+  container: Container
+): Promise<PromptResult> {
+  const builder = PROMPT_BUILDERS[name]
+  if (!builder) throw new PromptError(`Unknown prompt: "${name}". Available prompts: ${Object.keys(PROMPT_BUILDERS).join(", ")}`)
+  if (!hasScope(ctx, "graph:read")) {
+    throw new PromptError("This API key does not have the 'graph:read' scope required for prompts")
+  }
+  return builder(args, ctx, container)
+}
@@ -0,0 +1,332 @@
+/**
+ * MCP Resources — exposes the knowledge graph as attachable context.
+ *
+ * URIs:
+ *   unerr://repo/{repoId}/context    UNERR_CONTEXT.md (generated on read)
+ *   unerr://repo/{repoId}/health     Latest health report (JSON)
+ *   unerr://repo/{repoId}/adr/{id}   Architecture Decision Record (markdown)
+ *   unerr://entity/{id}              Entity profile (JSON, L-14 cache)
+ *
+ * Subscriptions are stored per MCP session in the cache store. Reindex
+ * activities stamp per-repo update markers via markResourcesUpdated(); the
+ * GET /mcp SSE channel polls them and pushes notifications/resources/updated.
+ */
+
+import type { Container } from "@/lib/di/container"
+import { generateContextDocument } from "@/lib/justification/context-document-generator"
+import type { ICacheStore } from "@/lib/ports/cache-store"
+import type { ADRDoc } from "@/lib/ports/types"
+import { hasScope, type McpAuthContext } from "./auth"
+import { getEntityProfile } from "./entity-profile"
+
+const SUBSCRIPTION_TTL = 3600 // matches MCP session TTL
+const UPDATE_MARKER_TTL = 86400 // 24 hours
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "unerr://repo/{repoId}/context",
+    name: "Repository context document",
+    description: "UNERR_CONTEXT.md — executive summary, feature map, risks and conventions for the repository.",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "unerr://repo/{repoId}/health",
+    name: "Repository health report",
+    description: "Latest health report: risks, taxonomy breakdown and average justification confidence.",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "unerr://repo/{repoId}/adr/{id}",
+    name: "Architecture Decision Record",
+    description: "An ADR synthesized from the repository's feature areas.",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "unerr://entity/{id}",
+    name: "Entity profile",
+    description: "Callers, callees, business purpose, taxonomy and confidence for a single code entity.",
+    mimeType: "application/json",
+  },
+]
+
+export type ParsedResourceUri =
+  | { type: "context"; repoId: string }
+  | { type: "health"; repoId: string }
+  | { type: "adr"; repoId: string; id: string }
+  | { type: "entity"; id: string }
+
+export interface ResourceContents {
+  uri: string
+  mimeType: string
+  text: string
+}
+
+interface ResourceSubscription {
+  uri: string
+  repoId: string
+}
+
+/** Error surfaced as a JSON-RPC error with the MCP resource error codes. */
+export class ResourceError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message)
+    this.name = "ResourceError"
+  }
+}
+
+const RESOURCE_NOT_FOUND = -32002
+const INVALID_PARAMS = -32602
+
+// ── URIs ─────────────────────────────────────────────────────────────────────
+
+export function contextUri(repoId: string): string {
+  return `unerr://repo/${repoId}/context`
+}
+
+export function healthUri(repoId: string): string {
+  return `unerr://repo/${repoId}/health`
+}
+
+export function adrUri(repoId: string, adrId: string): string {
+  return `unerr://repo/${repoId}/adr/${encodeURIComponent(adrId)}`
+}
+
+export function entityUri(entityId: string): string {
+  return `unerr://entity/${encodeURIComponent(entityId)}`
+}
+
+/** Marker URI covering every entity profile in a repo (profiles are rebuilt per reindex). */
+function entitiesMarker(repoId: string): string {
+  return `unerr://repo/${repoId}/entities`
+}
+
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  const repoMatch = uri.match(/^unerr:\/\/repo\/([^/]+)\/(context|health|adr\/([^/]+))$/)
+  if (repoMatch) {
+    const repoId = decodeURIComponent(repoMatch[1]!)
+    if (repoMatch[2] === "context") return { type: "context", repoId }
+    if (repoMatch[2] === "health") return { type: "health", repoId }
+    return { type: "adr", repoId, id: decodeURIComponent(repoMatch[3]!) }
+  }
+  const entityMatch = uri.match(/^unerr:\/\/entity\/([^/]+)$/)
+  if (entityMatch) return { type: "entity", id: decodeURIComponent(entityMatch[1]!) }
+  return null
+}
+
+// ── Access ───────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the repo a resource belongs to and check the caller may read it.
+ * Repo-scoped API keys only see their own repo; other callers see any repo
+ * in their organization.
+ */
+async function resolveRepo(
+  parsed: ParsedResourceUri,
+  uri: string,
+  ctx: McpAuthContext,
+  container: Container
+): Promise<string> {
+  let repoId: string
+  if (parsed.type === "entity") {
+    const entity = await container.graphStore.getEntity(ctx.orgId, parsed.id)
+    if (!entity) throw new ResourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+    repoId = entity.repo_id
+  } else {
+    repoId = parsed.repoId
+  }
+
+  if (ctx.repoId && ctx.repoId !== repoId) {
+    throw new ResourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+  }
+  const repo = await container.relationalStore.getRepo(ctx.orgId, repoId)
+  if (!repo) throw new ResourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+  return repoId
+}
+
+function requireReadScope(ctx: McpAuthContext): void {
+  if (!hasScope(ctx, "graph:read")) {
+    throw new ResourceError(INVALID_PARAMS, "This API key does not have the 'graph:read' scope required for resources")
+  }
+}
+
+function formatAdr(adr: ADRDoc): string {
+  return [
+    `# ${adr.title}`,
+    "",
+    `**Feature area:** ${adr.feature_area}  `,
+    `**Generated:** ${adr.generated_at}`,
+    "",
+    "## Context",
+    "",
+    adr.context,
+    "",
+    "## Decision",
+    "",
+    adr.decision,
+    "",
+    "## Consequences",
+    "",
+    adr.consequences,
+    "",
+  ].join("\n")
+}
+
+// ── resources/list, resources/read ───────────────────────────────────────────
+
+export async function listResources(
+  ctx: McpAuthContext,
+  container: Container
+): Promise<Array<{ uri: string; name: string; description?: string; mimeType: string }>> {
+  requireReadScope(ctx)
+
+  const repos = ctx.repoId
+    ? [await container.relationalStore.getRepo(ctx.orgId, ctx.repoId)].filter((r) => r !== null)
+    : (await container.relationalStore.getRepos(ctx.orgId)).filter((r) => r.status === "ready")
+
+  const resources: Array<{ uri: string; name: string; description?: string; mimeType: string }> = []
+  for (const repo of repos) {
+    const label = repo.fullName ?? repo.name
+    resources.push({ uri: contextUri(repo.id), name: `${label} — UNERR_CONTEXT.md`, mimeType: "text/markdown" })
+
+    const [health, adrs] = await Promise.all([
+      container.graphStore.getHealthReport(ctx.orgId, repo.id).catch(() => null),
+      container.graphStore.getADRs(ctx.orgId, repo.id).catch((): ADRDoc[] => []),
+    ])
+    if (health) {
+      resources.push({ uri: healthUri(repo.id), name: `${label} — health report`, mimeType: "application/json" })
+    }
+    for (const adr of adrs) {
+      resources.push({
+        uri: adrUri(repo.id, adr.id),
+        name: `${label} — ADR: ${adr.title}`,
+        description: adr.feature_area,
+        mimeType: "text/markdown",
+      })
+    }
+  }
+  return resources
+}
+
+export async function readResource(
+  uri: string,
+  ctx: McpAuthContext,
+  container: Container
+): Promise<ResourceContents> {
+  requireReadScope(ctx)
+
+  const parsed = parseResourceUri(uri)
+  if (!parsed) throw new ResourceError(INVALID_PARAMS, `Unsupported resource URI: ${uri}`)
+  const repoId = await resolveRepo(parsed, uri, ctx, container)
+
+  switch (parsed.type) {
+    case "context": {
+      const text = await generateContextDocument(ctx.orgId, repoId, container.graphStore)
+      return { uri, mimeType: "text/markdown", text }
+    }
+    case "health": {
+      const report = await container.graphStore.getHealthReport(ctx.orgId, repoId)
+      if (!report) throw new ResourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+      return { uri, mimeType: "application/json", text: JSON.stringify(report, null, 2) }
+    }
+    case "adr": {
+      const adrs = await container.graphStore.getADRs(ctx.orgId, repoId)
+      const adr = adrs.find((a) => a.id === parsed.id)
+      if (!adr) throw new ResourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+      return { uri, mimeType: "text/markdown", text: formatAdr(adr) }
+    }
+    case "entity": {
+      const profile = await getEntityProfile(ctx.orgId, repoId, parsed.id, container)
+      if (!profile) throw new ResourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+      return { uri, mimeType: "application/json", text: JSON.stringify(profile, null, 2) }
+    }
+  }
+}
+
+// ── Subscriptions ────────────────────────────────────────────────────────────
+
+function subscriptionsKey(sessionId: string): string {
+  return `mcp:resource-subs:${sessionId}`
+}
+
+/** One key per URI (or the repo's entities marker), so concurrent writers never overwrite each other */
+function updateMarkerKey(orgId: string, repoId: string, marker: string): string {
+  return `mcp:resource-updates:${orgId}:${repoId}:${marker}`
+}
+
+export async function subscribeResource(
+  uri: string,
+  sessionId: string | undefined,
+  ctx: McpAuthContext,
+  container: Container
+): Promise<void> {
+  requireReadScope(ctx)
+  if (!sessionId) throw new ResourceError(INVALID_PARAMS, "Resource subscriptions require an MCP session (Mcp-Session-Id)")
+
+  const parsed = parseResourceUri(uri)
+  if (!parsed) throw new ResourceError(INVALID_PARAMS, `Unsupported resource URI: ${uri}`)
+  const repoId = await resolveRepo(parsed, uri, ctx, container)
+
+  const key = subscriptionsKey(sessionId)
+  const subs = (await container.cacheStore.get<ResourceSubscription[]>(key)) ?? []
+  if (!subs.some((s) => s.uri === uri)) subs.push({ uri, repoId })
+  await container.cacheStore.set(key, subs, SUBSCRIPTION_TTL)
+}
+
+export async function unsubscribeResource(
+  uri: string,
+  sessionId: string | undefined,
+  container: Container
+): Promise<void> {
+  if (!sessionId) return
+  const key = subscriptionsKey(sessionId)
+  const subs = (await container.cacheStore.get<ResourceSubscription[]>(key)) ?? []
+  await container.cacheStore.set(key, subs.filter((s) => s.uri !== uri), SUBSCRIPTION_TTL)
+}
+
+/**
+ * Record that resources of a repo changed. Called by reindex activities;
+ * pass entity-level changes as `entities: true` rather than per-entity URIs.
+ */
+export async function markResourcesUpdated(
+  cacheStore: ICacheStore,
+  orgId: string,
+  repoId: string,
+  changes: { uris?: string[]; entities?: boolean }
+): Promise<void> {
+  const markers = [...(changes.uris ?? []), ...(changes.entities ? [entitiesMarker(repoId)] : [])]
+  const now = Date.now()
+  for (const marker of markers) {
+    await cacheStore.set(updateMarkerKey(orgId, repoId, marker), now, UPDATE_MARKER_TTL)
+  }
+}
+
+/**
+ * Check a session's subscriptions against the repo update markers.
+ * `seen` holds the last marker timestamp per URI and is updated in place;
+ * the first poll for a URI only records the baseline.
+ */
+export async function pollResourceUpdates(
+  sessionId: string,
+  orgId: string,
+  cacheStore: ICacheStore,
+  seen: Map<string, number>
+): Promise<string[]> {
+  const subs = (await cacheStore.get<ResourceSubscription[]>(subscriptionsKey(sessionId))) ?? []
+  const stamps = new Map<string, number>()
+  const updated: string[] = []
+
+  for (const sub of subs) {
+    const parsed = parseResourceUri(sub.uri)
+    const key = updateMarkerKey(orgId, sub.repoId, parsed?.type === "entity" ? entitiesMarker(sub.repoId) : sub.uri)
+    if (!stamps.has(key)) stamps.set(key, (await cacheStore.get<number>(key)) ?? 0)
+    const stamp = stamps.get(key)!
+
+    const last = seen.get(sub.uri)
+    seen.set(sub.uri, stamp)
+    if (last !== undefined && stamp > last) updated.push(sub.uri)
+  }
+  return updated
+}
@@ -0,0 +1,69 @@
+/**
+ * MCP scope catalogue — fine-grained permissions for API keys and OAuth tokens.
+ *
+ * Each tool requires exactly one scope (see TOOL_DEFINITIONS). The original
+ * umbrella scopes stay valid so existing keys and tokens keep working:
+ *   - mcp:read → every read scope
+ *   - mcp:sync → every write/sync scope
+ *
+ * Client-safe: imported by the API key settings UI.
+ */
+
+export type McpScope =
+  | "graph:read"
+  | "rules:read"
+  | "rules:write"
+  | "ledger:read"
+  | "ledger:write"
+  | "reviews:read"
+  | "workspace:sync"
+
+export interface ScopeDefinition {
+  scope: McpScope
+  label: string
+  description: string
+  /** Mutates state (ledger, rules, workspace overlay) */
+  write: boolean
+}
+
+export const SCOPE_CATALOGUE: ScopeDefinition[] = [
+  { scope: "graph:read", label: "Code graph", description: "Search, inspect entities, callers/callees, impact, blueprint, resources and prompts", write: false },
+  { scope: "rules:read", label: "Rules", description: "Read rules and conventions, check code against rules and patterns", write: false },
+  { scope: "ledger:read", label: "Ledger", description: "Read the prompt ledger timeline", write: false },
+  { scope: "reviews:read", label: "Reviews", description: "Read PR review status", write: false },
+  { scope: "rules:write", label: "Draft rules", description: "Draft new architecture rules", write: true },
+  { scope: "ledger:write", label: "Ledger write", description: "Mark working states and revert to them", write: true },
+  { scope: "workspace:sync", label: "Workspace sync", description: "Sync local diffs and dirty buffers, refresh the context document", write: true },
+]
+
+export const LEGACY_SCOPES: Record<string, McpScope[]> = {
+  "mcp:read": SCOPE_CATALOGUE.filter((s) => !s.write).map((s) => s.scope),
+  "mcp:sync": SCOPE_CATALOGUE.filter((s) => s.write).map((s) => s.scope),
+}
+
+/** Every scope a key or token may be granted (catalogue + legacy umbrellas). */
+export const SUPPORTED_SCOPES: string[] = [...Object.keys(LEGACY_SCOPES), ...SCOPE_CATALOGUE.map((s) => s.scope)]
+
+/** Expand legacy umbrella scopes into the fine-grained scopes they grant. */
+export function expandScopes(scopes: string[]): Set<string> {
+  const expanded = new Set(scopes)
+  for (const scope of scopes) {
+    for (const granted of LEGACY_SCOPES[scope] ?? []) expanded.add(granted)
+  }
+  return expanded
+}
+
+/** The legacy umbrella scope that grants `scope`, if any. */
+export function legacyScopeFor(scope: string): string | undefined {
+  return Object.keys(LEGACY_SCOPES).find((legacy) => (LEGACY_SCOPES[legacy] as string[]).includes(scope))
+}
+
+/** Returns the scopes that are not in the catalogue (empty when all are valid). */
+export function findUnknownScopes(scopes: string[]): string[] {
+  return scopes.filter((s) => !SUPPORTED_SCOPES.includes(s))
+}
+
+/** Parse an OAuth space-delimited `scope` parameter. */
+export function parseScopeParam(scope: string | undefined): string[] {
+  return (scope ?? "").split(" ").filter(Boolean)
+}
@@ -5,6 +5,16 @@
 
 import type { Container } from "@/lib/di/container"
 import type { McpAuthContext } from "./auth"
+import { beginToolCall, cancelToolCall, endToolCall, type ProgressUpdate, ToolCallCancelledError } from "./progress"
+import { getPrompt, getPromptDefinitions, PromptError } from "./prompts"
+import {
+  listResources,
+  readResource,
+  RESOURCE_TEMPLATES,
+  ResourceError,
+  subscribeResource,
+  unsubscribeResource,
+} from "./resources"
 import { scrubMCPPayload } from "./security/scrubber"
 import { dispatchToolCall, getToolSchemas } from "./tools"
 import { logToolInvocation } from "./tracing"
@@ -14,6 +24,9 @@ export interface McpServerConfig {
   version: string
 }
 
+/** Sends a server-to-client notification on the request's stream. */
+export type McpNotifier = (notification: Record<string, unknown>) => void
+
 const DEFAULT_CONFIG: McpServerConfig = {
   name: "unerr-mcp",
   version: "0.2.0",
@@ -22,12 +35,16 @@ const DEFAULT_CONFIG: McpServerConfig = {
 /**
  * Handle an MCP JSON-RPC request.
  * This is the core handler used by both Streamable HTTP and SSE transports.
+ *
+ * `notify` is only set when the transport can stream notifications for this
+ * request; `tools/call` uses it for `notifications/progress`.
  */
 export async function handleMcpRequest(
   request: Record<string, unknown>,
   ctx: McpAuthContext,
   container: Container,
-  config: McpServerConfig = DEFAULT_CONFIG
+  config: McpServerConfig = DEFAULT_CONFIG,
+  notify?: McpNotifier
 ): Promise<Record<string, unknown>> {
   const method = request.method as string
   const id = request.id as string | number | undefined
@@ -40,6 +57,8 @@ export async function handleMcpRequest(
           protocolVersion: "2025-03-26",
           capabilities: {
             tools: { listChanged: false },
+            resources: { subscribe: true, listChanged: false },
+            prompts: { listChanged: false },
           },
           serverInfo: {
             name: config.name,
@@ -49,28 +68,75 @@ export async function handleMcpRequest(
 
       case "tools/list":
         return jsonRpcResponse(id, {
-          tools: getToolSchemas(),
+          tools: getToolSchemas(ctx),
         })
 
       case "tools/call": {
         const toolName = params.name as string
         const toolArgs = scrubMCPPayload((params.arguments ?? {}) as Record<string, unknown>)
+        const progressToken = (params._meta as { progressToken?: string | number } | undefined)?.progressToken
+        const onProgress = progressToken !== undefined && notify
+          ? (update: ProgressUpdate) => notify({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken, ...update } })
+          : undefined
 
+        const controller = beginToolCall(ctx, id)
         const start = Date.now()
         try {
-          const result = await dispatchToolCall(toolName, toolArgs, ctx, container)
+          const result = await dispatchToolCall(toolName, toolArgs, ctx, container, { signal: controller.signal, onProgress })
           logToolInvocation(toolName, ctx, Date.now() - start)
           return jsonRpcResponse(id, result)
         } catch (error: unknown) {
           const message = error instanceof Error ? error.message : String(error)
           logToolInvocation(toolName, ctx, Date.now() - start, message)
+          if (error instanceof ToolCallCancelledError) {
+            return jsonRpcResponse(id, {
+              isError: true,
+              content: [{ type: "text", text: message }],
+            })
+          }
           return jsonRpcResponse(id, {
             isError: true,
             content: [{ type: "text", text: `Internal error: ${message}` }],
           })
+        } finally {
+          endToolCall(ctx, id)
         }
       }
 
+      case "resources/list":
+        return jsonRpcResponse(id, {
+          resources: await listResources(ctx, container),
+        })
+
+      case "resources/templates/list":
+        return jsonRpcResponse(id, {
+          resourceTemplates: RESOURCE_TEMPLATES,
+        })
+
+      case "resources/read": {
+        const contents = await readResource(params.uri as string, ctx, container)
+        return jsonRpcResponse(id, { contents: [contents] })
+      }
+
+      case "resources/subscribe":
+        await subscribeResource(params.uri as string, ctx.sessionId, ctx, container)
+        return jsonRpcResponse(id, {})
+
+      case "resources/unsubscribe":
+        await unsubscribeResource(params.uri as string, ctx.sessionId, container)
+        return jsonRpcResponse(id, {})
+
+      case "prompts/list":
+        return jsonRpcResponse(id, {
+          prompts: getPromptDefinitions(),
+        })
+
+      case "prompts/get": {
+        const promptArgs = scrubMCPPayload((params.arguments ?? {}) as Record<string, unknown>) as Record<string, string>
+        const prompt = await getPrompt(params.name as string, promptArgs, ctx, container)
+        return jsonRpcResponse(id, prompt)
+      }
+
       case "ping":
         return jsonRpcResponse(id, {})
 
@@ -78,10 +144,21 @@ export async function handleMcpRequest(
         // Client acknowledgment, no response needed for notifications
         return jsonRpcResponse(id, {})
 
+      case "notifications/cancelled":
+        // Calls are scoped to the caller and session, so a client can only cancel its own;
+        // without a session, request ids are too guessable to honour a cancel
+        if (ctx.sessionId) {
+          cancelToolCall(ctx, params.requestId as string | number, params.reason as string | undefined)
+        }
+        return jsonRpcResponse(id, {})
+
       default:
         return jsonRpcError(id, -32601, `Method not found: ${method}`)
     }
   } catch (error: unknown) {
+    if (error instanceof ResourceError || error instanceof PromptError) {
+      return jsonRpcError(id, error.code, error.message)
+    }
     const message = error instanceof Error ? error.message : String(error)
     return jsonRpcError(id, -32603, `Internal error: ${message}`)
   }
@@ -116,4 +116,34 @@ describe("handleGetBlueprint", () => {
     const result = await handleGetBlueprint({}, noRepoCtx as McpAuthContext, container)
     expect(result.isError).toBe(true)
   })
+
+  it("maps deployable infra resources to the services they run", async () => {
+    const infraEntity = (id: string, name: string, kind: string, extra: Partial<EntityDoc> = {}): EntityDoc => ({
+      ...makeEntity(id, name, kind), file_path: "k8s/api.yaml", language: "kubernetes", ...extra,
+    })
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      infraEntity("deploy", "Deployment/api", "resource", {
+        body: "kind: Deployment\nspec:\n  template:\n    spec:\n      containers:\n        - name: api\n          image: ghcr.io/acme/orders-api:1.4.0",
+      }),
+      infraEntity("svc", "Service/api", "resource"),
+      infraEntity("cm", "ConfigMap/api-config", "resource"),
+      infraEntity("env", "DATABASE_URL", "variable", { parent: "Deployment/api", signature: "env DATABASE_URL" }),
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      { _from: "classes/svc", _to: "classes/deploy", kind: "references", org_id: ORG, repo_id: REPO },
+      { _from: "classes/deploy", _to: "classes/cm", kind: "references", org_id: ORG, repo_id: REPO },
+    ])
+
+    const result = await handleGetBlueprint({}, ctx, container)
+    const parsed = JSON.parse(result.content[0]!.text) as { infrastructure: unknown[] }
+
+    expect(parsed.infrastructure).toEqual([{
+      resource: "Deployment/api",
+      filePath: "k8s/api.yaml",
+      deploys: ["orders-api"],
+      exposedBy: ["Service/api"],
+      configuredBy: ["ConfigMap/api-config"],
+      envVars: ["DATABASE_URL"],
+    }])
+  })
 })
@@ -1,8 +1,8 @@
-import { beforeEach, describe, expect, it } from "vitest"
-import type { Container } from "@/lib/di/container"
-import { InMemoryGraphStore } from "@/lib/di/fakes"
-import { handleGetRecentChanges } from "@/lib/mcp/tools/changes"
-import type { IndexEventDoc } from "@/lib/ports/types"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import { type FakeGitHost, InMemoryGraphStore } from "@/lib/di/fakes"
+import { handleGetEntityHistory, handleGetRecentChanges } from "@/lib/mcp/tools/changes"
+import type { IndexEventDoc, JustificationDoc, LedgerEntry } from "@/lib/ports/types"
 
 describe("handleGetRecentChanges", () => {
   let graphStore: InMemoryGraphStore
@@ -59,3 +59,94 @@ describe("handleGetRecentChanges", () => {
     expect(result.content[0]?.text).toContain("2 events")
   })
 })
+
+describe("handleGetEntityHistory", () => {
+  const ctx = { authMode: "api_key" as const, userId: "user-1", orgId: "org-1", repoId: "repo-1", scopes: ["mcp:read"] }
+  let container: Container
+
+  function justification(id: string, validFrom: string, purpose: string, validTo: string | null): JustificationDoc {
+    return {
+      id, org_id: "org-1", repo_id: "repo-1", entity_id: "fn-charge", taxonomy: "VERTICAL", confidence: 0.9,
+      business_purpose: purpose, domain_concepts: [], feature_tag: "billing", semantic_triples: [], compliance_tags: [],
+      model_tier: "standard", valid_from: validFrom, valid_to: validTo, created_at: validFrom,
+    }
+  }
+
+  function ledgerEntry(id: string, createdAt: string, changes: LedgerEntry["changes"]): LedgerEntry {
+    return {
+      id, org_id: "org-1", repo_id: "repo-1", user_id: "user-1", branch: "main", timeline_branch: 0,
+      prompt: "Add retries to charge", agent_tool: "cursor", changes, status: "reverted", parent_id: null,
+      rewind_target_id: null, commit_sha: null, snapshot_id: null, validated_at: null, rule_generated: null,
+      created_at: createdAt,
+    }
+  }
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    const repo = await container.relationalStore.createRepo({
+      organizationId: "org-1",
+      name: "billing",
+      fullName: "acme/billing",
+      provider: "github",
+      providerId: "1",
+    })
+    vi.spyOn(container.relationalStore, "getRepo").mockResolvedValue({ ...repo, id: "repo-1" })
+    await container.graphStore.bulkUpsertEntities("org-1", [{
+      id: "fn-charge", org_id: "org-1", repo_id: "repo-1", kind: "function", name: "chargeCard",
+      file_path: "src/billing.ts", start_line: 10, end_line: 30,
+    }])
+  })
+
+  it("merges every source into one chronological narrative", async () => {
+    ;(container.gitHost as FakeGitHost).fileGitHistoryResult = [
+      { sha: "bbbbbbb2222", subject: "Handle declined cards", body: "", author: "dana", date: "2026-03-01T09:00:00Z" },
+      { sha: "aaaaaaa1111", subject: "Add card charging", body: "", author: "lee", date: "2026-01-05T09:00:00Z" },
+    ]
+    await container.graphStore.bulkUpsertJustifications("org-1", [
+      justification("j1", "2026-01-06T00:00:00Z", "Charges a customer card", "2026-03-02T00:00:00Z"),
+      justification("j2", "2026-03-02T00:00:00Z", "Charges a card and handles declines", null),
+    ])
+    await container.graphStore.bulkUpsertDriftScores("org-1", [{
+      id: "d1", org_id: "org-1", repo_id: "repo-1", entity_id: "fn-charge", ast_hash_old: "a", ast_hash_new: "b",
+      embedding_similarity: 0.61, category: "intent_drift", detected_at: "2026-03-01T12:00:00Z",
+    }])
+    // Only the first entry's hunk overlaps lines 10-30
+    await container.graphStore.appendLedgerEntry("org-1", ledgerEntry("l1", "2026-04-01T00:00:00Z", [
+      { file_path: "src/billing.ts", change_type: "modified", diff: "@@ -12,3 +12,8 @@", lines_added: 5, lines_removed: 0 },
+    ]))
+    await container.graphStore.appendLedgerEntry("org-1", ledgerEntry("l2", "2026-04-02T00:00:00Z", [
+      { file_path: "src/billing.ts", change_type: "modified", diff: "@@ -80,2 +80,2 @@", lines_added: 1, lines_removed: 1 },
+    ]))
+    await container.graphStore.bulkUpsertEntityWarnings("org-1", [{
+      id: "w1", org_id: "org-1", repo_id: "repo-1", entity_id: "fn-charge", severity: "warning",
+      message: "Retry change was reverted", reason: "double charges in staging", ledger_entry_id: "l1",
+      reverted_at: "2026-04-03T00:00:00Z", created_at: "2026-04-03T00:00:00Z",
+    }])
+
+    const result = await handleGetEntityHistory({ entity: "chargeCard" }, ctx, container)
+    const data = JSON.parse(result.content[0]!.text) as {
+      entity: { current_owner?: string; purpose?: string }
+      timeline: Array<{ source: string; at: string }>
+      narrative: string
+      counts: Record<string, number>
+      _hint?: string
+    }
+
+    expect(data.timeline.map((e) => e.source)).toEqual(["git", "justification", "git", "drift", "justification", "ledger", "warning"])
+    expect(data.narrative.split("\n")[0]).toBe("2026-01-05 [git] Commit aaaaaaa by lee: Add card charging")
+    expect(data.narrative).toContain('Purpose changed: "Charges a customer card" → "Charges a card and handles declines"')
+    expect(data.counts).toMatchObject({ commits: 2, justification_versions: 2, drift_events: 1, ledger_entries: 1, warnings: 1 })
+    expect(data.entity).toMatchObject({ current_owner: "dana", purpose: "Charges a card and handles declines" })
+    expect(data._hint).toContain("reverted")
+  })
+
+  it("explains when git history is unavailable and rejects unknown entities", async () => {
+    const result = await handleGetEntityHistory({ entity: "fn-charge" }, ctx, container)
+    const data = JSON.parse(result.content[0]!.text) as { narrative: string; _hint?: string }
+    expect(data.narrative).toBe("No recorded history for this entity.")
+    expect(data._hint).toContain("Git history is unavailable")
+
+    const missing = await handleGetEntityHistory({ entity: "nope" }, ctx, container)
+    expect(missing.content[0]!.text).toContain('Entity "nope" not found')
+  })
+})
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { EdgeDoc, EntityDoc } from "@/lib/ports/types"
+import type { McpAuthContext } from "../../auth"
+import { handleSyncDirtyBuffer } from "../dirty-buffer"
+import { handlePlanRename } from "../refactor"
+
+const ORG = "org-1"
+const REPO = "repo-1"
+
+function entity(id: string, name: string, filePath: string, startLine: number, extra: Partial<EntityDoc> = {}): EntityDoc {
+  return { id, org_id: ORG, repo_id: REPO, kind: "function", name, file_path: filePath, start_line: startLine, ...extra }
+}
+
+function edge(from: string, to: string, kind: string): EdgeDoc {
+  return { _from: `functions/${from}`, _to: `functions/${to}`, org_id: ORG, repo_id: REPO, kind }
+}
+
+interface Plan {
+  edits: Array<{ step: number; kind: string; file_path: string; line: number; old_text: string; new_text: string; note?: string; review_required?: boolean; adjusted_for_unsaved?: boolean }>
+  files_affected: string[]
+  validation: { ok: boolean; conflicts: Array<{ file_path: string; reason: string }>; dirty_files: string[] }
+}
+
+function parse(result: { content: Array<{ text: string }> }): Plan {
+  return JSON.parse(result.content[0]!.text) as Plan
+}
+
+// src/pricing.ts defines calcTotal, re-exported by src/index.ts and called from
+// src/checkout.ts through the barrel. py/pricing.py implements calc_total.
+describe("plan_rename", () => {
+  let container: Container
+  const ctx: McpAuthContext = { authMode: "api_key", orgId: ORG, repoId: REPO, userId: "user-rename", scopes: ["graph:read"] }
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      entity("f-pricing", "src/pricing.ts", "src/pricing.ts", 1, { kind: "file" }),
+      entity("calc", "calcTotal", "src/pricing.ts", 3, { end_line: 5, body: "export function calcTotal(items) {\n  return sum(items)\n}" }),
+      entity("f-index", "src/index.ts", "src/index.ts", 1, { kind: "file", body: 'export { calcTotal } from "./pricing"\nexport * from "./cart"' }),
+      entity("f-checkout", "src/checkout.ts", "src/checkout.ts", 1, { kind: "file", body: 'import { calcTotal } from "./index"' }),
+      entity("checkout", "checkout", "src/checkout.ts", 3, { body: "export function checkout(cart) {\n  return calcTotal(cart.items)\n}" }),
+      entity("handlers", "handlers", "src/registry.ts", 1, { kind: "variable", body: 'export const handlers = {\n  total: "calcTotal",\n}' }),
+      entity("py-calc", "calc_total", "py/pricing.py", 10),
+      entity("shape", "Shape", "src/shapes.ts", 1, { kind: "class" }),
+      entity("shape-area", "area", "src/shapes.ts", 2, { kind: "method", parent: "Shape" }),
+      entity("circle", "Circle", "src/shapes.ts", 10, { kind: "class" }),
+      entity("circle-area", "area", "src/shapes.ts", 11, { kind: "method", parent: "Circle" }),
+      entity("circle-perimeter", "perimeter", "src/shapes.ts", 14, { kind: "method", parent: "Circle" }),
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      edge("f-index", "f-pricing", "imports"),
+      edge("f-checkout", "f-index", "imports"),
+      edge("checkout", "calc", "calls"),
+      edge("calc", "py-calc", "language_implementations"),
+      edge("circle", "shape", "extends"),
+    ])
+  })
+
+  it("orders definition, counterparts, re-exports, imports, call sites and string references", async () => {
+    const plan = parse(await handlePlanRename({ entity: "calcTotal", new_name: "computeTotal" }, ctx, container))
+
+    expect(plan.edits.map((e) => [e.kind, `${e.file_path}:${e.line}`, e.new_text])).toEqual([
+      ["definition", "src/pricing.ts:3", "computeTotal"],
+      ["polyglot", "py/pricing.py:10", "compute_total"],
+      ["re_export", "src/index.ts:1", "computeTotal"],
+      ["import", "src/checkout.ts:1", "computeTotal"],
+      ["call_site", "src/checkout.ts:4", "computeTotal"],
+      ["string_reference", "src/registry.ts:2", "computeTotal"],
+    ])
+    expect(plan.edits.map((e) => e.step)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(plan.edits.find((e) => e.kind === "string_reference")?.review_required).toBe(true)
+    expect(plan.validation).toEqual({ ok: true, conflicts: [], dirty_files: [] })
+  })
+
+  it("renames overrides across the class hierarchy and reports name collisions", async () => {
+    const plan = parse(await handlePlanRename({ entity: "shape-area", new_name: "perimeter" }, ctx, container))
+
+    expect(plan.edits.map((e) => [e.kind, e.line])).toEqual([["definition", 2], ["hierarchy", 11]])
+    expect(plan.validation.ok).toBe(false)
+    expect(plan.validation.conflicts[0]!.reason).toContain("method perimeter already exists (line 14)")
+  })
+
+  it("plans a move by rewriting import paths through the barrel", async () => {
+    const plan = parse(await handlePlanRename({ entity: "calc", destination_file: "src/money.ts" }, ctx, container))
+
+    expect(plan.edits.map((e) => [e.kind, e.file_path])).toEqual([
+      ["insert_definition", "src/money.ts"],
+      ["remove_definition", "src/pricing.ts"],
+      ["re_export", "src/index.ts"],
+      ["import", "src/checkout.ts"],
+    ])
+    expect(plan.edits[2]!.note).toBe("import from src/money.ts instead of src/pricing.ts")
+  })
+
+  it("follows unsaved buffers and flags unsaved collisions", async () => {
+    process.env.DIRTY_OVERLAY_ENABLED = "true"
+    await handleSyncDirtyBuffer(
+      { file_path: "src/checkout.ts", content: 'import { calcTotal } from "./index"\n\n// TODO\n\nexport function checkout(cart) {\n  return calcTotal(cart.items)\n}' },
+      ctx,
+      container
+    )
+    await handleSyncDirtyBuffer({ file_path: "src/totals.ts", content: "export function computeTotal() {}" }, ctx, container)
+
+    const plan = parse(await handlePlanRename({ entity: "calcTotal", new_name: "computeTotal" }, ctx, container))
+
+    expect(plan.edits.find((e) => e.kind === "call_site")).toMatchObject({ line: 6, adjusted_for_unsaved: true })
+    expect(plan.validation.dirty_files).toEqual(["src/checkout.ts"])
+    expect(plan.validation.conflicts).toEqual([{ file_path: "src/totals.ts", reason: "unsaved function computeTotal at line 1" }])
+  })
+
+  it("requires a new name or destination", async () => {
+    const result = await handlePlanRename({ entity: "calcTotal" }, ctx, container)
+    expect(result.content[0]!.text).toContain("Provide new_name, destination_file, or both")
+  })
+})
@@ -16,9 +16,10 @@ import {
 import type { EntityDoc } from "@/lib/ports/types"
 import type { McpAuthContext } from "../../auth"
 import { filterDiff, parseDiffHunks } from "../diff-filter"
-import { handleGetCallees, handleGetCallers, handleGetImports } from "../graph"
+import { handleFindPath, handleGetCallees, handleGetCallers, handleGetImports } from "../graph"
 import { dispatchToolCall, getToolSchemas, TOOL_DEFINITIONS } from "../index"
 import { handleGetClass, handleGetFile, handleGetFunction } from "../inspect"
+import { handleFindReferences, handleGotoDefinition } from "../references"
 import { handleSearchCode } from "../search"
 import { handleGetProjectStats } from "../stats"
 
@@ -315,6 +316,95 @@ describe("get_imports", () => {
   })
 })
 
+describe("find_path", () => {
+  it("returns annotated hops between two entities by name or id", async () => {
+    const container = makeContainer()
+    await container.graphStore.bulkUpsertEntities("org-1", [
+      makeEntity({ id: "fn-a", name: "handleRequest", file_path: "src/api.ts", start_line: 3 }),
+      makeEntity({ id: "fn-b", name: "createOrder", file_path: "src/orders.ts", start_line: 12 }),
+      makeEntity({ id: "fn-c", name: "insertRow", file_path: "src/db.ts", start_line: 40 }),
+    ])
+    await container.graphStore.bulkUpsertEdges("org-1", [
+      { _from: "functions/fn-a", _to: "functions/fn-b", kind: "calls", org_id: "org-1", repo_id: "repo-1" },
+      { _from: "functions/fn-b", _to: "functions/fn-c", kind: "calls", org_id: "org-1", repo_id: "repo-1" },
+    ])
+    await container.graphStore.bulkUpsertJustifications("org-1", [{
+      id: "j-b",
+      org_id: "org-1",
+      repo_id: "repo-1",
+      entity_id: "fn-b",
+      taxonomy: "VERTICAL",
+      confidence: 0.9,
+      business_purpose: "Creates a customer order",
+      domain_concepts: [],
+      feature_tag: "orders",
+      semantic_triples: [],
+      compliance_tags: [],
+      model_tier: "heuristic",
+      valid_from: "2026-01-01T00:00:00.000Z",
+      valid_to: null,
+      created_at: "2026-01-01T00:00:00.000Z",
+    }])
+
+    const result = await handleFindPath({ from: "handleRequest", to: "fn-c" }, baseCtx, container)
+    const parsed = JSON.parse(result.content[0]!.text) as {
+      count: number
+      paths: Array<{ length: number; hops: Array<{ name: string; file_path: string; line: number; via?: string; purpose?: string }> }>
+    }
+    expect(parsed.count).toBe(1)
+    expect(parsed.paths[0]!.length).toBe(2)
+    expect(parsed.paths[0]!.hops.map((h) => h.name)).toEqual(["handleRequest", "createOrder", "insertRow"])
+    expect(parsed.paths[0]!.hops[1]).toMatchObject({ file_path: "src/orders.ts", line: 12, via: "calls", purpose: "Creates a customer order" })
+  })
+
+  it("returns an error for an unknown endpoint", async () => {
+    const result = await handleFindPath({ from: "nope", to: "alsoNope" }, baseCtx, makeContainer())
+    expect(result.content[0]!.text).toContain('Entity "nope" not found')
+  })
+})
+
+describe("goto_definition / find_references", () => {
+  const definition = { path: "packages/core/src/math.ts", line: 1, column: 17, endLine: 1, endColumn: 20, symbol: "npm @acme/core add().", isDefinition: true }
+  const usage = { path: "packages/app/src/main.ts", line: 5, column: 3, endLine: 5, endColumn: 6, symbol: "npm @acme/core add().", isDefinition: false }
+
+  function withIntel(calls: unknown[][]) {
+    return makeContainer({
+      codeIntelligence: {
+        indexWorkspace: async () => ({ filesProcessed: 0 }),
+        getDefinitions: async (...args: unknown[]) => (calls.push(args), [definition]),
+        getReferences: async (...args: unknown[]) => (calls.push(args), [definition, usage]),
+      },
+    })
+  }
+
+  it("resolves the definition at a position", async () => {
+    const calls: unknown[][] = []
+    const result = await handleGotoDefinition({ file: "packages/app/src/main.ts", line: 5, column: 4 }, baseCtx, withIntel(calls))
+    const parsed = JSON.parse(result.content[0]!.text) as { definitions: Array<{ file_path: string; line: number }> }
+
+    expect(parsed.definitions).toEqual([expect.objectContaining({ file_path: "packages/core/src/math.ts", line: 1, column: 17, is_definition: true })])
+    expect(calls[0]).toEqual(["packages/app/src/main.ts", 5, 4, { orgId: "org-1", repoId: "repo-1", symbol: undefined }])
+  })
+
+  it("locates a bare symbol name through the graph", async () => {
+    const calls: unknown[][] = []
+    const container = withIntel(calls)
+    await container.graphStore.upsertEntity("org-1", makeEntity({ id: "fn-add", name: "add", file_path: "packages/core/src/math.ts", start_line: 1 }))
+
+    const result = await handleFindReferences({ symbol: "add", include_definition: false }, baseCtx, container)
+    const parsed = JSON.parse(result.content[0]!.text) as { references: Array<{ file_path: string }>; count: number }
+
+    expect(calls[0]).toEqual(["packages/core/src/math.ts", 1, 0, { orgId: "org-1", repoId: "repo-1", symbol: "add" }])
+    expect(parsed.count).toBe(1)
+    expect(parsed.references[0]!.file_path).toBe("packages/app/src/main.ts")
+  })
+
+  it("requires a column or symbol for positional lookups", async () => {
+    const result = await handleFindReferences({ file: "src/a.ts", line: 3 }, baseCtx, makeContainer())
+    expect(result.content[0]!.text).toContain("column is required")
+  })
+})
+
 describe("get_project_stats", () => {
   it("returns aggregated stats", async () => {
     const container = makeContainer()
@@ -443,9 +533,9 @@ describe("dispatchToolCall", () => {
 })
 
 describe("getToolSchemas", () => {
-  it("returns all 31 tool schemas", () => {
+  it("returns all 38 tool schemas", () => {
     const schemas = getToolSchemas()
-    expect(schemas).toHaveLength(31)
+    expect(schemas).toHaveLength(38)
     expect(schemas.map((s) => s.name)).toContain("search_code")
     expect(schemas.map((s) => s.name)).toContain("semantic_search")
     expect(schemas.map((s) => s.name)).toContain("find_similar")
@@ -459,8 +549,8 @@ describe("getToolSchemas", () => {
 })
 
 describe("TOOL_DEFINITIONS", () => {
-  it("has 31 tools with required fields", () => {
-    expect(TOOL_DEFINITIONS).toHaveLength(31)
+  it("has 38 tools with required fields", () => {
+    expect(TOOL_DEFINITIONS).toHaveLength(38)
     for (const def of TOOL_DEFINITIONS) {
       expect(def.name).toBeTruthy()
       expect(def.description).toBeTruthy()
@@ -8,6 +8,7 @@
 import type { Container } from "@/lib/di/container"
 import type { McpAuthContext } from "../auth"
 import { formatToolError, formatToolResponse } from "../formatter"
+import { ToolCallCancelledError, type ToolCallOptions } from "../progress"
 
 export const ASSEMBLE_CONTEXT_SCHEMA = {
   name: "assemble_context",
@@ -41,6 +42,7 @@ export async function handleAssembleContext(
   args: { query: string; limit?: number; include_snippets?: boolean },
   ctx: McpAuthContext,
   container: Container,
+  options: ToolCallOptions = {},
 ) {
   if (!args.query || args.query.trim().length === 0) {
     return formatToolError("query parameter is required and cannot be empty")
@@ -62,6 +64,7 @@ export async function handleAssembleContext(
       {
         limit: args.limit,
         includeSnippets: args.include_snippets,
+        ...options,
       },
     )
 
@@ -110,6 +113,7 @@ export async function handleAssembleContext(
       _hint: "Use get_function or get_class to retrieve full source code for specific entities.",
     })
   } catch (error: unknown) {
+    if (error instanceof ToolCallCancelledError) throw error
     return formatToolError(
       `Context assembly failed: ${error instanceof Error ? error.message : String(error)}`,
     )
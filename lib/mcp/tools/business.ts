@@ -5,12 +5,15 @@
  * 1. get_business_context — justification + taxonomy for an entity
  * 2. search_by_purpose — semantic search on justification embeddings
  * 3. analyze_impact — N-hop traversal with business context
- * 4. get_blueprint — feature map + health risks + ADR summaries
+ * 4. get_blueprint — feature map + health risks + ADR summaries + infra deployments
  */
 
 import type { Container } from "@/lib/di/container"
+import { extractDeployedServices, isDeployableResource } from "@/lib/indexer/languages/iac/deployments"
+import type { EntityDoc } from "@/lib/ports/types"
 import type { McpAuthContext } from "../auth"
 import { formatToolError, formatToolResponse } from "../formatter"
+import { abortable, stageReporter, type ToolCallOptions } from "../progress"
 
 // ── get_business_context ────────────────────────────────────────
 
@@ -208,7 +211,8 @@ export const ANALYZE_IMPACT_SCHEMA = {
 export async function handleAnalyzeImpact(
   args: { entity_name: string; depth?: number },
   ctx: McpAuthContext,
-  container: Container
+  container: Container,
+  options: ToolCallOptions = {}
 ) {
   const repoId = ctx.repoId
   if (!repoId) {
@@ -219,25 +223,29 @@ export async function handleAnalyzeImpact(
   }
 
   const depth = Math.min(Math.max(args.depth ?? 2, 1), 5)
+  const { signal } = options
+  const stageDone = stageReporter(3, options.onProgress)
 
   // Find entity
-  const results = await container.graphStore.searchEntities(ctx.orgId, repoId, args.entity_name, 5)
+  const results = await abortable(container.graphStore.searchEntities(ctx.orgId, repoId, args.entity_name, 5, { signal }), signal)
   const match = results.find((r) => r.name === args.entity_name) ?? results[0]
   if (!match) {
     return formatToolError(`Entity "${args.entity_name}" not found`)
   }
 
-  const fileEntities = await container.graphStore.getEntitiesByFile(ctx.orgId, repoId, match.file_path)
+  const fileEntities = await abortable(container.graphStore.getEntitiesByFile(ctx.orgId, repoId, match.file_path), signal)
   const entity = fileEntities.find((e) => e.name === args.entity_name)
   if (!entity) {
     return formatToolError(`Entity "${args.entity_name}" not found`)
   }
+  stageDone(`Resolved ${entity.name}`)
 
   // Get subgraph
-  const subgraph = await container.graphStore.getSubgraph(ctx.orgId, entity.id, depth)
+  const subgraph = await abortable(container.graphStore.getSubgraph(ctx.orgId, entity.id, depth, { signal }), signal)
+  stageDone(`Traversed ${subgraph.entities.length} entities (depth ${depth})`)
 
   // Enrich with justifications
-  const affected = await Promise.all(
+  const affected = await abortable(Promise.all(
     subgraph.entities
       .filter((e) => e.id !== entity.id)
       .slice(0, 30)
@@ -254,7 +262,8 @@ export async function handleAnalyzeImpact(
           reasoning: justification ? ((justification as Record<string, unknown>).reasoning ?? null) : null,
         }
       })
-  )
+  ), signal)
+  stageDone(`Enriched ${affected.length} affected entities`)
 
   // Group by taxonomy for summary
   const byTaxonomy: Record<string, number> = {}
@@ -278,7 +287,7 @@ export async function handleAnalyzeImpact(
 export const GET_BLUEPRINT_SCHEMA = {
   name: "get_blueprint",
   description:
-    "Get a high-level blueprint of the repository: features with entry points, health risks, and ADR summaries. Provides a business-oriented overview of the codebase architecture.",
+    "Get a high-level blueprint of the repository: features with entry points, health risks, ADR summaries, and which services are deployed by which Terraform/Kubernetes resources. Provides a business-oriented overview of the codebase architecture.",
   inputSchema: {
     type: "object" as const,
     properties: {},
@@ -297,10 +306,11 @@ export async function handleGetBlueprint(
   }
 
   // Fetch all Phase 4 data
-  const [features, healthReport, adrs] = await Promise.all([
+  const [features, healthReport, adrs, infrastructure] = await Promise.all([
     container.graphStore.getFeatureAggregations(ctx.orgId, repoId),
     container.graphStore.getHealthReport(ctx.orgId, repoId),
     container.graphStore.getADRs(ctx.orgId, repoId),
+    buildInfrastructureMap(ctx.orgId, repoId, container),
   ])
 
   if (features.length === 0 && !healthReport) {
@@ -309,6 +319,7 @@ export async function handleGetBlueprint(
       features: [],
       health: null,
       adrs: [],
+      infrastructure,
     })
   }
 
@@ -338,5 +349,57 @@ export async function handleGetBlueprint(
       context: a.context.slice(0, 200),
       decision: a.decision.slice(0, 200),
     })),
+    infrastructure,
+  })
+}
+
+/**
+ * Map deployable Terraform/Kubernetes resources to the services they run,
+ * using the edges from the cross-file infra pass: incoming references
+ * (Services, Ingresses, load balancers) expose a resource, outgoing ones
+ * (ConfigMaps, Secrets, roles, variables) configure it.
+ */
+async function buildInfrastructureMap(orgId: string, repoId: string, container: Container) {
+  const entities = await container.graphStore.getAllEntities(orgId, repoId)
+  const deployable: EntityDoc[] = []
+  // Env vars keyed by file and owning resource, so each resource is a lookup, not a scan
+  const envVarsByResource = new Map<string, string[]>()
+  const resourceKey = (filePath: string, name: string) => `${filePath}\0${name}`
+  for (const e of entities) {
+    if (e.kind === "resource" && isDeployableResource(e.name, typeof e.language === "string" ? e.language : undefined)) {
+      deployable.push(e)
+    } else if (e.kind === "variable" && typeof e.parent === "string") {
+      const key = resourceKey(e.file_path, e.parent)
+      envVarsByResource.set(key, [...(envVarsByResource.get(key) ?? []), e.name])
+    }
+  }
+  if (deployable.length === 0) return []
+
+  const byId = new Map(entities.map((e) => [e.id, e]))
+  const edges = await container.graphStore.getEdgesForEntities(orgId, deployable.map((e) => e.id))
+
+  return deployable.slice(0, 50).map((resource) => {
+    const exposedBy: string[] = []
+    const configuredBy: string[] = []
+    for (const edge of edges) {
+      if (edge.kind !== "references") continue
+      const fromId = edge._from.split("/").pop()!
+      const toId = edge._to.split("/").pop()!
+      if (toId === resource.id) {
+        const source = byId.get(fromId)
+        if (source?.kind === "resource") exposedBy.push(source.name)
+      } else if (fromId === resource.id) {
+        const target = byId.get(toId)
+        if (target) configuredBy.push(target.name)
+      }
+    }
+    return {
+      resource: resource.name,
+      filePath: resource.file_path,
+      deploys: extractDeployedServices(resource.name, typeof resource.body === "string" ? resource.body : undefined),
+      exposedBy,
+      configuredBy,
+      envVars: envVarsByResource.get(resourceKey(resource.file_path, resource.name)) ?? [],
+    }
   })
 }
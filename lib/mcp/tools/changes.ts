@@ -1,10 +1,14 @@
 /**
- * Phase 5: MCP tool for querying recent index changes.
+ * Phase 5: MCP tools for querying change history — recent index changes
+ * (repo-wide) and the history of a single entity.
  */
 
-import type { Container } from "@/lib/di/container"
+import { type Container, getGitHost } from "@/lib/di/container"
+import type { FileCommit } from "@/lib/ports/git-host"
+import type { EntityDoc, LedgerChange } from "@/lib/ports/types"
+import { resolveEntityRef } from "./graph"
 import type { McpAuthContext } from "../auth"
-import { formatToolError } from "../formatter"
+import { formatToolError, formatToolResponse } from "../formatter"
 
 export const GET_RECENT_CHANGES_SCHEMA = {
   name: "get_recent_changes",
@@ -70,3 +74,218 @@ export async function handleGetRecentChanges(
     return formatToolError(error instanceof Error ? error.message : String(error))
   }
 }
+
+// ── get_entity_history ──────────────────────────────────────────
+
+export const GET_ENTITY_HISTORY_SCHEMA = {
+  name: "get_entity_history",
+  description:
+    "Get the full history of one function or class as a single chronological narrative: git commits that touched its file, how its business justification changed over time, semantic drift detections, AI-agent ledger entries that modified it, and warnings about reverted changes. Use before changing code whose intent or past is unclear.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      entity: {
+        type: "string",
+        description: "Name or ID of the function or class",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum git commits to include (default 20, max 50)",
+      },
+    },
+    required: ["entity"],
+  },
+}
+
+type HistorySource = "git" | "justification" | "drift" | "ledger" | "warning"
+
+interface HistoryEvent {
+  /** ISO timestamp; undated events sort last */
+  at: string | null
+  source: HistorySource
+  summary: string
+  details?: Record<string, unknown>
+}
+
+const LEDGER_SCAN_LIMIT = 200
+
+/** Whether a ledger change's hunks (`@@ -a,b +c,d @@`) overlap the line range. */
+function touchesRange(change: LedgerChange, startLine: number, endLine: number): boolean {
+  for (const match of change.diff.matchAll(/@@ -(\d+)(?:,(\d+))?(?: \+(\d+)(?:,(\d+))?)? @@/g)) {
+    const start = parseInt(match[3] ?? match[1]!, 10)
+    const count = parseInt((match[3] ? match[4] : match[2]) ?? "1", 10)
+    if (start <= endLine && start + Math.max(count, 1) - 1 >= startLine) return true
+  }
+  return false
+}
+
+function modifiesEntity(change: LedgerChange, entity: EntityDoc, startLine: number, endLine: number): boolean {
+  if (change.entity_id) return change.entity_id === entity.id
+  return change.file_path === entity.file_path && touchesRange(change, startLine, endLine)
+}
+
+/**
+ * Commits touching the entity's file, read from the repo's git host. File
+ * granularity — the host APIs cannot follow a line range the way `git log -L`
+ * does on a clone.
+ */
+async function fileCommits(container: Container, orgId: string, repoId: string, filePath: string, limit: number): Promise<FileCommit[]> {
+  const repo = await container.relationalStore.getRepo(orgId, repoId)
+  if (!repo) return []
+  const slash = repo.fullName.lastIndexOf("/")
+  try {
+    return await getGitHost(container, repo.provider).listFileCommits(
+      repo.fullName.slice(0, slash),
+      repo.fullName.slice(slash + 1),
+      filePath,
+      { ref: repo.defaultBranch, limit }
+    )
+  } catch {
+    return []
+  }
+}
+
+export async function handleGetEntityHistory(
+  args: { entity: string; limit?: number },
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context. This API key is not scoped to a repository.")
+  }
+  if (!args.entity) {
+    return formatToolError("entity parameter is required")
+  }
+
+  const entity = await resolveEntityRef(container, ctx.orgId, repoId, args.entity)
+  if (!entity) {
+    return formatToolError(`Entity "${args.entity}" not found in this repository`)
+  }
+
+  const limit = Math.min(Math.max(args.limit ?? 20, 1), 50)
+  const startLine = Number(entity.start_line) || 1
+  const endLine = Math.max(Number(entity.end_line) || startLine, startLine)
+
+  const [commits, justifications, driftScores, ledger, warnings] = await Promise.all([
+    fileCommits(container, ctx.orgId, repoId, entity.file_path, limit),
+    container.graphStore.getJustificationHistory(ctx.orgId, entity.id),
+    container.graphStore.getDriftScores(ctx.orgId, repoId),
+    container.graphStore.queryLedgerTimeline({ orgId: ctx.orgId, repoId, limit: LEDGER_SCAN_LIMIT }),
+    container.graphStore.getEntityWarnings(ctx.orgId, entity.id),
+  ])
+
+  const events: HistoryEvent[] = []
+
+  for (const commit of commits) {
+    events.push({
+      at: commit.date ?? null,
+      source: "git",
+      summary: `Commit ${commit.sha.slice(0, 7)}${commit.author ? ` by ${commit.author}` : ""}: ${commit.subject}`,
+      details: { sha: commit.sha, ...(commit.body ? { body: commit.body.slice(0, 500) } : {}) },
+    })
+  }
+
+  const versions = [...justifications].sort((a, b) => a.valid_from.localeCompare(b.valid_from))
+  versions.forEach((j, i) => {
+    const previous = versions[i - 1]
+    let summary: string
+    if (!previous) {
+      summary = `First justified as ${j.taxonomy} (${j.feature_tag}): ${j.business_purpose}`
+    } else if (previous.business_purpose !== j.business_purpose) {
+      summary = `Purpose changed: "${previous.business_purpose}" → "${j.business_purpose}"`
+    } else if (previous.taxonomy !== j.taxonomy || previous.feature_tag !== j.feature_tag) {
+      summary = `Reclassified ${previous.taxonomy}/${previous.feature_tag} → ${j.taxonomy}/${j.feature_tag}`
+    } else {
+      summary = `Re-justified (confidence ${previous.confidence.toFixed(2)} → ${j.confidence.toFixed(2)})`
+    }
+    events.push({
+      at: j.valid_from,
+      source: "justification",
+      summary,
+      details: { taxonomy: j.taxonomy, feature_tag: j.feature_tag, confidence: j.confidence, current: j.valid_to === null },
+    })
+  })
+
+  for (const drift of driftScores.filter((d) => d.entity_id === entity.id)) {
+    events.push({
+      at: drift.detected_at,
+      source: "drift",
+      summary: `Drift detected: ${drift.category} (embedding similarity ${drift.embedding_similarity.toFixed(2)})`,
+      details: { category: drift.category, embedding_similarity: drift.embedding_similarity },
+    })
+  }
+
+  for (const entry of ledger.items) {
+    const changes = entry.changes.filter((c) => modifiesEntity(c, entity, startLine, endLine))
+    if (changes.length === 0) continue
+    const tool = entry.agent_tool ? ` via ${entry.agent_tool}` : ""
+    events.push({
+      at: entry.created_at,
+      source: "ledger",
+      summary: `${changes.map((c) => c.change_type).join(", ")}${tool} for prompt "${entry.prompt.slice(0, 120)}" (${entry.status})`,
+      details: {
+        ledger_entry_id: entry.id,
+        branch: entry.branch,
+        status: entry.status,
+        lines_added: changes.reduce((sum, c) => sum + c.lines_added, 0),
+        lines_removed: changes.reduce((sum, c) => sum + c.lines_removed, 0),
+        ...(entry.commit_sha ? { commit_sha: entry.commit_sha } : {}),
+      },
+    })
+  }
+
+  for (const warning of warnings) {
+    events.push({
+      at: warning.reverted_at ?? warning.created_at,
+      source: "warning",
+      summary: `${warning.severity === "error" ? "Error" : "Warning"}: ${warning.message}${warning.reason ? ` — ${warning.reason}` : ""}`,
+      details: {
+        severity: warning.severity,
+        ...(warning.ledger_entry_id ? { ledger_entry_id: warning.ledger_entry_id } : {}),
+        ...(warning.reverted_at ? { reverted_at: warning.reverted_at } : {}),
+      },
+    })
+  }
+
+  events.sort((a, b) => {
+    if (a.at === b.at) return 0
+    if (a.at === null) return 1
+    if (b.at === null) return -1
+    return a.at.localeCompare(b.at)
+  })
+
+  // The MCP server has no clone to blame, so the latest commit's author stands in
+  const owner = commits[0]?.author
+
+  const narrative = events
+    .map((e) => `${e.at ? e.at.slice(0, 10) : "(undated)"} [${e.source}] ${e.summary}`)
+    .join("\n")
+  const current = versions[versions.length - 1]
+
+  return formatToolResponse({
+    entity: {
+      id: entity.id,
+      name: entity.name,
+      kind: entity.kind,
+      file_path: entity.file_path,
+      lines: `${startLine}-${endLine}`,
+      ...(owner ? { current_owner: owner } : {}),
+      ...(current ? { purpose: current.business_purpose } : {}),
+    },
+    narrative: narrative || "No recorded history for this entity.",
+    timeline: events,
+    counts: {
+      commits: commits.length,
+      justification_versions: versions.length,
+      drift_events: events.filter((e) => e.source === "drift").length,
+      ledger_entries: events.filter((e) => e.source === "ledger").length,
+      warnings: warnings.length,
+    },
+    _hint: warnings.some((w) => w.reverted_at)
+      ? "A previous change to this entity was reverted — check the warnings before modifying it."
+      : commits.length === 0
+        ? "Git history is unavailable from the repository host; the timeline covers indexed history only."
+        : undefined,
+  })
+}
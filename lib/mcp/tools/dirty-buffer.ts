@@ -40,7 +40,7 @@ export const SYNC_DIRTY_BUFFER_SCHEMA = {
   },
 }
 
-interface DirtyBufferEntity {
+export interface DirtyBufferEntity {
   name: string
   kind: string
   start_line: number
@@ -48,6 +48,22 @@ interface DirtyBufferEntity {
   signature?: string
 }
 
+export interface DirtyBufferSnapshot {
+  file_path: string
+  entities: DirtyBufferEntity[]
+  cursor_line?: number
+  language?: string
+  updated_at: string
+}
+
+function dirtyBufferKey(orgId: string, repoId: string, userId: string, filePath: string): string {
+  return `unerr:dirty:${orgId}:${repoId}:${userId}:${filePath}`
+}
+
+function dirtyEntityKey(orgId: string, repoId: string, name: string): string {
+  return `unerr:dirty:entity:${orgId}:${repoId}:${name}`
+}
+
 /**
  * Lightweight entity extraction from buffer content using regex.
  * Not a full AST parse — just identifies function/class/interface signatures.
@@ -148,7 +164,7 @@ export async function handleSyncDirtyBuffer(
     const entities = extractEntitiesFromBuffer(args.content, args.language)
 
     // 2. Store in Redis with short TTL
-    const cacheKey = `unerr:dirty:${ctx.orgId}:${repoId}:${ctx.userId}:${args.file_path}`
+    const cacheKey = dirtyBufferKey(ctx.orgId, repoId, ctx.userId, args.file_path)
     await container.cacheStore.set(
       cacheKey,
       {
@@ -163,7 +179,7 @@ export async function handleSyncDirtyBuffer(
 
     // 3. Also store per-entity keys for fast lookup
     for (const entity of entities) {
-      const entityCacheKey = `unerr:dirty:entity:${ctx.orgId}:${repoId}:${entity.name}`
+      const entityCacheKey = dirtyEntityKey(ctx.orgId, repoId, entity.name)
       await container.cacheStore.set(
         entityCacheKey,
         {
@@ -189,6 +205,27 @@ export async function handleSyncDirtyBuffer(
   }
 }
 
+/** The user's last synced unsaved buffer for a file, if it has not expired. */
+export async function getDirtyBuffer(
+  container: Container,
+  orgId: string,
+  repoId: string,
+  userId: string,
+  filePath: string
+): Promise<DirtyBufferSnapshot | null> {
+  return container.cacheStore.get<DirtyBufferSnapshot>(dirtyBufferKey(orgId, repoId, userId, filePath))
+}
+
+/** An entity with this name in any user's unsaved buffer, if one was synced recently. */
+export async function getDirtyEntity(
+  container: Container,
+  orgId: string,
+  repoId: string,
+  name: string
+): Promise<(DirtyBufferEntity & { file_path: string; user_id: string }) | null> {
+  return container.cacheStore.get(dirtyEntityKey(orgId, repoId, name))
+}
+
 /**
  * Overlay-aware entity resolution.
  * Priority: dirty_buffer > workspace_overlay > ArangoDB > pgvector
@@ -201,8 +238,7 @@ export async function resolveEntityWithOverlay(
   workspaceId?: string
 ): Promise<{ source: string; entity: unknown } | null> {
   // 1. Check dirty buffer (Redis)
-  const dirtyKey = `unerr:dirty:entity:${orgId}:${repoId}:${entityName}`
-  const dirtyEntity = await container.cacheStore.get(dirtyKey)
+  const dirtyEntity = await getDirtyEntity(container, orgId, repoId, entityName)
   if (dirtyEntity) {
     return { source: "dirty_buffer", entity: dirtyEntity }
   }
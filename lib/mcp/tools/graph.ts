@@ -1,8 +1,9 @@
 /**
- * Graph traversal MCP tools: get_callers, get_callees, get_imports.
+ * Graph traversal MCP tools: get_callers, get_callees, get_imports, find_path.
  */
 
 import type { Container } from "@/lib/di/container"
+import type { EntityDoc, JustificationDoc, PathEdgeKind } from "@/lib/ports/types"
 import { resolveEntityWithOverlay } from "./dirty-buffer"
 import { resolveScope } from "./scope-resolver"
 import type { McpAuthContext } from "../auth"
@@ -261,3 +262,115 @@ export async function handleGetImports(
     count: imports.length,
   })
 }
+
+// ── find_path ────────────────────────────────────────────────────
+
+export const FIND_PATH_SCHEMA = {
+  name: "find_path",
+  description:
+    "Find the k shortest call/import paths from one entity to another. Each hop is annotated with its file, line and business-purpose summary — use it to answer \"how does A reach B?\".",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      from: {
+        type: "string",
+        description: "Start entity — name or entity ID",
+      },
+      to: {
+        type: "string",
+        description: "Target entity — name or entity ID",
+      },
+      k: {
+        type: "number",
+        description: "Number of paths to return (default 3, max 10)",
+      },
+      max_depth: {
+        type: "number",
+        description: "Maximum hops per path (default 6, max 10)",
+      },
+      edge_kinds: {
+        type: "array",
+        items: { type: "string", enum: ["calls", "imports"] },
+        description: "Edge kinds to follow (default both)",
+      },
+    },
+    required: ["from", "to"],
+  },
+}
+
+/** Resolve an entity by ID first, then by exact name (same lookup as get_callers). */
+export async function resolveEntityRef(container: Container, orgId: string, repoId: string, ref: string): Promise<EntityDoc | null> {
+  const byId = await container.graphStore.getEntity(orgId, ref)
+  if (byId && byId.repo_id === repoId) return byId
+
+  const results = await container.graphStore.searchEntities(orgId, repoId, ref, 5)
+  const match = results.find((r) => r.name === ref)
+  if (!match) return null
+  const fileEntities = await container.graphStore.getEntitiesByFile(orgId, repoId, match.file_path)
+  return fileEntities.find((e) => e.name === ref) ?? null
+}
+
+export async function handleFindPath(
+  args: { from: string; to: string; k?: number; max_depth?: number; edge_kinds?: string[] },
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context. This API key is not scoped to a repository.")
+  }
+
+  if (!args.from || !args.to) {
+    return formatToolError("from and to parameters are required")
+  }
+
+  const [source, target] = await Promise.all([
+    resolveEntityRef(container, ctx.orgId, repoId, args.from),
+    resolveEntityRef(container, ctx.orgId, repoId, args.to),
+  ])
+  if (!source) {
+    return formatToolError(`Entity "${args.from}" not found in this repository`)
+  }
+  if (!target) {
+    return formatToolError(`Entity "${args.to}" not found in this repository`)
+  }
+
+  const paths = await container.graphStore.findPaths(ctx.orgId, source.id, target.id, {
+    k: args.k,
+    maxDepth: args.max_depth,
+    edgeKinds: args.edge_kinds?.filter((kind): kind is PathEdgeKind => kind === "calls" || kind === "imports"),
+  })
+
+  // One justification lookup per distinct entity across all paths
+  const entityIds = Array.from(new Set(paths.flatMap((p) => p.entities.map((e) => e.id))))
+  const justifications = new Map<string, JustificationDoc>()
+  await Promise.all(
+    entityIds.map(async (id) => {
+      const justification = await container.graphStore.getJustification(ctx.orgId, id)
+      if (justification) justifications.set(id, justification)
+    })
+  )
+
+  return formatToolResponse({
+    from: { name: source.name, kind: source.kind, file_path: source.file_path },
+    to: { name: target.name, kind: target.kind, file_path: target.file_path },
+    paths: paths.map((path) => ({
+      length: path.edges.length,
+      hops: path.entities.map((e, i) => {
+        const justification = justifications.get(e.id)
+        return {
+          name: e.name,
+          kind: e.kind,
+          file_path: e.file_path,
+          line: Number(e.start_line) || 0,
+          ...(i > 0 && { via: path.edges[i - 1]?.kind }),
+          ...(justification && {
+            purpose: justification.business_purpose,
+            taxonomy: justification.taxonomy,
+          }),
+        }
+      }),
+    })),
+    count: paths.length,
+  })
+}
@@ -10,20 +10,23 @@ import {
   handleGetBlueprint, handleGetBusinessContext,
   handleSearchByPurpose, SEARCH_BY_PURPOSE_SCHEMA,
 } from "./business"
-import { GET_RECENT_CHANGES_SCHEMA, handleGetRecentChanges } from "./changes"
+import { GET_ENTITY_HISTORY_SCHEMA, GET_RECENT_CHANGES_SCHEMA, handleGetEntityHistory, handleGetRecentChanges } from "./changes"
 import { handleSyncDirtyBuffer, SYNC_DIRTY_BUFFER_SCHEMA } from "./dirty-buffer"
 import { FILE_CONTEXT_SCHEMA, handleFileContext } from "./file-context"
-import { GET_CALLEES_SCHEMA, GET_CALLERS_SCHEMA, GET_IMPORTS_SCHEMA, handleGetCallees, handleGetCallers, handleGetImports } from "./graph"
+import { FIND_PATH_SCHEMA, GET_CALLEES_SCHEMA, GET_CALLERS_SCHEMA, GET_IMPORTS_SCHEMA, handleFindPath, handleGetCallees, handleGetCallers, handleGetImports } from "./graph"
 import { GET_CLASS_SCHEMA, GET_FILE_SCHEMA, GET_FUNCTION_SCHEMA, handleGetClass, handleGetFile, handleGetFunction } from "./inspect"
 import { CHECK_PATTERNS_SCHEMA, GET_CONVENTIONS_SCHEMA, handleCheckPatterns, handleGetConventions, handleSuggestApproach, SUGGEST_APPROACH_SCHEMA } from "./patterns"
+import { handlePlanRename, PLAN_RENAME_SCHEMA } from "./refactor"
+import { FIND_REFERENCES_SCHEMA, GOTO_DEFINITION_SCHEMA, handleFindReferences, handleGotoDefinition } from "./references"
 import { handleRefreshContext, REFRESH_CONTEXT_SCHEMA } from "./refresh-context"
 import { handleReviewPrStatus, REVIEW_PR_STATUS_SCHEMA } from "./review"
 import { handleRevertToWorking, REVERT_TO_WORKING_SCHEMA } from "./rewind"
-import { CHECK_RULES_SCHEMA, DRAFT_ARCHITECTURE_RULE_SCHEMA, GET_RELEVANT_RULES_SCHEMA, GET_RULES_SCHEMA, handleCheckRules, handleDraftArchitectureRule, handleGetRelevantRules, handleGetRules } from "./rules"
+import { CHECK_ARCHITECTURE_SCHEMA, CHECK_RULES_SCHEMA, DRAFT_ARCHITECTURE_RULE_SCHEMA, GET_RELEVANT_RULES_SCHEMA, GET_RULES_SCHEMA, handleCheckArchitecture, handleCheckRules, handleDraftArchitectureRule, handleGetRelevantRules, handleGetRules } from "./rules"
 import { handleSearchCode, SEARCH_CODE_SCHEMA } from "./search"
 import { FIND_SIMILAR_SCHEMA, handleFindSimilar, handleSemanticSearch, SEMANTIC_SEARCH_SCHEMA } from "./semantic"
 import { GET_PROJECT_STATS_SCHEMA, handleGetProjectStats } from "./stats"
 import { handleSyncLocalDiff, SYNC_LOCAL_DIFF_SCHEMA } from "./sync"
+import { handleSelectTests, SELECT_TESTS_SCHEMA } from "./test-selection"
 // Phase 5.5: Prompt Ledger & Rewind
 import { GET_TIMELINE_SCHEMA, handleGetTimeline, handleMarkWorking, MARK_WORKING_SCHEMA } from "./timeline"
 // Phase 5.6: Dirty state overlay
@@ -33,6 +36,8 @@ import { GET_TIMELINE_SCHEMA, handleGetTimeline, handleMarkWorking, MARK_WORKING
 import { hasScope } from "../auth"
 import type { McpAuthContext } from "../auth"
 import { formatToolError } from "../formatter"
+import type { ToolCallOptions } from "../progress"
+import { legacyScopeFor } from "../scopes"
 
 export interface ToolDefinition {
   name: string
@@ -42,102 +47,119 @@ export interface ToolDefinition {
 }
 
 export const TOOL_DEFINITIONS: ToolDefinition[] = [
-  { ...SEARCH_CODE_SCHEMA, requiredScope: "mcp:read" },
-  { ...SEMANTIC_SEARCH_SCHEMA, requiredScope: "mcp:read" },
-  { ...FIND_SIMILAR_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_FUNCTION_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_CLASS_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_FILE_SCHEMA, requiredScope: "mcp:read" },
-  { ...FILE_CONTEXT_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_CALLERS_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_CALLEES_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_IMPORTS_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_PROJECT_STATS_SCHEMA, requiredScope: "mcp:read" },
-  { ...SYNC_LOCAL_DIFF_SCHEMA, requiredScope: "mcp:sync" },
+  { ...SEARCH_CODE_SCHEMA, requiredScope: "graph:read" },
+  { ...SEMANTIC_SEARCH_SCHEMA, requiredScope: "graph:read" },
+  { ...FIND_SIMILAR_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_FUNCTION_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_CLASS_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_FILE_SCHEMA, requiredScope: "graph:read" },
+  { ...FILE_CONTEXT_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_CALLERS_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_CALLEES_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_IMPORTS_SCHEMA, requiredScope: "graph:read" },
+  { ...FIND_PATH_SCHEMA, requiredScope: "graph:read" },
+  { ...GOTO_DEFINITION_SCHEMA, requiredScope: "graph:read" },
+  { ...FIND_REFERENCES_SCHEMA, requiredScope: "graph:read" },
+  { ...PLAN_RENAME_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_PROJECT_STATS_SCHEMA, requiredScope: "graph:read" },
+  { ...SYNC_LOCAL_DIFF_SCHEMA, requiredScope: "workspace:sync" },
   // Phase 4: Business intelligence tools
-  { ...GET_BUSINESS_CONTEXT_SCHEMA, requiredScope: "mcp:read" },
-  { ...SEARCH_BY_PURPOSE_SCHEMA, requiredScope: "mcp:read" },
-  { ...ANALYZE_IMPACT_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_BLUEPRINT_SCHEMA, requiredScope: "mcp:read" },
+  { ...GET_BUSINESS_CONTEXT_SCHEMA, requiredScope: "graph:read" },
+  { ...SEARCH_BY_PURPOSE_SCHEMA, requiredScope: "graph:read" },
+  { ...ANALYZE_IMPACT_SCHEMA, requiredScope: "graph:read" },
+  { ...SELECT_TESTS_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_BLUEPRINT_SCHEMA, requiredScope: "graph:read" },
   // Phase 5: Incremental indexing tools
-  { ...GET_RECENT_CHANGES_SCHEMA, requiredScope: "mcp:read" },
+  { ...GET_RECENT_CHANGES_SCHEMA, requiredScope: "graph:read" },
+  { ...GET_ENTITY_HISTORY_SCHEMA, requiredScope: "graph:read" },
   // Phase 5.5: Prompt Ledger & Rewind
-  { ...GET_TIMELINE_SCHEMA, requiredScope: "mcp:read" },
-  { ...MARK_WORKING_SCHEMA, requiredScope: "mcp:sync" },
-  { ...REVERT_TO_WORKING_SCHEMA, requiredScope: "mcp:sync" },
+  { ...GET_TIMELINE_SCHEMA, requiredScope: "ledger:read" },
+  { ...MARK_WORKING_SCHEMA, requiredScope: "ledger:write" },
+  { ...REVERT_TO_WORKING_SCHEMA, requiredScope: "ledger:write" },
   // Phase 5.6: Dirty state overlay
-  { ...SYNC_DIRTY_BUFFER_SCHEMA, requiredScope: "mcp:sync" },
+  { ...SYNC_DIRTY_BUFFER_SCHEMA, requiredScope: "workspace:sync" },
   // Phase 6: Pattern Enforcement & Rules Engine
-  { ...GET_RULES_SCHEMA, requiredScope: "mcp:read" },
-  { ...CHECK_RULES_SCHEMA, requiredScope: "mcp:read" },
-  { ...CHECK_PATTERNS_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_CONVENTIONS_SCHEMA, requiredScope: "mcp:read" },
-  { ...SUGGEST_APPROACH_SCHEMA, requiredScope: "mcp:read" },
-  { ...GET_RELEVANT_RULES_SCHEMA, requiredScope: "mcp:read" },
-  { ...DRAFT_ARCHITECTURE_RULE_SCHEMA, requiredScope: "mcp:sync" },
+  { ...GET_RULES_SCHEMA, requiredScope: "rules:read" },
+  { ...CHECK_RULES_SCHEMA, requiredScope: "rules:read" },
+  { ...CHECK_PATTERNS_SCHEMA, requiredScope: "rules:read" },
+  { ...GET_CONVENTIONS_SCHEMA, requiredScope: "rules:read" },
+  { ...SUGGEST_APPROACH_SCHEMA, requiredScope: "rules:read" },
+  { ...GET_RELEVANT_RULES_SCHEMA, requiredScope: "rules:read" },
+  { ...DRAFT_ARCHITECTURE_RULE_SCHEMA, requiredScope: "rules:write" },
+  { ...CHECK_ARCHITECTURE_SCHEMA, requiredScope: "rules:read" },
   // Phase 7: PR Review Integration
-  { ...REVIEW_PR_STATUS_SCHEMA, requiredScope: "mcp:read" },
+  { ...REVIEW_PR_STATUS_SCHEMA, requiredScope: "reviews:read" },
   // Phase 8: Alpha-7 — Entity Profiles & Context Assembly
-  { ...ASSEMBLE_CONTEXT_SCHEMA, requiredScope: "mcp:read" },
-  { ...REFRESH_CONTEXT_SCHEMA, requiredScope: "mcp:sync" },
+  { ...ASSEMBLE_CONTEXT_SCHEMA, requiredScope: "graph:read" },
+  { ...REFRESH_CONTEXT_SCHEMA, requiredScope: "workspace:sync" },
 ]
 
 type ToolHandler = (
   args: Record<string, unknown>,
   ctx: McpAuthContext,
-  container: Container
+  container: Container,
+  options?: ToolCallOptions
 ) => Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }>
 
 const TOOL_HANDLERS: Record<string, { handler: ToolHandler; scope: string }> = {
-  search_code: { handler: handleSearchCode as ToolHandler, scope: "mcp:read" },
-  semantic_search: { handler: handleSemanticSearch as ToolHandler, scope: "mcp:read" },
-  find_similar: { handler: handleFindSimilar as ToolHandler, scope: "mcp:read" },
-  get_function: { handler: handleGetFunction as ToolHandler, scope: "mcp:read" },
-  get_class: { handler: handleGetClass as ToolHandler, scope: "mcp:read" },
-  get_file: { handler: handleGetFile as ToolHandler, scope: "mcp:read" },
-  file_context: { handler: handleFileContext as ToolHandler, scope: "mcp:read" },
-  get_callers: { handler: handleGetCallers as ToolHandler, scope: "mcp:read" },
-  get_callees: { handler: handleGetCallees as ToolHandler, scope: "mcp:read" },
-  get_imports: { handler: handleGetImports as ToolHandler, scope: "mcp:read" },
-  get_project_stats: { handler: handleGetProjectStats as ToolHandler, scope: "mcp:read" },
-  sync_local_diff: { handler: handleSyncLocalDiff as ToolHandler, scope: "mcp:sync" },
+  search_code: { handler: handleSearchCode as ToolHandler, scope: "graph:read" },
+  semantic_search: { handler: handleSemanticSearch as ToolHandler, scope: "graph:read" },
+  find_similar: { handler: handleFindSimilar as ToolHandler, scope: "graph:read" },
+  get_function: { handler: handleGetFunction as ToolHandler, scope: "graph:read" },
+  get_class: { handler: handleGetClass as ToolHandler, scope: "graph:read" },
+  get_file: { handler: handleGetFile as ToolHandler, scope: "graph:read" },
+  file_context: { handler: handleFileContext as ToolHandler, scope: "graph:read" },
+  get_callers: { handler: handleGetCallers as ToolHandler, scope: "graph:read" },
+  get_callees: { handler: handleGetCallees as ToolHandler, scope: "graph:read" },
+  get_imports: { handler: handleGetImports as ToolHandler, scope: "graph:read" },
+  find_path: { handler: handleFindPath as ToolHandler, scope: "graph:read" },
+  goto_definition: { handler: handleGotoDefinition as ToolHandler, scope: "graph:read" },
+  find_references: { handler: handleFindReferences as ToolHandler, scope: "graph:read" },
+  plan_rename: { handler: handlePlanRename as ToolHandler, scope: "graph:read" },
+  get_project_stats: { handler: handleGetProjectStats as ToolHandler, scope: "graph:read" },
+  sync_local_diff: { handler: handleSyncLocalDiff as ToolHandler, scope: "workspace:sync" },
   // Phase 4: Business intelligence tools
-  get_business_context: { handler: handleGetBusinessContext as ToolHandler, scope: "mcp:read" },
-  search_by_purpose: { handler: handleSearchByPurpose as ToolHandler, scope: "mcp:read" },
-  analyze_impact: { handler: handleAnalyzeImpact as ToolHandler, scope: "mcp:read" },
-  get_blueprint: { handler: handleGetBlueprint as ToolHandler, scope: "mcp:read" },
+  get_business_context: { handler: handleGetBusinessContext as ToolHandler, scope: "graph:read" },
+  search_by_purpose: { handler: handleSearchByPurpose as ToolHandler, scope: "graph:read" },
+  analyze_impact: { handler: handleAnalyzeImpact as ToolHandler, scope: "graph:read" },
+  select_tests: { handler: handleSelectTests as ToolHandler, scope: "graph:read" },
+  get_blueprint: { handler: handleGetBlueprint as ToolHandler, scope: "graph:read" },
   // Phase 5: Incremental indexing tools
-  get_recent_changes: { handler: handleGetRecentChanges as ToolHandler, scope: "mcp:read" },
+  get_recent_changes: { handler: handleGetRecentChanges as ToolHandler, scope: "graph:read" },
+  get_entity_history: { handler: handleGetEntityHistory as ToolHandler, scope: "graph:read" },
   // Phase 5.5: Prompt Ledger & Rewind
-  get_timeline: { handler: handleGetTimeline as ToolHandler, scope: "mcp:read" },
-  mark_working: { handler: handleMarkWorking as ToolHandler, scope: "mcp:sync" },
-  revert_to_working_state: { handler: handleRevertToWorking as ToolHandler, scope: "mcp:sync" },
+  get_timeline: { handler: handleGetTimeline as ToolHandler, scope: "ledger:read" },
+  mark_working: { handler: handleMarkWorking as ToolHandler, scope: "ledger:write" },
+  revert_to_working_state: { handler: handleRevertToWorking as ToolHandler, scope: "ledger:write" },
   // Phase 5.6: Dirty state overlay
-  sync_dirty_buffer: { handler: handleSyncDirtyBuffer as ToolHandler, scope: "mcp:sync" },
+  sync_dirty_buffer: { handler: handleSyncDirtyBuffer as ToolHandler, scope: "workspace:sync" },
   // Phase 6: Pattern Enforcement & Rules Engine
-  get_rules: { handler: handleGetRules as ToolHandler, scope: "mcp:read" },
-  check_rules: { handler: handleCheckRules as ToolHandler, scope: "mcp:read" },
-  check_patterns: { handler: handleCheckPatterns as ToolHandler, scope: "mcp:read" },
-  get_conventions: { handler: handleGetConventions as ToolHandler, scope: "mcp:read" },
-  suggest_approach: { handler: handleSuggestApproach as ToolHandler, scope: "mcp:read" },
-  get_relevant_rules: { handler: handleGetRelevantRules as ToolHandler, scope: "mcp:read" },
-  draft_architecture_rule: { handler: handleDraftArchitectureRule as ToolHandler, scope: "mcp:sync" },
+  get_rules: { handler: handleGetRules as ToolHandler, scope: "rules:read" },
+  check_rules: { handler: handleCheckRules as ToolHandler, scope: "rules:read" },
+  check_patterns: { handler: handleCheckPatterns as ToolHandler, scope: "rules:read" },
+  get_conventions: { handler: handleGetConventions as ToolHandler, scope: "rules:read" },
+  suggest_approach: { handler: handleSuggestApproach as ToolHandler, scope: "rules:read" },
+  get_relevant_rules: { handler: handleGetRelevantRules as ToolHandler, scope: "rules:read" },
+  draft_architecture_rule: { handler: handleDraftArchitectureRule as ToolHandler, scope: "rules:write" },
+  check_architecture: { handler: handleCheckArchitecture as ToolHandler, scope: "rules:read" },
   // Phase 7: PR Review Integration
-  review_pr_status: { handler: handleReviewPrStatus as ToolHandler, scope: "mcp:read" },
+  review_pr_status: { handler: handleReviewPrStatus as ToolHandler, scope: "reviews:read" },
   // Phase 8: Alpha-7 — Entity Profiles & Context Assembly
-  assemble_context: { handler: handleAssembleContext as ToolHandler, scope: "mcp:read" },
-  refresh_context: { handler: handleRefreshContext as ToolHandler, scope: "mcp:sync" },
+  assemble_context: { handler: handleAssembleContext as ToolHandler, scope: "graph:read" },
+  refresh_context: { handler: handleRefreshContext as ToolHandler, scope: "workspace:sync" },
 }
 
 /**
  * Dispatch a tool call to the appropriate handler.
- * Checks scope permissions before execution.
+ * Checks scope permissions before execution. Long-running tools
+ * (semantic_search, analyze_impact, assemble_context) honour `options`.
  */
 export async function dispatchToolCall(
   toolName: string,
   args: Record<string, unknown>,
   ctx: McpAuthContext,
-  container: Container
+  container: Container,
+  options: ToolCallOptions = {}
 ) {
   const entry = TOOL_HANDLERS[toolName]
   if (!entry) {
@@ -146,23 +168,27 @@ export async function dispatchToolCall(
 
   // Check scope
   if (!hasScope(ctx, entry.scope)) {
+    const umbrella = legacyScopeFor(entry.scope)
     return formatToolError(
-      `This API key does not have the '${entry.scope}' scope. Required scope for ${toolName}: ${entry.scope}`
+      `This API key does not have the '${entry.scope}' scope. Required scope for ${toolName}: ${entry.scope}` +
+        (umbrella ? ` (or ${umbrella})` : "")
     )
   }
 
-  return entry.handler(args, ctx, container)
+  return entry.handler(args, ctx, container, options)
 }
 
 /**
- * Get all tool schemas for MCP ListTools response.
+ * Get tool schemas for MCP ListTools response.
+ * With an auth context, only tools the caller may invoke are listed.
  */
-export function getToolSchemas(): Array<{
+export function getToolSchemas(ctx?: McpAuthContext): Array<{
   name: string
   description: string
   inputSchema: Record<string, unknown>
 }> {
-  return TOOL_DEFINITIONS.map(({ name, description, inputSchema }) => ({
+  const visible = ctx ? TOOL_DEFINITIONS.filter((def) => hasScope(ctx, def.requiredScope)) : TOOL_DEFINITIONS
+  return visible.map(({ name, description, inputSchema }) => ({
     name,
     description,
     inputSchema,
@@ -0,0 +1,432 @@
+/**
+ * Refactoring MCP tool: plan_rename — graph-aware rename / move planning.
+ *
+ * Collects every edit a rename or move implies: the definition, overrides
+ * and implementations across the extends/implements hierarchy, polyglot
+ * counterparts (language_implementations edges), re-exporting barrels,
+ * importers, call sites and quoted string references. The plan is then
+ * checked against the caller's unsaved buffers (sync_dirty_buffer) so line
+ * numbers follow unsaved edits and stale or colliding targets are flagged.
+ */
+
+import type { Container } from "@/lib/di/container"
+import type { EdgeDoc, EntityDoc } from "@/lib/ports/types"
+import { findPolyglotCounterparts } from "@/lib/rules/polyglot-mapping"
+import { getDirtyBuffer, getDirtyEntity } from "./dirty-buffer"
+import { resolveEntityRef } from "./graph"
+import type { McpAuthContext } from "../auth"
+import { formatToolError, formatToolResponse } from "../formatter"
+
+export const PLAN_RENAME_SCHEMA = {
+  name: "plan_rename",
+  description:
+    "Plan a rename or move of a function, class or method. Uses the code graph (callers, imports, re-exports, overrides/implementations, cross-language counterparts) to return a complete, ordered list of edits across files — including string references that need review — and validates it against your unsaved buffers synced via sync_dirty_buffer. Nothing is written; apply the edits in order.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      entity: {
+        type: "string",
+        description: "Name or ID of the entity to rename or move",
+      },
+      new_name: {
+        type: "string",
+        description: "New identifier for the entity",
+      },
+      destination_file: {
+        type: "string",
+        description: "File to move the entity to (repo-root-relative)",
+      },
+    },
+    required: ["entity"],
+  },
+}
+
+type EditKind =
+  | "insert_definition"
+  | "remove_definition"
+  | "definition"
+  | "hierarchy"
+  | "polyglot"
+  | "re_export"
+  | "import"
+  | "call_site"
+  | "string_reference"
+
+/** Apply order: definitions before the references that depend on them. */
+const EDIT_ORDER: EditKind[] = [
+  "insert_definition",
+  "remove_definition",
+  "definition",
+  "hierarchy",
+  "polyglot",
+  "re_export",
+  "import",
+  "call_site",
+  "string_reference",
+]
+
+interface PlannedEdit {
+  kind: EditKind
+  file_path: string
+  line: number
+  old_text: string
+  new_text: string
+  /** Enclosing entity — used to follow the edit into an unsaved buffer */
+  entity: string
+  entityLine: number
+  approximate?: boolean
+  review_required?: boolean
+  adjusted_for_unsaved?: boolean
+  note?: string
+}
+
+interface Conflict {
+  file_path: string
+  reason: string
+}
+
+const MAX_EDITS = 500
+const HIERARCHY_EDGE_KINDS = new Set(["extends", "implements"])
+const CLASS_KINDS = new Set(["class", "interface", "struct", "trait"])
+const BARREL_FILE = /(?:^|\/)(?:index\.[cm]?[jt]sx?|__init__\.py|mod\.rs)$/
+
+function edgeKey(handle: string): string {
+  return handle.split("/").pop() ?? handle
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function stripStrings(line: string): string {
+  return line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+}
+
+/** snake_case counterparts (Python, Rust) get a snake_case new name. */
+function matchNamingStyle(oldName: string, counterpartName: string, newName: string): string {
+  if (counterpartName === oldName || !counterpartName.includes("_")) return newName
+  return newName.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase()
+}
+
+type LocateMode = "code" | "import" | "string"
+
+const IMPORT_LINE = /^\s*(?:import|export|from|use)\b|\brequire\(/
+
+/**
+ * Lines of an entity's body where `name` appears as code, in an
+ * import/export statement, or inside a quoted literal. Falls back to the
+ * entity's first line when the body was not captured.
+ */
+function locate(entity: EntityDoc, name: string, mode: LocateMode): Array<{ line: number; approximate?: boolean }> {
+  const start = Number(entity.start_line) || 1
+  const body = typeof entity.body === "string" ? entity.body : undefined
+  if (!body) return mode === "string" ? [] : [{ line: start, approximate: true }]
+
+  const word = new RegExp(`\\b${escapeRegExp(name)}\\b`)
+  const quoted = new RegExp(`(["'\`])(?:(?!\\1).)*\\b${escapeRegExp(name)}\\b(?:(?!\\1).)*\\1`)
+  const hits: Array<{ line: number }> = []
+  body.split("\n").forEach((text, i) => {
+    const match = mode === "string"
+      ? quoted.test(text)
+      : word.test(stripStrings(text)) && (mode === "code") !== IMPORT_LINE.test(text)
+    if (match) hits.push({ line: start + i })
+  })
+  return hits
+}
+
+export async function handlePlanRename(
+  args: { entity: string; new_name?: string; destination_file?: string },
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context. This API key is not scoped to a repository.")
+  }
+  if (!args.entity) {
+    return formatToolError("entity parameter is required")
+  }
+  if (!args.new_name && !args.destination_file) {
+    return formatToolError("Provide new_name, destination_file, or both")
+  }
+  if (args.new_name && !/^[A-Za-z_$][\w$]*$/.test(args.new_name)) {
+    return formatToolError(`"${args.new_name}" is not a valid identifier`)
+  }
+
+  const target = await resolveEntityRef(container, ctx.orgId, repoId, args.entity)
+  if (!target) {
+    return formatToolError(`Entity "${args.entity}" not found in this repository`)
+  }
+  const parentName = typeof target.parent === "string" ? target.parent : undefined
+  const destination = args.destination_file && args.destination_file !== target.file_path ? args.destination_file : undefined
+  if (destination && parentName) {
+    return formatToolError(`"${target.name}" is a member of ${parentName} — move the class instead`)
+  }
+
+  const oldName = target.name
+  const newName = args.new_name ?? oldName
+  const renaming = newName !== oldName
+
+  const [allEntities, allEdges] = await Promise.all([
+    container.graphStore.getAllEntities(ctx.orgId, repoId),
+    container.graphStore.getAllEdges(ctx.orgId, repoId),
+  ])
+  const byId = new Map(allEntities.map((e) => [e.id, e]))
+  const fileEntity = new Map(allEntities.filter((e) => e.kind === "file").map((e) => [e.file_path, e]))
+  const inbound = new Map<string, EdgeDoc[]>()
+  for (const edge of allEdges) {
+    const to = edgeKey(edge._to)
+    const list = inbound.get(to) ?? []
+    list.push(edge)
+    inbound.set(to, list)
+  }
+
+  const edits: PlannedEdit[] = []
+  const addEdit = (entity: EntityDoc, kind: EditKind, name: string, replacement: string, extra: Partial<PlannedEdit> = {}) => {
+    const mode: LocateMode = kind === "string_reference" ? "string" : kind === "import" || kind === "re_export" ? "import" : "code"
+    for (const hit of locate(entity, name, mode)) {
+      edits.push({
+        kind,
+        file_path: entity.file_path,
+        line: hit.line,
+        old_text: name,
+        new_text: replacement,
+        entity: entity.name,
+        entityLine: Number(entity.start_line) || 0,
+        ...(hit.approximate ? { approximate: true } : {}),
+        ...extra,
+      })
+    }
+  }
+
+  // 1. The definition itself
+  const renamed: Array<{ entity: EntityDoc; newName: string }> = [{ entity: target, newName }]
+  if (destination) {
+    const line = Number(target.start_line) || 1
+    edits.push({
+      kind: "insert_definition", file_path: destination, line: 0, old_text: "", new_text: newName,
+      entity: oldName, entityLine: 0, note: `Move ${target.kind} ${oldName} from ${target.file_path} (lines ${line}-${Number(target.end_line) || line})`,
+    })
+    edits.push({
+      kind: "remove_definition", file_path: target.file_path, line, old_text: oldName, new_text: "",
+      entity: oldName, entityLine: line, note: `Remove lines ${line}-${Number(target.end_line) || line}`,
+    })
+  } else {
+    edits.push({
+      kind: "definition", file_path: target.file_path, line: Number(target.start_line) || 1, old_text: oldName,
+      new_text: newName, entity: oldName, entityLine: Number(target.start_line) || 0,
+    })
+  }
+
+  if (renaming) {
+    // 2. Overrides / implementations: same-named members across the class hierarchy
+    if (parentName) {
+      const owner = allEntities.find((e) => CLASS_KINDS.has(e.kind) && e.name === parentName && e.file_path === target.file_path)
+      const related = new Set<string>(owner ? [owner.id] : [])
+      let frontier = owner ? [owner.id] : []
+      while (frontier.length > 0) {
+        const next: string[] = []
+        for (const edge of allEdges) {
+          if (!HIERARCHY_EDGE_KINDS.has(edge.kind)) continue
+          const from = edgeKey(edge._from)
+          const to = edgeKey(edge._to)
+          for (const [here, there] of [[from, to], [to, from]] as const) {
+            if (frontier.includes(here) && !related.has(there)) {
+              related.add(there)
+              next.push(there)
+            }
+          }
+        }
+        frontier = next
+      }
+      for (const classId of related) {
+        const cls = byId.get(classId)
+        if (!cls || classId === owner?.id) continue
+        const member = allEntities.find(
+          (e) => e.name === oldName && e.parent === cls.name && e.file_path === cls.file_path && e.id !== target.id
+        )
+        if (!member) continue
+        renamed.push({ entity: member, newName })
+        edits.push({
+          kind: "hierarchy", file_path: member.file_path, line: Number(member.start_line) || 1, old_text: oldName,
+          new_text: newName, entity: member.name, entityLine: Number(member.start_line) || 0, note: `${cls.kind} ${cls.name}`,
+        })
+      }
+    }
+
+    // 3. The same concept implemented in another language
+    for (const counterpart of findPolyglotCounterparts(target.id, allEntities, allEdges)) {
+      const counterpartName = matchNamingStyle(oldName, counterpart.name, newName)
+      renamed.push({ entity: counterpart, newName: counterpartName })
+      edits.push({
+        kind: "polyglot", file_path: counterpart.file_path, line: Number(counterpart.start_line) || 1,
+        old_text: counterpart.name, new_text: counterpartName, entity: counterpart.name,
+        entityLine: Number(counterpart.start_line) || 0, review_required: true,
+      })
+    }
+  }
+
+  // 4. Call sites of everything being renamed
+  const callerFiles = new Set<string>()
+  const seenRefs = new Set<string>()
+  for (const { entity, newName: replacement } of renamed) {
+    for (const edge of inbound.get(entity.id) ?? []) {
+      if (edge.kind !== "calls" && edge.kind !== "references") continue
+      const caller = byId.get(edgeKey(edge._from))
+      if (!caller || caller.id === entity.id || seenRefs.has(`${caller.id}:${entity.id}`)) continue
+      seenRefs.add(`${caller.id}:${entity.id}`)
+      if (entity.id === target.id && (caller.file_path !== target.file_path || destination)) callerFiles.add(caller.file_path)
+      if (renaming) addEdit(caller, "call_site", entity.name, replacement)
+    }
+  }
+
+  // 5. Import statements — direct importers of the entity or its module, and
+  //    consumers reaching it through re-exporting barrels
+  const definingFile = fileEntity.get(target.file_path)
+  const importNote = (filePath: string) =>
+    !destination ? undefined
+      : filePath === destination ? "remove import — now defined in this file"
+        : `import from ${destination} instead of ${target.file_path}`
+  const importedFiles = new Set<string>()
+  const visitedModules = new Set<string>()
+  const pending = [target.id, ...(definingFile ? [definingFile.id] : [])]
+  while (pending.length > 0) {
+    const moduleId = pending.shift()!
+    if (visitedModules.has(moduleId)) continue
+    visitedModules.add(moduleId)
+    for (const edge of inbound.get(moduleId) ?? []) {
+      if (edge.kind !== "imports") continue
+      const importer = byId.get(edgeKey(edge._from))
+      if (!importer || importer.file_path === target.file_path) continue
+      const body = typeof importer.body === "string" ? importer.body : undefined
+      const namesTarget = body ? new RegExp(`\\b${escapeRegExp(oldName)}\\b`).test(body) : false
+      const barrel = BARREL_FILE.test(importer.file_path) || (body !== undefined && /export\s+(?:\*|\{[^}]*\})\s+from/.test(body))
+      const note = importNote(importer.file_path)
+
+      if (barrel) {
+        // `export *` barrels pass the new name through untouched
+        if (namesTarget || !body) {
+          addEdit(importer, "re_export", oldName, newName, { ...(body ? {} : { review_required: true }), ...(note ? { note } : {}) })
+          importedFiles.add(importer.file_path)
+        }
+        const barrelModule = fileEntity.get(importer.file_path)
+        pending.push(importer.id, ...(barrelModule ? [barrelModule.id] : []))
+      } else if (namesTarget || moduleId === target.id || callerFiles.has(importer.file_path)) {
+        addEdit(importer, "import", oldName, newName, note ? { note } : {})
+        importedFiles.add(importer.file_path)
+      }
+    }
+  }
+  for (const filePath of callerFiles) {
+    if (importedFiles.has(filePath) || filePath === destination) continue
+    edits.push(
+      destination && filePath === target.file_path
+        ? {
+          kind: "import", file_path: filePath, line: 1, old_text: "", new_text: `import { ${newName} } from "${destination}"`,
+          entity: filePath, entityLine: 0, note: "add import — callers stay in this file",
+        }
+        : {
+          kind: "import", file_path: filePath, line: 1, old_text: oldName, new_text: newName, entity: filePath, entityLine: 0,
+          approximate: true, review_required: true, note: importNote(filePath) ?? "import statement not found in the graph",
+        }
+    )
+  }
+
+  // 6. Quoted string references (registries, reflection, config keys) — need review
+  if (renaming) {
+    const handled = new Set(edits.map((e) => `${e.file_path}:${e.line}`))
+    for (const entity of allEntities) {
+      if (entity.kind === "file") continue
+      for (const hit of locate(entity, oldName, "string")) {
+        if (handled.has(`${entity.file_path}:${hit.line}`)) continue
+        handled.add(`${entity.file_path}:${hit.line}`)
+        edits.push({
+          kind: "string_reference", file_path: entity.file_path, line: hit.line, old_text: oldName, new_text: newName,
+          entity: entity.name, entityLine: Number(entity.start_line) || 0, review_required: true,
+        })
+      }
+    }
+  }
+
+  // Validate: name collisions in the committed graph
+  const conflicts: Conflict[] = []
+  if (renaming) {
+    for (const { entity, newName: replacement } of renamed) {
+      const clash = allEntities.find(
+        (e) => e.id !== entity.id && e.name === replacement && e.file_path === (destination ?? entity.file_path) && e.parent === entity.parent
+      )
+      if (clash) conflicts.push({ file_path: clash.file_path, reason: `${clash.kind} ${replacement} already exists (line ${Number(clash.start_line) || 0})` })
+    }
+  } else if (destination) {
+    const clash = allEntities.find((e) => e.name === oldName && e.file_path === destination && !e.parent)
+    if (clash) conflicts.push({ file_path: destination, reason: `${clash.kind} ${oldName} already exists in the destination` })
+  }
+
+  // Validate against the workspace overlay — unsaved buffers shift lines and may add collisions
+  const dirtyFiles: string[] = []
+  const files = Array.from(new Set(edits.map((e) => e.file_path)))
+  if (ctx.userId) {
+    const buffers = await Promise.all(
+      files.map((filePath) => getDirtyBuffer(container, ctx.orgId, repoId, ctx.userId!, filePath))
+    )
+    files.forEach((filePath, i) => {
+      const buffer = buffers[i]
+      if (!buffer) return
+      dirtyFiles.push(filePath)
+      const collision = buffer.entities.find((e) => e.name === newName && renaming)
+      if (collision) {
+        conflicts.push({ file_path: filePath, reason: `unsaved ${collision.kind} ${newName} at line ${collision.start_line}` })
+      }
+      const missing = new Set<string>()
+      for (const edit of edits) {
+        if (edit.file_path !== filePath || edit.entityLine === 0) continue
+        const current = buffer.entities.find((e) => e.name === edit.entity)
+        if (!current) {
+          // Definitions must still exist; callers may simply be invisible to the buffer parser
+          const isDefinition = edit.kind === "definition" || edit.kind === "remove_definition" || edit.kind === "hierarchy"
+          if (isDefinition && !missing.has(edit.entity)) {
+            missing.add(edit.entity)
+            conflicts.push({ file_path: filePath, reason: `${edit.entity} is no longer in the unsaved buffer` })
+          }
+          continue
+        }
+        const delta = current.start_line - edit.entityLine
+        if (delta !== 0) {
+          edit.line += delta
+          edit.adjusted_for_unsaved = true
+        }
+      }
+    })
+  }
+  if (renaming) {
+    const dirtyClash = await getDirtyEntity(container, ctx.orgId, repoId, newName)
+    if (dirtyClash && !conflicts.some((c) => c.file_path === dirtyClash.file_path)) {
+      conflicts.push({ file_path: dirtyClash.file_path, reason: `unsaved ${dirtyClash.kind} ${newName} at line ${dirtyClash.start_line}` })
+    }
+  }
+
+  edits.sort(
+    (a, b) =>
+      EDIT_ORDER.indexOf(a.kind) - EDIT_ORDER.indexOf(b.kind) ||
+      a.file_path.localeCompare(b.file_path) ||
+      a.line - b.line
+  )
+  const truncated = edits.length > MAX_EDITS
+  const planned = edits.slice(0, MAX_EDITS)
+  const reviewCount = planned.filter((e) => e.review_required || e.approximate).length
+
+  return formatToolResponse({
+    entity: { id: target.id, name: oldName, kind: target.kind, file_path: target.file_path, line: Number(target.start_line) || 0 },
+    new_name: renaming ? newName : undefined,
+    destination_file: destination,
+    edits: planned.map(({ entity: _entity, entityLine: _entityLine, ...edit }, i) => ({ step: i + 1, ...edit })),
+    files_affected: Array.from(new Set(planned.map((e) => e.file_path))).sort(),
+    validation: { ok: conflicts.length === 0, conflicts, dirty_files: dirtyFiles },
+    truncated: truncated || undefined,
+    _hint: conflicts.length > 0
+      ? "Resolve the conflicts before applying — the plan would collide with existing or unsaved code."
+      : reviewCount > 0
+        ? `${reviewCount} edits are approximate or string references — review them before applying.`
+        : undefined,
+  })
+}
@@ -0,0 +1,173 @@
+/**
+ * Precise navigation MCP tools: find_references, goto_definition.
+ *
+ * Answered from the stored SCIP index (ICodeIntelligence) rather than text
+ * search, so aliased imports and re-exports resolve to the same symbol —
+ * including across packages of a monorepo.
+ */
+
+import type { Container } from "@/lib/di/container"
+import type { CodeIntelligenceScope, Definition } from "@/lib/ports/code-intelligence"
+import type { McpAuthContext } from "../auth"
+import { formatToolError, formatToolResponse } from "../formatter"
+
+const MAX_REFERENCES = 200
+
+const POSITION_PROPERTIES = {
+  file: {
+    type: "string",
+    description: "File path (repo-root-relative). Use with line and column for positional lookup",
+  },
+  line: {
+    type: "number",
+    description: "Line number (1-based)",
+  },
+  column: {
+    type: "number",
+    description: "Column number (1-based). Optional when symbol is given",
+  },
+  symbol: {
+    type: "string",
+    description: "Symbol name — alone, or with file/line to pick the occurrence on that line",
+  },
+}
+
+type PositionArgs = { file?: string; line?: number; column?: number; symbol?: string }
+
+/**
+ * Resolve the tool arguments to a position. A bare symbol name is located at
+ * its entity definition via the graph (exact name match, like get_callers).
+ */
+async function resolvePosition(
+  args: PositionArgs,
+  orgId: string,
+  repoId: string,
+  container: Container
+): Promise<{ file: string; line: number; column: number; symbol?: string } | { error: string }> {
+  if (args.file && args.line) {
+    if (!args.column && !args.symbol) {
+      return { error: "column is required with file and line (or pass symbol to pick the occurrence)" }
+    }
+    return { file: args.file, line: args.line, column: args.column ?? 0, symbol: args.column ? undefined : args.symbol }
+  }
+  if (!args.symbol) {
+    return { error: "Provide file, line and column, or a symbol name" }
+  }
+
+  let filePath = args.file
+  if (!filePath) {
+    const results = await container.graphStore.searchEntities(orgId, repoId, args.symbol, 5)
+    filePath = results.find((r) => r.name === args.symbol)?.file_path
+  }
+  const entity = filePath
+    ? (await container.graphStore.getEntitiesByFile(orgId, repoId, filePath)).find((e) => e.name === args.symbol)
+    : undefined
+  if (!entity) {
+    return { error: `Symbol "${args.symbol}" not found in this repository` }
+  }
+  return { file: entity.file_path, line: Number(entity.start_line) || 1, column: 0, symbol: args.symbol }
+}
+
+function formatLocation(loc: Definition) {
+  return {
+    file_path: loc.path,
+    line: loc.line,
+    column: loc.column,
+    end_line: loc.endLine,
+    end_column: loc.endColumn,
+    ...(loc.isDefinition === true && { is_definition: true }),
+  }
+}
+
+// ── goto_definition ─────────────────────────────────────────────
+
+export const GOTO_DEFINITION_SCHEMA = {
+  name: "goto_definition",
+  description:
+    "Jump to the exact definition of the symbol at a file/line/column (or of a named symbol), resolved through imports, aliases and package boundaries using the compiler-accurate SCIP index.",
+  inputSchema: {
+    type: "object" as const,
+    properties: POSITION_PROPERTIES,
+  },
+}
+
+export async function handleGotoDefinition(
+  args: PositionArgs,
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context. This API key is not scoped to a repository.")
+  }
+
+  const position = await resolvePosition(args, ctx.orgId, repoId, container)
+  if ("error" in position) {
+    return formatToolError(position.error)
+  }
+
+  const scope: CodeIntelligenceScope = { orgId: ctx.orgId, repoId, symbol: position.symbol }
+  const definitions = await container.codeIntelligence.getDefinitions(position.file, position.line, position.column, scope)
+  if (definitions.length === 0) {
+    return formatToolError(
+      `No indexed symbol at ${position.file}:${position.line}${position.column ? `:${position.column}` : ""}. The SCIP index may not cover this file yet — fall back to search_code.`
+    )
+  }
+
+  return formatToolResponse({
+    symbol: definitions[0]!.symbol,
+    definitions: definitions.map(formatLocation),
+    count: definitions.length,
+  })
+}
+
+// ── find_references ─────────────────────────────────────────────
+
+export const FIND_REFERENCES_SCHEMA = {
+  name: "find_references",
+  description:
+    "Find every reference to the symbol at a file/line/column (or to a named symbol) using the compiler-accurate SCIP index. Unlike search_code, follows aliased imports and re-exports and spans monorepo packages.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      ...POSITION_PROPERTIES,
+      include_definition: {
+        type: "boolean",
+        description: "Include the definition site(s) in the results (default true)",
+      },
+    },
+  },
+}
+
+export async function handleFindReferences(
+  args: PositionArgs & { include_definition?: boolean },
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context. This API key is not scoped to a repository.")
+  }
+
+  const position = await resolvePosition(args, ctx.orgId, repoId, container)
+  if ("error" in position) {
+    return formatToolError(position.error)
+  }
+
+  const scope: CodeIntelligenceScope = { orgId: ctx.orgId, repoId, symbol: position.symbol }
+  const occurrences = await container.codeIntelligence.getReferences(position.file, position.line, position.column, scope)
+  if (occurrences.length === 0) {
+    return formatToolError(
+      `No indexed references for ${position.file}:${position.line}${position.column ? `:${position.column}` : ""}. The SCIP index may not cover this file yet — fall back to search_code.`
+    )
+  }
+
+  const references = occurrences.filter((ref) => args.include_definition !== false || ref.isDefinition !== true)
+  return formatToolResponse({
+    symbol: occurrences[0]!.symbol,
+    references: references.slice(0, MAX_REFERENCES).map(formatLocation),
+    files: new Set(references.map((r) => r.path)).size,
+    count: references.length,
+    ...(references.length > MAX_REFERENCES && { truncated: true }),
+  })
+}
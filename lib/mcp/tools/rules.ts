@@ -1,9 +1,10 @@
 /**
- * Phase 6 MCP Tools: get_rules, check_rules, get_relevant_rules, draft_architecture_rule
+ * Phase 6 MCP Tools: get_rules, check_rules, get_relevant_rules, draft_architecture_rule, check_architecture
  */
 
 import type { Container } from "@/lib/di/container"
 import { getModelForGroup } from "@/lib/llm/config"
+import { checkArchitecture } from "@/lib/rules/architecture"
 import { resolveRules } from "@/lib/rules/resolver"
 import type { McpAuthContext } from "../auth"
 import { formatToolError, formatToolResponse } from "../formatter"
@@ -309,3 +310,72 @@ Generate:
     return formatToolError(`Failed to draft rule: ${message}`)
   }
 }
+
+// ── check_architecture ─────────────────────────────────────
+
+export const CHECK_ARCHITECTURE_SCHEMA = {
+  name: "check_architecture",
+  description:
+    "Check the repository's dependency graph against its architecture layer definition (glob → layer mapping plus an allowed-dependency matrix). Returns disallowed imports/calls between layers and the layer×layer dependency matrix.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      file_path: {
+        type: "string",
+        description: "Only report violations originating in this file",
+      },
+      layer: {
+        type: "string",
+        description: "Only report violations originating in this layer",
+      },
+      limit: {
+        type: "number",
+        description: "Max violations to return (default: 50)",
+      },
+    },
+    required: [],
+  },
+}
+
+export async function handleCheckArchitecture(
+  args: { file_path?: string; layer?: string; limit?: number },
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context.")
+  }
+
+  const result = await checkArchitecture(ctx.orgId, repoId, container.graphStore)
+  if (!result) {
+    return formatToolResponse({
+      violations: [],
+      count: 0,
+      _hint: "No architecture layers are defined for this repository. Define them under Guardrails → Architecture or PUT /api/repos/{repoId}/rules/architecture.",
+    })
+  }
+
+  const { definition, report } = result
+  let violations = report.violations
+  if (args.file_path) violations = violations.filter((v) => v.source.filePath === args.file_path)
+  if (args.layer) violations = violations.filter((v) => v.fromLayer === args.layer)
+  const limit = Math.min(Math.max(args.limit ?? 50, 1), 200)
+
+  return formatToolResponse({
+    enforcement: definition.enforcement,
+    layers: definition.layers.map((l) => ({ name: l.name, paths: l.paths })),
+    allowed: definition.allowed,
+    violations: violations.slice(0, limit).map((v) => ({
+      from_layer: v.fromLayer,
+      to_layer: v.toLayer,
+      edge_kind: v.edgeKind,
+      source: `${v.source.name} (${v.source.filePath}:${v.source.line})`,
+      target: `${v.target.name} (${v.target.filePath}:${v.target.line})`,
+    })),
+    count: violations.length,
+    matrix: report.matrix,
+    checked_edges: report.checkedEdges,
+    unlayered_files: report.unlayeredFiles,
+  })
+}
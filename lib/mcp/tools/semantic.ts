@@ -13,6 +13,7 @@ import { hybridSearch, type SearchMode } from "@/lib/embeddings/hybrid-search"
 import { getPrefetchedContext } from "@/lib/use-cases/prefetch-context"
 import type { McpAuthContext } from "../auth"
 import { formatToolError, formatToolResponse } from "../formatter"
+import type { ToolCallOptions } from "../progress"
 
 // ── semantic_search ───────────────────────────────────────────────────────────
 
@@ -51,7 +52,8 @@ export const SEMANTIC_SEARCH_SCHEMA = {
 export async function handleSemanticSearch(
   args: { query: string; mode?: string; limit?: number },
   ctx: McpAuthContext,
-  container: Container
+  container: Container,
+  options: ToolCallOptions = {}
 ) {
   if (!args.query || args.query.trim().length === 0) {
     return formatToolError("query parameter is required and cannot be empty")
@@ -103,7 +105,8 @@ export async function handleSemanticSearch(
       mode,
       limit,
     },
-    container
+    container,
+    options
   )
 
   // Two-Step RAG: Return summaries only — no full bodies
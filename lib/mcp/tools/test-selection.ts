@@ -0,0 +1,69 @@
+/**
+ * Test impact MCP tool: select_tests — the tests to run for a change.
+ */
+
+import type { Container } from "@/lib/di/container"
+import { selectTests } from "@/lib/review/test-selection"
+import type { McpAuthContext } from "../auth"
+import { formatToolError, formatToolResponse } from "../formatter"
+
+export const SELECT_TESTS_SCHEMA = {
+  name: "select_tests",
+  description:
+    "Select the tests affected by a change. Given changed files or a unified diff, returns the test files (and their describe/it cases) that transitively exercise the changed entities through the caller/import graph, each with a confidence level, plus the changed entities no test covers. Run only these tests instead of the full suite.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      files: {
+        type: "array",
+        items: { type: "string" },
+        description: "Changed file paths (repo-root-relative)",
+      },
+      diff: {
+        type: "string",
+        description: "Unified diff of the change (git diff output); narrows to the entities the hunks touch",
+      },
+      max_depth: {
+        type: "number",
+        description: "Maximum caller hops from a changed entity to a test (default 4, max 8)",
+      },
+    },
+  },
+}
+
+export async function handleSelectTests(
+  args: { files?: string[]; diff?: string; max_depth?: number },
+  ctx: McpAuthContext,
+  container: Container
+) {
+  const repoId = ctx.repoId
+  if (!repoId) {
+    return formatToolError("No repository context. This API key is not scoped to a repository.")
+  }
+  if (!args.diff && (!args.files || args.files.length === 0)) {
+    return formatToolError("Provide files or diff")
+  }
+
+  const result = await selectTests(
+    ctx.orgId,
+    repoId,
+    { files: args.files, diff: args.diff, maxDepth: args.max_depth },
+    container.graphStore
+  )
+
+  return formatToolResponse({
+    tests: result.tests.map((t) => ({
+      file_path: t.filePath,
+      confidence: t.confidence,
+      depth: t.depth,
+      covers: t.covers,
+      cases: t.cases,
+    })),
+    not_covered: result.uncovered.map((u) => ({ name: u.name, kind: u.kind, file_path: u.filePath })),
+    changed_entities: result.changedEntities,
+    count: result.tests.length,
+    _hint: result.uncovered.length > 0
+      ? `${result.uncovered.length} changed entities are not exercised by any test — consider adding tests for them.`
+      : undefined,
+  })
+}
@@ -3,6 +3,10 @@
  * Single endpoint: POST /mcp for tool calls (returns JSON or SSE).
  * Optional: GET /mcp for server notifications via SSE.
  *
+ * A tools/call carrying `_meta.progressToken` from a client that accepts
+ * text/event-stream gets an SSE response: `notifications/progress` events
+ * while the tool runs, then the JSON-RPC response as the final event.
+ *
  * Session management via Mcp-Session-Id header.
  */
 
@@ -13,11 +17,14 @@ import { authenticateMcpRequest, isAuthError, type McpAuthContext } from "./auth
 import { type DcrRequest, isDcrError, registerClient } from "./oauth/dcr"
 import { getAuthorizationServerMetadata, getProtectedResourceMetadata } from "./oauth/discovery"
 import { handleTokenRequest, isTokenError, type TokenRequest } from "./oauth/token"
+import { cancelToolCall } from "./progress"
+import { pollResourceUpdates } from "./resources"
 import { checkRateLimit, formatRateLimitError } from "./security/rate-limiter"
 import { scrubMCPPayload } from "./security/scrubber"
 import { handleMcpRequest } from "./server"
 
 const SESSION_TTL = 3600 // 1 hour
+const RESOURCE_POLL_INTERVAL_MS = 5000
 
 /**
  * Parse JSON body from IncomingMessage.
@@ -132,7 +139,7 @@ export async function handleHttpRequest(
 
       if (method === "GET") {
         // SSE endpoint for server notifications
-        return handleMcpSse(req, res, ctx)
+        return handleMcpSse(req, res, ctx, container)
       }
 
       sendJson(res, 405, { error: "Method not allowed" })
@@ -211,8 +218,12 @@ async function handleMcpPost(
 
   res.setHeader("Mcp-Session-Id", sessionId)
 
+  if (wantsProgressStream(req, scrubbed)) {
+    return streamMcpResponse(res, scrubbed, { ...ctx, sessionId }, container)
+  }
+
   // Handle the MCP request
-  const response = await handleMcpRequest(scrubbed, ctx, container)
+  const response = await handleMcpRequest(scrubbed, { ...ctx, sessionId }, container)
 
   // Scrub outbound response too
   const scrubbedResponse = scrubMCPPayload(response)
@@ -220,10 +231,56 @@ async function handleMcpPost(
   sendJson(res, 200, scrubbedResponse)
 }
 
+function wantsProgressStream(req: IncomingMessage, body: Record<string, unknown>): boolean {
+  if (body.method !== "tools/call") return false
+  const params = (body.params ?? {}) as { _meta?: { progressToken?: unknown } }
+  return params._meta?.progressToken !== undefined && (req.headers.accept ?? "").includes("text/event-stream")
+}
+
+/**
+ * Answer a tools/call over SSE so progress notifications reach the client
+ * before the result. Closing the connection early cancels the call.
+ */
+async function streamMcpResponse(
+  res: ServerResponse,
+  body: Record<string, unknown>,
+  ctx: McpAuthContext,
+  container: import("@/lib/di/container").Container
+): Promise<void> {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  })
+
+  const writeMessage = (message: Record<string, unknown>) => {
+    if (res.writableEnded) return
+    res.write(`event: message\ndata: ${JSON.stringify(scrubMCPPayload(message))}\n\n`)
+  }
+
+  // The request body is already consumed, so watch the response socket instead
+  const requestId = body.id as string | number | undefined
+  const onClose = () => {
+    if (!res.writableEnded && requestId !== undefined) {
+      cancelToolCall(ctx, requestId, "Client disconnected")
+    }
+  }
+  res.on("close", onClose)
+
+  try {
+    const response = await handleMcpRequest(body, ctx, container, undefined, writeMessage)
+    writeMessage(response)
+  } finally {
+    res.off("close", onClose)
+    res.end()
+  }
+}
+
 function handleMcpSse(
   _req: IncomingMessage,
   res: ServerResponse,
-  _ctx: McpAuthContext
+  ctx: McpAuthContext,
+  container: { cacheStore: import("@/lib/ports/cache-store").ICacheStore }
 ): void {
   // SSE endpoint for server-initiated notifications
   res.writeHead(200, {
@@ -244,8 +301,26 @@ function handleMcpSse(
     }
   }, 30000)
 
+  // Push notifications/resources/updated for this session's subscriptions
+  const sessionId = _req.headers["mcp-session-id"] as string | undefined
+  const seen = new Map<string, number>()
+  const resourcePoll = sessionId
+    ? setInterval(async () => {
+      try {
+        const updated = await pollResourceUpdates(sessionId, ctx.orgId, container.cacheStore, seen)
+        for (const uri of updated) {
+          const notification = { jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri } }
+          res.write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`)
+        }
+      } catch {
+        // Cache unavailable — retry next tick
+      }
+    }, RESOURCE_POLL_INTERVAL_MS)
+    : null
+
   _req.on("close", () => {
     clearInterval(interval)
+    if (resourcePoll) clearInterval(resourcePoll)
   })
 }
 
@@ -10,8 +10,21 @@ export interface Reference {
   [key: string]: unknown
 }
 
+/**
+ * Which stored index a position query runs against. Positions are 1-based
+ * (line and column). `symbol` disambiguates when the caller only knows the
+ * line — the occurrence on that line naming `symbol` is used and column is ignored.
+ */
+export interface CodeIntelligenceScope {
+  orgId: string
+  repoId: string
+  /** Defaults to the latest indexed commit */
+  commitSha?: string
+  symbol?: string
+}
+
 export interface ICodeIntelligence {
   indexWorkspace(workspacePath: string): Promise<{ filesProcessed: number }>
-  getDefinitions(filePath: string, line: number, column: number): Promise<Definition[]>
-  getReferences(filePath: string, line: number, column: number): Promise<Reference[]>
+  getDefinitions(filePath: string, line: number, column: number, scope?: CodeIntelligenceScope): Promise<Definition[]>
+  getReferences(filePath: string, line: number, column: number, scope?: CodeIntelligenceScope): Promise<Reference[]>
 }
@@ -24,6 +24,15 @@ export interface CreatePRParams {
   [key: string]: unknown
 }
 
+export interface FileCommit {
+  sha: string
+  subject: string
+  body: string
+  author?: string
+  /** ISO 8601 author date */
+  date?: string
+}
+
 export interface FileEntry {
   path: string
   type?: "file" | "dir"
@@ -34,18 +43,27 @@ export interface FileEntry {
 /** Repo accessible to a GitHub App installation (from GET /installation/repositories) */
 export interface GitHubRepo {
   id: number
+  /** Host-native ID when it isn't numeric (Bitbucket Cloud repo UUIDs) */
+  providerId?: string
   fullName: string
   defaultBranch: string
   language: string | null
   private: boolean
 }
 
+/** A user's access to a repository, collapsed to the levels every host can express */
+export type RepoPermission = "admin" | "write" | "read" | "none"
+
 export interface IGitHost {
   cloneRepo(url: string, destination: string, options?: CloneOptions): Promise<void>
   getPullRequest(owner: string, repo: string, prNumber: number): Promise<PullRequest>
   createPullRequest(owner: string, repo: string, params: CreatePRParams): Promise<PullRequest>
   getDiff(owner: string, repo: string, base: string, head: string): Promise<string>
   listFiles(owner: string, repo: string, ref?: string, installationId?: number): Promise<FileEntry[]>
+  /** Text of a file at a ref — null when the file does not exist */
+  getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string | null>
+  /** Direct children of a directory at a ref — empty when the directory does not exist */
+  listDirectory(owner: string, repo: string, path: string, ref: string): Promise<FileEntry[]>
   createWebhook(owner: string, repo: string, events: string[], url: string): Promise<void>
   /** Phase 1: List repos accessible to this GitHub App installation */
   getInstallationRepos(installationId: number): Promise<GitHubRepo[]>
@@ -69,8 +87,13 @@ export interface IGitHost {
   postReview(owner: string, repo: string, prNumber: number, review: {
     event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT"
     body: string
-    comments?: Array<{ path: string; line: number; body: string }>
-  }): Promise<{ reviewId: number }>
+    /** startLine marks a multi-line comment ending at line (needed for multi-line suggestions) */
+    comments?: Array<{ path: string; line: number; startLine?: number; body: string }>
+  }): Promise<{
+    reviewId: number
+    /** IDs of the posted inline comments, in `comments` order — null when the host did not report one */
+    commentIds: Array<number | null>
+  }>
   /** Post a single review comment on a PR */
   postReviewComment(owner: string, repo: string, prNumber: number, comment: {
     path: string; line: number; body: string; commitId: string
@@ -95,12 +118,29 @@ export interface IGitHost {
   }): Promise<void>
   /** Post an issue/PR comment (not a review comment) */
   postIssueComment(owner: string, repo: string, issueNumber: number, body: string): Promise<{ commentId: number }>
+  /** The user's permission on the repo — "none" when they are not a member or collaborator */
+  getCollaboratorPermission(owner: string, repo: string, username: string): Promise<RepoPermission>
+  /** Reply in the thread of an existing PR review comment */
+  replyToReviewComment(owner: string, repo: string, prNumber: number, commentId: number, body: string): Promise<{ commentId: number }>
   /** Create a new branch from a SHA */
   createBranch(owner: string, repo: string, branchName: string, fromSha: string): Promise<void>
   /** Create or update a file in a branch */
   createOrUpdateFile(owner: string, repo: string, branch: string, path: string, content: string, opts: { message: string }): Promise<{ sha: string }>
+  /** Upload a SARIF 2.1.0 log (JSON) to the host's code scanning alerts for a commit */
+  uploadSarif(owner: string, repo: string, opts: { commitSha: string; ref: string; sarif: string }): Promise<{ id: string }>
+
+  /** Commits touching a file, newest first, via the host API — no local clone needed */
+  listFileCommits(owner: string, repo: string, path: string, opts: { ref?: string; limit: number }): Promise<FileCommit[]>
 
   // I-02: Historical context for justification
-  /** Get commit history for a file via 'git log --follow' in the local clone */
-  getFileGitHistory(workspacePath: string, filePath: string, maxCommits?: number): Promise<Array<{ sha: string; subject: string; body: string }>>
+  /**
+   * Get commit history for a file via 'git log --follow' in the local clone.
+   * With a line range, only commits that touched those lines ('git log -L').
+   */
+  getFileGitHistory(
+    workspacePath: string,
+    filePath: string,
+    maxCommits?: number,
+    range?: { startLine: number; endLine: number }
+  ): Promise<FileCommit[]>
 }
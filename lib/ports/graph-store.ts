@@ -1,4 +1,4 @@
-import type { ADRDoc, BlueprintData, BoundedContextFinding, DomainOntologyDoc, DriftScoreDoc, EdgeDoc, EntityDelta, EntityDoc, EntityWarningDoc, FeatureAggregation, FeatureDoc, HealthReportDoc, ImpactReportDoc, ImpactResult, ImportChain, IndexEventDoc, JustificationDoc, LedgerEntry, LedgerEntryStatus, LedgerSummary, LedgerTimelineQuery, MinedPatternDoc, PaginatedResult, PatternDoc, PatternFilter, ProjectStats, RuleDoc, RuleExceptionDoc, RuleFilter, RuleHealthDoc, SearchResult, SnippetDoc, SnippetFilter, SubgraphResult, TokenUsageEntry, TokenUsageSummary, WorkingSnapshot } from "./types"
+import type { ADRDoc, BlueprintData, BoundedContextFinding, DomainOntologyDoc, DriftScoreDoc, EdgeDoc, EntityDelta, EntityDoc, EntityWarningDoc, FeatureAggregation, FeatureDoc, GraphPath, HealthReportDoc, ImpactReportDoc, ImpactResult, ImportChain, IndexEventDoc, JustificationDoc, LayerDefinitionDoc, LedgerEntry, LedgerEntryStatus, LedgerSummary, LedgerTimelineQuery, MinedPatternDoc, PaginatedResult, PathEdgeKind, PatternDoc, PatternFilter, ProjectStats, RuleDoc, RuleExceptionDoc, RuleFilter, RuleHealthDoc, SearchResult, SnippetDoc, SnippetFilter, SubgraphResult, TokenUsageEntry, TokenUsageSummary, WorkingSnapshot } from "./types"
 
 export interface IGraphStore {
   bootstrapGraphSchema(): Promise<void>
@@ -20,6 +20,9 @@ export interface IGraphStore {
   queryRules(orgId: string, filter: RuleFilter): Promise<RuleDoc[]>
   deleteRule(orgId: string, ruleId: string): Promise<void>
   archiveRule(orgId: string, ruleId: string): Promise<void>
+  /** Architecture layer rules for a repo (one document per repo) */
+  upsertLayerDefinition(orgId: string, definition: LayerDefinitionDoc): Promise<void>
+  getLayerDefinition(orgId: string, repoId: string): Promise<LayerDefinitionDoc | null>
   upsertPattern(orgId: string, pattern: PatternDoc): Promise<void>
   queryPatterns(orgId: string, filter: PatternFilter): Promise<PatternDoc[]>
   updatePatternStatus(orgId: string, patternId: string, status: string): Promise<void>
@@ -58,8 +61,8 @@ export interface IGraphStore {
   deleteRepoData(orgId: string, repoId: string): Promise<void>
 
   // Phase 2: MCP methods
-  /** Fulltext search across entity names and signatures */
-  searchEntities(orgId: string, repoId: string, query: string, limit?: number): Promise<SearchResult[]>
+  /** Fulltext search across entity names and signatures. Aborting `signal` kills the query where supported */
+  searchEntities(orgId: string, repoId: string, query: string, limit?: number, opts?: { signal?: AbortSignal }): Promise<SearchResult[]>
   /** Traverse import edges to specified depth */
   getImports(orgId: string, repoId: string, filePath: string, depth?: number): Promise<ImportChain[]>
   /** Aggregate entity counts and language distribution */
@@ -114,14 +117,23 @@ export interface IGraphStore {
   getADRs(orgId: string, repoId: string): Promise<ADRDoc[]>
 
   // Phase 4: GraphRAG — N-hop sub-graph extraction
-  /** Get a sub-graph (entities + edges) within N hops of a starting entity */
-  getSubgraph(orgId: string, entityId: string, depth?: number, opts?: { crossRepo?: boolean }): Promise<SubgraphResult>
+  /** Get a sub-graph (entities + edges) within N hops of a starting entity. Aborting `signal` kills the traversal where supported */
+  getSubgraph(orgId: string, entityId: string, depth?: number, opts?: { crossRepo?: boolean; signal?: AbortSignal }): Promise<SubgraphResult>
   /** Get sub-graphs for multiple entities in a single batched query (chunked at 50 per call) */
   getBatchSubgraphs(orgId: string, entityIds: string[], depth?: number): Promise<Map<string, SubgraphResult>>
+  /** K shortest outbound paths between two entities (ArangoDB depth-bounded K_PATHS), shortest first.
+   *  Defaults: k=3, maxDepth=6, edgeKinds=["calls", "imports"]. Paths through tombstones are skipped. */
+  findPaths(
+    orgId: string,
+    fromId: string,
+    toId: string,
+    opts?: { k?: number; maxDepth?: number; edgeKinds?: PathEdgeKind[] }
+  ): Promise<GraphPath[]>
 
   // Phase 4: Bulk fetch entities + edges for a repo
-  /** Get all entities for a repo (default limit 10000 to prevent OOM) */
-  getAllEntities(orgId: string, repoId: string, limit?: number): Promise<EntityDoc[]>
+  /** Get all entities for a repo (default limit 10000 to prevent OOM).
+   *  With `offset`, returns one page of a stable order across all entity kinds. */
+  getAllEntities(orgId: string, repoId: string, limit?: number, offset?: number): Promise<EntityDoc[]>
   /** Get all edges for a repo (default limit 20000 to prevent OOM) */
   getAllEdges(orgId: string, repoId: string, limit?: number): Promise<EdgeDoc[]>
 
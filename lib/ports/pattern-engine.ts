@@ -5,6 +5,8 @@ export interface PatternMatch {
   file: string
   line: number
   column?: number
+  endLine?: number
+  endColumn?: number
   message?: string
   severity?: "info" | "warning" | "error"
   fix?: string
@@ -166,6 +166,8 @@ export interface IRelationalStore {
     }
   ): Promise<void>
   getRepoByGithubId(orgId: string, githubRepoId: number): Promise<RepoRecord | null>
+  /** Look up a repo by host project ID across orgs (GitLab webhooks carry no installation) */
+  getRepoByProviderId(provider: string, providerId: string): Promise<RepoRecord | null>
   getReposByStatus(orgId: string, status: string): Promise<RepoRecord[]>
   deleteRepo(repoId: string): Promise<void>
 
@@ -261,6 +263,8 @@ export interface IRelationalStore {
   listPrReviews(repoId: string, opts?: { status?: string; limit?: number; cursor?: string }): Promise<{ items: PrReviewRecord[]; cursor: string | null; hasMore: boolean }>
   createPrReviewComment(data: Omit<PrReviewCommentRecord, "id" | "createdAt">): Promise<PrReviewCommentRecord>
   listPrReviewComments(reviewId: string): Promise<PrReviewCommentRecord[]>
+  /** The finding posted as this inline comment, in any review of the repo */
+  getPrReviewCommentByGithubId(repoId: string, githubCommentId: number): Promise<PrReviewCommentRecord | null>
   updateRepoReviewConfig(repoId: string, config: ReviewConfig): Promise<void>
   getRepoReviewConfig(repoId: string): Promise<ReviewConfig>
 
@@ -6,6 +6,8 @@
 export interface IStorageProvider {
   /** Generate a pre-signed upload URL for a file path */
   generateUploadUrl(bucket: string, path: string, expiresInSeconds?: number): Promise<{ url: string; token: string }>
+  /** Upload a file, overwriting any existing one at the path */
+  uploadFile(bucket: string, path: string, data: Buffer, contentType?: string): Promise<void>
   /** Download a file as a Buffer */
   downloadFile(bucket: string, path: string): Promise<Buffer>
   /** Delete a file */
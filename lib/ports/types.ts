@@ -69,6 +69,33 @@ export interface RuleDoc {
   updated_at: string
 }
 
+/** A named architectural layer: the files whose paths match any of its globs. */
+export interface ArchitectureLayer {
+  name: string
+  /** Repo-root-relative globs (`*`, `**`); a file belongs to the first layer that matches */
+  paths: string[]
+  description?: string
+}
+
+/**
+ * Layer rules as code: glob-to-layer mapping plus the allowed-dependency
+ * matrix. One per repo, stored next to the repo's rules.
+ */
+export interface LayerDefinitionDoc {
+  id: string
+  org_id: string
+  repo_id: string
+  layers: ArchitectureLayer[]
+  /** layer → layers it may depend on; a layer always may depend on itself, and on nothing unlisted */
+  allowed: Record<string, string[]>
+  /** Edge kinds checked (default: imports and calls) */
+  edgeKinds?: Array<"imports" | "calls">
+  enforcement: RuleEnforcement
+  createdBy?: string
+  created_at: string
+  updated_at: string
+}
+
 // Phase 6: Pattern types
 export type PatternType = "structural" | "naming" | "error-handling" | "import" | "testing" | "custom"
 export type PatternStatus = "detected" | "confirmed" | "promoted" | "rejected"
@@ -388,6 +415,15 @@ export interface SubgraphResult {
   edges: EdgeDoc[]
 }
 
+/** Edge collections a path between two entities may follow. */
+export type PathEdgeKind = "calls" | "imports"
+
+/** One path from a source to a target entity; edges[i] connects entities[i] → entities[i + 1]. */
+export interface GraphPath {
+  entities: EntityDoc[]
+  edges: EdgeDoc[]
+}
+
 // Phase 4: Token usage tracking
 export interface TokenUsageEntry {
   id: string
@@ -697,7 +733,7 @@ export interface PrReviewCommentRecord {
   reviewId: string
   filePath: string
   lineNumber: number
-  checkType: "pattern" | "impact" | "test" | "complexity" | "dependency" | "trustBoundary" | "idempotency" | "env" | "contract"
+  checkType: "pattern" | "impact" | "test" | "complexity" | "dependency" | "trustBoundary" | "idempotency" | "env" | "contract" | "architecture" | "migration"
   severity: "info" | "warning" | "error"
   message: string
   suggestion: string | null
@@ -725,6 +761,8 @@ export interface ReviewConfig {
     idempotency: boolean
     env: boolean
     contract: boolean
+    architecture: boolean
+    migration: boolean
   }
   ignorePaths: string[]
   semanticLgtmEnabled: boolean
@@ -732,6 +770,10 @@ export interface ReviewConfig {
   lowRiskCallerThreshold: number
   nudgeEnabled: boolean
   nudgeDelayHours: number
+  /** Open a follow-up PR against the PR branch with every auto-fixable finding applied */
+  autoFixPrEnabled?: boolean
+  /** Upload findings as SARIF to the host's code scanning alerts (GitHub only) */
+  sarifUploadEnabled?: boolean
 }
 
 export const DEFAULT_REVIEW_CONFIG: ReviewConfig = {
@@ -751,6 +793,8 @@ export const DEFAULT_REVIEW_CONFIG: ReviewConfig = {
     idempotency: true,
     env: true,
     contract: true,
+    architecture: true,
+    migration: true,
   },
   ignorePaths: [],
   semanticLgtmEnabled: false,
@@ -758,6 +802,8 @@ export const DEFAULT_REVIEW_CONFIG: ReviewConfig = {
   lowRiskCallerThreshold: 5,
   nudgeEnabled: true,
   nudgeDelayHours: 48,
+  autoFixPrEnabled: false,
+  sarifUploadEnabled: false,
 }
 
 export interface PatternFinding {
@@ -771,7 +817,8 @@ export interface PatternFinding {
   suggestion: string | null
   adherenceRate?: number
   semgrepRuleId?: string
-  autoFix?: { fixedCode: string; confidence: number } | null
+  /** Replacement for lines line..endLine (whole lines, ready for a suggestion block); originalCode is what was flagged */
+  autoFix?: { fixedCode: string; confidence: number; originalCode?: string } | null
 }
 
 export interface ImpactFinding {
@@ -819,6 +866,8 @@ export interface EnvFinding {
   line: number
   envVar: string
   message: string
+  /** Where the variable is missing; manifests = no Terraform/Kubernetes resource sets it */
+  missingFrom?: "env-example" | "manifests"
 }
 
 export interface ContractFinding {
@@ -829,6 +878,10 @@ export interface ContractFinding {
   filePath: string
   line: number
   message: string
+  /** Set when a schema field (OpenAPI/GraphQL/protobuf) is removed or retyped */
+  breakingChange?: { schema: string; field: string; change: "removed" | "retyped"; oldType?: string; newType?: string }
+  /** Operations, schemas and handlers that depend on the changed schema */
+  consumers?: Array<{ name: string; kind: string; filePath: string }>
 }
 
 export interface IdempotencyFinding {
@@ -839,6 +892,47 @@ export interface IdempotencyFinding {
   message: string
 }
 
+export interface ArchitectureFinding {
+  filePath: string
+  line: number
+  fromLayer: string
+  toLayer: string
+  edgeKind: "imports" | "calls"
+  /** Imported file or called entity */
+  target: { name: string; filePath: string }
+  severity: "info" | "warning" | "error"
+  message: string
+}
+
+export type MigrationFramework = "prisma" | "sql" | "knex" | "alembic" | "rails"
+
+export type MigrationOperation =
+  | "drop_table"
+  | "drop_column"
+  | "rename_table"
+  | "rename_column"
+  | "alter_column_type"
+  | "add_not_null_column"
+  | "set_not_null"
+  | "blocking_index"
+
+export interface MigrationFinding {
+  filePath: string
+  line: number
+  framework: MigrationFramework
+  operation: MigrationOperation
+  table: string
+  column?: string
+  /** Postgres lock the statement holds while it runs */
+  lock: "access_exclusive" | "share"
+  /** breaking = code deployed before the migration fails once it has run */
+  compatibility: "breaking" | "compatible"
+  /** Code that still reads or writes the affected table/column (base-branch graph) */
+  readers: Array<{ name: string; kind: string; filePath: string }>
+  severity: "info" | "warning" | "error"
+  message: string
+}
+
 export interface BoundedContextFinding {
   sourceFeature: string
   targetFeature: string
@@ -40,14 +40,20 @@ export interface IVectorSearch {
   embedQuery?(text: string): Promise<number[]>
   /** Upsert entity embeddings with metadata into the vector store. */
   upsert(ids: string[], embeddings: number[][], metadata: Record<string, unknown>[]): Promise<void>
-  /** Search for similar entity vectors. Returns entity keys + scores. */
-  search(embedding: number[], topK: number, filter?: { orgId?: string; repoId?: string }): Promise<VectorSearchResult[]>
+  /** Search for similar entity vectors. Returns entity keys + scores.
+   *  Aborting `signal` cancels the query in stores that support it. */
+  search(embedding: number[], topK: number, filter?: { orgId?: string; repoId?: string }, opts?: { signal?: AbortSignal }): Promise<VectorSearchResult[]>
   /** Look up an existing embedding by entity key. */
   getEmbedding?(repoId: string, entityKey: string): Promise<number[] | null>
   /** Delete orphaned entity embeddings (entities removed from graph). Returns count deleted. */
   deleteOrphaned(repoId: string, currentEntityKeys: string[]): Promise<number>
   /** Delete ALL entity embeddings for a repo (clean slate before re-index). Returns count deleted. */
   deleteAllEmbeddings?(repoId: string): Promise<number>
+  /**
+   * Persist writes buffered by the upsert/delete calls above. Callers invoke it
+   * once after a run of writes; stores that write through need not implement it.
+   */
+  flush?(repoId: string): Promise<void>
 
   // ── Phase 4: Justification Embeddings (unerr.justification_embeddings) ──
 
@@ -61,7 +67,8 @@ export interface IVectorSearch {
   searchJustificationEmbeddings?(
     embedding: number[],
     topK: number,
-    filter: { orgId: string; repoId: string; taxonomy?: string }
+    filter: { orgId: string; repoId: string; taxonomy?: string },
+    opts?: { signal?: AbortSignal }
   ): Promise<JustificationSearchResult[]>
 
   /** Delete all justification embeddings for a repo (cleanup on re-justification). */
@@ -210,6 +210,21 @@ describe("buildReviewResult", () => {
     expect(result.body).toContain("60")
   })
 
+  it("auto-fixable findings post a multi-line suggestion block", () => {
+    const config = makeConfig()
+    const patternFindings: PatternFinding[] = [
+      { ...makePatternFinding("warning"), endLine: 12, autoFix: { fixedCode: "  logger.info(msg)", confidence: 0.9 } },
+      { ...makePatternFinding("warning"), line: 20, endLine: 22, autoFix: { fixedCode: "  maybe()", confidence: 0.5 } },
+    ]
+
+    const result = buildReviewResult(patternFindings, [], [], [], [], config)
+
+    expect(result.comments[0]).toMatchObject({ startLine: 10, line: 12, autoFix: "  logger.info(msg)" })
+    expect(result.comments[0]?.body).toContain("```suggestion\n  logger.info(msg)\n```")
+    expect(result.comments[1]).toMatchObject({ line: 20, startLine: undefined, autoFix: undefined })
+    expect(result.comments[1]?.body).not.toContain("```suggestion")
+  })
+
   it("semanticLgtm APPROVE overrides warnings when semanticLgtmEnabled is true", () => {
     const config = makeConfig({ semanticLgtmEnabled: true })
     const patternFindings: PatternFinding[] = [makePatternFinding("warning")]
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import { FakeGitHost } from "@/lib/di/fakes"
+import type { RuleDoc } from "@/lib/ports/types"
+import { getActiveExceptions } from "@/lib/rules/exception-ledger"
+import { handleReviewConversation, parseReviewCommand, type ReviewConversationInput } from "../conversation"
+
+const ORG = "org-conversation"
+const REPO = "repo-conversation"
+
+function makeRule(overrides: Partial<RuleDoc> & { id: string; title: string }): RuleDoc {
+  return {
+    org_id: ORG,
+    repo_id: REPO,
+    name: overrides.title.toLowerCase().replace(/\s+/g, "-"),
+    description: "Route handlers must go through the service layer.",
+    type: "architecture",
+    scope: "repo",
+    enforcement: "block",
+    priority: 5,
+    status: "active",
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  }
+}
+
+function makeInput(body: string, overrides: Partial<ReviewConversationInput> = {}): ReviewConversationInput {
+  return {
+    orgId: ORG,
+    repoId: REPO,
+    owner: "acme",
+    repo: "app",
+    prNumber: 7,
+    installationId: 1,
+    commentId: 501,
+    body,
+    author: "dev",
+    thread: { path: "app/api/orders/route.ts", line: 12, rootCommentId: 400 },
+    ...overrides,
+  }
+}
+
+describe("parseReviewCommand", () => {
+  it("parses commands after the mention", () => {
+    expect(parseReviewCommand("@unerr explain")).toEqual({ kind: "explain" })
+    expect(parseReviewCommand("thanks! @unerr re-review")).toEqual({ kind: "re_review" })
+    expect(parseReviewCommand('@unerr ignore "No Direct DB" for 14 days legacy endpoint')).toEqual({
+      kind: "ignore",
+      target: "No Direct DB",
+      rest: "legacy endpoint",
+      ttlDays: 14,
+    })
+    expect(parseReviewCommand("@unerr ignore no-direct-db this is intentional")).toEqual({
+      kind: "ignore",
+      target: "no-direct-db",
+      rest: "this is intentional",
+      ttlDays: undefined,
+    })
+    expect(parseReviewCommand("@unerr who else calls this?")).toEqual({ kind: "ask", question: "who else calls this?" })
+    expect(parseReviewCommand("email me at dev@unerrors.io")).toBeNull()
+  })
+})
+
+describe("handleReviewConversation", () => {
+  let container: Container
+  let gitHost: FakeGitHost
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    gitHost = new FakeGitHost()
+
+    await container.graphStore.upsertRule(ORG, makeRule({ id: "rule-db", title: "No Direct DB" }))
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      { id: "handler", org_id: ORG, repo_id: REPO, kind: "function", name: "POST", file_path: "app/api/orders/route.ts", start_line: 10, end_line: 20 },
+      { id: "insert", org_id: ORG, repo_id: REPO, kind: "function", name: "insertOrder", file_path: "lib/db/orders.ts", start_line: 1, end_line: 5 },
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      { _from: "functions/handler", _to: "functions/insert", org_id: ORG, repo_id: REPO, kind: "calls" },
+    ])
+
+    const review = await container.relationalStore.createPrReview({
+      repoId: REPO,
+      prNumber: 7,
+      prTitle: "Orders endpoint",
+      prUrl: "https://github.com/acme/app/pull/7",
+      headSha: "head1",
+      baseSha: "base1",
+    })
+    await container.relationalStore.updatePrReview(review.id, { status: "completed" })
+    await container.relationalStore.createPrReviewComment({
+      reviewId: review.id,
+      filePath: "app/api/orders/route.ts",
+      lineNumber: 12,
+      checkType: "pattern",
+      severity: "error",
+      message: "⛔ **Blocking: No Direct DB**",
+      suggestion: null,
+      semgrepRuleId: null,
+      ruleTitle: "No Direct DB",
+      githubCommentId: 400,
+      autoFix: null,
+    })
+  })
+
+  it("explains the thread's finding with rule and graph context, in-thread", async () => {
+    const result = await handleReviewConversation(container, gitHost, makeInput("@unerr explain"))
+
+    expect(result.action).toBe("explained")
+    expect(gitHost.reviewReplies).toHaveLength(1)
+    expect(gitHost.reviewReplies[0]!.inReplyTo).toBe(400)
+    const reply = gitHost.reviewReplies[0]!.body
+    expect(reply).toContain("**Rule:** No Direct DB (block)")
+    expect(reply).toContain("`POST`")
+    expect(reply).toContain("**Calls (1):** `insertOrder`")
+    expect(reply).toContain("@unerr ignore no-direct-db")
+  })
+
+  it("ignores the thread's rule with a TTL exception and records an override", async () => {
+    const result = await handleReviewConversation(container, gitHost, makeInput("@unerr ignore for 7 days this is intentional"))
+
+    expect(result.action).toBe("ignored")
+    const exceptions = await getActiveExceptions(container, ORG, "rule-db")
+    expect(exceptions).toHaveLength(1)
+    expect(exceptions[0]).toMatchObject({ file_path: "app/api/orders/route.ts", reason: "this is intentional", created_by: "dev" })
+    const health = await container.graphStore.getRuleHealth(ORG, "rule-db")
+    expect(health?.overridden_count).toBe(1)
+    expect(gitHost.reviewReplies[0]!.body).toContain("(7 days)")
+  })
+
+  it("refuses ignore from users without write access", async () => {
+    gitHost.collaboratorPermissions.set("drive-by", "read")
+
+    const result = await handleReviewConversation(container, gitHost, makeInput("@unerr ignore this is intentional", { author: "drive-by" }))
+
+    expect(result).toMatchObject({ action: "skipped", reason: "Not authorized" })
+    expect(await getActiveExceptions(container, ORG, "rule-db")).toHaveLength(0)
+    expect(gitHost.reviewReplies[0]!.body).toContain("write access")
+  })
+
+  it("records false positives from the ignore reason", async () => {
+    await handleReviewConversation(container, gitHost, makeInput("@unerr ignore no-direct-db false positive, this reads a view", { thread: undefined }))
+
+    const health = await container.graphStore.getRuleHealth(ORG, "rule-db")
+    expect(health?.false_positive_count).toBe(1)
+    expect(gitHost.issueComments).toHaveLength(1)
+  })
+
+  it("starts a re-review of the PR head", async () => {
+    gitHost.pullRequestResult = { number: 7, title: "Orders endpoint", headSha: "head2", baseSha: "base1", state: "open" }
+    const start = vi.spyOn(container.workflowEngine, "startWorkflow")
+
+    const result = await handleReviewConversation(container, gitHost, makeInput("@unerr re-review", { thread: undefined }))
+
+    expect(result.action).toBe("re_review")
+    expect(start).toHaveBeenCalledWith(expect.objectContaining({ workflowFn: "reviewPrWorkflow" }))
+    expect(await container.relationalStore.getPrReviewByPrAndSha(REPO, 7, "head2")).not.toBeNull()
+  })
+
+  it("answers unmentioned replies in a finding thread with the LLM", async () => {
+    const generate = vi.spyOn(container.llmProvider, "generateObject").mockResolvedValue({
+      object: { answer: "The handler writes orders directly; move the insert behind OrderService." },
+      usage: { inputTokens: 0, outputTokens: 0 },
+    })
+
+    const result = await handleReviewConversation(container, gitHost, makeInput("why is this a problem?"))
+
+    expect(result.action).toBe("answered")
+    expect(generate.mock.calls[0]![0].prompt).toContain("insertOrder")
+    expect(gitHost.reviewReplies[0]!.body).toContain("OrderService")
+  })
+
+  it("stays quiet on unmentioned comments outside unerr threads, even on a flagged line", async () => {
+    const result = await handleReviewConversation(
+      container,
+      gitHost,
+      makeInput("looks good", { thread: { path: "app/api/orders/route.ts", line: 12, rootCommentId: 900 } })
+    )
+
+    expect(result.action).toBe("skipped")
+    expect(gitHost.reviewReplies).toHaveLength(0)
+  })
+})
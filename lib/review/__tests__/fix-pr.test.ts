@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { FakeGitHost } from "@/lib/di/fakes"
+import type { PatternFinding } from "@/lib/ports/types"
+import { openAutoFixPr } from "../fix-pr"
+
+function makeFinding(overrides: Partial<PatternFinding>): PatternFinding {
+  return {
+    ruleId: "no-console",
+    ruleTitle: "No console",
+    filePath: "src/a.ts",
+    line: 1,
+    message: "Use the logger",
+    severity: "warning",
+    suggestion: null,
+    autoFix: null,
+    ...overrides,
+  }
+}
+
+describe("openAutoFixPr", () => {
+  let gitHost: FakeGitHost
+
+  beforeEach(() => {
+    gitHost = new FakeGitHost()
+    gitHost.repoFiles.set("src/a.ts", "console.log(a)\nconst b = 1\nconsole.log(b)\n")
+    gitHost.pullRequestResult = { number: 7, title: "Feature", headSha: "abcdef1234", sourceBranch: "feature/x" }
+  })
+
+  it("applies fixable findings on a branch off the PR head and links the fix PR", async () => {
+    const result = await openAutoFixPr(gitHost, {
+      owner: "acme",
+      repo: "app",
+      prNumber: 7,
+      headSha: "abcdef1234",
+      findings: [
+        makeFinding({ line: 1, autoFix: { fixedCode: "logger.info(a)", confidence: 1, originalCode: "console.log(a)" } }),
+        makeFinding({ line: 3, autoFix: { fixedCode: "logger.info(b)", confidence: 0.9 } }),
+        makeFinding({ line: 2, autoFix: { fixedCode: "let b = 1", confidence: 0.5 } }),
+      ],
+    })
+
+    expect(result).toMatchObject({ filesChanged: 1, fixesApplied: 2 })
+    expect(result!.branch).toMatch(/^unerr\/autofix-7-abcdef1-/)
+    expect(gitHost.branches).toEqual([{ owner: "acme", repo: "app", name: result!.branch, fromSha: "abcdef1234" }])
+    expect(gitHost.files[0]).toMatchObject({ path: "src/a.ts", content: "logger.info(a)\nconst b = 1\nlogger.info(b)\n" })
+    expect(gitHost.issueComments[0]!.body).toContain("2 auto-fixes")
+  })
+
+  it("does nothing without auto-fixable findings", async () => {
+    const result = await openAutoFixPr(gitHost, {
+      owner: "acme",
+      repo: "app",
+      prNumber: 7,
+      headSha: "abcdef1234",
+      findings: [makeFinding({ autoFix: null })],
+    })
+
+    expect(result).toBeNull()
+    expect(gitHost.branches).toHaveLength(0)
+  })
+
+  it("skips files whose flagged lines changed at the PR head", async () => {
+    const result = await openAutoFixPr(gitHost, {
+      owner: "acme",
+      repo: "app",
+      prNumber: 7,
+      headSha: "abcdef1234",
+      findings: [makeFinding({ line: 1, autoFix: { fixedCode: "logger.info(x)", confidence: 1, originalCode: "console.log(x)" } })],
+    })
+
+    expect(result).toBeNull()
+    expect(gitHost.files).toHaveLength(0)
+  })
+})
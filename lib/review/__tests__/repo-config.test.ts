@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import { FakeGitHost } from "@/lib/di/fakes"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+import {
+  buildConfigCheckRunOutput,
+  mergeReviewConfig,
+  parseReviewConfigFile,
+  parseRuleFile,
+  resolveReviewConfig,
+} from "../repo-config"
+
+const ORG = "org-repo-config"
+const REPO = "repo-config"
+const INPUT = { orgId: ORG, repoId: REPO, owner: "acme", repo: "app", ref: "base1" }
+
+describe("parseReviewConfigFile", () => {
+  it("validates a partial config", () => {
+    const { config, errors } = parseReviewConfigFile("impactThreshold: 30\nchecksEnabled:\n  test: false\nignorePaths: [generated/]\n")
+
+    expect(errors).toEqual([])
+    expect(config).toEqual({ impactThreshold: 30, checksEnabled: { test: false }, ignorePaths: ["generated/"] })
+  })
+
+  it("reports schema errors with the offending line", () => {
+    const { config, errors } = parseReviewConfigFile("autoApproveOnClean: true\nimpactThreshold: -1\nchecksEnabled:\n  tests: false\n")
+
+    expect(config).toBeNull()
+    expect(errors.map((e) => e.line)).toEqual([2, 4])
+    expect(errors[0]!.message).toContain("impactThreshold")
+  })
+
+  it("rejects keys that gate whether a review starts", () => {
+    const { config, errors } = parseReviewConfigFile("impactThreshold: 30\nenabled: false\ntargetBranches: [main]\nskipDraftPrs: true\n")
+
+    expect(config).toBeNull()
+    expect(errors.map((e) => e.line)).toEqual([2, 3, 4])
+    expect(errors[0]!.message).toContain("dashboard review settings")
+  })
+
+  it("reports YAML syntax errors", () => {
+    const { errors } = parseReviewConfigFile("enabled: [true\n")
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]!.path).toBe(".unerr/review.yml")
+  })
+})
+
+describe("parseRuleFile", () => {
+  it("parses single and multi-rule files into active repo-scoped rules", () => {
+    const single = parseRuleFile(
+      "name: no-console\ntitle: No console\ndescription: Use the logger\ntype: style\nenforcement: warn\nsemgrepRule: 'rules: []'\n",
+      ".unerr/rules/no-console.yml",
+      { orgId: ORG, repoId: REPO }
+    )
+    const multi = parseRuleFile(
+      "rules:\n  - name: a\n    title: A\n    description: A rule\n    type: custom\n  - name: a\n    title: A again\n    description: Dup\n    type: custom\n",
+      ".unerr/rules/more.yml",
+      { orgId: ORG, repoId: REPO }
+    )
+
+    expect(single.rules[0]).toMatchObject({ id: `repo-file-${REPO}-no-console`, scope: "repo", status: "active", enforcement: "warn" })
+    expect(multi.rules).toHaveLength(1)
+    expect(multi.errors[0]!.message).toContain("Duplicate rule name")
+  })
+})
+
+describe("mergeReviewConfig", () => {
+  it("lays the repo file over stored settings, merging checks per key", () => {
+    const stored = { ...DEFAULT_REVIEW_CONFIG, impactThreshold: 20, checksEnabled: { ...DEFAULT_REVIEW_CONFIG.checksEnabled, env: false } }
+
+    const merged = mergeReviewConfig(stored, { impactThreshold: 40, checksEnabled: { test: false } })
+
+    expect(merged.impactThreshold).toBe(40)
+    expect(merged.checksEnabled).toMatchObject({ env: false, test: false, pattern: true })
+  })
+})
+
+describe("resolveReviewConfig", () => {
+  let container: Container
+  let gitHost: FakeGitHost
+
+  beforeEach(() => {
+    container = createTestContainer()
+    gitHost = new FakeGitHost()
+  })
+
+  it("falls back to the stored config without repo files", async () => {
+    const resolved = await resolveReviewConfig(container, gitHost, INPUT)
+
+    expect(resolved.config).toEqual(DEFAULT_REVIEW_CONFIG)
+    expect(resolved.files).toEqual([])
+    expect(resolved.sources.impactThreshold).toBe("default")
+  })
+
+  it("merges the repo file, loads rule files and tracks sources", async () => {
+    await container.relationalStore.updateRepoReviewConfig(REPO, { ...DEFAULT_REVIEW_CONFIG, nudgeDelayHours: 12 })
+    gitHost.repoFiles.set(".unerr/review.yml", "complexityThreshold: 25\n")
+    gitHost.repoFiles.set(".unerr/rules/no-console.yml", "name: no-console\ntitle: No console\ndescription: Use the logger\ntype: style\n")
+    gitHost.repoFiles.set(".unerr/rules/broken.yml", "name: broken\n")
+
+    const resolved = await resolveReviewConfig(container, gitHost, INPUT)
+
+    expect(resolved.config.complexityThreshold).toBe(25)
+    expect(resolved.sources).toMatchObject({ complexityThreshold: "repo_file", nudgeDelayHours: "dashboard", impactThreshold: "default" })
+    expect(resolved.rules.map((r) => r.name)).toEqual(["no-console"])
+    expect(resolved.files).toEqual([".unerr/review.yml", ".unerr/rules/broken.yml", ".unerr/rules/no-console.yml"])
+    expect(resolved.errors.every((e) => e.path === ".unerr/rules/broken.yml")).toBe(true)
+  })
+
+  it("builds a neutral check run summary from errors", () => {
+    const output = buildConfigCheckRunOutput([{ path: ".unerr/review.yml", line: 3, message: "bad" }])
+
+    expect(output.title).toBe("1 review config error")
+    expect(output.summary).toContain("ignored as a whole")
+    expect(output.annotations[0]).toMatchObject({ path: ".unerr/review.yml", start_line: 3, annotation_level: "warning" })
+  })
+})
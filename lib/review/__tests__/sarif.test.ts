@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import type { PatternFinding, PrReviewCommentRecord } from "@/lib/ports/types"
+import { buildSarifLog, reviewCommentsToSarif, reviewFindingsToSarif, SARIF_FINGERPRINT_KEY } from "../sarif"
+
+function pattern(overrides: Partial<PatternFinding> = {}): PatternFinding {
+  return {
+    ruleId: "rule-1",
+    ruleTitle: "No console.log",
+    filePath: "src/a.ts",
+    line: 10,
+    message: "Use the logger",
+    severity: "error",
+    suggestion: null,
+    ...overrides,
+  }
+}
+
+const EMPTY = { pattern: [], impact: [], test: [], complexity: [], dependency: [] }
+
+describe("buildSarifLog", () => {
+  it("emits one rule per id with mapped levels and every finding type as a result", () => {
+    const log = buildSarifLog(reviewFindingsToSarif({
+      ...EMPTY,
+      pattern: [pattern(), pattern({ filePath: "src/b.ts", severity: "info" })],
+      env: [{ filePath: "src/c.ts", line: 3, envVar: "API_KEY", message: "API_KEY missing from .env.example" }],
+      trustBoundary: [{
+        sourceEntity: { id: "s", name: "handler", filePath: "src/d.ts" },
+        sinkEntity: { id: "k", name: "query", filePath: "src/e.ts" },
+        pathLength: 2,
+        filePath: "src/d.ts",
+        line: 7,
+        message: "Unvalidated input reaches query",
+      }],
+    }))
+
+    const run = log.runs[0]!
+    expect(log.version).toBe("2.1.0")
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual(["unerr/pattern/no-console-log", "unerr/trust-boundary", "unerr/missing-env-var"])
+    expect(run.results.map((r) => r.level)).toEqual(["error", "note", "error", "warning"])
+    expect(run.results[3]!.ruleIndex).toBe(2)
+    expect(run.results[1]!.locations[0]!.physicalLocation).toEqual({
+      artifactLocation: { uri: "src/b.ts", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 10 },
+    })
+  })
+
+  it("keeps fingerprints stable across line moves and distinct for repeats", () => {
+    const before = buildSarifLog(reviewFindingsToSarif({ ...EMPTY, pattern: [pattern()] })).runs[0]!.results
+    const after = buildSarifLog(reviewFindingsToSarif({ ...EMPTY, pattern: [pattern({ line: 42 }), pattern({ line: 50 })] })).runs[0]!.results
+
+    expect(after[0]!.partialFingerprints[SARIF_FINGERPRINT_KEY]).toBe(before[0]!.partialFingerprints[SARIF_FINGERPRINT_KEY])
+    expect(after[1]!.partialFingerprints[SARIF_FINGERPRINT_KEY]).not.toBe(after[0]!.partialFingerprints[SARIF_FINGERPRINT_KEY])
+  })
+
+  it("attaches auto-fixes as replacements of the flagged lines", () => {
+    const log = buildSarifLog(reviewFindingsToSarif({
+      ...EMPTY,
+      pattern: [pattern({ endLine: 11, autoFix: { fixedCode: "logger.info(x)", confidence: 1 } })],
+    }))
+
+    expect(log.runs[0]!.results[0]!.fixes?.[0]!.artifactChanges[0]!.replacements[0]).toEqual({
+      deletedRegion: { startLine: 10, endLine: 11 },
+      insertedContent: { text: "logger.info(x)\n" },
+    })
+  })
+})
+
+describe("reviewCommentsToSarif", () => {
+  it("maps stored comments to the same rule ids with plain text messages", () => {
+    const comment: PrReviewCommentRecord = {
+      id: "c1",
+      reviewId: "r1",
+      filePath: "src/a.ts",
+      lineNumber: 10,
+      checkType: "pattern",
+      severity: "warning",
+      message: "**No console.log**\n\nUse the `logger` instead.",
+      suggestion: null,
+      semgrepRuleId: null,
+      ruleTitle: "No console.log",
+      githubCommentId: null,
+      autoFix: null,
+      createdAt: "2026-01-01T00:00:00.000Z",
+    }
+
+    const [pat, env] = reviewCommentsToSarif([comment, { ...comment, id: "c2", checkType: "env", ruleTitle: null }])
+
+    expect(pat).toMatchObject({ ruleId: "unerr/pattern/no-console-log", level: "warning", message: "No console.log", markdown: comment.message })
+    expect(env!.ruleId).toBe("unerr/missing-env-var")
+  })
+})
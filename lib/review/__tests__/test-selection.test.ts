@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createTestContainer } from "@/lib/di/container"
+import type { Container } from "@/lib/di/container"
+import type { EdgeDoc, EntityDoc } from "@/lib/ports/types"
+import { selectTests } from "@/lib/review/test-selection"
+
+const ORG = "org-1"
+const REPO = "repo-1"
+
+function entity(id: string, name: string, filePath: string, startLine: number, endLine: number, extra: Partial<EntityDoc> = {}): EntityDoc {
+  return { id, org_id: ORG, repo_id: REPO, kind: "function", name, file_path: filePath, start_line: startLine, end_line: endLine, ...extra }
+}
+
+function call(from: string, to: string, kind = "calls"): EdgeDoc {
+  return { _from: `functions/${from}`, _to: `functions/${to}`, org_id: ORG, repo_id: REPO, kind }
+}
+
+// checkout.test → checkout → price → round      (round: 2 hops from its test)
+// cart.test imports src/cart.ts (file-level)
+// orphan has no tests
+describe("selectTests", () => {
+  let container: Container
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      entity("checkout", "checkout", "src/checkout.ts", 1, 20),
+      entity("price", "price", "src/pricing.ts", 1, 10),
+      entity("round", "round", "src/pricing.ts", 12, 15),
+      entity("orphan", "orphan", "src/pricing.ts", 17, 30),
+      entity("checkout-test", "checkout flow", "src/__tests__/checkout.test.ts", 1, 40, {
+        body: `describe("checkout", () => { it("charges the card", () => {}) })`,
+      }),
+      entity("cart-file", "src/cart.ts", "src/cart.ts", 0, 0, { kind: "file" }),
+      entity("add-to-cart", "addToCart", "src/cart.ts", 1, 10),
+      entity("cart-test-file", "src/cart.test.ts", "src/cart.test.ts", 0, 0, { kind: "file" }),
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      call("checkout-test", "checkout"),
+      call("checkout", "price"),
+      call("price", "round"),
+      call("cart-test-file", "cart-file", "imports"),
+    ])
+  })
+
+  it("follows callers transitively and grades confidence by distance", async () => {
+    const result = await selectTests(ORG, REPO, { files: ["src/checkout.ts", "src/pricing.ts"] }, container.graphStore)
+
+    expect(result.tests).toHaveLength(1)
+    expect(result.tests[0]).toMatchObject({
+      filePath: "src/__tests__/checkout.test.ts",
+      confidence: "high",
+      depth: 1,
+      cases: ["checkout", "charges the card"],
+    })
+    expect(result.tests[0]!.covers.sort()).toEqual(["checkout", "price", "round"])
+    expect(result.uncovered.map((u) => u.name)).toEqual(["orphan"])
+  })
+
+  it("reaches tests beyond the first page of entities", async () => {
+    const padding = Array.from({ length: 10000 }, (_, i) => entity(`pad-${i}`, `pad${i}`, `src/pad/${i}.ts`, 1, 2))
+    const entities = [...padding, ...(await container.graphStore.getAllEntities(ORG, REPO))]
+    const getAllEntities = vi.spyOn(container.graphStore, "getAllEntities")
+      .mockImplementation(async (_orgId, _repoId, limit = 10000, offset = 0) => entities.slice(offset, offset + limit))
+
+    const result = await selectTests(ORG, REPO, { files: ["src/checkout.ts"] }, container.graphStore)
+
+    expect(getAllEntities).toHaveBeenCalledWith(ORG, REPO, 10000, 10000)
+    expect(result.tests.map((t) => t.filePath)).toEqual(["src/__tests__/checkout.test.ts"])
+  })
+
+  it("narrows a diff to the entities its hunks touch", async () => {
+    const diff = [
+      "--- a/src/pricing.ts",
+      "+++ b/src/pricing.ts",
+      "@@ -12,2 +12,3 @@",
+      "+  return Math.round(value * 100) / 100",
+    ].join("\n")
+
+    const result = await selectTests(ORG, REPO, { diff }, container.graphStore)
+
+    expect(result.changedEntities).toBe(1)
+    expect(result.tests[0]).toMatchObject({ filePath: "src/__tests__/checkout.test.ts", confidence: "low", depth: 3, covers: ["round"] })
+    expect(result.uncovered).toEqual([])
+  })
+
+  it("selects tests that import the changed module and changed tests themselves", async () => {
+    const result = await selectTests(ORG, REPO, { files: ["src/cart.ts", "src/__tests__/checkout.test.ts"] }, container.graphStore)
+
+    expect(result.tests.map((t) => [t.filePath, t.confidence])).toEqual([
+      ["src/__tests__/checkout.test.ts", "high"],
+      ["src/cart.test.ts", "high"],
+    ])
+    expect(result.changedTests).toEqual(["src/__tests__/checkout.test.ts"])
+    expect(result.tests.find((t) => t.filePath === "src/cart.test.ts")!.covers).toContain("addToCart")
+  })
+})
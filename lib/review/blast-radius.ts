@@ -5,7 +5,7 @@
 import type { IGraphStore } from "@/lib/ports/graph-store"
 import type { BlastRadiusSummary, EntityDoc } from "@/lib/ports/types"
 
-const BOUNDARY_KINDS = new Set(["api_route", "component", "webhook_handler", "cron_job"])
+const BOUNDARY_KINDS = new Set(["api_route", "component", "webhook_handler", "cron_job", "api_operation"])
 
 export async function buildBlastRadiusSummary(
   orgId: string,
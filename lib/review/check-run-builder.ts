@@ -3,6 +3,7 @@
  */
 
 import type {
+  ArchitectureFinding,
   BlastRadiusSummary,
   ComplexityFinding,
   ContractFinding,
@@ -10,6 +11,7 @@ import type {
   EnvFinding,
   IdempotencyFinding,
   ImpactFinding,
+  MigrationFinding,
   PatternFinding,
   ReviewCheckAnnotation,
   TestFinding,
@@ -35,7 +37,9 @@ export function buildCheckRunOutput(
   trustBoundaryFindings: TrustBoundaryFinding[] = [],
   envFindings: EnvFinding[] = [],
   contractFindings: ContractFinding[] = [],
-  idempotencyFindings: IdempotencyFinding[] = []
+  idempotencyFindings: IdempotencyFinding[] = [],
+  architectureFindings: ArchitectureFinding[] = [],
+  migrationFindings: MigrationFinding[] = []
 ): CheckRunOutput {
   const allAnnotations: ReviewCheckAnnotation[] = []
 
@@ -138,7 +142,9 @@ export function buildCheckRunOutput(
       end_line: f.line,
       annotation_level: "warning",
       message: f.message,
-      title: `API Contract Risk: ${f.affectedRoute.name}`,
+      title: f.breakingChange
+        ? `Breaking Contract Change: ${f.changedEntity.name}`
+        : `API Contract Risk: ${f.affectedRoute.name}`,
       raw_details: `Depth: ${f.depth}, Callers: ${f.callerCount}`,
     })
   }
@@ -156,6 +162,32 @@ export function buildCheckRunOutput(
     })
   }
 
+  // Architecture findings → annotations (level from layer enforcement)
+  for (const f of architectureFindings) {
+    allAnnotations.push({
+      path: f.filePath,
+      start_line: f.line,
+      end_line: f.line,
+      annotation_level: mapSeverity(f.severity),
+      message: f.message,
+      title: `Layer Violation: ${f.fromLayer} → ${f.toLayer}`,
+      raw_details: `${f.edgeKind} ${f.target.name} (${f.target.filePath})`,
+    })
+  }
+
+  // Migration findings → annotations (error when deployed code still uses the target)
+  for (const f of migrationFindings) {
+    allAnnotations.push({
+      path: f.filePath,
+      start_line: f.line,
+      end_line: f.line,
+      annotation_level: mapSeverity(f.severity),
+      message: f.message,
+      title: `Unsafe Migration: ${f.operation.replace(/_/g, " ")} ${f.column ? `${f.table}.${f.column}` : f.table}`,
+      raw_details: [`Lock: ${f.lock}, ${f.compatibility}`, ...f.readers.map((r) => `${r.name} (${r.filePath})`)].join("\n"),
+    })
+  }
+
   const blockers = allAnnotations.filter((a) => a.annotation_level === "failure").length
   const warnings = allAnnotations.filter((a) => a.annotation_level === "warning").length
   const total = allAnnotations.length
@@ -178,7 +210,9 @@ export function buildCheckRunOutput(
     trustBoundaryFindings,
     envFindings,
     contractFindings,
-    idempotencyFindings
+    idempotencyFindings,
+    architectureFindings,
+    migrationFindings
   )
 
   if (blastRadius && blastRadius.length > 0) {
@@ -213,7 +247,9 @@ function buildSummaryMarkdown(
   trustBoundaries: TrustBoundaryFinding[] = [],
   envs: EnvFinding[] = [],
   contracts: ContractFinding[] = [],
-  idempotencies: IdempotencyFinding[] = []
+  idempotencies: IdempotencyFinding[] = [],
+  architecture: ArchitectureFinding[] = [],
+  migrations: MigrationFinding[] = []
 ): string {
   const sections: string[] = []
 
@@ -292,6 +328,22 @@ function buildSummaryMarkdown(
     )
   }
 
+  if (architecture.length > 0) {
+    sections.push(
+      `### Layer Violations (${architecture.length})\n\n| From | To | File | Target |\n|---|---|---|---|\n${architecture
+        .map((f) => `| ${f.fromLayer} | ${f.toLayer} | \`${f.filePath}:${f.line}\` | \`${f.target.filePath}\` |`)
+        .join("\n")}`
+    )
+  }
+
+  if (migrations.length > 0) {
+    sections.push(
+      `### Unsafe Migrations (${migrations.length})\n\n| Operation | Target | File | Lock | Code Using It |\n|---|---|---|---|---|\n${migrations
+        .map((f) => `| ${f.operation} | \`${f.column ? `${f.table}.${f.column}` : f.table}\` | \`${f.filePath}:${f.line}\` | ${f.lock} | ${f.readers.length} |`)
+        .join("\n")}`
+    )
+  }
+
   if (sections.length === 0) return "No findings. Clean PR! ✓"
   return sections.join("\n\n---\n\n")
 }
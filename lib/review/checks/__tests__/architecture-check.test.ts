@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { EntityDoc, ReviewConfig } from "@/lib/ports/types"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+import { runArchitectureCheck } from "../architecture-check"
+
+const ORG = "org-architecture-check"
+const REPO = "repo-architecture"
+
+function makeConfig(overrides: Partial<ReviewConfig> = {}): ReviewConfig {
+  return { ...DEFAULT_REVIEW_CONFIG, ...overrides }
+}
+
+function makeEntity(id: string, filePath: string, startLine = 1): EntityDoc {
+  return { id, org_id: ORG, repo_id: REPO, kind: "function", name: id, file_path: filePath, start_line: startLine, end_line: startLine + 5 }
+}
+
+describe("runArchitectureCheck", () => {
+  let container: Container
+  let workspace: string
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "arch-check-"))
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      makeEntity("Page", "app/page.tsx", 3),
+      makeEntity("insertOrder", "lib/db/orders.ts", 1),
+      makeEntity("placeOrder", "lib/domain/orders.ts", 1),
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      { _from: "functions/Page", _to: "functions/insertOrder", org_id: ORG, repo_id: REPO, kind: "calls" },
+    ])
+    const now = new Date().toISOString()
+    await container.graphStore.upsertLayerDefinition(ORG, {
+      id: REPO,
+      org_id: ORG,
+      repo_id: REPO,
+      layers: [
+        { name: "ui", paths: ["app/**"] },
+        { name: "domain", paths: ["lib/domain/**"] },
+        { name: "db", paths: ["lib/db/**"] },
+      ],
+      allowed: { ui: ["domain"], domain: ["db"] },
+      enforcement: "block",
+      created_at: now,
+      updated_at: now,
+    })
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+  })
+
+  it("flags graph edges from changed entities and newly added imports", async () => {
+    fs.mkdirSync(path.join(workspace, "lib/domain"), { recursive: true })
+    fs.writeFileSync(
+      path.join(workspace, "lib/domain/orders.ts"),
+      'import { insertOrder } from "../db/orders"\nimport { Page } from "@/app/page"\n'
+    )
+
+    const changedPage = { ...makeEntity("Page", "app/page.tsx", 3), changedLines: [{ start: 3, end: 4 }] }
+    const findings = await runArchitectureCheck(
+      ORG,
+      REPO,
+      [changedPage],
+      [{ filePath: "lib/domain/orders.ts", hunks: [{ startLine: 1, lineCount: 2 }] }],
+      workspace,
+      container.graphStore,
+      makeConfig()
+    )
+
+    expect(findings.map((f) => [f.filePath, f.line, f.fromLayer, f.toLayer, f.edgeKind, f.severity])).toEqual([
+      ["app/page.tsx", 3, "ui", "db", "calls", "error"],
+      ["lib/domain/orders.ts", 2, "domain", "ui", "imports", "error"],
+    ])
+    expect(findings[1]!.target.filePath).toBe("app/page.tsx")
+  })
+
+  it("returns nothing when the check is disabled", async () => {
+    const changedPage = { ...makeEntity("Page", "app/page.tsx", 3), changedLines: [{ start: 3, end: 4 }] }
+    const config = makeConfig({ checksEnabled: { ...DEFAULT_REVIEW_CONFIG.checksEnabled, architecture: false } })
+
+    const findings = await runArchitectureCheck(ORG, REPO, [changedPage], [], workspace, container.graphStore, config)
+
+    expect(findings).toHaveLength(0)
+  })
+})
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { EntityDoc, ReviewConfig } from "@/lib/ports/types"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+import { runContractCheck } from "../contract-check"
+
+const ORG = "org-contract-check"
+const REPO = "repo-contract"
+
+function makeConfig(overrides: Partial<ReviewConfig> = {}): ReviewConfig {
+  return { ...DEFAULT_REVIEW_CONFIG, ...overrides }
+}
+
+function makeEntity(id: string, overrides: Partial<EntityDoc> = {}): EntityDoc {
+  return {
+    id,
+    org_id: ORG,
+    repo_id: REPO,
+    kind: "field",
+    name: id,
+    file_path: "schema.graphql",
+    language: "graphql",
+    ...overrides,
+  }
+}
+
+function edge(from: string, to: string, kind: string) {
+  return { _from: `functions/${from}`, _to: `classes/${to}`, kind, org_id: ORG, repo_id: REPO }
+}
+
+// Base-branch schema.graphql:
+//   1 type Query {
+//   2   user(id: ID!): User
+//   3 }
+//   4
+//   5 type User {
+//   6   id: ID!
+//   7   email: String
+//   8   age: Int
+//   9 }
+const GRAPHQL_DIFF = `diff --git a/schema.graphql b/schema.graphql
+--- a/schema.graphql
++++ b/schema.graphql
+@@ -5,5 +5,4 @@
+ type User {
+   id: ID!
+-  email: String
+-  age: Int
++  age: Float
+ }
+`
+
+describe("runContractCheck — schema changes", () => {
+  let container: Container
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      makeEntity("op-user", { kind: "api_operation", name: "Query.user", parent: "Query", start_line: 2, end_line: 2 }),
+      makeEntity("msg-user", { kind: "message", name: "User", start_line: 5, end_line: 9 }),
+      makeEntity("f-id", { name: "id", parent: "User", return_type: "ID!", start_line: 6, end_line: 6 }),
+      makeEntity("f-email", { name: "email", parent: "User", return_type: "String", start_line: 7, end_line: 7 }),
+      makeEntity("f-age", { name: "age", parent: "User", return_type: "Int", start_line: 8, end_line: 8 }),
+      makeEntity("resolver", { kind: "method", name: "user", parent: "UserResolver", file_path: "src/user.resolver.ts", language: "typescript" }),
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      edge("op-user", "msg-user", "references"),
+      edge("resolver", "op-user", "implements"),
+    ])
+  })
+
+  it("flags removed and retyped fields with their downstream consumers", async () => {
+    const findings = await runContractCheck(ORG, [], [], makeConfig(), {
+      repoId: REPO,
+      rawDiff: GRAPHQL_DIFF,
+      graphStore: container.graphStore,
+    })
+
+    expect(findings).toHaveLength(2)
+    const [removed, retyped] = findings
+    expect(removed!.breakingChange).toEqual({ schema: "User", field: "email", change: "removed", oldType: "String", newType: undefined })
+    expect(removed!.line).toBe(6)
+    expect(removed!.consumers).toEqual([
+      { name: "Query.user", kind: "api_operation", filePath: "schema.graphql" },
+      { name: "user", kind: "method", filePath: "src/user.resolver.ts" },
+    ])
+    expect(removed!.affectedRoute).toEqual({ name: "Query.user", kind: "api_operation", filePath: "schema.graphql" })
+    expect(removed!.message).toBe(
+      "Removing `User.email` (`String`) is a breaking API change for 2 downstream consumers: `Query.user`, `user`. Deprecate the field first or version the schema."
+    )
+
+    expect(retyped!.breakingChange).toMatchObject({ field: "age", change: "retyped", oldType: "Int", newType: "Float" })
+    expect(retyped!.line).toBe(7)
+    expect(retyped!.message).toContain("Changing `User.age` from `Int` to `Float`")
+  })
+
+  it("flags retyped protobuf fields", async () => {
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      makeEntity("proto-msg", { kind: "message", name: "Order", file_path: "orders.proto", language: "protobuf", start_line: 1, end_line: 4 }),
+      makeEntity("proto-items", { name: "items", parent: "Order", file_path: "orders.proto", language: "protobuf", return_type: "string", start_line: 3, end_line: 3 }),
+    ])
+    const diff = `--- a/orders.proto
++++ b/orders.proto
+@@ -2,3 +2,3 @@
+   string id = 1;
+-  string items = 2;
++  repeated string items = 2;
+ }
+`
+    const findings = await runContractCheck(ORG, [], [], makeConfig(), { repoId: REPO, rawDiff: diff, graphStore: container.graphStore })
+
+    expect(findings).toHaveLength(1)
+    expect(findings[0]!.breakingChange).toMatchObject({ schema: "Order", change: "retyped", oldType: "string", newType: "string[]" })
+    expect(findings[0]!.consumers).toEqual([])
+    expect(findings[0]!.message).toContain("for any client of this schema")
+  })
+
+  it("ignores added fields and unchanged types", async () => {
+    const diff = `--- a/schema.graphql
++++ b/schema.graphql
+@@ -6,3 +6,4 @@
+-  id: ID!
++  id: ID! @deprecated
+   email: String
++  nickname: String
+   age: Int
+`
+    const findings = await runContractCheck(ORG, [], [], makeConfig(), { repoId: REPO, rawDiff: diff, graphStore: container.graphStore })
+
+    expect(findings).toHaveLength(0)
+  })
+
+  it("respects the contract toggle and ignorePaths", async () => {
+    const schema = { repoId: REPO, rawDiff: GRAPHQL_DIFF, graphStore: container.graphStore }
+
+    const disabled = makeConfig({ checksEnabled: { ...DEFAULT_REVIEW_CONFIG.checksEnabled, contract: false } })
+    expect(await runContractCheck(ORG, [], [], disabled, schema)).toHaveLength(0)
+    expect(await runContractCheck(ORG, [], [], makeConfig({ ignorePaths: ["schema.graphql"] }), schema)).toHaveLength(0)
+  })
+})
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { type Container, createTestContainer } from "@/lib/di/container"
+import type { EntityDoc, ReviewConfig } from "@/lib/ports/types"
+import { DEFAULT_REVIEW_CONFIG } from "@/lib/ports/types"
+import { detectMigrationFramework, runMigrationCheck } from "../migration-check"
+
+const ORG = "org-migration-check"
+const REPO = "repo-migration"
+
+function makeConfig(overrides: Partial<ReviewConfig> = {}): ReviewConfig {
+  return { ...DEFAULT_REVIEW_CONFIG, ...overrides }
+}
+
+function makeEntity(id: string, overrides: Partial<EntityDoc> = {}): EntityDoc {
+  return { id, org_id: ORG, repo_id: REPO, kind: "function", name: id, file_path: "lib/users.ts", ...overrides }
+}
+
+function edge(from: string, to: string, kind: string) {
+  return { _from: `functions/${from}`, _to: `classes/${to}`, kind, org_id: ORG, repo_id: REPO }
+}
+
+function newFile(filePath: string, lines: string[]): string {
+  return `diff --git a/${filePath} b/${filePath}
+new file mode 100644
+--- /dev/null
++++ b/${filePath}
+@@ -0,0 +1,${lines.length} @@
+${lines.map((l) => `+${l}`).join("\n")}
+`
+}
+
+const PRISMA_MIGRATION = newFile("prisma/migrations/20260101_drop_email/migration.sql", [
+  "-- DropColumn",
+  "ALTER TABLE \"users\" DROP COLUMN \"email_address\";",
+  "",
+  "CREATE INDEX \"users_name_idx\" ON \"users\"(\"name\");",
+  "CREATE TABLE \"audit\" (\"id\" TEXT NOT NULL);",
+  "CREATE INDEX \"audit_id_idx\" ON \"audit\"(\"id\");",
+])
+
+describe("runMigrationCheck", () => {
+  let container: Container
+
+  beforeEach(async () => {
+    container = createTestContainer()
+    await container.graphStore.bulkUpsertEntities(ORG, [
+      makeEntity("tbl-user", { kind: "table", name: "User", file_path: "prisma/schema.prisma", decorators: ["@@map(\"users\")"] }),
+      makeEntity("col-email", { kind: "column", name: "emailAddress", parent: "User", file_path: "prisma/schema.prisma", decorators: ["@map(\"email_address\")"] }),
+      makeEntity("getUser", { body: "return prisma.user.findUnique({ where: { id }, select: { emailAddress: true } })" }),
+      makeEntity("listUserIds", { body: "return prisma.user.findMany({ select: { id: true } })" }),
+      makeEntity("createUser", { body: "return prisma.user.create({ data })" }),
+      makeEntity("legacyExport", { file_path: "lib/legacy-export.ts", body: "SELECT email_address FROM users" }),
+    ])
+    await container.graphStore.bulkUpsertEdges(ORG, [
+      edge("getUser", "tbl-user", "reads_table"),
+      edge("listUserIds", "tbl-user", "reads_table"),
+      edge("createUser", "tbl-user", "writes_table"),
+      edge("legacyExport", "tbl-user", "reads_table"),
+    ])
+  })
+
+  it("classifies SQL statements and lists code still reading a dropped column", async () => {
+    const deleteLegacy = `diff --git a/lib/legacy-export.ts b/lib/legacy-export.ts
+deleted file mode 100644
+--- a/lib/legacy-export.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export const legacyExport = () => "SELECT email_address FROM users"
+`
+    const findings = await runMigrationCheck(ORG, REPO, PRISMA_MIGRATION + deleteLegacy, container.graphStore, makeConfig())
+
+    expect(findings).toHaveLength(2)
+    expect(findings[0]).toMatchObject({
+      filePath: "prisma/migrations/20260101_drop_email/migration.sql",
+      line: 2,
+      framework: "prisma",
+      operation: "drop_column",
+      table: "users",
+      column: "email_address",
+      lock: "access_exclusive",
+      compatibility: "breaking",
+      severity: "error",
+      readers: [{ name: "getUser", kind: "function", filePath: "lib/users.ts" }],
+    })
+    expect(findings[1]).toMatchObject({ line: 4, operation: "blocking_index", table: "users", lock: "share", compatibility: "compatible", severity: "warning" })
+    expect(findings[1]!.message).toContain("CONCURRENTLY")
+  })
+
+  it("parses Rails, Alembic and Knex migrations and skips down sections", async () => {
+    const diff = [
+      newFile("db/migrate/20260101000000_remove_email.rb", [
+        "class RemoveEmail < ActiveRecord::Migration[7.1]",
+        "  disable_ddl_transaction!",
+        "  def up",
+        "    remove_column :users, :email_address, :string",
+        "    add_index :users, :name, algorithm: :concurrently",
+        "  end",
+        "  def down",
+        "    drop_table :users",
+        "  end",
+        "end",
+      ]),
+      newFile("alembic/versions/abc123_rename.py", [
+        "def upgrade():",
+        "    op.alter_column(",
+        "        \"users\",",
+        "        \"name\",",
+        "        new_column_name=\"full_name\",",
+        "    )",
+        "",
+        "def downgrade():",
+        "    op.drop_column(\"users\", \"full_name\")",
+      ]),
+      newFile("migrations/20260101_nickname.ts", [
+        "export async function up(knex: Knex): Promise<void> {",
+        "  await knex.schema.alterTable(\"users\", (table) => {",
+        "    table.string(\"nickname\").notNullable()",
+        "  })",
+        "}",
+        "export async function down(knex: Knex): Promise<void> {",
+        "  await knex.schema.dropTable(\"users\")",
+        "}",
+      ]),
+    ].join("")
+
+    const findings = await runMigrationCheck(ORG, REPO, diff, container.graphStore, makeConfig())
+
+    expect(findings.map((f) => [f.framework, f.operation, f.line])).toEqual([
+      ["rails", "drop_column", 4],
+      ["alembic", "rename_column", 2],
+      ["knex", "add_not_null_column", 3],
+    ])
+    expect(findings[0]!.readers.map((r) => r.name)).toEqual(["getUser", "legacyExport"])
+    expect(findings[2]!.readers.map((r) => r.name)).toEqual(["createUser"])
+  })
+
+  it("finds tables and readers beyond the first page of entities", async () => {
+    const padding = Array.from({ length: 10000 }, (_, i) => makeEntity(`pad-${i}`))
+    const entities = [...padding, ...(await container.graphStore.getAllEntities(ORG, REPO))]
+    const getAllEntities = vi.spyOn(container.graphStore, "getAllEntities")
+      .mockImplementation(async (_orgId, _repoId, limit = 10000, offset = 0) => entities.slice(offset, offset + limit))
+
+    const findings = await runMigrationCheck(ORG, REPO, PRISMA_MIGRATION, container.graphStore, makeConfig())
+
+    expect(getAllEntities).toHaveBeenCalledWith(ORG, REPO, 10000, 10000)
+    expect(findings[0]!.readers.map((r) => r.name)).toEqual(["getUser", "legacyExport"])
+  })
+
+  it("respects the migration toggle and ignorePaths", async () => {
+    const disabled = makeConfig({ checksEnabled: { ...DEFAULT_REVIEW_CONFIG.checksEnabled, migration: false } })
+    expect(await runMigrationCheck(ORG, REPO, PRISMA_MIGRATION, container.graphStore, disabled)).toHaveLength(0)
+    expect(await runMigrationCheck(ORG, REPO, PRISMA_MIGRATION, container.graphStore, makeConfig({ ignorePaths: ["prisma/migrations/"] }))).toHaveLength(0)
+    expect(await runMigrationCheck(ORG, REPO, PRISMA_MIGRATION, container.graphStore, makeConfig({ ignorePaths: ["_drop_email/.*\\.sql$"] }))).toHaveLength(0)
+  })
+})
+
+describe("detectMigrationFramework", () => {
+  it("recognizes migration paths per framework", () => {
+    expect(detectMigrationFramework("prisma/migrations/20260101_init/migration.sql")).toBe("prisma")
+    expect(detectMigrationFramework("db/migrations/V2__add_orders.sql")).toBe("sql")
+    expect(detectMigrationFramework("migrations/0002_orders.down.sql")).toBeNull()
+    expect(detectMigrationFramework("db/migrate/20260101000000_add_orders.rb")).toBe("rails")
+    expect(detectMigrationFramework("alembic/versions/abc123_add_orders.py")).toBe("alembic")
+    expect(detectMigrationFramework("migrations/20260101_add_orders.js")).toBe("knex")
+    expect(detectMigrationFramework("lib/db/queries.sql")).toBeNull()
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Architecture check — flags dependencies from changed code that cross
+ * architecture layers in a direction the repo's layer definition forbids.
+ *
+ * Graph edges cover the affected entities as last indexed; import lines in
+ * the changed hunks are also resolved against the workspace so imports added
+ * by this PR are caught before the next re-index.
+ */
+
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type { ArchitectureFinding, EntityDoc, LayerDefinitionDoc, ReviewConfig } from "@/lib/ports/types"
+import { evaluateArchitecture, isDependencyAllowed, layerOf } from "@/lib/rules/architecture"
+import type { DiffFile } from "../diff-analyzer"
+import { isLineInChangedRange } from "../diff-analyzer"
+
+const RESOLVE_SUFFIXES = ["", ".ts", ".tsx", ".js", ".jsx", "/index.ts", "/index.tsx", "/index.js"]
+
+export async function runArchitectureCheck(
+  orgId: string,
+  repoId: string,
+  affectedEntities: Array<EntityDoc & { changedLines: Array<{ start: number; end: number }> }>,
+  diffFiles: DiffFile[],
+  workspacePath: string,
+  graphStore: IGraphStore,
+  config: ReviewConfig
+): Promise<ArchitectureFinding[]> {
+  if (!config.checksEnabled.architecture) return []
+
+  const definition = await graphStore.getLayerDefinition(orgId, repoId)
+  if (!definition || definition.layers.length === 0) return []
+
+  const [entities, edges] = await Promise.all([
+    graphStore.getAllEntities(orgId, repoId),
+    graphStore.getAllEdges(orgId, repoId),
+  ])
+  const severity = severityFor(definition)
+  const findings: ArchitectureFinding[] = []
+  const seen = new Set<string>()
+
+  // Indexed edges leaving the changed entities
+  const report = evaluateArchitecture(definition, entities, edges, {
+    sourceIds: new Set(affectedEntities.map((e) => e.id)),
+  })
+  for (const v of report.violations) {
+    const key = `${v.source.filePath}:${v.target.filePath}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    findings.push({
+      filePath: v.source.filePath,
+      line: v.source.line,
+      fromLayer: v.fromLayer,
+      toLayer: v.toLayer,
+      edgeKind: v.edgeKind,
+      target: { name: v.target.name, filePath: v.target.filePath },
+      severity,
+      message: `\`${v.source.name}\` (${v.fromLayer}) ${v.edgeKind === "calls" ? "calls" : "imports"} \`${v.target.name}\` (${v.toLayer}), which the ${v.fromLayer} layer may not depend on.`,
+    })
+  }
+
+  // Imports added in this PR, not yet in the graph
+  const fs = await import("node:fs")
+  const path = await import("node:path")
+  const knownFiles = new Set(entities.map((e) => e.file_path))
+
+  for (const file of diffFiles) {
+    if (!/\.(ts|tsx|js|jsx)$/.test(file.filePath)) continue
+    if (config.ignorePaths.some((p) => file.filePath.startsWith(p))) continue
+    const fromLayer = layerOf(file.filePath, definition.layers)
+    if (!fromLayer) continue
+
+    let lines: string[]
+    try {
+      lines = fs.readFileSync(path.join(workspacePath, file.filePath), "utf-8").split("\n")
+    } catch {
+      continue
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!isLineInChangedRange(diffFiles, file.filePath, i + 1)) continue
+      const match = lines[i]!.match(/(?:import|export)\s.*?from\s+["']([^"']+)["']|(?:import|require)\s*\(\s*["']([^"']+)["']\s*\)|^\s*import\s+["']([^"']+)["']/)
+      const specifier = match?.[1] ?? match?.[2] ?? match?.[3]
+      if (!specifier) continue
+
+      const targetPath = resolveSpecifier(file.filePath, specifier, knownFiles, path.posix)
+      if (!targetPath) continue
+      const toLayer = layerOf(targetPath, definition.layers)
+      if (!toLayer || isDependencyAllowed(definition, fromLayer, toLayer)) continue
+
+      const key = `${file.filePath}:${targetPath}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      findings.push({
+        filePath: file.filePath,
+        line: i + 1,
+        fromLayer,
+        toLayer,
+        edgeKind: "imports",
+        target: { name: specifier, filePath: targetPath },
+        severity,
+        message: `New import of \`${specifier}\` makes ${fromLayer} depend on ${toLayer}, which the layer definition does not allow.`,
+      })
+    }
+  }
+
+  return findings
+}
+
+function severityFor(definition: LayerDefinitionDoc): ArchitectureFinding["severity"] {
+  if (definition.enforcement === "block") return "error"
+  if (definition.enforcement === "warn") return "warning"
+  return "info"
+}
+
+/**
+ * Resolve a relative or `@/` import specifier to a repo file the graph knows.
+ */
+function resolveSpecifier(
+  fromFile: string,
+  specifier: string,
+  knownFiles: Set<string>,
+  posix: typeof import("node:path").posix
+): string | null {
+  let base: string
+  if (specifier.startsWith(".")) {
+    base = posix.normalize(posix.join(posix.dirname(fromFile), specifier))
+  } else if (specifier.startsWith("@/")) {
+    base = specifier.slice(2)
+  } else {
+    return null
+  }
+  for (const suffix of RESOLVE_SUFFIXES) {
+    if (knownFiles.has(base + suffix)) return base + suffix
+  }
+  return null
+}
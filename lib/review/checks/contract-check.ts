@@ -1,21 +1,29 @@
 /**
- * API Contract Check (G10) — detects changes to entities that blast radius shows affect API boundaries.
+ * API Contract Check (G10) — detects changes to entities that blast radius shows affect API boundaries,
+ * and schema fields (OpenAPI/GraphQL/protobuf) a PR removes or retypes, with their downstream consumers.
  */
 
+import type { IGraphStore } from "@/lib/ports/graph-store"
 import type {
   BlastRadiusSummary,
   ContractFinding,
   EntityDoc,
   ReviewConfig,
 } from "@/lib/ports/types"
+import { findSchemaFieldChanges, parseDiffLines, SCHEMA_FILE_EXTENSIONS } from "../schema-diff"
 
-const API_BOUNDARY_KINDS = new Set(["api_route", "webhook_handler"])
+const API_BOUNDARY_KINDS = new Set(["api_route", "webhook_handler", "api_operation"])
+/** Edges that make an entity depend on a schema: operation/message → message, handler → operation */
+const CONSUMER_EDGE_KINDS = new Set(["references", "implements"])
+const MAX_CONSUMER_HOPS = 3
+const MAX_CONSUMERS = 25
 
 export async function runContractCheck(
   orgId: string,
   affectedEntities: Array<EntityDoc & { changedLines?: unknown }>,
   blastRadius: BlastRadiusSummary[],
-  config: ReviewConfig
+  config: ReviewConfig,
+  schema?: { repoId: string; rawDiff: string; graphStore: IGraphStore }
 ): Promise<ContractFinding[]> {
   if (!config.checksEnabled.contract) return []
 
@@ -58,5 +66,104 @@ export async function runContractCheck(
     }
   }
 
+  if (schema) {
+    findings.push(...(await runSchemaContractCheck(orgId, schema.repoId, schema.rawDiff, schema.graphStore, config)))
+  }
+
+  return findings
+}
+
+/**
+ * Flag schema fields removed or retyped by the diff. Field entities come from
+ * the base-branch index, so their line numbers line up with the old side of
+ * the diff.
+ */
+async function runSchemaContractCheck(
+  orgId: string,
+  repoId: string,
+  rawDiff: string,
+  graphStore: IGraphStore,
+  config: ReviewConfig
+): Promise<ContractFinding[]> {
+  const findings: ContractFinding[] = []
+
+  for (const [filePath, hunks] of Array.from(parseDiffLines(rawDiff))) {
+    if (!SCHEMA_FILE_EXTENSIONS.some((ext) => filePath.endsWith(ext))) continue
+    if (config.ignorePaths.some((p) => filePath.startsWith(p))) continue
+
+    const entities = await graphStore.getEntitiesByFile(orgId, repoId, filePath)
+    const fields = entities.filter((e) => e.kind === "field")
+    if (fields.length === 0) continue
+
+    for (const change of findSchemaFieldChanges(hunks, fields)) {
+      const schemaName = String(change.field.parent ?? "")
+      const owner = entities.find((e) => e.kind === "message" && e.name === schemaName)
+      const consumers = owner ? await findContractConsumers(orgId, owner, graphStore) : []
+      const operation = consumers.find((c) => c.kind === "api_operation")
+      const qualified = schemaName ? `${schemaName}.${change.field.name}` : change.field.name
+      const what = change.change === "removed"
+        ? `Removing \`${qualified}\`${change.oldType ? ` (\`${change.oldType}\`)` : ""}`
+        : `Changing \`${qualified}\` from \`${change.oldType}\` to \`${change.newType}\``
+      const who = consumers.length > 0
+        ? `${consumers.length} downstream consumer${consumers.length === 1 ? "" : "s"}: ${consumers.slice(0, 5).map((c) => `\`${c.name}\``).join(", ")}${consumers.length > 5 ? ", …" : ""}`
+        : "any client of this schema"
+
+      findings.push({
+        changedEntity: { id: change.field.id, name: qualified, filePath },
+        affectedRoute: operation ?? { name: schemaName || qualified, kind: owner?.kind ?? "message", filePath },
+        depth: 0,
+        callerCount: consumers.length,
+        filePath,
+        line: change.line,
+        message: `${what} is a breaking API change for ${who}. Deprecate the field first or version the schema.`,
+        breakingChange: {
+          schema: schemaName,
+          field: change.field.name,
+          change: change.change,
+          oldType: change.oldType,
+          newType: change.newType,
+        },
+        consumers,
+      })
+    }
+  }
+
   return findings
 }
+
+/**
+ * Walk inbound references/implements edges from a schema: operations and
+ * schemas that use it, then handlers implementing those operations.
+ */
+async function findContractConsumers(
+  orgId: string,
+  schemaEntity: EntityDoc,
+  graphStore: IGraphStore
+): Promise<Array<{ name: string; kind: string; filePath: string }>> {
+  const seen = new Set<string>([schemaEntity.id])
+  const consumerIds: string[] = []
+  let frontier = [schemaEntity.id]
+
+  for (let hop = 0; hop < MAX_CONSUMER_HOPS && frontier.length > 0 && consumerIds.length < MAX_CONSUMERS; hop++) {
+    const frontierSet = new Set(frontier)
+    const edges = await graphStore.getEdgesForEntities(orgId, frontier)
+    const next: string[] = []
+    for (const edge of edges) {
+      if (!CONSUMER_EDGE_KINDS.has(edge.kind)) continue
+      const toKey = edge._to.split("/").pop()!
+      const fromKey = edge._from.split("/").pop()!
+      if (!frontierSet.has(toKey) || seen.has(fromKey)) continue
+      seen.add(fromKey)
+      next.push(fromKey)
+      consumerIds.push(fromKey)
+    }
+    frontier = next
+  }
+
+  const consumers: Array<{ name: string; kind: string; filePath: string }> = []
+  for (const id of consumerIds.slice(0, MAX_CONSUMERS)) {
+    const entity = await graphStore.getEntity(orgId, id)
+    if (entity) consumers.push({ name: entity.name, kind: entity.kind, filePath: entity.file_path })
+  }
+  return consumers
+}
@@ -1,7 +1,12 @@
 /**
- * Env Var Disconnect Check (G9) — detects process.env references not in .env.example.
+ * Env Var Disconnect Check (G9) — detects process.env references not in .env.example,
+ * or not set by any Terraform/Kubernetes manifest when the repo deploys through them.
  */
 
+import { ALWAYS_IGNORE } from "@/lib/indexer/ignore"
+import { isEnvVarEntity } from "@/lib/indexer/languages/iac/env-vars"
+import { parseKubernetesManifest } from "@/lib/indexer/languages/iac/kubernetes"
+import { parseTerraformFile } from "@/lib/indexer/languages/iac/terraform"
 import type { EnvFinding, ReviewConfig } from "@/lib/ports/types"
 
 export interface DiffHunk {
@@ -16,6 +21,10 @@ export interface DiffFile {
 
 const ENV_REGEX = /process\.env\.([A-Z][A-Z0-9_]*)/g
 
+const MANIFEST_EXTENSIONS = [".tf", ".yaml", ".yml"]
+const MAX_MANIFEST_FILES = 500
+const MAX_MANIFEST_BYTES = 1024 * 1024
+
 export async function runEnvCheck(
   diffFiles: DiffFile[],
   workspacePath: string,
@@ -47,6 +56,9 @@ export async function runEnvCheck(
     // If we can't read .env.example, flag all new env vars
   }
 
+  // Env vars set by deployment manifests (empty when the repo has none)
+  const manifestVars = await collectManifestEnvVars(workspacePath)
+
   // Scan diff hunks for new process.env references
   for (const file of diffFiles) {
     for (const hunk of file.hunks) {
@@ -67,6 +79,15 @@ export async function runEnvCheck(
               line: hunk.newStart + i,
               envVar,
               message: `\`process.env.${envVar}\` is not defined in \`.env.example\`. Add it to ensure all developers and CI have the required variable.`,
+              missingFrom: "env-example",
+            })
+          } else if (manifestVars.size > 0 && !manifestVars.has(envVar)) {
+            findings.push({
+              filePath: file.path,
+              line: hunk.newStart + i,
+              envVar,
+              message: `\`process.env.${envVar}\` is not set by any Terraform or Kubernetes manifest in this repo. Add it to the deployment config or the service will start without it.`,
+              missingFrom: "manifests",
             })
           }
         }
@@ -76,3 +97,47 @@ export async function runEnvCheck(
 
   return findings
 }
+
+/**
+ * Walk the workspace for .tf/.yaml/.yml files and collect the env vars their
+ * resources declare, using the same parsers as the indexer.
+ */
+async function collectManifestEnvVars(workspacePath: string): Promise<Set<string>> {
+  const vars = new Set<string>()
+  try {
+    const fs = await import("node:fs")
+    const path = await import("node:path")
+
+    const files: string[] = []
+    const stack = [""]
+    while (stack.length > 0 && files.length < MAX_MANIFEST_FILES) {
+      const rel = stack.pop()!
+      for (const entry of fs.readdirSync(path.join(workspacePath, rel), { withFileTypes: true })) {
+        const entryRel = rel ? `${rel}/${entry.name}` : entry.name
+        if (entry.isDirectory()) {
+          if (!ALWAYS_IGNORE.has(entry.name)) stack.push(entryRel)
+        } else if (MANIFEST_EXTENSIONS.some((ext) => entry.name.endsWith(ext))) {
+          files.push(entryRel)
+        }
+      }
+    }
+
+    for (const filePath of files.slice(0, MAX_MANIFEST_FILES)) {
+      try {
+        const absPath = path.join(workspacePath, filePath)
+        if (fs.statSync(absPath).size > MAX_MANIFEST_BYTES) continue
+        const content = fs.readFileSync(absPath, "utf-8")
+        const opts = { filePath, content, repoId: "", orgId: "" }
+        const parsed = filePath.endsWith(".tf") ? parseTerraformFile(opts) : parseKubernetesManifest(opts)
+        for (const entity of parsed.entities) {
+          if (isEnvVarEntity(entity)) vars.add(entity.name)
+        }
+      } catch {
+        // Unreadable or unparseable manifest — skip just this file
+      }
+    }
+  } catch {
+    // Unreadable workspace — skip the manifest comparison
+  }
+  return vars
+}
@@ -0,0 +1,626 @@
+/**
+ * Migration Safety Check — classifies the statements of database migrations a PR
+ * adds (Prisma and raw SQL, Knex, Alembic, Rails) by lock and compatibility risk,
+ * and names the code that still reads the tables and columns they drop or rename.
+ *
+ * Lock levels follow PostgreSQL. Only added lines outside down/downgrade sections
+ * are classified, and tables created by the same migration are skipped. Readers
+ * come from the base-branch graph: reads_table/writes_table edges into the table
+ * (resolved by name or Prisma `@@map`), narrowed to entities whose body mentions
+ * the column for column-level operations.
+ */
+
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type {
+  EntityDoc,
+  MigrationFinding,
+  MigrationFramework,
+  MigrationOperation,
+  ReviewConfig,
+} from "@/lib/ports/types"
+import { loadAllEntities } from "../repo-entities"
+import type { DiffLine } from "../schema-diff"
+import { parseDiffLines } from "../schema-diff"
+
+/** A classified migration statement, before the graph lookup */
+export interface MigrationStatement {
+  line: number
+  operation: MigrationOperation
+  table: string
+  column?: string
+  /** Target name of a rename */
+  newName?: string
+}
+
+type Statement = Omit<MigrationStatement, "line">
+
+interface SourceLine {
+  text: string
+  line: number
+  added: boolean
+}
+
+const OPERATION_RISK: Record<MigrationOperation, {
+  lock: MigrationFinding["lock"]
+  compatibility: MigrationFinding["compatibility"]
+  /** Which code to look up: everything touching the table, code mentioning the column, or writers */
+  readers: "table" | "column" | "writers" | null
+}> = {
+  drop_table: { lock: "access_exclusive", compatibility: "breaking", readers: "table" },
+  drop_column: { lock: "access_exclusive", compatibility: "breaking", readers: "column" },
+  rename_table: { lock: "access_exclusive", compatibility: "breaking", readers: "table" },
+  rename_column: { lock: "access_exclusive", compatibility: "breaking", readers: "column" },
+  alter_column_type: { lock: "access_exclusive", compatibility: "breaking", readers: "column" },
+  add_not_null_column: { lock: "access_exclusive", compatibility: "breaking", readers: "writers" },
+  set_not_null: { lock: "access_exclusive", compatibility: "compatible", readers: null },
+  blocking_index: { lock: "share", compatibility: "compatible", readers: null },
+}
+
+const MAX_READERS = 10
+
+// ── Framework detection ───────────────────────────────────────
+
+/** Migration framework a changed file belongs to, or null for non-migration files */
+export function detectMigrationFramework(filePath: string): MigrationFramework | null {
+  const lower = filePath.toLowerCase()
+  if (lower.endsWith(".sql")) {
+    if (/\.down\.sql$|(^|\/)down\.sql$/.test(lower)) return null
+    if (/(^|\/)prisma\/migrations\//.test(lower)) return "prisma"
+    if (/(^|\/)(migrations?|migrate|flyway)\//.test(lower) || /(^|\/)v\d+(?:[._]\d+)*__[^/]+\.sql$/.test(lower)) return "sql"
+    return null
+  }
+  if (/(^|\/)db\/migrate\/[^/]+\.rb$/.test(lower)) return "rails"
+  if (/(^|\/)(alembic|migrations)\/versions\/[^/]+\.py$/.test(lower)) return "alembic"
+  if (/(^|\/)migrations\/[^/]+\.(?:js|ts|mjs|cjs)$/.test(lower)) return "knex"
+  return null
+}
+
+// ── SQL ───────────────────────────────────────────────────────
+
+const ID = "(?:\"[^\"]+\"|`[^`]+`|\\[[^\\]]+\\]|[\\w$]+)"
+const QID = `(${ID}(?:\\s*\\.\\s*${ID})*)`
+
+const DROP_TABLE_RE = /^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(.+?)(?:\s+(?:CASCADE|RESTRICT))?$/i
+const RENAME_TABLE_RE = new RegExp(`^RENAME\\s+TABLE\\s+${QID}\\s+TO\\s+${QID}`, "i")
+const CREATE_TABLE_RE = new RegExp(`^CREATE\\s+(?:(?:GLOBAL\\s+|LOCAL\\s+)?(?:TEMP|TEMPORARY|UNLOGGED)\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${QID}`, "i")
+const CREATE_INDEX_RE = new RegExp(
+  `^CREATE\\s+(?:UNIQUE\\s+)?INDEX\\s+(CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(?:${ID}\\s+)?ON\\s+(?:ONLY\\s+)?${QID}`,
+  "i"
+)
+const ALTER_TABLE_RE = new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?${QID}\\s+([\\s\\S]*)$`, "i")
+
+const ACTION_PATTERNS: Array<{ re: RegExp; classify: (m: RegExpExecArray, table: string) => Statement | null }> = [
+  { re: /^(?:DROP|ADD)\s+(?:CONSTRAINT|INDEX|KEY|PRIMARY|FOREIGN|UNIQUE|CHECK|PARTITION)\b/i, classify: () => null },
+  { re: new RegExp(`^RENAME\\s+TO\\s+${QID}`, "i"), classify: (m, table) => ({ operation: "rename_table", table, newName: identifier(m[1]!) }) },
+  {
+    re: new RegExp(`^RENAME\\s+(?:COLUMN\\s+)?${QID}\\s+TO\\s+${QID}`, "i"),
+    classify: (m, table) => ({ operation: "rename_column", table, column: identifier(m[1]!), newName: identifier(m[2]!) }),
+  },
+  { re: new RegExp(`^DROP\\s+(?:COLUMN\\s+)?(?:IF\\s+EXISTS\\s+)?${QID}`, "i"), classify: (m, table) => ({ operation: "drop_column", table, column: identifier(m[1]!) }) },
+  {
+    re: new RegExp(`^ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?${QID}\\s+([\\s\\S]*)$`, "i"),
+    classify: (m, table) => /\bNOT\s+NULL\b/i.test(m[2]!) && !/\b(?:DEFAULT|GENERATED)\b/i.test(m[2]!)
+      ? { operation: "add_not_null_column", table, column: identifier(m[1]!) }
+      : null,
+  },
+  { re: new RegExp(`^ALTER\\s+(?:COLUMN\\s+)?${QID}\\s+SET\\s+NOT\\s+NULL\\b`, "i"), classify: (m, table) => ({ operation: "set_not_null", table, column: identifier(m[1]!) }) },
+  {
+    re: new RegExp(`^ALTER\\s+(?:COLUMN\\s+)?${QID}\\s+(?:SET\\s+DATA\\s+)?TYPE\\b`, "i"),
+    classify: (m, table) => ({ operation: "alter_column_type", table, column: identifier(m[1]!) }),
+  },
+  { re: new RegExp(`^MODIFY\\s+(?:COLUMN\\s+)?${QID}\\s`, "i"), classify: (m, table) => ({ operation: "alter_column_type", table, column: identifier(m[1]!) }) },
+  {
+    re: new RegExp(`^CHANGE\\s+(?:COLUMN\\s+)?${QID}\\s+${QID}\\s`, "i"),
+    classify: (m, table) => {
+      const from = identifier(m[1]!)
+      const to = identifier(m[2]!)
+      return from.toLowerCase() === to.toLowerCase()
+        ? { operation: "alter_column_type", table, column: from }
+        : { operation: "rename_column", table, column: from, newName: to }
+    },
+  },
+]
+
+/** Unquoted last part of a possibly schema-qualified identifier */
+function identifier(raw: string): string {
+  const last = raw.split(".").pop()!.trim()
+  return last.replace(/^["`[]|["`\]]$/g, "")
+}
+
+/** Split on commas outside parentheses and quotes */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let current = ""
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === "'" || ch === "\"" || ch === "`") {
+      quote = ch
+    } else if (ch === "(") {
+      depth++
+    } else if (ch === ")") {
+      depth--
+    } else if (ch === "," && depth === 0) {
+      parts.push(current)
+      current = ""
+      continue
+    }
+    current += ch
+  }
+  parts.push(current)
+  return parts.map((p) => p.trim()).filter(Boolean)
+}
+
+/** Classify one SQL statement; `created` collects tables the statement creates */
+function classifySql(sql: string, created: Set<string>): Statement[] {
+  const statement = sql.replace(/\s+/g, " ").trim()
+
+  const createTable = CREATE_TABLE_RE.exec(statement)
+  if (createTable) {
+    created.add(identifier(createTable[1]!).toLowerCase())
+    return []
+  }
+
+  const dropTable = DROP_TABLE_RE.exec(statement)
+  if (dropTable) {
+    return splitTopLevel(dropTable[1]!).map((name) => ({ operation: "drop_table" as const, table: identifier(name) }))
+  }
+
+  const renameTable = RENAME_TABLE_RE.exec(statement)
+  if (renameTable) {
+    return [{ operation: "rename_table", table: identifier(renameTable[1]!), newName: identifier(renameTable[2]!) }]
+  }
+
+  const createIndex = CREATE_INDEX_RE.exec(statement)
+  if (createIndex) {
+    return createIndex[1] ? [] : [{ operation: "blocking_index", table: identifier(createIndex[2]!) }]
+  }
+
+  const alter = ALTER_TABLE_RE.exec(statement)
+  if (!alter) return []
+  const table = identifier(alter[1]!)
+  const statements: Statement[] = []
+  for (const action of splitTopLevel(alter[2]!)) {
+    for (const pattern of ACTION_PATTERNS) {
+      const m = pattern.re.exec(action)
+      if (!m) continue
+      const classified = pattern.classify(m, table)
+      if (classified) statements.push(classified)
+      break
+    }
+  }
+  return statements
+}
+
+const SQL_DOWN_MARKER = /^\s*--\s*(?:migrate:down|\+goose\s+down)\b/i
+const SQL_UP_MARKER = /^\s*--\s*(?:migrate:up|\+goose\s+up)\b/i
+
+function parseSqlMigration(lines: SourceLine[], created: Set<string>): MigrationStatement[] {
+  const out: MigrationStatement[] = []
+  let buffer = ""
+  let start = 0
+  let added = false
+  let down = false
+
+  const flush = () => {
+    if (buffer.trim() && added && !down) {
+      for (const s of classifySql(buffer, created)) out.push({ ...s, line: start })
+    }
+    buffer = ""
+    added = false
+  }
+
+  for (const l of lines) {
+    if (SQL_DOWN_MARKER.test(l.text) || SQL_UP_MARKER.test(l.text)) {
+      flush()
+      down = SQL_DOWN_MARKER.test(l.text)
+      continue
+    }
+    const parts = l.text.replace(/--.*$/, "").split(";")
+    parts.forEach((part, i) => {
+      if (part.trim()) {
+        if (!buffer.trim()) start = l.line
+        buffer += ` ${part}`
+        if (l.added) added = true
+      }
+      if (i < parts.length - 1) flush()
+    })
+  }
+  flush()
+  return out
+}
+
+// ── Knex / Alembic / Rails ────────────────────────────────────
+
+const Q = "['\"`]"
+const SYM = "[:'\"]?(\\w+)['\"]?"
+
+/** Raw SQL embedded in a code statement (knex.raw, queryRunner.query, op.execute, execute) */
+function embeddedSql(text: string): string | null {
+  const literals: string[] = []
+  const re = /(["'`])((?:\\[\s\S]|(?!\1)[^\\])*)\1/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(text)) !== null) literals.push(m[2]!)
+  const sql = literals.join(" ")
+  return /\b(?:ALTER|DROP|CREATE|RENAME)\s/i.test(sql) ? sql : null
+}
+
+/**
+ * Merge lines until parentheses balance, so multi-line calls classify as one statement.
+ * A line opening a block (`alterTable("t", (table) => {`) ends the statement so the
+ * callback body stays line by line.
+ */
+function logicalLines(lines: SourceLine[]): SourceLine[] {
+  const out: SourceLine[] = []
+  let current: SourceLine | null = null
+  let depth = 0
+  for (const l of lines) {
+    const bare = l.text.replace(/(["'`])(?:\\[\s\S]|(?!\1)[^\\])*\1/g, "")
+    if (current) {
+      current.text += ` ${l.text.trim()}`
+      current.added ||= l.added
+    } else {
+      current = { ...l }
+    }
+    depth += (bare.match(/\(/g)?.length ?? 0) - (bare.match(/\)/g)?.length ?? 0)
+    if (depth <= 0 || /\{\s*$/.test(bare)) {
+      out.push(current)
+      current = null
+      depth = 0
+    }
+  }
+  if (current) out.push(current)
+  return out
+}
+
+const KNEX_DOWN = /\bexports\.down\b|\bfunction\s+down\s*\(|\basync\s+down\s*\(|\bdown\s*[:=]\s*(?:async\s*)?(?:\(|function)/
+const KNEX_UP = /\bexports\.up\b|\bfunction\s+up\s*\(|\basync\s+up\s*\(|\bup\s*[:=]\s*(?:async\s*)?(?:\(|function)/
+
+function parseKnexMigration(lines: SourceLine[], created: Set<string>): MigrationStatement[] {
+  const out: MigrationStatement[] = []
+  let down = false
+  let table = ""
+
+  for (const l of logicalLines(lines)) {
+    if (KNEX_DOWN.test(l.text)) down = true
+    else if (KNEX_UP.test(l.text)) down = false
+    if (down) continue
+
+    const context = new RegExp(`\\.(createTable|alterTable|table)\\(\\s*${Q}([\\w.]+)${Q}`).exec(l.text)
+    if (context) {
+      table = identifier(context[2]!)
+      if (context[1] === "createTable") created.add(table.toLowerCase())
+    }
+    if (!l.added) continue
+
+    const push = (s: Statement) => out.push({ ...s, line: l.line })
+    const sql = /\.(?:raw|query)\(/.test(l.text) ? embeddedSql(l.text) : null
+    if (sql) {
+      for (const s of classifySql(sql, created)) push(s)
+      continue
+    }
+
+    const dropTable = new RegExp(`\\.dropTable(?:IfExists)?\\(\\s*${Q}([\\w.]+)${Q}`).exec(l.text)
+    if (dropTable) push({ operation: "drop_table", table: identifier(dropTable[1]!) })
+    const renameTable = new RegExp(`\\.renameTable\\(\\s*${Q}([\\w.]+)${Q}\\s*,\\s*${Q}([\\w.]+)${Q}`).exec(l.text)
+    if (renameTable) push({ operation: "rename_table", table: identifier(renameTable[1]!), newName: identifier(renameTable[2]!) })
+    if (!table || dropTable || renameTable) continue
+
+    const dropColumns = /\.dropColumns?\(([^)]*)\)/.exec(l.text)
+    if (dropColumns) {
+      for (const name of dropColumns[1]!.match(/\w+(?=['"`])/g) ?? []) push({ operation: "drop_column", table, column: name })
+      continue
+    }
+    const renameColumn = new RegExp(`\\.renameColumn\\(\\s*${Q}(\\w+)${Q}\\s*,\\s*${Q}(\\w+)${Q}`).exec(l.text)
+    if (renameColumn) {
+      push({ operation: "rename_column", table, column: renameColumn[1]!, newName: renameColumn[2]! })
+      continue
+    }
+    const column = new RegExp(`^\\s*\\w+\\.\\w+\\(\\s*${Q}(\\w+)${Q}`).exec(l.text)?.[1]
+    if (column && /\.alter\(\)/.test(l.text)) {
+      push({ operation: "alter_column_type", table, column })
+      if (/\.notNullable\(\)/.test(l.text)) push({ operation: "set_not_null", table, column })
+    } else if (column && /\.notNullable\(\)/.test(l.text) && !/\.defaultTo\(/.test(l.text)) {
+      push({ operation: "add_not_null_column", table, column })
+    }
+    if (/\.(?:index|unique)\(/.test(l.text)) push({ operation: "blocking_index", table })
+  }
+  return out
+}
+
+function parseAlembicMigration(lines: SourceLine[], created: Set<string>): MigrationStatement[] {
+  const out: MigrationStatement[] = []
+  let down = false
+
+  for (const l of logicalLines(lines)) {
+    if (/^\s*def\s+downgrade\b/.test(l.text)) down = true
+    else if (/^\s*def\s+upgrade\b/.test(l.text)) down = false
+    if (down) continue
+
+    const createTable = new RegExp(`op\\.create_table\\(\\s*${Q}(\\w+)${Q}`).exec(l.text)
+    if (createTable) created.add(createTable[1]!.toLowerCase())
+    if (!l.added) continue
+
+    const push = (s: Statement) => out.push({ ...s, line: l.line })
+    let m: RegExpExecArray | null
+    if (/op\.execute\(/.test(l.text)) {
+      const sql = embeddedSql(l.text)
+      if (sql) for (const s of classifySql(sql, created)) push(s)
+    } else if ((m = new RegExp(`op\\.drop_table\\(\\s*${Q}(\\w+)${Q}`).exec(l.text))) {
+      push({ operation: "drop_table", table: m[1]! })
+    } else if ((m = new RegExp(`op\\.drop_column\\(\\s*${Q}(\\w+)${Q}\\s*,\\s*${Q}(\\w+)${Q}`).exec(l.text))) {
+      push({ operation: "drop_column", table: m[1]!, column: m[2]! })
+    } else if ((m = new RegExp(`op\\.rename_table\\(\\s*${Q}(\\w+)${Q}\\s*,\\s*${Q}(\\w+)${Q}`).exec(l.text))) {
+      push({ operation: "rename_table", table: m[1]!, newName: m[2]! })
+    } else if ((m = new RegExp(`op\\.alter_column\\(\\s*${Q}(\\w+)${Q}\\s*,\\s*${Q}(\\w+)${Q}(.*)`).exec(l.text))) {
+      const [, table, column, rest] = m as unknown as [string, string, string, string]
+      const rename = new RegExp(`new_column_name\\s*=\\s*${Q}(\\w+)${Q}`).exec(rest)
+      if (rename) push({ operation: "rename_column", table, column, newName: rename[1]! })
+      if (/\btype_\s*=/.test(rest)) push({ operation: "alter_column_type", table, column })
+      if (/\bnullable\s*=\s*False\b/.test(rest)) push({ operation: "set_not_null", table, column })
+    } else if ((m = new RegExp(`op\\.add_column\\(\\s*${Q}(\\w+)${Q}\\s*,\\s*sa\\.Column\\(\\s*${Q}(\\w+)${Q}(.*)`).exec(l.text))) {
+      if (/\bnullable\s*=\s*False\b/.test(m[3]!) && !/\bserver_default\s*=/.test(m[3]!)) {
+        push({ operation: "add_not_null_column", table: m[1]!, column: m[2]! })
+      }
+    } else if ((m = new RegExp(`op\\.create_index\\(\\s*(?:op\\.f\\(\\s*)?${Q}[\\w.]+${Q}\\s*\\)?\\s*,\\s*${Q}(\\w+)${Q}`).exec(l.text))) {
+      if (!/postgresql_concurrently\s*=\s*True/.test(l.text)) push({ operation: "blocking_index", table: m[1]! })
+    }
+  }
+  return out
+}
+
+function parseRailsMigration(lines: SourceLine[], created: Set<string>): MigrationStatement[] {
+  const out: MigrationStatement[] = []
+  let down = false
+  let changeTable = ""
+  let heredoc: { tag: string; sql: string; line: number; added: boolean } | null = null
+
+  for (const l of lines) {
+    if (heredoc) {
+      if (l.text.trim() === heredoc.tag) {
+        if (heredoc.added && !down) for (const s of classifySql(heredoc.sql, created)) out.push({ ...s, line: heredoc.line })
+        heredoc = null
+      } else {
+        heredoc.sql += `\n${l.text}`
+        heredoc.added ||= l.added
+      }
+      continue
+    }
+    if (/^\s*def\s+down\b/.test(l.text)) down = true
+    else if (/^\s*def\s+(?:up|change)\b/.test(l.text)) down = false
+    if (down) continue
+
+    const createTable = new RegExp(`^\\s*create_table\\s+${SYM}`).exec(l.text)
+    if (createTable) created.add(createTable[1]!.toLowerCase())
+    const changeBlock = new RegExp(`^\\s*change_table\\s+${SYM}`).exec(l.text)
+    if (changeBlock) changeTable = changeBlock[1]!
+    else if (/^\s*end\b/.test(l.text)) changeTable = ""
+
+    const heredocStart = /\bexecute\s*\(?\s*<<[~-]?['"]?(\w+)/.exec(l.text)
+    if (heredocStart) {
+      heredoc = { tag: heredocStart[1]!, sql: "", line: l.line, added: l.added }
+      continue
+    }
+    if (!l.added) continue
+
+    const push = (s: Statement) => out.push({ ...s, line: l.line })
+    let m: RegExpExecArray | null
+    if (/^\s*execute\b/.test(l.text)) {
+      const sql = embeddedSql(l.text)
+      if (sql) for (const s of classifySql(sql, created)) push(s)
+    } else if ((m = new RegExp(`^\\s*drop_table\\s+${SYM}`).exec(l.text))) {
+      push({ operation: "drop_table", table: m[1]! })
+    } else if ((m = new RegExp(`^\\s*remove_columns?\\s+${SYM}\\s*,\\s*(.*)$`).exec(l.text))) {
+      // remove_column :t, :c, :type — remove_columns :t, :a, :b
+      const names = Array.from(m[2]!.matchAll(/[:'"](\w+)/g), (c) => c[1]!)
+      for (const column of /remove_columns/.test(l.text) ? names : names.slice(0, 1)) push({ operation: "drop_column", table: m[1]!, column })
+    } else if ((m = new RegExp(`^\\s*rename_column\\s+${SYM}\\s*,\\s*${SYM}\\s*,\\s*${SYM}`).exec(l.text))) {
+      push({ operation: "rename_column", table: m[1]!, column: m[2]!, newName: m[3]! })
+    } else if ((m = new RegExp(`^\\s*rename_table\\s+${SYM}\\s*,\\s*${SYM}`).exec(l.text))) {
+      push({ operation: "rename_table", table: m[1]!, newName: m[2]! })
+    } else if ((m = new RegExp(`^\\s*change_column_null\\s+${SYM}\\s*,\\s*${SYM}\\s*,\\s*false\\b`).exec(l.text))) {
+      push({ operation: "set_not_null", table: m[1]!, column: m[2]! })
+    } else if ((m = new RegExp(`^\\s*change_column\\s+${SYM}\\s*,\\s*${SYM}`).exec(l.text))) {
+      push({ operation: "alter_column_type", table: m[1]!, column: m[2]! })
+    } else if ((m = new RegExp(`^\\s*add_column\\s+${SYM}\\s*,\\s*${SYM}(.*)$`).exec(l.text))) {
+      if (/\bnull:\s*false\b/.test(m[3]!) && !/\bdefault:/.test(m[3]!)) push({ operation: "add_not_null_column", table: m[1]!, column: m[2]! })
+    } else if ((m = new RegExp(`^\\s*add_index\\s+${SYM}`).exec(l.text))) {
+      if (!/algorithm:\s*:concurrently/.test(l.text)) push({ operation: "blocking_index", table: m[1]! })
+    } else if (changeTable && (m = new RegExp(`^\\s*\\w+\\.remove\\s+(.*)$`).exec(l.text))) {
+      for (const c of m[1]!.matchAll(/[:'"](\w+)/g)) push({ operation: "drop_column", table: changeTable, column: c[1]! })
+    } else if (changeTable && (m = new RegExp(`^\\s*\\w+\\.rename\\s+${SYM}\\s*,\\s*${SYM}`).exec(l.text))) {
+      push({ operation: "rename_column", table: changeTable, column: m[1]!, newName: m[2]! })
+    }
+  }
+  return out
+}
+
+/** Classify the added statements of one migration file's diff hunks */
+export function extractMigrationStatements(framework: MigrationFramework, hunks: DiffLine[][]): MigrationStatement[] {
+  const lines: SourceLine[] = []
+  for (const hunk of hunks) {
+    for (const l of hunk) {
+      if (l.type === "-") continue
+      lines.push({ text: l.text, line: l.newLine ?? 1, added: l.type === "+" })
+    }
+  }
+
+  const created = new Set<string>()
+  const statements = framework === "knex"
+    ? parseKnexMigration(lines, created)
+    : framework === "alembic"
+      ? parseAlembicMigration(lines, created)
+      : framework === "rails"
+        ? parseRailsMigration(lines, created)
+        : parseSqlMigration(lines, created)
+
+  // Changes to a table the same migration creates can't break anything yet
+  return statements.filter((s) => !created.has(s.table.toLowerCase()))
+}
+
+// ── Graph cross-reference ─────────────────────────────────────
+
+interface TableIndex {
+  entities: Map<string, EntityDoc>
+  tables: Map<string, EntityDoc[]>
+}
+
+async function loadTableIndex(orgId: string, repoId: string, graphStore: IGraphStore): Promise<TableIndex> {
+  const all = await loadAllEntities(graphStore, orgId, repoId)
+  const entities = new Map(all.map((e) => [e.id, e]))
+  const tables = new Map<string, EntityDoc[]>()
+  const add = (name: string, table: EntityDoc) => {
+    const key = name.toLowerCase()
+    tables.set(key, [...(tables.get(key) ?? []), table])
+  }
+  for (const e of all) {
+    if (e.kind !== "table" && e.kind !== "view") continue
+    add(e.name, e)
+    const mapped = decorators(e).map((d) => /^@@map\(\s*"([^"]+)"/.exec(d)?.[1]).find(Boolean)
+    if (mapped) add(mapped, e)
+  }
+  return { entities, tables }
+}
+
+function decorators(entity: EntityDoc): string[] {
+  return Array.isArray(entity.decorators) ? (entity.decorators as unknown[]).filter((d): d is string => typeof d === "string") : []
+}
+
+/** Names code may use for a column: the DB name, its camelCase form and Prisma field names mapped to it */
+function columnIdentifiers(column: string, tables: EntityDoc[], index: TableIndex): string[] {
+  const ids = new Set([column, column.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase())])
+  const tableNames = new Set(tables.map((t) => t.name))
+  for (const e of Array.from(index.entities.values())) {
+    if (e.kind !== "column" || !tableNames.has(String(e.parent ?? ""))) continue
+    const mapped = decorators(e).map((d) => /^@map\(\s*"([^"]+)"/.exec(d)?.[1]).find(Boolean)
+    if (e.name.toLowerCase() === column.toLowerCase() || mapped?.toLowerCase() === column.toLowerCase()) ids.add(e.name)
+  }
+  return Array.from(ids)
+}
+
+async function findReaders(
+  orgId: string,
+  statement: MigrationStatement,
+  index: TableIndex,
+  graphStore: IGraphStore,
+  skipFiles: Set<string>
+): Promise<MigrationFinding["readers"]> {
+  const scope = OPERATION_RISK[statement.operation].readers
+  const tables = index.tables.get(statement.table.toLowerCase()) ?? []
+  if (!scope || tables.length === 0) return []
+
+  const tableIds = new Set(tables.map((t) => t.id))
+  const edgeKinds = scope === "writers" ? ["writes_table"] : ["reads_table", "writes_table"]
+  const patterns = scope === "column" && statement.column
+    ? columnIdentifiers(statement.column, tables, index).map((id) => new RegExp(`\\b${id.replace(/[$]/g, "\\$")}\\b`, "i"))
+    : []
+
+  const readers: MigrationFinding["readers"] = []
+  const seen = new Set<string>()
+  for (const edge of await graphStore.getEdgesForEntities(orgId, Array.from(tableIds))) {
+    if (!edgeKinds.includes(edge.kind) || !tableIds.has(edge._to.split("/").pop()!)) continue
+    const entity = index.entities.get(edge._from.split("/").pop()!)
+    if (!entity || seen.has(entity.id)) continue
+    if (skipFiles.has(entity.file_path) || detectMigrationFramework(entity.file_path)) continue
+    if (patterns.length > 0) {
+      const source = `${typeof entity.signature === "string" ? entity.signature : ""}\n${typeof entity.body === "string" ? entity.body : ""}`
+      if (!patterns.some((p) => p.test(source))) continue
+    }
+    seen.add(entity.id)
+    readers.push({ name: entity.name, kind: entity.kind, filePath: entity.file_path })
+    if (readers.length >= MAX_READERS) break
+  }
+  return readers
+}
+
+// ── Messages ──────────────────────────────────────────────────
+
+function describe(s: MigrationStatement, framework: MigrationFramework): string {
+  const target = s.column ? `\`${s.table}.${s.column}\`` : `\`${s.table}\``
+  switch (s.operation) {
+    case "drop_table":
+      return `Dropping table ${target} deletes its data, and code deployed before the migration fails on its next query. Remove every read and write in an earlier deploy, then drop the table.`
+    case "drop_column":
+      return `Dropping ${target} breaks code deployed before the migration that still selects or writes it. Stop using the column (and remove it from ORM models) in an earlier deploy, then drop it.`
+    case "rename_table":
+    case "rename_column":
+      return `Renaming ${target} to \`${s.newName}\` breaks running code that still uses the old name. Add the new ${s.column ? "column" : "table"}, backfill and dual-write, then drop the old one in a later deploy.`
+    case "alter_column_type":
+      return `Changing the type of ${target} can rewrite the table under an ACCESS EXCLUSIVE lock, blocking reads and writes until it finishes. Add a new column, backfill in batches and switch over instead.`
+    case "add_not_null_column":
+      return `Adding ${target} as NOT NULL without a default fails on a non-empty table and rejects inserts from code deployed before the migration. Add a default, or add the column nullable, backfill, then set NOT NULL.`
+    case "set_not_null":
+      return `Setting ${target} NOT NULL scans the whole table under an ACCESS EXCLUSIVE lock. Add a \`CHECK (${s.column} IS NOT NULL) NOT VALID\` constraint, validate it, then set NOT NULL (Postgres 12+ skips the scan).`
+    case "blocking_index": {
+      const hint = framework === "rails"
+        ? " (`algorithm: :concurrently` with `disable_ddl_transaction!`)"
+        : framework === "alembic"
+          ? " (`postgresql_concurrently=True` inside `op.get_context().autocommit_block()`)"
+          : " (it cannot run inside a transaction)"
+      return `Creating an index on ${target} without CONCURRENTLY blocks writes to the table until the build finishes. Build it concurrently${hint}.`
+    }
+  }
+}
+
+// ── Check ─────────────────────────────────────────────────────
+
+export async function runMigrationCheck(
+  orgId: string,
+  repoId: string,
+  rawDiff: string,
+  graphStore: IGraphStore,
+  config: ReviewConfig
+): Promise<MigrationFinding[]> {
+  if (!config.checksEnabled.migration) return []
+
+  const migrations: Array<{ filePath: string; framework: MigrationFramework; statements: MigrationStatement[] }> = []
+  for (const [filePath, hunks] of Array.from(parseDiffLines(rawDiff))) {
+    const framework = detectMigrationFramework(filePath)
+    if (!framework || config.ignorePaths.some((p) => filePath.startsWith(p) || filePath.match(new RegExp(p)))) continue
+    const statements = extractMigrationStatements(framework, hunks)
+    if (statements.length > 0) migrations.push({ filePath, framework, statements })
+  }
+  if (migrations.length === 0) return []
+
+  // Code in files this PR deletes no longer reads anything
+  const deletedFiles = new Set(Array.from(rawDiff.matchAll(/^--- a\/(.+)\n\+\+\+ \/dev\/null$/gm), (m) => m[1]!))
+  let index: TableIndex | null = null
+
+  const findings: MigrationFinding[] = []
+  for (const { filePath, framework, statements } of migrations) {
+    for (const statement of statements) {
+      const risk = OPERATION_RISK[statement.operation]
+      let readers: MigrationFinding["readers"] = []
+      if (risk.readers) {
+        try {
+          index ??= await loadTableIndex(orgId, repoId, graphStore)
+          readers = await findReaders(orgId, statement, index, graphStore, deletedFiles)
+        } catch {
+          // Graph unavailable — report the statement without readers
+        }
+      }
+
+      const who = readers.length > 0
+        ? ` ${readers.length}${readers.length === MAX_READERS ? "+" : ""} code entit${readers.length === 1 ? "y" : "ies"} on the base branch still ${readers.length === 1 ? "uses" : "use"} it.`
+        : ""
+
+      findings.push({
+        filePath,
+        line: statement.line,
+        framework,
+        operation: statement.operation,
+        table: statement.table,
+        column: statement.column,
+        lock: risk.lock,
+        compatibility: risk.compatibility,
+        readers,
+        severity: risk.compatibility === "breaking" && readers.length > 0 ? "error" : "warning",
+        message: `${describe(statement, framework)}${who}`,
+      })
+    }
+  }
+
+  return findings
+}
@@ -1,11 +1,14 @@
 /**
  * Pattern check — runs Semgrep rules against changed files,
  * filtering to only report violations on changed lines.
+ * Findings with a Semgrep fix or a rule astGrepFix carry a whole-line
+ * auto-fix so the review can post a suggestion block.
  */
 
 import type { IGraphStore } from "@/lib/ports/graph-store"
-import type { IPatternEngine } from "@/lib/ports/pattern-engine"
-import type { PatternFinding, ReviewConfig } from "@/lib/ports/types"
+import type { IPatternEngine, PatternMatch } from "@/lib/ports/pattern-engine"
+import type { PatternFinding, ReviewConfig, RuleDoc } from "@/lib/ports/types"
+import { buildLineSuggestion, rewriteWithPattern } from "@/lib/rules/auto-remediation"
 import type { DiffFile } from "../diff-analyzer"
 import { isLineInChangedRange } from "../diff-analyzer"
 
@@ -16,7 +19,9 @@ export async function runPatternCheck(
   workspacePath: string,
   graphStore: IGraphStore,
   patternEngine: IPatternEngine,
-  config: ReviewConfig
+  config: ReviewConfig,
+  /** Rules declared in the repo's `.unerr/rules/*.yml` */
+  repoRules: RuleDoc[] = []
 ): Promise<PatternFinding[]> {
   if (!config.checksEnabled.pattern) return []
 
@@ -28,7 +33,7 @@ export async function runPatternCheck(
       status: "active",
     })
 
-    const rulesWithSemgrep = rules.filter((r) => r.semgrepRule)
+    const rulesWithSemgrep = [...rules, ...repoRules.filter((r) => r.status === "active")].filter((r) => r.semgrepRule)
     if (rulesWithSemgrep.length === 0) return []
 
     // Build temporary Semgrep config from rules
@@ -41,6 +46,19 @@ export async function runPatternCheck(
 
     // Map to PatternFinding, filtering to only changed lines
     const findings: PatternFinding[] = []
+    const fs = await import("node:fs")
+    const path = await import("node:path")
+    const fileCache = new Map<string, string | null>()
+    const readFile = (filePath: string): string | null => {
+      if (!fileCache.has(filePath)) {
+        try {
+          fileCache.set(filePath, fs.readFileSync(path.join(workspacePath, filePath), "utf-8"))
+        } catch {
+          fileCache.set(filePath, null)
+        }
+      }
+      return fileCache.get(filePath) ?? null
+    }
     for (const match of matches) {
       const filePath = match.file.startsWith(workspacePath)
         ? match.file.slice(workspacePath.length + 1)
@@ -53,18 +71,21 @@ export async function runPatternCheck(
       if (config.ignorePaths.some((p) => filePath.startsWith(p) || filePath.match(new RegExp(p)))) continue
 
       const rule = rulesWithSemgrep.find((r) => r.id === match.ruleId || r.name === match.ruleId)
+      const fix = buildAutoFix(match, rule, readFile(filePath))
+      // Suggestions can only replace lines inside the diff
+      const autoFix = fix && isLineInChangedRange(diffFiles, filePath, fix.endLine) ? fix : null
 
       findings.push({
         ruleId: rule?.id ?? match.ruleId ?? "unknown",
         ruleTitle: rule?.title ?? match.ruleId ?? "Pattern violation",
         filePath,
-        line: match.line,
-        endLine: undefined,
+        line: autoFix?.startLine ?? match.line,
+        endLine: autoFix?.endLine,
         message: match.message ?? rule?.description ?? "Pattern violation detected",
         severity: rule?.enforcement === "block" ? "error" : rule?.enforcement === "warn" ? "warning" : "info",
         suggestion: rule?.astGrepFix ?? null,
         semgrepRuleId: rule?.name,
-        autoFix: null,
+        autoFix: autoFix ? { fixedCode: autoFix.replacement, confidence: autoFix.confidence, originalCode: autoFix.original } : null,
       })
     }
 
@@ -77,3 +98,48 @@ export async function runPatternCheck(
     return []
   }
 }
+
+/**
+ * Whole-line replacement for a match: Semgrep's own fix is exact; a rule
+ * astGrepFix is applied by binding the rule's ast-grep pattern metavariables.
+ */
+function buildAutoFix(
+  match: PatternMatch,
+  rule: RuleDoc | undefined,
+  content: string | null
+): { startLine: number; endLine: number; replacement: string; original: string; confidence: number } | null {
+  if (content === null || (!match.fix && !rule?.astGrepFix)) return null
+
+  const lines = content.split("\n")
+  const endLine = match.endLine ?? match.line
+  const range = {
+    line: match.line,
+    column: match.column ?? 1,
+    endLine,
+    endColumn: match.endColumn ?? (lines[endLine - 1]?.length ?? 0) + 1,
+  }
+
+  let replacement: string | null = match.fix ?? null
+  let confidence = 1
+  if (replacement === null && rule?.astGrepFix) {
+    const matched = sliceRange(lines, range)
+    replacement = rule.astGrepQuery
+      ? rewriteWithPattern(matched, rule.astGrepQuery, rule.astGrepFix)
+      : rule.astGrepFix.includes("$") ? null : rule.astGrepFix
+    confidence = 0.9
+  }
+  if (replacement === null) return null
+
+  const suggestion = buildLineSuggestion(content, range, replacement)
+  return suggestion
+    ? { ...suggestion, original: lines.slice(suggestion.startLine - 1, suggestion.endLine).join("\n"), confidence }
+    : null
+}
+
+function sliceRange(lines: string[], range: { line: number; column: number; endLine: number; endColumn: number }): string {
+  const selected = lines.slice(range.line - 1, range.endLine)
+  if (selected.length === 0) return ""
+  selected[selected.length - 1] = selected[selected.length - 1]!.slice(0, Math.max(range.endColumn - 1, 0))
+  selected[0] = selected[0]!.slice(Math.max(range.column - 1, 0))
+  return selected.join("\n")
+}
@@ -4,12 +4,14 @@
  */
 
 import type {
+  ArchitectureFinding,
   ComplexityFinding,
   ContractFinding,
   DependencyFinding,
   EnvFinding,
   IdempotencyFinding,
   ImpactFinding,
+  MigrationFinding,
   PatternFinding,
   ReviewConfig,
   TestFinding,
@@ -20,8 +22,14 @@ export interface ReviewComment {
   path: string
   line: number
   body: string
-  checkType: "pattern" | "impact" | "test" | "complexity" | "dependency" | "trustBoundary" | "idempotency" | "env" | "contract"
+  checkType: "pattern" | "impact" | "test" | "complexity" | "dependency" | "trustBoundary" | "idempotency" | "env" | "contract" | "architecture" | "migration"
   severity: "info" | "warning" | "error"
+  /** Rule behind a pattern finding — lets replies in the thread address the rule */
+  ruleTitle?: string
+  /** First line of a multi-line comment; a suggestion block replaces startLine..line */
+  startLine?: number
+  /** Replacement lines of the suggestion block, if the comment carries one */
+  autoFix?: string
 }
 
 export interface ReviewResult {
@@ -47,18 +55,25 @@ export function buildReviewResult(
   trustBoundaryFindings: TrustBoundaryFinding[] = [],
   envFindings: EnvFinding[] = [],
   contractFindings: ContractFinding[] = [],
-  idempotencyFindings: IdempotencyFinding[] = []
+  idempotencyFindings: IdempotencyFinding[] = [],
+  architectureFindings: ArchitectureFinding[] = [],
+  migrationFindings: MigrationFinding[] = []
 ): ReviewResult {
   const comments: ReviewComment[] = []
 
   // Pattern findings
   for (const f of patternFindings) {
+    const fix = f.autoFix && f.autoFix.confidence >= 0.9 ? f.autoFix : null
+    const endLine = fix && f.endLine && f.endLine > f.line ? f.endLine : undefined
     comments.push({
       path: f.filePath,
-      line: f.line,
+      line: endLine ?? f.line,
+      startLine: endLine ? f.line : undefined,
       body: formatPatternComment(f),
       checkType: "pattern",
       severity: f.severity,
+      ruleTitle: f.ruleTitle,
+      autoFix: fix?.fixedCode,
     })
   }
 
@@ -150,6 +165,28 @@ export function buildReviewResult(
     })
   }
 
+  // Architecture layer findings
+  for (const f of architectureFindings) {
+    comments.push({
+      path: f.filePath,
+      line: f.line,
+      body: formatArchitectureComment(f),
+      checkType: "architecture",
+      severity: f.severity,
+    })
+  }
+
+  // Migration safety findings
+  for (const f of migrationFindings) {
+    comments.push({
+      path: f.filePath,
+      line: f.line,
+      body: formatMigrationComment(f),
+      checkType: "migration",
+      severity: f.severity,
+    })
+  }
+
   // Count severities
   const checksFailed = comments.filter((c) => c.severity === "error").length
   const checksWarned = comments.filter((c) => c.severity === "warning").length
@@ -221,7 +258,7 @@ function formatPatternComment(f: PatternFinding): string {
 
   if (f.autoFix && f.autoFix.confidence >= 0.9) {
     body += `\n\n\`\`\`suggestion\n${f.autoFix.fixedCode}\n\`\`\``
-    body += `\n\n<sub>Auto-fix by ast-grep · Rule: \`${f.semgrepRuleId ?? f.ruleId}\`</sub>`
+    body += `\n\n<sub>Auto-fix · Rule: \`${f.semgrepRuleId ?? f.ruleId}\`</sub>`
   } else if (f.suggestion) {
     body += `\n\n**Suggestion:** ${f.suggestion}`
   }
@@ -251,17 +288,38 @@ function formatTrustBoundaryComment(f: TrustBoundaryFinding): string {
 }
 
 function formatEnvComment(f: EnvFinding): string {
-  return `⚠️ **Missing Env Var in .env.example**\n\n${f.message}`
+  const title = f.missingFrom === "manifests" ? "Env Var Not Set in Deployment Manifests" : "Missing Env Var in .env.example"
+  return `⚠️ **${title}**\n\n${f.message}`
 }
 
 function formatContractComment(f: ContractFinding): string {
-  return `⚠️ **API Contract Risk**\n\n${f.message}`
+  if (!f.breakingChange) return `⚠️ **API Contract Risk**\n\n${f.message}`
+  const consumers = (f.consumers ?? [])
+    .slice(0, 10)
+    .map((c) => `- \`${c.name}\` (${c.kind}) in \`${c.filePath}\``)
+    .join("\n")
+  return `⚠️ **Breaking API Contract Change**\n\n${f.message}${consumers ? `\n\n**Downstream consumers:**\n${consumers}` : ""}`
 }
 
 function formatIdempotencyComment(f: IdempotencyFinding): string {
   return `⚠️ **Idempotency Risk**\n\n${f.message}`
 }
 
+function formatArchitectureComment(f: ArchitectureFinding): string {
+  const icon = f.severity === "error" ? "⛔" : f.severity === "warning" ? "⚠️" : "ℹ️"
+  return `${icon} **Layer Violation: ${f.fromLayer} → ${f.toLayer}**\n\n${f.message}\n\n_Target: \`${f.target.filePath}\`_`
+}
+
+function formatMigrationComment(f: MigrationFinding): string {
+  const icon = f.severity === "error" ? "⛔" : "⚠️"
+  const target = f.column ? `${f.table}.${f.column}` : f.table
+  const lock = f.lock === "access_exclusive" ? "ACCESS EXCLUSIVE (blocks reads and writes)" : "SHARE (blocks writes)"
+  const readers = f.readers
+    .map((r) => `- \`${r.name}\` (${r.kind}) in \`${r.filePath}\``)
+    .join("\n")
+  return `${icon} **Unsafe Migration: ${f.operation.replace(/_/g, " ")} \`${target}\`**\n\n${f.message}\n\n**Lock:** ${lock} · **Compatibility:** ${f.compatibility === "breaking" ? "breaks code deployed before the migration" : "compatible with deployed code"}${readers ? `\n\n**Code still using it:**\n${readers}` : ""}`
+}
+
 /**
  * Count suggestion comments for auto-fix (Click-to-Commit).
  * Returns the count of suggestion comments generated.
@@ -0,0 +1,375 @@
+/**
+ * Review conversation — answers replies and `@unerr` commands on PR review comments.
+ *
+ * Commands:
+ *   @unerr explain                       why the finding in this thread fired, with graph context
+ *   @unerr ignore <rule> [for N days] …  TTL exception via the exception ledger (write access only)
+ *   @unerr re-review                     start a fresh review of the PR head
+ *   @unerr <question>                    free-form question answered with graph context
+ *
+ * A reply without a mention in the thread of an unerr finding is treated as
+ * a question about that finding.
+ */
+
+import type { Container } from "@/lib/di/container"
+import { getModelForGroup } from "@/lib/llm/config"
+import type { IGitHost } from "@/lib/ports/git-host"
+import type { EntityDoc, PrReviewCommentRecord, PrReviewRecord, RuleDoc } from "@/lib/ports/types"
+import { createException } from "@/lib/rules/exception-ledger"
+import { type HealthEvent, incrementRuleHealth } from "@/lib/rules/health-ledger"
+import { resolveRules } from "@/lib/rules/resolver"
+
+export type ReviewCommand =
+  | { kind: "explain" }
+  | { kind: "ignore"; target?: string; rest: string; ttlDays?: number }
+  | { kind: "re_review" }
+  | { kind: "ask"; question: string }
+
+export interface ReviewConversationInput {
+  orgId: string
+  repoId: string
+  owner: string
+  repo: string
+  prNumber: number
+  installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
+  commentId: number
+  body: string
+  author: string
+  /** Present for replies on inline review comments */
+  thread?: { path: string; line: number | null; rootCommentId: number }
+}
+
+export interface ReviewConversationResult {
+  action: "explained" | "ignored" | "re_review" | "answered" | "skipped"
+  reason?: string
+  reply?: string
+}
+
+const MENTION = /(^|\s)@unerr\b/i
+const DEFAULT_TTL_DAYS = 30
+const MAX_TTL_DAYS = 90
+
+const HELP = "Commands: `@unerr explain` · `@unerr ignore <rule> [for N days] <reason>` · `@unerr re-review` · `@unerr <question>`"
+
+/**
+ * Parse an `@unerr` command from a comment body. Null when unerr is not mentioned.
+ */
+export function parseReviewCommand(body: string): ReviewCommand | null {
+  const match = MENTION.exec(body)
+  if (!match) return null
+  const text = body.slice(match.index + match[0].length).trim()
+  const [word = "", ...restWords] = text.split(/\s+/)
+  const rest = restWords.join(" ")
+
+  switch (word.toLowerCase()) {
+    case "":
+    case "explain":
+    case "why":
+      return { kind: "explain" }
+    case "re-review":
+    case "rereview":
+    case "review":
+      return { kind: "re_review" }
+    case "ignore": {
+      let remaining = rest
+      let ttlDays: number | undefined
+      const ttl = /\bfor\s+(\d+)\s*(?:d|days?)\b/i.exec(remaining)
+      if (ttl) {
+        ttlDays = Number(ttl[1])
+        remaining = (remaining.slice(0, ttl.index) + remaining.slice(ttl.index + ttl[0].length)).replace(/\s+/g, " ").trim()
+      }
+      const quoted = /^["'`]([^"'`]+)["'`]\s*(.*)$/.exec(remaining)
+      if (quoted) return { kind: "ignore", target: quoted[1]!.trim(), rest: quoted[2]!.trim(), ttlDays }
+      const [target, ...reason] = remaining.split(/\s+/).filter(Boolean)
+      return { kind: "ignore", target, rest: reason.join(" "), ttlDays }
+    }
+    default:
+      return { kind: "ask", question: text }
+  }
+}
+
+/**
+ * Handle one comment: resolve the thread's finding, act on the command and
+ * reply in-thread (or on the PR for top-level comments).
+ */
+export async function handleReviewConversation(
+  container: Container,
+  gitHost: IGitHost,
+  input: ReviewConversationInput
+): Promise<ReviewConversationResult> {
+  const parsed = parseReviewCommand(input.body)
+  const review = await latestReview(container, input.repoId, input.prNumber)
+  const findings = review ? await container.relationalStore.listPrReviewComments(review.id) : []
+  // Only threads rooted at a comment unerr posted belong to a finding
+  const finding = input.thread
+    ? await container.relationalStore.getPrReviewCommentByGithubId(input.repoId, input.thread.rootCommentId)
+    : null
+
+  // Unmentioned replies only get an answer in the thread of an unerr finding
+  const command: ReviewCommand | null = parsed ?? (finding ? { kind: "ask", question: input.body.trim() } : null)
+  if (!command) return { action: "skipped", reason: "Not addressed to unerr" }
+
+  let result: ReviewConversationResult
+  switch (command.kind) {
+    case "explain":
+      result = await explain(container, input, finding)
+      break
+    case "ignore":
+      result = await ignore(container, gitHost, input, command, finding, findings)
+      break
+    case "re_review":
+      result = await reReview(container, gitHost, input)
+      break
+    case "ask":
+      result = await answer(container, input, command.question, finding)
+      break
+  }
+
+  if (result.reply) {
+    if (input.thread) {
+      await gitHost.replyToReviewComment(input.owner, input.repo, input.prNumber, input.thread.rootCommentId, result.reply)
+    } else {
+      await gitHost.postIssueComment(input.owner, input.repo, input.prNumber, result.reply)
+    }
+  }
+  return result
+}
+
+// ── Commands ───────────────────────────────────────────────
+
+async function explain(
+  container: Container,
+  input: ReviewConversationInput,
+  finding: PrReviewCommentRecord | null
+): Promise<ReviewConversationResult> {
+  if (!finding) {
+    return {
+      action: "explained",
+      reply: `I couldn't find an unerr finding for this thread. Reply to one of my review comments, or ask a question directly.\n\n${HELP}`,
+    }
+  }
+
+  const rule = finding.ruleTitle ? await findRule(container, input, finding.ruleTitle, finding.filePath) : null
+  const context = await graphContext(container, input, finding.filePath, finding.lineNumber)
+
+  const lines = [`**Why this was flagged** — \`${finding.filePath}:${finding.lineNumber}\` (${finding.checkType}, ${finding.severity})`]
+  if (rule) {
+    lines.push("", `**Rule:** ${rule.title} (${rule.enforcement})`, rule.description)
+  }
+  if (context) lines.push("", context.summary)
+  lines.push("", `If this is intentional: \`@unerr ignore ${rule ? ruleRef(rule) : "<rule>"} <reason>\``)
+  return { action: "explained", reply: lines.join("\n") }
+}
+
+async function ignore(
+  container: Container,
+  gitHost: IGitHost,
+  input: ReviewConversationInput,
+  command: Extract<ReviewCommand, { kind: "ignore" }>,
+  finding: PrReviewCommentRecord | null,
+  findings: PrReviewCommentRecord[]
+): Promise<ReviewConversationResult> {
+  // Exceptions silence a rule for everyone, so only people who could merge past it may add one
+  const permission = await gitHost.getCollaboratorPermission(input.owner, input.repo, input.author)
+  if (permission !== "admin" && permission !== "write") {
+    return {
+      action: "skipped",
+      reason: "Not authorized",
+      reply: `@${input.author} only collaborators with write access can ignore rules. Ask a maintainer to run \`@unerr ignore\` if this should be an exception.`,
+    }
+  }
+
+  const rules = await resolveRules(container, { orgId: input.orgId, repoId: input.repoId })
+
+  let rule = command.target ? matchRule(rules, command.target) : null
+  let reason = command.rest
+  if (!rule && finding?.ruleTitle) {
+    // "@unerr ignore this is intentional" in a finding thread — the rule is the thread's
+    rule = matchRule(rules, finding.ruleTitle)
+    reason = [command.target, command.rest].filter(Boolean).join(" ")
+  }
+  if (!rule) {
+    return {
+      action: "skipped",
+      reason: "Rule not found",
+      reply: `I couldn't find a rule matching \`${command.target ?? ""}\`. Use the rule name or id, e.g. \`@unerr ignore ${rules[0] ? ruleRef(rules[0]) : "no-direct-db-access"} <reason>\`.`,
+    }
+  }
+  if (!reason) {
+    return { action: "skipped", reason: "Missing reason", reply: `Please add a reason: \`@unerr ignore ${ruleRef(rule)} <reason>\`.` }
+  }
+
+  // Scope: this thread's file, or every file in the PR where the rule fired
+  const files = input.thread
+    ? [input.thread.path]
+    : Array.from(new Set(findings.filter((f) => f.ruleTitle === rule.title).map((f) => f.filePath)))
+  if (files.length === 0) {
+    return { action: "skipped", reason: "Rule not triggered", reply: `**${rule.title}** didn't flag anything in this PR — nothing to ignore.` }
+  }
+
+  const ttlDays = Math.min(Math.max(command.ttlDays ?? DEFAULT_TTL_DAYS, 1), MAX_TTL_DAYS)
+  let expiresAt = ""
+  for (const filePath of files) {
+    const exception = await createException(container, input.orgId, rule.id, {
+      filePath,
+      reason,
+      createdBy: input.author,
+      ttlDays,
+    })
+    expiresAt = exception.expires_at
+  }
+  const event: HealthEvent = /false[\s-]?positive/i.test(reason) ? "false_positive" : "overridden"
+  await incrementRuleHealth(container, input.orgId, rule.id, event)
+
+  return {
+    action: "ignored",
+    reply: `Ignoring **${rule.title}** in ${files.map((f) => `\`${f}\``).join(", ")} until ${expiresAt.slice(0, 10)} (${ttlDays} days).\n\n> ${reason}\n\nRecorded as ${event === "false_positive" ? "a false positive" : "an override"} in the rule's health ledger.`,
+  }
+}
+
+async function reReview(
+  container: Container,
+  gitHost: IGitHost,
+  input: ReviewConversationInput
+): Promise<ReviewConversationResult> {
+  const pr = await gitHost.getPullRequest(input.owner, input.repo, input.prNumber)
+  if (!pr.headSha || !pr.baseSha) {
+    return { action: "skipped", reason: "PR head unknown", reply: "I couldn't read this PR's head commit, so I can't re-review it right now." }
+  }
+  if (pr.state === "closed") {
+    return { action: "skipped", reason: "PR closed", reply: "This PR is closed — nothing to re-review." }
+  }
+
+  const review = await container.relationalStore.createPrReview({
+    repoId: input.repoId,
+    prNumber: input.prNumber,
+    prTitle: pr.title,
+    prUrl: pr.htmlUrl ?? "",
+    headSha: pr.headSha,
+    baseSha: pr.baseSha,
+  })
+  await container.workflowEngine.startWorkflow({
+    workflowFn: "reviewPrWorkflow",
+    workflowId: `review-${input.orgId}-${input.repoId}-${input.prNumber}-${pr.headSha}-rerun-${input.commentId}`,
+    args: [{
+      orgId: input.orgId,
+      repoId: input.repoId,
+      prNumber: input.prNumber,
+      installationId: input.installationId,
+      headSha: pr.headSha,
+      baseSha: pr.baseSha,
+      owner: input.owner,
+      repo: input.repo,
+      reviewId: review.id,
+      provider: input.provider,
+    }],
+    taskQueue: "light-llm-queue",
+  })
+
+  return { action: "re_review", reply: `Re-reviewing \`${pr.headSha.slice(0, 7)}\` — results will show up in the check run shortly.` }
+}
+
+async function answer(
+  container: Container,
+  input: ReviewConversationInput,
+  question: string,
+  finding: PrReviewCommentRecord | null
+): Promise<ReviewConversationResult> {
+  if (!question) return { action: "skipped", reason: "Empty question", reply: HELP }
+
+  const filePath = finding?.filePath ?? input.thread?.path
+  const line = finding?.lineNumber ?? input.thread?.line ?? null
+  const context = filePath ? await graphContext(container, input, filePath, line) : null
+  const rule = finding?.ruleTitle ? await findRule(container, input, finding.ruleTitle, finding.filePath) : null
+
+  const prompt = [
+    `A developer replied on pull request #${input.prNumber}:`,
+    `"""${question}"""`,
+    finding ? `\nThe thread is about this unerr review finding (${finding.checkType}, ${finding.severity}) at ${finding.filePath}:${finding.lineNumber}:\n${finding.message}` : "",
+    rule ? `\nRule: ${rule.title} (${rule.enforcement}) — ${rule.description}` : "",
+    context ? `\nCode graph context:\n${context.summary}${context.body ? `\n\nCode:\n${context.body}` : ""}` : "",
+    "\nAnswer concisely in GitHub markdown, grounded in the context above. If the developer says the finding is intentional or wrong, explain the trade-off and mention `@unerr ignore <rule> <reason>`.",
+  ].filter(Boolean).join("\n")
+
+  try {
+    const { z } = await import("zod")
+    const result = await container.llmProvider.generateObject({
+      model: getModelForGroup("analysis"),
+      schema: z.object({ answer: z.string() }),
+      prompt,
+    })
+    return { action: "answered", reply: result.object.answer }
+  } catch (error: unknown) {
+    console.error("[review-conversation] answer failed:", error instanceof Error ? error.message : String(error))
+    return {
+      action: "answered",
+      reply: `I couldn't generate an answer right now.${context ? `\n\n${context.summary}` : ""}\n\n${HELP}`,
+    }
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────
+
+async function latestReview(container: Container, repoId: string, prNumber: number): Promise<PrReviewRecord | null> {
+  const { items } = await container.relationalStore.listPrReviews(repoId, { limit: 50 })
+  return items.find((r) => r.prNumber === prNumber && r.status === "completed") ?? null
+}
+
+function ruleRef(rule: RuleDoc): string {
+  return rule.name || rule.id
+}
+
+function matchRule(rules: RuleDoc[], target: string): RuleDoc | null {
+  const needle = target.toLowerCase()
+  return (
+    rules.find((r) => r.id === target) ??
+    rules.find((r) => r.name.toLowerCase() === needle) ??
+    rules.find((r) => r.title.toLowerCase() === needle) ??
+    null
+  )
+}
+
+async function findRule(container: Container, input: ReviewConversationInput, title: string, filePath: string): Promise<RuleDoc | null> {
+  const rules = await resolveRules(container, { orgId: input.orgId, repoId: input.repoId, filePath })
+  return matchRule(rules, title)
+}
+
+/**
+ * The innermost entity at the line with its callers and callees.
+ */
+async function graphContext(
+  container: Container,
+  input: ReviewConversationInput,
+  filePath: string,
+  line: number | null
+): Promise<{ summary: string; body?: string } | null> {
+  const entities = await container.graphStore.getEntitiesByFile(input.orgId, input.repoId, filePath)
+  const entity = innermostAt(entities, line)
+  if (!entity) return null
+
+  const [callers, callees] = await Promise.all([
+    container.graphStore.getCallersOf(input.orgId, entity.id),
+    container.graphStore.getCalleesOf(input.orgId, entity.id),
+  ])
+  const names = (list: EntityDoc[]) => list.slice(0, 5).map((e) => `\`${e.name}\` (${e.file_path})`).join(", ")
+  const summary = [
+    `**In:** \`${entity.name}\` (${entity.kind}, \`${entity.file_path}:${entity.start_line}\`)`,
+    `**Called by (${callers.length}):** ${callers.length > 0 ? names(callers) : "none"}`,
+    `**Calls (${callees.length}):** ${callees.length > 0 ? names(callees) : "none"}`,
+  ].join("\n")
+  return { summary, body: typeof entity.body === "string" ? entity.body.slice(0, 2000) : undefined }
+}
+
+function innermostAt(entities: EntityDoc[], line: number | null): EntityDoc | null {
+  const candidates = entities.filter((e) => e.kind !== "file" && e.kind !== "module")
+  if (line == null) return candidates[0] ?? null
+  let best: EntityDoc | null = null
+  for (const e of candidates) {
+    const start = Number(e.start_line) || 0
+    const end = Number(e.end_line) || start
+    if (line < start || line > end) continue
+    if (!best || start >= (Number(best.start_line) || 0)) best = e
+  }
+  return best
+}
@@ -0,0 +1,103 @@
+/**
+ * Auto-fix PR — applies every auto-fixable pattern finding to the PR head
+ * and opens a follow-up PR targeting the reviewed branch.
+ * Off by default; enabled per repo with ReviewConfig.autoFixPrEnabled.
+ */
+
+import type { IGitHost } from "@/lib/ports/git-host"
+import type { PatternFinding } from "@/lib/ports/types"
+import { applyLineSuggestions, type LineSuggestion } from "@/lib/rules/auto-remediation"
+
+/** Minimum auto-fix confidence for a finding to be applied — matches the suggestion-block threshold */
+const MIN_FIX_CONFIDENCE = 0.9
+
+export interface AutoFixPrResult {
+  prNumber: number
+  prUrl: string
+  branch: string
+  filesChanged: number
+  fixesApplied: number
+}
+
+/** A whole-line suggestion plus the lines it was computed against */
+export interface FlaggedLineSuggestion extends LineSuggestion {
+  originalCode?: string
+}
+
+/**
+ * Group fixable findings by file as whole-line suggestions.
+ */
+export function collectLineSuggestions(findings: PatternFinding[]): Map<string, FlaggedLineSuggestion[]> {
+  const byFile = new Map<string, FlaggedLineSuggestion[]>()
+  for (const f of findings) {
+    if (!f.autoFix || f.autoFix.confidence < MIN_FIX_CONFIDENCE) continue
+    const list = byFile.get(f.filePath) ?? []
+    list.push({ startLine: f.line, endLine: f.endLine ?? f.line, replacement: f.autoFix.fixedCode, originalCode: f.autoFix.originalCode })
+    byFile.set(f.filePath, list)
+  }
+  return byFile
+}
+
+export async function openAutoFixPr(
+  gitHost: IGitHost,
+  input: {
+    owner: string
+    repo: string
+    prNumber: number
+    headSha: string
+    findings: PatternFinding[]
+  }
+): Promise<AutoFixPrResult | null> {
+  const suggestions = collectLineSuggestions(input.findings)
+  if (suggestions.size === 0) return null
+
+  // Apply fixes to the files as they are at the PR head, so the branch carries only the fixes
+  const updates: Array<{ filePath: string; content: string; applied: number }> = []
+  for (const [filePath, fileSuggestions] of Array.from(suggestions.entries())) {
+    const original = await gitHost.getFileContent(input.owner, input.repo, filePath, input.headSha)
+    if (original === null) continue
+    // Skip files whose flagged lines differ at the head — the scan saw other content
+    const lines = original.split("\n")
+    const stale = fileSuggestions.some((s) =>
+      s.originalCode !== undefined && lines.slice(s.startLine - 1, s.endLine).join("\n") !== s.originalCode
+    )
+    if (stale) continue
+    const result = applyLineSuggestions(original, fileSuggestions)
+    if (result.applied > 0 && result.content !== original) {
+      updates.push({ filePath, content: result.content, applied: result.applied })
+    }
+  }
+  if (updates.length === 0) return null
+
+  const source = await gitHost.getPullRequest(input.owner, input.repo, input.prNumber)
+  const base = typeof source.sourceBranch === "string" ? source.sourceBranch : null
+  if (!base) return null
+
+  // Re-reviews of the same head (e.g. `@unerr re-review`) need a fresh branch name
+  const branch = `unerr/autofix-${input.prNumber}-${input.headSha.slice(0, 7)}-${Date.now().toString(36)}`
+  await gitHost.createBranch(input.owner, input.repo, branch, input.headSha)
+
+  for (const update of updates) {
+    await gitHost.createOrUpdateFile(input.owner, input.repo, branch, update.filePath, update.content, {
+      message: `fix: apply unerr auto-fixes to ${update.filePath}`,
+    })
+  }
+
+  const fixesApplied = updates.reduce((sum, u) => sum + u.applied, 0)
+  const fileList = updates.map((u) => `- \`${u.filePath}\` (${u.applied} fix${u.applied === 1 ? "" : "es"})`).join("\n")
+  const pr = await gitHost.createPullRequest(input.owner, input.repo, {
+    title: `fix: unerr auto-fixes for #${input.prNumber}`,
+    body: `## Auto-fixes for #${input.prNumber}\n\nApplies ${fixesApplied} auto-fixable finding${fixesApplied === 1 ? "" : "s"} from the unerr review.\n\n${fileList}\n\n**Merge into \`${base}\` to apply them to #${input.prNumber}.**`,
+    head: branch,
+    base,
+  })
+
+  await gitHost.postIssueComment(
+    input.owner,
+    input.repo,
+    input.prNumber,
+    `🔧 unerr opened ${pr.htmlUrl ? `[#${pr.number}](${pr.htmlUrl})` : `#${pr.number}`} with ${fixesApplied} auto-fix${fixesApplied === 1 ? "" : "es"} for this PR.`
+  )
+
+  return { prNumber: pr.number, prUrl: pr.htmlUrl ?? "", branch, filesChanged: updates.length, fixesApplied }
+}
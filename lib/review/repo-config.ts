@@ -0,0 +1,308 @@
+/**
+ * Repo review config — `.unerr/review.yml` and `.unerr/rules/*.yml`, read from
+ * the PR's base commit so review settings are versioned and reviewed with the code.
+ *
+ * Precedence, highest first: `.unerr/review.yml` → dashboard settings → defaults.
+ * Reading the base commit means a PR cannot relax the review that runs on it.
+ */
+
+import { type Document, LineCounter, parseDocument } from "yaml"
+import { z } from "zod"
+import type { Container } from "@/lib/di/container"
+import type { IGitHost } from "@/lib/ports/git-host"
+import { DEFAULT_REVIEW_CONFIG, type ReviewConfig, type RuleDoc } from "@/lib/ports/types"
+import { CreateRuleSchema, RuleScopeSchema, RuleStatusSchema } from "@/lib/rules/schema"
+
+export const REVIEW_CONFIG_PATH = ".unerr/review.yml"
+export const REPO_RULES_DIR = ".unerr/rules"
+
+const ChecksEnabledSchema = z
+  .object({
+    pattern: z.boolean(),
+    impact: z.boolean(),
+    test: z.boolean(),
+    complexity: z.boolean(),
+    dependency: z.boolean(),
+    trustBoundary: z.boolean(),
+    idempotency: z.boolean(),
+    env: z.boolean(),
+    contract: z.boolean(),
+    architecture: z.boolean(),
+    migration: z.boolean(),
+  })
+  .partial()
+  .strict()
+
+/**
+ * Whether a PR is reviewed at all is decided by the webhook handler before the
+ * base commit is read, so these keys can only be set from the dashboard.
+ */
+const dashboardOnly = z.never({ error: "Set this in the dashboard review settings; it cannot be set from the repo file" })
+
+/** Every key optional — unset keys fall through to the dashboard settings. */
+export const RepoReviewConfigSchema = z
+  .object({
+    enabled: dashboardOnly,
+    autoApproveOnClean: z.boolean(),
+    targetBranches: dashboardOnly,
+    skipDraftPrs: dashboardOnly,
+    impactThreshold: z.number().int().min(0),
+    complexityThreshold: z.number().int().min(0),
+    checksEnabled: ChecksEnabledSchema,
+    ignorePaths: z.array(z.string().min(1)),
+    semanticLgtmEnabled: z.boolean(),
+    horizontalAreas: z.array(z.string().min(1)),
+    lowRiskCallerThreshold: z.number().int().min(0),
+    nudgeEnabled: z.boolean(),
+    nudgeDelayHours: z.number().min(1),
+    autoFixPrEnabled: z.boolean(),
+    sarifUploadEnabled: z.boolean(),
+  })
+  .partial()
+  .strict()
+
+export type RepoReviewConfig = z.infer<typeof RepoReviewConfigSchema>
+
+const RepoRuleSchema = CreateRuleSchema.extend({
+  name: z.string().min(1).max(100).regex(/^[\w.-]+$/, "Rule names may only contain letters, digits, _, . and -"),
+  scope: RuleScopeSchema.default("repo"),
+  status: RuleStatusSchema.default("active"),
+})
+
+/** A rule file holds one rule, or several under `rules:`. */
+export const RepoRuleFileSchema = z.union([
+  z.object({ rules: z.array(RepoRuleSchema).min(1) }).strict(),
+  RepoRuleSchema,
+])
+
+export interface RepoConfigError {
+  path: string
+  line?: number
+  message: string
+}
+
+export type ReviewConfigSource = "repo_file" | "dashboard" | "default"
+
+export interface ResolvedReviewConfig {
+  /** Effective config the review runs with */
+  config: ReviewConfig
+  /** Where each top-level key came from */
+  sources: Record<keyof ReviewConfig, ReviewConfigSource>
+  /** Validated `.unerr/review.yml`, null when absent or invalid */
+  repoConfig: RepoReviewConfig | null
+  /** Rules declared in `.unerr/rules/*.yml` */
+  rules: RuleDoc[]
+  /** Repo config files that were found */
+  files: string[]
+  errors: RepoConfigError[]
+}
+
+/**
+ * Parse a YAML file and validate it, mapping syntax and schema errors to lines.
+ */
+function parseYamlFile<T>(text: string, path: string, schema: z.ZodType<T>): { value: T | null; errors: RepoConfigError[] } {
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(text, { lineCounter })
+  if (doc.errors.length > 0) {
+    return {
+      value: null,
+      errors: doc.errors.map((e) => ({ path, line: e.linePos?.[0]?.line, message: e.message })),
+    }
+  }
+
+  const parsed = schema.safeParse(doc.toJS() ?? {})
+  if (parsed.success) return { value: parsed.data, errors: [] }
+  return {
+    value: null,
+    errors: parsed.error.issues.map((issue) => ({
+      path,
+      line: lineOf(doc, lineCounter, issue.path),
+      message: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+    })),
+  }
+}
+
+/** Line of the deepest node on an issue path that exists in the document. */
+function lineOf(doc: Document, lineCounter: LineCounter, issuePath: PropertyKey[]): number | undefined {
+  for (let depth = issuePath.length; depth > 0; depth--) {
+    const node = doc.getIn(issuePath.slice(0, depth) as Array<string | number>, true) as { range?: [number, number, number] } | undefined
+    if (node?.range) return lineCounter.linePos(node.range[0]).line
+  }
+  return doc.contents?.range ? lineCounter.linePos(doc.contents.range[0]).line : undefined
+}
+
+export function parseReviewConfigFile(text: string, path = REVIEW_CONFIG_PATH): { config: RepoReviewConfig | null; errors: RepoConfigError[] } {
+  const { value, errors } = parseYamlFile(text, path, RepoReviewConfigSchema)
+  return { config: value, errors }
+}
+
+/**
+ * Parse a rule file into repo-scoped RuleDocs. IDs derive from the rule name,
+ * so a rule keeps its health and exceptions across edits.
+ */
+export function parseRuleFile(
+  text: string,
+  path: string,
+  ctx: { orgId: string; repoId: string }
+): { rules: RuleDoc[]; errors: RepoConfigError[] } {
+  const { value, errors } = parseYamlFile(text, path, RepoRuleFileSchema)
+  if (!value) return { rules: [], errors }
+
+  const now = new Date().toISOString()
+  const declared = "rules" in value ? value.rules : [value]
+  const rules: RuleDoc[] = []
+  const seen = new Set<string>()
+  for (const rule of declared) {
+    if (seen.has(rule.name)) {
+      errors.push({ path, message: `Duplicate rule name "${rule.name}"` })
+      continue
+    }
+    seen.add(rule.name)
+    rules.push({
+      ...rule,
+      id: `repo-file-${ctx.repoId}-${rule.name}`,
+      org_id: ctx.orgId,
+      repo_id: ctx.repoId,
+      createdBy: path,
+      created_at: now,
+      updated_at: now,
+    })
+  }
+  return { rules, errors }
+}
+
+/**
+ * Lay `.unerr/review.yml` over the stored config. `checksEnabled` merges per check;
+ * every other key is replaced wholesale.
+ */
+export function mergeReviewConfig(stored: ReviewConfig, repoConfig: RepoReviewConfig | null): ReviewConfig {
+  if (!repoConfig) return stored
+  return {
+    ...stored,
+    ...repoConfig,
+    checksEnabled: { ...stored.checksEnabled, ...(repoConfig.checksEnabled ?? {}) },
+  }
+}
+
+export function reviewConfigSources(
+  stored: ReviewConfig,
+  defaults: ReviewConfig,
+  repoConfig: RepoReviewConfig | null
+): Record<keyof ReviewConfig, ReviewConfigSource> {
+  const sources = {} as Record<keyof ReviewConfig, ReviewConfigSource>
+  for (const key of Object.keys(defaults) as Array<keyof ReviewConfig>) {
+    sources[key] = repoConfig?.[key] !== undefined
+      ? "repo_file"
+      : JSON.stringify(stored[key]) !== JSON.stringify(defaults[key]) ? "dashboard" : "default"
+  }
+  return sources
+}
+
+/**
+ * Read and validate the repo config files at a ref. Missing files are not errors.
+ */
+export async function loadRepoReviewConfig(
+  gitHost: IGitHost,
+  input: { orgId: string; repoId: string; owner: string; repo: string; ref: string }
+): Promise<{ config: RepoReviewConfig | null; rules: RuleDoc[]; files: string[]; errors: RepoConfigError[] }> {
+  const files: string[] = []
+  const errors: RepoConfigError[] = []
+
+  let config: RepoReviewConfig | null = null
+  const configText = await gitHost.getFileContent(input.owner, input.repo, REVIEW_CONFIG_PATH, input.ref)
+  if (configText !== null) {
+    files.push(REVIEW_CONFIG_PATH)
+    const parsed = parseReviewConfigFile(configText)
+    config = parsed.config
+    errors.push(...parsed.errors)
+  }
+
+  const rules: RuleDoc[] = []
+  const entries = await gitHost.listDirectory(input.owner, input.repo, REPO_RULES_DIR, input.ref)
+  const ruleFiles = entries
+    .filter((e) => e.type !== "dir" && /\.ya?ml$/.test(e.path))
+    .map((e) => e.path)
+    .sort()
+  for (const path of ruleFiles) {
+    const text = await gitHost.getFileContent(input.owner, input.repo, path, input.ref)
+    if (text === null) continue
+    files.push(path)
+    const parsed = parseRuleFile(text, path, input)
+    for (const rule of parsed.rules) {
+      if (rules.some((r) => r.name === rule.name)) {
+        errors.push({ path, message: `Rule "${rule.name}" is already declared in another rule file` })
+        continue
+      }
+      rules.push(rule)
+    }
+    errors.push(...parsed.errors)
+  }
+
+  return { config, rules, files, errors }
+}
+
+/**
+ * Effective review config for a repo at a ref: repo files merged over the
+ * stored config. Git host failures fall back to the stored config.
+ */
+export async function resolveReviewConfig(
+  container: Container,
+  gitHost: IGitHost,
+  input: { orgId: string; repoId: string; owner: string; repo: string; ref: string }
+): Promise<ResolvedReviewConfig> {
+  const stored = await container.relationalStore.getRepoReviewConfig(input.repoId)
+
+  let loaded: Awaited<ReturnType<typeof loadRepoReviewConfig>> = { config: null, rules: [], files: [], errors: [] }
+  try {
+    loaded = await loadRepoReviewConfig(gitHost, input)
+  } catch (error: unknown) {
+    console.error("[repo-config] Failed to read repo config files:", error instanceof Error ? error.message : String(error))
+  }
+
+  return {
+    config: mergeReviewConfig(stored, loaded.config),
+    sources: reviewConfigSources(stored, DEFAULT_REVIEW_CONFIG, loaded.config),
+    repoConfig: loaded.config,
+    rules: loaded.rules,
+    files: loaded.files,
+    errors: loaded.errors,
+  }
+}
+
+/**
+ * Neutral check run output listing config errors — the review still runs on
+ * the stored config, so invalid files inform rather than block. An invalid
+ * `.unerr/review.yml` is dropped whole, not key by key.
+ */
+export function buildConfigCheckRunOutput(errors: RepoConfigError[]): {
+  title: string
+  summary: string
+  annotations: Array<{
+    path: string; start_line: number; end_line: number
+    annotation_level: "notice" | "warning" | "failure"
+    message: string; title: string; raw_details: string
+  }>
+} {
+  const files = Array.from(new Set(errors.map((e) => e.path)))
+  const lines = errors.map((e) => `- \`${e.path}${e.line ? `:${e.line}` : ""}\` — ${e.message}`)
+  const effects: string[] = []
+  if (files.includes(REVIEW_CONFIG_PATH)) {
+    effects.push(`\`${REVIEW_CONFIG_PATH}\` was ignored as a whole — none of its settings apply — so the review ran with the dashboard settings.`)
+  }
+  if (files.some((f) => f !== REVIEW_CONFIG_PATH)) {
+    effects.push("Rule files that failed validation were skipped, along with any duplicate rules.")
+  }
+  return {
+    title: `${errors.length} review config error${errors.length === 1 ? "" : "s"}`,
+    summary: `${effects.join(" ")}\n\n${lines.join("\n")}`,
+    annotations: errors.slice(0, 50).map((e) => ({
+      path: e.path,
+      start_line: e.line ?? 1,
+      end_line: e.line ?? 1,
+      annotation_level: "warning" as const,
+      message: e.message,
+      title: "Invalid review config",
+      raw_details: "",
+    })),
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Every entity in a repo, read page by page — review checks that index the
+ * whole graph must not be cut off at getAllEntities' default limit.
+ */
+
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type { EntityDoc } from "@/lib/ports/types"
+
+const PAGE_SIZE = 10000
+
+export async function loadAllEntities(graphStore: IGraphStore, orgId: string, repoId: string): Promise<EntityDoc[]> {
+  const entities: EntityDoc[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await graphStore.getAllEntities(orgId, repoId, PAGE_SIZE, offset)
+    for (const entity of page) entities.push(entity)
+    if (page.length < PAGE_SIZE) return entities
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * SARIF 2.1.0 serializer — exports review findings for code scanning dashboards
+ * (GitHub code scanning, GitLab SAST reports, IDE SARIF viewers).
+ *
+ * Every finding type maps to a stable rule id (`unerr/<check>` or `unerr/pattern/<rule>`),
+ * and results carry a `partialFingerprints` entry that excludes line numbers so
+ * consumers keep tracking an alert when the code around it moves.
+ */
+
+import { createHash } from "node:crypto"
+import type {
+  ArchitectureFinding,
+  ComplexityFinding,
+  ContractFinding,
+  DependencyFinding,
+  EnvFinding,
+  IdempotencyFinding,
+  ImpactFinding,
+  MigrationFinding,
+  PatternFinding,
+  PrReviewCommentRecord,
+  TestFinding,
+  TrustBoundaryFinding,
+} from "@/lib/ports/types"
+import type { HybridViolation } from "@/lib/rules/hybrid-evaluator"
+
+export const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json"
+export const SARIF_FINGERPRINT_KEY = "unerrFingerprint/v1"
+
+export type SarifLevel = "error" | "warning" | "note"
+
+/** Normalized finding — one per SARIF result */
+export interface SarifFinding {
+  ruleId: string
+  ruleName: string
+  ruleDescription: string
+  level: SarifLevel
+  message: string
+  /** Markdown rendering of the message, when richer than the plain text */
+  markdown?: string
+  filePath: string
+  startLine: number
+  endLine?: number
+  /** Identity within the file that survives line shifts (entity, env var, import path…) */
+  fingerprintKey: string
+  tags: string[]
+  /** Replacement for startLine..endLine */
+  fix?: string
+}
+
+export interface SarifRule {
+  id: string
+  name: string
+  shortDescription: { text: string }
+  fullDescription?: { text: string }
+  defaultConfiguration: { level: SarifLevel }
+  properties: { tags: string[] }
+}
+
+export interface SarifResult {
+  ruleId: string
+  ruleIndex: number
+  level: SarifLevel
+  message: { text: string; markdown?: string }
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: "%SRCROOT%" }
+      region: { startLine: number; endLine?: number }
+    }
+  }>
+  partialFingerprints: Record<string, string>
+  fixes?: Array<{
+    description: { text: string }
+    artifactChanges: Array<{
+      artifactLocation: { uri: string; uriBaseId: "%SRCROOT%" }
+      replacements: Array<{ deletedRegion: { startLine: number; endLine: number }; insertedContent: { text: string } }>
+    }>
+  }>
+}
+
+export interface SarifLog {
+  $schema: string
+  version: "2.1.0"
+  runs: Array<{
+    tool: { driver: { name: string; informationUri: string; version?: string; rules: SarifRule[] } }
+    automationDetails?: { id: string }
+    versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string }>
+    results: SarifResult[]
+  }>
+}
+
+export interface ReviewFindings {
+  pattern: PatternFinding[]
+  impact: ImpactFinding[]
+  test: TestFinding[]
+  complexity: ComplexityFinding[]
+  dependency: DependencyFinding[]
+  trustBoundary?: TrustBoundaryFinding[]
+  env?: EnvFinding[]
+  contract?: ContractFinding[]
+  idempotency?: IdempotencyFinding[]
+  architecture?: ArchitectureFinding[]
+  migration?: MigrationFinding[]
+}
+
+type CheckType = PrReviewCommentRecord["checkType"]
+
+/** Rule metadata for the built-in checks; pattern rules are described per rule */
+const CHECK_RULES: Record<Exclude<CheckType, "pattern">, { id: string; name: string; description: string; tags: string[] }> = {
+  impact: { id: "unerr/high-impact", name: "HighImpactEntity", description: "Changed entity has many callers", tags: ["impact"] },
+  test: { id: "unerr/missing-test", name: "MissingTestCompanion", description: "Changed file has no test companion", tags: ["testing"] },
+  complexity: { id: "unerr/complexity", name: "HighComplexity", description: "Cyclomatic complexity exceeds the threshold", tags: ["maintainability"] },
+  dependency: { id: "unerr/new-dependency", name: "NewDependency", description: "New external dependency introduced", tags: ["dependencies"] },
+  trustBoundary: { id: "unerr/trust-boundary", name: "TrustBoundaryGap", description: "Untrusted source reaches a sensitive sink without validation", tags: ["security"] },
+  env: { id: "unerr/missing-env-var", name: "MissingEnvVar", description: "Environment variable is not documented or provisioned", tags: ["configuration"] },
+  contract: { id: "unerr/contract-risk", name: "ApiContractRisk", description: "Change reaches a public API contract", tags: ["api"] },
+  idempotency: { id: "unerr/idempotency", name: "IdempotencyRisk", description: "Retried trigger reaches a non-idempotent mutation", tags: ["reliability"] },
+  architecture: { id: "unerr/layer-violation", name: "LayerViolation", description: "Dependency crosses a forbidden architecture layer", tags: ["architecture"] },
+  migration: { id: "unerr/unsafe-migration", name: "UnsafeMigration", description: "Migration statement takes a blocking lock or breaks deployed code", tags: ["database"] },
+}
+
+const BREAKING_CONTRACT_RULE = { id: "unerr/breaking-contract", name: "BreakingContractChange", description: "Schema field removed or retyped", tags: ["api", "breaking-change"] }
+
+export function mapSarifLevel(severity: "info" | "warning" | "error"): SarifLevel {
+  switch (severity) {
+    case "error":
+      return "error"
+    case "warning":
+      return "warning"
+    default:
+      return "note"
+  }
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "rule"
+}
+
+export function patternRuleId(ruleTitle: string): string {
+  return `unerr/pattern/${slugify(ruleTitle)}`
+}
+
+function fromCheck(
+  check: Exclude<CheckType, "pattern">,
+  level: SarifLevel,
+  base: { message: string; filePath: string; line: number; fingerprintKey: string }
+): SarifFinding {
+  const rule = CHECK_RULES[check]
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ruleDescription: rule.description,
+    level,
+    message: base.message,
+    filePath: base.filePath,
+    startLine: base.line,
+    fingerprintKey: base.fingerprintKey,
+    tags: rule.tags,
+  }
+}
+
+/** Flatten every finding type of a review into normalized SARIF findings */
+export function reviewFindingsToSarif(findings: ReviewFindings): SarifFinding[] {
+  const out: SarifFinding[] = []
+
+  for (const f of findings.pattern) {
+    out.push({
+      ruleId: patternRuleId(f.ruleTitle),
+      ruleName: f.ruleTitle,
+      ruleDescription: f.ruleTitle,
+      level: mapSarifLevel(f.severity),
+      message: f.message,
+      markdown: f.suggestion ? `${f.message}\n\n${f.suggestion}` : undefined,
+      filePath: f.filePath,
+      startLine: f.line,
+      endLine: f.endLine,
+      fingerprintKey: f.message,
+      tags: ["pattern"],
+      fix: f.autoFix && f.autoFix.confidence >= 0.9 ? f.autoFix.fixedCode : undefined,
+    })
+  }
+  for (const f of findings.impact) {
+    out.push(fromCheck("impact", "warning", {
+      message: `${f.entityName} has ${f.callerCount} callers. Changes may have wide impact.`,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: f.entityName,
+    }))
+  }
+  for (const f of findings.test) {
+    out.push(fromCheck("test", "warning", { message: f.message, filePath: f.filePath, line: 1, fingerprintKey: f.expectedTestPath }))
+  }
+  for (const f of findings.complexity) {
+    out.push(fromCheck("complexity", "warning", {
+      message: `Cyclomatic complexity of ${f.entityName} is ${f.complexity} (threshold ${f.threshold})`,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: f.entityName,
+    }))
+  }
+  for (const f of findings.dependency) {
+    out.push(fromCheck("dependency", "note", { message: f.message, filePath: f.filePath, line: f.line, fingerprintKey: f.importPath }))
+  }
+  for (const f of findings.trustBoundary ?? []) {
+    out.push(fromCheck("trustBoundary", "error", {
+      message: f.message,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: `${f.sourceEntity.name}->${f.sinkEntity.name}`,
+    }))
+  }
+  for (const f of findings.env ?? []) {
+    out.push(fromCheck("env", "warning", { message: f.message, filePath: f.filePath, line: f.line, fingerprintKey: f.envVar }))
+  }
+  for (const f of findings.contract ?? []) {
+    const finding = fromCheck("contract", "warning", {
+      message: f.message,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: f.breakingChange
+        ? `${f.breakingChange.schema}.${f.breakingChange.field}`
+        : `${f.changedEntity.name}->${f.affectedRoute.name}`,
+    })
+    if (f.breakingChange) {
+      finding.ruleId = BREAKING_CONTRACT_RULE.id
+      finding.ruleName = BREAKING_CONTRACT_RULE.name
+      finding.ruleDescription = BREAKING_CONTRACT_RULE.description
+      finding.tags = BREAKING_CONTRACT_RULE.tags
+    }
+    out.push(finding)
+  }
+  for (const f of findings.idempotency ?? []) {
+    out.push(fromCheck("idempotency", "warning", {
+      message: f.message,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: `${f.triggerEntity.name}->${f.mutationEntity.name}`,
+    }))
+  }
+  for (const f of findings.architecture ?? []) {
+    out.push(fromCheck("architecture", mapSarifLevel(f.severity), {
+      message: f.message,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: `${f.fromLayer}->${f.toLayer}:${f.target.filePath}`,
+    }))
+  }
+  for (const f of findings.migration ?? []) {
+    out.push(fromCheck("migration", mapSarifLevel(f.severity), {
+      message: f.message,
+      filePath: f.filePath,
+      line: f.line,
+      fingerprintKey: `${f.operation}:${f.table}.${f.column ?? ""}`,
+    }))
+  }
+
+  return out
+}
+
+/** Rule-check results (check_rules / hybrid evaluation) as SARIF findings */
+export function hybridViolationsToSarif(violations: HybridViolation[]): SarifFinding[] {
+  return violations.map((v) => ({
+    ruleId: patternRuleId(v.ruleTitle),
+    ruleName: v.ruleTitle,
+    ruleDescription: v.ruleTitle,
+    level: mapSarifLevel(v.severity),
+    message: v.message,
+    markdown: v.justification ? `${v.message}\n\n${v.justification}` : undefined,
+    filePath: v.file,
+    startLine: v.line,
+    fingerprintKey: v.message,
+    tags: ["pattern", v.enforcement],
+    fix: v.fix,
+  }))
+}
+
+/** Strip markdown decoration from a stored comment body, keeping the first paragraph */
+function plainText(markdown: string): string {
+  const paragraph = markdown.split(/\n\s*\n/).find((p) => p.trim() && !p.trim().startsWith("```")) ?? markdown
+  return paragraph
+    .replace(/\*\*|__|`/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^[#>\s-]+/gm, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/** Stored review comments (the review detail page) as SARIF findings */
+export function reviewCommentsToSarif(comments: PrReviewCommentRecord[]): SarifFinding[] {
+  return comments.map((c) => {
+    const text = plainText(c.message)
+    const title = c.ruleTitle ?? c.semgrepRuleId ?? "Pattern Violation"
+    const rule = c.checkType === "pattern"
+      ? { id: patternRuleId(title), name: title, description: title, tags: ["pattern"] }
+      : CHECK_RULES[c.checkType]
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleDescription: rule.description,
+      level: mapSarifLevel(c.severity),
+      message: text,
+      markdown: c.message,
+      filePath: c.filePath,
+      startLine: c.lineNumber,
+      fingerprintKey: text,
+      tags: rule.tags,
+      fix: c.autoFix ?? undefined,
+    }
+  })
+}
+
+function fingerprint(ruleId: string, filePath: string, key: string, occurrence: number): string {
+  const hash = createHash("sha256").update(`${ruleId}\n${filePath}\n${key}`).digest("hex").slice(0, 32)
+  return `${hash}:${occurrence}`
+}
+
+/** Assemble a SARIF 2.1.0 log with one run — rules are de-duplicated by id */
+export function buildSarifLog(
+  findings: SarifFinding[],
+  options: { toolVersion?: string; category?: string; repositoryUri?: string; revisionId?: string } = {}
+): SarifLog {
+  const rules: SarifRule[] = []
+  const ruleIndex = new Map<string, number>()
+  const occurrences = new Map<string, number>()
+  const results: SarifResult[] = []
+
+  for (const f of findings) {
+    let index = ruleIndex.get(f.ruleId)
+    if (index === undefined) {
+      index = rules.length
+      ruleIndex.set(f.ruleId, index)
+      rules.push({
+        id: f.ruleId,
+        name: f.ruleName,
+        shortDescription: { text: f.ruleDescription },
+        defaultConfiguration: { level: f.level },
+        properties: { tags: f.tags },
+      })
+    }
+
+    // Identical findings in one file (e.g. the same rule twice) get distinct fingerprints
+    const identity = `${f.ruleId}\n${f.filePath}\n${f.fingerprintKey}`
+    const occurrence = (occurrences.get(identity) ?? 0) + 1
+    occurrences.set(identity, occurrence)
+
+    const artifactLocation = { uri: f.filePath, uriBaseId: "%SRCROOT%" as const }
+    const startLine = Math.max(1, f.startLine)
+    const endLine = f.endLine && f.endLine > startLine ? f.endLine : undefined
+    const result: SarifResult = {
+      ruleId: f.ruleId,
+      ruleIndex: index,
+      level: f.level,
+      message: f.markdown ? { text: f.message, markdown: f.markdown } : { text: f.message },
+      locations: [{ physicalLocation: { artifactLocation, region: endLine ? { startLine, endLine } : { startLine } } }],
+      partialFingerprints: { [SARIF_FINGERPRINT_KEY]: fingerprint(f.ruleId, f.filePath, f.fingerprintKey, occurrence) },
+    }
+    if (f.fix !== undefined) {
+      result.fixes = [{
+        description: { text: `Apply suggested fix for ${f.ruleName}` },
+        artifactChanges: [{
+          artifactLocation,
+          replacements: [{ deletedRegion: { startLine, endLine: endLine ?? startLine }, insertedContent: { text: f.fix.endsWith("\n") ? f.fix : `${f.fix}\n` } }],
+        }],
+      }]
+    }
+    results.push(result)
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "unerr",
+          informationUri: "https://unerr.dev",
+          ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          rules,
+        },
+      },
+      ...(options.category ? { automationDetails: { id: options.category } } : {}),
+      ...(options.repositoryUri
+        ? { versionControlProvenance: [{ repositoryUri: options.repositoryUri, ...(options.revisionId ? { revisionId: options.revisionId } : {}) }] }
+        : {}),
+      results,
+    }],
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Schema diff — finds API schema fields a PR removes or retypes.
+ *
+ * Works from the raw unified diff plus the `field` entities already indexed
+ * for the base branch: a field whose declaration lines (old-side line numbers)
+ * are touched by a hunk is re-read from the new side of that hunk. If the
+ * declaration is gone the field was removed; if its type label differs it was
+ * retyped. Covers GraphQL SDL, protobuf and OpenAPI (YAML/JSON).
+ */
+
+import { parse as parseYaml } from "yaml"
+
+import { schemaTypeLabel } from "@/lib/indexer/languages/contracts/openapi"
+import type { EntityDoc } from "@/lib/ports/types"
+
+export const SCHEMA_FILE_EXTENSIONS = [".graphql", ".gql", ".proto", ".yaml", ".yml", ".json"]
+
+export interface DiffLine {
+  type: " " | "-" | "+"
+  text: string
+  /** Line number on the old side (context and removed lines) */
+  oldLine?: number
+  /** Line number on the new side (context and added lines) */
+  newLine?: number
+}
+
+export interface SchemaFieldChange {
+  field: EntityDoc
+  change: "removed" | "retyped"
+  oldType?: string
+  newType?: string
+  /** New-side line to attach the review comment to */
+  line: number
+}
+
+/**
+ * Parse a unified diff into per-file hunks that keep line content.
+ * Deleted files are keyed by their old path.
+ */
+export function parseDiffLines(diff: string): Map<string, DiffLine[][]> {
+  const files = new Map<string, DiffLine[][]>()
+  let oldPath = ""
+  let hunks: DiffLine[][] | undefined
+  let current: DiffLine[] | undefined
+  let oldLine = 0
+  let newLine = 0
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("--- ")) {
+      oldPath = line.startsWith("--- a/") ? line.slice(6) : ""
+      current = undefined
+      continue
+    }
+    if (line.startsWith("+++ ")) {
+      const filePath = line.startsWith("+++ b/") ? line.slice(6) : oldPath
+      hunks = []
+      files.set(filePath, hunks)
+      current = undefined
+      continue
+    }
+    const header = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line)
+    if (header && hunks) {
+      oldLine = parseInt(header[1]!, 10)
+      newLine = parseInt(header[2]!, 10)
+      current = []
+      hunks.push(current)
+      continue
+    }
+    if (!current) continue
+    if (line.startsWith("-")) {
+      current.push({ type: "-", text: line.slice(1), oldLine: oldLine++ })
+    } else if (line.startsWith("+")) {
+      current.push({ type: "+", text: line.slice(1), newLine: newLine++ })
+    } else if (line.startsWith(" ")) {
+      current.push({ type: " ", text: line.slice(1), oldLine: oldLine++, newLine: newLine++ })
+    }
+  }
+
+  return files
+}
+
+/** Removed and retyped fields among `fields` (base-branch entities of one file). */
+export function findSchemaFieldChanges(hunks: DiffLine[][], fields: EntityDoc[]): SchemaFieldChange[] {
+  const changes: SchemaFieldChange[] = []
+
+  for (const field of fields) {
+    const start = Number(field.start_line) || 0
+    const end = Number(field.end_line) || start
+    const language = String(field.language ?? "")
+    const oldType = typeof field.return_type === "string" ? field.return_type : undefined
+
+    for (const hunk of hunks) {
+      const removedIdx = hunk.findIndex((l) => l.type === "-" && l.oldLine! >= start && l.oldLine! <= end)
+      if (removedIdx === -1) continue
+
+      const newSide = hunk.filter((l) => l.type !== "-")
+      const keyRemoved = hunk.some((l) => l.type === "-" && l.oldLine === start)
+      let declIdx: number
+      if (keyRemoved) {
+        // Look for a re-declaration among the lines added in the same change block
+        const block = changeBlock(hunk, removedIdx)
+        const decl = block.find((l) => l.type === "+" && declaresField(language, field.name, l.text))
+        if (!decl) {
+          changes.push({ field, change: "removed", oldType, line: nearestNewLine(hunk, removedIdx) })
+          break
+        }
+        declIdx = newSide.indexOf(decl)
+      } else {
+        // Only the body of a multi-line field changed (OpenAPI `type:` / `$ref:` lines)
+        declIdx = newSide.findIndex((l) => l.type === " " && l.oldLine === start)
+        if (declIdx === -1) continue
+      }
+
+      const newType = typeAt(language, newSide, declIdx)
+      if (newType && oldType && normalizeType(newType) !== normalizeType(oldType)) {
+        changes.push({ field, change: "retyped", oldType, newType, line: newSide[declIdx]!.newLine! })
+      }
+      break
+    }
+  }
+
+  return changes
+}
+
+// ── Helpers ──
+
+/** The contiguous run of removed/added lines around `idx`. */
+function changeBlock(hunk: DiffLine[], idx: number): DiffLine[] {
+  let from = idx
+  let to = idx
+  while (from > 0 && hunk[from - 1]!.type !== " ") from--
+  while (to < hunk.length - 1 && hunk[to + 1]!.type !== " ") to++
+  return hunk.slice(from, to + 1)
+}
+
+function nearestNewLine(hunk: DiffLine[], idx: number): number {
+  for (let i = idx; i >= 0; i--) {
+    if (hunk[i]!.newLine !== undefined) return hunk[i]!.newLine!
+  }
+  for (let i = idx; i < hunk.length; i++) {
+    if (hunk[i]!.newLine !== undefined) return hunk[i]!.newLine!
+  }
+  return 1
+}
+
+function declaresField(language: string, name: string, text: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  if (language === "protobuf") return new RegExp(`\\s${escaped}\\s*=\\s*\\d+`).test(text)
+  if (language === "openapi") return new RegExp(`^\\s*["']?${escaped}["']?\\s*:`).test(text)
+  return new RegExp(`^\\s*${escaped}\\s*[(:]`).test(text)
+}
+
+/** Type label of the field declared at `newSide[idx]`, in the same format the parsers store. */
+function typeAt(language: string, newSide: DiffLine[], idx: number): string | undefined {
+  const text = newSide[idx]!.text.trim()
+  if (language === "protobuf") {
+    const m = /^(?:(repeated|optional|required)\s+)?(map\s*<[^>]+>|[A-Za-z_.][\w.]*)\s+\w+\s*=/.exec(text)
+    if (!m) return undefined
+    const type = m[2]!.replace(/\s+/g, "")
+    return m[1] === "repeated" ? `${type}[]` : type
+  }
+  if (language === "openapi") {
+    // Re-parse the property and its more-indented lines as a standalone YAML/JSON map
+    const indentOf = (line: string) => line.search(/\S/)
+    const indent = indentOf(newSide[idx]!.text)
+    const lines = [newSide[idx]!.text]
+    let complete = false
+    for (let i = idx + 1; i < newSide.length; i++) {
+      const line = newSide[i]!.text
+      if (line.trim() && indentOf(line) <= indent) {
+        // JSON: keep the closing brace of the property object
+        if (/^[}\]]/.test(line.trim())) lines.push(line)
+        complete = true
+        break
+      }
+      lines.push(line)
+    }
+    // The property runs past the end of the hunk — its type can't be read reliably
+    if (!complete) return undefined
+    const snippet = lines.map((l) => l.slice(Math.min(indent, Math.max(indentOf(l), 0)))).join("\n").replace(/,\s*$/, "")
+    try {
+      const parsed = parseYaml(snippet.startsWith("\"") ? `{${snippet}}` : snippet) as unknown
+      const value = parsed && typeof parsed === "object" ? Object.values(parsed)[0] : undefined
+      return value && typeof value === "object" ? schemaTypeLabel(value as Record<string, unknown>) : undefined
+    } catch {
+      return undefined
+    }
+  }
+  return /^\w+\s*(?:\([^)]*\))?\s*:\s*([[\]\w!]+)/.exec(text)?.[1]
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, "")
+}
@@ -0,0 +1,166 @@
+/**
+ * Test impact selection — which tests exercise a change.
+ *
+ * Maps changed files (or a unified diff) to entities, then walks the caller
+ * graph (calls / imports / references edges, reversed) up to maxDepth hops,
+ * starting from each changed entity and its containing file. Every
+ * test-file entity reached selects its file. Confidence follows
+ * distance: direct callers and the sibling `*.test.*` convention (see
+ * findTestFiles) are "high", two hops "medium", further "low".
+ * Changed entities no test reaches are reported as uncovered.
+ */
+
+import { extractTestAssertions, findTestFiles, isTestFile } from "@/lib/justification/test-context-extractor"
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type { EntityDoc } from "@/lib/ports/types"
+import { analyzeDiff } from "./diff-analyzer"
+import { loadAllEntities } from "./repo-entities"
+
+export type TestConfidence = "high" | "medium" | "low"
+
+export interface SelectedTest {
+  filePath: string
+  confidence: TestConfidence
+  /** Fewest caller hops from a changed entity to this test */
+  depth: number
+  /** Changed entities this test exercises */
+  covers: string[]
+  /** describe/it/test names found in the file */
+  cases: string[]
+}
+
+export interface TestSelectionResult {
+  tests: SelectedTest[]
+  /** Changed entities not exercised by any test within maxDepth */
+  uncovered: Array<{ name: string; kind: string; filePath: string }>
+  changedEntities: number
+  /** Changed test files, always selected */
+  changedTests: string[]
+}
+
+export interface TestSelectionInput {
+  files?: string[]
+  diff?: string
+  maxDepth?: number
+}
+
+const TRAVERSED_EDGE_KINDS = new Set(["calls", "imports", "references"])
+const MAX_TESTS = 100
+
+function confidenceFor(depth: number): TestConfidence {
+  if (depth <= 1) return "high"
+  return depth === 2 ? "medium" : "low"
+}
+
+function edgeKey(handle: string): string {
+  return handle.split("/").pop() ?? handle
+}
+
+/**
+ * Select the tests affected by changed files or a diff.
+ */
+export async function selectTests(
+  orgId: string,
+  repoId: string,
+  input: TestSelectionInput,
+  graphStore: IGraphStore
+): Promise<TestSelectionResult> {
+  const maxDepth = Math.min(Math.max(input.maxDepth ?? 4, 1), 8)
+  const [allEntities, allEdges] = await Promise.all([
+    loadAllEntities(graphStore, orgId, repoId),
+    graphStore.getAllEdges(orgId, repoId),
+  ])
+
+  // Changed entities: diff hunks narrow to overlapping entities; plain files take every entity in them
+  let changedFiles = input.files ?? []
+  let changed: EntityDoc[]
+  if (input.diff) {
+    const analysis = await analyzeDiff(input.diff, orgId, repoId, graphStore)
+    changedFiles = Array.from(new Set([...changedFiles, ...analysis.files.map((f) => f.filePath)]))
+    // File entities carry the import edges, so keep them for every touched file
+    const fromFiles = allEntities.filter(
+      (e) => (input.files ?? []).includes(e.file_path) || (e.kind === "file" && changedFiles.includes(e.file_path))
+    )
+    changed = [...analysis.affectedEntities, ...fromFiles]
+  } else {
+    changed = allEntities.filter((e) => changedFiles.includes(e.file_path))
+  }
+  const changedTests = changedFiles.filter(isTestFile)
+  changed = Array.from(new Map(changed.filter((e) => !isTestFile(e.file_path)).map((e) => [e.id, e])).values())
+
+  // Reverse adjacency: entity → entities that call / import / reference it
+  const callersOf = new Map<string, string[]>()
+  for (const edge of allEdges) {
+    if (!TRAVERSED_EDGE_KINDS.has(edge.kind)) continue
+    const to = edgeKey(edge._to)
+    const list = callersOf.get(to) ?? []
+    list.push(edgeKey(edge._from))
+    callersOf.set(to, list)
+  }
+  const byId = new Map(allEntities.map((e) => [e.id, e]))
+  const fileEntityId = new Map(allEntities.filter((e) => e.kind === "file").map((e) => [e.file_path, e.id]))
+
+  const selected = new Map<string, { depth: number; covers: Set<string> }>()
+  const select = (filePath: string, depth: number, entity: EntityDoc) => {
+    const current = selected.get(filePath) ?? { depth, covers: new Set<string>() }
+    current.depth = Math.min(current.depth, depth)
+    current.covers.add(entity.name)
+    selected.set(filePath, current)
+  }
+
+  const uncovered: TestSelectionResult["uncovered"] = []
+  for (const entity of changed) {
+    let covered = false
+
+    // Direct callers in test files plus the sibling *.test.* convention
+    for (const filePath of findTestFiles(entity.id, allEntities, allEdges)) {
+      select(filePath, 1, entity)
+      covered = true
+    }
+
+    // Transitive callers, breadth-first so the first hit per test file is the shortest.
+    // Importers of the containing module count like direct callers.
+    const containingFile = fileEntityId.get(entity.file_path)
+    let frontier = containingFile && containingFile !== entity.id ? [entity.id, containingFile] : [entity.id]
+    const visited = new Set<string>(frontier)
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = []
+      for (const id of frontier) {
+        for (const callerId of callersOf.get(id) ?? []) {
+          if (visited.has(callerId)) continue
+          visited.add(callerId)
+          const caller = byId.get(callerId)
+          if (!caller) continue
+          if (isTestFile(caller.file_path)) {
+            select(caller.file_path, depth, entity)
+            covered = true
+          } else {
+            next.push(callerId)
+          }
+        }
+      }
+      frontier = next
+    }
+
+    if (!covered && entity.kind !== "file") {
+      uncovered.push({ name: entity.name, kind: entity.kind, filePath: entity.file_path })
+    }
+  }
+
+  for (const filePath of changedTests) {
+    selected.set(filePath, { depth: 0, covers: selected.get(filePath)?.covers ?? new Set() })
+  }
+
+  const tests = Array.from(selected.entries())
+    .map(([filePath, hit]) => ({
+      filePath,
+      confidence: confidenceFor(hit.depth),
+      depth: hit.depth,
+      covers: Array.from(hit.covers),
+      cases: extractTestAssertions([filePath], allEntities),
+    }))
+    .sort((a, b) => a.depth - b.depth || a.filePath.localeCompare(b.filePath))
+    .slice(0, MAX_TESTS)
+
+  return { tests, uncovered, changedEntities: changed.length, changedTests }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+import type { EdgeDoc, EntityDoc, LayerDefinitionDoc } from "@/lib/ports/types"
+import { evaluateArchitecture, isDependencyAllowed, layerOf } from "@/lib/rules/architecture"
+import { LayerDefinitionSchema } from "@/lib/rules/schema"
+
+const ORG = "org-arch"
+const REPO = "repo-arch"
+
+const DEFINITION: Pick<LayerDefinitionDoc, "layers" | "allowed" | "edgeKinds"> = {
+  layers: [
+    { name: "ui", paths: ["app/**", "components/**"] },
+    { name: "domain", paths: ["lib/domain/**"] },
+    { name: "db", paths: ["lib/db/**"] },
+  ],
+  allowed: { ui: ["domain"], domain: ["db"] },
+}
+
+function entity(id: string, filePath: string, startLine = 1): EntityDoc {
+  return { id, org_id: ORG, repo_id: REPO, kind: "function", name: id, file_path: filePath, start_line: startLine }
+}
+
+function edge(from: string, to: string, kind: string): EdgeDoc {
+  return { _from: `functions/${from}`, _to: `functions/${to}`, org_id: ORG, repo_id: REPO, kind }
+}
+
+const ENTITIES = [
+  entity("Page", "app/page.tsx", 4),
+  entity("placeOrder", "lib/domain/orders.ts", 10),
+  entity("insertOrder", "lib/db/orders.ts", 3),
+  entity("helper", "scripts/seed.ts"),
+]
+
+describe("layerOf", () => {
+  it("assigns the first layer whose glob matches", () => {
+    expect(layerOf("components/button.tsx", DEFINITION.layers)).toBe("ui")
+    expect(layerOf("lib/db/client.ts", DEFINITION.layers)).toBe("db")
+    expect(layerOf("scripts/seed.ts", DEFINITION.layers)).toBeNull()
+  })
+})
+
+describe("isDependencyAllowed", () => {
+  it("allows same-layer and listed dependencies only", () => {
+    expect(isDependencyAllowed(DEFINITION, "ui", "ui")).toBe(true)
+    expect(isDependencyAllowed(DEFINITION, "ui", "domain")).toBe(true)
+    expect(isDependencyAllowed(DEFINITION, "ui", "db")).toBe(false)
+    expect(isDependencyAllowed(DEFINITION, "db", "domain")).toBe(false)
+  })
+})
+
+describe("evaluateArchitecture", () => {
+  it("reports disallowed imports and calls and fills the matrix", () => {
+    const report = evaluateArchitecture(DEFINITION, ENTITIES, [
+      edge("Page", "placeOrder", "calls"),
+      edge("placeOrder", "insertOrder", "calls"),
+      edge("Page", "insertOrder", "calls"),
+      edge("Page", "insertOrder", "imports"),
+      edge("helper", "insertOrder", "calls"),
+      edge("Page", "insertOrder", "references"),
+    ])
+
+    expect(report.violations.map((v) => [v.fromLayer, v.toLayer, v.edgeKind, v.source.line])).toEqual([
+      ["ui", "db", "calls", 4],
+      ["ui", "db", "imports", 4],
+    ])
+    expect(report.matrix.ui!.db).toEqual({ count: 2, allowed: false })
+    expect(report.matrix.ui!.domain).toEqual({ count: 1, allowed: true })
+    expect(report.matrix.domain!.db).toEqual({ count: 1, allowed: true })
+    expect(report.matrix.db!.ui).toEqual({ count: 0, allowed: false })
+    expect(report.checkedEdges).toBe(4)
+    expect(report.unlayeredFiles).toBe(1)
+  })
+
+  it("respects edgeKinds and sourceIds filters", () => {
+    const edges = [edge("Page", "insertOrder", "calls"), edge("Page", "insertOrder", "imports")]
+
+    const importsOnly = evaluateArchitecture({ ...DEFINITION, edgeKinds: ["imports"] }, ENTITIES, edges)
+    expect(importsOnly.violations.map((v) => v.edgeKind)).toEqual(["imports"])
+
+    const scoped = evaluateArchitecture(DEFINITION, ENTITIES, edges, { sourceIds: new Set(["placeOrder"]) })
+    expect(scoped.violations).toHaveLength(0)
+  })
+})
+
+describe("LayerDefinitionSchema", () => {
+  it("applies defaults and rejects unknown layers in the allowed matrix", () => {
+    const parsed = LayerDefinitionSchema.parse({ layers: DEFINITION.layers })
+    expect(parsed.enforcement).toBe("warn")
+    expect(parsed.allowed).toEqual({})
+
+    const bad = LayerDefinitionSchema.safeParse({ layers: DEFINITION.layers, allowed: { ui: ["adapters"] } })
+    expect(bad.success).toBe(false)
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import { applyLineSuggestions, buildLineSuggestion, rewriteWithPattern } from "../auto-remediation"
+
+describe("rewriteWithPattern", () => {
+  it("binds metavariables from the pattern into the fix", () => {
+    expect(rewriteWithPattern("console.log(user.id)", "console.log($ARG)", "logger.info($ARG)")).toBe("logger.info(user.id)")
+    expect(rewriteWithPattern("assertEq(a, b, 'msg')", "assertEq($$$ARGS)", "expect($$$ARGS)")).toBe("expect(a, b, 'msg')")
+  })
+
+  it("requires repeated metavariables to match the same text", () => {
+    expect(rewriteWithPattern("x === x", "$A === $A", "Number.isNaN($A) === false")).toBe("Number.isNaN(x) === false")
+    expect(rewriteWithPattern("x === y", "$A === $A", "true")).toBeNull()
+  })
+
+  it("returns null when the code does not match the pattern", () => {
+    expect(rewriteWithPattern("print(x)", "console.log($ARG)", "logger.info($ARG)")).toBeNull()
+  })
+})
+
+describe("buildLineSuggestion", () => {
+  const content = "function f() {\n  console.log(a)\n  return a\n}"
+
+  it("rewrites the matched columns and keeps the rest of the lines", () => {
+    expect(buildLineSuggestion(content, { line: 2, column: 3, endLine: 2, endColumn: 17 }, "logger.info(a)")).toEqual({
+      startLine: 2,
+      endLine: 2,
+      replacement: "  logger.info(a)",
+    })
+  })
+
+  it("returns null for unchanged or out-of-range replacements", () => {
+    expect(buildLineSuggestion(content, { line: 2, column: 3, endLine: 2, endColumn: 17 }, "console.log(a)")).toBeNull()
+    expect(buildLineSuggestion(content, { line: 9, column: 1, endLine: 9, endColumn: 1 }, "x")).toBeNull()
+  })
+})
+
+describe("applyLineSuggestions", () => {
+  it("applies non-overlapping suggestions bottom-up and skips overlaps", () => {
+    const content = "a\nb\nc\nd"
+    const result = applyLineSuggestions(content, [
+      { startLine: 1, endLine: 2, replacement: "ab" },
+      { startLine: 4, endLine: 4, replacement: "D\nE" },
+      { startLine: 2, endLine: 3, replacement: "overlap" },
+    ])
+
+    expect(result).toEqual({ content: "a\noverlap\nD\nE", applied: 2 })
+  })
+})
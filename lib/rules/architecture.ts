@@ -0,0 +1,139 @@
+/**
+ * Architecture conformance — layer rules as code.
+ *
+ * A repo's LayerDefinitionDoc maps file globs to layers and lists which
+ * layers each layer may depend on. The evaluator walks `imports` / `calls`
+ * edges from the graph, assigns both endpoints to layers by file path and
+ * reports every cross-layer dependency the matrix does not allow. Files
+ * matching no layer are left unchecked.
+ */
+
+import type { IGraphStore } from "@/lib/ports/graph-store"
+import type { ArchitectureLayer, EdgeDoc, EntityDoc, LayerDefinitionDoc } from "@/lib/ports/types"
+import { matchGlob } from "./resolver"
+
+export type LayerEdgeKind = "imports" | "calls"
+
+export interface LayerViolation {
+  fromLayer: string
+  toLayer: string
+  edgeKind: LayerEdgeKind
+  source: { id: string; name: string; filePath: string; line: number }
+  target: { id: string; name: string; filePath: string; line: number }
+}
+
+export interface LayerMatrixCell {
+  /** Dependencies observed from the row layer to the column layer */
+  count: number
+  allowed: boolean
+}
+
+export interface ArchitectureReport {
+  layers: string[]
+  /** matrix[from][to] for every pair of layers */
+  matrix: Record<string, Record<string, LayerMatrixCell>>
+  violations: LayerViolation[]
+  checkedEdges: number
+  unlayeredFiles: number
+}
+
+export interface EvaluateOptions {
+  /** Only edges leaving these entities (e.g. the entities a PR touches) */
+  sourceIds?: Set<string>
+}
+
+const DEFAULT_EDGE_KINDS: LayerEdgeKind[] = ["imports", "calls"]
+const MAX_VIOLATIONS = 500
+
+function edgeKey(handle: string): string {
+  return handle.split("/").pop() ?? handle
+}
+
+/** The first layer whose globs match the file, or null. */
+export function layerOf(filePath: string, layers: ArchitectureLayer[]): string | null {
+  return layers.find((layer) => layer.paths.some((glob) => matchGlob(filePath, glob)))?.name ?? null
+}
+
+export function isDependencyAllowed(definition: Pick<LayerDefinitionDoc, "allowed">, from: string, to: string): boolean {
+  return from === to || (definition.allowed[from] ?? []).includes(to)
+}
+
+/**
+ * Evaluate a layer definition against the graph's dependency edges.
+ */
+export function evaluateArchitecture(
+  definition: Pick<LayerDefinitionDoc, "layers" | "allowed" | "edgeKinds">,
+  entities: EntityDoc[],
+  edges: EdgeDoc[],
+  options: EvaluateOptions = {}
+): ArchitectureReport {
+  const layers = definition.layers.map((l) => l.name)
+  const edgeKinds = new Set<string>(definition.edgeKinds ?? DEFAULT_EDGE_KINDS)
+
+  const matrix: ArchitectureReport["matrix"] = {}
+  for (const from of layers) {
+    matrix[from] = {}
+    for (const to of layers) matrix[from]![to] = { count: 0, allowed: isDependencyAllowed(definition, from, to) }
+  }
+
+  const byId = new Map(entities.map((e) => [e.id, e]))
+  const layerByFile = new Map<string, string | null>()
+  const fileLayer = (filePath: string) => {
+    if (!layerByFile.has(filePath)) layerByFile.set(filePath, layerOf(filePath, definition.layers))
+    return layerByFile.get(filePath)!
+  }
+
+  const violations: LayerViolation[] = []
+  const seen = new Set<string>()
+  let checkedEdges = 0
+  for (const edge of edges) {
+    if (!edgeKinds.has(edge.kind)) continue
+    const sourceId = edgeKey(edge._from)
+    if (options.sourceIds && !options.sourceIds.has(sourceId)) continue
+    const source = byId.get(sourceId)
+    const target = byId.get(edgeKey(edge._to))
+    if (!source || !target || source.file_path === target.file_path) continue
+
+    const fromLayer = fileLayer(source.file_path)
+    const toLayer = fileLayer(target.file_path)
+    if (!fromLayer || !toLayer) continue
+    checkedEdges++
+    matrix[fromLayer]![toLayer]!.count++
+
+    if (isDependencyAllowed(definition, fromLayer, toLayer)) continue
+    const key = `${edge.kind}:${source.id}:${target.id}`
+    if (seen.has(key) || violations.length >= MAX_VIOLATIONS) continue
+    seen.add(key)
+    violations.push({
+      fromLayer,
+      toLayer,
+      edgeKind: edge.kind as LayerEdgeKind,
+      source: { id: source.id, name: source.name, filePath: source.file_path, line: Number(source.start_line) || 1 },
+      target: { id: target.id, name: target.name, filePath: target.file_path, line: Number(target.start_line) || 1 },
+    })
+  }
+
+  const files = new Set(entities.map((e) => e.file_path))
+  const unlayeredFiles = Array.from(files).filter((f) => !fileLayer(f)).length
+
+  violations.sort((a, b) => a.source.filePath.localeCompare(b.source.filePath) || a.source.line - b.source.line)
+  return { layers, matrix, violations, checkedEdges, unlayeredFiles }
+}
+
+/**
+ * Load the repo's layer definition and evaluate it. Null when none is defined.
+ */
+export async function checkArchitecture(
+  orgId: string,
+  repoId: string,
+  graphStore: IGraphStore,
+  options: EvaluateOptions = {}
+): Promise<{ definition: LayerDefinitionDoc; report: ArchitectureReport } | null> {
+  const definition = await graphStore.getLayerDefinition(orgId, repoId)
+  if (!definition) return null
+  const [entities, edges] = await Promise.all([
+    graphStore.getAllEntities(orgId, repoId),
+    graphStore.getAllEdges(orgId, repoId),
+  ])
+  return { definition, report: evaluateArchitecture(definition, entities, edges, options) }
+}
@@ -31,11 +31,103 @@ export async function generateAutoFixes(
     file: r.file,
     line: r.line,
     original: r.matchedCode,
-    replacement: applyFixPattern(r.matchedCode, fixPattern),
+    replacement: rewriteWithPattern(r.matchedCode, astGrepQuery, fixPattern) ?? applyFixPattern(r.matchedCode, fixPattern),
     ruleId,
   }))
 }
 
+/**
+ * Rewrite matched code with an ast-grep fix template, binding $VAR / $$$VAR
+ * metavariables by matching the rule pattern against the code.
+ * Null when the pattern does not match or the fix uses an unbound variable.
+ */
+export function rewriteWithPattern(matchedCode: string, pattern: string, fix: string): string | null {
+  const names: string[] = []
+  let source = ""
+  const tokens = pattern.trim().match(/\$\$\$[A-Z_][A-Z0-9_]*|\$[A-Z_][A-Z0-9_]*|\s+|[^$\s]+|\$/g) ?? []
+  for (const token of tokens) {
+    if (/^\s+$/.test(token)) {
+      source += "\\s*"
+    } else if (token.startsWith("$$$")) {
+      source += captureGroup(token.slice(3), "[\\s\\S]*?", names)
+    } else if (/^\$[A-Z_]/.test(token)) {
+      source += captureGroup(token.slice(1), "[\\s\\S]+?", names)
+    } else {
+      source += token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+
+  const match = new RegExp(`^${source}$`).exec(matchedCode.trim())
+  if (!match) return null
+  const bindings = new Map<string, string>()
+  names.forEach((name, i) => {
+    if (name !== "_") bindings.set(name, match[i + 1] ?? "")
+  })
+
+  let unbound = false
+  const rewritten = fix.replace(/\$\$\$([A-Z_][A-Z0-9_]*)|\$([A-Z_][A-Z0-9_]*)/g, (_, multi?: string, single?: string) => {
+    const name = multi ?? single ?? ""
+    const value = bindings.get(name)
+    if (value === undefined) unbound = true
+    return value ?? ""
+  })
+  return unbound ? null : rewritten
+}
+
+function captureGroup(name: string, body: string, names: string[]): string {
+  const existing = names.indexOf(name)
+  if (existing >= 0 && name !== "_") return `\\${existing + 1}`
+  names.push(name)
+  return `(${body})`
+}
+
+export interface LineSuggestion {
+  startLine: number
+  endLine: number
+  /** Full replacement text for lines startLine..endLine */
+  replacement: string
+}
+
+/**
+ * Expand a replacement for a matched range (1-based lines and columns) to
+ * whole lines, as a GitHub suggestion block needs.
+ */
+export function buildLineSuggestion(
+  content: string,
+  range: { line: number; column: number; endLine: number; endColumn: number },
+  replacement: string
+): LineSuggestion | null {
+  const lines = content.split("\n")
+  const first = lines[range.line - 1]
+  const last = lines[range.endLine - 1]
+  if (first === undefined || last === undefined || range.endLine < range.line) return null
+
+  const prefix = first.slice(0, Math.max(range.column - 1, 0))
+  const suffix = last.slice(Math.max(range.endColumn - 1, 0))
+  const rewritten = prefix + replacement + suffix
+  const original = lines.slice(range.line - 1, range.endLine).join("\n")
+  if (rewritten === original) return null
+  return { startLine: range.line, endLine: range.endLine, replacement: rewritten }
+}
+
+/**
+ * Apply line suggestions to file content, bottom-up. Overlapping suggestions
+ * after the first are skipped.
+ */
+export function applyLineSuggestions(content: string, suggestions: LineSuggestion[]): { content: string; applied: number } {
+  const lines = content.split("\n")
+  const sorted = [...suggestions].sort((a, b) => b.startLine - a.startLine)
+  let applied = 0
+  let floor = Number.POSITIVE_INFINITY
+  for (const s of sorted) {
+    if (s.endLine >= floor) continue
+    lines.splice(s.startLine - 1, s.endLine - s.startLine + 1, ...s.replacement.split("\n"))
+    floor = s.startLine
+    applied++
+  }
+  return { content: lines.join("\n"), applied }
+}
+
 /**
  * Apply a simple fix pattern to matched code.
  * Supports $VAR-style replacements from ast-grep.
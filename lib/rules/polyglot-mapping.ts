@@ -3,7 +3,7 @@
  */
 
 import type { Container } from "@/lib/di/container"
-import type { RuleDoc } from "@/lib/ports/types"
+import type { EdgeDoc, EntityDoc, RuleDoc } from "@/lib/ports/types"
 
 export interface PolyglotMapping {
   ruleId: string
@@ -55,3 +55,25 @@ export async function resolvePolyglotRules(
 
   return merged
 }
+
+/**
+ * Entities linked to the given one by language_implementations edges, in
+ * either direction — the same concept implemented in another language.
+ */
+export function findPolyglotCounterparts(
+  entityId: string,
+  entities: EntityDoc[],
+  edges: EdgeDoc[]
+): EntityDoc[] {
+  const byId = new Map(entities.map((e) => [e.id, e]))
+  const counterparts = new Map<string, EntityDoc>()
+  for (const edge of edges) {
+    if (edge.kind !== "language_implementations") continue
+    const from = edge._from.split("/").pop() ?? edge._from
+    const to = edge._to.split("/").pop() ?? edge._to
+    const other = from === entityId ? to : to === entityId ? from : null
+    const entity = other ? byId.get(other) : undefined
+    if (entity) counterparts.set(entity.id, entity)
+  }
+  return Array.from(counterparts.values())
+}
@@ -86,7 +86,7 @@ export async function resolveRules(
 }
 
 /** Simple glob matching — supports * and ** patterns. */
-function matchGlob(filePath: string, glob: string): boolean {
+export function matchGlob(filePath: string, glob: string): boolean {
   const regex = glob
     .replace(/\./g, "\\.")
     .replace(/\*\*/g, "{{GLOBSTAR}}")
@@ -61,7 +61,34 @@ export const CreateRuleExceptionSchema = z.object({
   ttlDays: z.number().int().min(1).max(365).optional(),
 })
 
+export const ArchitectureLayerSchema = z.object({
+  name: z.string().min(1).max(50).regex(/^[\w-]+$/, "Layer names may only contain letters, digits, _ and -"),
+  paths: z.array(z.string().min(1)).min(1),
+  description: z.string().max(500).optional(),
+})
+
+export const LayerDefinitionSchema = z
+  .object({
+    layers: z.array(ArchitectureLayerSchema).min(1).max(50),
+    allowed: z.record(z.string(), z.array(z.string())).default({}),
+    edgeKinds: z.array(z.enum(["imports", "calls"])).min(1).optional(),
+    enforcement: RuleEnforcementSchema.default("warn"),
+  })
+  .superRefine((def, ctx) => {
+    const names = new Set<string>()
+    for (const layer of def.layers) {
+      if (names.has(layer.name)) ctx.addIssue({ code: "custom", message: `Duplicate layer "${layer.name}"`, path: ["layers"] })
+      names.add(layer.name)
+    }
+    for (const [from, targets] of Object.entries(def.allowed)) {
+      for (const name of [from, ...targets]) {
+        if (!names.has(name)) ctx.addIssue({ code: "custom", message: `Unknown layer "${name}"`, path: ["allowed", from] })
+      }
+    }
+  })
+
 export type CreateRuleInput = z.infer<typeof CreateRuleSchema>
 export type UpdateRuleInput = z.infer<typeof UpdateRuleSchema>
 export type RuleFilterInput = z.infer<typeof RuleFilterSchema>
 export type CreateRuleExceptionInput = z.infer<typeof CreateRuleExceptionSchema>
+export type LayerDefinitionInput = z.infer<typeof LayerDefinitionSchema>
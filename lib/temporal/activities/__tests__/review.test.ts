@@ -172,6 +172,35 @@ describe("review activities", () => {
       expect(result.dependency).toEqual([])
     })
 
+    it("flags schema fields the raw diff removes", async () => {
+      await testContainer.graphStore.bulkUpsertEntities("org-1", [
+        { id: "msg-user", org_id: "org-1", repo_id: "repo-1", kind: "message", name: "User", file_path: "schema.graphql", start_line: 1, end_line: 4 },
+        { id: "f-email", org_id: "org-1", repo_id: "repo-1", kind: "field", name: "email", parent: "User", return_type: "String", file_path: "schema.graphql", start_line: 3, end_line: 3 },
+      ])
+      const { runChecks } = await import("@/lib/temporal/activities/review")
+
+      const result = await runChecks({
+        orgId: "org-1",
+        repoId: "repo-1",
+        diffFiles: [{ filePath: "schema.graphql", hunks: [{ startLine: 1, lineCount: 3 }] }],
+        affectedEntities: [],
+        installationId: 999,
+        rawDiff: [
+          "--- a/schema.graphql",
+          "+++ b/schema.graphql",
+          "@@ -1,4 +1,3 @@",
+          " type User {",
+          "   id: ID!",
+          "-  email: String",
+          " }",
+        ].join("\n"),
+      })
+
+      expect(result.contract.map((f) => f.breakingChange)).toEqual([
+        expect.objectContaining({ schema: "User", field: "email", change: "removed" }),
+      ])
+    })
+
     it("uses review config from relational store", async () => {
       // Store a custom config that disables all checks
       await testContainer.relationalStore.updateRepoReviewConfig("org-1", {
@@ -356,6 +385,8 @@ describe("review activities", () => {
       expect(comments.length).toBeGreaterThanOrEqual(1)
       expect(comments[0]!.filePath).toBe("src/handler.ts")
       expect(comments[0]!.checkType).toBe("pattern")
+      // Thread replies are matched to the finding by the posted comment's ID
+      expect(await testContainer.relationalStore.getPrReviewCommentByGithubId("repo-comments", comments[0]!.githubCommentId!)).toMatchObject({ id: comments[0]!.id })
     })
   })
 })
@@ -192,6 +192,7 @@ export async function vectorizeAntiPatternRule(input: {
         type: "anti-pattern-rule",
       }]
     )
+    await container.vectorSearch.flush?.(input.repoId)
 
     return { matchCount: relevantMatches.length }
   } catch (error: unknown) {
@@ -6,6 +6,7 @@
 
 import { heartbeat } from "@temporalio/activity"
 import { getContainer } from "@/lib/di/container"
+import { contextUri, markResourcesUpdated } from "@/lib/mcp/resources"
 import { logger } from "@/lib/utils/logger"
 
 export interface ContextRefreshInput {
@@ -105,6 +106,10 @@ export async function refreshKnowledgeSections(
       language: "markdown",
     })
 
+    await markResourcesUpdated(container.cacheStore, input.orgId, input.repoId, {
+      uris: [contextUri(input.repoId)],
+    }).catch(() => undefined)
+
     log.info("Context document refreshed", {
       sectionsRefreshed: uniqueSections,
       documentLength: doc.length,
@@ -679,6 +679,8 @@ export async function deleteOrphanedEmbeddingsFromGraph(
     input.repoId,
     currentEntityKeys,
   )
+  // Last write of the embedding run — persist every batch's buffered vectors at once
+  await container.vectorSearch.flush?.(input.repoId)
   const deleteMs = Date.now() - deleteStartMs
   const totalMs = Date.now() - startMs
 
@@ -704,6 +706,7 @@ export async function deleteOrphanedEmbeddings(
     input.repoId,
     currentEntityKeys
   )
+  await container.vectorSearch.flush?.(input.repoId)
   heartbeat(`Deleted ${deletedCount} orphaned embeddings`)
   return { deletedCount }
 }
@@ -798,6 +801,7 @@ export async function reEmbedWithJustifications(
     })
   }
 
+  await container.vectorSearch.flush?.(input.repoId)
   const pass2Ms = Date.now() - pass2StartMs
   const summary = `Pass 2 complete: ${totalStored} re-embedded with justification context in ${Math.round(pass2Ms / 1000)}s (${filePaths.length} files, ${totalPass2Batches} batches, ${justificationMap.size} justifications)`
   plog.log("info", "Pass 2", summary)
@@ -867,6 +871,7 @@ export async function generateAndStoreEmbeds(
 
   const container = getContainer()
   const stored = await embedAndStore(container, documents, log)
+  await container.vectorSearch.flush?.(input.repoId)
 
   log.info("Embedding generation complete", { embeddingsStored: stored })
   return { embeddingsStored: stored }
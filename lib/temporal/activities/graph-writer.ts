@@ -22,6 +22,13 @@ const KIND_TO_COLLECTION: Record<string, string> = {
   namespace: "files",
   decorator: "functions",
   directory: "files",
+  table: "classes",
+  view: "classes",
+  column: "variables",
+  resource: "classes",
+  api_operation: "functions",
+  message: "classes",
+  field: "variables",
 }
 
 export interface WriteResult {
@@ -9,6 +9,7 @@ import { getContainer } from "@/lib/di/container"
 import { synthesizeADRs } from "@/lib/justification/adr-synthesizer"
 import { aggregateFeatures } from "@/lib/justification/feature-aggregator"
 import { buildHealthReport } from "@/lib/justification/health-report-builder"
+import { adrUri, contextUri, healthUri, markResourcesUpdated } from "@/lib/mcp/resources"
 import type { FeatureAggregation } from "@/lib/ports/types"
 import type { PipelineContext } from "@/lib/temporal/activities/pipeline-logs"
 import { pipelineLogger } from "@/lib/temporal/activities/pipeline-logs"
@@ -87,6 +88,11 @@ export async function buildAndStoreHealthReport(
   await container.graphStore.upsertHealthReport(input.orgId, report)
   const storeMs = Date.now() - storeStart
 
+  // Notify MCP resource subscribers (non-fatal)
+  await markResourcesUpdated(container.cacheStore, input.orgId, input.repoId, {
+    uris: [healthUri(input.repoId), contextUri(input.repoId)],
+  }).catch(() => undefined)
+
   const totalMs = Date.now() - activityStart
   log.info("Health report generated", {
     risks: report.risks.length,
@@ -127,6 +133,10 @@ export async function synthesizeAndStoreADRs(
     await container.graphStore.bulkUpsertADRs(input.orgId, adrs)
     const storeMs = Date.now() - storeStart
     log.info("ADRs stored", { adrCount: adrs.length, storeMs })
+
+    await markResourcesUpdated(container.cacheStore, input.orgId, input.repoId, {
+      uris: [...adrs.map((adr) => adrUri(input.repoId, adr.id)), contextUri(input.repoId)],
+    }).catch(() => undefined)
   }
 
   const totalMs = Date.now() - activityStart
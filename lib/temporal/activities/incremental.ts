@@ -381,6 +381,7 @@ export async function updateEmbeddings(input: UpdateEmbeddingsInput): Promise<{
       totalUpserted += validIndices.length
     }
   }
+  await container.vectorSearch.flush?.(input.repoId)
 
   return { embeddingsUpdated: totalUpserted }
 }
@@ -643,6 +644,7 @@ export async function cascadeReJustify(input: CascadeReJustifyInput): Promise<Ca
           }
         })
         await container.vectorSearch.upsertJustificationEmbeddings(embeddings, metadata)
+        await container.vectorSearch.flush?.(input.repoId)
         heartbeat(`re-embedded ${toEmbed.length} justifications`)
       }
     } catch (error: unknown) {
@@ -6,8 +6,12 @@ import { promisify } from "node:util"
 
 const execFileAsync = promisify(execFile)
 
-import { getContainer } from "@/lib/di/container"
+import { storeScipArtifacts } from "@/lib/adapters/scip-code-intelligence"
+import { getContainer, getGitHost } from "@/lib/di/container"
 import { resolveCrossFileCalls } from "@/lib/indexer/cross-file-calls"
+import { resolveCrossFileContracts } from "@/lib/indexer/cross-file-contracts"
+import { resolveCrossFileInfra } from "@/lib/indexer/cross-file-infra"
+import { resolveCrossFileTableAccess } from "@/lib/indexer/cross-file-tables"
 import { loadIgnoreFilter } from "@/lib/indexer/ignore"
 import { extractDocComment } from "@/lib/indexer/doc-extractor"
 import { entityHash } from "@/lib/indexer/entity-hash"
@@ -16,6 +20,7 @@ import { createFileEntity } from "@/lib/indexer/languages/generic"
 import { getPluginForExtension, getPluginsForExtensions, initializeRegistry } from "@/lib/indexer/languages/registry"
 import { detectLanguagePerRoot, detectPackageRoots } from "@/lib/indexer/monorepo"
 import { detectLanguages, scanIndexDir } from "@/lib/indexer/scanner"
+import type { SCIPArtifact } from "@/lib/indexer/scip-decoder"
 import type { ParsedEdge, ParsedEntity } from "@/lib/indexer/types"
 import { MAX_BODY_LINES } from "@/lib/indexer/types"
 import type { EdgeDoc, EntityDoc } from "@/lib/ports/types"
@@ -31,7 +36,7 @@ export interface PrepareRepoIntelligenceSpaceInput extends PipelineContext {
   /** Phase 13: Git ref (e.g., "refs/heads/main") */
   ref?: string
   defaultBranch: string
-  provider?: "github" | "local_cli"
+  provider?: "github" | "gitlab" | "bitbucket" | "local_cli"
   /** @deprecated Phase 13 — only used as fallback when commitSha is not provided */
   installationId?: number
   /** @deprecated Phase 13 — only used as fallback when commitSha is not provided */
@@ -124,7 +129,7 @@ export async function prepareRepoIntelligenceSpace(input: PrepareRepoIntelligenc
     if (provider === "local_cli" && input.uploadPath) {
       await prepareLocalCliIndexDir(container, indexDir, input.uploadPath)
     } else if (input.cloneUrl) {
-      await container.gitHost.cloneRepo(input.cloneUrl, indexDir, {
+      await getGitHost(container, provider).cloneRepo(input.cloneUrl, indexDir, {
         ref: input.defaultBranch,
         installationId: input.installationId ?? 0,
       })
@@ -264,6 +269,7 @@ export async function runSCIP(input: RunSCIPInput): Promise<RunSCIPLightResult>
     python: "scip-python",
     go: "scip-go",
     java: "scip-java",
+    kotlin: "scip-java", // scip-kotlin is preferred when installed, scip-java otherwise
     c: "scip-clang",
     cpp: "scip-clang",
     csharp: "scip-dotnet",
@@ -292,6 +298,8 @@ export async function runSCIP(input: RunSCIPInput): Promise<RunSCIPLightResult>
   const allEntities: ParsedEntity[] = []
   const allEdges: ParsedEdge[] = []
   const allCoveredFiles: string[] = []
+  // Raw .scip outputs, kept for find_references / goto_definition
+  const artifacts: SCIPArtifact[] = []
 
   const files = await scanIndexDir(input.indexDir)
   const extensions = Array.from(new Set(files.map((f) => f.extension)))
@@ -315,6 +323,7 @@ export async function runSCIP(input: RunSCIPInput): Promise<RunSCIPLightResult>
         orgId: input.orgId,
         repoId: input.repoId,
         isIncluded,
+        onArtifact: (artifact) => artifacts.push(artifact),
       })
       const pluginMs = Date.now() - pluginStart
 
@@ -347,6 +356,26 @@ export async function runSCIP(input: RunSCIPInput): Promise<RunSCIPLightResult>
     }
   }
 
+  // Store the raw indexes for position queries — non-fatal, the graph doesn't need them
+  if (input.commitSha && artifacts.length > 0) {
+    heartbeat("uploading SCIP artifacts")
+    try {
+      const refs = await storeScipArtifacts(getContainer().storageProvider, {
+        orgId: input.orgId,
+        repoId: input.repoId,
+        commitSha: input.commitSha,
+        indexDir: input.indexDir,
+        artifacts,
+      })
+      log.info("SCIP artifacts stored", { roots: refs.map((r) => r.indexerRoot) })
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      log.warn("SCIP artifact upload failed", { errorMessage })
+      plog.log("warn", "Step 2/7", `Storing SCIP indexes failed: ${errorMessage}. find_references and goto_definition will use the previous index.`)
+    }
+  }
+  artifacts.length = 0
+
   heartbeat("filling source bodies for SCIP entities")
   const fillStart = Date.now()
   fillBodiesFromSource(allEntities, input.indexDir)
@@ -504,8 +533,17 @@ export async function parseRest(input: ParseRestInput): Promise<ParseRestLightRe
   const crossFileStart = Date.now()
   const crossFileEdges = resolveCrossFileCalls(allEntities, allEdges, input.repoId)
   allEdges.push(...crossFileEdges)
+  // Link code, views and migrations to SQL/Prisma tables (reads_table / writes_table)
+  const tableEdges = resolveCrossFileTableAccess(allEntities, input.repoId)
+  allEdges.push(...tableEdges)
+  // Link Terraform/Kubernetes resources to each other and code to manifest env vars
+  const infraEdges = resolveCrossFileInfra(allEntities, input.repoId)
+  allEdges.push(...infraEdges)
+  // Link schema types across files and handlers to the API operations they implement
+  const contractEdges = resolveCrossFileContracts(allEntities, input.repoId)
+  allEdges.push(...contractEdges)
   const crossFileMs = Date.now() - crossFileStart
-  log.info("Cross-file call edges resolved", { count: crossFileEdges.length, durationMs: crossFileMs })
+  log.info("Cross-file call edges resolved", { count: crossFileEdges.length, tableEdges: tableEdges.length, infraEdges: infraEdges.length, contractEdges: contractEdges.length, durationMs: crossFileMs })
 
   // Write directly to ArangoDB — no large payloads cross Temporal
   heartbeat("writing parse results to graph store")
@@ -530,6 +568,9 @@ export async function parseRest(input: ParseRestInput): Promise<ParseRestLightRe
     uncoveredFiles: uncoveredFiles.length,
     skippedOversized, skippedBinary, parseFailed,
     crossFileEdges: crossFileEdges.length,
+    tableEdges: tableEdges.length,
+    infraEdges: infraEdges.length,
+    contractEdges: contractEdges.length,
     timing: { parseMs, crossFileMs, writeMs, totalMs },
   })
   plog.log("info", "Step 3/7", `Parsing complete — ${writeResult.entitiesWritten} entities, ${writeResult.edgesWritten} edges (${writeResult.fileCount} files, ${writeResult.functionCount} functions, ${writeResult.classCount} classes) | Parse: ${parseMs}ms, CrossFile: ${crossFileMs}ms, Write: ${writeMs}ms, Total: ${totalMs}ms`)
@@ -20,6 +20,13 @@ const KIND_TO_COLLECTION: Record<string, string> = {
   namespace: "files",
   decorator: "functions",
   directory: "files",
+  table: "classes",
+  view: "classes",
+  column: "variables",
+  resource: "classes",
+  api_operation: "functions",
+  message: "classes",
+  field: "variables",
 }
 
 export interface WriteToArangoInput extends PipelineContext {
@@ -279,6 +286,7 @@ export async function wipeRepoGraphData(input: { orgId: string; repoId: string }
     if (container.vectorSearch.deleteJustificationEmbeddings) {
       embeddingsDeleted += await container.vectorSearch.deleteJustificationEmbeddings(repoId)
     }
+    await container.vectorSearch.flush?.(repoId)
   } catch (error: unknown) {
     const msg = error instanceof Error ? error.message : String(error)
     log.warn("Embedding cleanup failed (non-fatal)", { error: msg })
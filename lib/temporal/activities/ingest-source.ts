@@ -9,16 +9,17 @@
  * Runs on light-llm-queue (network-bound, not CPU-bound).
  */
 
-import { getContainer } from "@/lib/di/container"
+import { bitbucketCloneUrl } from "@/lib/adapters/bitbucket-host"
+import { getContainer, getGitHost } from "@/lib/di/container"
 import type { PipelineContext } from "@/lib/temporal/activities/pipeline-logs"
 import { pipelineLogger } from "@/lib/temporal/activities/pipeline-logs"
 import { logger } from "@/lib/utils/logger"
 
 export interface IngestSourceInput extends PipelineContext {
-  provider: "github" | "local_cli"
+  provider: "github" | "gitlab" | "bitbucket" | "local_cli"
   /** GitHub repos: installation ID for fetching clone tokens */
   installationId?: number
-  /** GitHub repos: clone URL (e.g., https://github.com/acme/app.git) */
+  /** GitHub/GitLab/Bitbucket repos: clone URL (e.g., https://github.com/acme/app.git) */
   cloneUrl?: string
   /** Default branch name (e.g., "main") */
   defaultBranch?: string
@@ -36,6 +37,7 @@ export interface IngestSourceResult {
  * latest remote state. Returns the resolved commit SHA and ref.
  *
  * GitHub repos: calls ensureCloned() + syncFromRemote() via Gitea mirror API.
+ * GitLab / Bitbucket repos: same, authenticating the mirror with the host's access token.
  * Local CLI repos: the CLI has already pushed via the Git proxy route, so we
  * just need to resolve the HEAD ref.
  */
@@ -86,6 +88,36 @@ export async function ingestSource(input: IngestSourceInput): Promise<IngestSour
     return { commitSha, ref }
   }
 
+  if (input.provider === "gitlab" || input.provider === "bitbucket") {
+    const hostName = input.provider === "gitlab" ? "GitLab" : "Bitbucket"
+    if (!input.cloneUrl) {
+      throw new Error(`[ingestSource] ${hostName} provider requires cloneUrl`)
+    }
+
+    // No installations on these hosts — the host's access token authenticates the mirror.
+    let authenticatedUrl = input.cloneUrl
+    try {
+      const token = await getGitHost(container, input.provider).getInstallationToken(0)
+      authenticatedUrl = input.provider === "gitlab"
+        ? input.cloneUrl.replace(/^https:\/\//, `https://oauth2:${token}@`)
+        : bitbucketCloneUrl(input.cloneUrl, token, process.env.BITBUCKET_USERNAME)
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error)
+      log.warn(`No ${hostName} access token, using unauthenticated URL`, { error: msg })
+    }
+
+    plog.log("info", "Step 0/7", "Ensuring bare clone exists on internal gitserver...")
+    await gitServer.ensureCloned(input.orgId, input.repoId, authenticatedUrl)
+
+    plog.log("info", "Step 0/7", "Syncing from remote origin...")
+    const commitSha = await gitServer.syncFromRemote(input.orgId, input.repoId)
+
+    const durationMs = Date.now() - start
+    log.info(`${hostName} source ingested`, { commitSha, ref, durationMs })
+    plog.log("info", "Step 0/7", `Source ingested from ${hostName} — ${commitSha.slice(0, 8)} (${durationMs}ms)`)
+    return { commitSha, ref }
+  }
+
   if (input.provider === "local_cli") {
     // For local CLI repos, the code has already been pushed to Gitea via the
     // Git proxy route. We just resolve the current HEAD.
@@ -29,6 +29,7 @@ import { checkStaleness, computeBodyHash } from "@/lib/justification/staleness-c
 import { buildTestContext } from "@/lib/justification/test-context-extractor"
 import { topologicalSortEntityIds } from "@/lib/justification/topological-sort"
 import { getMaxParallelChunks } from "@/lib/llm/config"
+import { markResourcesUpdated } from "@/lib/mcp/resources"
 import type { EntityDoc, JustificationDoc } from "@/lib/ports/types"
 import type { PipelineContext } from "@/lib/temporal/activities/pipeline-logs"
 import { pipelineLogger } from "@/lib/temporal/activities/pipeline-logs"
@@ -1158,6 +1159,7 @@ export async function embedJustifications(
     }
   }
 
+  await container.vectorSearch.flush?.(input.repoId)
   const totalMs = Date.now() - activityStart
   log.info("Justification embedding complete", { totalStored, totalChunks: Math.ceil(justifications.length / CHUNK_SIZE), timing: { fetchMs, totalMs } })
   plog.log("info", "Step 8/10", `Embedding complete — ${totalStored} vectors | Fetch: ${fetchMs}ms, Total: ${totalMs}ms`)
@@ -1256,6 +1258,9 @@ export async function warmEntityProfileCache(
   heartbeat(`caching ${profiles.size} profiles`)
   const cached = await cacheEntityProfiles(input.orgId, input.repoId, profiles, container)
 
+  // Entity profile resources (unerr://entity/{id}) changed for this repo
+  await markResourcesUpdated(container.cacheStore, input.orgId, input.repoId, { entities: true }).catch(() => undefined)
+
   log.info("Entity profile cache warmed", { profilesWarmed: cached })
   return { profilesWarmed: cached }
 }
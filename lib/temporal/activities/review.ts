@@ -1,9 +1,11 @@
 /**
- * Review activities — fetchDiff, runChecks, postReview, checkAndPostNudge
+ * Review activities — fetchDiff, runChecks, postReview, checkAndPostNudge, respondToReviewComment
  */
 
-import { getContainer } from "@/lib/di/container"
+import { getContainer, getGitHost } from "@/lib/di/container"
+import type { IGitHost } from "@/lib/ports/git-host"
 import type {
+  ArchitectureFinding,
   BlastRadiusSummary,
   ComplexityFinding,
   ContractFinding,
@@ -12,24 +14,32 @@ import type {
   EnvFinding,
   IdempotencyFinding,
   ImpactFinding,
+  MigrationFinding,
   PatternFinding,
+  ReviewConfig,
   TestFinding,
   TrustBoundaryFinding,
 } from "@/lib/ports/types"
 import { buildBlastRadiusSummary } from "@/lib/review/blast-radius"
 import { buildCheckRunOutput } from "@/lib/review/check-run-builder"
+import { runArchitectureCheck } from "@/lib/review/checks/architecture-check"
 import { runComplexityCheck } from "@/lib/review/checks/complexity-check"
 import { runContractCheck } from "@/lib/review/checks/contract-check"
 import { runDependencyCheck } from "@/lib/review/checks/dependency-check"
 import { runEnvCheck } from "@/lib/review/checks/env-check"
 import { runIdempotencyCheck } from "@/lib/review/checks/idempotency-check"
 import { runImpactCheck } from "@/lib/review/checks/impact-check"
+import { runMigrationCheck } from "@/lib/review/checks/migration-check"
 import { runPatternCheck } from "@/lib/review/checks/pattern-check"
 import { runTestCheck } from "@/lib/review/checks/test-check"
 import { runTrustBoundaryCheck } from "@/lib/review/checks/trust-boundary-check"
 import { buildReviewResult } from "@/lib/review/comment-builder"
+import { handleReviewConversation, type ReviewConversationInput, type ReviewConversationResult } from "@/lib/review/conversation"
 import { analyzeDiff } from "@/lib/review/diff-analyzer"
 import type { DiffFile } from "@/lib/review/diff-analyzer"
+import { openAutoFixPr } from "@/lib/review/fix-pr"
+import { buildConfigCheckRunOutput, type RepoConfigError, resolveReviewConfig } from "@/lib/review/repo-config"
+import { buildSarifLog, reviewFindingsToSarif } from "@/lib/review/sarif"
 import { evaluateSemanticLgtm } from "@/lib/review/semantic-lgtm"
 
 /**
@@ -44,6 +54,7 @@ export async function fetchDiffAndRunChecks(input: {
   baseSha: string
   headSha: string
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
 }): Promise<{
   hasChanges: boolean
   findings: {
@@ -56,19 +67,38 @@ export async function fetchDiffAndRunChecks(input: {
     env: EnvFinding[]
     contract: ContractFinding[]
     idempotency: IdempotencyFinding[]
+    architecture: ArchitectureFinding[]
+    migration: MigrationFinding[]
   }
   filePaths: string[]
+  /** Effective config (`.unerr/review.yml` at the base commit merged over stored settings) */
+  config: ReviewConfig
 }> {
   const container = getContainer()
-  const _token = await container.gitHost.getInstallationToken(input.installationId)
-  const rawDiff = await container.gitHost.getDiff(input.owner, input.repo, input.baseSha, input.headSha)
+  const gitHost = getGitHost(container, input.provider)
+  const _token = await gitHost.getInstallationToken(input.installationId)
+
+  const resolved = await resolveReviewConfig(container, gitHost, {
+    orgId: input.orgId,
+    repoId: input.repoId,
+    owner: input.owner,
+    repo: input.repo,
+    ref: input.baseSha,
+  })
+  if (resolved.errors.length > 0) {
+    await postConfigErrorCheckRun(gitHost, input.owner, input.repo, input.headSha, resolved.errors)
+  }
+  const config = resolved.config
+
+  const rawDiff = await gitHost.getDiff(input.owner, input.repo, input.baseSha, input.headSha)
   const result = await analyzeDiff(rawDiff, input.orgId, input.repoId, container.graphStore)
 
   if (result.files.length === 0) {
     return {
       hasChanges: false,
-      findings: { pattern: [], impact: [], test: [], complexity: [], dependency: [], trustBoundary: [], env: [], contract: [], idempotency: [] },
+      findings: { pattern: [], impact: [], test: [], complexity: [], dependency: [], trustBoundary: [], env: [], contract: [], idempotency: [], architecture: [], migration: [] },
       filePaths: [],
+      config,
     }
   }
 
@@ -79,27 +109,53 @@ export async function fetchDiffAndRunChecks(input: {
     console.error("[fetchDiffAndRunChecks] blast radius failed:", error instanceof Error ? error.message : String(error))
   }
 
-  const config = await container.relationalStore.getRepoReviewConfig(input.orgId)
   const os = await import("node:os")
   const path = await import("node:path")
   const workspacePath = path.join(os.tmpdir(), "unerr-workspaces", input.orgId, input.repoId)
 
-  const [pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency] = await Promise.all([
-    runPatternCheck(input.orgId, input.repoId, result.files, workspacePath, container.graphStore, container.patternEngine, config),
+  const [pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency, architecture, migration] = await Promise.all([
+    runPatternCheck(input.orgId, input.repoId, result.files, workspacePath, container.graphStore, container.patternEngine, config, resolved.rules),
     runImpactCheck(input.orgId, result.affectedEntities, container.graphStore, config),
     runTestCheck(result.files, workspacePath, config),
     runComplexityCheck(result.affectedEntities, config),
     runDependencyCheck(input.orgId, input.repoId, result.files, workspacePath, container.graphStore, config),
     runTrustBoundaryCheck(input.orgId, input.repoId, result.affectedEntities, container.graphStore, config).catch(() => [] as TrustBoundaryFinding[]),
     runEnvCheck(result.files as unknown as Array<{ path: string; hunks: Array<{ content: string; newStart: number }> }>, workspacePath, config).catch(() => [] as EnvFinding[]),
-    runContractCheck(input.orgId, result.affectedEntities, blastRadius, config).catch(() => [] as ContractFinding[]),
+    runContractCheck(input.orgId, result.affectedEntities, blastRadius, config, { repoId: input.repoId, rawDiff, graphStore: container.graphStore }).catch(() => [] as ContractFinding[]),
     runIdempotencyCheck(input.orgId, input.repoId, result.affectedEntities, container.graphStore, config).catch(() => [] as IdempotencyFinding[]),
+    runArchitectureCheck(input.orgId, input.repoId, result.affectedEntities, result.files, workspacePath, container.graphStore, config).catch(() => [] as ArchitectureFinding[]),
+    runMigrationCheck(input.orgId, input.repoId, rawDiff, container.graphStore, config).catch(() => [] as MigrationFinding[]),
   ])
 
   return {
     hasChanges: true,
-    findings: { pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency },
+    findings: { pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency, architecture, migration },
     filePaths: result.files.map((f) => f.filePath),
+    config,
+  }
+}
+
+/** Surface repo config validation errors as a neutral check run; best-effort. */
+async function postConfigErrorCheckRun(
+  gitHost: IGitHost,
+  owner: string,
+  repo: string,
+  headSha: string,
+  errors: RepoConfigError[]
+): Promise<void> {
+  try {
+    const checkRun = await gitHost.createCheckRun(owner, repo, {
+      name: "unerr Review Config",
+      headSha,
+      status: "in_progress",
+    })
+    await gitHost.updateCheckRun(owner, repo, checkRun.checkRunId, {
+      status: "completed",
+      conclusion: "neutral",
+      output: buildConfigCheckRunOutput(errors),
+    })
+  } catch (error: unknown) {
+    console.error("[fetchDiffAndRunChecks] Config check run failed:", error instanceof Error ? error.message : String(error))
   }
 }
 
@@ -118,6 +174,7 @@ export async function postReviewSelfSufficient(input: {
   headSha: string
   baseSha: string
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
   findings: {
     pattern: PatternFinding[]
     impact: ImpactFinding[]
@@ -128,12 +185,16 @@ export async function postReviewSelfSufficient(input: {
     env?: EnvFinding[]
     contract?: ContractFinding[]
     idempotency?: IdempotencyFinding[]
+    architecture?: ArchitectureFinding[]
+    migration?: MigrationFinding[]
   }
+  /** Effective config from fetchDiffAndRunChecks; falls back to the stored config */
+  config?: ReviewConfig
 }): Promise<void> {
   const container = getContainer()
 
   // Re-fetch diff + entities (PR-scoped, typically small)
-  const rawDiff = await container.gitHost.getDiff(input.owner, input.repo, input.baseSha, input.headSha)
+  const rawDiff = await getGitHost(container, input.provider).getDiff(input.owner, input.repo, input.baseSha, input.headSha)
   const diffResult = await analyzeDiff(rawDiff, input.orgId, input.repoId, container.graphStore)
 
   let blastRadius: BlastRadiusSummary[] = []
@@ -162,16 +223,18 @@ export async function fetchDiff(input: {
   baseSha: string
   headSha: string
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
 }): Promise<{
   files: DiffFile[]
   affectedEntities: Array<EntityDoc & { changedLines: Array<{ start: number; end: number }> }>
   blastRadius: BlastRadiusSummary[]
 }> {
   const container = getContainer()
-  const _token = await container.gitHost.getInstallationToken(input.installationId)
+  const gitHost = getGitHost(container, input.provider)
+  const _token = await gitHost.getInstallationToken(input.installationId)
 
   // Fetch diff via git host
-  const rawDiff = await container.gitHost.getDiff(input.owner, input.repo, input.baseSha, input.headSha)
+  const rawDiff = await gitHost.getDiff(input.owner, input.repo, input.baseSha, input.headSha)
 
   // Analyze diff and map to entities
   const result = await analyzeDiff(rawDiff, input.orgId, input.repoId, container.graphStore)
@@ -201,7 +264,10 @@ export async function runChecks(input: {
   diffFiles: DiffFile[]
   affectedEntities: Array<EntityDoc & { changedLines: Array<{ start: number; end: number }> }>
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
   blastRadius?: BlastRadiusSummary[]
+  /** Unified diff the diffFiles came from — enables the schema field checks of the contract check */
+  rawDiff?: string
 }): Promise<{
   pattern: PatternFinding[]
   impact: ImpactFinding[]
@@ -212,6 +278,7 @@ export async function runChecks(input: {
   env: EnvFinding[]
   contract: ContractFinding[]
   idempotency: IdempotencyFinding[]
+  architecture: ArchitectureFinding[]
 }> {
   const container = getContainer()
   const config = await container.relationalStore.getRepoReviewConfig(input.orgId)
@@ -221,7 +288,7 @@ export async function runChecks(input: {
   const workspacePath = path.join(os.tmpdir(), "unerr-workspaces", input.orgId, input.repoId)
 
   // Run all checks in parallel
-  const [pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency] = await Promise.all([
+  const [pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency, architecture] = await Promise.all([
     runPatternCheck(input.orgId, input.repoId, input.diffFiles, workspacePath, container.graphStore, container.patternEngine, config),
     runImpactCheck(input.orgId, input.affectedEntities, container.graphStore, config),
     runTestCheck(input.diffFiles, workspacePath, config),
@@ -229,11 +296,18 @@ export async function runChecks(input: {
     runDependencyCheck(input.orgId, input.repoId, input.diffFiles, workspacePath, container.graphStore, config),
     runTrustBoundaryCheck(input.orgId, input.repoId, input.affectedEntities, container.graphStore, config).catch(() => [] as TrustBoundaryFinding[]),
     runEnvCheck(input.diffFiles as unknown as Array<{ path: string; hunks: Array<{ content: string; newStart: number }> }>, workspacePath, config).catch(() => [] as EnvFinding[]),
-    runContractCheck(input.orgId, input.affectedEntities, input.blastRadius ?? [], config).catch(() => [] as ContractFinding[]),
+    runContractCheck(
+      input.orgId,
+      input.affectedEntities,
+      input.blastRadius ?? [],
+      config,
+      input.rawDiff !== undefined ? { repoId: input.repoId, rawDiff: input.rawDiff, graphStore: container.graphStore } : undefined
+    ).catch(() => [] as ContractFinding[]),
     runIdempotencyCheck(input.orgId, input.repoId, input.affectedEntities, container.graphStore, config).catch(() => [] as IdempotencyFinding[]),
+    runArchitectureCheck(input.orgId, input.repoId, input.affectedEntities, input.diffFiles, workspacePath, container.graphStore, config).catch(() => [] as ArchitectureFinding[]),
   ])
 
-  return { pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency }
+  return { pattern, impact, test, complexity, dependency, trustBoundary, env, contract, idempotency, architecture }
 }
 
 export async function runChecksHeavy(input: {
@@ -256,6 +330,7 @@ export async function postReview(input: {
   prNumber: number
   headSha: string
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
   diffFiles: DiffFile[]
   affectedEntities: Array<EntityDoc & { changedLines: Array<{ start: number; end: number }> }>
   findings: {
@@ -268,17 +343,21 @@ export async function postReview(input: {
     env?: EnvFinding[]
     contract?: ContractFinding[]
     idempotency?: IdempotencyFinding[]
+    architecture?: ArchitectureFinding[]
+    migration?: MigrationFinding[]
   }
   blastRadius: BlastRadiusSummary[]
+  config?: ReviewConfig
 }): Promise<void> {
   const container = getContainer()
+  const gitHost = getGitHost(container, input.provider)
 
   try {
     // Update review status to reviewing
     await container.relationalStore.updatePrReview(input.reviewId, { status: "reviewing" })
 
     // Get review config
-    const config = await container.relationalStore.getRepoReviewConfig(input.repoId)
+    const config = input.config ?? await container.relationalStore.getRepoReviewConfig(input.repoId)
 
     // Evaluate semantic LGTM
     let semanticLgtm = undefined
@@ -307,7 +386,9 @@ export async function postReview(input: {
       input.findings.trustBoundary ?? [],
       input.findings.env ?? [],
       input.findings.contract ?? [],
-      input.findings.idempotency ?? []
+      input.findings.idempotency ?? [],
+      input.findings.architecture ?? [],
+      input.findings.migration ?? []
     )
 
     // Build Check Run output
@@ -321,22 +402,26 @@ export async function postReview(input: {
       input.findings.trustBoundary ?? [],
       input.findings.env ?? [],
       input.findings.contract ?? [],
-      input.findings.idempotency ?? []
+      input.findings.idempotency ?? [],
+      input.findings.architecture ?? [],
+      input.findings.migration ?? []
     )
 
     let githubCheckRunId: number | null = null
     let githubReviewId: number | null = null
+    // Inline comment → its ID on the host, so thread replies can be matched to the finding
+    const postedCommentIds = new Map<(typeof reviewResult.comments)[number], number>()
 
     // Post Check Run
     try {
-      const checkRun = await container.gitHost.createCheckRun(input.owner, input.repo, {
+      const checkRun = await gitHost.createCheckRun(input.owner, input.repo, {
         name: "unerr Architecture Review",
         headSha: input.headSha,
         status: "in_progress",
       })
       githubCheckRunId = checkRun.checkRunId
 
-      await container.gitHost.updateCheckRun(input.owner, input.repo, checkRun.checkRunId, {
+      await gitHost.updateCheckRun(input.owner, input.repo, checkRun.checkRunId, {
         status: "completed",
         conclusion: checkRunOutput.conclusion,
         output: {
@@ -355,16 +440,21 @@ export async function postReview(input: {
       const commentsToPost = blockerComments.length > 0 ? blockerComments : reviewResult.comments
 
       try {
-        const review = await container.gitHost.postReview(input.owner, input.repo, input.prNumber, {
+        const review = await gitHost.postReview(input.owner, input.repo, input.prNumber, {
           event: reviewResult.action,
           body: reviewResult.body,
           comments: commentsToPost.map((c) => ({
             path: c.path,
             line: c.line,
+            startLine: c.startLine,
             body: c.body,
           })),
         })
         githubReviewId = review.reviewId
+        commentsToPost.forEach((c, i) => {
+          const id = review.commentIds[i]
+          if (id != null) postedCommentIds.set(c, id)
+        })
       } catch (error: unknown) {
         console.error("[postReview] GitHub review failed:", error instanceof Error ? error.message : String(error))
       }
@@ -381,12 +471,41 @@ export async function postReview(input: {
         message: comment.body,
         suggestion: null,
         semgrepRuleId: null,
-        ruleTitle: null,
-        githubCommentId: null,
-        autoFix: null,
+        ruleTitle: comment.ruleTitle ?? null,
+        githubCommentId: postedCommentIds.get(comment) ?? null,
+        autoFix: comment.autoFix ?? null,
       })
     }
 
+    // Follow-up PR with every auto-fixable finding applied (opt-in)
+    if (config.autoFixPrEnabled) {
+      try {
+        await openAutoFixPr(gitHost, {
+          owner: input.owner,
+          repo: input.repo,
+          prNumber: input.prNumber,
+          headSha: input.headSha,
+          findings: input.findings.pattern,
+        })
+      } catch (error: unknown) {
+        console.error("[postReview] Auto-fix PR failed:", error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    // Mirror findings into the host's code scanning alerts (opt-in)
+    if (config.sarifUploadEnabled) {
+      try {
+        const sarif = buildSarifLog(reviewFindingsToSarif(input.findings), { category: `unerr/review/${input.repoId}` })
+        await gitHost.uploadSarif(input.owner, input.repo, {
+          commitSha: input.headSha,
+          ref: `refs/pull/${input.prNumber}/head`,
+          sarif: JSON.stringify(sarif),
+        })
+      } catch (error: unknown) {
+        console.error("[postReview] SARIF upload failed:", error instanceof Error ? error.message : String(error))
+      }
+    }
+
     // Update review record
     await container.relationalStore.updatePrReview(input.reviewId, {
       status: "completed",
@@ -417,8 +536,10 @@ export async function checkAndPostNudge(input: {
   repo: string
   headSha: string
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
 }): Promise<{ action: string; reason?: string }> {
   const container = getContainer()
+  const gitHost = getGitHost(container, input.provider)
 
   // Check config
   const config = await container.relationalStore.getRepoReviewConfig(input.repoId)
@@ -434,7 +555,7 @@ export async function checkAndPostNudge(input: {
 
   // Check if PR is still open and no new commits
   try {
-    const pr = await container.gitHost.getPullRequest(input.owner, input.repo, input.prNumber)
+    const pr = await gitHost.getPullRequest(input.owner, input.repo, input.prNumber)
     if (pr.state === "closed") {
       return { action: "skipped", reason: "PR already closed" }
     }
@@ -455,11 +576,19 @@ export async function checkAndPostNudge(input: {
 
   // Post nudge comment
   const nudgeBody = buildNudgeComment(input.prNumber, blockerComments)
-  await container.gitHost.postIssueComment(input.owner, input.repo, input.prNumber, nudgeBody)
+  await gitHost.postIssueComment(input.owner, input.repo, input.prNumber, nudgeBody)
 
   return { action: "nudged" }
 }
 
+/**
+ * Answer a reply or `@unerr` command on a PR comment, in-thread.
+ */
+export async function respondToReviewComment(input: ReviewConversationInput): Promise<ReviewConversationResult> {
+  const container = getContainer()
+  return handleReviewConversation(container, getGitHost(container, input.provider), input)
+}
+
 function buildNudgeComment(
   prNumber: number,
   blockerComments: Array<{ ruleTitle: string | null; filePath: string; lineNumber: number }>
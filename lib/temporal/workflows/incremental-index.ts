@@ -89,6 +89,8 @@ export interface IncrementalIndexInput {
   orgId: string
   repoId: string
   installationId: number
+  /** Git host of the repo; defaults to GitHub */
+  provider?: "github" | "gitlab" | "bitbucket"
   cloneUrl: string
   defaultBranch: string
   workspacePath: string
@@ -194,7 +196,7 @@ export async function incrementalIndexWorkflow(input: IncrementalIndexInput): Pr
           args: [{
             orgId: input.orgId,
             repoId: input.repoId,
-            provider: "github" as const,
+            provider: input.provider ?? "github",
             installationId: input.installationId,
             cloneUrl: input.cloneUrl,
             defaultBranch: input.defaultBranch,
@@ -75,7 +75,7 @@ export const getProgressQuery = defineQuery<number>("getProgress")
 export interface IndexRepoInput {
   orgId: string
   repoId: string
-  provider: "github" | "local_cli"
+  provider: "github" | "gitlab" | "bitbucket" | "local_cli"
   /** GitHub repos: installation ID for GitHub App auth */
   installationId?: number
   /** GitHub repos: HTTPS clone URL */
@@ -32,6 +32,8 @@ export { generateAdrWorkflow } from "./generate-adr"
 export type { GenerateAdrInput } from "./generate-adr"
 export { prFollowUpWorkflow } from "./pr-follow-up"
 export type { PrFollowUpInput } from "./pr-follow-up"
+export { reviewConversationWorkflow } from "./review-conversation"
+export type { ReviewConversationInput } from "./review-conversation"
 export { minePatternsWorkflow } from "./mine-patterns"
 export type { MinePatternsInput } from "./mine-patterns"
 export { simulateRuleWorkflow } from "./simulate-rule"
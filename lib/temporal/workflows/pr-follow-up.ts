@@ -19,6 +19,7 @@ export interface PrFollowUpInput {
   repo: string
   headSha: string
   installationId: number
+  provider?: "github" | "gitlab" | "bitbucket"
   nudgeDelayHours?: number
 }
 
@@ -35,6 +36,7 @@ export async function prFollowUpWorkflow(input: PrFollowUpInput): Promise<{ acti
     repo: input.repo,
     headSha: input.headSha,
     installationId: input.installationId,
+    provider: input.provider,
   })
 
   return result
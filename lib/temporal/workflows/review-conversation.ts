@@ -0,0 +1,19 @@
+/**
+ * reviewConversationWorkflow — replies to developer comments and `@unerr` commands on PRs.
+ */
+
+import { proxyActivities } from "@temporalio/workflow"
+import type { ReviewConversationInput } from "@/lib/review/conversation"
+import type * as activities from "../activities/review"
+
+const act = proxyActivities<typeof activities>({
+  startToCloseTimeout: "2m",
+  retry: { maximumAttempts: 2 },
+})
+
+export type { ReviewConversationInput }
+
+export async function reviewConversationWorkflow(input: ReviewConversationInput): Promise<{ action: string; reason?: string }> {
+  const result = await act.respondToReviewComment(input)
+  return { action: result.action, reason: result.reason }
+}
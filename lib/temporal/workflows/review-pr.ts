@@ -16,6 +16,8 @@ export interface ReviewPrInput {
   repoId: string
   prNumber: number
   installationId: number
+  /** Git host of the repo — "gitlab" for merge requests; defaults to GitHub */
+  provider?: "github" | "gitlab" | "bitbucket"
   headSha: string
   baseSha: string
   owner: string
@@ -25,7 +27,7 @@ export interface ReviewPrInput {
 
 export async function reviewPrWorkflow(input: ReviewPrInput): Promise<void> {
   // Activity 1: Fetch diff + run all checks (combined — no large payloads in workflow)
-  const { hasChanges, findings } = await fetchDiffAndRunChecks({
+  const { hasChanges, findings, config } = await fetchDiffAndRunChecks({
     orgId: input.orgId,
     repoId: input.repoId,
     owner: input.owner,
@@ -33,6 +35,7 @@ export async function reviewPrWorkflow(input: ReviewPrInput): Promise<void> {
     baseSha: input.baseSha,
     headSha: input.headSha,
     installationId: input.installationId,
+    provider: input.provider,
   })
 
   // Activity 2: Post review (re-fetches diff internally — only findings cross Temporal)
@@ -46,8 +49,10 @@ export async function reviewPrWorkflow(input: ReviewPrInput): Promise<void> {
     headSha: input.headSha,
     baseSha: input.baseSha,
     installationId: input.installationId,
+    provider: input.provider,
     findings: hasChanges
       ? findings
-      : { pattern: [], impact: [], test: [], complexity: [], dependency: [], trustBoundary: [], env: [], contract: [], idempotency: [] },
+      : { pattern: [], impact: [], test: [], complexity: [], dependency: [], trustBoundary: [], env: [], contract: [], idempotency: [], architecture: [], migration: [] },
+    config,
   })
 }
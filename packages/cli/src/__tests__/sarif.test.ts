@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import type { CompactRule } from "../local-graph.js"
+import type { RuleViolation } from "../rule-evaluator.js"
+import { buildSarif, toSarifLevel } from "../sarif.js"
+
+const RULE: CompactRule = {
+  key: "rule-1",
+  name: "No console.log",
+  scope: "repo",
+  severity: "warn",
+  engine: "structural",
+  query: "console.log($A)",
+  message: "Use the logger instead of console.log",
+  file_glob: "",
+  enabled: true,
+  repo_id: "repo-1",
+}
+
+function violation(line: number): RuleViolation {
+  return { ruleKey: "rule-1", ruleName: "No console.log", severity: "warn", message: "console.log found", filePath: "src/a.ts", line }
+}
+
+describe("buildSarif", () => {
+  it("maps snapshot severities to SARIF levels", () => {
+    expect([toSarifLevel("error"), toSarifLevel("warn"), toSarifLevel("info")]).toEqual(["error", "warning", "note"])
+  })
+
+  it("builds a 2.1.0 log with rule metadata and line-independent fingerprints", () => {
+    const log = buildSarif([violation(3), violation(9)], [RULE], "0.1.0") as {
+      version: string
+      runs: Array<{
+        tool: { driver: { rules: Array<{ id: string; shortDescription: { text: string } }> } }
+        results: Array<{ ruleIndex: number; level: string; partialFingerprints: Record<string, string> }>
+      }>
+    }
+    const moved = buildSarif([violation(20)], [RULE], "0.1.0") as typeof log
+
+    const run = log.runs[0]!
+    expect(log.version).toBe("2.1.0")
+    expect(run.tool.driver.rules).toHaveLength(1)
+    expect(run.tool.driver.rules[0]).toMatchObject({ id: "unerr/pattern/no-console-log", shortDescription: { text: RULE.message } })
+    expect(run.results.map((r) => r.level)).toEqual(["warning", "warning"])
+    expect(run.results[0]!.partialFingerprints).toEqual(moved.runs[0]!.results[0]!.partialFingerprints)
+    expect(run.results[1]!.partialFingerprints).not.toEqual(run.results[0]!.partialFingerprints)
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * unerr check — Evaluate rules from the pulled snapshot against local files.
+ *
+ * Checks the given files (default: files changed against HEAD plus untracked files)
+ * without a server round-trip. Output as text, JSON or SARIF 2.1.0 for CI code scanning.
+ * Exits 1 when a violation at or above --fail-on is found.
+ */
+
+import { Command } from "commander"
+import { execSync } from "node:child_process"
+import { existsSync, readFileSync, writeFileSync } from "node:fs"
+import { join, relative, resolve } from "node:path"
+import { getManifest, getSnapshotBuffer } from "./pull.js"
+import type { RuleViolation } from "../rule-evaluator.js"
+
+const SEVERITY_RANK: Record<string, number> = { info: 0, warn: 1, warning: 1, error: 2 }
+
+function loadRepoId(): string | null {
+  const configPath = join(process.cwd(), ".unerr", "config.json")
+  if (!existsSync(configPath)) return null
+  return (JSON.parse(readFileSync(configPath, "utf-8")) as { repoId?: string }).repoId ?? null
+}
+
+/** Tracked files changed against HEAD plus untracked files, relative to cwd */
+function changedFiles(): string[] {
+  const run = (cmd: string) =>
+    execSync(cmd, { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).split("\n").filter(Boolean)
+  try {
+    return [...new Set([
+      ...run("git diff --name-only --diff-filter=ACMR --relative HEAD"),
+      ...run("git ls-files --others --exclude-standard"),
+    ])]
+  } catch {
+    return []
+  }
+}
+
+export function registerCheckCommand(program: Command): void {
+  program
+    .command("check [files...]")
+    .description("Check files against repo rules from the pulled snapshot")
+    .option("--repo <repoId>", "Repository ID (default: from .unerr/config.json)")
+    .option("--format <format>", "Output format: text, json, sarif", "text")
+    .option("--output <file>", "Write the report to a file instead of stdout")
+    .option("--fail-on <severity>", "Exit 1 on violations at or above: error, warn, info, none", "error")
+    .action(async (files: string[], opts: { repo?: string; format: string; output?: string; failOn: string }) => {
+      if (!["text", "json", "sarif"].includes(opts.format)) {
+        console.error(`Unknown format: ${opts.format}. Use text, json or sarif.`)
+        process.exit(2)
+      }
+      const repoId = opts.repo ?? loadRepoId()
+      if (!repoId) {
+        console.error("No repo. Run: unerr init, or pass --repo <repoId>")
+        process.exit(2)
+      }
+      const snapshot = getSnapshotBuffer(repoId)
+      if (!snapshot) {
+        console.error(`No snapshot for ${repoId}. Run: unerr pull --repo ${repoId}`)
+        process.exit(2)
+      }
+
+      let CozoDb: unknown
+      try {
+        const cozoModule = await import("cozo-node")
+        CozoDb = (cozoModule as { default?: { CozoDb: unknown }; CozoDb?: unknown }).default
+          ? (cozoModule as { default: { CozoDb: unknown } }).default.CozoDb
+          : (cozoModule as { CozoDb: unknown }).CozoDb
+      } catch (err: unknown) {
+        console.error("Failed to load cozo-node. Install it: npm install cozo-node")
+        console.error(err instanceof Error ? err.message : String(err))
+        process.exit(2)
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const db = new (CozoDb as any)() as import("../cozo-schema.js").CozoDb
+      const { CozoGraphStore } = await import("../local-graph.js")
+      const localGraph = new CozoGraphStore(db)
+      const { unpack } = await import("msgpackr")
+      localGraph.loadSnapshot(unpack(snapshot) as import("../local-graph.js").SnapshotEnvelope)
+
+      const { evaluateRules } = await import("../rule-evaluator.js")
+      const targets = (files.length > 0 ? files : changedFiles())
+        .map((f) => relative(process.cwd(), resolve(f)))
+        .filter((f) => existsSync(f))
+
+      const violations: RuleViolation[] = []
+      for (const filePath of targets) {
+        const rules = localGraph.getRules(filePath)
+        if (rules.length === 0) continue
+        const result = await evaluateRules(rules, filePath, readFileSync(filePath, "utf-8"), localGraph)
+        violations.push(...result.violations)
+      }
+
+      let report: string
+      if (opts.format === "sarif") {
+        const { buildSarif } = await import("../sarif.js")
+        report = JSON.stringify(buildSarif(violations, localGraph.getRules(), program.version() ?? "0.0.0"), null, 2)
+      } else if (opts.format === "json") {
+        report = JSON.stringify({ repoId, files: targets, violations }, null, 2)
+      } else {
+        report = violations.length === 0
+          ? `No violations in ${targets.length} file(s).`
+          : [
+              ...violations.map((v) => `${v.filePath}:${v.line ?? 1}  ${v.severity.padEnd(5)}  ${v.message}  (${v.ruleName})`),
+              "",
+              `${violations.length} violation(s) in ${targets.length} file(s) — snapshot ${getManifest(repoId)?.pulledAt ?? "unknown"}`,
+            ].join("\n")
+      }
+
+      if (opts.output) {
+        writeFileSync(opts.output, report + "\n")
+        console.error(`Wrote ${opts.format} report to ${opts.output}`)
+      } else {
+        console.log(report)
+      }
+
+      const threshold = SEVERITY_RANK[opts.failOn]
+      if (threshold !== undefined && violations.some((v) => (SEVERITY_RANK[v.severity] ?? 0) >= threshold)) {
+        process.exit(1)
+      }
+    })
+}
@@ -28,6 +28,8 @@ const ALWAYS_IGNORE = [
   ".gradle", ".mvn",
   // C# / .NET
   "bin", "obj", ".nuget",
+  // Swift / iOS
+  "Pods", "Carthage", ".build", ".swiftpm", "DerivedData",
   // Ruby
   ".bundle",
   // Generic build / tooling
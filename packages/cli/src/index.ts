@@ -14,6 +14,7 @@
  *   unerr push             — Upload local repository for indexing
  *   unerr pull             — Download graph snapshot for a repo
  *   unerr serve            — Start local MCP server with graph queries
+ *   unerr check            — Check changed files against repo rules (text, JSON or SARIF)
  *   unerr sync             — Push workspace state to unerr server (isomorphic-git)
  *   unerr sync --watch     — Watch for changes and sync continuously
  *   unerr watch            — Watch for file changes and sync to unerr server (legacy)
@@ -29,6 +30,7 @@
 import { Command } from "commander"
 import { registerAuthCommand } from "./commands/auth.js"
 import { registerBranchesCommand } from "./commands/branches.js"
+import { registerCheckCommand } from "./commands/check.js"
 import { registerCircuitResetCommand } from "./commands/circuit-reset.js"
 import { registerConfigVerifyCommand } from "./commands/config-verify.js"
 import { registerConnectCommand } from "./commands/connect.js"
@@ -59,6 +61,7 @@ program
 
 registerAuthCommand(program)
 registerBranchesCommand(program)
+registerCheckCommand(program)
 registerCircuitResetCommand(program)
 registerConfigVerifyCommand(program)
 registerConnectCommand(program)
@@ -0,0 +1,81 @@
+/**
+ * SARIF 2.1.0 output for local rule violations (`unerr check --format sarif`).
+ *
+ * Rule ids are `unerr/pattern/<slug of the snapshot rule name>` and fingerprints are
+ * line-independent (`unerrFingerprint/v1`), so alerts survive code moves between runs.
+ * Results upload under their own `unerr/check/` category: the server's review export
+ * slugs rule titles and hashes review comment text, so these alerts are tracked
+ * separately from PR review alerts rather than de-duplicated against them.
+ */
+
+import { createHash } from "node:crypto"
+import type { CompactRule } from "./local-graph.js"
+import type { RuleViolation } from "./rule-evaluator.js"
+
+type SarifLevel = "error" | "warning" | "note"
+
+/** Snapshot rule severity (error | warn | info) → SARIF level */
+export function toSarifLevel(severity: string): SarifLevel {
+  if (severity === "error") return "error"
+  if (severity === "warn" || severity === "warning") return "warning"
+  return "note"
+}
+
+function ruleId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "rule"
+  return `unerr/pattern/${slug}`
+}
+
+export function buildSarif(violations: RuleViolation[], rules: CompactRule[], toolVersion: string): Record<string, unknown> {
+  const ruleByKey = new Map(rules.map((r) => [r.key, r]))
+  const driverRules: Array<Record<string, unknown>> = []
+  const ruleIndex = new Map<string, number>()
+  const occurrences = new Map<string, number>()
+
+  const results = violations.map((v) => {
+    const id = ruleId(v.ruleName)
+    let index = ruleIndex.get(id)
+    if (index === undefined) {
+      index = driverRules.length
+      ruleIndex.set(id, index)
+      const rule = ruleByKey.get(v.ruleKey)
+      driverRules.push({
+        id,
+        name: v.ruleName,
+        shortDescription: { text: rule?.message || v.ruleName },
+        defaultConfiguration: { level: toSarifLevel(v.severity) },
+        properties: { tags: ["pattern", rule?.engine ?? "structural"] },
+      })
+    }
+
+    const identity = `${id}\n${v.filePath}\n${v.message}`
+    const occurrence = (occurrences.get(identity) ?? 0) + 1
+    occurrences.set(identity, occurrence)
+
+    return {
+      ruleId: id,
+      ruleIndex: index,
+      level: toSarifLevel(v.severity),
+      message: { text: v.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: v.filePath, uriBaseId: "%SRCROOT%" },
+          region: { startLine: Math.max(1, v.line ?? 1) },
+        },
+      }],
+      partialFingerprints: {
+        "unerrFingerprint/v1": `${createHash("sha256").update(identity).digest("hex").slice(0, 32)}:${occurrence}`,
+      },
+    }
+  })
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: { driver: { name: "unerr", informationUri: "https://unerr.dev", version: toolVersion, rules: driverRules } },
+      automationDetails: { id: "unerr/check/" },
+      results,
+    }],
+  }
+}
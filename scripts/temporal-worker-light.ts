@@ -83,7 +83,7 @@ async function createWorkerWithRetry(): Promise<Worker> {
           ...ruleDecay,
           // Phase 6: Anti-pattern
           ...antiPattern,
-          // PR review (light: fetchDiff, runChecks, postReview, checkAndPostNudge)
+          // PR review (light: fetchDiff, runChecks, postReview, checkAndPostNudge, respondToReviewComment)
           ...review,
           // Ledger merge
           ...ledgerMerge,
@@ -0,0 +1,4 @@
+-- GitLab git host support: repos imported from gitlab.com or self-managed GitLab.
+-- provider_id holds the numeric GitLab project ID (stable across renames/transfers).
+
+ALTER TYPE unerr."RepoProvider" ADD VALUE IF NOT EXISTS 'gitlab';
@@ -0,0 +1,4 @@
+-- Bitbucket git host support: repos imported from Bitbucket Cloud or Bitbucket Server / Data Center.
+-- provider_id holds the Cloud repository UUID, or the numeric Server repository ID.
+
+ALTER TYPE unerr."RepoProvider" ADD VALUE IF NOT EXISTS 'bitbucket';
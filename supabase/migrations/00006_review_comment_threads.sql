@@ -0,0 +1,5 @@
+-- Replies on PR review threads are matched to the unerr finding by the thread's root comment ID.
+
+CREATE INDEX IF NOT EXISTS idx_pr_review_comments_github_comment
+  ON unerr.pr_review_comments(github_comment_id)
+  WHERE github_comment_id IS NOT NULL;